@@ -6,101 +6,8 @@
 import * as functions from 'firebase-functions';
 import * as admin from 'firebase-admin';
 import { getScheduledDocsPerRunCap, isAutomationEnabled } from './usage-ledger';
-
-/**
- * Daily interest accrual calculation
- * Runs every day at midnight UTC
- */
-export const dailyInterestAccrual = functions.pubsub
-  .schedule('0 0 * * *')
-  .timeZone('UTC')
-  .onRun(async (context) => {
-    const db = admin.firestore();
-    const now = admin.firestore.Timestamp.now();
-    
-    // Get all active loans (guard per-agency during processing)
-    const activeLoans = await db.collection('loans')
-      .where('status', 'in', ['active', 'disbursed'])
-      .get();
-    
-    const batch = db.batch();
-    let processed = 0;
-    const perAgencyProcessed: Record<string, number> = {};
-    const perAgencyCapCache: Record<string, number> = {};
-    const automationEnabledCache: Record<string, boolean> = {};
-    
-    for (const loanDoc of activeLoans.docs) {
-      const loan = loanDoc.data();
-      const loanId = loanDoc.id;
-      const agencyId = loan.agencyId;
-
-      if (!agencyId) continue;
-
-      // Check automation enabled for this agency (cached)
-      if (automationEnabledCache[agencyId] === undefined) {
-        automationEnabledCache[agencyId] = await isAutomationEnabled(agencyId);
-      }
-      if (!automationEnabledCache[agencyId]) {
-        continue; // Skip Starter or disabled automation
-      }
-
-      // Enforce per-run cap per agency (cached)
-      if (perAgencyCapCache[agencyId] === undefined) {
-        perAgencyCapCache[agencyId] = await getScheduledDocsPerRunCap(agencyId);
-      }
-      const cap = perAgencyCapCache[agencyId];
-      if (cap > 0) {
-        perAgencyProcessed[agencyId] = perAgencyProcessed[agencyId] || 0;
-        if (perAgencyProcessed[agencyId] >= cap) {
-          continue;
-        }
-      }
-      
-      // Calculate daily interest
-      const principal = loan.principalAmount || loan.loanAmount || 0;
-      const annualRate = loan.interestRate || 0;
-      const dailyRate = annualRate / 365;
-      const dailyInterest = principal * (dailyRate / 100);
-      
-      // Update loan with accrued interest
-      const currentAccrued = loan.accruedInterest || 0;
-      batch.update(loanDoc.ref, {
-        accruedInterest: currentAccrued + dailyInterest,
-        lastInterestAccrual: now,
-        updatedAt: now,
-      });
-      
-      // Create interest accrual transaction record
-      const transactionRef = db.collection('loanTransactions').doc();
-      batch.set(transactionRef, {
-        loanId,
-        agencyId,
-        type: 'interest_accrual',
-        amount: dailyInterest,
-        date: now,
-        description: `Daily interest accrual (${dailyRate.toFixed(4)}%)`,
-        createdAt: now,
-      });
-      
-      processed++;
-      if (cap > 0) {
-        perAgencyProcessed[agencyId] = (perAgencyProcessed[agencyId] || 0) + 1;
-      }
-      
-      // Commit batch every 500 operations (Firestore limit)
-      if (processed % 500 === 0) {
-        await batch.commit();
-      }
-    }
-    
-    // Commit remaining operations
-    if (processed % 500 !== 0) {
-      await batch.commit();
-    }
-    
-    console.log(`Processed interest accrual for ${processed} loans`);
-    return null;
-  });
+import { buildAmortizationSchedule } from '../../packages/loan-rules/src/schedule';
+import { getBusinessCalendar, getDayCountConvention, getInterestCalculationMethod } from './utils/loan-settings';
 
 /**
  * Payment reminder notifications
@@ -309,41 +216,33 @@ export const generateRepaymentSchedule = functions.firestore
       const db = admin.firestore();
       const now = admin.firestore.Timestamp.now();
       
-      // Calculate repayment schedule
-      const principal = after.loanAmount || 0;
-      const interestRate = after.interestRate || 0;
-      const termMonths = after.termMonths || 12;
-      const monthlyRate = interestRate / 12 / 100;
-      
-      // Calculate monthly payment using amortization formula
-      const monthlyPayment = principal * 
-        (monthlyRate * Math.pow(1 + monthlyRate, termMonths)) /
-        (Math.pow(1 + monthlyRate, termMonths) - 1);
-      
-      const schedule: any[] = [];
-      let remainingPrincipal = principal;
-      const startDate = new Date(after.disbursementDate?.toDate() || now.toDate());
-      
-      for (let i = 0; i < termMonths; i++) {
-        const dueDate = new Date(startDate);
-        dueDate.setMonth(dueDate.getMonth() + i + 1);
-        
-        const interest = remainingPrincipal * monthlyRate;
-        const principalPayment = monthlyPayment - interest;
-        remainingPrincipal -= principalPayment;
-        
-        schedule.push({
-          loanId,
-          agencyId: after.agencyId,
-          installmentNumber: i + 1,
-          dueDate: admin.firestore.Timestamp.fromDate(dueDate),
-          amountDue: monthlyPayment,
-          principalAmount: principalPayment,
-          interestAmount: interest,
-          status: 'pending',
-          createdAt: now,
-        });
-      }
+      // Calculate repayment schedule with the shared engine, using the agency's calendar
+      const agencySnap = after.agencyId ? await db.collection('agencies').doc(after.agencyId).get() : null;
+      const agencyData = agencySnap?.data();
+      const amortization = buildAmortizationSchedule({
+        principal: after.loanAmount || 0,
+        annualRate: after.interestRate || 0,
+        durationMonths: after.termMonths || 12,
+        startDate: new Date(after.disbursementDate?.toDate() || now.toDate()),
+        method: getInterestCalculationMethod(after, agencyData),
+        frequency: after.repaymentFrequency,
+        customIntervalDays: after.customIntervalDays,
+        dayCount: getDayCountConvention(agencyData),
+        calendar: getBusinessCalendar(agencyData),
+      });
+
+      const schedule = amortization.installments.map((installment) => ({
+        loanId,
+        agencyId: after.agencyId,
+        installmentNumber: installment.installmentNumber,
+        dueDate: admin.firestore.Timestamp.fromDate(installment.dueDate),
+        amountDue: installment.amountDue,
+        principalAmount: installment.principalDue,
+        interestAmount: installment.interestDue,
+        feeAmount: installment.feeDue,
+        status: 'pending',
+        createdAt: now,
+      }));
       
       // Batch write repayment schedule
       const batch = db.batch();
@@ -354,7 +253,7 @@ export const generateRepaymentSchedule = functions.firestore
       
       await batch.commit();
       
-      console.log(`Generated repayment schedule for loan ${loanId}: ${termMonths} installments`);
+      console.log(`Generated repayment schedule for loan ${loanId}: ${amortization.numberOfInstallments} ${amortization.frequency} installments`);
     }
     
     return null;
@@ -1,13 +1,23 @@
 /**
  * Collateral Value Market Estimation Callable Function
- * Uses AI to estimate market value of collateral
+ * Prices collateral from the agency's price book in effect, and uses AI to
+ * estimate market value when the book has no price for it. Each estimate is
+ * kept under collateral_estimations with its inputs and, for price book
+ * estimates, the version, entry and adjustments used.
  */
 
 import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
 import { enforceQuota } from './usage-ledger';
 import { isInternalEmail } from './internal-bypass';
+import {
+  getEffectivePriceBook,
+  resolvePriceBookVersion,
+  valueFromPriceBook,
+  type PriceBookValuation,
+} from '../../packages/loan-rules/src/price-book';
 
-// Removed unused db reference
+const db = admin.firestore();
 
 interface CollateralEstimationRequest {
   agencyId: string;
@@ -19,6 +29,8 @@ interface CollateralEstimationRequest {
   year?: number;
   condition?: string;
   location?: string;
+  category?: string; // Equipment category
+  areaHectares?: number; // Land
 }
 
 interface CollateralEstimationResponse {
@@ -28,6 +40,39 @@ interface CollateralEstimationResponse {
   confidence: 'high' | 'medium' | 'low';
   marketAnalysis: string;
   recommendedAction: 'sell' | 'hold' | 'auction';
+  source: 'price_book' | 'estimate';
+  priceBook?: PriceBookValuation;
+}
+
+/**
+ * Value from the agency's price book in effect, if it lists the item
+ */
+async function priceFromBook(agencyId: string, data: CollateralEstimationRequest, asOf: Date): Promise<PriceBookValuation | null> {
+  const versionsSnapshot = await db.collection(`agencies/${agencyId}/price_book_versions`)
+    .where('status', '==', 'published')
+    .get();
+  const book = getEffectivePriceBook(
+    versionsSnapshot.docs.map((versionDoc) => resolvePriceBookVersion(versionDoc.id, versionDoc.data())),
+    asOf
+  );
+  return book && valueFromPriceBook(book, { ...data, asOf });
+}
+
+async function logEstimation(
+  agencyId: string,
+  data: CollateralEstimationRequest,
+  result: CollateralEstimationResponse,
+  estimatedBy: string
+): Promise<void> {
+  await db.collection(`agencies/${agencyId}/collateral_estimations`).add({
+    collateralId: data.collateralId || null,
+    input: Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)),
+    ...result,
+    estimatedBy,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  }).catch((error) => {
+    console.warn('Failed to log collateral estimation:', error);
+  });
 }
 
 export const estimateCollateralValue = functions.https.onCall(
@@ -41,8 +86,30 @@ export const estimateCollateralValue = functions.https.onCall(
 
     const { agencyId, type, brand, model, year, condition, location } = data;
 
+    const userSnap = await db.doc(`users/${context.auth.uid}`).get();
+    if (!agencyId || userSnap.data()?.agency_id !== agencyId) {
+      throw new functions.https.HttpsError('permission-denied', 'User does not belong to this agency');
+    }
+
     try {
-      // Enforce per-day quota for collateral valuation unless internal
+      // The agency's price book comes first
+      const priced = await priceFromBook(agencyId, data, new Date());
+      if (priced) {
+        const result: CollateralEstimationResponse = {
+          estimatedMarketValue: priced.value,
+          estimatedSalePrice: Math.round(priced.value * 0.65), // Quick sale
+          auctionPrice: Math.round(priced.value * 0.45), // Auction
+          confidence: 'high',
+          marketAnalysis: priced.explanation,
+          recommendedAction: priced.value > 100000 ? 'hold' : priced.value > 50000 ? 'sell' : 'auction',
+          source: 'price_book',
+          priceBook: priced,
+        };
+        await logEstimation(agencyId, data, result, context.auth.uid);
+        return result;
+      }
+
+      // Enforce per-day quota for AI collateral valuation unless internal
       if (!isInternalEmail(context)) {
         await enforceQuota(agencyId, 'collateralValuations', 1);
       }
@@ -92,14 +159,17 @@ export const estimateCollateralValue = functions.https.onCall(
       const recommendedAction: 'sell' | 'hold' | 'auction' =
         estimatedMarketValue > 100000 ? 'hold' : estimatedMarketValue > 50000 ? 'sell' : 'auction';
 
-      return {
+      const result: CollateralEstimationResponse = {
         estimatedMarketValue,
         estimatedSalePrice,
         auctionPrice,
         confidence,
         marketAnalysis,
         recommendedAction,
+        source: 'estimate',
       };
+      await logEstimation(agencyId, data, result, context.auth.uid);
+      return result;
     } catch (error: any) {
       console.error('Collateral estimation error:', error);
       throw new functions.https.HttpsError('internal', 'Estimation failed', error.message);
@@ -0,0 +1,233 @@
+/**
+ * Collateral Insurance Cloud Functions
+ * Reminds the borrower and the loan officer as an insurance policy on
+ * pledged collateral nears expiry (30, 14, 7 and 1 days before) and on the
+ * first day the asset is uninsured. Policies already renewed by a later one
+ * are skipped, and each reminder is sent once, recorded in the policy's
+ * remindersSent.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import nodemailer from 'nodemailer';
+import { enforceQuota } from './usage-ledger';
+import { buildEmailHtmlWithFooter, getAgencySenderName } from './utils/email-utils';
+import { ON_BOOK_STATUSES } from '../../packages/loan-rules/src/portfolio-analytics';
+import {
+  getInsuranceReminderDue,
+  type InsurancePolicyRecord,
+} from '../../packages/loan-rules/src/collateral-insurance';
+import { toDateValue } from '../../packages/loan-rules/src/utils';
+
+const db = admin.firestore();
+
+// Loans a policy reminder goes out for: on the book, or approved and awaiting disbursement
+const INSURED_LOAN_STATUSES = ['approved', ...ON_BOOK_STATUSES];
+
+const getTransporter = () => {
+  const emailConfig = functions.config().email;
+  if (!emailConfig?.user || !emailConfig?.password) {
+    console.warn('Email configuration not set. Email sending will be disabled.');
+    return null;
+  }
+
+  return nodemailer.createTransport({
+    service: 'gmail',
+    auth: {
+      user: emailConfig.user,
+      pass: emailConfig.password,
+    },
+  });
+};
+
+interface StoredPolicy extends InsurancePolicyRecord {
+  remindersSent?: number[];
+}
+
+function getReminderMessage(policy: StoredPolicy, assetName: string, daysBefore: number): string {
+  const expiry = policy.expiryDate.toLocaleDateString('en-GB');
+  return daysBefore === 0
+    ? `Insurance policy ${policy.policyNumber} with ${policy.insurer} on ${assetName} expired on ${expiry}. The asset secures your loan and must be insured; please renew the policy and share the new certificate.`
+    : `Insurance policy ${policy.policyNumber} with ${policy.insurer} on ${assetName} expires on ${expiry} (in ${daysBefore} day${daysBefore === 1 ? '' : 's'}). Please renew it and share the new certificate.`;
+}
+
+/**
+ * Loans an asset secures, by active lien or as recorded on the asset
+ */
+async function getSecuredLoans(
+  agencyId: string,
+  collateralId: string,
+  collateral: admin.firestore.DocumentData
+): Promise<Array<{ id: string; data: admin.firestore.DocumentData }>> {
+  const liensSnapshot = await db.collection(`agencies/${agencyId}/collateral_liens`)
+    .where('collateralId', '==', collateralId)
+    .where('status', '==', 'active')
+    .get();
+  const loanIds = new Set<string>(liensSnapshot.docs.map((lienDoc) => lienDoc.data().loanId));
+  if (collateral.loanId) {
+    loanIds.add(collateral.loanId);
+  }
+
+  const loans: Array<{ id: string; data: admin.firestore.DocumentData }> = [];
+  for (const loanId of loanIds) {
+    const loanSnap = await db.doc(`agencies/${agencyId}/loans/${loanId}`).get();
+    if (loanSnap.exists && INSURED_LOAN_STATUSES.includes(loanSnap.data()!.status)) {
+      loans.push({ id: loanId, data: loanSnap.data()! });
+    }
+  }
+  return loans;
+}
+
+/**
+ * Notify the borrower in the app and by email
+ */
+async function notifyBorrower(
+  agencyId: string,
+  loanId: string,
+  loan: admin.firestore.DocumentData,
+  title: string,
+  message: string
+): Promise<boolean> {
+  if (!loan.customerId) return false;
+
+  try {
+    await enforceQuota(agencyId, 'notificationsSent', 1);
+  } catch (quotaError) {
+    console.warn(`Notification quota exceeded for agency ${agencyId}:`, quotaError);
+    return false;
+  }
+
+  const [customerSnap, usersSnapshot] = await Promise.all([
+    db.doc(`agencies/${agencyId}/customers/${loan.customerId}`).get(),
+    db.collection('users').where('customerId', '==', loan.customerId).limit(1).get(),
+  ]);
+
+  if (!usersSnapshot.empty) {
+    await db.collection(`users/${usersSnapshot.docs[0].id}/notifications`).add({
+      type: 'insurance_expiry',
+      loanId,
+      message,
+      read: false,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  }
+
+  const email = customerSnap.data()?.email || usersSnapshot.docs[0]?.data().email;
+  const transporter = email ? getTransporter() : null;
+  if (transporter) {
+    const senderName = await getAgencySenderName(agencyId);
+    const fromEmail = functions.config().email?.user || 'noreply@tengaloans.com';
+    await transporter.sendMail({
+      from: `${senderName} <${fromEmail}>`,
+      to: email,
+      subject: `${title} – ${senderName}`,
+      html: buildEmailHtmlWithFooter(senderName, `<p>${message}</p>`),
+    });
+  }
+
+  return !usersSnapshot.empty || !!transporter;
+}
+
+/**
+ * Send the insurance expiry reminders due today for an agency
+ */
+export async function sendAgencyInsuranceReminders(agencyId: string, asOf: Date): Promise<number> {
+  const policiesSnapshot = await db.collection(`agencies/${agencyId}/collateral_insurance`)
+    .where('status', '==', 'active')
+    .get();
+  // A policy recorded without its dates cannot fall due for a reminder
+  const policies = policiesSnapshot.docs
+    .map((policyDoc) => {
+      const data = policyDoc.data();
+      return {
+        ...data,
+        id: policyDoc.id,
+        startDate: toDateValue(data.startDate),
+        expiryDate: toDateValue(data.expiryDate),
+      } as StoredPolicy;
+    })
+    .filter((policy) => policy.startDate && policy.expiryDate);
+
+  let remindersSent = 0;
+  for (const policy of policies) {
+    const daysBefore = getInsuranceReminderDue(policy, asOf);
+    if (daysBefore === null || (policy.remindersSent || []).includes(daysBefore)) continue;
+
+    // A renewal recorded ahead of expiry takes over the reminders
+    const renewed = policies.some((other) => other.id !== policy.id
+      && other.collateralId === policy.collateralId
+      && other.expiryDate.getTime() > policy.expiryDate.getTime());
+    if (renewed) continue;
+
+    const collateralSnap = await db.doc(`agencies/${agencyId}/collateral/${policy.collateralId}`).get();
+    if (!collateralSnap.exists) continue;
+    const collateral = collateralSnap.data()!;
+    const assetName = collateral.name || collateral.description || 'your collateral';
+
+    const loans = await getSecuredLoans(agencyId, policy.collateralId, collateral);
+    if (loans.length === 0) continue;
+
+    const title = daysBefore === 0 ? 'Collateral Insurance Expired' : 'Collateral Insurance Expiring';
+    const message = getReminderMessage(policy, assetName, daysBefore);
+
+    for (const loan of loans) {
+      try {
+        if (await notifyBorrower(agencyId, loan.id, loan.data, title, message)) {
+          remindersSent++;
+        }
+      } catch (error) {
+        console.error(`Failed to remind borrower on loan ${loan.id} of insurance expiry:`, error);
+      }
+
+      if (loan.data.officerId) {
+        await db.collection(`agencies/${agencyId}/notifications`).add({
+          userId: loan.data.officerId,
+          type: 'insurance_expiry',
+          title: `${title}: loan ${loan.data.loanNumber || loan.id.substring(0, 8)}`,
+          message,
+          loanId: loan.id,
+          collateralId: policy.collateralId,
+          read: false,
+          createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        remindersSent++;
+      }
+    }
+
+    await db.doc(`agencies/${agencyId}/collateral_insurance/${policy.id}`).update({
+      remindersSent: admin.firestore.FieldValue.arrayUnion(daysBefore),
+      lastReminderAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  }
+
+  return remindersSent;
+}
+
+export const collateralInsuranceReminders = functions.pubsub
+  .schedule('0 6 * * *') // 06:00 UTC daily
+  .timeZone('UTC')
+  .onRun(async (context: any) => {
+    console.log('Running collateral insurance reminders...');
+
+    try {
+      const asOf = new Date();
+      const agenciesSnapshot = await db.collection('agencies').get();
+
+      for (const agencyDoc of agenciesSnapshot.docs) {
+        try {
+          const sent = await sendAgencyInsuranceReminders(agencyDoc.id, asOf);
+          if (sent > 0) {
+            console.log(`Sent ${sent} insurance reminders for agency ${agencyDoc.id}`);
+          }
+        } catch (error) {
+          console.error(`Error sending insurance reminders for agency ${agencyDoc.id}:`, error);
+        }
+      }
+
+      console.log('Collateral insurance reminders completed successfully');
+      return null;
+    } catch (error) {
+      console.error('Error in collateral insurance reminders:', error);
+      throw error;
+    }
+  });
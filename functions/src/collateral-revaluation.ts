@@ -0,0 +1,394 @@
+/**
+ * Collateral Revaluation Cloud Functions
+ * Revalues every asset pledged under an active lien at the start of each
+ * month: its latest market valuation, or the value it was pledged at,
+ * depreciated by its type's rate to date. Each loan the assets secure then has
+ * its loan-to-value and coverage recomputed against its loan type's risk
+ * rules. A breach raises an alert and a collection task for the loan officer;
+ * alerts for breaches that have cleared are resolved. Each run is kept under
+ * collateral_revaluations/{YYYY-MM-DD}.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { getOutstandingComponents, toAllocationInstallment } from '../../packages/loan-rules/src/allocation';
+import { toLedgerDate } from '../../packages/loan-rules/src/ledger';
+import { ON_BOOK_STATUSES } from '../../packages/loan-rules/src/portfolio-analytics';
+import type { LienRecord } from '../../packages/loan-rules/src/collateral-liens';
+import {
+  assessCollateralCoverage,
+  COLLATERAL_BREACH_RULES,
+  getValuationBase,
+  getValueAvailableToLien,
+  revalueCollateral,
+  type CollateralBreach,
+  type CollateralBreachRule,
+  type CollateralCoverageAssessment,
+} from '../../packages/loan-rules/src/collateral-valuation';
+import { toDateValue } from '../../packages/loan-rules/src/utils';
+
+const db = admin.firestore();
+
+// Writes per batch (Firestore allows 500)
+const WRITES_PER_BATCH = 400;
+
+// Alert rule names, one per breach rule
+const ALERT_RULES: Record<CollateralBreachRule, string> = {
+  max_loan_to_value: 'collateral_ltv_breach',
+  min_collateral_coverage: 'collateral_coverage_breach',
+};
+
+interface RunCollateralRevaluationRequest {
+  agencyId: string;
+}
+
+export interface CollateralRevaluationSummary {
+  date: string;
+  assetsRevalued: number;
+  loansAssessed: number;
+  loansInBreach: number;
+  alertsRaised: number;
+  tasksCreated: number;
+  alertsResolved: number;
+}
+
+interface RunCollateralRevaluationResponse extends Partial<CollateralRevaluationSummary> {
+  success: boolean;
+  error?: string;
+}
+
+async function getOutstandingPrincipal(agencyId: string, loanId: string): Promise<number> {
+  const repaymentsSnapshot = await db.collection(`agencies/${agencyId}/loans/${loanId}/repayments`).get();
+  const principal = repaymentsSnapshot.docs
+    .map((repaymentDoc) => toAllocationInstallment({ id: repaymentDoc.id, ...repaymentDoc.data() }))
+    .reduce((sum, installment) => sum + getOutstandingComponents(installment).principal, 0);
+  return Math.round(principal * 100) / 100;
+}
+
+/**
+ * Raise an alert for a breach unless one is already open, and give the loan
+ * officer a collection task the first time it is raised
+ */
+async function raiseBreach(
+  agencyId: string,
+  loanId: string,
+  loan: admin.firestore.DocumentData,
+  breach: CollateralBreach
+): Promise<{ alertRaised: boolean; taskCreated: boolean }> {
+  const alertsRef = db.collection(`agencies/${agencyId}/alerts`);
+  const rule = ALERT_RULES[breach.rule];
+  const existing = await alertsRef
+    .where('loanId', '==', loanId)
+    .where('rule', '==', rule)
+    .where('status', '==', 'open')
+    .limit(1)
+    .get();
+
+  if (!existing.empty) {
+    await existing.docs[0].ref.update({
+      message: breach.message,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return { alertRaised: false, taskCreated: false };
+  }
+
+  await alertsRef.add({
+    agencyId,
+    loanId,
+    type: 'risk',
+    severity: 'high',
+    source: 'collateral_revaluation',
+    rule,
+    message: breach.message,
+    status: 'open',
+    createdAt: admin.firestore.Timestamp.now(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  if (!loan.officerId) {
+    return { alertRaised: true, taskCreated: false };
+  }
+
+  const employeeSnapshot = await db.collection(`agencies/${agencyId}/employees`)
+    .where('userId', '==', loan.officerId)
+    .limit(1)
+    .get();
+  const employee = employeeSnapshot.empty ? null : employeeSnapshot.docs[0];
+  const loanLabel = loan.loanNumber || loanId.substring(0, 8);
+  const title = `${COLLATERAL_BREACH_RULES[breach.rule]}: loan ${loanLabel}`;
+
+  await db.collection(`agencies/${agencyId}/tasks`).add({
+    title,
+    description: `${breach.message}. Ask the borrower for a part payment or additional collateral, or have the asset revalued.`,
+    assignedTo: employee?.id || null,
+    assignedToUserId: loan.officerId,
+    assignedToName: employee?.data().name || null,
+    assignedBy: null,
+    assignedByUserId: null,
+    assignedByName: 'Collateral revaluation',
+    type: 'collection',
+    priority: 'high',
+    status: 'pending',
+    dueDate: admin.firestore.Timestamp.fromDate(new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)),
+    relatedLoanId: loanId,
+    source: 'collateral_revaluation',
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  await db.collection(`agencies/${agencyId}/notifications`).add({
+    userId: loan.officerId,
+    type: 'collateral_breach',
+    title,
+    message: breach.message,
+    loanId,
+    read: false,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  }).catch((error) => {
+    console.warn(`Failed to notify officer of collateral breach on loan ${loanId}:`, error);
+  });
+
+  return { alertRaised: true, taskCreated: true };
+}
+
+/**
+ * Resolve open alerts for breach rules the loan no longer breaches
+ */
+async function resolveClearedBreaches(agencyId: string, loanId: string, breaches: CollateralBreach[]): Promise<number> {
+  const breached = breaches.map((breach) => ALERT_RULES[breach.rule]);
+  const cleared = Object.values(ALERT_RULES).filter((rule) => !breached.includes(rule));
+  if (cleared.length === 0) {
+    return 0;
+  }
+
+  const openAlerts = await db.collection(`agencies/${agencyId}/alerts`)
+    .where('loanId', '==', loanId)
+    .where('rule', 'in', cleared)
+    .where('status', '==', 'open')
+    .get();
+  for (const alertDoc of openAlerts.docs) {
+    await alertDoc.ref.update({
+      status: 'resolved',
+      resolvedAt: admin.firestore.Timestamp.now(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  }
+  return openAlerts.size;
+}
+
+/**
+ * Revalue an agency's pledged collateral and check the loans it secures
+ */
+export async function revalueAgencyCollateral(agencyId: string, asOf: Date): Promise<CollateralRevaluationSummary> {
+  const date = toLedgerDate(asOf);
+  const [liensSnapshot, loanTypesSnap] = await Promise.all([
+    db.collection(`agencies/${agencyId}/collateral_liens`).where('status', '==', 'active').get(),
+    db.doc(`agencies/${agencyId}/config/loanTypes`).get(),
+  ]);
+  const loanTypes = loanTypesSnap.exists ? loanTypesSnap.data()?.loanTypes || {} : {};
+
+  const liens = liensSnapshot.docs.map((lienDoc) => ({
+    id: lienDoc.id,
+    ...lienDoc.data(),
+    pledgedAt: toDateValue(lienDoc.data().pledgedAt),
+  } as LienRecord & { pledgedAt: Date | null }));
+
+  const liensByAsset = new Map<string, typeof liens>();
+  for (const lien of liens) {
+    liensByAsset.set(lien.collateralId, [...(liensByAsset.get(lien.collateralId) || []), lien]);
+  }
+
+  // Revalue each pledged asset
+  const assetValues = new Map<string, number>();
+  let batch = db.batch();
+  let writes = 0;
+  const flush = async () => {
+    if (writes > 0) {
+      await batch.commit();
+      batch = db.batch();
+      writes = 0;
+    }
+  };
+
+  for (const [collateralId, assetLiens] of liensByAsset) {
+    const collateralRef = db.doc(`agencies/${agencyId}/collateral/${collateralId}`);
+    const collateralSnap = await collateralRef.get();
+    if (!collateralSnap.exists) {
+      continue;
+    }
+    const collateral = collateralSnap.data()!;
+    const firstPledgedAt = assetLiens
+      .map((lien) => lien.pledgedAt)
+      .filter((pledgedAt): pledgedAt is Date => !!pledgedAt)
+      .sort((a, b) => a.getTime() - b.getTime())[0];
+    const marketValuation = collateral.marketValuation
+      ? { value: Number(collateral.marketValuation.value || 0), valuedAt: toDateValue(collateral.marketValuation.valuedAt) || asOf }
+      : null;
+
+    const revaluation = revalueCollateral({
+      base: getValuationBase(collateral, firstPledgedAt || toDateValue(collateral.createdAt) || asOf, marketValuation),
+      asOf,
+      type: collateral.type,
+      year: Number(collateral.year) || null,
+    });
+    assetValues.set(collateralId, revaluation.value);
+
+    const stored = {
+      ...revaluation,
+      baseDate: admin.firestore.Timestamp.fromDate(revaluation.baseDate),
+      date,
+    };
+    batch.update(collateralRef, {
+      currentValue: revaluation.value,
+      lastRevaluation: stored,
+      lastRevaluedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    batch.set(collateralRef.collection('valuations').doc(date), {
+      ...stored,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    writes += 2;
+    if (writes >= WRITES_PER_BATCH) {
+      await flush();
+    }
+  }
+  await flush();
+
+  // Recompute each secured loan's loan-to-value and coverage
+  const summary: CollateralRevaluationSummary = {
+    date,
+    assetsRevalued: assetValues.size,
+    loansAssessed: 0,
+    loansInBreach: 0,
+    alertsRaised: 0,
+    tasksCreated: 0,
+    alertsResolved: 0,
+  };
+
+  const loanIds = [...new Set(liens.map((lien) => lien.loanId))];
+  for (const loanId of loanIds) {
+    const loanRef = db.doc(`agencies/${agencyId}/loans/${loanId}`);
+    const loanSnap = await loanRef.get();
+    const loan = loanSnap.data();
+    if (!loan || !ON_BOOK_STATUSES.includes(loan.status)) {
+      continue;
+    }
+
+    const collateralValue = liens
+      .filter((lien) => lien.loanId === loanId && assetValues.has(lien.collateralId))
+      .reduce((sum, lien) => sum + getValueAvailableToLien(
+        assetValues.get(lien.collateralId)!,
+        lien,
+        liensByAsset.get(lien.collateralId) || []
+      ), 0);
+
+    const assessment: CollateralCoverageAssessment = assessCollateralCoverage({
+      exposure: await getOutstandingPrincipal(agencyId, loanId),
+      collateralValue,
+      riskRules: loanTypes[loan.loanType]?.riskRules,
+    });
+    summary.loansAssessed++;
+
+    await loanRef.update({
+      collateralMonitoring: {
+        ...assessment,
+        date,
+        assessedAt: admin.firestore.Timestamp.now(),
+      },
+    });
+
+    if (assessment.breaches.length > 0) {
+      summary.loansInBreach++;
+    }
+    for (const breach of assessment.breaches) {
+      const raised = await raiseBreach(agencyId, loanId, loan, breach);
+      if (raised.alertRaised) summary.alertsRaised++;
+      if (raised.taskCreated) summary.tasksCreated++;
+    }
+    summary.alertsResolved += await resolveClearedBreaches(agencyId, loanId, assessment.breaches);
+  }
+
+  await db.doc(`agencies/${agencyId}/collateral_revaluations/${date}`).set({
+    ...summary,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  return summary;
+}
+
+export const monthlyCollateralRevaluation = functions.pubsub
+  .schedule('0 4 1 * *') // 04:00 UTC on the first of every month
+  .timeZone('UTC')
+  .onRun(async (context: any) => {
+    console.log('Running collateral revaluation job...');
+
+    try {
+      const asOf = new Date();
+      const agenciesSnapshot = await db.collection('agencies').get();
+
+      for (const agencyDoc of agenciesSnapshot.docs) {
+        try {
+          const summary = await revalueAgencyCollateral(agencyDoc.id, asOf);
+          console.log(
+            `Revalued ${summary.assetsRevalued} assets for agency ${agencyDoc.id}: ${summary.loansInBreach} of ${summary.loansAssessed} loans in breach`
+          );
+        } catch (error) {
+          console.error(`Error revaluing collateral for agency ${agencyDoc.id}:`, error);
+        }
+      }
+
+      console.log('Collateral revaluation job completed successfully');
+      return null;
+    } catch (error) {
+      console.error('Error in collateral revaluation job:', error);
+      throw error;
+    }
+  });
+
+/**
+ * Revalue an agency's collateral now, e.g. after recording new market valuations (callable)
+ */
+export const runCollateralRevaluation = functions.https.onCall(
+  async (data: RunCollateralRevaluationRequest, context): Promise<RunCollateralRevaluationResponse> => {
+    if (!context.auth) {
+      return { success: false, error: 'User must be authenticated' };
+    }
+
+    const { agencyId } = data;
+    if (!agencyId) {
+      return { success: false, error: 'agencyId is required' };
+    }
+
+    const userId = context.auth.uid;
+
+    try {
+      const userSnap = await db.doc(`users/${userId}`).get();
+      const userData = userSnap.data();
+      if (!userData || userData.agency_id !== agencyId) {
+        return { success: false, error: 'User does not belong to this agency' };
+      }
+      if (userData.role !== 'admin' && !(userData.role === 'employee' && userData.employee_category === 'manager')) {
+        return { success: false, error: 'Only admins and managers can run a collateral revaluation' };
+      }
+
+      const result = await revalueAgencyCollateral(agencyId, new Date());
+
+      await db.collection(`agencies/${agencyId}/audit_logs`).add({
+        actorId: userId,
+        action: 'collateral_revaluation_run',
+        targetCollection: 'collateral_revaluations',
+        targetId: result.date,
+        metadata: result,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      }).catch(() => {});
+
+      return { success: true, ...result };
+    } catch (error: any) {
+      console.error('Error running collateral revaluation:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to run collateral revaluation',
+      };
+    }
+  }
+);
@@ -7,6 +7,10 @@
 
 import * as functions from 'firebase-functions';
 import * as admin from 'firebase-admin';
+import { toAllocationInstallment } from '../../packages/loan-rules/src/allocation';
+import { calculateSettlementQuote, netRefinanceSettlements } from '../../packages/loan-rules/src/settlement';
+import { getDayCountConvention, getSettlementRebateConfig } from './utils/loan-settings';
+import { REFINANCEABLE_STATUSES } from './utils/loan-settlement';
 
 const db = admin.firestore();
 
@@ -15,6 +19,7 @@ interface CreateLoanRequest {
   customerId: string;
   loanType: string;
   idempotencyKey?: string;
+  refinanceLoanIds?: string[]; // Existing loans of the customer consolidated by this top-up
   payload: {
     borrower: any;
     terms: any;
@@ -78,6 +83,73 @@ async function getAgencyLoanConfig(agencyId: string): Promise<any | null> {
   }
 }
 
+/**
+ * Quote the settlement of the loans a top-up consolidates and net it against the new principal
+ */
+async function buildRefinance(
+  agencyId: string,
+  customerId: string,
+  loanIds: string[],
+  newPrincipal: number
+): Promise<{ refinance: any | null; errors: string[] }> {
+  const errors: string[] = [];
+  const agencySnap = await db.doc(`agencies/${agencyId}`).get();
+  const agencyData = agencySnap.data();
+  const settlementDate = new Date();
+  const loans: Array<{ loanId: string; loanNumber: string | null; payoffAmount: number }> = [];
+
+  for (const loanId of Array.from(new Set(loanIds))) {
+    const loanSnap = await db.doc(`agencies/${agencyId}/loans/${loanId}`).get();
+    if (!loanSnap.exists) {
+      errors.push(`Loan ${loanId} to refinance was not found`);
+      continue;
+    }
+
+    const loan = loanSnap.data()!;
+    if (loan.customerId !== customerId) {
+      errors.push(`Loan ${loan.loanNumber || loanId} belongs to a different customer`);
+      continue;
+    }
+    if (!REFINANCEABLE_STATUSES.includes(loan.status) || loan.refinancedBy) {
+      errors.push(`Loan ${loan.loanNumber || loanId} cannot be refinanced (${loan.status})`);
+      continue;
+    }
+
+    const repaymentsSnap = await loanSnap.ref.collection('repayments').get();
+    const startDate = loan.disbursedAt?.toDate?.() || (loan.disbursed_at ? new Date(loan.disbursed_at) : null) ||
+      loan.createdAt?.toDate?.() || settlementDate;
+    const quote = calculateSettlementQuote({
+      installments: repaymentsSnap.docs.map((d) => toAllocationInstallment({ id: d.id, ...d.data() })),
+      settlementDate,
+      startDate,
+      rebate: getSettlementRebateConfig(agencyData),
+      dayCount: getDayCountConvention(agencyData),
+    });
+
+    loans.push({ loanId, loanNumber: loan.loanNumber || null, payoffAmount: quote.payoffAmount });
+  }
+
+  if (errors.length > 0) {
+    return { refinance: null, errors };
+  }
+
+  const netting = netRefinanceSettlements(newPrincipal, loans);
+  if (netting.netDisbursement < 0) {
+    errors.push(`Amount must cover the settlement of the refinanced loans (${netting.settlementTotal.toLocaleString()})`);
+    return { refinance: null, errors };
+  }
+
+  return {
+    refinance: {
+      loanIds: loans.map((l) => l.loanId),
+      loans,
+      settlementTotal: netting.settlementTotal,
+      netDisbursement: netting.netDisbursement,
+      quotedAt: settlementDate.toISOString(),
+    },
+    errors,
+  };
+}
 
 /**
  * Validate loan payload against loan type configuration
@@ -165,7 +237,7 @@ export const createLoan = functions.https.onCall(
       };
     }
 
-    const { agencyId, customerId, loanType, idempotencyKey, payload } = data;
+    const { agencyId, customerId, loanType, idempotencyKey, refinanceLoanIds, payload } = data;
 
     try {
       // Check idempotency
@@ -234,6 +306,31 @@ export const createLoan = functions.https.onCall(
         };
       }
 
+      // Top-up: settlement of consolidated loans is netted against the new principal
+      if (loanType === 'refinancing' && !refinanceLoanIds?.length) {
+        return {
+          success: false,
+          errors: ['Select the existing loans to refinance'],
+        };
+      }
+
+      let refinance: any = null;
+      if (refinanceLoanIds?.length) {
+        const refinanceResult = await buildRefinance(
+          agencyId,
+          customerId,
+          refinanceLoanIds,
+          Number(payload.terms?.amount || 0)
+        );
+        if (refinanceResult.errors.length > 0) {
+          return {
+            success: false,
+            errors: refinanceResult.errors,
+          };
+        }
+        refinance = refinanceResult.refinance;
+      }
+
       // Create loan in transaction
       const loanId = await db.runTransaction(async (transaction) => {
         // Check idempotency again within transaction
@@ -276,6 +373,7 @@ export const createLoan = functions.https.onCall(
         loanData.employment = payload.employment || null;
         loanData.business = payload.business || null;
         loanData.guarantor = payload.guarantor || null;
+        loanData.refinance = refinance;
 
         // Add idempotency key if provided
         if (idempotencyKey) {
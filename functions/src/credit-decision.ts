@@ -0,0 +1,130 @@
+/**
+ * Credit Decision Callable Function
+ *
+ * Gathers the facts of a loan application, evaluates them against the loan
+ * type's decision rules and stores the resulting trace on the loan. Firestore
+ * rules keep the trace read-only to clients, so every automated
+ * approve/refer/decline on record was produced here.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import {
+  buildApplicationFacts,
+  composeDecisionRules,
+  evaluateCreditDecision,
+  type CreditDecision,
+} from '../../packages/loan-rules/src/decision-rules';
+import { getInterestCalculationMethod } from './utils/loan-settings';
+
+const db = admin.firestore();
+
+interface RunCreditDecisionRequest {
+  agencyId: string;
+  loanId: string;
+}
+
+interface RunCreditDecisionResponse {
+  success: boolean;
+  error?: string;
+  decision?: CreditDecision;
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const parsed = Number(value);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Evaluate a loan application and store the decision trace on the loan (callable)
+ */
+export const runCreditDecision = functions.https.onCall(
+  async (data: RunCreditDecisionRequest, context): Promise<RunCreditDecisionResponse> => {
+    if (!context.auth) {
+      return { success: false, error: 'User must be authenticated' };
+    }
+
+    const { agencyId, loanId } = data;
+    if (!agencyId || !loanId) {
+      return { success: false, error: 'agencyId and loanId are required' };
+    }
+
+    const userId = context.auth.uid;
+
+    try {
+      const userSnap = await db.doc(`users/${userId}`).get();
+      const userData = userSnap.data();
+      if (!userData || userData.agency_id !== agencyId) {
+        return { success: false, error: 'User does not belong to this agency' };
+      }
+      if (userData.role !== 'admin' && userData.role !== 'employee') {
+        return { success: false, error: 'Only agency staff can run a credit decision' };
+      }
+
+      const agencyRef = db.collection('agencies').doc(agencyId);
+      const loanRef = agencyRef.collection('loans').doc(loanId);
+      const loanSnap = await loanRef.get();
+      const loan = loanSnap.data();
+      if (!loan) {
+        return { success: false, error: 'Loan not found' };
+      }
+
+      const customerId = loan.customerId || loan.customer_id;
+      const [agencySnap, loanTypesSnap, customerSnap, customerLoansSnap, collateralSnap] = await Promise.all([
+        agencyRef.get(),
+        agencyRef.collection('config').doc('loanTypes').get(),
+        customerId ? agencyRef.collection('customers').doc(customerId).get() : Promise.resolve(null),
+        customerId ? agencyRef.collection('loans').where('customerId', '==', customerId).get() : Promise.resolve(null),
+        loanRef.collection('collateral').get(),
+      ]);
+
+      const otherLoans = (customerLoansSnap?.docs || [])
+        .filter((loanDoc) => loanDoc.id !== loanId)
+        .map((loanDoc) => loanDoc.data());
+      const collateralValues = collateralSnap.docs
+        .map((collateralDoc) => toNumber(collateralDoc.data().estimatedValue ?? collateralDoc.data().value))
+        .filter((value): value is number => value !== undefined);
+      const collateralValue = collateralValues.length > 0
+        ? collateralValues.reduce((sum, value) => sum + value, 0)
+        : undefined;
+
+      const facts = buildApplicationFacts(
+        loan,
+        customerSnap?.data() || {},
+        otherLoans,
+        collateralValue,
+        getInterestCalculationMethod(null, agencySnap.data())
+      );
+      const loanTypeConfig = loan.loanType ? loanTypesSnap.data()?.loanTypes?.[loan.loanType] : null;
+      const rules = composeDecisionRules(loanTypeConfig?.riskRules, loanTypeConfig?.decisionRules || []);
+      const decision = evaluateCreditDecision(rules, facts);
+
+      await loanRef.update({
+        creditDecision: { ...decision, evaluatedBy: userId },
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+
+      await agencyRef.collection('audit_logs').add({
+        actorId: userId,
+        action: 'credit_decision',
+        targetCollection: 'loans',
+        targetId: loanId,
+        metadata: {
+          outcome: decision.outcome,
+          rulesEvaluated: decision.rulesEvaluated,
+          hits: decision.hits.map((hit) => ({ ruleId: hit.ruleId, outcome: hit.outcome })),
+        },
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      }).catch(() => {});
+
+      return { success: true, decision };
+    } catch (error: any) {
+      console.error('Error running credit decision:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to run credit decision',
+      };
+    }
+  }
+);
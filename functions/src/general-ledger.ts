@@ -0,0 +1,577 @@
+/**
+ * General Ledger Cloud Functions
+ *
+ * Posts balanced journal entries for loan events (disbursement, repayment,
+ * reversal, write-off and recovery; accruals, late fees and provisions are
+ * posted by their scheduled jobs) and
+ * lets accountants post manual entries, reverse entries and reopen periods.
+ * Journal entries are only written here: Firestore rules reject client writes.
+ *
+ * Entry ids are derived from the event so a retried trigger or job never
+ * posts the same event twice.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import {
+  buildDisbursementEntry,
+  buildRecoveryEntry,
+  buildRepaymentEntry,
+  buildReversalEntry,
+  buildWriteOffEntry,
+  getPeriodId,
+  getSystemAccountCodes,
+  isPeriodLocked,
+  resolveChartOfAccounts,
+  resolvePostingDate,
+  toLedgerDate,
+  validateJournalEntry,
+  type JournalEntryDraft,
+  type JournalLine,
+  type SystemAccountCodes,
+} from '../../packages/loan-rules/src/ledger';
+import { toDateValue } from '../../packages/loan-rules/src/utils';
+
+const db = admin.firestore();
+
+// Automatic postings are attributed to the system rather than a user
+export const SYSTEM_POSTER = 'system';
+
+interface PostJournalEntryOptions {
+  postedBy?: string;
+  rejectLockedPeriod?: boolean; // Manual entries may not be moved out of a locked period
+}
+
+interface PostJournalEntryResult {
+  posted: boolean;
+  duplicate?: boolean;
+  entryId: string;
+  date?: string;
+}
+
+interface PostManualJournalEntryRequest {
+  agencyId: string;
+  date: string;
+  memo: string;
+  lines: JournalLine[];
+}
+
+interface ReverseJournalEntryRequest {
+  agencyId: string;
+  entryId: string;
+  reason?: string;
+  date?: string;
+}
+
+interface LockAccountingPeriodRequest {
+  agencyId: string;
+  periodId: string; // Last period to stay locked (YYYY-MM)
+}
+
+interface LedgerCallableResponse {
+  success: boolean;
+  error?: string;
+  entryId?: string;
+  lockedThrough?: string | null;
+}
+
+function agencyLedger(agencyId: string) {
+  const agencyRef = db.collection('agencies').doc(agencyId);
+  return {
+    entries: agencyRef.collection('journal_entries'),
+    chartRef: agencyRef.collection('config').doc('chartOfAccounts'),
+    periodsRef: agencyRef.collection('config').doc('accountingPeriods'),
+  };
+}
+
+/**
+ * Account codes for an agency's automatic postings
+ */
+export async function getSystemAccounts(agencyId: string): Promise<SystemAccountCodes> {
+  const chartSnap = await agencyLedger(agencyId).chartRef.get();
+  return getSystemAccountCodes(resolveChartOfAccounts(chartSnap.exists ? chartSnap.data() as any : null));
+}
+
+/**
+ * Post a journal entry under a fixed id. Posting the same id again is a no-op.
+ * An automatic posting dated in a locked period is booked on the first open day.
+ */
+export async function postJournalEntry(
+  agencyId: string,
+  entryId: string,
+  draft: JournalEntryDraft,
+  options: PostJournalEntryOptions = {}
+): Promise<PostJournalEntryResult> {
+  const { entries, chartRef, periodsRef } = agencyLedger(agencyId);
+  const entryRef = entries.doc(entryId);
+
+  return db.runTransaction(async (transaction): Promise<PostJournalEntryResult> => {
+    const [entrySnap, chartSnap, periodsSnap] = await Promise.all([
+      transaction.get(entryRef),
+      transaction.get(chartRef),
+      transaction.get(periodsRef),
+    ]);
+    if (entrySnap.exists) {
+      return { posted: false, duplicate: true, entryId };
+    }
+
+    const originalRef = draft.reversesEntryId ? entries.doc(draft.reversesEntryId) : null;
+    if (originalRef) {
+      const originalSnap = await transaction.get(originalRef);
+      if (!originalSnap.exists) {
+        throw new Error(`Journal entry ${draft.reversesEntryId} not found`);
+      }
+      if (originalSnap.data()?.reversedByEntryId) {
+        throw new Error(`Journal entry ${draft.reversesEntryId} has already been reversed`);
+      }
+    }
+
+    const accounts = resolveChartOfAccounts(chartSnap.exists ? chartSnap.data() as any : null);
+    const errors = validateJournalEntry(draft, accounts);
+    if (errors.length > 0) {
+      throw new Error(`Invalid journal entry: ${errors.join('; ')}`);
+    }
+
+    const lockedThrough: string | null = periodsSnap.data()?.lockedThrough || null;
+    if (options.rejectLockedPeriod && isPeriodLocked(getPeriodId(draft.date), lockedThrough)) {
+      throw new Error(`Period ${getPeriodId(draft.date)} is locked`);
+    }
+    const date = resolvePostingDate(draft.date, lockedThrough);
+
+    transaction.set(entryRef, {
+      ...draft,
+      id: entryId,
+      date,
+      eventDate: draft.date,
+      periodId: getPeriodId(date),
+      totalDebit: Math.round(draft.lines.reduce((sum, line) => sum + line.debit, 0) * 100) / 100,
+      accountCodes: [...new Set(draft.lines.map((line) => line.accountCode))],
+      postedBy: options.postedBy || SYSTEM_POSTER,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    if (originalRef) {
+      transaction.update(originalRef, { reversedByEntryId: entryId });
+    }
+
+    return { posted: true, entryId, date };
+  });
+}
+
+/**
+ * Whether a user may post to and lock the ledger
+ */
+export async function getLedgerUser(
+  agencyId: string,
+  userId: string
+): Promise<{ error?: string; isAdmin?: boolean }> {
+  const userSnap = await db.doc(`users/${userId}`).get();
+  if (!userSnap.exists) {
+    return { error: 'User not found' };
+  }
+
+  const userData = userSnap.data()!;
+  if (userData.agency_id !== agencyId) {
+    return { error: 'User does not belong to this agency' };
+  }
+
+  const isAdmin = userData.role === 'admin';
+  if (!isAdmin && !(userData.role === 'employee' && userData.employee_category === 'accountant')) {
+    return { error: 'Only admins and accountants can manage the general ledger' };
+  }
+
+  return { isAdmin };
+}
+
+function writeLedgerAuditLog(
+  agencyId: string,
+  entry: { actorId: string; action: string; targetId: string; metadata: any }
+): Promise<unknown> {
+  const logRef = db.collection('agencies').doc(agencyId).collection('audit_logs').doc();
+  return logRef.set({
+    id: logRef.id,
+    actorId: entry.actorId,
+    action: entry.action,
+    targetCollection: 'journal_entries',
+    targetId: entry.targetId,
+    metadata: entry.metadata,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+/**
+ * Trigger: post the disbursement when a loan is disbursed
+ */
+export const postDisbursementJournal = functions.firestore
+  .document('agencies/{agencyId}/loans/{loanId}')
+  .onUpdate(async (change, context) => {
+    const { agencyId, loanId } = context.params;
+    const before = change.before.data();
+    const after = change.after.data();
+
+    if (before.status === 'disbursed' || after.status !== 'disbursed') {
+      return;
+    }
+
+    const amount = Number(after.amount ?? after.terms?.amount ?? 0);
+    if (amount <= 0) {
+      console.warn(`Loan ${loanId} was disbursed without an amount; nothing posted`);
+      return;
+    }
+
+    try {
+      const codes = await getSystemAccounts(agencyId);
+      const disbursedOn = toDateValue(after.disbursementDate) || new Date();
+      await postJournalEntry(
+        agencyId,
+        `disbursement_${loanId}`,
+        buildDisbursementEntry(codes, { loanId, amount, date: toLedgerDate(disbursedOn) }),
+        { postedBy: after.disbursed_by || SYSTEM_POSTER }
+      );
+    } catch (error) {
+      console.error(`Error posting disbursement of loan ${loanId}:`, error);
+      throw error;
+    }
+  });
+
+/**
+ * Trigger: post the write-off when a loan is written off
+ */
+export const postWriteOffJournal = functions.firestore
+  .document('agencies/{agencyId}/loans/{loanId}')
+  .onUpdate(async (change, context) => {
+    const { agencyId, loanId } = context.params;
+    const before = change.before.data();
+    const after = change.after.data();
+
+    if (before.status === 'written_off' || after.status !== 'written_off' || !after.writeOff) {
+      return;
+    }
+
+    try {
+      const codes = await getSystemAccounts(agencyId);
+      await postJournalEntry(
+        agencyId,
+        `write_off_${loanId}`,
+        buildWriteOffEntry(codes, {
+          loanId,
+          date: after.writeOff.writtenOffOn || toLedgerDate(new Date()),
+          principal: Number(after.writeOff.principal || 0),
+          interest: Number(after.writeOff.interest || 0),
+          penalties: Number(after.writeOff.penalties || 0),
+        }),
+        { postedBy: after.writeOff.approvedBy || SYSTEM_POSTER }
+      );
+    } catch (error) {
+      console.error(`Error posting write-off of loan ${loanId}:`, error);
+      throw error;
+    }
+  });
+
+/**
+ * Trigger: post a recovery on a written-off loan
+ */
+export const postRecoveryJournal = functions.firestore
+  .document('agencies/{agencyId}/loans/{loanId}/recoveries/{recoveryId}')
+  .onCreate(async (snapshot, context) => {
+    const { agencyId, loanId, recoveryId } = context.params;
+    const recovery = snapshot.data();
+    const amount = Number(recovery.amount || 0);
+    if (amount <= 0) {
+      return;
+    }
+
+    const recoveredOn = toDateValue(recovery.recoveryDate) || toDateValue(recovery.createdAt) || new Date();
+
+    try {
+      const codes = await getSystemAccounts(agencyId);
+      await postJournalEntry(
+        agencyId,
+        `recovery_${loanId}_${recoveryId}`,
+        buildRecoveryEntry(codes, { loanId, recoveryId, date: toLedgerDate(recoveredOn), amount }),
+        { postedBy: recovery.recordedBy || SYSTEM_POSTER }
+      );
+    } catch (error) {
+      console.error(`Error posting recovery ${recoveryId} on loan ${loanId}:`, error);
+      throw error;
+    }
+  });
+
+/**
+ * Trigger: post a payment as it was allocated
+ */
+export const postPaymentJournal = functions.firestore
+  .document('agencies/{agencyId}/loans/{loanId}/payments/{paymentId}')
+  .onCreate(async (snapshot, context) => {
+    const { agencyId, loanId, paymentId } = context.params;
+    const payment = snapshot.data();
+
+    // Payments recorded without a schedule have no split and only reduce principal
+    const allocation = payment.allocation || { principal: Number(payment.amount || 0) };
+    const paidOn = toDateValue(payment.paymentDate) || toDateValue(payment.recordedAt) || new Date();
+
+    try {
+      const codes = await getSystemAccounts(agencyId);
+      await postJournalEntry(
+        agencyId,
+        `repayment_${loanId}_${paymentId}`,
+        buildRepaymentEntry(codes, {
+          loanId,
+          paymentId,
+          date: toLedgerDate(paidOn),
+          allocation,
+          creditAmount: Number(payment.creditAmount || 0),
+        }),
+        { postedBy: payment.recordedBy || SYSTEM_POSTER }
+      );
+    } catch (error) {
+      console.error(`Error posting payment ${paymentId} on loan ${loanId}:`, error);
+      throw error;
+    }
+  });
+
+/**
+ * Trigger: reverse a payment's posting when the payment is reversed
+ */
+export const postPaymentReversalJournal = functions.firestore
+  .document('agencies/{agencyId}/loans/{loanId}/payments/{paymentId}')
+  .onUpdate(async (change, context) => {
+    const { agencyId, loanId, paymentId } = context.params;
+    const before = change.before.data();
+    const after = change.after.data();
+
+    if (before.status === 'reversed' || after.status !== 'reversed') {
+      return;
+    }
+
+    const entryId = `repayment_${loanId}_${paymentId}`;
+    const entrySnap = await agencyLedger(agencyId).entries.doc(entryId).get();
+    if (!entrySnap.exists) {
+      console.warn(`Payment ${paymentId} on loan ${loanId} was reversed but never posted`);
+      return;
+    }
+
+    try {
+      const reversedOn = toDateValue(after.reversedAt) || new Date();
+      await postJournalEntry(
+        agencyId,
+        `reversal_${entryId}`,
+        buildReversalEntry(
+          { id: entryId, ...(entrySnap.data() as any) },
+          toLedgerDate(reversedOn),
+          after.reversalReason
+        ),
+        { postedBy: after.reversedBy || SYSTEM_POSTER }
+      );
+    } catch (error) {
+      console.error(`Error reversing payment ${paymentId} on loan ${loanId}:`, error);
+      throw error;
+    }
+  });
+
+/**
+ * Post a manual journal entry (callable)
+ */
+export const postManualJournalEntry = functions.https.onCall(
+  async (data: PostManualJournalEntryRequest, context): Promise<LedgerCallableResponse> => {
+    if (!context.auth) {
+      return { success: false, error: 'User must be authenticated' };
+    }
+
+    const { agencyId, date, memo, lines } = data;
+    if (!agencyId || !date || !memo?.trim() || !Array.isArray(lines)) {
+      return { success: false, error: 'agencyId, date, memo and lines are required' };
+    }
+
+    const userId = context.auth.uid;
+
+    try {
+      const ledgerUser = await getLedgerUser(agencyId, userId);
+      if (ledgerUser.error) {
+        return { success: false, error: ledgerUser.error };
+      }
+
+      const entryId = agencyLedger(agencyId).entries.doc().id;
+      await postJournalEntry(
+        agencyId,
+        entryId,
+        {
+          eventType: 'manual',
+          date,
+          memo: memo.trim(),
+          lines: lines.map((line) => ({
+            accountCode: String(line.accountCode),
+            debit: Math.round(Number(line.debit || 0) * 100) / 100,
+            credit: Math.round(Number(line.credit || 0) * 100) / 100,
+            ...(line.memo ? { memo: line.memo } : {}),
+          })),
+        },
+        { postedBy: userId, rejectLockedPeriod: true }
+      );
+
+      await writeLedgerAuditLog(agencyId, {
+        actorId: userId,
+        action: 'journal_entry_posted',
+        targetId: entryId,
+        metadata: { date, memo },
+      }).catch(() => {});
+
+      return { success: true, entryId };
+    } catch (error: any) {
+      console.error('Error posting manual journal entry:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to post journal entry',
+      };
+    }
+  }
+);
+
+/**
+ * Reverse a posted journal entry (callable)
+ */
+export const reverseJournalEntry = functions.https.onCall(
+  async (data: ReverseJournalEntryRequest, context): Promise<LedgerCallableResponse> => {
+    if (!context.auth) {
+      return { success: false, error: 'User must be authenticated' };
+    }
+
+    const { agencyId, entryId, reason } = data;
+    if (!agencyId || !entryId) {
+      return { success: false, error: 'agencyId and entryId are required' };
+    }
+
+    const userId = context.auth.uid;
+
+    try {
+      const ledgerUser = await getLedgerUser(agencyId, userId);
+      if (ledgerUser.error) {
+        return { success: false, error: ledgerUser.error };
+      }
+
+      const entrySnap = await agencyLedger(agencyId).entries.doc(entryId).get();
+      if (!entrySnap.exists) {
+        return { success: false, error: 'Journal entry not found' };
+      }
+      if (entrySnap.data()?.eventType === 'reversal') {
+        return { success: false, error: 'A reversal cannot itself be reversed' };
+      }
+
+      const reversalId = `reversal_${entryId}`;
+      await postJournalEntry(
+        agencyId,
+        reversalId,
+        buildReversalEntry({ id: entryId, ...(entrySnap.data() as any) }, data.date || toLedgerDate(new Date()), reason),
+        { postedBy: userId }
+      );
+
+      await writeLedgerAuditLog(agencyId, {
+        actorId: userId,
+        action: 'journal_entry_reversed',
+        targetId: entryId,
+        metadata: { reversalId, reason: reason || '' },
+      }).catch(() => {});
+
+      return { success: true, entryId: reversalId };
+    } catch (error: any) {
+      console.error('Error reversing journal entry:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to reverse journal entry',
+      };
+    }
+  }
+);
+
+/**
+ * The last locked period, null while every period is open
+ */
+export async function getLockedThrough(agencyId: string): Promise<string | null> {
+  return (await agencyLedger(agencyId).periodsRef.get()).data()?.lockedThrough || null;
+}
+
+/**
+ * Move the period lock, keeping a history of every move
+ */
+export async function setLockedThrough(
+  agencyId: string,
+  periodId: string | null,
+  previous: string | null,
+  userId: string
+): Promise<void> {
+  await agencyLedger(agencyId).periodsRef.set({
+    lockedThrough: periodId,
+    lockedBy: userId,
+    lockedAt: admin.firestore.FieldValue.serverTimestamp(),
+    history: admin.firestore.FieldValue.arrayUnion({
+      lockedThrough: periodId,
+      previous,
+      changedBy: userId,
+      changedAt: new Date().toISOString(),
+    }),
+  }, { merge: true });
+
+  await writeLedgerAuditLog(agencyId, {
+    actorId: userId,
+    action: previous && (!periodId || periodId < previous) ? 'accounting_period_reopened' : 'accounting_period_locked',
+    targetId: 'accountingPeriods',
+    metadata: { lockedThrough: periodId, previous },
+  }).catch(() => {});
+}
+
+/**
+ * Reopen locked periods after a month (callable). Periods are locked by the
+ * period-end close; moving the lock back is limited to admins and marks the
+ * reopened periods' close snapshots as superseded.
+ */
+export const lockAccountingPeriod = functions.https.onCall(
+  async (data: LockAccountingPeriodRequest, context): Promise<LedgerCallableResponse> => {
+    if (!context.auth) {
+      return { success: false, error: 'User must be authenticated' };
+    }
+
+    const { agencyId, periodId } = data;
+    if (!agencyId || !/^\d{4}-\d{2}$/.test(periodId || '')) {
+      return { success: false, error: 'agencyId and a period (YYYY-MM) are required' };
+    }
+
+    const userId = context.auth.uid;
+
+    try {
+      const ledgerUser = await getLedgerUser(agencyId, userId);
+      if (ledgerUser.error) {
+        return { success: false, error: ledgerUser.error };
+      }
+
+      const previous = await getLockedThrough(agencyId);
+      if (!previous || periodId >= previous) {
+        return { success: false, error: 'Periods are locked by closing them at period end' };
+      }
+      if (!ledgerUser.isAdmin) {
+        return { success: false, error: 'Only admins can reopen a locked period' };
+      }
+
+      await setLockedThrough(agencyId, periodId, previous, userId);
+
+      const reopened = await db
+        .collection(`agencies/${agencyId}/period_closes`)
+        .where('periodId', '>', periodId)
+        .get();
+      for (const closeDoc of reopened.docs.filter((candidate) => candidate.data().status === 'closed')) {
+        await closeDoc.ref.update({
+          status: 'reopened',
+          reopenedBy: userId,
+          reopenedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+      }
+
+      return { success: true, lockedThrough: periodId };
+    } catch (error: any) {
+      console.error('Error locking accounting period:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to lock accounting period',
+      };
+    }
+  }
+);
@@ -16,7 +16,7 @@ export { sendInvitationEmail } from './send-invitation-email';
 
 // Export other functions (can be deployed individually or all at once)
 export { loanValidation } from './loan-validation';
-export { interestAccrual } from './interest-accrual';
+export { interestAccrual, reviseAccrualsOnPayment } from './interest-accrual';
 export { checkOverdueLoans } from './overdue-checker';
 export { updateLoanStatuses } from './status-updater';
 export { estimateCollateralValue } from './collateral-estimation';
@@ -27,7 +27,6 @@ export { generateThumbnail } from './thumbnail-generator';
 export { createCheckoutSession, stripeWebhook } from './stripe-checkout';
 export { deepseekProxy } from './deepseek-proxy';
 export {
-  dailyInterestAccrual,
   paymentReminders,
   overdueLoanChecker,
   generateRepaymentSchedule,
@@ -50,6 +49,25 @@ export { onAgencyCreate } from './agency-triggers';
 export { validateCustomerDelete } from './validate-customer-delete';
 export { validateLoanDelete } from './validate-loan-delete';
 export { validateLoanUpdate } from './validate-loan-update';
+export { transitionLoanStatus, syncLoanStatus } from './transition-loan-status';
+export { runCreditDecision } from './credit-decision';
+export {
+  postDisbursementJournal,
+  postPaymentJournal,
+  postPaymentReversalJournal,
+  postWriteOffJournal,
+  postRecoveryJournal,
+  postManualJournalEntry,
+  reverseJournalEntry,
+  lockAccountingPeriod,
+} from './general-ledger';
+export { reversePayment } from './payment-reversal';
+export { closeTellerSession } from './teller-sessions';
+export { monthlyProvisioning, runProvisioning } from './provisioning';
+export { dailyPortfolioSnapshot } from './portfolio-snapshots';
+export { previewPeriodClose, closeAccountingPeriod } from './period-close';
+export { monthlyCollateralRevaluation, runCollateralRevaluation } from './collateral-revaluation';
+export { collateralInsuranceReminders } from './collateral-insurance';
 
 // Customer Lifecycle (Onboarding & Invitations)
 export {
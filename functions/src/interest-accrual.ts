@@ -1,14 +1,332 @@
 /**
  * Automatic Interest Accrual Cloud Function
- * Calculates and updates interest daily/weekly/monthly
+ * Accrues each loan's interest one day at a time on the principal outstanding
+ * that day. Every day is recorded in the loan's accruals subcollection under
+ * its date and booked in the general ledger, so missed days are caught up and
+ * a re-run never accrues a day twice. A backdated or reversed payment reverses
+ * and re-accrues the days it changed. Non-performing loans stop accruing to
+ * income; their interest is recorded as held in suspense. Journal entries are
+ * posted before the days are recorded: their ids are fixed by loan, day and
+ * revision, so a run interrupted in between re-posts nothing twice.
  */
 
 import * as functions from 'firebase-functions';
 import * as admin from 'firebase-admin';
+import { getDayCountConvention, getInterestCalculationMethod } from './utils/loan-settings';
+import {
+  buildInterestAccrualEntry,
+  buildReversalEntry,
+  toLedgerDate,
+  type SystemAccountCodes,
+} from '../../packages/loan-rules/src/ledger';
+import {
+  computeDailyAccruals,
+  getAccrualEntryId,
+  getDaysPastDueOn,
+  getDaysToAccrue,
+  isNonPerforming,
+  reviseAccruals,
+  type AccrualTerms,
+  type DailyAccrual,
+  type InstallmentDueDates,
+  type PrincipalMovement,
+  type RecordedAccrual,
+} from '../../packages/loan-rules/src/accrual';
+import { getSystemAccounts, postJournalEntry } from './general-ledger';
+import { toDateValue } from '../../packages/loan-rules/src/utils';
 
 const db = admin.firestore();
 
-// Removed unused interface
+const ACCRUING_STATUSES = ['disbursed', 'active', 'overdue', 'restructuring', 'restructured', 'defaulted'];
+
+// Days written per batch, leaving room for the loan update (Firestore allows 500 writes)
+const DAYS_PER_BATCH = 400;
+
+function getAccrualTerms(loan: admin.firestore.DocumentData, agencyData: admin.firestore.DocumentData | undefined): AccrualTerms | null {
+  const disbursedOn = toDateValue(loan.disbursementDate);
+  // A restructure replaces the principal with what was outstanding plus capitalized arrears
+  const restructuredOn = toDateValue(loan.lastRestructuredAt);
+  const principal = Number((restructuredOn ? loan.restructuredPrincipal : null) ?? loan.amount ?? 0);
+  if (!disbursedOn || principal <= 0) {
+    return null;
+  }
+
+  // The original maturity no longer applies to a restructured schedule
+  const maturesOn = restructuredOn ? null : toDateValue(loan.maturityDate);
+  return {
+    principal,
+    annualRate: Number(loan.interestRate || 0),
+    method: getInterestCalculationMethod(loan, agencyData),
+    dayCount: getDayCountConvention(agencyData),
+    disbursementDate: toLedgerDate(disbursedOn),
+    ...(maturesOn ? { maturityDate: toLedgerDate(maturesOn) } : {}),
+    ...(restructuredOn ? { restructuredOn: toLedgerDate(restructuredOn) } : {}),
+  };
+}
+
+/**
+ * Last day already accrued. Loans accrued before per-day records existed only
+ * carry the timestamp of the last run, which covered the day before it.
+ */
+export function getLastAccruedDate(loan: admin.firestore.DocumentData): string | null {
+  if (loan.lastAccruedDate) {
+    return loan.lastAccruedDate;
+  }
+  const legacyRun = toDateValue(loan.lastAccrualDate);
+  if (!legacyRun) {
+    return null;
+  }
+  return toLedgerDate(new Date(legacyRun.getTime() - 24 * 60 * 60 * 1000));
+}
+
+/**
+ * Principal repaid by each payment still standing on a loan, by payment date.
+ * Payments recorded before the last restructure are already out of the
+ * restructured principal.
+ */
+async function getPrincipalMovements(agencyId: string, loanId: string, loan: admin.firestore.DocumentData): Promise<PrincipalMovement[]> {
+  const paymentsSnapshot = await db.collection(`agencies/${agencyId}/loans/${loanId}/payments`).get();
+  const restructuredAt = toDateValue(loan.lastRestructuredAt);
+
+  return paymentsSnapshot.docs
+    .map((paymentDoc) => paymentDoc.data())
+    .filter((payment) => payment.status !== 'reversed')
+    .filter((payment) => {
+      const recordedAt = toDateValue(payment.recordedAt) || toDateValue(payment.paymentDate);
+      return !restructuredAt || !recordedAt || recordedAt.getTime() >= restructuredAt.getTime();
+    })
+    .map((payment) => {
+      // Payments recorded without a schedule have no split and only reduce principal
+      const principal = payment.allocation ? Number(payment.allocation.principal || 0) : Number(payment.amount || 0);
+      const paidOn = toDateValue(payment.paymentDate) || toDateValue(payment.recordedAt) || new Date();
+      return { date: toLedgerDate(paidOn), principal };
+    })
+    .filter((movement) => movement.principal > 0);
+}
+
+/**
+ * When each installment fell due and was paid off, to tell how far past due the loan was on a day
+ */
+async function getInstallmentDueDates(agencyId: string, loanId: string): Promise<InstallmentDueDates[]> {
+  const repaymentsSnapshot = await db.collection(`agencies/${agencyId}/loans/${loanId}/repayments`).get();
+
+  return repaymentsSnapshot.docs.flatMap((repaymentDoc) => {
+    const repayment = repaymentDoc.data();
+    const dueDate = toDateValue(repayment.dueDate);
+    if (!dueDate) return [];
+    const paidOn = repayment.status === 'paid' ? toDateValue(repayment.paidAt) || toDateValue(repayment.lastPaymentDate) : null;
+    return [{ dueDate: toLedgerDate(dueDate), paidOn: paidOn ? toLedgerDate(paidOn) : null }];
+  });
+}
+
+function sumAccruals(accruals: DailyAccrual[], suspended: boolean): number {
+  const total = accruals
+    .filter((accrual) => accrual.suspended === suspended)
+    .reduce((sum, accrual) => sum + accrual.amount, 0);
+  return Math.round(total * 100) / 100;
+}
+
+/**
+ * Whether a day's accrual is booked to income (suspended and zero days are not)
+ */
+function isBooked(accrual: DailyAccrual): boolean {
+  return !accrual.suspended && accrual.amount > 0;
+}
+
+async function postAccrual(
+  agencyId: string,
+  loanId: string,
+  codes: SystemAccountCodes,
+  accrual: DailyAccrual,
+  revision: number
+): Promise<void> {
+  await postJournalEntry(
+    agencyId,
+    getAccrualEntryId(loanId, accrual.date, revision),
+    buildInterestAccrualEntry(codes, { loanId, amount: accrual.amount, date: accrual.date })
+  );
+}
+
+/**
+ * Accrue every day from the last accrued day through a date
+ */
+async function accrueLoan(
+  agencyId: string,
+  loanDoc: admin.firestore.QueryDocumentSnapshot,
+  agencyData: admin.firestore.DocumentData,
+  through: string,
+  codes: () => Promise<SystemAccountCodes>
+): Promise<number> {
+  const loanId = loanDoc.id;
+  const loan = loanDoc.data();
+  const terms = getAccrualTerms(loan, agencyData);
+  if (!terms) {
+    return 0;
+  }
+
+  const days = getDaysToAccrue(terms, getLastAccruedDate(loan), through);
+  if (days.length === 0) {
+    return 0;
+  }
+
+  const [movements, installments] = await Promise.all([
+    getPrincipalMovements(agencyId, loanId, loan),
+    getInstallmentDueDates(agencyId, loanId),
+  ]);
+  const isSuspended = (date: string) => isNonPerforming(loan.status, getDaysPastDueOn(installments, date));
+
+  for (let start = 0; start < days.length; start += DAYS_PER_BATCH) {
+    const accruals = computeDailyAccruals(terms, movements, days.slice(start, start + DAYS_PER_BATCH), isSuspended);
+
+    // Posted first: a failed posting leaves the days unrecorded, so the next run retries them
+    const booked = accruals.filter(isBooked);
+    if (booked.length > 0) {
+      const ledgerCodes = await codes();
+      for (const accrual of booked) {
+        await postAccrual(agencyId, loanId, ledgerCodes, accrual, 0);
+      }
+    }
+
+    const batch = db.batch();
+
+    for (const accrual of accruals) {
+      batch.set(db.doc(`agencies/${agencyId}/loans/${loanId}/accruals/${accrual.date}`), {
+        ...accrual,
+        annualRate: terms.annualRate,
+        revision: 0,
+        journalEntryId: isBooked(accrual) ? getAccrualEntryId(loanId, accrual.date, 0) : null,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+
+    batch.update(loanDoc.ref, {
+      accruedInterest: admin.firestore.FieldValue.increment(sumAccruals(accruals, false)),
+      interestInSuspense: admin.firestore.FieldValue.increment(sumAccruals(accruals, true)),
+      accrualSuspended: accruals[accruals.length - 1].suspended,
+      lastAccruedDate: accruals[accruals.length - 1].date,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    await batch.commit();
+  }
+
+  return days.length;
+}
+
+/**
+ * Reverse and re-accrue the days from a date on that no longer match the
+ * principal outstanding, e.g. after a backdated or reversed payment
+ */
+export async function reviseLoanAccruals(
+  agencyId: string,
+  loanId: string,
+  fromDate: string,
+  reason: string
+): Promise<number> {
+  const [agencyDoc, loanSnap] = await Promise.all([
+    db.doc(`agencies/${agencyId}`).get(),
+    db.doc(`agencies/${agencyId}/loans/${loanId}`).get(),
+  ]);
+  if (!loanSnap.exists) {
+    return 0;
+  }
+
+  const loan = loanSnap.data()!;
+  const terms = getAccrualTerms(loan, agencyDoc.data());
+  if (!terms) {
+    return 0;
+  }
+
+  const [movements, accrualsSnapshot] = await Promise.all([
+    getPrincipalMovements(agencyId, loanId, loan),
+    db.collection(`agencies/${agencyId}/loans/${loanId}/accruals`).where('date', '>=', fromDate).get(),
+  ]);
+  const recorded = new Map<string, { accrual: RecordedAccrual; journalEntryId: string | null }>();
+  for (const accrualDoc of accrualsSnapshot.docs) {
+    const data = accrualDoc.data();
+    recorded.set(data.date, {
+      accrual: {
+        date: data.date,
+        openingPrincipal: Number(data.openingPrincipal || 0),
+        amount: Number(data.amount || 0),
+        suspended: !!data.suspended,
+        revision: Number(data.revision || 0),
+      },
+      journalEntryId: data.journalEntryId || null,
+    });
+  }
+
+  const revisions = reviseAccruals(
+    terms,
+    movements,
+    Array.from(recorded.values()).map((entry) => entry.accrual),
+    fromDate
+  );
+  if (revisions.length === 0) {
+    return 0;
+  }
+
+  const codes = await getSystemAccounts(agencyId);
+  for (let start = 0; start < revisions.length; start += DAYS_PER_BATCH) {
+    const chunk = revisions.slice(start, start + DAYS_PER_BATCH);
+
+    // Reverse each superseded posting on the day it was accrued and book the new amount
+    // before recording the revision, so a failed posting is retried by the next revision
+    for (const revision of chunk) {
+      const previousEntryId = recorded.get(revision.date)?.journalEntryId;
+      if (previousEntryId) {
+        const entrySnap = await db.doc(`agencies/${agencyId}/journal_entries/${previousEntryId}`).get();
+        if (entrySnap.exists && !entrySnap.data()?.reversedByEntryId) {
+          await postJournalEntry(
+            agencyId,
+            `reversal_${previousEntryId}`,
+            buildReversalEntry({ id: previousEntryId, ...(entrySnap.data() as any) }, revision.date, reason)
+          );
+        }
+      }
+      if (isBooked(revision.next)) {
+        await postAccrual(agencyId, loanId, codes, revision.next, revision.next.revision);
+      }
+    }
+
+    const batch = db.batch();
+    let bookedChange = 0;
+    let suspenseChange = 0;
+
+    for (const revision of chunk) {
+      const change = revision.next.amount - revision.previous.amount;
+      if (revision.next.suspended) {
+        suspenseChange += change;
+      } else {
+        bookedChange += change;
+      }
+
+      batch.update(db.doc(`agencies/${agencyId}/loans/${loanId}/accruals/${revision.date}`), {
+        openingPrincipal: revision.next.openingPrincipal,
+        amount: revision.next.amount,
+        revision: revision.next.revision,
+        journalEntryId: isBooked(revision.next) ? getAccrualEntryId(loanId, revision.date, revision.next.revision) : null,
+        revisionReason: reason,
+        revisedAt: admin.firestore.FieldValue.serverTimestamp(),
+        history: admin.firestore.FieldValue.arrayUnion({
+          revision: revision.previous.revision,
+          openingPrincipal: revision.previous.openingPrincipal,
+          amount: revision.previous.amount,
+          journalEntryId: recorded.get(revision.date)?.journalEntryId || null,
+          reversedAt: admin.firestore.Timestamp.now(),
+        }),
+      });
+    }
+
+    batch.update(loanSnap.ref, {
+      accruedInterest: admin.firestore.FieldValue.increment(Math.round(bookedChange * 100) / 100),
+      interestInSuspense: admin.firestore.FieldValue.increment(Math.round(suspenseChange * 100) / 100),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    await batch.commit();
+  }
+
+  return revisions.length;
+}
 
 export const interestAccrual = functions.pubsub
   .schedule('0 0 * * *') // Every day at midnight UTC
@@ -17,70 +335,36 @@ export const interestAccrual = functions.pubsub
     console.log('Running interest accrual job...');
 
     try {
+      // Accrue through yesterday, the last full day
+      const through = toLedgerDate(new Date(Date.now() - 24 * 60 * 60 * 1000));
+
       // Get all agencies
       const agenciesSnapshot = await db.collection('agencies').get();
 
       for (const agencyDoc of agenciesSnapshot.docs) {
         const agencyId = agencyDoc.id;
-        // Agency data available if needed: agencyDoc.data()
-        // Accrual config available in agencyData.settings?.interestAccrual if needed
+        let ledgerCodes: SystemAccountCodes | null = null;
+        const codes = async () => {
+          ledgerCodes = ledgerCodes || await getSystemAccounts(agencyId);
+          return ledgerCodes;
+        };
 
-        // Get all active loans for this agency
         const loansSnapshot = await db
           .collection(`agencies/${agencyId}/loans`)
-          .where('status', 'in', ['active', 'approved'])
+          .where('status', 'in', ACCRUING_STATUSES)
           .get();
 
-        const batch = db.batch();
-        let updateCount = 0;
-
+        let accruedDays = 0;
         for (const loanDoc of loansSnapshot.docs) {
-          const loan = loanDoc.data();
-          const loanId = loanDoc.id;
-
-          // Skip if loan is fully paid
-          const repaymentsSnapshot = await db
-            .collection(`agencies/${agencyId}/loans/${loanId}/repayments`)
-            .get();
-
-          const totalPaid = repaymentsSnapshot.docs.reduce(
-            (sum: number, doc: any) => sum + (doc.data().amountPaid || 0),
-            0
-          );
-
-          const principal = loan.amount || 0;
-          const interestRate = loan.interestRate || 0;
-          const durationMonths = loan.durationMonths || 12;
-
-          // Calculate total payable
-          const totalInterest = principal * (interestRate / 100) * (durationMonths / 12);
-          const totalPayable = principal + totalInterest;
-
-          if (totalPaid >= totalPayable) {
-            continue; // Loan is fully paid
+          try {
+            accruedDays += await accrueLoan(agencyId, loanDoc, agencyDoc.data(), through, codes);
+          } catch (error) {
+            console.error(`Error accruing interest for loan ${loanDoc.id}:`, error);
           }
-
-          // Calculate daily interest
-          const dailyInterestRate = interestRate / 100 / 365;
-          const dailyInterest = principal * dailyInterestRate;
-
-          // Update loan with accrued interest
-          const loanRef = db.doc(`agencies/${agencyId}/loans/${loanId}`);
-          const currentAccruedInterest = loan.accruedInterest || 0;
-          const newAccruedInterest = currentAccruedInterest + dailyInterest;
-
-          batch.update(loanRef, {
-            accruedInterest: newAccruedInterest,
-            lastAccrualDate: admin.firestore.FieldValue.serverTimestamp(),
-            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-          });
-
-          updateCount++;
         }
 
-        if (updateCount > 0) {
-          await batch.commit();
-          console.log(`Updated ${updateCount} loans for agency ${agencyId}`);
+        if (accruedDays > 0) {
+          console.log(`Accrued ${accruedDays} loan-days for agency ${agencyId}`);
         }
       }
 
@@ -92,3 +376,48 @@ export const interestAccrual = functions.pubsub
     }
   });
 
+/**
+ * Trigger: re-accrue when a payment lands on or before the last accrued day,
+ * or a payment is reversed after its date was accrued
+ */
+export const reviseAccrualsOnPayment = functions.firestore
+  .document('agencies/{agencyId}/loans/{loanId}/payments/{paymentId}')
+  .onWrite(async (change, context) => {
+    const { agencyId, loanId, paymentId } = context.params;
+    const before = change.before.exists ? change.before.data()! : null;
+    const after = change.after.exists ? change.after.data()! : null;
+
+    const created = !before && !!after;
+    const reversed = !!before && !!after && before.status !== 'reversed' && after.status === 'reversed';
+    if (!created && !reversed) {
+      return;
+    }
+
+    const payment = after!;
+    const paidOn = toDateValue(payment.paymentDate) || toDateValue(payment.recordedAt);
+    if (!paidOn) {
+      return;
+    }
+
+    const loanSnap = await db.doc(`agencies/${agencyId}/loans/${loanId}`).get();
+    const lastAccruedDate = loanSnap.exists ? getLastAccruedDate(loanSnap.data()!) : null;
+    const fromDate = toLedgerDate(paidOn);
+    if (!lastAccruedDate || fromDate > lastAccruedDate) {
+      return;
+    }
+
+    try {
+      const revised = await reviseLoanAccruals(
+        agencyId,
+        loanId,
+        fromDate,
+        reversed ? `payment ${paymentId} reversed` : `payment ${paymentId} backdated to ${fromDate}`
+      );
+      if (revised > 0) {
+        console.log(`Revised ${revised} accrual days on loan ${loanId} after payment ${paymentId}`);
+      }
+    } catch (error) {
+      console.error(`Error revising accruals on loan ${loanId}:`, error);
+      throw error;
+    }
+  });
@@ -5,6 +5,11 @@
 
 import * as functions from 'firebase-functions';
 import * as admin from 'firebase-admin';
+import { calculateLateFee } from '../../packages/loan-rules/src/late-fees';
+import { getScheduledAmountPaid } from '../../packages/loan-rules/src/allocation';
+import { getLateFeeConfig } from './utils/loan-settings';
+import { buildLateFeeEntry, toLedgerDate } from '../../packages/loan-rules/src/ledger';
+import { getSystemAccounts, postJournalEntry } from './general-ledger';
 
 const db = admin.firestore();
 
@@ -20,11 +25,13 @@ export const checkOverdueLoans = functions.pubsub
 
       for (const agencyDoc of agenciesSnapshot.docs) {
         const agencyId = agencyDoc.id;
+        const ledgerDate = toLedgerDate(new Date());
+        let ledgerCodes: Awaited<ReturnType<typeof getSystemAccounts>> | null = null;
 
         // Get all active loans
         const loansSnapshot = await db
           .collection(`agencies/${agencyId}/loans`)
-          .where('status', 'in', ['active', 'approved'])
+          .where('status', 'in', ['active', 'approved', 'restructured'])
           .get();
 
         for (const loanDoc of loansSnapshot.docs) {
@@ -36,6 +43,7 @@ export const checkOverdueLoans = functions.pubsub
 
           const now = admin.firestore.Timestamp.now();
           const batch = db.batch();
+          const lateFeeChanges: Array<{ repaymentId: string; amount: number }> = [];
 
           for (const repaymentDoc of repaymentsSnapshot.docs) {
             const repayment = repaymentDoc.data();
@@ -45,28 +53,15 @@ export const checkOverdueLoans = functions.pubsub
               const daysOverdue = Math.floor(
                 (now.toMillis() - dueDate.toMillis()) / (1000 * 60 * 60 * 24)
               );
-              const overdueAmount = (repayment.amountDue || 0) - (repayment.amountPaid || 0);
-
-              // Get late fee config from agency settings
-              const agencyData = agencyDoc.data();
-              const lateFeeConfig = agencyData.settings?.loanSettings || {
-                gracePeriodDays: 7,
-                lateFeeRate: 2.5,
-                maxLateFeeRate: 25,
-              };
-
-              // Calculate late fee
-              const gracePeriodDays = lateFeeConfig.gracePeriodDays || 7;
-              let lateFee = 0;
-
-              if (daysOverdue > gracePeriodDays) {
-                const daysCharged = daysOverdue - gracePeriodDays;
-                const feeRate = Math.min(
-                  (lateFeeConfig.lateFeeRate || 2.5) / 100,
-                  (lateFeeConfig.maxLateFeeRate || 25) / 100
-                );
-                lateFee = overdueAmount * feeRate * (daysCharged / 30); // Monthly rate
-              }
+              const overdueAmount = (repayment.amountDue || 0) - getScheduledAmountPaid(repayment);
+
+              // Calculate late fee with the agency's grace period and day-count convention
+              const lateFee = calculateLateFee(
+                overdueAmount,
+                daysOverdue,
+                getLateFeeConfig(agencyDoc.data()),
+                dueDate.toDate()
+              );
 
               // Update repayment
               const repaymentRef = db.doc(
@@ -80,6 +75,12 @@ export const checkOverdueLoans = functions.pubsub
                 updatedAt: admin.firestore.FieldValue.serverTimestamp(),
               });
 
+              // Only the change in the fee since the last check is new income
+              const lateFeeChange = Math.round((lateFee - Number(repayment.lateFee || 0)) * 100) / 100;
+              if (lateFeeChange !== 0) {
+                lateFeeChanges.push({ repaymentId: repaymentDoc.id, amount: lateFeeChange });
+              }
+
               totalOverdue++;
             }
           }
@@ -87,6 +88,17 @@ export const checkOverdueLoans = functions.pubsub
           if (totalOverdue > 0) {
             await batch.commit();
           }
+
+          for (const change of lateFeeChanges) {
+            ledgerCodes = ledgerCodes || await getSystemAccounts(agencyId);
+            await postJournalEntry(
+              agencyId,
+              `late_fee_${loanId}_${change.repaymentId}_${ledgerDate}`,
+              buildLateFeeEntry(ledgerCodes, { loanId, ...change, date: ledgerDate })
+            ).catch((error) => {
+              console.error(`Error posting late fee for loan ${loanId}:`, error);
+            });
+          }
         }
       }
 
@@ -0,0 +1,214 @@
+/**
+ * Payment Reversal Callable Function
+ *
+ * Payments are immutable to clients. A payment recorded in error is reversed
+ * here: what it paid is taken back off the installments (and any prepayment
+ * interest it waived is charged again), the loan's balance or credit is
+ * restored, and the payment is marked reversed. Cash taken through a teller
+ * session is handed back from that session's drawer, so the session must
+ * still be open, and payments dated in a closed period stay as they are. The
+ * general ledger and the interest accrual triggers follow the status change.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { getLedgerUser, getLockedThrough } from './general-ledger';
+import { checkSessionPayout, readPaymentSession, writeSessionCash, type TellerSessionCash } from './utils/teller-cash';
+import { getPeriodId, isPeriodLocked } from '../../packages/loan-rules/src/ledger';
+import { roundCurrency, toDateValue } from '../../packages/loan-rules/src/utils';
+
+const db = admin.firestore();
+
+interface ReversePaymentRequest {
+  agencyId: string;
+  loanId: string;
+  paymentId: string;
+  reason: string;
+}
+
+interface ReversePaymentResponse {
+  success: boolean;
+  error?: string;
+}
+
+// Payments applied by the payment screens; settlements and write-off recoveries have their own workflows
+const REVERSIBLE_PAYMENT_TYPES = ['scheduled', 'ad_hoc'];
+
+// Loans a payment can be taken back from; a settled loan is reopened
+const REVERSIBLE_LOAN_STATUSES = ['disbursed', 'active', 'overdue', 'restructured', 'defaulted', 'settled'];
+
+/**
+ * Reverse a payment recorded in error (callable)
+ */
+export const reversePayment = functions.https.onCall(
+  async (data: ReversePaymentRequest, context): Promise<ReversePaymentResponse> => {
+    if (!context.auth) {
+      return { success: false, error: 'User must be authenticated' };
+    }
+
+    const { agencyId, loanId, paymentId } = data;
+    const reason = data.reason?.trim();
+    if (!agencyId || !loanId || !paymentId || !reason) {
+      return { success: false, error: 'agencyId, loanId, paymentId and reason are required' };
+    }
+
+    const userId = context.auth.uid;
+
+    try {
+      const ledgerUser = await getLedgerUser(agencyId, userId);
+      if (ledgerUser.error) {
+        return { success: false, error: ledgerUser.error };
+      }
+
+      const lockedThrough = await getLockedThrough(agencyId);
+      const agencyRef = db.collection('agencies').doc(agencyId);
+      const loanRef = agencyRef.collection('loans').doc(loanId);
+      const paymentRef = loanRef.collection('payments').doc(paymentId);
+
+      return await db.runTransaction(async (transaction): Promise<ReversePaymentResponse> => {
+        const [loanSnap, paymentSnap] = await Promise.all([transaction.get(loanRef), transaction.get(paymentRef)]);
+        const loan = loanSnap.data();
+        const payment = paymentSnap.data();
+        if (!loan || !payment) {
+          return { success: false, error: 'Payment not found' };
+        }
+        if (payment.status === 'reversed') {
+          return { success: false, error: 'Payment has already been reversed' };
+        }
+        if (!REVERSIBLE_PAYMENT_TYPES.includes(payment.type)) {
+          return { success: false, error: `A ${String(payment.type || 'payment').replace('_', ' ')} payment cannot be reversed` };
+        }
+        if (!REVERSIBLE_LOAN_STATUSES.includes(loan.status)) {
+          return { success: false, error: `Payments on a ${loan.status} loan cannot be reversed` };
+        }
+        const paymentDate = toDateValue(payment.paymentDate);
+        if (paymentDate && isPeriodLocked(getPeriodId(paymentDate), lockedThrough)) {
+          return { success: false, error: 'Payments dated in a closed period cannot be reversed' };
+        }
+
+        // Cash the payment put in a teller's drawer is handed back from it
+        let session: TellerSessionCash | null = null;
+        if (payment.tellerSessionId) {
+          const teller = await readPaymentSession(transaction, agencyRef, payment.tellerSessionId);
+          if (!teller.session) {
+            return { success: false, error: teller.error };
+          }
+          const payoutError = checkSessionPayout(teller.session, Number(payment.amount || 0));
+          if (payoutError) {
+            return { success: false, error: payoutError };
+          }
+          session = teller.session;
+        }
+
+        const lines: any[] = payment.installments || [];
+        const [repaymentSnaps, historySnaps] = await Promise.all([
+          Promise.all(lines.map((line) => transaction.get(loanRef.collection('repayments').doc(line.repaymentId)))),
+          Promise.all(lines.map((line) => transaction.get(
+            loanRef.collection('repayments').doc(line.repaymentId).collection('paymentHistory').doc(`${paymentId}-${line.repaymentId}`)
+          ))),
+        ]);
+
+        const now = new Date();
+        const loanUpdate: any = { updatedAt: admin.firestore.FieldValue.serverTimestamp() };
+
+        if (payment.type === 'ad_hoc') {
+          const amount = Number(payment.amount || 0);
+          const balance = Number(loan.outstandingBalance ?? loan.remainingBalance ?? 0);
+          loanUpdate.outstandingBalance = roundCurrency(balance + amount);
+          loanUpdate.remainingBalance = roundCurrency(balance + amount);
+          loanUpdate.totalPaid = roundCurrency(Math.max(0, Number(loan.totalPaid || 0) - amount));
+        }
+
+        lines.forEach((line, index) => {
+          const repayment = repaymentSnaps[index].data();
+          if (!repayment) return;
+
+          const feePaid = roundCurrency(Math.max(0, Number(repayment.feePaid || 0) - Number(line.fees || 0)));
+          const penaltyPaid = roundCurrency(Math.max(0, Number(repayment.penaltyPaid || 0) - Number(line.penalties || 0)));
+          const interestPaid = roundCurrency(Math.max(0, Number(repayment.interestPaid || 0) - Number(line.interest || 0)));
+          const principalPaid = roundCurrency(Math.max(0, Number(repayment.principalPaid || 0) - Number(line.principal || 0)));
+          const dueDate: Date = repayment.dueDate?.toDate?.() || new Date(repayment.dueDate || 0);
+
+          const repaymentUpdate: any = {
+            feePaid,
+            penaltyPaid,
+            interestPaid,
+            principalPaid,
+            amountPaid: roundCurrency(feePaid + penaltyPaid + interestPaid + principalPaid),
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          };
+          if (repayment.status === 'paid') {
+            repaymentUpdate.status = dueDate < now ? 'overdue' : 'pending';
+            repaymentUpdate.paidAt = null;
+          }
+
+          // Interest waived by a prepayment is charged again
+          const interestWaived = Number(historySnaps[index].data()?.interestWaived || 0);
+          if (interestWaived > 0) {
+            const interestDue = roundCurrency(Number(repayment.interestDue || 0) + interestWaived);
+            repaymentUpdate.interestDue = interestDue;
+            repaymentUpdate.amountDue = roundCurrency(Number(repayment.principalDue || 0) + interestDue + Number(repayment.feeDue || 0));
+            repaymentUpdate.interestWaived = roundCurrency(Math.max(0, Number(repayment.interestWaived || 0) - interestWaived));
+          }
+
+          transaction.update(repaymentSnaps[index].ref, repaymentUpdate);
+          if (historySnaps[index].exists) {
+            transaction.update(historySnaps[index].ref, { reversed: true, reversedAt: admin.firestore.FieldValue.serverTimestamp() });
+          }
+        });
+
+        if (Number(payment.creditAmount || 0) > 0) {
+          loanUpdate.creditBalance = roundCurrency(Math.max(0, Number(loan.creditBalance || 0) - Number(payment.creditAmount)));
+        }
+        if (loan.status === 'settled') {
+          loanUpdate.status = 'active';
+          loanUpdate.statusUpdatedBy = userId;
+          loanUpdate.statusUpdatedAt = admin.firestore.FieldValue.serverTimestamp();
+          loanUpdate.settledAt = null;
+        }
+        transaction.update(loanRef, loanUpdate);
+
+        if (session) {
+          writeSessionCash(transaction, session, {
+            type: 'reversal',
+            amount: Number(payment.amount || 0),
+            recordedBy: userId,
+            loanId,
+            paymentId,
+          });
+        }
+
+        transaction.update(paymentRef, {
+          status: 'reversed',
+          reversedBy: userId,
+          reversedAt: admin.firestore.Timestamp.fromDate(now),
+          reversalReason: reason,
+        });
+
+        const logRef = agencyRef.collection('audit_logs').doc();
+        transaction.set(logRef, {
+          id: logRef.id,
+          actorId: userId,
+          action: 'payment_reversed',
+          targetCollection: 'loans',
+          targetId: loanId,
+          metadata: {
+            paymentId,
+            amount: Number(payment.amount || 0),
+            reason,
+            ...(loan.status === 'settled' ? { reopened: true } : {}),
+          },
+          createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+
+        return { success: true };
+      });
+    } catch (error: any) {
+      console.error('Error reversing payment:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to reverse payment',
+      };
+    }
+  }
+);
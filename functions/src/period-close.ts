@@ -0,0 +1,354 @@
+/**
+ * Period-end Close Cloud Functions
+ * Closes a month once its accruals, provisioning, portfolio snapshot and
+ * trial balance check out: freezes each loan's balances at the period end
+ * under period_closes/{YYYY-MM}, keeps the trial balance with them and locks
+ * the ledger through the month. Reports for a closed month are read from
+ * this snapshot. Months are closed in order, one at a time.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { toAllocationInstallment } from '../../packages/loan-rules/src/allocation';
+import { computeTrialBalance, getPeriodId, resolveChartOfAccounts, toLedgerDate } from '../../packages/loan-rules/src/ledger';
+import { resolveProvisioningConfig } from '../../packages/loan-rules/src/provisioning';
+import {
+  buildCloseCheck,
+  buildPeriodLoanBalance,
+  getNextPeriodId,
+  getPeriodEndDate,
+  summarizePeriodBalances,
+  type PaidAfterPeriodEnd,
+  type PeriodBalanceTotals,
+  type PeriodCloseCheck,
+  type PeriodLoanBalance,
+} from '../../packages/loan-rules/src/period-close';
+import { getLedgerUser, getLockedThrough, setLockedThrough } from './general-ledger';
+import { getLastAccruedDate } from './interest-accrual';
+import { toDateValue } from '../../packages/loan-rules/src/utils';
+
+const db = admin.firestore();
+
+const ACCRUING_STATUSES = ['disbursed', 'active', 'overdue', 'restructuring', 'restructured', 'defaulted'];
+
+// Loan documents written per batch (Firestore allows 500 writes)
+const LOANS_PER_BATCH = 400;
+
+interface PeriodCloseRequest {
+  agencyId: string;
+  periodId: string; // YYYY-MM
+}
+
+interface PeriodCloseResponse {
+  success: boolean;
+  error?: string;
+  checks?: PeriodCloseCheck[];
+  totals?: PeriodBalanceTotals;
+}
+
+/**
+ * Whether a period can be closed now: it must be over, and either the first
+ * close or the month after the last closed one
+ */
+async function getCloseablePeriodError(agencyId: string, periodId: string): Promise<string | null> {
+  if (periodId >= getPeriodId(new Date())) {
+    return 'Only past periods can be closed';
+  }
+  const lockedThrough = await getLockedThrough(agencyId);
+  if (lockedThrough && periodId <= lockedThrough) {
+    return `${periodId} is already closed`;
+  }
+  if (lockedThrough && periodId !== getNextPeriodId(lockedThrough)) {
+    return `Close ${getNextPeriodId(lockedThrough)} first; periods are closed in order`;
+  }
+  return null;
+}
+
+/**
+ * Run the checks a period must pass before it is closed
+ */
+export async function runPeriodCloseChecks(agencyId: string, periodId: string): Promise<PeriodCloseCheck[]> {
+  const periodEnd = getPeriodEndDate(periodId);
+  const asOf = new Date(`${periodEnd}T23:59:59.999Z`);
+
+  const [loansSnapshot, provisionSnap, portfolioSnap, chartSnap, entriesSnapshot, pendingSnapshot] = await Promise.all([
+    db.collection(`agencies/${agencyId}/loans`).where('status', 'in', ACCRUING_STATUSES).get(),
+    db.doc(`agencies/${agencyId}/provisions/${periodId}`).get(),
+    db.doc(`agencies/${agencyId}/portfolio_snapshots/${periodEnd}`).get(),
+    db.doc(`agencies/${agencyId}/config/chartOfAccounts`).get(),
+    db.collection(`agencies/${agencyId}/journal_entries`).where('date', '<=', periodEnd).get(),
+    db.collection(`agencies/${agencyId}/backdated_requests`).where('status', '==', 'pending').get(),
+  ]);
+
+  const unaccrued = loansSnapshot.docs.filter((loanDoc) => {
+    const disbursedOn = toDateValue(loanDoc.data().disbursementDate);
+    if (!disbursedOn || disbursedOn > asOf) return false;
+    const lastAccruedDate = getLastAccruedDate(loanDoc.data());
+    return !lastAccruedDate || lastAccruedDate < periodEnd;
+  });
+
+  const accounts = resolveChartOfAccounts(chartSnap.exists ? chartSnap.data() as any : null);
+  const trialBalance = computeTrialBalance(accounts, entriesSnapshot.docs.map((entryDoc) => entryDoc.data() as any), { to: periodEnd });
+
+  return [
+    buildCloseCheck(
+      'accruals',
+      unaccrued.length === 0,
+      unaccrued.length === 0
+        ? `All running loans accrued through ${periodEnd}`
+        : `${unaccrued.length} loan(s) not accrued through ${periodEnd}`
+    ),
+    buildCloseCheck(
+      'provisioning',
+      provisionSnap.exists,
+      provisionSnap.exists ? `Allowance of ${provisionSnap.data()?.closing} provided` : `Provisioning has not been run for ${periodId}`
+    ),
+    buildCloseCheck(
+      'portfolio_snapshot',
+      portfolioSnap.exists,
+      portfolioSnap.exists ? `PAR30 ${portfolioSnap.data()?.par?.par30}` : `No portfolio snapshot for ${periodEnd}`
+    ),
+    buildCloseCheck(
+      'trial_balance',
+      trialBalance.balanced,
+      `Debits ${trialBalance.totalDebit}, credits ${trialBalance.totalCredit}`
+    ),
+    buildCloseCheck(
+      'backdated_requests',
+      pendingSnapshot.empty,
+      pendingSnapshot.empty ? 'Nothing awaiting approval' : `${pendingSnapshot.size} request(s) awaiting approval`
+    ),
+  ];
+}
+
+async function getPeriodLoanBalances(agencyId: string, periodId: string): Promise<PeriodLoanBalance[]> {
+  const periodEnd = getPeriodEndDate(periodId);
+  const asOf = new Date(`${periodEnd}T23:59:59.999Z`);
+  const [configSnap, loansSnapshot] = await Promise.all([
+    db.doc(`agencies/${agencyId}/config/provisioning`).get(),
+    db.collection(`agencies/${agencyId}/loans`).get(),
+  ]);
+  const provisioningConfig = resolveProvisioningConfig(configSnap.exists ? configSnap.data() as any : null);
+
+  const balances: PeriodLoanBalance[] = [];
+  for (const loanDoc of loansSnapshot.docs) {
+    const loan = loanDoc.data();
+    const disbursedOn = toDateValue(loan.disbursementDate);
+    if (loan.deleted || !disbursedOn || disbursedOn > asOf) {
+      continue;
+    }
+
+    const [repaymentsSnapshot, paymentsSnapshot] = await Promise.all([
+      loanDoc.ref.collection('repayments').get(),
+      loanDoc.ref.collection('payments').get(),
+    ]);
+    const paidAfterPeriodEnd = paymentsSnapshot.docs
+      .map((paymentDoc) => paymentDoc.data())
+      .filter((payment) => {
+        const paidOn = toDateValue(payment.paymentDate) || toDateValue(payment.recordedAt);
+        return payment.status !== 'reversed' && !!paidOn && toLedgerDate(paidOn) > periodEnd;
+      })
+      .flatMap((payment): PaidAfterPeriodEnd[] => {
+        if (Array.isArray(payment.installments) && payment.installments.length > 0) {
+          return payment.installments.map((line: any) => ({
+            repaymentId: line.repaymentId,
+            fees: Number(line.fees || 0),
+            penalties: Number(line.penalties || 0),
+            interest: Number(line.interest || 0),
+            principal: Number(line.principal || 0),
+          }));
+        }
+        return [{
+          fees: Number(payment.allocation?.fees || 0),
+          penalties: Number(payment.allocation?.penalties || 0),
+          interest: Number(payment.allocation?.interest || 0),
+          principal: Number(payment.allocation?.principal ?? payment.amount ?? 0),
+        }];
+      });
+
+    const balance = buildPeriodLoanBalance({
+      loanId: loanDoc.id,
+      customerId: loan.customerId || loan.customer_id,
+      status: loan.status,
+      loanType: loan.loanType,
+      branchId: loan.branchId,
+      officerId: loan.officerId,
+      economicSector: loan.economicSector,
+      annualRate: Number(loan.interestRate || 0),
+      disbursedAmount: Number(loan.amount || 0),
+      disbursedOn,
+      restructured: loan.status === 'restructured' || Number(loan.restructureCount || 0) > 0,
+      writtenOffOn: loan.writeOff?.writtenOffOn,
+      installments: repaymentsSnapshot.docs.map((repaymentDoc) =>
+        toAllocationInstallment({ id: repaymentDoc.id, ...repaymentDoc.data() })
+      ),
+      paidAfterPeriodEnd,
+    }, periodId, provisioningConfig);
+
+    // Loans repaid before the period end are left out unless they were disbursed in it
+    if (balance.onBook || balance.scheduledPayments) {
+      balances.push(balance);
+    }
+  }
+  return balances;
+}
+
+/**
+ * Freeze the balances at a period end and lock the ledger through it
+ */
+export async function closePeriod(
+  agencyId: string,
+  periodId: string,
+  closedBy: string
+): Promise<{ checks: PeriodCloseCheck[]; totals?: PeriodBalanceTotals; error?: string }> {
+  const checks = await runPeriodCloseChecks(agencyId, periodId);
+  const failed = checks.filter((check) => !check.passed);
+  if (failed.length > 0) {
+    return { checks, error: `${periodId} cannot be closed: ${failed.map((check) => check.detail).join('; ')}` };
+  }
+
+  const periodEnd = getPeriodEndDate(periodId);
+  const closeRef = db.doc(`agencies/${agencyId}/period_closes/${periodId}`);
+  const [previousSnap, chartSnap, entriesSnapshot, balances] = await Promise.all([
+    closeRef.get(),
+    db.doc(`agencies/${agencyId}/config/chartOfAccounts`).get(),
+    db.collection(`agencies/${agencyId}/journal_entries`).where('date', '<=', periodEnd).get(),
+    getPeriodLoanBalances(agencyId, periodId),
+  ]);
+  const accounts = resolveChartOfAccounts(chartSnap.exists ? chartSnap.data() as any : null);
+  const trialBalance = computeTrialBalance(accounts, entriesSnapshot.docs.map((entryDoc) => entryDoc.data() as any), { to: periodEnd });
+  const totals = summarizePeriodBalances(balances);
+
+  // A reopened period closed again replaces its snapshot; earlier closes stay in the history
+  const previous = previousSnap.exists ? previousSnap.data()! : null;
+  if (previous) {
+    const staleIds = new Set((await closeRef.collection('loans').get()).docs.map((loanDoc) => loanDoc.id));
+    balances.forEach((balance) => staleIds.delete(balance.loanId));
+    const stale = [...staleIds];
+    for (let start = 0; start < stale.length; start += LOANS_PER_BATCH) {
+      const batch = db.batch();
+      stale.slice(start, start + LOANS_PER_BATCH).forEach((loanId) => batch.delete(closeRef.collection('loans').doc(loanId)));
+      await batch.commit();
+    }
+  }
+
+  for (let start = 0; start < balances.length; start += LOANS_PER_BATCH) {
+    const batch = db.batch();
+    for (const balance of balances.slice(start, start + LOANS_PER_BATCH)) {
+      batch.set(closeRef.collection('loans').doc(balance.loanId), balance);
+    }
+    await batch.commit();
+  }
+
+  await closeRef.set({
+    periodId,
+    periodEnd,
+    status: 'closed',
+    revision: Number(previous?.revision || 0) + 1,
+    checks,
+    totals,
+    trialBalance,
+    closedBy,
+    closedAt: admin.firestore.FieldValue.serverTimestamp(),
+    history: previous
+      ? admin.firestore.FieldValue.arrayUnion({
+          revision: Number(previous.revision || 1),
+          totals: previous.totals,
+          closedBy: previous.closedBy,
+          reopenedBy: previous.reopenedBy || null,
+        })
+      : [],
+  }, { merge: true });
+
+  await setLockedThrough(agencyId, periodId, await getLockedThrough(agencyId), closedBy);
+
+  return { checks, totals };
+}
+
+/**
+ * Run the close checks for a period without closing it (callable)
+ */
+export const previewPeriodClose = functions.https.onCall(
+  async (data: PeriodCloseRequest, context): Promise<PeriodCloseResponse> => {
+    if (!context.auth) {
+      return { success: false, error: 'User must be authenticated' };
+    }
+
+    const { agencyId, periodId } = data;
+    if (!agencyId || !/^\d{4}-\d{2}$/.test(periodId || '')) {
+      return { success: false, error: 'agencyId and a period (YYYY-MM) are required' };
+    }
+
+    try {
+      const ledgerUser = await getLedgerUser(agencyId, context.auth.uid);
+      if (ledgerUser.error) {
+        return { success: false, error: ledgerUser.error };
+      }
+
+      const periodError = await getCloseablePeriodError(agencyId, periodId);
+      if (periodError) {
+        return { success: false, error: periodError };
+      }
+
+      return { success: true, checks: await runPeriodCloseChecks(agencyId, periodId) };
+    } catch (error: any) {
+      console.error('Error checking period close:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to check the period',
+      };
+    }
+  }
+);
+
+/**
+ * Close a period (callable)
+ */
+export const closeAccountingPeriod = functions.https.onCall(
+  async (data: PeriodCloseRequest, context): Promise<PeriodCloseResponse> => {
+    if (!context.auth) {
+      return { success: false, error: 'User must be authenticated' };
+    }
+
+    const { agencyId, periodId } = data;
+    if (!agencyId || !/^\d{4}-\d{2}$/.test(periodId || '')) {
+      return { success: false, error: 'agencyId and a period (YYYY-MM) are required' };
+    }
+
+    const userId = context.auth.uid;
+
+    try {
+      const ledgerUser = await getLedgerUser(agencyId, userId);
+      if (ledgerUser.error) {
+        return { success: false, error: ledgerUser.error };
+      }
+
+      const periodError = await getCloseablePeriodError(agencyId, periodId);
+      if (periodError) {
+        return { success: false, error: periodError };
+      }
+
+      const result = await closePeriod(agencyId, periodId, userId);
+      if (result.error) {
+        return { success: false, error: result.error, checks: result.checks };
+      }
+
+      await db.collection(`agencies/${agencyId}/audit_logs`).add({
+        actorId: userId,
+        action: 'accounting_period_closed',
+        targetCollection: 'period_closes',
+        targetId: periodId,
+        metadata: { totals: result.totals },
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      }).catch(() => {});
+
+      return { success: true, checks: result.checks, totals: result.totals };
+    } catch (error: any) {
+      console.error('Error closing accounting period:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to close the period',
+      };
+    }
+  }
+);
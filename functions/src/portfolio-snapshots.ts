@@ -0,0 +1,149 @@
+/**
+ * Portfolio Snapshot Cloud Functions
+ * Takes a snapshot of the loan book at the end of every day so PAR trends,
+ * roll rates and vintage curves can be read without going through every
+ * loan's repayments. Each day is kept under portfolio_snapshots/{YYYY-MM-DD}
+ * with the book totals and one document per loan; at month-ends the cohort
+ * totals behind the vintage curves go to portfolio_vintages/{YYYY-MM}.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { toAllocationInstallment } from '../../packages/loan-rules/src/allocation';
+import { getPeriodId, toLedgerDate } from '../../packages/loan-rules/src/ledger';
+import {
+  buildLoanPosition,
+  buildVintageCells,
+  isSnapshotStatus,
+  ON_BOOK_STATUSES,
+  summarizePortfolio,
+  type LoanPosition,
+  type PortfolioSnapshotSummary,
+} from '../../packages/loan-rules/src/portfolio-analytics';
+
+const db = admin.firestore();
+
+// Loan documents written per batch (Firestore allows 500 writes)
+const LOANS_PER_BATCH = 400;
+
+function isMonthEnd(date: string): boolean {
+  const next = new Date(`${date}T00:00:00.000Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.getUTCDate() === 1;
+}
+
+async function getLoanPosition(
+  agencyId: string,
+  loanDoc: admin.firestore.QueryDocumentSnapshot,
+  asOf: Date
+): Promise<LoanPosition | null> {
+  const loan = loanDoc.data();
+  const disbursedOn: Date | null = loan.disbursementDate?.toDate?.() || null;
+  if (!isSnapshotStatus(loan.status) || !disbursedOn || disbursedOn > asOf) {
+    return null;
+  }
+
+  // Only loans still on the book need their schedule
+  let installments: ReturnType<typeof toAllocationInstallment>[] = [];
+  if (ON_BOOK_STATUSES.includes(loan.status)) {
+    const repaymentsSnapshot = await db.collection(`agencies/${agencyId}/loans/${loanDoc.id}/repayments`).get();
+    installments = repaymentsSnapshot.docs.map((repaymentDoc) =>
+      toAllocationInstallment({ id: repaymentDoc.id, ...repaymentDoc.data() })
+    );
+  }
+
+  return buildLoanPosition({
+    loanId: loanDoc.id,
+    status: loan.status,
+    loanType: loan.loanType,
+    branchId: loan.branchId,
+    officerId: loan.officerId,
+    disbursedOn,
+    disbursedAmount: Number(loan.amount || 0),
+    installments,
+    writtenOffPrincipal: Number(loan.writeOff?.principal || 0),
+  }, asOf);
+}
+
+/**
+ * Snapshot the book as at the end of a day
+ */
+export async function takePortfolioSnapshot(agencyId: string, date: string): Promise<PortfolioSnapshotSummary> {
+  const snapshotRef = db.doc(`agencies/${agencyId}/portfolio_snapshots/${date}`);
+  if ((await snapshotRef.get()).exists) {
+    throw new Error(`The portfolio snapshot for ${date} has already been taken`);
+  }
+
+  const asOf = new Date(`${date}T23:59:59.999Z`);
+  const loansSnapshot = await db.collection(`agencies/${agencyId}/loans`).get();
+
+  const positions: LoanPosition[] = [];
+  for (const loanDoc of loansSnapshot.docs) {
+    const position = await getLoanPosition(agencyId, loanDoc, asOf);
+    if (position) {
+      positions.push(position);
+    }
+  }
+
+  const summary = summarizePortfolio(date, positions);
+
+  // create() fails if another run got here first
+  await snapshotRef.create({
+    ...summary,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  // Closed loans only count towards vintages; roll rates need the rest
+  const tracked = positions.filter((position) => position.bucket !== 'closed');
+  for (let start = 0; start < tracked.length; start += LOANS_PER_BATCH) {
+    const batch = db.batch();
+    for (const position of tracked.slice(start, start + LOANS_PER_BATCH)) {
+      batch.set(snapshotRef.collection('loans').doc(position.loanId), position);
+    }
+    await batch.commit();
+  }
+
+  if (isMonthEnd(date)) {
+    await db.doc(`agencies/${agencyId}/portfolio_vintages/${getPeriodId(date)}`).set({
+      periodId: getPeriodId(date),
+      date,
+      cells: buildVintageCells(positions),
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  }
+
+  return summary;
+}
+
+export const dailyPortfolioSnapshot = functions.pubsub
+  .schedule('0 1 * * *') // 01:00 UTC, after the day's accruals
+  .timeZone('UTC')
+  .onRun(async (context: any) => {
+    console.log('Running portfolio snapshot job...');
+
+    try {
+      // Snapshot yesterday, the last full day
+      const date = toLedgerDate(new Date(Date.now() - 24 * 60 * 60 * 1000));
+      const agenciesSnapshot = await db.collection('agencies').get();
+
+      for (const agencyDoc of agenciesSnapshot.docs) {
+        const snapshotSnap = await db.doc(`agencies/${agencyDoc.id}/portfolio_snapshots/${date}`).get();
+        if (snapshotSnap.exists) {
+          continue;
+        }
+
+        try {
+          const summary = await takePortfolioSnapshot(agencyDoc.id, date);
+          console.log(`Snapshot ${summary.loanCount} loans for agency ${agencyDoc.id}: PAR30 ${summary.par.par30}`);
+        } catch (error) {
+          console.error(`Error taking the ${date} portfolio snapshot for agency ${agencyDoc.id}:`, error);
+        }
+      }
+
+      console.log('Portfolio snapshot job completed successfully');
+      return null;
+    } catch (error) {
+      console.error('Error in portfolio snapshot job:', error);
+      throw error;
+    }
+  });
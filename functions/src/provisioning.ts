@@ -0,0 +1,297 @@
+/**
+ * Loan Loss Provisioning Cloud Functions
+ * Classifies every loan on the book at the end of each month, works out the
+ * allowance it needs under the agency's provisioning config and posts the
+ * movement from the previous month's allowance to the general ledger. Each
+ * month's run is kept under provisions/{YYYY-MM} with the opening, charge and
+ * closing balances and one document per loan. Months are provisioned in
+ * order, and a run whose posting failed is posted again from what it recorded.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { toAllocationInstallment } from '../../packages/loan-rules/src/allocation';
+import { buildProvisionEntry, getPeriodId } from '../../packages/loan-rules/src/ledger';
+import {
+  buildProvisionMovement,
+  estimateProbabilityOfDefault,
+  getDaysPastDue,
+  getExposureAtDefault,
+  getRepaymentRiskFacts,
+  provisionExposures,
+  resolveProvisioningConfig,
+  type ProvisionMovement,
+  type ProvisioningExposureInput,
+} from '../../packages/loan-rules/src/provisioning';
+import { getLedgerUser, getSystemAccounts, postJournalEntry, SYSTEM_POSTER } from './general-ledger';
+
+const db = admin.firestore();
+
+const PROVISIONED_STATUSES = ['disbursed', 'active', 'overdue', 'restructuring', 'restructured', 'defaulted'];
+
+// Loan documents written per batch (Firestore allows 500 writes)
+const LOANS_PER_BATCH = 400;
+
+interface RunProvisioningRequest {
+  agencyId: string;
+  periodId: string; // YYYY-MM
+}
+
+interface RunProvisioningResponse extends Partial<ProvisionMovement> {
+  success: boolean;
+  error?: string;
+  loanCount?: number;
+}
+
+/**
+ * Last day of a YYYY-MM period as a ledger date
+ */
+function getPeriodEndDate(periodId: string): string {
+  const [year, month] = periodId.split('-').map(Number);
+  return new Date(Date.UTC(year, month, 0)).toISOString().slice(0, 10);
+}
+
+function getPreviousPeriodId(date: Date): string {
+  return getPeriodId(new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 0)));
+}
+
+/**
+ * Closing allowance of the latest run before a period, zero before the first run
+ */
+async function getOpeningAllowance(agencyId: string, periodId: string): Promise<number> {
+  const previousSnapshot = await db
+    .collection(`agencies/${agencyId}/provisions`)
+    .where('periodId', '<', periodId)
+    .orderBy('periodId', 'desc')
+    .limit(1)
+    .get();
+
+  return previousSnapshot.empty ? 0 : Number(previousSnapshot.docs[0].data().closing || 0);
+}
+
+/**
+ * Whether a run's allowance movement is in the general ledger
+ */
+async function isRunPosted(agencyId: string, run: admin.firestore.DocumentData): Promise<boolean> {
+  if (!run.journalEntryId) {
+    return true;
+  }
+  return (await db.doc(`agencies/${agencyId}/journal_entries/${run.journalEntryId}`).get()).exists;
+}
+
+/**
+ * Post a run's allowance movement. The entry id is fixed by period, so posting it again is a no-op.
+ */
+async function postProvisionRun(agencyId: string, run: admin.firestore.DocumentData, postedBy: string): Promise<void> {
+  if (!run.journalEntryId) {
+    return;
+  }
+  const codes = await getSystemAccounts(agencyId);
+  await postJournalEntry(
+    agencyId,
+    run.journalEntryId,
+    buildProvisionEntry(codes, { periodId: run.periodId, date: run.asOf, charge: Number(run.charge) }),
+    { postedBy }
+  );
+}
+
+async function getExposureInput(
+  agencyId: string,
+  loanDoc: admin.firestore.QueryDocumentSnapshot,
+  asOf: Date,
+  useModelProbability: boolean
+): Promise<ProvisioningExposureInput> {
+  const loan = loanDoc.data();
+  const repaymentsSnapshot = await db.collection(`agencies/${agencyId}/loans/${loanDoc.id}/repayments`).get();
+  const repayments = repaymentsSnapshot.docs.map((repaymentDoc) => ({ id: repaymentDoc.id, ...repaymentDoc.data() }));
+  const installments = repayments.map((repayment) => toAllocationInstallment(repayment));
+
+  let modelProbability: number | undefined;
+  if (useModelProbability) {
+    const customerId = loan.customerId || loan.customer_id;
+    const customerSnap = customerId ? await db.doc(`agencies/${agencyId}/customers/${customerId}`).get() : null;
+    modelProbability = estimateProbabilityOfDefault({
+      ...getRepaymentRiskFacts(repayments, asOf),
+      riskScore: loan.riskScore,
+      loanAmount: Number(loan.amount || 0),
+      monthlyIncome: Number(customerSnap?.data()?.monthlyIncome || 0),
+    }).probability;
+  }
+
+  return {
+    loanId: loanDoc.id,
+    ...(loan.loanType ? { loanType: loan.loanType } : {}),
+    status: loan.status,
+    restructured: loan.status === 'restructured' || Number(loan.restructureCount || 0) > 0,
+    daysPastDue: getDaysPastDue(installments, asOf),
+    exposureAtDefault: getExposureAtDefault(installments, asOf),
+    ...(modelProbability !== undefined ? { modelProbability } : {}),
+  };
+}
+
+/**
+ * Provision the book as at the end of a month and post the movement in the allowance
+ */
+export async function runProvisioningForPeriod(
+  agencyId: string,
+  periodId: string,
+  postedBy: string
+): Promise<ProvisionMovement & { loanCount: number }> {
+  const runRef = db.doc(`agencies/${agencyId}/provisions/${periodId}`);
+  const [runSnap, latestSnapshot] = await Promise.all([
+    runRef.get(),
+    db.collection(`agencies/${agencyId}/provisions`).orderBy('periodId', 'desc').limit(1).get(),
+  ]);
+  if (runSnap.exists) {
+    const run = runSnap.data()!;
+    if (await isRunPosted(agencyId, run)) {
+      throw new Error(`Provisioning for ${periodId} has already been run`);
+    }
+    await postProvisionRun(agencyId, run, postedBy);
+    return { opening: run.opening, charge: run.charge, closing: run.closing, loanCount: run.loanCount };
+  }
+
+  // Each run opens from the one before it, so a month cannot be provisioned after a later one
+  const latestPeriodId: string | undefined = latestSnapshot.docs[0]?.data().periodId;
+  if (latestPeriodId && latestPeriodId > periodId) {
+    throw new Error(`Provisioning has already been run for ${latestPeriodId}; ${periodId} can no longer be provisioned`);
+  }
+
+  const periodEnd = getPeriodEndDate(periodId);
+  const asOf = new Date(`${periodEnd}T23:59:59.999Z`);
+  const [configSnap, loansSnapshot, opening] = await Promise.all([
+    db.doc(`agencies/${agencyId}/config/provisioning`).get(),
+    db.collection(`agencies/${agencyId}/loans`).where('status', 'in', PROVISIONED_STATUSES).get(),
+    getOpeningAllowance(agencyId, periodId),
+  ]);
+  const config = resolveProvisioningConfig(configSnap.exists ? configSnap.data() as any : null);
+
+  const inputs: ProvisioningExposureInput[] = [];
+  for (const loanDoc of loansSnapshot.docs) {
+    // Loans disbursed after the period end were not on the book yet
+    const disbursedOn = loanDoc.data().disbursementDate?.toDate?.() || null;
+    if (disbursedOn && disbursedOn > asOf) {
+      continue;
+    }
+    inputs.push(await getExposureInput(agencyId, loanDoc, asOf, config.useModelProbability));
+  }
+
+  const summary = provisionExposures(inputs, config);
+  const movement = buildProvisionMovement(opening, summary.totalProvision);
+  const journalEntryId = movement.charge !== 0 ? `provision_${periodId}` : null;
+
+  // create() fails if another run got here first
+  const run = {
+    periodId,
+    asOf: periodEnd,
+    framework: config.framework,
+    ...movement,
+    totalExposure: summary.totalExposure,
+    byStage: summary.byStage,
+    byClassification: summary.byClassification,
+    loanCount: summary.exposures.length,
+    config,
+    journalEntryId,
+    postedBy,
+  };
+  await runRef.create({ ...run, createdAt: admin.firestore.FieldValue.serverTimestamp() });
+
+  // Posted before the per-loan detail; if it fails, running the period again posts it
+  await postProvisionRun(agencyId, run, postedBy);
+
+  for (let start = 0; start < summary.exposures.length; start += LOANS_PER_BATCH) {
+    const batch = db.batch();
+    for (const exposure of summary.exposures.slice(start, start + LOANS_PER_BATCH)) {
+      batch.set(runRef.collection('loans').doc(exposure.loanId), exposure);
+      batch.update(db.doc(`agencies/${agencyId}/loans/${exposure.loanId}`), {
+        provisioningStage: exposure.stage,
+        provisioningClassification: exposure.classification,
+        provisionAmount: exposure.provision,
+        provisionedAt: periodEnd,
+      });
+    }
+    await batch.commit();
+  }
+
+  return { ...movement, loanCount: summary.exposures.length };
+}
+
+export const monthlyProvisioning = functions.pubsub
+  .schedule('0 2 1 * *') // 02:00 UTC on the first of every month, after the last accruals of the month
+  .timeZone('UTC')
+  .onRun(async (context: any) => {
+    console.log('Running monthly provisioning job...');
+
+    try {
+      const periodId = getPreviousPeriodId(new Date());
+      const agenciesSnapshot = await db.collection('agencies').get();
+
+      for (const agencyDoc of agenciesSnapshot.docs) {
+        const runSnap = await db.doc(`agencies/${agencyDoc.id}/provisions/${periodId}`).get();
+        if (runSnap.exists && await isRunPosted(agencyDoc.id, runSnap.data()!)) {
+          continue;
+        }
+
+        try {
+          const result = await runProvisioningForPeriod(agencyDoc.id, periodId, SYSTEM_POSTER);
+          console.log(`Provisioned ${result.loanCount} loans for agency ${agencyDoc.id}: charge ${result.charge}`);
+        } catch (error) {
+          console.error(`Error provisioning ${periodId} for agency ${agencyDoc.id}:`, error);
+        }
+      }
+
+      console.log('Monthly provisioning job completed successfully');
+      return null;
+    } catch (error) {
+      console.error('Error in monthly provisioning job:', error);
+      throw error;
+    }
+  });
+
+/**
+ * Run provisioning for a past month that has not been provisioned yet, or post
+ * a run whose posting failed (callable)
+ */
+export const runProvisioning = functions.https.onCall(
+  async (data: RunProvisioningRequest, context): Promise<RunProvisioningResponse> => {
+    if (!context.auth) {
+      return { success: false, error: 'User must be authenticated' };
+    }
+
+    const { agencyId, periodId } = data;
+    if (!agencyId || !/^\d{4}-\d{2}$/.test(periodId || '')) {
+      return { success: false, error: 'agencyId and a period (YYYY-MM) are required' };
+    }
+    if (periodId >= getPeriodId(new Date())) {
+      return { success: false, error: 'Only past periods can be provisioned' };
+    }
+
+    const userId = context.auth.uid;
+
+    try {
+      const ledgerUser = await getLedgerUser(agencyId, userId);
+      if (ledgerUser.error) {
+        return { success: false, error: ledgerUser.error };
+      }
+
+      const result = await runProvisioningForPeriod(agencyId, periodId, userId);
+
+      await db.collection(`agencies/${agencyId}/audit_logs`).add({
+        actorId: userId,
+        action: 'provisioning_run',
+        targetCollection: 'provisions',
+        targetId: periodId,
+        metadata: result,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      }).catch(() => {});
+
+      return { success: true, ...result };
+    } catch (error: any) {
+      console.error('Error running provisioning:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to run provisioning',
+      };
+    }
+  }
+);
@@ -0,0 +1,156 @@
+/**
+ * Teller Session Close Callable Function
+ *
+ * Closes a teller's session on its denomination count. The expected cash and
+ * the variance are worked out here from the session's running totals, which
+ * only move with a cash movement, so a teller cannot settle their own
+ * shortage. The count is returned to the branch vault in the same transaction.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import {
+  countDenominations,
+  getExpectedCash,
+  getVarianceStatus,
+  resolveCashManagementConfig,
+  type DenominationCount,
+} from '../../packages/loan-rules/src/cash-management';
+import { roundCurrency } from '../../packages/loan-rules/src/utils';
+
+const db = admin.firestore();
+
+interface CloseTellerSessionRequest {
+  agencyId: string;
+  sessionId: string;
+  denominations: DenominationCount;
+  varianceReason?: string;
+}
+
+interface CloseTellerSessionResponse {
+  success: boolean;
+  error?: string;
+  variance?: number;
+}
+
+/**
+ * Close a teller session (callable)
+ */
+export const closeTellerSession = functions.https.onCall(
+  async (data: CloseTellerSessionRequest, context): Promise<CloseTellerSessionResponse> => {
+    if (!context.auth) {
+      return { success: false, error: 'User must be authenticated' };
+    }
+
+    const { agencyId, sessionId, denominations } = data;
+    if (!agencyId || !sessionId || !denominations) {
+      return { success: false, error: 'agencyId, sessionId and denominations are required' };
+    }
+
+    const userId = context.auth.uid;
+    const varianceReason = data.varianceReason?.trim();
+
+    try {
+      const userSnap = await db.doc(`users/${userId}`).get();
+      const userData = userSnap.data();
+      if (!userData || userData.agency_id !== agencyId) {
+        return { success: false, error: 'User does not belong to this agency' };
+      }
+
+      const countedCash = countDenominations(denominations);
+      const agencyRef = db.collection('agencies').doc(agencyId);
+      const configSnap = await agencyRef.collection('config').doc('cashManagement').get();
+      const config = resolveCashManagementConfig(configSnap.exists ? configSnap.data() : null);
+      const sessionRef = agencyRef.collection('teller_sessions').doc(sessionId);
+      const transferRef = agencyRef.collection('vault_transfers').doc();
+
+      const closed = await db.runTransaction(async (transaction) => {
+        const session = (await transaction.get(sessionRef)).data();
+        if (!session) {
+          return { error: 'Teller session not found' };
+        }
+        if (session.tellerId !== userId && userData.role !== 'admin') {
+          return { error: 'Only the teller or an admin can close this session' };
+        }
+        if (session.status !== 'open') {
+          return { error: 'This teller session is already closed' };
+        }
+
+        const expectedCash = getExpectedCash(
+          Number(session.openingFloat || 0),
+          Number(session.cashIn || 0),
+          Number(session.cashOut || 0)
+        );
+        const variance = roundCurrency(countedCash - expectedCash);
+        if (Math.abs(variance) > config.varianceTolerance && !varianceReason) {
+          return { error: `The count is ${variance < 0 ? 'short' : 'over'} by ${Math.abs(variance).toFixed(2)}; give a reason to close` };
+        }
+
+        if (countedCash > 0) {
+          const branchRef = agencyRef.collection('branches').doc(session.branchId);
+          const branch = (await transaction.get(branchRef)).data();
+          if (!branch) {
+            return { error: 'Branch not found' };
+          }
+          transaction.update(branchRef, {
+            vaultBalance: roundCurrency(Number(branch.vaultBalance || 0) + countedCash),
+            vaultUpdatedAt: admin.firestore.FieldValue.serverTimestamp(),
+            lastVaultTransferId: transferRef.id,
+          });
+          transaction.set(transferRef, {
+            type: 'cash_return',
+            amount: countedCash,
+            toBranchId: session.branchId,
+            sessionId,
+            tellerId: session.tellerId,
+            status: 'completed',
+            createdBy: userId,
+            createdAt: admin.firestore.FieldValue.serverTimestamp(),
+          });
+        }
+
+        transaction.update(sessionRef, {
+          status: 'closed',
+          closingDenominations: denominations,
+          expectedCash,
+          countedCash,
+          variance,
+          varianceStatus: getVarianceStatus(variance),
+          ...(varianceReason ? { varianceReason } : {}),
+          closedBy: userId,
+          closedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+
+        const logRef = agencyRef.collection('audit_logs').doc();
+        transaction.set(logRef, {
+          id: logRef.id,
+          actorId: userId,
+          action: getVarianceStatus(variance) === 'balanced' ? 'teller_session_closed' : 'teller_cash_variance',
+          targetCollection: 'teller_sessions',
+          targetId: sessionId,
+          metadata: {
+            tellerId: session.tellerId,
+            branchId: session.branchId,
+            expectedCash,
+            countedCash,
+            variance,
+          },
+          createdAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+
+        return { variance };
+      });
+
+      if ('error' in closed) {
+        return { success: false, error: closed.error };
+      }
+      return { success: true, variance: closed.variance };
+    } catch (error: any) {
+      console.error('Error closing teller session:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to close teller session',
+      };
+    }
+  }
+);
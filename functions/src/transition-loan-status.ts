@@ -0,0 +1,1166 @@
+/**
+ * Loan Status Transition Cloud Function
+ *
+ * The only path for changing a loan's status. Applies the shared state
+ * machine and role permissions, collects maker-checker approval signatures
+ * (which admin and manager overrides into approved, disbursed or active
+ * cannot skip, and which must still cover the loan when it is disbursed), and performs the side-effects a transition requires in the same
+ * transaction: the repayment schedule on disbursement, the replacement
+ * schedule on restructure, the payoff of a loan settled early and the
+ * balance check on closure, the settlement of the loans a top-up refinances
+ * on its disbursement, the balances taken
+ * off the books on write-off and the release of
+ * collateral liens when a loan closes or is rejected. A loan whose type
+ * requires insured collateral is not disbursed until each such asset has a
+ * policy in force. Firestore rules
+ * reject direct writes to a loan's status.
+ *
+ * Statuses that follow from repayments (overdue, defaulted, settled) are not
+ * chosen by the caller: syncLoanStatus derives them from the schedule.
+ */
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import {
+  LoanStatus,
+  UserRole,
+  canTransitionStatus,
+  isOverrideTransition,
+  canPerformAction,
+  getTransitionAction,
+  APPROVAL_GATED_STATUSES,
+} from '../../packages/loan-rules/src/loan-status';
+import {
+  addApprovalSignature,
+  evaluateApprovals,
+  isApproverRole,
+  resolveApprovalMatrix,
+  type ApprovalRequirement,
+} from '../../packages/loan-rules/src/approval-matrix';
+import { toAllocationInstallment, getOutstandingComponents, sumComponents } from '../../packages/loan-rules/src/allocation';
+import { computeWriteOffBalances, getBookedInterestReceivable } from '../../packages/loan-rules/src/write-off';
+import {
+  buildAmortizationSchedule,
+  DEFAULT_REPAYMENT_FREQUENCY,
+  type InterestCalculationMethod,
+} from '../../packages/loan-rules/src/schedule';
+import { buildRestructurePlan, type RestructurePlan, type RestructureTerms } from '../../packages/loan-rules/src/restructure';
+import { LIEN_RELEASE_STATUSES } from '../../packages/loan-rules/src/collateral-liens';
+import { getPeriodId, isPeriodLocked } from '../../packages/loan-rules/src/ledger';
+import {
+  findInsuranceGaps,
+  resolveInsuranceRequirement,
+  type CollateralInsuranceRequirement,
+  type InsuranceGap,
+  type InsurancePolicyRecord,
+} from '../../packages/loan-rules/src/collateral-insurance';
+import { getDayCountConvention, getBusinessCalendar, getInterestCalculationMethod } from './utils/loan-settings';
+import {
+  prepareLoanSettlement,
+  prepareRefinanceSettlements,
+  writeLoanSettlement,
+  type PreparedLoanSettlement,
+  type PreparedRefinance,
+} from './utils/loan-settlement';
+import { checkSessionPayout, readTellerSession, writeSessionCash, type TellerSessionCash } from './utils/teller-cash';
+import type { CashMovementType } from '../../packages/loan-rules/src/cash-management';
+import { toDateValue } from '../../packages/loan-rules/src/utils';
+
+const db = admin.firestore();
+
+interface TransitionLoanStatusRequest {
+  agencyId: string;
+  loanId: string;
+  newStatus: LoanStatus;
+  notes?: string;
+  disbursementDate?: string; // ISO date; defaults to now
+  settlement?: SettlementRequest; // Closing a loan by paying it off
+  tellerSessionId?: string; // Session the cash of a disbursement or settlement goes through
+}
+
+interface SettlementRequest {
+  settlementDate: string; // ISO date
+  paymentMethod: string;
+  transactionId?: string;
+  quoteId?: string;
+  expectedPayoff?: number;
+  closedReason?: string;
+  repossessionId?: string; // Proceeds of a repossessed asset's sale
+}
+
+interface TransitionLoanStatusResponse {
+  success: boolean;
+  error?: string;
+  previousStatus?: LoanStatus;
+  newStatus?: LoanStatus;
+  awaitingApprovals?: ApprovalRequirement[]; // Approval signed but more signatures are needed
+  releasedLienIds?: string[]; // Collateral liens released by the transition
+}
+
+interface SyncLoanStatusRequest {
+  agencyId: string;
+  loanId: string;
+}
+
+interface SyncLoanStatusResponse {
+  success: boolean;
+  error?: string;
+  previousStatus?: string;
+  status?: string;
+  changed?: boolean;
+}
+
+const APPROVABLE_STATUSES = [LoanStatus.PENDING, LoanStatus.UNDER_REVIEW];
+
+const SETTLEMENT_CLOSED_REASONS = ['early_settlement', 'collateral_sale'];
+
+// Statuses a loan in repayment moves between as its schedule is paid or falls behind
+const REPAYING_STATUSES = ['disbursed', 'active', 'overdue', 'restructured', 'defaulted'];
+const DEFAULT_DAYS_OVERDUE = 90;
+const DEFAULT_OVERDUE_INSTALLMENTS = 3;
+
+/**
+ * Resolve the workflow role of a user from their profile
+ */
+function getUserRole(userData: any): UserRole | null {
+  if (userData.role === 'admin') return UserRole.ADMIN;
+  if (userData.role !== 'employee') return null;
+
+  switch (userData.employee_category) {
+    case 'accountant':
+      return UserRole.ACCOUNTANT;
+    case 'manager':
+      return UserRole.MANAGER;
+    case 'underwriter':
+      return UserRole.UNDERWRITER;
+    case 'collections':
+      return UserRole.COLLECTIONS;
+    default:
+      return UserRole.LOAN_OFFICER;
+  }
+}
+
+function toInstallment(repaymentDoc: admin.firestore.QueryDocumentSnapshot) {
+  const repayment = repaymentDoc.data();
+  return toAllocationInstallment({
+    ...repayment,
+    id: repaymentDoc.id,
+    dueDate: repayment.dueDate?.toDate?.() || repayment.dueDate,
+  });
+}
+
+/**
+ * Replace the unpaid part of a loan's schedule with a restructure plan,
+ * archiving the superseded schedule in scheduleVersions
+ */
+function writeRestructuredSchedule(
+  transaction: admin.firestore.Transaction,
+  loanRef: admin.firestore.DocumentReference,
+  loan: admin.firestore.DocumentData,
+  repaymentsSnap: admin.firestore.QuerySnapshot,
+  plan: RestructurePlan,
+  restructureId: string,
+  previousVersion: number,
+  previousMethod: InterestCalculationMethod
+): void {
+  const closedIds = new Set(plan.closedInstallmentIds);
+  const removedIds = new Set(plan.removedInstallmentIds);
+
+  transaction.set(loanRef.collection('scheduleVersions').doc(String(previousVersion)), {
+    version: previousVersion,
+    terms: {
+      interestRate: Number(loan.interestRate || 0),
+      durationMonths: Number(loan.durationMonths || 0),
+      repaymentFrequency: loan.repaymentFrequency || DEFAULT_REPAYMENT_FREQUENCY,
+      interestCalculationMethod: previousMethod,
+    },
+    installments: repaymentsSnap.docs.map((repaymentDoc) => ({ id: repaymentDoc.id, ...repaymentDoc.data() })),
+    supersededBy: restructureId,
+    supersededAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  for (const repaymentDoc of repaymentsSnap.docs) {
+    if (removedIds.has(repaymentDoc.id)) {
+      transaction.delete(repaymentDoc.ref);
+    } else if (closedIds.has(repaymentDoc.id)) {
+      // Close out at what was paid; the unpaid remainder now lives in the new principal
+      const { paid } = toInstallment(repaymentDoc);
+      const amountDue = Math.round((paid.principal + paid.interest + paid.fees) * 100) / 100;
+      transaction.update(repaymentDoc.ref, {
+        principalDue: paid.principal,
+        interestDue: paid.interest,
+        feeDue: paid.fees,
+        lateFee: paid.penalties,
+        feePaid: paid.fees,
+        penaltyPaid: paid.penalties,
+        interestPaid: paid.interest,
+        principalPaid: paid.principal,
+        amountDue,
+        amountPaid: Math.round((amountDue + paid.penalties) * 100) / 100,
+        originalAmountDue: Number(repaymentDoc.data().amountDue || 0),
+        status: 'restructured',
+        supersededBy: restructureId,
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    }
+  }
+
+  for (const installment of plan.schedule.installments) {
+    transaction.set(loanRef.collection('repayments').doc(), {
+      loanId: loanRef.id,
+      month: installment.installmentNumber, // Kept for screens that still read the legacy field
+      installmentNumber: installment.installmentNumber,
+      dueDate: admin.firestore.Timestamp.fromDate(installment.dueDate),
+      amountDue: installment.amountDue,
+      principalDue: installment.principalDue,
+      interestDue: installment.interestDue,
+      feeDue: installment.feeDue,
+      openingBalance: installment.openingBalance,
+      closingBalance: installment.closingBalance,
+      interestCalculationMethod: plan.schedule.method,
+      repaymentFrequency: plan.schedule.frequency,
+      scheduleVersion: previousVersion + 1,
+      restructureId,
+      amountPaid: 0,
+      status: 'pending',
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  }
+}
+
+/**
+ * Assets securing a loan, by active lien or as recorded on the loan, that lack the insurance its type requires
+ */
+async function findLoanInsuranceGaps(
+  transaction: admin.firestore.Transaction,
+  agencyRef: admin.firestore.DocumentReference,
+  loanRef: admin.firestore.DocumentReference,
+  requirement: CollateralInsuranceRequirement,
+  asOf: Date
+): Promise<InsuranceGap[]> {
+  const [liensSnap, loanCollateralSnap] = await Promise.all([
+    transaction.get(agencyRef.collection('collateral_liens').where('loanId', '==', loanRef.id).where('status', '==', 'active')),
+    transaction.get(loanRef.collection('collateral')),
+  ]);
+  const collateralIds = [...new Set([
+    ...liensSnap.docs.map((lienDoc) => lienDoc.data().collateralId as string),
+    ...loanCollateralSnap.docs.map((collateralDoc) => collateralDoc.id),
+  ])];
+  if (collateralIds.length === 0) {
+    return [];
+  }
+
+  const registrySnaps = await transaction.getAll(
+    ...collateralIds.map((collateralId) => agencyRef.collection('collateral').doc(collateralId))
+  );
+  const collateral = collateralIds.map((collateralId, index) => {
+    const data = registrySnaps[index].data() || loanCollateralSnap.docs.find((collateralDoc) => collateralDoc.id === collateralId)?.data() || {};
+    return { id: collateralId, name: data.name || data.description || null, type: data.type || null };
+  });
+
+  const policies: InsurancePolicyRecord[] = [];
+  // Firestore 'in' queries take up to 30 values
+  for (let i = 0; i < collateralIds.length; i += 30) {
+    const policiesSnap = await transaction.get(
+      agencyRef.collection('collateral_insurance').where('collateralId', 'in', collateralIds.slice(i, i + 30))
+    );
+    for (const policyDoc of policiesSnap.docs) {
+      const data = policyDoc.data();
+      const startDate = toDateValue(data.startDate);
+      const expiryDate = toDateValue(data.expiryDate);
+      // A policy recorded without its dates does not show the asset is covered
+      if (!startDate || !expiryDate) continue;
+      policies.push({ ...data, id: policyDoc.id, startDate, expiryDate } as InsurancePolicyRecord);
+    }
+  }
+
+  return findInsuranceGaps({ requirement, collateral, policies, asOf });
+}
+
+interface LienRelease {
+  liens: admin.firestore.QueryDocumentSnapshot[];
+  stillPledged: Set<string>; // Assets that stay pledged to other loans
+}
+
+/**
+ * Active liens of loans that are ending, and which of their assets other loans still hold
+ */
+async function readLienRelease(
+  transaction: admin.firestore.Transaction,
+  agencyRef: admin.firestore.DocumentReference,
+  loanIds: string[]
+): Promise<LienRelease> {
+  const liensRef = agencyRef.collection('collateral_liens');
+  const liens: admin.firestore.QueryDocumentSnapshot[] = [];
+  for (const loanId of loanIds) {
+    const liensSnap = await transaction.get(liensRef.where('loanId', '==', loanId).where('status', '==', 'active'));
+    liens.push(...liensSnap.docs);
+  }
+
+  const stillPledged = new Set<string>();
+  const collateralIds = [...new Set(liens.map((lienDoc) => lienDoc.data().collateralId as string))];
+  for (const collateralId of collateralIds) {
+    const assetLiensSnap = await transaction.get(
+      liensRef.where('collateralId', '==', collateralId).where('status', '==', 'active')
+    );
+    if (assetLiensSnap.docs.some((lienDoc) => !loanIds.includes(lienDoc.data().loanId))) {
+      stillPledged.add(collateralId);
+    }
+  }
+
+  return { liens, stillPledged };
+}
+
+function writeLienRelease(
+  transaction: admin.firestore.Transaction,
+  agencyRef: admin.firestore.DocumentReference,
+  release: LienRelease,
+  userId: string,
+  releaseReason: string
+): void {
+  for (const lienDoc of release.liens) {
+    const collateralId = lienDoc.data().collateralId as string;
+    transaction.update(lienDoc.ref, {
+      status: 'released',
+      releasedBy: userId,
+      releasedAt: admin.firestore.FieldValue.serverTimestamp(),
+      releaseReason,
+    });
+    if (!release.stillPledged.has(collateralId)) {
+      transaction.set(agencyRef.collection('collateral').doc(collateralId), {
+        lienStatus: 'released',
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      }, { merge: true });
+    }
+  }
+}
+
+/**
+ * Transition a loan's status (callable)
+ */
+export const transitionLoanStatus = functions.https.onCall(
+  async (data: TransitionLoanStatusRequest, context): Promise<TransitionLoanStatusResponse> => {
+    // Verify authentication
+    if (!context.auth) {
+      return {
+        success: false,
+        error: 'User must be authenticated',
+      };
+    }
+
+    const { agencyId, loanId, newStatus, notes } = data;
+    if (!agencyId || !loanId || !newStatus) {
+      return { success: false, error: 'agencyId, loanId and newStatus are required' };
+    }
+    if (!Object.values(LoanStatus).includes(newStatus)) {
+      return { success: false, error: `Unknown loan status: ${newStatus}` };
+    }
+
+    const userId = context.auth.uid;
+
+    try {
+      // Verify user belongs to agency and resolve their role server-side
+      const userSnap = await db.doc(`users/${userId}`).get();
+      if (!userSnap.exists) {
+        return { success: false, error: 'User not found' };
+      }
+
+      const userData = userSnap.data()!;
+      if (userData.agency_id !== agencyId) {
+        return { success: false, error: 'User does not belong to this agency' };
+      }
+
+      const userRole = getUserRole(userData);
+      if (!userRole) {
+        return { success: false, error: 'Only agency staff can change loan status' };
+      }
+
+      const agencyRef = db.collection('agencies').doc(agencyId);
+      const [agencySnap, matrixSnap, loanTypesSnap, periodsSnap] = await Promise.all([
+        agencyRef.get(),
+        agencyRef.collection('config').doc('approvalMatrix').get(),
+        agencyRef.collection('config').doc('loanTypes').get(),
+        agencyRef.collection('config').doc('accountingPeriods').get(),
+      ]);
+      const agencyData = agencySnap.data();
+      const lockedThrough: string | null = periodsSnap.data()?.lockedThrough || null;
+      const approvalMatrix = resolveApprovalMatrix(matrixSnap.exists ? matrixSnap.data() : undefined);
+      const loanTypes = loanTypesSnap.exists ? loanTypesSnap.data()?.loanTypes || {} : {};
+
+      const loanRef = agencyRef.collection('loans').doc(loanId);
+
+      return await db.runTransaction(async (transaction): Promise<TransitionLoanStatusResponse> => {
+        const loanSnap = await transaction.get(loanRef);
+        if (!loanSnap.exists) {
+          return { success: false, error: 'Loan not found' };
+        }
+
+        const loan = loanSnap.data()!;
+        const currentStatus = (loan.status || LoanStatus.DRAFT) as LoanStatus;
+        if (currentStatus === newStatus) {
+          return { success: false, error: `Loan is already ${newStatus}` };
+        }
+        // Only a rejected restructure returns a loan to defaulted; otherwise syncLoanStatus sets it
+        if (newStatus === LoanStatus.DEFAULTED && currentStatus !== LoanStatus.RESTRUCTURING) {
+          return { success: false, error: 'Loans are marked defaulted from their repayment schedule' };
+        }
+
+        // Validate status transition
+        if (!canTransitionStatus(currentStatus, newStatus, userRole)) {
+          return {
+            success: false,
+            error: `Cannot transition from ${currentStatus} to ${newStatus} with role ${userRole}`,
+          };
+        }
+
+        // Validate permissions
+        const action = getTransitionAction(currentStatus, newStatus);
+        if (!canPerformAction(action, userRole, currentStatus, loan.createdBy === userId)) {
+          return { success: false, error: `You do not have permission to ${action} loans` };
+        }
+
+        // An override into approval or beyond still needs the signatures the approval matrix requires
+        const makerId = loan.createdBy || loan.officerId || undefined;
+        if (isOverrideTransition(currentStatus, newStatus) && APPROVAL_GATED_STATUSES.includes(newStatus)) {
+          if (makerId === userId) {
+            return { success: false, error: 'You cannot override the status of a loan you originated' };
+          }
+          const evaluation = evaluateApprovals(approvalMatrix, {
+            amount: Number(loan.amount ?? loan.terms?.amount ?? 0),
+            loanType: loan.loanType,
+            makerId,
+            signatures: loan.approvalSignatures || [],
+          });
+          if (!evaluation.satisfied) {
+            const outstanding = evaluation.outstanding
+              .map((requirement) => `${requirement.count} ${requirement.role.replace('_', ' ')}`)
+              .join(' and ');
+            return {
+              success: false,
+              error: `Loan cannot be moved to ${newStatus} until it is approved${outstanding ? `: needs ${outstanding}` : ''}`,
+            };
+          }
+        }
+
+        const repaymentsSnap = await transaction.get(loanRef.collection('repayments'));
+        const now = new Date();
+        const updateData: any = {
+          status: newStatus,
+          statusUpdatedBy: userId,
+          statusUpdatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          updated_at: now.toISOString(),
+        };
+
+        // Approval needs the signatures the agency's approval matrix requires
+        if (newStatus === LoanStatus.APPROVED && APPROVABLE_STATUSES.includes(currentStatus)) {
+          if (!isApproverRole(userRole)) {
+            return { success: false, error: 'Your role cannot sign loan approvals' };
+          }
+
+          const signing = addApprovalSignature(
+            approvalMatrix,
+            {
+              amount: Number(loan.amount ?? loan.terms?.amount ?? 0),
+              loanType: loan.loanType,
+              makerId,
+              signatures: loan.approvalSignatures || [],
+            },
+            {
+              userId,
+              userName: userData.full_name || userData.email || null,
+              role: userRole,
+              signedAt: now.toISOString(),
+              ...(notes ? { notes } : {}),
+            }
+          );
+          if (!signing.accepted) {
+            return { success: false, error: signing.error };
+          }
+
+          const approvalFields = {
+            approvalSignatures: signing.signatures,
+            approvalRequirements: {
+              required: signing.evaluation.required,
+              outstanding: signing.evaluation.outstanding,
+              maxAmount: signing.evaluation.tier?.maxAmount ?? null,
+            },
+          };
+
+          if (!signing.alreadySigned) {
+            writeAuditLog(transaction, agencyId, {
+              actorId: userId,
+              action: 'loan_approval_signed',
+              targetId: loanId,
+              metadata: {
+                role: userRole,
+                complete: signing.evaluation.satisfied,
+                outstanding: signing.evaluation.outstanding,
+                notes: notes || '',
+              },
+            });
+          }
+
+          if (!signing.evaluation.satisfied) {
+            transaction.update(loanRef, { ...approvalFields, updated_at: now.toISOString() });
+            return {
+              success: true,
+              previousStatus: currentStatus,
+              awaitingApprovals: signing.evaluation.outstanding,
+            };
+          }
+
+          Object.assign(updateData, approvalFields);
+        }
+
+        // Decisions on applications and restructure requests keep a record of the review
+        if (action === 'approve' || action === 'reject') {
+          updateData.approval = {
+            decision: action === 'approve' ? 'approved' : 'rejected',
+            reviewedBy: userId,
+            reviewedAt: now.toISOString(),
+            notes: notes || '',
+            previousStatus: currentStatus,
+            newStatus,
+          };
+          if (newStatus === LoanStatus.APPROVED) {
+            updateData.approved_by = userId;
+          }
+        }
+
+        let refinance: PreparedRefinance | null = null;
+        let refinancedLiens: LienRelease | null = null;
+        let cash: { session: TellerSessionCash; type: CashMovementType; amount: number; paymentId?: string } | null = null;
+        if (newStatus === LoanStatus.DISBURSED) {
+          const disbursementDate = data.disbursementDate ? new Date(data.disbursementDate) : now;
+          if (isNaN(disbursementDate.getTime())) {
+            return { success: false, error: 'Invalid disbursement date' };
+          }
+          if (isPeriodLocked(getPeriodId(disbursementDate), lockedThrough)) {
+            return { success: false, error: 'Disbursements cannot be dated in a closed period' };
+          }
+
+          // The amount or type may have been edited since approval; the signatures must still cover what is paid out
+          if (loan.approvalSignatures) {
+            const evaluation = evaluateApprovals(approvalMatrix, {
+              amount: Number(loan.amount ?? loan.terms?.amount ?? 0),
+              loanType: loan.loanType,
+              makerId,
+              signatures: loan.approvalSignatures,
+            });
+            if (!evaluation.satisfied) {
+              const outstanding = evaluation.outstanding
+                .map((requirement) => `${requirement.count} ${requirement.role.replace('_', ' ')}`)
+                .join(' and ');
+              return {
+                success: false,
+                error: `Loan changed since it was approved; return it to pending for approval again${outstanding ? `: needs ${outstanding}` : ''}`,
+              };
+            }
+          }
+
+          // Collateral the loan type requires insured must have a policy in force
+          const insuranceRequirement = resolveInsuranceRequirement(loanTypes[loan.loanType]?.collateralInsurance);
+          if (insuranceRequirement.required) {
+            const gaps = await findLoanInsuranceGaps(transaction, agencyRef, loanRef, insuranceRequirement, disbursementDate);
+            if (gaps.length > 0) {
+              return {
+                success: false,
+                error: `Cannot disburse until the collateral is insured: ${gaps.map((gap) => gap.message).join('; ')}`,
+              };
+            }
+          }
+
+          // A top-up pays off the loans it consolidates out of its principal before any cash is released
+          if (loan.refinance?.loanIds?.length) {
+            const prepared = await prepareRefinanceSettlements(
+              transaction, loanRef, loan, agencyData, userRole, disbursementDate
+            );
+            if (!prepared.refinance) {
+              return { success: false, error: prepared.error };
+            }
+            refinance = prepared.refinance;
+            refinancedLiens = await readLienRelease(transaction, agencyRef, refinance.loans.map((refinanced) => refinanced.loanId));
+
+            updateData['refinance.loans'] = refinance.loans.map(({ loanId: id, loanNumber, payoffAmount }) => ({ loanId: id, loanNumber, payoffAmount }));
+            updateData['refinance.settlementTotal'] = refinance.netting.settlementTotal;
+            updateData['refinance.netDisbursement'] = refinance.netting.netDisbursement;
+            updateData['refinance.settledAt'] = admin.firestore.FieldValue.serverTimestamp();
+          }
+
+          // Cash paid out at the counter leaves the teller's drawer with the disbursement
+          const cashAmount = refinance ? refinance.netting.netDisbursement : Number(loan.amount ?? loan.terms?.amount ?? 0);
+          if (data.tellerSessionId && cashAmount > 0) {
+            const teller = await readTellerSession(transaction, agencyRef, data.tellerSessionId, userId);
+            if (!teller.session) {
+              return { success: false, error: teller.error };
+            }
+            const payoutError = checkSessionPayout(teller.session, cashAmount);
+            if (payoutError) {
+              return { success: false, error: payoutError };
+            }
+            cash = { session: teller.session, type: 'disbursement', amount: cashAmount };
+          }
+
+          updateData.disbursed_at = now.toISOString();
+          updateData.disbursed_by = userId;
+          updateData.disbursementDate = admin.firestore.Timestamp.fromDate(disbursementDate);
+
+          // Loans originated without a schedule get one from the disbursement date
+          if (repaymentsSnap.empty) {
+            const schedule = buildAmortizationSchedule({
+              principal: Number(loan.amount || 0),
+              annualRate: Number(loan.interestRate || 0),
+              durationMonths: Number(loan.durationMonths || 0),
+              startDate: disbursementDate,
+              method: getInterestCalculationMethod(loan, agencyData),
+              frequency: loan.repaymentFrequency,
+              customIntervalDays: loan.customIntervalDays,
+              dayCount: getDayCountConvention(agencyData),
+              calendar: getBusinessCalendar(agencyData),
+            });
+
+            for (const installment of schedule.installments) {
+              const repaymentId = `${loanId}-repayment-${installment.installmentNumber}`;
+              transaction.set(loanRef.collection('repayments').doc(repaymentId), {
+                id: repaymentId,
+                loanId,
+                installmentNumber: installment.installmentNumber,
+                dueDate: admin.firestore.Timestamp.fromDate(installment.dueDate),
+                amountDue: installment.amountDue,
+                principalDue: installment.principalDue,
+                interestDue: installment.interestDue,
+                feeDue: installment.feeDue,
+                amountPaid: 0,
+                paidAt: null,
+                status: 'pending',
+                method: null,
+                createdAt: admin.firestore.FieldValue.serverTimestamp(),
+              });
+            }
+          }
+        }
+
+        let settlement: PreparedLoanSettlement | null = null;
+        if (newStatus === LoanStatus.CLOSED && data.settlement) {
+          // Paying off the loan and closing it are committed together
+          const settlementDate = new Date(data.settlement.settlementDate);
+          if (isNaN(settlementDate.getTime())) {
+            return { success: false, error: 'Invalid settlement date' };
+          }
+          if (isPeriodLocked(getPeriodId(settlementDate), lockedThrough)) {
+            return { success: false, error: 'Settlements cannot be dated in a closed period' };
+          }
+          const closedReason = data.settlement.closedReason || 'early_settlement';
+          if (!SETTLEMENT_CLOSED_REASONS.includes(closedReason)) {
+            return { success: false, error: `Unknown settlement reason: ${closedReason}` };
+          }
+
+          const prepared = await prepareLoanSettlement(transaction, loanRef, loan, agencyData, {
+            settlementDate,
+            paymentId: data.settlement.transactionId?.trim()
+              || `settlement-${loanId}-${data.settlement.quoteId || settlementDate.getTime()}`,
+            paymentMethod: data.settlement.paymentMethod,
+            transactionId: data.settlement.transactionId || null,
+            quoteId: data.settlement.quoteId || null,
+            expectedPayoff: data.settlement.expectedPayoff,
+            notes: notes || null,
+          });
+          if (!prepared.settlement) {
+            return { success: false, error: prepared.error };
+          }
+          settlement = prepared.settlement;
+
+          // Cash taken at the counter goes into the teller's drawer with the payoff
+          if (data.tellerSessionId) {
+            const teller = await readTellerSession(transaction, agencyRef, data.tellerSessionId, userId);
+            if (!teller.session) {
+              return { success: false, error: teller.error };
+            }
+            cash = {
+              session: teller.session,
+              type: 'payment',
+              amount: settlement.quote.payoffAmount,
+              paymentId: settlement.options.paymentId,
+            };
+          }
+
+          updateData.closedReason = closedReason;
+          updateData.settlementPaymentId = settlement.options.paymentId;
+          if (data.settlement.repossessionId) {
+            updateData.repossessionId = data.settlement.repossessionId;
+          }
+          updateData.closed_at = now.toISOString();
+          updateData.closed_by = userId;
+        } else if (newStatus === LoanStatus.CLOSED) {
+          // A loan is only closed once nothing is owed on it
+          const outstanding = repaymentsSnap.empty
+            ? Number(loan.remainingBalance || 0)
+            : repaymentsSnap.docs.reduce((sum, repaymentDoc) => {
+                const repayment = repaymentDoc.data();
+                const installment = toAllocationInstallment({
+                  ...repayment,
+                  dueDate: repayment.dueDate?.toDate?.() || repayment.dueDate,
+                });
+                return sum + sumComponents(getOutstandingComponents(installment));
+              }, 0);
+
+          if (outstanding > 0.005) {
+            return {
+              success: false,
+              error: `Loan still has ${outstanding.toFixed(2)} outstanding and cannot be closed`,
+            };
+          }
+
+          updateData.closed_at = now.toISOString();
+          updateData.closed_by = userId;
+        }
+
+        let writeOffRequestRef: admin.firestore.DocumentReference | null = null;
+        if (newStatus === LoanStatus.WRITTEN_OFF) {
+          // A write-off needs a pending request, approved by someone other than its requester
+          const requestsSnap = await transaction.get(
+            loanRef.collection('writeOffs').where('status', '==', 'pending').limit(1)
+          );
+          if (requestsSnap.empty) {
+            return { success: false, error: 'A write-off must be requested before it can be approved' };
+          }
+          const request = requestsSnap.docs[0].data();
+          if (request.requestedBy === userId) {
+            return { success: false, error: 'A write-off must be approved by someone other than the requester' };
+          }
+
+          const paymentsSnap = await transaction.get(loanRef.collection('payments'));
+          const balances = computeWriteOffBalances(
+            repaymentsSnap.docs.map((repaymentDoc) => {
+              const repayment = repaymentDoc.data();
+              return toAllocationInstallment({ ...repayment, dueDate: repayment.dueDate?.toDate?.() || repayment.dueDate });
+            }),
+            now,
+            getBookedInterestReceivable(loan.accruedInterest, paymentsSnap.docs.map((paymentDoc) => paymentDoc.data()))
+          );
+          if (balances.total <= 0) {
+            return { success: false, error: 'Loan has no outstanding balance to write off' };
+          }
+
+          writeOffRequestRef = requestsSnap.docs[0].ref;
+          updateData.writeOff = {
+            ...balances,
+            requestId: writeOffRequestRef.id,
+            reason: request.reason || '',
+            requestedBy: request.requestedBy,
+            approvedBy: userId,
+            interestInSuspense: Number(loan.interestInSuspense || 0), // Never booked, so not part of the loss
+            writtenOffOn: now.toISOString().slice(0, 10),
+          };
+          updateData.writtenOffAt = admin.firestore.FieldValue.serverTimestamp();
+          updateData.recoveredAmount = Number(loan.recoveredAmount || 0);
+          updateData.statusBeforeWriteOff = currentStatus;
+        }
+
+        // A restructure follows its pending request: the request is needed to start one,
+        // and is approved by someone other than its requester or rejected back
+        let restructureRequestRef: admin.firestore.DocumentReference | null = null;
+        let restructurePlan: RestructurePlan | null = null;
+        const previousScheduleVersion = Number(loan.scheduleVersion || 1);
+        if (newStatus === LoanStatus.RESTRUCTURING || currentStatus === LoanStatus.RESTRUCTURING) {
+          const requestsSnap = await transaction.get(
+            loanRef.collection('restructures').where('status', '==', 'pending').limit(1)
+          );
+          restructureRequestRef = requestsSnap.empty ? null : requestsSnap.docs[0].ref;
+
+          if (newStatus !== LoanStatus.RESTRUCTURED) {
+            if (newStatus === LoanStatus.RESTRUCTURING && !restructureRequestRef) {
+              return { success: false, error: 'A restructure must be requested with its new terms' };
+            }
+          } else {
+            if (!restructureRequestRef) {
+              return { success: false, error: 'A restructure must be requested before it can be approved' };
+            }
+            const request = requestsSnap.docs[0].data();
+            if (request.requestedBy === userId) {
+              return { success: false, error: 'A restructure must be approved by someone other than the requester' };
+            }
+
+            // Recomputed now so arrears that moved since the request are capitalized correctly
+            const terms = request.terms as RestructureTerms;
+            restructurePlan = buildRestructurePlan({
+              installments: repaymentsSnap.docs.map(toInstallment),
+              restructureDate: now,
+              terms: { ...terms, method: terms.method || getInterestCalculationMethod(loan, agencyData) },
+              dayCount: getDayCountConvention(agencyData),
+              calendar: getBusinessCalendar(agencyData),
+            });
+            if (restructurePlan.newPrincipal <= 0) {
+              return { success: false, error: 'Loan has no outstanding balance to restructure' };
+            }
+
+            Object.assign(updateData, {
+              originalTerms: loan.originalTerms || {
+                amount: Number(loan.amount || 0),
+                interestRate: Number(loan.interestRate || 0),
+                durationMonths: Number(loan.durationMonths || 0),
+                repaymentFrequency: loan.repaymentFrequency || DEFAULT_REPAYMENT_FREQUENCY,
+              },
+              interestRate: terms.annualRate,
+              durationMonths: terms.durationMonths,
+              repaymentFrequency: restructurePlan.schedule.frequency,
+              interestCalculationMethod: restructurePlan.schedule.method,
+              restructuredPrincipal: restructurePlan.newPrincipal,
+              capitalizedArrears: Number(loan.capitalizedArrears || 0) + restructurePlan.capitalizedAmount,
+              scheduleVersion: previousScheduleVersion + 1,
+              restructureCount: Number(loan.restructureCount || 0) + 1,
+              lastRestructuredAt: admin.firestore.FieldValue.serverTimestamp(),
+            });
+          }
+        }
+
+        // A loan that ends with nothing owed releases its liens, freeing the assets to be pledged again
+        const lienRelease: LienRelease = LIEN_RELEASE_STATUSES.includes(newStatus)
+          ? await readLienRelease(transaction, agencyRef, [loanId])
+          : { liens: [], stillPledged: new Set() };
+        const releasedLiens = lienRelease.liens;
+
+        transaction.update(loanRef, updateData);
+
+        if (cash) {
+          writeSessionCash(transaction, cash.session, {
+            type: cash.type,
+            amount: cash.amount,
+            recordedBy: userId,
+            loanId,
+            paymentId: cash.paymentId,
+          });
+        }
+
+        if (settlement) {
+          writeLoanSettlement(transaction, settlement, userId);
+          writeAuditLog(transaction, agencyId, {
+            actorId: userId,
+            action: 'loan_settled',
+            targetId: loanId,
+            metadata: {
+              quoteId: settlement.options.quoteId || null,
+              paymentId: settlement.options.paymentId,
+              payoffAmount: settlement.quote.payoffAmount,
+              rebate: settlement.quote.rebate,
+              penalty: settlement.quote.penalty,
+              paymentMethod: settlement.options.paymentMethod,
+              closedReason: updateData.closedReason,
+            },
+          });
+        }
+
+        writeLienRelease(
+          transaction, agencyRef, lienRelease, userId,
+          newStatus === LoanStatus.CLOSED ? 'Loan closed' : 'Loan application rejected'
+        );
+
+        if (refinance) {
+          refinance.settlements.forEach((refinanced, index) => {
+            const previousStatus = refinance!.loans[index].status;
+            transaction.update(refinanced.loanRef, {
+              status: LoanStatus.CLOSED,
+              closedReason: 'refinanced',
+              refinancedBy: loanId,
+              refinancedByLoanNumber: loan.loanNumber || null,
+              settlementPaymentId: refinanced.options.paymentId,
+              statusUpdatedBy: userId,
+              statusUpdatedAt: admin.firestore.FieldValue.serverTimestamp(),
+              updated_at: now.toISOString(),
+              closed_at: now.toISOString(),
+              closed_by: userId,
+            });
+            writeLoanSettlement(transaction, refinanced, userId);
+            transaction.set(refinanced.loanRef.collection('audit_logs').doc(), {
+              action: 'STATUS_CHANGE',
+              previousStatus,
+              newStatus: LoanStatus.CLOSED,
+              performedBy: userId,
+              performedByRole: userRole,
+              timestamp: now.toISOString(),
+              notes: refinanced.options.notes || '',
+              metadata: { refinancedBy: loanId },
+            });
+          });
+          if (refinancedLiens) {
+            writeLienRelease(transaction, agencyRef, refinancedLiens, userId, 'Loan refinanced');
+          }
+
+          writeAuditLog(transaction, agencyId, {
+            actorId: userId,
+            action: 'loan_refinanced',
+            targetId: loanId,
+            metadata: {
+              refinancedLoans: updateData['refinance.loans'],
+              settlementTotal: refinance.netting.settlementTotal,
+              netDisbursement: refinance.netting.netDisbursement,
+              releasedLienIds: refinancedLiens?.liens.map((lienDoc) => lienDoc.id) || [],
+            },
+          });
+        }
+
+        if (writeOffRequestRef) {
+          transaction.update(writeOffRequestRef, {
+            status: 'approved',
+            reviewedBy: userId,
+            reviewedAt: admin.firestore.FieldValue.serverTimestamp(),
+            reviewNotes: notes || '',
+            applied: updateData.writeOff,
+          });
+        }
+
+        if (restructureRequestRef && currentStatus === LoanStatus.RESTRUCTURING) {
+          const review = {
+            reviewedBy: userId,
+            reviewedAt: admin.firestore.FieldValue.serverTimestamp(),
+            reviewNotes: notes || '',
+          };
+          if (restructurePlan) {
+            writeRestructuredSchedule(
+              transaction,
+              loanRef,
+              loan,
+              repaymentsSnap,
+              restructurePlan,
+              restructureRequestRef.id,
+              previousScheduleVersion,
+              getInterestCalculationMethod(loan, agencyData)
+            );
+            transaction.update(restructureRequestRef, {
+              ...review,
+              status: 'approved',
+              scheduleVersion: previousScheduleVersion + 1,
+              applied: {
+                restructureDate: admin.firestore.Timestamp.fromDate(now),
+                outstandingPrincipal: restructurePlan.outstandingPrincipal,
+                arrears: restructurePlan.arrears,
+                capitalizedAmount: restructurePlan.capitalizedAmount,
+                waivedPenalties: restructurePlan.waivedPenalties,
+                newPrincipal: restructurePlan.newPrincipal,
+                installmentAmount: restructurePlan.schedule.installmentAmount,
+                numberOfInstallments: restructurePlan.schedule.numberOfInstallments,
+                totalAmount: restructurePlan.schedule.totalAmount,
+              },
+            });
+          } else {
+            transaction.update(restructureRequestRef, { ...review, status: 'rejected' });
+          }
+
+          writeAuditLog(transaction, agencyId, {
+            actorId: userId,
+            action: restructurePlan ? 'loan_restructure_approved' : 'loan_restructure_rejected',
+            targetId: loanId,
+            metadata: {
+              action: restructurePlan ? 'RESTRUCTURE_APPROVED' : 'RESTRUCTURE_REJECTED',
+              restructureId: restructureRequestRef.id,
+              ...(restructurePlan
+                ? {
+                    scheduleVersion: previousScheduleVersion + 1,
+                    capitalizedAmount: restructurePlan.capitalizedAmount,
+                    newPrincipal: restructurePlan.newPrincipal,
+                  }
+                : {}),
+              notes: notes || '',
+            },
+          });
+        }
+
+        writeAuditLog(transaction, agencyId, {
+          actorId: userId,
+          action: 'loan_status_change',
+          targetId: loanId,
+          metadata: {
+            previousStatus: currentStatus,
+            newStatus,
+            notes: notes || '',
+            role: userRole,
+            ...(releasedLiens.length > 0 ? { releasedLienIds: releasedLiens.map((lienDoc) => lienDoc.id) } : {}),
+          },
+        });
+
+        transaction.set(loanRef.collection('audit_logs').doc(), {
+          action: 'STATUS_CHANGE',
+          previousStatus: currentStatus,
+          newStatus,
+          performedBy: userId,
+          performedByRole: userRole,
+          timestamp: now.toISOString(),
+          notes: notes || '',
+          metadata: {
+            approval: updateData.approval || null,
+          },
+        });
+
+        return {
+          success: true,
+          previousStatus: currentStatus,
+          newStatus,
+          ...(releasedLiens.length > 0 ? { releasedLienIds: releasedLiens.map((lienDoc) => lienDoc.id) } : {}),
+        };
+      });
+    } catch (error: any) {
+      console.error('Error transitioning loan status:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to change loan status',
+      };
+    }
+  }
+);
+
+/**
+ * Derive a repaying loan's status from its schedule
+ */
+function deriveRepaymentStatus(currentStatus: string, repayments: any[], outstanding: number, now: Date): string {
+  if (outstanding <= 0.005) {
+    return 'settled';
+  }
+
+  const overdue = repayments.filter((repayment) => {
+    if (repayment.status !== 'overdue') return false;
+    const dueDate = repayment.dueDate?.toDate?.() || new Date(repayment.dueDate || 0);
+    return dueDate < now;
+  });
+
+  const hasDefaulted =
+    overdue.length >= DEFAULT_OVERDUE_INSTALLMENTS ||
+    overdue.some((repayment) => Number(repayment.daysOverdue || 0) >= DEFAULT_DAYS_OVERDUE);
+
+  if (hasDefaulted) return 'defaulted';
+  // A defaulted loan stays defaulted until it is settled or written off
+  if (currentStatus === 'defaulted') return currentStatus;
+  if (overdue.length > 0) return 'overdue';
+  if (currentStatus === 'overdue') return LoanStatus.ACTIVE;
+  return currentStatus;
+}
+
+/**
+ * Bring a repaying loan's status in line with its repayment schedule (callable)
+ */
+export const syncLoanStatus = functions.https.onCall(
+  async (data: SyncLoanStatusRequest, context): Promise<SyncLoanStatusResponse> => {
+    if (!context.auth) {
+      return {
+        success: false,
+        error: 'User must be authenticated',
+      };
+    }
+
+    const { agencyId, loanId } = data;
+    if (!agencyId || !loanId) {
+      return { success: false, error: 'agencyId and loanId are required' };
+    }
+
+    const userId = context.auth.uid;
+
+    try {
+      const userSnap = await db.doc(`users/${userId}`).get();
+      if (!userSnap.exists) {
+        return { success: false, error: 'User not found' };
+      }
+
+      const userData = userSnap.data()!;
+      if (userData.agency_id !== agencyId) {
+        return { success: false, error: 'User does not belong to this agency' };
+      }
+      if (!getUserRole(userData)) {
+        return { success: false, error: 'Only agency staff can update loan status' };
+      }
+
+      const loanRef = db.collection('agencies').doc(agencyId).collection('loans').doc(loanId);
+
+      return await db.runTransaction(async (transaction): Promise<SyncLoanStatusResponse> => {
+        const loanSnap = await transaction.get(loanRef);
+        if (!loanSnap.exists) {
+          return { success: false, error: 'Loan not found' };
+        }
+
+        const loan = loanSnap.data()!;
+        const currentStatus: string = loan.status || LoanStatus.DRAFT;
+
+        // Applications and closed loans only move through transitionLoanStatus
+        if (!REPAYING_STATUSES.includes(currentStatus)) {
+          return { success: true, previousStatus: currentStatus, status: currentStatus, changed: false };
+        }
+
+        const repaymentsSnap = await transaction.get(loanRef.collection('repayments'));
+        const repayments = repaymentsSnap.docs.map((repaymentDoc) => repaymentDoc.data());
+
+        // Loans repaid ad hoc, without a schedule, track their balance on the loan
+        const trackedBalance = loan.remainingBalance ?? loan.outstandingBalance;
+        if (repayments.length === 0 && typeof trackedBalance !== 'number') {
+          return { success: true, previousStatus: currentStatus, status: currentStatus, changed: false };
+        }
+
+        const outstanding = repayments.length === 0
+          ? trackedBalance
+          : repayments.reduce((sum, repayment) => {
+              const installment = toAllocationInstallment({
+                ...repayment,
+                dueDate: repayment.dueDate?.toDate?.() || repayment.dueDate,
+              });
+              return sum + sumComponents(getOutstandingComponents(installment));
+            }, 0);
+
+        const now = new Date();
+        const status = deriveRepaymentStatus(currentStatus, repayments, outstanding, now);
+        if (status === currentStatus) {
+          return { success: true, previousStatus: currentStatus, status, changed: false };
+        }
+
+        const updateData: any = {
+          status,
+          statusUpdatedBy: userId,
+          statusUpdatedAt: admin.firestore.FieldValue.serverTimestamp(),
+          updated_at: now.toISOString(),
+        };
+        if (status === 'settled') {
+          updateData.settledAt = admin.firestore.FieldValue.serverTimestamp();
+          updateData.completedAt = admin.firestore.FieldValue.serverTimestamp(); // Keep for backward compatibility
+        }
+        if (status === 'defaulted') {
+          updateData.defaultedAt = admin.firestore.FieldValue.serverTimestamp();
+        }
+
+        transaction.update(loanRef, updateData);
+
+        writeAuditLog(transaction, agencyId, {
+          actorId: userId,
+          action: 'loan_status_auto_update',
+          targetId: loanId,
+          metadata: {
+            previousStatus: currentStatus,
+            newStatus: status,
+            outstanding: Math.round(outstanding * 100) / 100,
+          },
+        });
+
+        return { success: true, previousStatus: currentStatus, status, changed: true };
+      });
+    } catch (error: any) {
+      console.error('Error syncing loan status:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to update loan status',
+      };
+    }
+  }
+);
+
+function writeAuditLog(
+  transaction: admin.firestore.Transaction,
+  agencyId: string,
+  entry: { actorId: string; action: string; targetId: string; metadata: any }
+): void {
+  const logRef = db.collection('agencies').doc(agencyId).collection('audit_logs').doc();
+  transaction.set(logRef, {
+    id: logRef.id,
+    actorId: entry.actorId,
+    action: entry.action,
+    targetCollection: 'loans',
+    targetId: entry.targetId,
+    metadata: entry.metadata,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
@@ -0,0 +1,65 @@
+/**
+ * Agency Loan Settings Utilities
+ * Reads the agency loan settings that drive schedules, accruals and late fees
+ */
+
+import {
+  DEFAULT_BUSINESS_CALENDAR,
+  DEFAULT_DAY_COUNT_CONVENTION,
+  BusinessCalendar,
+  DayCountConvention,
+} from '../../../packages/loan-rules/src/calendar';
+import { LateFeeConfig } from '../../../packages/loan-rules/src/late-fees';
+import { InterestCalculationMethod } from '../../../packages/loan-rules/src/schedule';
+import { DEFAULT_SETTLEMENT_REBATE, SettlementRebateConfig } from '../../../packages/loan-rules/src/settlement';
+
+/**
+ * Get the day-count convention configured for an agency
+ */
+export function getDayCountConvention(agencyData: any): DayCountConvention {
+  return agencyData?.settings?.loanSettings?.dayCountConvention || DEFAULT_DAY_COUNT_CONVENTION;
+}
+
+/**
+ * Get the interest method a loan is priced with: its own, else the one configured for the agency
+ */
+export function getInterestCalculationMethod(loan: any, agencyData: any): InterestCalculationMethod {
+  return loan?.interestCalculationMethod || agencyData?.settings?.loanSettings?.interestCalculationMethod || 'simple';
+}
+
+/**
+ * Get the business calendar configured for an agency
+ */
+export function getBusinessCalendar(agencyData: any): BusinessCalendar {
+  const loanSettings = agencyData?.settings?.loanSettings || {};
+  return {
+    roll: loanSettings.businessDayRoll ?? DEFAULT_BUSINESS_CALENDAR.roll,
+    weekendDays: loanSettings.weekendDays ?? DEFAULT_BUSINESS_CALENDAR.weekendDays,
+    holidays: loanSettings.holidays ?? DEFAULT_BUSINESS_CALENDAR.holidays,
+    includeNationalHolidays: loanSettings.includeNationalHolidays ?? DEFAULT_BUSINESS_CALENDAR.includeNationalHolidays,
+  };
+}
+
+/**
+ * Get the late fee configuration for an agency
+ */
+export function getLateFeeConfig(agencyData: any): LateFeeConfig {
+  const loanSettings = agencyData?.settings?.loanSettings || {};
+  return {
+    gracePeriodDays: loanSettings.gracePeriodDays ?? 7,
+    lateFeeRate: loanSettings.lateFeeRate ?? 2.5,
+    maxLateFeeRate: loanSettings.maxLateFeeRate ?? 25,
+    dayCountConvention: getDayCountConvention(agencyData),
+  };
+}
+
+/**
+ * Get the interest rebate rule applied to early settlements for an agency
+ */
+export function getSettlementRebateConfig(agencyData: any): SettlementRebateConfig {
+  const loanSettings = agencyData?.settings?.loanSettings || {};
+  return {
+    method: loanSettings.settlementRebateMethod ?? DEFAULT_SETTLEMENT_REBATE.method,
+    penaltyRate: loanSettings.earlySettlementPenaltyRate ?? DEFAULT_SETTLEMENT_REBATE.penaltyRate,
+  };
+}
@@ -0,0 +1,298 @@
+/**
+ * Loan Settlement Utilities
+ * Settles every outstanding installment of a loan inside a status transition,
+ * so the payoff payment and the loan's closure are committed together. A
+ * top-up settles the loans it consolidates in its disbursement the same way.
+ */
+
+import * as admin from 'firebase-admin';
+import {
+  getOutstandingComponents,
+  sumComponents,
+  toAllocationInstallment,
+  type AllocationInstallment,
+} from '../../../packages/loan-rules/src/allocation';
+import {
+  calculateSettlementQuote,
+  netRefinanceSettlements,
+  type RefinanceNetting,
+  type SettlementQuote,
+} from '../../../packages/loan-rules/src/settlement';
+import { LoanStatus, UserRole, canTransitionStatus, canPerformAction } from '../../../packages/loan-rules/src/loan-status';
+import { getDayCountConvention, getSettlementRebateConfig } from './loan-settings';
+import { roundCurrency, toDateValue } from '../../../packages/loan-rules/src/utils';
+
+export interface LoanSettlementOptions {
+  settlementDate: Date;
+  paymentId: string;
+  paymentMethod: string;
+  transactionId?: string | null;
+  quoteId?: string | null; // Settlement quote being accepted, if any
+  expectedPayoff?: number; // Refuse to settle if the payoff has moved from this amount
+  notes?: string | null;
+}
+
+export interface PreparedLoanSettlement {
+  loanRef: admin.firestore.DocumentReference;
+  quote: SettlementQuote;
+  repayments: Array<{ ref: admin.firestore.DocumentReference; data: admin.firestore.DocumentData; installment: AllocationInstallment }>;
+  quoteRef: admin.firestore.DocumentReference | null;
+  options: LoanSettlementOptions;
+}
+
+export interface PreparedRefinance {
+  loans: Array<{ loanId: string; loanNumber: string | null; payoffAmount: number; status: LoanStatus }>;
+  settlements: PreparedLoanSettlement[];
+  netting: RefinanceNetting;
+}
+
+// Loans still being repaid can be consolidated into a top-up
+export const REFINANCEABLE_STATUSES = ['active', 'overdue', 'restructured'];
+
+/**
+ * Read and price a loan's settlement. Only reads, so it can run before the
+ * transaction's writes; returns an error when the loan cannot be settled.
+ */
+export async function prepareLoanSettlement(
+  transaction: admin.firestore.Transaction,
+  loanRef: admin.firestore.DocumentReference,
+  loan: admin.firestore.DocumentData,
+  agencyData: admin.firestore.DocumentData | undefined,
+  options: LoanSettlementOptions
+): Promise<{ settlement?: PreparedLoanSettlement; error?: string }> {
+  const quoteRef = options.quoteId ? loanRef.collection('settlementQuotes').doc(options.quoteId) : null;
+  const [paymentSnap, quoteSnap, repaymentsSnap] = await Promise.all([
+    transaction.get(loanRef.collection('payments').doc(options.paymentId)),
+    quoteRef ? transaction.get(quoteRef) : Promise.resolve(null),
+    transaction.get(loanRef.collection('repayments')),
+  ]);
+
+  if (paymentSnap.exists) {
+    return { error: 'This payment has already been recorded' };
+  }
+
+  let expectedPayoff = options.expectedPayoff;
+  if (quoteRef) {
+    const issued = quoteSnap?.data();
+    if (!issued) {
+      return { error: 'Settlement quote not found' };
+    }
+    if (issued.status !== 'issued') {
+      return { error: `Settlement quote is already ${issued.status}` };
+    }
+    const validUntil = toDateValue(issued.validUntil);
+    if (validUntil && Date.now() > validUntil.getTime()) {
+      return { error: 'Settlement quote has expired. Issue a new quote.' };
+    }
+    expectedPayoff = expectedPayoff ?? Number(issued.payoffAmount || 0);
+  }
+
+  const repayments = repaymentsSnap.docs
+    .map((repaymentDoc) => {
+      const data = repaymentDoc.data();
+      return {
+        ref: repaymentDoc.ref,
+        data,
+        installment: toAllocationInstallment({ ...data, id: repaymentDoc.id, dueDate: toDateValue(data.dueDate) }),
+      };
+    })
+    .sort((a, b) => a.installment.dueDate.getTime() - b.installment.dueDate.getTime());
+
+  const quote = calculateSettlementQuote({
+    installments: repayments.map((repayment) => repayment.installment),
+    settlementDate: options.settlementDate,
+    startDate: toDateValue(loan.disbursementDate) || toDateValue(loan.disbursedAt) || toDateValue(loan.disbursed_at) || toDateValue(loan.createdAt) || options.settlementDate,
+    rebate: getSettlementRebateConfig(agencyData),
+    dayCount: getDayCountConvention(agencyData),
+  });
+
+  if (quote.payoffAmount <= 0) {
+    return { error: 'Loan has no outstanding balance to settle' };
+  }
+  if (expectedPayoff !== undefined && Math.abs(quote.payoffAmount - expectedPayoff) > 0.01) {
+    return { error: 'The loan balance has changed since this quote was issued. Issue a new quote.' };
+  }
+
+  return { settlement: { loanRef, quote, repayments, quoteRef, options } };
+}
+
+/**
+ * Write a prepared settlement: every outstanding installment is paid, unearned
+ * interest rebated by the quote is waived on the installments it was scheduled
+ * on, and the payoff is recorded as one payment
+ */
+export function writeLoanSettlement(
+  transaction: admin.firestore.Transaction,
+  settlement: PreparedLoanSettlement,
+  userId: string
+): void {
+  const { loanRef, quote, repayments, quoteRef, options } = settlement;
+  const settlementTime = options.settlementDate.getTime();
+  const paymentMethod = options.paymentMethod || 'cash';
+  const now = admin.firestore.FieldValue.serverTimestamp();
+
+  let interestToCharge = quote.interestCharged;
+  let penaltyToCharge = quote.penalty;
+  const totals = { fees: 0, penalties: 0, interest: 0, principal: 0 };
+  const paymentLines: any[] = [];
+
+  for (const { ref, data, installment } of repayments) {
+    const outstanding = getOutstandingComponents(installment);
+    if (sumComponents(outstanding) <= 0) continue;
+
+    const isDue = installment.dueDate.getTime() <= settlementTime;
+
+    // Interest not yet due is only collected up to what the quote charges, earliest installment first
+    const interestApplied = isDue
+      ? outstanding.interest
+      : roundCurrency(Math.min(interestToCharge, outstanding.interest));
+    const interestWaived = roundCurrency(outstanding.interest - interestApplied);
+    if (!isDue) {
+      interestToCharge = roundCurrency(interestToCharge - interestApplied);
+    }
+
+    // The early settlement penalty is charged as a fee on the first installment not yet due
+    const settlementFee = !isDue ? penaltyToCharge : 0;
+    penaltyToCharge = roundCurrency(penaltyToCharge - settlementFee);
+
+    const split = {
+      fees: roundCurrency(outstanding.fees + settlementFee),
+      penalties: outstanding.penalties,
+      interest: interestApplied,
+      principal: outstanding.principal,
+    };
+
+    const feeDue = roundCurrency(installment.due.fees + settlementFee);
+    const interestDue = roundCurrency(installment.due.interest - interestWaived);
+    const amountDue = roundCurrency(feeDue + interestDue + installment.due.principal);
+
+    transaction.update(ref, {
+      principalDue: installment.due.principal,
+      interestDue,
+      feeDue,
+      feePaid: feeDue,
+      penaltyPaid: installment.due.penalties,
+      interestPaid: interestDue,
+      principalPaid: installment.due.principal,
+      amountDue,
+      amountPaid: roundCurrency(amountDue + installment.due.penalties),
+      status: 'paid',
+      paidAt: now,
+      paymentMethod,
+      lastPaymentDate: now,
+      lastPaymentAmount: sumComponents(split),
+      settlementPaymentId: options.paymentId,
+      ...(interestWaived > 0 ? { interestWaived: roundCurrency(Number(data.interestWaived || 0) + interestWaived) } : {}),
+      ...(settlementFee > 0 ? { earlySettlementFee: settlementFee } : {}),
+      updatedAt: now,
+    });
+
+    transaction.set(ref.collection('paymentHistory').doc(`${options.paymentId}-${installment.id}`), {
+      amount: sumComponents(split),
+      allocation: split,
+      interestWaived,
+      paymentMethod,
+      recordedBy: userId,
+      recordedAt: admin.firestore.Timestamp.fromDate(options.settlementDate),
+      notes: options.notes || null,
+      transactionId: options.paymentId,
+      type: 'settlement',
+    });
+
+    totals.fees = roundCurrency(totals.fees + split.fees);
+    totals.penalties = roundCurrency(totals.penalties + split.penalties);
+    totals.interest = roundCurrency(totals.interest + split.interest);
+    totals.principal = roundCurrency(totals.principal + split.principal);
+    paymentLines.push({ repaymentId: installment.id, ...split });
+  }
+
+  transaction.set(loanRef.collection('payments').doc(options.paymentId), {
+    id: options.paymentId,
+    amount: quote.payoffAmount,
+    paymentMethod,
+    paymentDate: admin.firestore.Timestamp.fromDate(options.settlementDate),
+    recordedBy: userId,
+    recordedAt: now,
+    notes: options.notes || null,
+    transactionId: options.transactionId || null,
+    type: 'settlement',
+    settlementQuoteId: options.quoteId || null,
+    allocation: totals,
+    interestWaived: quote.rebate,
+    earlySettlementFee: quote.penalty,
+    installments: paymentLines,
+  });
+
+  if (quoteRef) {
+    transaction.update(quoteRef, {
+      status: 'accepted',
+      acceptedBy: userId,
+      acceptedAt: now,
+      paymentId: options.paymentId,
+    });
+  }
+}
+
+/**
+ * Read and price the settlement of the loans a top-up consolidates, as of its
+ * disbursement. Refused if any can no longer be refinanced or their payoff now
+ * exceeds the top-up's principal.
+ */
+export async function prepareRefinanceSettlements(
+  transaction: admin.firestore.Transaction,
+  topUpRef: admin.firestore.DocumentReference,
+  topUp: admin.firestore.DocumentData,
+  agencyData: admin.firestore.DocumentData | undefined,
+  userRole: UserRole,
+  settlementDate: Date
+): Promise<{ refinance?: PreparedRefinance; error?: string }> {
+  const loanIds: string[] = Array.from(new Set(topUp.refinance?.loanIds || []));
+  const refinance: PreparedRefinance = {
+    loans: [],
+    settlements: [],
+    netting: { settlementTotal: 0, netDisbursement: 0 },
+  };
+
+  for (const loanId of loanIds) {
+    const loanRef = topUpRef.parent.doc(loanId);
+    const loanSnap = await transaction.get(loanRef);
+    const loan = loanSnap.data();
+    if (!loan) {
+      return { error: `Refinanced loan ${loanId} not found` };
+    }
+
+    const loanNumber = loan.loanNumber || null;
+    if (loan.customerId !== topUp.customerId) {
+      return { error: `Loan ${loanNumber || loanId} belongs to a different customer` };
+    }
+    const status = loan.status as LoanStatus;
+    if (!REFINANCEABLE_STATUSES.includes(status) || loan.refinancedBy) {
+      return { error: `Loan ${loanNumber || loanId} can no longer be refinanced (${status})` };
+    }
+    if (!canTransitionStatus(status, LoanStatus.CLOSED, userRole) || !canPerformAction('close', userRole, status)) {
+      return { error: 'You do not have permission to close the loans being refinanced' };
+    }
+
+    const prepared = await prepareLoanSettlement(transaction, loanRef, loan, agencyData, {
+      settlementDate,
+      paymentId: `refinance-${topUpRef.id}-${loanId}`,
+      paymentMethod: 'refinance',
+      notes: `Refinanced by loan ${topUp.loanNumber || topUpRef.id}`,
+    });
+    if (!prepared.settlement) {
+      return { error: `Failed to settle loan ${loanNumber || loanId}: ${prepared.error}` };
+    }
+
+    refinance.loans.push({ loanId, loanNumber, payoffAmount: prepared.settlement.quote.payoffAmount, status });
+    refinance.settlements.push(prepared.settlement);
+  }
+
+  refinance.netting = netRefinanceSettlements(Number(topUp.amount ?? topUp.terms?.amount ?? 0), refinance.loans);
+  if (refinance.netting.netDisbursement < 0) {
+    return {
+      error: `Settlement of the refinanced loans (${refinance.netting.settlementTotal.toLocaleString()}) now exceeds the new principal`,
+    };
+  }
+
+  return { refinance };
+}
@@ -0,0 +1,113 @@
+/**
+ * Teller Cash Utilities
+ * Moves cash through a teller's session inside the transaction that pays it in
+ * or out, so a payment or disbursement is never recorded without its drawer
+ * movement.
+ */
+
+import * as admin from 'firebase-admin';
+import {
+  CASH_MOVEMENT_DIRECTIONS,
+  getExpectedCash,
+  type CashMovementType,
+} from '../../../packages/loan-rules/src/cash-management';
+import { roundCurrency } from '../../../packages/loan-rules/src/utils';
+
+export interface TellerSessionCash {
+  ref: admin.firestore.DocumentReference;
+  openingFloat: number;
+  cashIn: number;
+  cashOut: number;
+}
+
+function toSessionCash(ref: admin.firestore.DocumentReference, session: admin.firestore.DocumentData): TellerSessionCash {
+  return {
+    ref,
+    openingFloat: Number(session.openingFloat || 0),
+    cashIn: Number(session.cashIn || 0),
+    cashOut: Number(session.cashOut || 0),
+  };
+}
+
+/**
+ * Read the user's open session. Only reads, so it can run before the
+ * transaction's writes; returns an error when cash cannot go through it.
+ */
+export async function readTellerSession(
+  transaction: admin.firestore.Transaction,
+  agencyRef: admin.firestore.DocumentReference,
+  sessionId: string,
+  userId: string
+): Promise<{ session?: TellerSessionCash; error?: string }> {
+  const sessionRef = agencyRef.collection('teller_sessions').doc(sessionId);
+  const session = (await transaction.get(sessionRef)).data();
+  if (!session) {
+    return { error: 'Teller session not found' };
+  }
+  if (session.tellerId !== userId) {
+    return { error: 'Cash can only go through your own teller session' };
+  }
+  if (session.status !== 'open') {
+    return { error: 'This teller session is closed' };
+  }
+  return { session: toSessionCash(sessionRef, session) };
+}
+
+/**
+ * Read the session a payment's cash went into, which must still be open for
+ * the cash to be handed back from it
+ */
+export async function readPaymentSession(
+  transaction: admin.firestore.Transaction,
+  agencyRef: admin.firestore.DocumentReference,
+  sessionId: string
+): Promise<{ session?: TellerSessionCash; error?: string }> {
+  const sessionRef = agencyRef.collection('teller_sessions').doc(sessionId);
+  const session = (await transaction.get(sessionRef)).data();
+  if (!session) {
+    return { error: 'Teller session of the payment not found' };
+  }
+  if (session.status !== 'open') {
+    return { error: 'The teller session that took this payment is closed, so its cash can no longer be handed back' };
+  }
+  return { session: toSessionCash(sessionRef, session) };
+}
+
+/**
+ * Refuse to pay out more than the drawer should hold
+ */
+export function checkSessionPayout(session: TellerSessionCash, amount: number): string | null {
+  const expected = getExpectedCash(session.openingFloat, session.cashIn, session.cashOut);
+  return amount > expected + 0.005
+    ? `Your drawer should hold only ${expected.toFixed(2)}; get a top-up from the vault first`
+    : null;
+}
+
+/**
+ * Write a cash movement and the session's running totals
+ */
+export function writeSessionCash(
+  transaction: admin.firestore.Transaction,
+  session: TellerSessionCash,
+  movement: { type: CashMovementType; amount: number; recordedBy: string; loanId?: string; paymentId?: string }
+): void {
+  const amount = roundCurrency(movement.amount);
+  const direction = CASH_MOVEMENT_DIRECTIONS[movement.type];
+
+  const movementRef = session.ref.collection('movements').doc();
+  transaction.set(movementRef, {
+    type: movement.type,
+    direction,
+    amount,
+    ...(movement.loanId ? { loanId: movement.loanId } : {}),
+    ...(movement.paymentId ? { paymentId: movement.paymentId } : {}),
+    recordedBy: movement.recordedBy,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  transaction.update(session.ref, {
+    ...(direction === 'in'
+      ? { cashIn: roundCurrency(session.cashIn + amount) }
+      : { cashOut: roundCurrency(session.cashOut + amount) }),
+    lastMovementId: movementRef.id,
+  });
+}
@@ -0,0 +1,205 @@
+/**
+ * Interest Accrual
+ *
+ * Daily interest accruals worked out from the principal actually outstanding
+ * on each day, so payments (including backdated ones) reduce what accrues.
+ * Each loan accrues once per calendar day; a day is identified by its ledger
+ * date (YYYY-MM-DD) so re-running a day never accrues it twice.
+ * Used by both frontend and Cloud Functions
+ */
+
+import { actualDaysBetween, yearFraction, type DayCountConvention } from './calendar';
+import type { InterestCalculationMethod } from './schedule';
+import { roundCurrency } from './utils';
+
+/**
+ * Days past due at which a loan stops accruing to income and further
+ * interest is held in suspense
+ */
+export const NON_PERFORMING_DAYS_PAST_DUE = 90;
+
+export interface AccrualTerms {
+  principal: number;
+  annualRate: number; // Percent
+  method?: InterestCalculationMethod;
+  dayCount: DayCountConvention;
+  disbursementDate: string; // First day that accrues
+  maturityDate?: string; // Flat-rate loans stop accruing after maturity
+  restructuredOn?: string; // Principal was reset by a restructure; days before it are no longer revised
+}
+
+/**
+ * Principal repaid on a date
+ */
+export interface PrincipalMovement {
+  date: string;
+  principal: number;
+}
+
+/**
+ * When an installment fell due and when it was paid off, as ledger dates
+ */
+export interface InstallmentDueDates {
+  dueDate: string;
+  paidOn: string | null; // Null while still unpaid
+}
+
+export interface DailyAccrual {
+  date: string;
+  openingPrincipal: number; // Principal the day's interest is charged on
+  amount: number;
+  suspended: boolean; // Held in suspense instead of recognised as income
+}
+
+/**
+ * An accrual already recorded for a day
+ */
+export interface RecordedAccrual extends DailyAccrual {
+  revision: number; // Bumped every time the day is reversed and accrued again
+}
+
+export interface AccrualRevision {
+  date: string;
+  previous: RecordedAccrual;
+  next: DailyAccrual & { revision: number };
+}
+
+function parseLedgerDate(date: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * The calendar day after a ledger date
+ */
+export function nextLedgerDate(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + 1)).toISOString().slice(0, 10);
+}
+
+/**
+ * Whether a loan has stopped accruing interest to income
+ */
+export function isNonPerforming(status: string | undefined, daysPastDue: number): boolean {
+  return status === 'defaulted' || daysPastDue >= NON_PERFORMING_DAYS_PAST_DUE;
+}
+
+/**
+ * Days the oldest installment still unpaid on a day was past due that day,
+ * so caught-up days are classified as they stood rather than as of today
+ */
+export function getDaysPastDueOn(installments: InstallmentDueDates[], date: string): number {
+  const oldestUnpaid = installments
+    .filter((installment) => installment.dueDate < date && (!installment.paidOn || installment.paidOn > date))
+    .reduce<string | null>((oldest, installment) => (!oldest || installment.dueDate < oldest ? installment.dueDate : oldest), null);
+  return oldestUnpaid ? actualDaysBetween(parseLedgerDate(oldestUnpaid), parseLedgerDate(date)) : 0;
+}
+
+/**
+ * Principal still outstanding at the end of a day
+ */
+export function getOutstandingPrincipal(
+  principal: number,
+  movements: PrincipalMovement[],
+  date: string
+): number {
+  const repaid = movements
+    .filter((movement) => movement.date <= date)
+    .reduce((sum, movement) => sum + movement.principal, 0);
+  return Math.max(0, roundCurrency(principal - repaid));
+}
+
+/**
+ * Days still to accrue, from the day after the last accrued day (or the
+ * disbursement date) through a date. Missed days are caught up here.
+ */
+export function getDaysToAccrue(
+  terms: Pick<AccrualTerms, 'disbursementDate' | 'maturityDate' | 'method'>,
+  lastAccruedDate: string | null | undefined,
+  through: string
+): string[] {
+  let cursor = lastAccruedDate && lastAccruedDate >= terms.disbursementDate
+    ? nextLedgerDate(lastAccruedDate)
+    : terms.disbursementDate;
+  const last = terms.method === 'flat' && terms.maturityDate && terms.maturityDate < through
+    ? terms.maturityDate
+    : through;
+
+  const days: string[] = [];
+  while (cursor <= last) {
+    days.push(cursor);
+    cursor = nextLedgerDate(cursor);
+  }
+  return days;
+}
+
+/**
+ * Interest for one day. Flat-rate loans are charged on the original principal
+ * until it is repaid; every other method on the reducing balance.
+ */
+export function computeDailyAccrual(
+  terms: AccrualTerms,
+  movements: PrincipalMovement[],
+  date: string,
+  suspended: boolean
+): DailyAccrual {
+  const outstanding = getOutstandingPrincipal(terms.principal, movements, date);
+  const openingPrincipal = terms.method === 'flat' && outstanding > 0 ? terms.principal : outstanding;
+  const start = parseLedgerDate(date);
+  const end = parseLedgerDate(nextLedgerDate(date));
+
+  return {
+    date,
+    openingPrincipal,
+    amount: roundCurrency(openingPrincipal * (terms.annualRate / 100) * yearFraction(start, end, terms.dayCount)),
+    suspended,
+  };
+}
+
+/**
+ * Accruals for a run of days. Whether a day is held in suspense can be
+ * decided day by day.
+ */
+export function computeDailyAccruals(
+  terms: AccrualTerms,
+  movements: PrincipalMovement[],
+  days: string[],
+  suspended: boolean | ((date: string) => boolean)
+): DailyAccrual[] {
+  return days.map((date) =>
+    computeDailyAccrual(terms, movements, date, typeof suspended === 'function' ? suspended(date) : suspended)
+  );
+}
+
+/**
+ * Days on or after a backdated payment whose accrual no longer matches the
+ * principal outstanding. Each must be reversed and accrued again at the next
+ * revision; a day keeps whether it was held in suspense. Days before a
+ * restructure were charged on the old terms and are left as they are.
+ */
+export function reviseAccruals(
+  terms: AccrualTerms,
+  movements: PrincipalMovement[],
+  recorded: RecordedAccrual[],
+  fromDate: string
+): AccrualRevision[] {
+  return recorded
+    .filter((accrual) => accrual.date >= fromDate && (!terms.restructuredOn || accrual.date >= terms.restructuredOn))
+    .map((previous) => ({
+      date: previous.date,
+      previous,
+      next: {
+        ...computeDailyAccrual(terms, movements, previous.date, previous.suspended),
+        revision: previous.revision + 1,
+      },
+    }))
+    .filter((revision) => Math.abs(revision.next.amount - revision.previous.amount) >= 0.005);
+}
+
+/**
+ * Journal entry id for a day's accrual. The first revision keeps the plain
+ * loan-and-date key so a re-run of the same day is idempotent.
+ */
+export function getAccrualEntryId(loanId: string, date: string, revision: number): string {
+  return revision > 0 ? `accrual_${loanId}_${date}_r${revision}` : `accrual_${loanId}_${date}`;
+}
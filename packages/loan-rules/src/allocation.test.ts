@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { allocatePayment, applyPrepayment, emptyComponents, type AllocationInstallment } from './allocation';
+
+function installment(id: string, month: number, due: Partial<AllocationInstallment['due']>): AllocationInstallment {
+  return {
+    id,
+    dueDate: new Date(2024, month, 1),
+    due: { ...emptyComponents(), ...due },
+    paid: emptyComponents(),
+  };
+}
+
+const installments = [
+  installment('2', 1, { fees: 5, interest: 20, principal: 100 }),
+  installment('1', 0, { fees: 5, penalties: 10, interest: 20, principal: 100 }),
+];
+
+describe('allocatePayment', () => {
+  it('settles the oldest installment component by component first', () => {
+    const result = allocatePayment(150, installments);
+
+    expect(result.installments.map((line) => line.id)).toEqual(['1', '2']);
+    expect(result.installments[0]).toMatchObject({ amount: 135, settled: true });
+    expect(result.installments[1].allocated).toEqual({ fees: 5, penalties: 0, interest: 10, principal: 0 });
+    expect(result.allocatedAmount).toBe(150);
+    expect(result.excessAmount).toBe(0);
+  });
+
+  it('settles one component across every installment before the next with by_component', () => {
+    const result = allocatePayment(60, installments, {
+      order: ['interest', 'fees', 'penalties', 'principal'],
+      strategy: 'by_component',
+      overpaymentHandling: 'reduce_term',
+    });
+
+    expect(result.totals).toEqual({ fees: 10, penalties: 10, interest: 40, principal: 0 });
+    expect(result.installments.every((line) => !line.settled)).toBe(true);
+  });
+
+  it('returns the cash left once every installment is settled', () => {
+    const result = allocatePayment(300, installments);
+
+    expect(result.allocatedAmount).toBe(260);
+    expect(result.excessAmount).toBe(40);
+  });
+
+  it('skips what was already paid', () => {
+    const partlyPaid = { ...installments[1], paid: { fees: 5, penalties: 10, interest: 20, principal: 40 } };
+    const result = allocatePayment(60, [partlyPaid]);
+
+    expect(result.installments[0].allocated.principal).toBe(60);
+    expect(result.installments[0].settled).toBe(true);
+  });
+});
+
+describe('applyPrepayment', () => {
+  const future = [
+    installment('3', 2, { interest: 10, principal: 100 }),
+    installment('4', 3, { interest: 5, principal: 100 }),
+  ];
+
+  it('prepays from the last installment backwards and waives its interest with reduce_term', () => {
+    const result = applyPrepayment(150, future, 'reduce_term');
+
+    expect(result.adjustments).toEqual([
+      { id: '4', principalPrepaid: 100, interestWaived: 5, interestDue: 0, settled: true },
+      { id: '3', principalPrepaid: 50, interestWaived: 0, interestDue: 10, settled: false },
+    ]);
+    expect(result.principalPrepaid).toBe(150);
+    expect(result.creditAmount).toBe(0);
+  });
+
+  it('lowers every remaining installment by the same proportion with reduce_installment', () => {
+    const result = applyPrepayment(50, future, 'reduce_installment');
+
+    expect(result.adjustments.map((adjustment) => adjustment.principalPrepaid)).toEqual([25, 25]);
+    expect(result.adjustments.map((adjustment) => adjustment.interestDue)).toEqual([7.5, 3.75]);
+    expect(result.principalPrepaid).toBe(50);
+  });
+
+  it('keeps what cannot be applied as credit', () => {
+    expect(applyPrepayment(250, future, 'reduce_term').creditAmount).toBe(50);
+    expect(applyPrepayment(80, future, 'credit_balance')).toMatchObject({ adjustments: [], creditAmount: 80 });
+  });
+});
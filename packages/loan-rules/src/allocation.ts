@@ -0,0 +1,388 @@
+/**
+ * Payment Allocation Waterfall
+ *
+ * Pure allocation of a payment across installment components
+ * (fees, penalties, interest, principal) and handling of overpayments.
+ * Used by both frontend and Cloud Functions
+ */
+
+import { roundCurrency } from './utils';
+
+/**
+ * Installment component a payment can be applied to
+ */
+export type AllocationComponent = 'fees' | 'penalties' | 'interest' | 'principal';
+
+/**
+ * How the waterfall walks the installments
+ * - by_installment: settle the oldest installment component by component before the next one
+ * - by_component: settle one component across every installment (oldest first) before the next component
+ */
+export type AllocationStrategy = 'by_installment' | 'by_component';
+
+/**
+ * What happens to cash left over once every due installment is settled
+ * - reduce_term: prepay principal from the last installment backwards, shortening the loan
+ * - reduce_installment: prepay principal pro rata, lowering every remaining installment
+ * - credit_balance: keep the excess as a customer credit on the loan
+ */
+export type OverpaymentHandling = 'reduce_term' | 'reduce_installment' | 'credit_balance';
+
+export interface PaymentAllocationConfig {
+  order: AllocationComponent[];
+  strategy: AllocationStrategy;
+  overpaymentHandling: OverpaymentHandling;
+}
+
+export const DEFAULT_ALLOCATION_ORDER: AllocationComponent[] = ['fees', 'penalties', 'interest', 'principal'];
+
+export const DEFAULT_PAYMENT_ALLOCATION: PaymentAllocationConfig = {
+  order: DEFAULT_ALLOCATION_ORDER,
+  strategy: 'by_installment',
+  overpaymentHandling: 'reduce_term',
+};
+
+export interface ComponentAmounts {
+  fees: number;
+  penalties: number;
+  interest: number;
+  principal: number;
+}
+
+export interface AllocationInstallment {
+  id: string;
+  dueDate: Date;
+  due: ComponentAmounts;
+  paid: ComponentAmounts;
+}
+
+export interface InstallmentAllocation {
+  id: string;
+  allocated: ComponentAmounts;
+  amount: number;
+  settled: boolean; // Every component of the installment is paid after this allocation
+}
+
+export interface PaymentAllocationResult {
+  installments: InstallmentAllocation[];
+  totals: ComponentAmounts;
+  allocatedAmount: number;
+  excessAmount: number; // Cash left once every due installment is settled
+}
+
+export interface InstallmentAdjustment {
+  id: string;
+  principalPrepaid: number; // Paid towards the installment's principal ahead of its due date
+  interestWaived: number;
+  interestDue: number; // Interest due on the installment after the waiver
+  settled: boolean; // Nothing is left to collect on the installment
+}
+
+export interface PrepaymentResult {
+  handling: OverpaymentHandling;
+  adjustments: InstallmentAdjustment[];
+  principalPrepaid: number;
+  interestWaived: number;
+  creditAmount: number; // Excess kept as customer credit
+}
+
+const ALL_COMPONENTS: AllocationComponent[] = ['fees', 'penalties', 'interest', 'principal'];
+
+export function emptyComponents(): ComponentAmounts {
+  return { fees: 0, penalties: 0, interest: 0, principal: 0 };
+}
+
+export function sumComponents(amounts: ComponentAmounts): number {
+  return roundCurrency(amounts.fees + amounts.penalties + amounts.interest + amounts.principal);
+}
+
+/**
+ * Normalize a configured order so every component appears exactly once
+ * (missing components are appended in the default order)
+ */
+export function normalizeAllocationOrder(order?: AllocationComponent[]): AllocationComponent[] {
+  const normalized: AllocationComponent[] = [];
+  for (const component of order || []) {
+    if (ALL_COMPONENTS.includes(component) && !normalized.includes(component)) {
+      normalized.push(component);
+    }
+  }
+  for (const component of DEFAULT_ALLOCATION_ORDER) {
+    if (!normalized.includes(component)) {
+      normalized.push(component);
+    }
+  }
+  return normalized;
+}
+
+/**
+ * Merge a partial allocation config over the defaults
+ */
+export function resolvePaymentAllocationConfig(config?: Partial<PaymentAllocationConfig>): PaymentAllocationConfig {
+  return {
+    order: normalizeAllocationOrder(config?.order),
+    strategy: config?.strategy || DEFAULT_PAYMENT_ALLOCATION.strategy,
+    overpaymentHandling: config?.overpaymentHandling || DEFAULT_PAYMENT_ALLOCATION.overpaymentHandling,
+  };
+}
+
+/**
+ * Split a lump-sum amount already paid on an installment into components
+ * Used for installments recorded before payments were split
+ */
+export function splitPaidAmount(
+  due: ComponentAmounts,
+  amountPaid: number,
+  order: AllocationComponent[] = DEFAULT_ALLOCATION_ORDER
+): ComponentAmounts {
+  const paid = emptyComponents();
+  let remaining = roundCurrency(Math.max(0, amountPaid));
+
+  for (const component of normalizeAllocationOrder(order)) {
+    const applied = roundCurrency(Math.min(remaining, Math.max(0, due[component])));
+    paid[component] = applied;
+    remaining = roundCurrency(remaining - applied);
+  }
+
+  return paid;
+}
+
+/**
+ * Amount still owed on each component of an installment
+ */
+export function getOutstandingComponents(installment: AllocationInstallment): ComponentAmounts {
+  return {
+    fees: roundCurrency(Math.max(0, installment.due.fees - installment.paid.fees)),
+    penalties: roundCurrency(Math.max(0, installment.due.penalties - installment.paid.penalties)),
+    interest: roundCurrency(Math.max(0, installment.due.interest - installment.paid.interest)),
+    principal: roundCurrency(Math.max(0, installment.due.principal - installment.paid.principal)),
+  };
+}
+
+/**
+ * Map a stored repayment record onto an allocation installment
+ * Repayments paid before payments were split have their lump-sum amountPaid
+ * attributed to fees, interest and principal in waterfall order; late fees
+ * were never collected on them, so penalties start unpaid.
+ */
+export function toAllocationInstallment(
+  repayment: any,
+  order?: AllocationComponent[]
+): AllocationInstallment {
+  const amountDue = Number(repayment.amountDue || 0);
+  const feeDue = Number(repayment.feeDue || 0);
+  const interestDue = Number(repayment.interestDue ?? repayment.interestAmount ?? 0);
+  const principalDue = Number(
+    repayment.principalDue ?? repayment.principalAmount ?? Math.max(0, amountDue - feeDue - interestDue)
+  );
+  const due: ComponentAmounts = {
+    fees: feeDue,
+    penalties: Number(repayment.lateFee || 0),
+    interest: interestDue,
+    principal: principalDue,
+  };
+
+  const isSplit = ['feePaid', 'penaltyPaid', 'interestPaid', 'principalPaid'].some(
+    (field) => repayment[field] !== undefined
+  );
+  const paid: ComponentAmounts = isSplit
+    ? {
+        fees: Number(repayment.feePaid || 0),
+        penalties: Number(repayment.penaltyPaid || 0),
+        interest: Number(repayment.interestPaid || 0),
+        principal: Number(repayment.principalPaid || 0),
+      }
+    : splitPaidAmount({ ...due, penalties: 0 }, Number(repayment.amountPaid || 0), order);
+
+  const dueDate = repayment.dueDate?.toDate?.() || repayment.dueDate;
+
+  return {
+    id: repayment.id,
+    dueDate: dueDate instanceof Date ? dueDate : new Date(dueDate || 0),
+    due,
+    paid,
+  };
+}
+
+/**
+ * Part of a repayment's amountPaid that went to the scheduled amountDue;
+ * amountPaid also counts late fees collected, which amountDue does not include
+ */
+export function getScheduledAmountPaid(repayment: any): number {
+  return roundCurrency(Math.max(0, Number(repayment.amountPaid || 0) - Number(repayment.penaltyPaid || 0)));
+}
+
+function sortByDueDate(installments: AllocationInstallment[]): AllocationInstallment[] {
+  return [...installments].sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+}
+
+/**
+ * Unpaid installments a payment made on a date settles: everything already
+ * due plus the next upcoming installment. Later installments can only be
+ * reached through overpayment handling.
+ */
+export function getDueInstallments(
+  installments: AllocationInstallment[],
+  paymentDate?: Date
+): { due: AllocationInstallment[]; future: AllocationInstallment[] } {
+  const unpaid = sortByDueDate(installments).filter(
+    (installment) => sumComponents(getOutstandingComponents(installment)) > 0
+  );
+
+  if (!paymentDate) {
+    return { due: unpaid, future: [] };
+  }
+
+  const firstUpcoming = unpaid.findIndex((installment) => installment.dueDate.getTime() > paymentDate.getTime());
+  if (firstUpcoming === -1) {
+    return { due: unpaid, future: [] };
+  }
+
+  return {
+    due: unpaid.slice(0, firstUpcoming + 1),
+    future: unpaid.slice(firstUpcoming + 1),
+  };
+}
+
+/**
+ * Allocate a payment across installments following the waterfall order
+ */
+export function allocatePayment(
+  amount: number,
+  installments: AllocationInstallment[],
+  config: PaymentAllocationConfig = DEFAULT_PAYMENT_ALLOCATION
+): PaymentAllocationResult {
+  const order = normalizeAllocationOrder(config.order);
+  const sorted = sortByDueDate(installments);
+  const outstanding = sorted.map(getOutstandingComponents);
+  const allocated = sorted.map(() => emptyComponents());
+  let remaining = roundCurrency(Math.max(0, amount));
+
+  const apply = (index: number, component: AllocationComponent) => {
+    const applied = roundCurrency(Math.min(remaining, outstanding[index][component]));
+    if (applied <= 0) return;
+    allocated[index][component] = roundCurrency(allocated[index][component] + applied);
+    outstanding[index][component] = roundCurrency(outstanding[index][component] - applied);
+    remaining = roundCurrency(remaining - applied);
+  };
+
+  if (config.strategy === 'by_component') {
+    for (const component of order) {
+      for (let i = 0; i < sorted.length && remaining > 0; i++) {
+        apply(i, component);
+      }
+    }
+  } else {
+    for (let i = 0; i < sorted.length && remaining > 0; i++) {
+      for (const component of order) {
+        apply(i, component);
+      }
+    }
+  }
+
+  const totals = emptyComponents();
+  const lines: InstallmentAllocation[] = [];
+  sorted.forEach((installment, i) => {
+    const lineAmount = sumComponents(allocated[i]);
+    if (lineAmount <= 0) return;
+    for (const component of ALL_COMPONENTS) {
+      totals[component] = roundCurrency(totals[component] + allocated[i][component]);
+    }
+    lines.push({
+      id: installment.id,
+      allocated: allocated[i],
+      amount: lineAmount,
+      settled: sumComponents(outstanding[i]) <= 0,
+    });
+  });
+
+  return {
+    installments: lines,
+    totals,
+    allocatedAmount: sumComponents(totals),
+    excessAmount: remaining,
+  };
+}
+
+/**
+ * Apply an overpayment to the installments that are not yet due
+ *
+ * reduce_term prepays principal from the last installment backwards; interest
+ * on fully prepaid installments is waived. reduce_installment lowers the
+ * remaining principal and interest of every future installment by the same
+ * proportion. Anything that cannot be applied becomes customer credit.
+ */
+export function applyPrepayment(
+  amount: number,
+  futureInstallments: AllocationInstallment[],
+  handling: OverpaymentHandling
+): PrepaymentResult {
+  let remaining = roundCurrency(Math.max(0, amount));
+  const result: PrepaymentResult = {
+    handling,
+    adjustments: [],
+    principalPrepaid: 0,
+    interestWaived: 0,
+    creditAmount: 0,
+  };
+
+  const future = sortByDueDate(futureInstallments);
+
+  if (handling === 'reduce_term') {
+    for (let i = future.length - 1; i >= 0 && remaining > 0; i--) {
+      const installment = future[i];
+      const outstanding = getOutstandingComponents(installment);
+      if (outstanding.principal <= 0) continue;
+
+      const principalPrepaid = roundCurrency(Math.min(remaining, outstanding.principal));
+      const fullyPrepaid = principalPrepaid >= outstanding.principal;
+      const interestWaived = fullyPrepaid ? outstanding.interest : 0;
+      remaining = roundCurrency(remaining - principalPrepaid);
+
+      result.adjustments.push({
+        id: installment.id,
+        principalPrepaid,
+        interestWaived,
+        interestDue: roundCurrency(installment.due.interest - interestWaived),
+        settled: fullyPrepaid && outstanding.fees <= 0 && outstanding.penalties <= 0,
+      });
+      result.principalPrepaid = roundCurrency(result.principalPrepaid + principalPrepaid);
+      result.interestWaived = roundCurrency(result.interestWaived + interestWaived);
+    }
+  } else if (handling === 'reduce_installment') {
+    const outstanding = future.map(getOutstandingComponents);
+    const principalOutstanding = roundCurrency(outstanding.reduce((sum, o) => sum + o.principal, 0));
+
+    if (principalOutstanding > 0) {
+      const principalPrepaid = roundCurrency(Math.min(remaining, principalOutstanding));
+      const ratio = (principalOutstanding - principalPrepaid) / principalOutstanding;
+      let prepaidSoFar = 0;
+      let lastIndex = outstanding.length - 1;
+      while (lastIndex > 0 && outstanding[lastIndex].principal <= 0) lastIndex--;
+      remaining = roundCurrency(remaining - principalPrepaid);
+
+      future.forEach((installment, i) => {
+        if (outstanding[i].principal <= 0) return;
+        // The last installment absorbs rounding so the prepaid total is exact
+        const installmentPrepaid = i === lastIndex
+          ? roundCurrency(principalPrepaid - prepaidSoFar)
+          : roundCurrency(outstanding[i].principal * (1 - ratio));
+        const interestWaived = roundCurrency(outstanding[i].interest * (1 - ratio));
+        prepaidSoFar = roundCurrency(prepaidSoFar + installmentPrepaid);
+
+        result.adjustments.push({
+          id: installment.id,
+          principalPrepaid: installmentPrepaid,
+          interestWaived,
+          interestDue: roundCurrency(installment.due.interest - interestWaived),
+          settled: ratio <= 0 && outstanding[i].fees <= 0 && outstanding[i].penalties <= 0,
+        });
+        result.interestWaived = roundCurrency(result.interestWaived + interestWaived);
+      });
+      result.principalPrepaid = principalPrepaid;
+    }
+  }
+
+  result.creditAmount = remaining;
+  return result;
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addApprovalSignature,
+  DEFAULT_APPROVAL_MATRIX,
+  evaluateApprovals,
+  type ApprovalMatrix,
+  type ApprovalSignature,
+  type ApproverRole,
+} from './approval-matrix';
+
+function signature(userId: string, role: ApproverRole): ApprovalSignature {
+  return { userId, role, signedAt: '2024-01-01T00:00:00.000Z' };
+}
+
+describe('evaluateApprovals', () => {
+  it('needs the signatures of the amount band the loan falls in', () => {
+    const small = evaluateApprovals(DEFAULT_APPROVAL_MATRIX, { amount: 5000, signatures: [signature('a', 'loan_officer')] });
+    const large = evaluateApprovals(DEFAULT_APPROVAL_MATRIX, { amount: 80000, signatures: [signature('a', 'manager')] });
+
+    expect(small.satisfied).toBe(true);
+    expect(large.satisfied).toBe(false);
+    expect(large.outstanding).toEqual([{ role: 'admin', count: 1 }]);
+  });
+
+  it('no longer counts as approved once the amount moves into a higher band', () => {
+    const signatures = [signature('a', 'loan_officer')];
+
+    expect(evaluateApprovals(DEFAULT_APPROVAL_MATRIX, { amount: 4000, signatures }).satisfied).toBe(true);
+    expect(evaluateApprovals(DEFAULT_APPROVAL_MATRIX, { amount: 40000, signatures }).outstanding).toEqual([
+      { role: 'manager', count: 1 },
+    ]);
+  });
+
+  it("ignores the maker's signature and counts each signer once", () => {
+    const evaluation = evaluateApprovals(DEFAULT_APPROVAL_MATRIX, {
+      amount: 80000,
+      makerId: 'maker',
+      signatures: [signature('maker', 'admin'), signature('a', 'admin'), signature('a', 'admin')],
+    });
+
+    expect(evaluation.countedSignatures.map((counted) => counted.userId)).toEqual(['a']);
+    expect(evaluation.satisfied).toBe(false);
+  });
+
+  it('keeps the senior signer for the requirement only they can meet', () => {
+    const evaluation = evaluateApprovals(DEFAULT_APPROVAL_MATRIX, {
+      amount: 80000,
+      signatures: [signature('a', 'admin'), signature('b', 'manager')],
+    });
+
+    expect(evaluation.satisfied).toBe(true);
+  });
+
+  it('prefers tiers for the loan type over general tiers', () => {
+    const matrix: ApprovalMatrix = {
+      enabled: true,
+      tiers: [
+        ...DEFAULT_APPROVAL_MATRIX.tiers,
+        { maxAmount: null, loanTypes: ['mortgage'], requirements: [{ role: 'underwriter', count: 2 }] },
+      ],
+    };
+    const evaluation = evaluateApprovals(matrix, { amount: 1000, loanType: 'mortgage', signatures: [signature('a', 'underwriter')] });
+
+    expect(evaluation.outstanding).toEqual([{ role: 'underwriter', count: 1 }]);
+  });
+
+  it('needs a single approver when the matrix is disabled', () => {
+    const matrix = { ...DEFAULT_APPROVAL_MATRIX, enabled: false };
+
+    expect(evaluateApprovals(matrix, { amount: 1000000, signatures: [] }).satisfied).toBe(false);
+    expect(evaluateApprovals(matrix, { amount: 1000000, signatures: [signature('a', 'loan_officer')] }).satisfied).toBe(true);
+  });
+});
+
+describe('addApprovalSignature', () => {
+  it('refuses the maker and signers whose role cannot fill what is outstanding', () => {
+    const input = { amount: 80000, makerId: 'maker', signatures: [signature('a', 'manager')] };
+
+    expect(addApprovalSignature(DEFAULT_APPROVAL_MATRIX, input, signature('maker', 'admin')).accepted).toBe(false);
+    expect(addApprovalSignature(DEFAULT_APPROVAL_MATRIX, input, signature('b', 'manager')).accepted).toBe(false);
+    expect(addApprovalSignature(DEFAULT_APPROVAL_MATRIX, input, signature('c', 'admin')).evaluation.satisfied).toBe(true);
+  });
+});
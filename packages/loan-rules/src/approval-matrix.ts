@@ -0,0 +1,265 @@
+/**
+ * Loan Approval Matrix
+ *
+ * Pure maker-checker rules: which approvers a loan needs by amount and loan
+ * type, and whether the signatures collected so far satisfy them.
+ * Used by both frontend and Cloud Functions
+ */
+
+/**
+ * Roles that can sign a loan approval, in order of seniority
+ */
+export type ApproverRole = 'loan_officer' | 'accountant' | 'underwriter' | 'manager' | 'admin';
+
+export const APPROVER_ROLES: ApproverRole[] = ['loan_officer', 'accountant', 'underwriter', 'manager', 'admin'];
+
+// A more senior signer can stand in for a junior requirement
+const ROLE_SENIORITY: Record<ApproverRole, number> = {
+  loan_officer: 1,
+  accountant: 1,
+  underwriter: 2,
+  manager: 3,
+  admin: 4,
+};
+
+export interface ApprovalRequirement {
+  role: ApproverRole;
+  count: number;
+}
+
+export interface ApprovalTier {
+  maxAmount: number | null; // Inclusive upper bound; null means no limit
+  loanTypes?: string[]; // Empty or missing applies to every loan type
+  requirements: ApprovalRequirement[];
+}
+
+export interface ApprovalMatrix {
+  enabled: boolean;
+  tiers: ApprovalTier[];
+}
+
+export interface ApprovalSignature {
+  userId: string;
+  userName?: string | null;
+  role: ApproverRole;
+  signedAt: string; // ISO timestamp
+  notes?: string;
+}
+
+export interface ApprovalEvaluation {
+  tier: ApprovalTier | null;
+  required: ApprovalRequirement[];
+  outstanding: ApprovalRequirement[]; // Signatures still needed
+  countedSignatures: ApprovalSignature[];
+  satisfied: boolean;
+}
+
+export const DEFAULT_APPROVAL_MATRIX: ApprovalMatrix = {
+  enabled: true,
+  tiers: [
+    { maxAmount: 5000, requirements: [{ role: 'loan_officer', count: 1 }] },
+    { maxAmount: 50000, requirements: [{ role: 'manager', count: 1 }] },
+    { maxAmount: null, requirements: [{ role: 'manager', count: 1 }, { role: 'admin', count: 1 }] },
+  ],
+};
+
+export function isApproverRole(role: string): role is ApproverRole {
+  return (APPROVER_ROLES as string[]).includes(role);
+}
+
+function normalizeTier(tier: any): ApprovalTier | null {
+  const requirements: ApprovalRequirement[] = Array.isArray(tier?.requirements)
+    ? tier.requirements
+        .filter((r: any) => isApproverRole(r?.role) && Number(r?.count) > 0)
+        .map((r: any) => ({ role: r.role, count: Math.floor(Number(r.count)) }))
+    : [];
+  if (requirements.length === 0) return null;
+
+  const maxAmount = tier.maxAmount === null || tier.maxAmount === undefined || tier.maxAmount === ''
+    ? null
+    : Number(tier.maxAmount);
+
+  return {
+    maxAmount: maxAmount !== null && Number.isFinite(maxAmount) ? maxAmount : null,
+    loanTypes: Array.isArray(tier.loanTypes) ? tier.loanTypes.filter(Boolean) : [],
+    requirements,
+  };
+}
+
+/**
+ * Resolve a stored approval matrix, falling back to the default tiers
+ */
+export function resolveApprovalMatrix(data?: any): ApprovalMatrix {
+  if (!data || !Array.isArray(data.tiers)) {
+    return DEFAULT_APPROVAL_MATRIX;
+  }
+
+  const tiers = data.tiers
+    .map(normalizeTier)
+    .filter((tier: ApprovalTier | null): tier is ApprovalTier => tier !== null);
+
+  return {
+    enabled: data.enabled !== false,
+    tiers: tiers.length > 0 ? tiers : DEFAULT_APPROVAL_MATRIX.tiers,
+  };
+}
+
+/**
+ * Whether a signer's role can count towards a requirement
+ */
+export function canSatisfyRequirement(signerRole: ApproverRole, requiredRole: ApproverRole): boolean {
+  if (signerRole === requiredRole) return true;
+  return ROLE_SENIORITY[signerRole] > ROLE_SENIORITY[requiredRole];
+}
+
+/**
+ * Pick the tier that applies to a loan
+ * Tiers for the loan's type take precedence over tiers that apply to every type;
+ * within those, the lowest amount band that covers the loan wins.
+ */
+export function resolveApprovalTier(
+  matrix: ApprovalMatrix,
+  amount: number,
+  loanType?: string
+): ApprovalTier | null {
+  const byAmount = (a: ApprovalTier, b: ApprovalTier) =>
+    (a.maxAmount ?? Number.POSITIVE_INFINITY) - (b.maxAmount ?? Number.POSITIVE_INFINITY);
+  const covers = (tier: ApprovalTier) => tier.maxAmount === null || amount <= tier.maxAmount;
+
+  const typed = matrix.tiers
+    .filter((tier) => tier.loanTypes?.length && loanType && tier.loanTypes.includes(loanType))
+    .sort(byAmount);
+  const general = matrix.tiers.filter((tier) => !tier.loanTypes?.length).sort(byAmount);
+
+  return typed.find(covers) || general.find(covers) || null;
+}
+
+/**
+ * Check collected signatures against the tier a loan falls in
+ *
+ * The maker's own signature never counts, and each signer counts once. Senior
+ * requirements are filled first, each by the most junior signer that can
+ * satisfy it, so a senior signer is kept for the requirements only they can meet.
+ */
+export function evaluateApprovals(
+  matrix: ApprovalMatrix,
+  params: { amount: number; loanType?: string; makerId?: string; signatures: ApprovalSignature[] }
+): ApprovalEvaluation {
+  const tier = matrix.enabled ? resolveApprovalTier(matrix, params.amount, params.loanType) : null;
+  // Without a matching tier a single approver is enough
+  const required: ApprovalRequirement[] = tier ? tier.requirements.filter((r) => r.count > 0) : [];
+
+  const seen = new Set<string>();
+  const available = params.signatures
+    .filter((signature) => {
+      if (signature.userId === params.makerId || seen.has(signature.userId)) return false;
+      seen.add(signature.userId);
+      return true;
+    })
+    .sort((a, b) => ROLE_SENIORITY[a.role] - ROLE_SENIORITY[b.role]);
+
+  if (!tier) {
+    const counted = available.slice(0, 1);
+    return {
+      tier,
+      required,
+      outstanding: [],
+      countedSignatures: counted,
+      satisfied: counted.length > 0,
+    };
+  }
+
+  const countedSignatures: ApprovalSignature[] = [];
+  const outstanding: ApprovalRequirement[] = [];
+  const slots = [...required].sort((a, b) => ROLE_SENIORITY[b.role] - ROLE_SENIORITY[a.role]);
+
+  for (const requirement of slots) {
+    let missing = requirement.count;
+    while (missing > 0) {
+      const index = available.findIndex((signature) => canSatisfyRequirement(signature.role, requirement.role));
+      if (index === -1) break;
+      countedSignatures.push(available[index]);
+      available.splice(index, 1);
+      missing--;
+    }
+    if (missing > 0) {
+      outstanding.push({ role: requirement.role, count: missing });
+    }
+  }
+
+  return {
+    tier,
+    required,
+    outstanding,
+    countedSignatures,
+    satisfied: outstanding.length === 0,
+  };
+}
+
+/**
+ * Whether a signer could still add to the approvals a loan needs
+ */
+export function canSignApproval(evaluation: ApprovalEvaluation, signerRole: ApproverRole): boolean {
+  if (!evaluation.tier) return true;
+  return evaluation.outstanding.some((requirement) => canSatisfyRequirement(signerRole, requirement.role));
+}
+
+export interface ApprovalSigningInput {
+  amount: number;
+  loanType?: string;
+  makerId?: string;
+  signatures: ApprovalSignature[];
+}
+
+export interface ApprovalSigningResult {
+  accepted: boolean;
+  error?: string;
+  alreadySigned?: boolean; // Signer had signed before and the loan is fully signed
+  signatures: ApprovalSignature[];
+  evaluation: ApprovalEvaluation;
+}
+
+function formatRequirements(requirements: ApprovalRequirement[]): string {
+  return requirements.map((r) => `${r.count} ${r.role.replace('_', ' ')}`).join(' and ');
+}
+
+/**
+ * Add a signature to a loan's approvals
+ * Refuses the maker, repeat signers whose signature is still needed elsewhere,
+ * and signers whose role cannot fill any outstanding requirement.
+ */
+export function addApprovalSignature(
+  matrix: ApprovalMatrix,
+  input: ApprovalSigningInput,
+  signature: ApprovalSignature
+): ApprovalSigningResult {
+  const before = evaluateApprovals(matrix, input);
+  const rejected = (error: string): ApprovalSigningResult => ({
+    accepted: false,
+    error,
+    signatures: input.signatures,
+    evaluation: before,
+  });
+
+  if (input.makerId && signature.userId === input.makerId) {
+    return rejected('You cannot approve a loan you originated');
+  }
+
+  if (input.signatures.some((existing) => existing.userId === signature.userId)) {
+    if (before.satisfied) {
+      return { accepted: true, alreadySigned: true, signatures: input.signatures, evaluation: before };
+    }
+    return rejected(`You have already signed this loan. Still needed: ${formatRequirements(before.outstanding)}`);
+  }
+
+  if (!canSignApproval(before, signature.role)) {
+    return rejected(`This loan needs approval from ${formatRequirements(before.outstanding)}`);
+  }
+
+  const signatures = [...input.signatures, signature];
+  return {
+    accepted: true,
+    signatures,
+    evaluation: evaluateApprovals(matrix, { ...input, signatures }),
+  };
+}
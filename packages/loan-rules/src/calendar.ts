@@ -0,0 +1,243 @@
+/**
+ * Day-Count Conventions and Business-Day Calendars
+ *
+ * Pure date arithmetic for interest accrual, late fees and due-date rolling.
+ * Used by both frontend and Cloud Functions
+ */
+
+/**
+ * Day-count convention used to turn a date range into a fraction of a year
+ */
+export type DayCountConvention = '30/360' | 'actual/365' | 'actual/actual';
+
+/**
+ * How a due date that lands on a weekend or holiday is moved
+ */
+export type BusinessDayRoll = 'none' | 'next_business_day' | 'previous_business_day';
+
+/**
+ * Agency business calendar
+ */
+export interface BusinessCalendar {
+  roll: BusinessDayRoll;
+  weekendDays: number[]; // 0 = Sunday ... 6 = Saturday
+  holidays: string[]; // Agency-specific closures as YYYY-MM-DD
+  includeNationalHolidays: boolean; // Add Zambian public holidays
+}
+
+export const DEFAULT_DAY_COUNT_CONVENTION: DayCountConvention = 'actual/365';
+
+export const DEFAULT_BUSINESS_CALENDAR: BusinessCalendar = {
+  roll: 'next_business_day',
+  weekendDays: [0],
+  holidays: [],
+  includeNationalHolidays: true,
+};
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Format a date as YYYY-MM-DD using its local calendar day
+ */
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+export function getDaysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+/**
+ * Add calendar months, clamping to the last day of shorter months
+ * (31 Jan + 1 month = 28/29 Feb, + 2 months = 31 Mar)
+ */
+export function addMonthsClamped(date: Date, months: number): Date {
+  const target = new Date(date.getFullYear(), date.getMonth() + months, 1, date.getHours(), date.getMinutes());
+  const day = Math.min(date.getDate(), getDaysInMonth(target.getFullYear(), target.getMonth()));
+  target.setDate(day);
+  return target;
+}
+
+/**
+ * Actual calendar days between two dates (ignores time of day)
+ */
+export function actualDaysBetween(start: Date, end: Date): number {
+  return Math.round((startOfDay(end).getTime() - startOfDay(start).getTime()) / MS_PER_DAY);
+}
+
+/**
+ * Days between two dates under a day-count convention
+ */
+export function dayCountDays(start: Date, end: Date, convention: DayCountConvention): number {
+  if (convention !== '30/360') {
+    return actualDaysBetween(start, end);
+  }
+
+  // 30/360 US (bond basis)
+  let d1 = start.getDate();
+  let d2 = end.getDate();
+  if (d1 === 31) d1 = 30;
+  if (d2 === 31 && d1 === 30) d2 = 30;
+
+  return (
+    360 * (end.getFullYear() - start.getFullYear()) +
+    30 * (end.getMonth() - start.getMonth()) +
+    (d2 - d1)
+  );
+}
+
+/**
+ * Fraction of a year between two dates under a day-count convention
+ */
+export function yearFraction(start: Date, end: Date, convention: DayCountConvention): number {
+  if (end.getTime() <= start.getTime()) {
+    return 0;
+  }
+
+  switch (convention) {
+    case '30/360':
+      return dayCountDays(start, end, convention) / 360;
+    case 'actual/actual': {
+      // ISDA: split the period by calendar year and weight each part by that year's length
+      let fraction = 0;
+      let cursor = startOfDay(start);
+      const last = startOfDay(end);
+      while (cursor.getTime() < last.getTime()) {
+        const nextYear = new Date(cursor.getFullYear() + 1, 0, 1);
+        const segmentEnd = nextYear.getTime() < last.getTime() ? nextYear : last;
+        const yearLength = isLeapYear(cursor.getFullYear()) ? 366 : 365;
+        fraction += actualDaysBetween(cursor, segmentEnd) / yearLength;
+        cursor = segmentEnd;
+      }
+      return fraction;
+    }
+    case 'actual/365':
+    default:
+      return actualDaysBetween(start, end) / 365;
+  }
+}
+
+/**
+ * Easter Sunday for a year (anonymous Gregorian algorithm)
+ */
+function getEasterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * First given weekday of a month (weekday 0 = Sunday)
+ */
+function getFirstWeekdayOfMonth(year: number, month: number, weekday: number): Date {
+  const first = new Date(year, month, 1);
+  const offset = (weekday - first.getDay() + 7) % 7;
+  return new Date(year, month, 1 + offset);
+}
+
+/**
+ * Zambian public holidays for a year
+ * Holidays that fall on a Sunday are observed on the following Monday
+ */
+export function getZambianPublicHolidays(year: number): string[] {
+  const easter = getEasterSunday(year);
+  const offsetFromEaster = (days: number) =>
+    new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() + days);
+
+  const fixed = [
+    new Date(year, 0, 1), // New Year's Day
+    new Date(year, 2, 8), // International Women's Day
+    new Date(year, 2, 12), // Youth Day
+    new Date(year, 3, 28), // Kenneth Kaunda Day
+    new Date(year, 4, 1), // Labour Day
+    new Date(year, 4, 25), // Africa Day
+    new Date(year, 9, 18), // National Day of Prayer
+    new Date(year, 9, 24), // Independence Day
+    new Date(year, 11, 25), // Christmas Day
+  ];
+
+  const observed: Date[] = [];
+  for (const holiday of fixed) {
+    observed.push(holiday);
+    if (holiday.getDay() === 0) {
+      observed.push(new Date(year, holiday.getMonth(), holiday.getDate() + 1));
+    }
+  }
+
+  const heroesDay = getFirstWeekdayOfMonth(year, 6, 1); // First Monday of July
+  observed.push(
+    offsetFromEaster(-2), // Good Friday
+    offsetFromEaster(-1), // Holy Saturday
+    offsetFromEaster(1), // Easter Monday
+    heroesDay,
+    new Date(year, 6, heroesDay.getDate() + 1), // Unity Day
+    getFirstWeekdayOfMonth(year, 7, 1) // Farmers' Day
+  );
+
+  return observed.map(toDateKey);
+}
+
+const nationalHolidayCache: Record<number, Set<string>> = {};
+
+function getNationalHolidaySet(year: number): Set<string> {
+  if (!nationalHolidayCache[year]) {
+    nationalHolidayCache[year] = new Set(getZambianPublicHolidays(year));
+  }
+  return nationalHolidayCache[year];
+}
+
+/**
+ * Check whether a date is a business day on a calendar
+ */
+export function isBusinessDay(date: Date, calendar: BusinessCalendar = DEFAULT_BUSINESS_CALENDAR): boolean {
+  if (calendar.weekendDays.includes(date.getDay())) {
+    return false;
+  }
+
+  const key = toDateKey(date);
+  if (calendar.holidays.includes(key)) {
+    return false;
+  }
+
+  return !(calendar.includeNationalHolidays && getNationalHolidaySet(date.getFullYear()).has(key));
+}
+
+/**
+ * Move a date onto a business day according to the calendar's roll rule
+ */
+export function adjustToBusinessDay(date: Date, calendar: BusinessCalendar = DEFAULT_BUSINESS_CALENDAR): Date {
+  if (calendar.roll === 'none' || calendar.weekendDays.length >= 7) {
+    return new Date(date);
+  }
+
+  const step = calendar.roll === 'previous_business_day' ? -1 : 1;
+  const adjusted = new Date(date);
+  // A year of consecutive closures is a misconfiguration; stop rather than loop forever
+  for (let i = 0; i < 366 && !isBusinessDay(adjusted, calendar); i++) {
+    adjusted.setDate(adjusted.getDate() + step);
+  }
+
+  return adjusted;
+}
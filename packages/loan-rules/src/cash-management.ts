@@ -0,0 +1,171 @@
+/**
+ * Teller Cash Management
+ *
+ * Cash held by tellers and branch vaults. A teller works a session (a shift)
+ * that opens with a float issued from the branch vault, takes cash in for
+ * payments and pays it out for disbursements, and closes with a count of the
+ * drawer by denomination. The count is returned to the vault and any
+ * difference from the expected cash is recorded against the teller and shift.
+ * Used by both frontend and Cloud Functions
+ */
+
+import { roundCurrency } from './utils';
+
+export type PaymentMethod = 'cash' | 'bank_transfer' | 'mobile_money' | 'check' | 'other';
+
+export const PAYMENT_METHODS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  bank_transfer: 'Bank Transfer',
+  mobile_money: 'Mobile Money',
+  check: 'Check',
+  other: 'Other',
+};
+
+export interface Denomination {
+  value: number;
+  label: string;
+}
+
+// Zambian kwacha notes and coins in circulation
+export const ZMW_DENOMINATIONS: Denomination[] = [
+  { value: 200, label: 'K200' },
+  { value: 100, label: 'K100' },
+  { value: 50, label: 'K50' },
+  { value: 20, label: 'K20' },
+  { value: 10, label: 'K10' },
+  { value: 5, label: 'K5' },
+  { value: 2, label: 'K2' },
+  { value: 1, label: 'K1' },
+  { value: 0.5, label: '50n' },
+  { value: 0.1, label: '10n' },
+  { value: 0.05, label: '5n' },
+];
+
+export type DenominationCount = Record<string, number>; // Pieces keyed by denomination value
+
+export type CashMovementType = 'payment' | 'disbursement' | 'vault_issue' | 'vault_return' | 'reversal';
+
+export const CASH_MOVEMENT_DIRECTIONS: Record<CashMovementType, 'in' | 'out'> = {
+  payment: 'in',
+  disbursement: 'out',
+  vault_issue: 'in',
+  vault_return: 'out',
+  reversal: 'out', // A reversed cash payment handed back from the drawer
+};
+
+export interface CashManagementConfig {
+  requireTellerSession: boolean; // Cash payments and disbursements need an open session
+  varianceTolerance: number; // Largest difference at close accepted without a reason
+}
+
+export const DEFAULT_CASH_MANAGEMENT_CONFIG: CashManagementConfig = {
+  requireTellerSession: false,
+  varianceTolerance: 0,
+};
+
+export type VarianceStatus = 'balanced' | 'short' | 'over';
+
+/**
+ * A closed session as the variance report reads it
+ */
+export interface TellerSessionVariance {
+  sessionId: string;
+  tellerId: string;
+  branchId: string;
+  openedAt: Date;
+  variance: number; // Counted less expected; negative is a shortage
+}
+
+export interface TellerVarianceSummary {
+  tellerId: string;
+  sessions: number;
+  shortSessions: number;
+  overSessions: number;
+  totalShort: number; // Positive amount missing across the teller's sessions
+  totalOver: number;
+  netVariance: number;
+  largestShort: number;
+  shortages: TellerSessionVariance[]; // The shifts the shortages happened in
+}
+
+/**
+ * Stored cash management config merged over the defaults
+ */
+export function resolveCashManagementConfig(stored?: Partial<CashManagementConfig> | null): CashManagementConfig {
+  return {
+    requireTellerSession: stored?.requireTellerSession ?? DEFAULT_CASH_MANAGEMENT_CONFIG.requireTellerSession,
+    varianceTolerance: Math.max(0, Number(stored?.varianceTolerance ?? DEFAULT_CASH_MANAGEMENT_CONFIG.varianceTolerance)),
+  };
+}
+
+/**
+ * Whether a payment method moves physical cash through a teller
+ */
+export function isCashMethod(method?: string | null): boolean {
+  return (method || '').toLowerCase() === 'cash';
+}
+
+/**
+ * Value of a denomination count. Negative or fractional piece counts are rejected.
+ */
+export function countDenominations(counts: DenominationCount): number {
+  let total = 0;
+  for (const [value, pieces] of Object.entries(counts)) {
+    const count = Number(pieces || 0);
+    if (count < 0 || !Number.isInteger(count)) {
+      throw new Error(`Invalid count of ${count} for denomination ${value}`);
+    }
+    total += Number(value) * count;
+  }
+  return roundCurrency(total);
+}
+
+/**
+ * Cash a drawer should hold: the float plus cash in less cash out
+ */
+export function getExpectedCash(openingFloat: number, cashIn: number, cashOut: number): number {
+  return roundCurrency(openingFloat + cashIn - cashOut);
+}
+
+/**
+ * How a counted drawer compares to what it should hold
+ */
+export function getVarianceStatus(variance: number): VarianceStatus {
+  if (Math.abs(variance) < 0.005) return 'balanced';
+  return variance < 0 ? 'short' : 'over';
+}
+
+/**
+ * Shortages and overages per teller across closed sessions, largest shortfall first
+ */
+export function summarizeTellerVariances(sessions: TellerSessionVariance[]): TellerVarianceSummary[] {
+  const byTeller = new Map<string, TellerVarianceSummary>();
+  for (const session of sessions) {
+    const summary = byTeller.get(session.tellerId) || {
+      tellerId: session.tellerId,
+      sessions: 0,
+      shortSessions: 0,
+      overSessions: 0,
+      totalShort: 0,
+      totalOver: 0,
+      netVariance: 0,
+      largestShort: 0,
+      shortages: [],
+    };
+    const status = getVarianceStatus(session.variance);
+    summary.sessions += 1;
+    summary.netVariance = roundCurrency(summary.netVariance + session.variance);
+    if (status === 'short') {
+      summary.shortSessions += 1;
+      summary.totalShort = roundCurrency(summary.totalShort - session.variance);
+      summary.largestShort = Math.max(summary.largestShort, roundCurrency(-session.variance));
+      summary.shortages.push(session);
+    } else if (status === 'over') {
+      summary.overSessions += 1;
+      summary.totalOver = roundCurrency(summary.totalOver + session.variance);
+    }
+    byTeller.set(session.tellerId, summary);
+  }
+
+  return [...byTeller.values()].sort((a, b) => b.totalShort - a.totalShort || a.tellerId.localeCompare(b.tellerId));
+}
@@ -0,0 +1,137 @@
+/**
+ * Collateral Insurance
+ *
+ * Vehicles, equipment and other assets a loan type names must be insured for
+ * the life of the loan. Each policy recorded against an asset carries its
+ * insurer, sum insured, beneficiary and expiry; a loan whose type requires
+ * insurance cannot be disbursed while any such asset securing it lacks a
+ * policy in force, and borrowers and officers are reminded as policies near
+ * expiry.
+ * Used by both frontend and Cloud Functions
+ */
+
+export type InsurancePolicyStatus = 'active' | 'cancelled';
+
+// Asset types a loan type requires insured unless it names its own
+export const DEFAULT_INSURED_COLLATERAL_TYPES = ['vehicle', 'equipment'];
+
+// Days before expiry on which the borrower and officer are reminded
+export const INSURANCE_REMINDER_DAYS = [30, 14, 7, 1];
+
+/**
+ * A loan type's insurance requirement for the collateral securing it
+ */
+export interface CollateralInsuranceRequirement {
+  required: boolean;
+  collateralTypes: string[];
+}
+
+/**
+ * A policy as the insurance checks read it
+ */
+export interface InsurancePolicyRecord {
+  id: string;
+  collateralId: string;
+  insurer: string;
+  policyNumber: string;
+  sumInsured: number;
+  beneficiary: string;
+  startDate: Date;
+  expiryDate: Date;
+  status: InsurancePolicyStatus;
+}
+
+export interface InsuranceGap {
+  collateralId: string;
+  collateralName: string;
+  reason: 'missing' | 'expired' | 'not_started';
+  message: string;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function startOfDay(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+/**
+ * Stored loan type requirement merged over the defaults
+ */
+export function resolveInsuranceRequirement(
+  stored?: Partial<CollateralInsuranceRequirement> | null
+): CollateralInsuranceRequirement {
+  return {
+    required: stored?.required === true,
+    collateralTypes: stored?.collateralTypes
+      ? stored.collateralTypes.map((type) => type.toLowerCase())
+      : DEFAULT_INSURED_COLLATERAL_TYPES,
+  };
+}
+
+export function requiresInsurance(requirement: CollateralInsuranceRequirement, collateralType?: string | null): boolean {
+  return requirement.required && requirement.collateralTypes.includes((collateralType || 'other').toLowerCase());
+}
+
+/**
+ * Whole days from a date until a policy expires; negative once it has expired
+ */
+export function getDaysToExpiry(policy: Pick<InsurancePolicyRecord, 'expiryDate'>, asOf: Date): number {
+  return Math.round((startOfDay(policy.expiryDate) - startOfDay(asOf)) / MS_PER_DAY);
+}
+
+/**
+ * Whether a policy covers an asset on a date (cover runs to the end of the expiry date)
+ */
+export function isPolicyInForce(policy: InsurancePolicyRecord, asOf: Date): boolean {
+  return policy.status === 'active'
+    && startOfDay(policy.startDate) <= startOfDay(asOf)
+    && getDaysToExpiry(policy, asOf) >= 0;
+}
+
+/**
+ * The asset's policy in force on a date, the one running longest if several are
+ */
+export function getPolicyInForce(policies: InsurancePolicyRecord[], collateralId: string, asOf: Date): InsurancePolicyRecord | null {
+  return policies
+    .filter((policy) => policy.collateralId === collateralId && isPolicyInForce(policy, asOf))
+    .sort((a, b) => b.expiryDate.getTime() - a.expiryDate.getTime())[0] || null;
+}
+
+/**
+ * Assets securing a loan that its type requires insured but which lack a policy in force
+ */
+export function findInsuranceGaps(input: {
+  requirement: CollateralInsuranceRequirement;
+  collateral: Array<{ id: string; name?: string | null; type?: string | null }>;
+  policies: InsurancePolicyRecord[];
+  asOf: Date;
+}): InsuranceGap[] {
+  const gaps: InsuranceGap[] = [];
+
+  for (const asset of input.collateral) {
+    if (!requiresInsurance(input.requirement, asset.type)) continue;
+    if (getPolicyInForce(input.policies, asset.id, input.asOf)) continue;
+
+    const name = asset.name || asset.id;
+    const assetPolicies = input.policies.filter((policy) => policy.collateralId === asset.id && policy.status === 'active');
+    if (assetPolicies.some((policy) => getDaysToExpiry(policy, input.asOf) >= 0)) {
+      gaps.push({ collateralId: asset.id, collateralName: name, reason: 'not_started', message: `Insurance on ${name} has not started yet` });
+    } else if (assetPolicies.length > 0) {
+      gaps.push({ collateralId: asset.id, collateralName: name, reason: 'expired', message: `Insurance on ${name} has expired` });
+    } else {
+      gaps.push({ collateralId: asset.id, collateralName: name, reason: 'missing', message: `${name} has no insurance policy recorded` });
+    }
+  }
+
+  return gaps;
+}
+
+/**
+ * The reminder due for a policy on a date: days before expiry, 0 on the first day without cover, or null
+ */
+export function getInsuranceReminderDue(policy: InsurancePolicyRecord, asOf: Date): number | null {
+  if (policy.status !== 'active') return null;
+  const days = getDaysToExpiry(policy, asOf);
+  if (days === -1) return 0;
+  return INSURANCE_REMINDER_DAYS.includes(days) ? days : null;
+}
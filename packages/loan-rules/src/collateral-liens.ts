@@ -0,0 +1,183 @@
+/**
+ * Collateral Lien Registry
+ *
+ * Each pledge of collateral against a loan is a lien with a priority rank and
+ * the amount of the loan it secures. An asset is recognised across the agency
+ * by its serial, registration or title number, so the same vehicle or title
+ * deed entered twice is still caught when it is pledged to a second loan.
+ * Liens are released when the loan they secure closes, after which the asset
+ * can be pledged again.
+ * Used by both frontend and Cloud Functions
+ */
+
+import { roundCurrency } from './utils';
+
+export type CollateralIdentifierKind = 'serial' | 'registration' | 'title';
+
+export const COLLATERAL_IDENTIFIER_KINDS: Record<CollateralIdentifierKind, string> = {
+  serial: 'Serial number',
+  registration: 'Registration number',
+  title: 'Title number',
+};
+
+export type LienStatus = 'active' | 'released';
+
+// Loan statuses that end a loan with nothing owed, releasing its liens
+export const LIEN_RELEASE_STATUSES = ['closed', 'rejected'];
+
+export type DoublePledgePolicy = 'block' | 'flag';
+
+export interface CollateralLienConfig {
+  doublePledgePolicy: DoublePledgePolicy; // Refuse a second pledge of the same asset, or register it flagged
+}
+
+export const DEFAULT_COLLATERAL_LIEN_CONFIG: CollateralLienConfig = {
+  doublePledgePolicy: 'block',
+};
+
+export interface CollateralIdentifiers {
+  serialNumber?: string | null;
+  registrationNumber?: string | null;
+  titleNumber?: string | null;
+}
+
+/**
+ * A lien as the pledge checks read it
+ */
+export interface LienRecord {
+  id: string;
+  collateralId: string;
+  loanId: string;
+  rank: number; // 1 is the first charge on the asset
+  coverageAmount: number;
+  status: LienStatus;
+  identifierKeys: string[];
+}
+
+export interface PledgeConflict {
+  lienId: string;
+  loanId: string;
+  collateralId: string;
+  matchedOn: string[]; // 'collateral' for the same record, otherwise the shared identifier keys
+}
+
+export interface PledgeEvaluation {
+  allowed: boolean;
+  flagged: boolean; // Allowed although the asset already secures another loan
+  error?: string;
+  rank: number;
+  coverageAmount: number;
+  availableCoverage: number; // Asset value not already covered by earlier liens
+  conflicts: PledgeConflict[];
+}
+
+/**
+ * Stored lien config merged over the defaults
+ */
+export function resolveCollateralLienConfig(stored?: Partial<CollateralLienConfig> | null): CollateralLienConfig {
+  return {
+    doublePledgePolicy: stored?.doublePledgePolicy === 'flag' ? 'flag' : DEFAULT_COLLATERAL_LIEN_CONFIG.doublePledgePolicy,
+  };
+}
+
+/**
+ * An identifier as compared across records: upper case, letters and digits only
+ */
+export function normalizeIdentifier(value?: string | null): string {
+  return (value || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Keys an asset is matched on, e.g. 'registration:ABC1234'
+ */
+export function getCollateralIdentifierKeys(identifiers: CollateralIdentifiers): string[] {
+  const values: Array<[CollateralIdentifierKind, string | null | undefined]> = [
+    ['serial', identifiers.serialNumber],
+    ['registration', identifiers.registrationNumber],
+    ['title', identifiers.titleNumber],
+  ];
+  return values
+    .map(([kind, value]) => [kind, normalizeIdentifier(value)] as const)
+    .filter(([, value]) => value.length > 0)
+    .map(([kind, value]) => `${kind}:${value}`);
+}
+
+/**
+ * Active liens on the same asset: the same collateral record or a record
+ * sharing any identifier
+ */
+export function getAssetLiens(
+  collateralId: string | null,
+  identifierKeys: string[],
+  liens: LienRecord[]
+): LienRecord[] {
+  return liens.filter((lien) =>
+    lien.status === 'active' &&
+    ((collateralId !== null && lien.collateralId === collateralId) ||
+      lien.identifierKeys.some((key) => identifierKeys.includes(key)))
+  );
+}
+
+/**
+ * Whether a pledge of an asset to a loan can be registered, at what rank and
+ * for how much. Liens on the same loan are not conflicts; liens on other
+ * loans are, and the agency's policy decides whether they block the pledge.
+ */
+export function evaluatePledge(
+  pledge: {
+    collateralId: string | null; // Null for an asset not yet in the registry
+    loanId: string;
+    identifierKeys: string[];
+    collateralValue: number;
+    loanAmount?: number;
+    coverageAmount?: number; // Defaults to the loan amount, up to the value left uncovered
+  },
+  liens: LienRecord[],
+  config: CollateralLienConfig = DEFAULT_COLLATERAL_LIEN_CONFIG
+): PledgeEvaluation {
+  const assetLiens = getAssetLiens(pledge.collateralId, pledge.identifierKeys, liens);
+  const rank = assetLiens.reduce((max, lien) => Math.max(max, lien.rank), 0) + 1;
+  const availableCoverage = roundCurrency(Math.max(
+    0,
+    pledge.collateralValue - assetLiens.reduce((sum, lien) => sum + lien.coverageAmount, 0)
+  ));
+  const coverageAmount = roundCurrency(
+    pledge.coverageAmount ?? Math.min(availableCoverage, pledge.loanAmount ?? availableCoverage)
+  );
+
+  const conflicts: PledgeConflict[] = assetLiens
+    .filter((lien) => lien.loanId !== pledge.loanId)
+    .map((lien) => ({
+      lienId: lien.id,
+      loanId: lien.loanId,
+      collateralId: lien.collateralId,
+      matchedOn: pledge.collateralId !== null && lien.collateralId === pledge.collateralId
+        ? ['collateral']
+        : lien.identifierKeys.filter((key) => pledge.identifierKeys.includes(key)),
+    }));
+
+  const result = { rank, coverageAmount, availableCoverage, conflicts };
+
+  if (pledge.collateralId !== null && assetLiens.some((lien) =>
+    lien.loanId === pledge.loanId && lien.collateralId === pledge.collateralId
+  )) {
+    return { ...result, allowed: false, flagged: false, error: 'This collateral is already pledged to this loan' };
+  }
+  if (conflicts.length > 0 && config.doublePledgePolicy === 'block') {
+    const loans = [...new Set(conflicts.map((conflict) => conflict.loanId))].join(', ');
+    return { ...result, allowed: false, flagged: false, error: `This asset already secures loan ${loans}` };
+  }
+  if (coverageAmount <= 0) {
+    return { ...result, allowed: false, flagged: false, error: 'The asset has no value left uncovered by earlier liens' };
+  }
+  if (coverageAmount > availableCoverage + 0.005) {
+    return {
+      ...result,
+      allowed: false,
+      flagged: false,
+      error: `Coverage cannot exceed the ${availableCoverage.toFixed(2)} of value not already covered`,
+    };
+  }
+
+  return { ...result, allowed: true, flagged: conflicts.length > 0 };
+}
@@ -0,0 +1,181 @@
+/**
+ * Collateral Valuation Monitoring
+ *
+ * Pledged assets lose value over a loan's life. Each asset is carried at its
+ * latest market valuation (or the value it was pledged at) depreciated by its
+ * type's annual rate to date, and each loan's loan-to-value and collateral
+ * coverage are recomputed from the value left to it after prior-ranking liens,
+ * so a breach of its loan type's risk rules is caught while the loan runs and
+ * not just at origination.
+ * Used by both frontend and Cloud Functions
+ */
+
+import type { LienRecord } from './collateral-liens';
+import { roundCurrency } from './utils';
+
+// Straight-line depreciation per year of age, as a share of the value when new
+export const COLLATERAL_DEPRECIATION_RATES: Record<string, number> = {
+  vehicle: 0.15,
+  land: 0.02,
+  property: 0.05,
+  equipment: 0.20,
+  electronics: 0.30,
+  jewelry: 0.10,
+  livestock: 0.25,
+  other: 0.20,
+};
+
+// Share of its value when new that an asset is never depreciated below
+export const RESIDUAL_VALUE_FLOOR = 0.3;
+
+export type CollateralBreachRule = 'max_loan_to_value' | 'min_collateral_coverage';
+
+export const COLLATERAL_BREACH_RULES: Record<CollateralBreachRule, string> = {
+  max_loan_to_value: 'Loan-to-value above maximum',
+  min_collateral_coverage: 'Collateral coverage below minimum',
+};
+
+export type ValuationSource = 'market' | 'pledged';
+
+/**
+ * The valuation an asset is depreciated from
+ */
+export interface ValuationBase {
+  value: number;
+  valuedAt: Date;
+  source: ValuationSource; // A market valuation, or the value the asset was pledged at
+}
+
+export interface CollateralRevaluation {
+  value: number;
+  baseValue: number;
+  baseDate: Date;
+  source: ValuationSource;
+  depreciationRate: number;
+}
+
+export interface CollateralBreach {
+  rule: CollateralBreachRule;
+  limit: number; // Percentage from the loan type's risk rules
+  actual: number | null; // Null when no collateral value is left
+  message: string;
+}
+
+export interface CollateralCoverageAssessment {
+  exposure: number; // Outstanding principal
+  collateralValue: number; // Value securing the loan after prior-ranking liens
+  loanToValue: number | null; // Percentage; null when no collateral value is left
+  coverage: number; // Percentage of exposure covered by collateral
+  breaches: CollateralBreach[];
+}
+
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+
+/**
+ * Calculate loan coverage ratio (collateral value / loan amount)
+ */
+export function calculateLoanCoverageRatio(
+  collateralValue: number,
+  loanAmount: number
+): number {
+  if (loanAmount === 0) return 0;
+  return Math.round((collateralValue / loanAmount) * 100) / 100;
+}
+
+export function getDepreciationRate(type?: string | null): number {
+  return COLLATERAL_DEPRECIATION_RATES[(type || 'other').toLowerCase()] ?? COLLATERAL_DEPRECIATION_RATES.other;
+}
+
+/**
+ * The latest market valuation of an asset, or the value it was pledged at
+ */
+export function getValuationBase(
+  collateral: { estimatedValue?: number; value?: number },
+  pledgedAt: Date,
+  marketValuation?: { value: number; valuedAt: Date } | null
+): ValuationBase {
+  if (marketValuation && marketValuation.value > 0) {
+    return { value: marketValuation.value, valuedAt: marketValuation.valuedAt, source: 'market' };
+  }
+  return {
+    value: Number(collateral.estimatedValue ?? collateral.value ?? 0),
+    valuedAt: pledgedAt,
+    source: 'pledged',
+  };
+}
+
+/**
+ * Value of an asset at a date, depreciated from its valuation base. The rate
+ * applies to the value when new, so an asset of a known year is depreciated
+ * from the age it was valued at, down to the residual floor.
+ */
+export function revalueCollateral(input: {
+  base: ValuationBase;
+  asOf: Date;
+  type?: string | null;
+  year?: number | null; // Year of manufacture, if known
+}): CollateralRevaluation {
+  const rate = getDepreciationRate(input.type);
+  const yearsElapsed = Math.max(0, (input.asOf.getTime() - input.base.valuedAt.getTime()) / MS_PER_YEAR);
+  const ageAtBase = input.year ? Math.max(0, input.base.valuedAt.getFullYear() - input.year) : 0;
+  const factorAtBase = Math.max(RESIDUAL_VALUE_FLOOR, 1 - ageAtBase * rate);
+  const factorNow = Math.max(RESIDUAL_VALUE_FLOOR, 1 - (ageAtBase + yearsElapsed) * rate);
+
+  return {
+    value: roundCurrency(input.base.value * (factorNow / factorAtBase)),
+    baseValue: input.base.value,
+    baseDate: input.base.valuedAt,
+    source: input.base.source,
+    depreciationRate: rate,
+  };
+}
+
+/**
+ * Value of an asset left to a lien once the liens ranking ahead of it are covered
+ */
+export function getValueAvailableToLien(assetValue: number, lien: LienRecord, assetLiens: LienRecord[]): number {
+  const priorCoverage = assetLiens
+    .filter((other) => other.status === 'active' && other.id !== lien.id && other.rank < lien.rank)
+    .reduce((sum, other) => sum + other.coverageAmount, 0);
+  return roundCurrency(Math.max(0, assetValue - priorCoverage));
+}
+
+/**
+ * Loan-to-value and coverage of a loan against its loan type's risk rules
+ */
+export function assessCollateralCoverage(input: {
+  exposure: number;
+  collateralValue: number;
+  riskRules?: { maxLoanToValue?: number; minCollateralCoverage?: number } | null;
+}): CollateralCoverageAssessment {
+  const exposure = roundCurrency(Math.max(0, input.exposure));
+  const collateralValue = roundCurrency(Math.max(0, input.collateralValue));
+  const loanToValue = collateralValue > 0 ? roundCurrency((exposure / collateralValue) * 100) : null;
+  const coverage = roundCurrency(calculateLoanCoverageRatio(collateralValue, exposure) * 100);
+  const breaches: CollateralBreach[] = [];
+
+  if (exposure > 0) {
+    const maxLoanToValue = input.riskRules?.maxLoanToValue;
+    if (maxLoanToValue !== undefined && maxLoanToValue !== null && (loanToValue === null || loanToValue > maxLoanToValue)) {
+      breaches.push({
+        rule: 'max_loan_to_value',
+        limit: maxLoanToValue,
+        actual: loanToValue,
+        message: loanToValue === null
+          ? `No collateral value is left against an exposure of ${exposure.toFixed(2)}`
+          : `Loan-to-value is ${loanToValue.toFixed(1)}%, above the ${maxLoanToValue}% maximum`,
+      });
+    }
+    const minCoverage = input.riskRules?.minCollateralCoverage;
+    if (minCoverage !== undefined && minCoverage !== null && coverage < minCoverage) {
+      breaches.push({
+        rule: 'min_collateral_coverage',
+        limit: minCoverage,
+        actual: coverage,
+        message: `Collateral covers ${coverage.toFixed(1)}% of the exposure, below the ${minCoverage}% minimum`,
+      });
+    }
+  }
+
+  return { exposure, collateralValue, loanToValue, coverage, breaches };
+}
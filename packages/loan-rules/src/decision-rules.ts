@@ -0,0 +1,382 @@
+/**
+ * Credit Decision Rules
+ *
+ * Declarative rules evaluated against a loan application. Each loan type's
+ * risk rules (minimum credit score, maximum debt-to-income, collateral
+ * coverage, loan-to-value, ...) are turned into rules, agencies can add custom
+ * conditions, and the engine returns approve/refer/decline together with every
+ * rule that was hit. Used by both frontend and Cloud Functions.
+ */
+
+import {
+  buildAmortizationSchedule,
+  DEFAULT_INTEREST_METHOD,
+  DEFAULT_REPAYMENT_FREQUENCY,
+  type InterestCalculationMethod,
+} from './schedule';
+import { roundCurrency } from './utils';
+
+/**
+ * Risk assessment rules for loan type
+ */
+export interface RiskRules {
+  minCreditScore?: number;
+  maxDebtToIncome?: number;
+  minCollateralCoverage?: number; // Percentage (e.g., 120 = 120%)
+  maxLoanToValue?: number; // Percentage
+  requiredGuarantors?: number;
+  maxDefaultHistory?: number;
+  minBusinessAge?: number; // Months
+  minMonthlyIncome?: number;
+}
+
+export type DecisionOutcome = 'approve' | 'refer' | 'decline';
+
+export type RuleOperator = 'lt' | 'lte' | 'gt' | 'gte' | 'eq' | 'neq' | 'in' | 'not_in' | 'missing';
+
+/**
+ * A fact about the application compared against a value, e.g. creditScore lt 550
+ */
+export interface DecisionCondition {
+  fact: string;
+  operator: RuleOperator;
+  value?: number | string | boolean | Array<number | string>;
+}
+
+/**
+ * A rule fires when all of its conditions hold, and pushes the decision
+ * towards its outcome. Rules cannot approve: an application is approved when
+ * no rule fires.
+ */
+export interface DecisionRule {
+  id: string;
+  name: string;
+  conditions: DecisionCondition[];
+  outcome: Exclude<DecisionOutcome, 'approve'>;
+  reason?: string;
+  enabled?: boolean;
+}
+
+/**
+ * Facts the engine evaluates. Ratios are percentages (e.g. 40 = 40%).
+ * Custom rules may refer to any additional fact supplied by the caller.
+ */
+export interface CreditApplicationFacts {
+  amount: number;
+  durationMonths?: number;
+  loanType?: string;
+  creditScore?: number;
+  riskScore?: number; // 0-100, higher is riskier
+  monthlyIncome?: number;
+  monthlyDebtPayments?: number; // Existing obligations plus the new installment
+  debtToIncome?: number;
+  collateralValue?: number;
+  collateralCoverage?: number;
+  loanToValue?: number;
+  guarantorCount?: number;
+  pastDefaults?: number;
+  businessAgeMonths?: number;
+  [fact: string]: unknown;
+}
+
+export type RuleSource = 'risk_rule' | 'policy' | 'custom';
+
+export interface RuleHit {
+  ruleId: string;
+  name: string;
+  source: RuleSource;
+  outcome: Exclude<DecisionOutcome, 'approve'>;
+  reason: string;
+  facts: Record<string, unknown>; // Values of the facts the rule looked at
+}
+
+export interface CreditDecision {
+  outcome: DecisionOutcome;
+  hits: RuleHit[];
+  rulesEvaluated: number;
+  facts: Record<string, unknown>;
+  evaluatedAt: string;
+}
+
+export interface SourcedDecisionRule extends DecisionRule {
+  source: RuleSource;
+}
+
+/**
+ * Agency-wide rules applied to every loan type on top of its own rules.
+ * Replaces the former fixed risk score thresholds (refer from 25, decline from 75).
+ */
+export const DEFAULT_POLICY_RULES: DecisionRule[] = [
+  {
+    id: 'risk_score_decline',
+    name: 'Very high risk score',
+    conditions: [{ fact: 'riskScore', operator: 'gte', value: 75 }],
+    outcome: 'decline',
+    reason: 'Risk score is 75 or above',
+  },
+  {
+    id: 'risk_score_refer',
+    name: 'Elevated risk score',
+    conditions: [
+      { fact: 'riskScore', operator: 'gte', value: 25 },
+      { fact: 'riskScore', operator: 'lt', value: 75 },
+    ],
+    outcome: 'refer',
+    reason: 'Risk score is between 25 and 75',
+  },
+  {
+    id: 'risk_score_missing',
+    name: 'No risk score',
+    conditions: [{ fact: 'riskScore', operator: 'missing' }],
+    outcome: 'refer',
+    reason: 'Application has not been risk scored',
+  },
+];
+
+const OUTCOME_SEVERITY: Record<DecisionOutcome, number> = {
+  approve: 0,
+  refer: 1,
+  decline: 2,
+};
+
+// Loans whose installments count towards the customer's existing obligations
+const OBLIGATION_STATUSES = ['disbursed', 'active', 'overdue', 'restructured'];
+// Loans the borrower failed to repay, including those since taken off the books
+const DEFAULTED_STATUSES = ['defaulted', 'written_off'];
+
+function toNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const parsed = Number(value);
+  return isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Monthly equivalent of a loan's installment
+ * Loans without a recorded method are priced with the agency's configured one
+ */
+function getMonthlyInstallment(loan: any, agencyMethod?: InterestCalculationMethod): number {
+  const stored = toNumber(loan.monthlyPayment);
+  if (stored !== undefined) return stored;
+
+  const principal = Number(loan.amount || 0);
+  const durationMonths = Number(loan.durationMonths || 0);
+  if (principal <= 0 || durationMonths <= 0) return 0;
+
+  const schedule = buildAmortizationSchedule({
+    principal,
+    annualRate: Number(loan.interestRate || 0),
+    durationMonths,
+    startDate: new Date(),
+    method: loan.interestCalculationMethod || loan.interest_calculation_method || agencyMethod || DEFAULT_INTEREST_METHOD,
+    frequency: loan.repaymentFrequency || loan.repayment_frequency || DEFAULT_REPAYMENT_FREQUENCY,
+    customIntervalDays: loan.customIntervalDays || undefined,
+  });
+  return roundCurrency((schedule.installmentAmount * schedule.periodsPerYear) / 12);
+}
+
+/**
+ * Build the facts of an application from the loan, its customer and the
+ * customer's other loans
+ */
+export function buildApplicationFacts(
+  loan: any,
+  customer: any,
+  otherLoans: any[],
+  collateralValue?: number,
+  agencyMethod?: InterestCalculationMethod
+): CreditApplicationFacts {
+  const existingObligations = otherLoans
+    .filter((other) => OBLIGATION_STATUSES.includes(other.status))
+    .reduce((sum, other) => sum + getMonthlyInstallment(other, agencyMethod), 0);
+
+  const guarantorCount = Array.isArray(loan.guarantors)
+    ? loan.guarantors.length
+    : (loan.guarantorName || customer.guarantorName) ? 1 : 0;
+
+  return {
+    amount: Number(loan.amount ?? loan.terms?.amount ?? 0),
+    durationMonths: toNumber(loan.durationMonths),
+    loanType: loan.loanType,
+    creditScore: toNumber(loan.creditScore ?? customer.creditScore),
+    riskScore: toNumber(loan.riskScore ?? customer.riskScore),
+    monthlyIncome: toNumber(customer.monthlyIncome ?? customer.monthly_income),
+    monthlyDebtPayments: existingObligations + getMonthlyInstallment(loan, agencyMethod),
+    collateralValue: collateralValue ?? toNumber(loan.collateralValue),
+    guarantorCount,
+    pastDefaults: otherLoans.filter((other) => DEFAULTED_STATUSES.includes(other.status)).length,
+    businessAgeMonths: toNumber(loan.businessAgeMonths ?? customer.businessAgeMonths),
+    employmentStatus: customer.employmentStatus || customer.employment_status,
+  };
+}
+
+/**
+ * Fill in ratios the caller did not supply from the underlying amounts
+ */
+export function deriveApplicationFacts(facts: CreditApplicationFacts): CreditApplicationFacts {
+  const derived: CreditApplicationFacts = { ...facts };
+  const amount = Number(facts.amount || 0);
+
+  if (derived.debtToIncome === undefined && facts.monthlyIncome && facts.monthlyDebtPayments !== undefined) {
+    derived.debtToIncome = roundCurrency((facts.monthlyDebtPayments / facts.monthlyIncome) * 100);
+  }
+  if (facts.collateralValue !== undefined && amount > 0) {
+    if (derived.collateralCoverage === undefined) {
+      derived.collateralCoverage = roundCurrency((facts.collateralValue / amount) * 100);
+    }
+    if (derived.loanToValue === undefined && facts.collateralValue > 0) {
+      derived.loanToValue = roundCurrency((amount / facts.collateralValue) * 100);
+    }
+  }
+
+  return derived;
+}
+
+/**
+ * Turn a loan type's risk rules into decision rules
+ */
+export function buildRiskRuleSet(riskRules: RiskRules = {}): DecisionRule[] {
+  const rules: DecisionRule[] = [];
+  const threshold = (
+    id: string,
+    name: string,
+    fact: string,
+    operator: RuleOperator,
+    value: number | undefined,
+    outcome: DecisionRule['outcome'],
+    reason: string
+  ) => {
+    if (value === undefined || value === null || isNaN(Number(value))) return;
+    rules.push({
+      id,
+      name,
+      conditions: [{ fact, operator, value: Number(value) }],
+      outcome,
+      reason,
+    });
+    // A rule that cannot be evaluated needs a person to look at the application
+    rules.push({
+      id: `${id}_missing`,
+      name: `${name} (no data)`,
+      conditions: [{ fact, operator: 'missing' }],
+      outcome: 'refer',
+      reason: `${fact} is required by the ${name.toLowerCase()} rule but was not provided`,
+    });
+  };
+
+  threshold('min_credit_score', 'Minimum credit score', 'creditScore', 'lt', riskRules.minCreditScore, 'decline',
+    `Credit score is below ${riskRules.minCreditScore}`);
+  threshold('max_debt_to_income', 'Maximum debt-to-income', 'debtToIncome', 'gt', riskRules.maxDebtToIncome, 'decline',
+    `Debt-to-income exceeds ${riskRules.maxDebtToIncome}%`);
+  threshold('min_collateral_coverage', 'Minimum collateral coverage', 'collateralCoverage', 'lt',
+    riskRules.minCollateralCoverage, 'decline', `Collateral covers less than ${riskRules.minCollateralCoverage}% of the loan`);
+  threshold('max_loan_to_value', 'Maximum loan-to-value', 'loanToValue', 'gt', riskRules.maxLoanToValue, 'decline',
+    `Loan-to-value exceeds ${riskRules.maxLoanToValue}%`);
+  threshold('required_guarantors', 'Required guarantors', 'guarantorCount', 'lt', riskRules.requiredGuarantors, 'refer',
+    `Fewer than ${riskRules.requiredGuarantors} guarantor(s)`);
+  threshold('max_default_history', 'Maximum default history', 'pastDefaults', 'gt', riskRules.maxDefaultHistory, 'decline',
+    `More than ${riskRules.maxDefaultHistory} past default(s)`);
+  threshold('min_business_age', 'Minimum business age', 'businessAgeMonths', 'lt', riskRules.minBusinessAge, 'refer',
+    `Business is younger than ${riskRules.minBusinessAge} months`);
+  threshold('min_monthly_income', 'Minimum monthly income', 'monthlyIncome', 'lt', riskRules.minMonthlyIncome, 'decline',
+    `Monthly income is below ${riskRules.minMonthlyIncome}`);
+
+  return rules;
+}
+
+/**
+ * Check a single condition against the application's facts
+ */
+export function evaluateCondition(condition: DecisionCondition, facts: Record<string, unknown>): boolean {
+  const actual = facts[condition.fact];
+  const isMissing = actual === undefined || actual === null || actual === '';
+
+  if (condition.operator === 'missing') return isMissing;
+  if (isMissing) return false; // Missing facts are caught by the matching "missing" rule
+
+  const expected = condition.value;
+  switch (condition.operator) {
+    case 'lt':
+      return Number(actual) < Number(expected);
+    case 'lte':
+      return Number(actual) <= Number(expected);
+    case 'gt':
+      return Number(actual) > Number(expected);
+    case 'gte':
+      return Number(actual) >= Number(expected);
+    case 'eq':
+      return actual === expected || String(actual) === String(expected);
+    case 'neq':
+      return !(actual === expected || String(actual) === String(expected));
+    case 'in':
+      return Array.isArray(expected) && expected.map(String).includes(String(actual));
+    case 'not_in':
+      return Array.isArray(expected) && !expected.map(String).includes(String(actual));
+    default:
+      return false;
+  }
+}
+
+/**
+ * The rules that apply to a loan type: its risk rules, the agency policy and
+ * its custom rules. A custom rule with the id of a policy rule replaces it.
+ */
+export function composeDecisionRules(
+  riskRules?: RiskRules,
+  customRules: DecisionRule[] = [],
+  policyRules: DecisionRule[] = DEFAULT_POLICY_RULES
+): SourcedDecisionRule[] {
+  const customIds = new Set(customRules.map((rule) => rule.id));
+  return [
+    ...buildRiskRuleSet(riskRules).map((rule) => ({ ...rule, source: 'risk_rule' as const })),
+    ...policyRules
+      .filter((rule) => !customIds.has(rule.id))
+      .map((rule) => ({ ...rule, source: 'policy' as const })),
+    ...customRules.map((rule) => ({ ...rule, source: 'custom' as const })),
+  ];
+}
+
+/**
+ * Evaluate an application against a rule set
+ */
+export function evaluateCreditDecision(
+  rules: SourcedDecisionRule[],
+  applicationFacts: CreditApplicationFacts,
+  evaluatedAt: Date = new Date()
+): CreditDecision {
+  const facts = deriveApplicationFacts(applicationFacts);
+  const activeRules = rules.filter((rule) => rule.enabled !== false && rule.conditions.length > 0);
+  const hits: RuleHit[] = [];
+
+  for (const rule of activeRules) {
+    if (!rule.conditions.every((condition) => evaluateCondition(condition, facts))) continue;
+
+    hits.push({
+      ruleId: rule.id,
+      name: rule.name,
+      source: rule.source,
+      outcome: rule.outcome,
+      reason: rule.reason || rule.name,
+      facts: Object.fromEntries(
+        rule.conditions.map((condition) => [condition.fact, facts[condition.fact] ?? null])
+      ),
+    });
+  }
+
+  const outcome = hits.reduce<DecisionOutcome>(
+    (worst, hit) => (OUTCOME_SEVERITY[hit.outcome] > OUTCOME_SEVERITY[worst] ? hit.outcome : worst),
+    'approve'
+  );
+
+  // Keep only plain values so the trace can be stored on the loan
+  const storedFacts = Object.fromEntries(
+    Object.entries(facts).filter(([, value]) => value !== undefined && typeof value !== 'function')
+  );
+
+  return {
+    outcome,
+    hits,
+    rulesEvaluated: activeRules.length,
+    facts: storedFacts,
+    evaluatedAt: evaluatedAt.toISOString(),
+  };
+}
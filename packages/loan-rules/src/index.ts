@@ -7,4 +7,29 @@
 
 export * from './rules';
 export * from './validation';
+export * from './schedule';
+export * from './calendar';
+export * from './late-fees';
 
+export * from './allocation';
+export * from './restructure';
+export * from './settlement';
+export * from './approval-matrix';
+export * from './loan-status';
+export * from './decision-rules';
+export * from './policy-simulation';
+export * from './ledger';
+export * from './accrual';
+export * from './provisioning';
+export * from './write-off';
+export * from './regulatory-returns';
+export * from './portfolio-analytics';
+export * from './period-close';
+export * from './tax';
+export * from './cash-management';
+export * from './collateral-liens';
+export * from './repossession';
+export * from './collateral-valuation';
+export * from './collateral-insurance';
+export * from './price-book';
+export * from './utils';
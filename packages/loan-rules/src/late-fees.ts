@@ -0,0 +1,47 @@
+/**
+ * Late Fee Rules
+ *
+ * Pure late-fee calculation shared by the overdue checks in the
+ * frontend and Cloud Functions
+ */
+
+import { yearFraction, type DayCountConvention } from './calendar';
+
+export interface LateFeeConfig {
+  gracePeriodDays: number; // Days before late fees start
+  lateFeeRate: number; // Percentage of overdue amount per month
+  maxLateFeeRate: number; // Maximum late fee percentage
+  dayCountConvention?: DayCountConvention; // How overdue days convert to months (defaults to 30-day months)
+}
+
+/**
+ * Calculate late fees for an overdue repayment
+ *
+ * When the due date is known the chargeable period is measured with the
+ * agency's day-count convention; otherwise every 30 days count as a month.
+ */
+export function calculateLateFee(
+  overdueAmount: number,
+  daysOverdue: number,
+  config: LateFeeConfig,
+  dueDate?: Date
+): number {
+  if (overdueAmount <= 0 || daysOverdue <= config.gracePeriodDays) {
+    return 0;
+  }
+
+  const effectiveDaysOverdue = daysOverdue - config.gracePeriodDays;
+  let monthsOverdue = effectiveDaysOverdue / 30;
+
+  if (dueDate && config.dayCountConvention) {
+    const chargeFrom = new Date(dueDate);
+    chargeFrom.setDate(chargeFrom.getDate() + config.gracePeriodDays);
+    const chargeTo = new Date(chargeFrom);
+    chargeTo.setDate(chargeTo.getDate() + effectiveDaysOverdue);
+    monthsOverdue = yearFraction(chargeFrom, chargeTo, config.dayCountConvention) * 12;
+  }
+
+  const feeRate = Math.min((config.lateFeeRate / 100) * monthsOverdue, config.maxLateFeeRate / 100);
+
+  return Math.round(overdueAmount * feeRate * 100) / 100;
+}
@@ -0,0 +1,628 @@
+/**
+ * General Ledger
+ *
+ * Double-entry bookkeeping for an agency: the chart of accounts, the journal
+ * entries posted for each loan event, period locking, and the trial balance,
+ * income statement and balance sheet built from the journal.
+ * Used by both frontend and Cloud Functions
+ */
+
+import { roundCurrency } from './utils';
+
+export type AccountType = 'asset' | 'liability' | 'equity' | 'income' | 'expense';
+
+/**
+ * Accounts the automatic postings need. An agency may rename or renumber
+ * them, but every chart must keep one account for each.
+ */
+export type SystemAccountKey =
+  | 'cash'
+  | 'loans_receivable'
+  | 'interest_receivable'
+  | 'penalties_receivable'
+  | 'loan_loss_allowance'
+  | 'customer_credit'
+  | 'share_capital'
+  | 'retained_earnings'
+  | 'interest_income'
+  | 'fee_income'
+  | 'penalty_income'
+  | 'recovery_income'
+  | 'loan_loss_expense';
+
+export interface LedgerAccount {
+  code: string;
+  name: string;
+  type: AccountType;
+  systemKey?: SystemAccountKey;
+  contra?: boolean; // Carries the opposite balance of its type, e.g. the loan loss allowance
+  active?: boolean;
+}
+
+export type SystemAccountCodes = Record<SystemAccountKey, string>;
+
+export type JournalEventType =
+  | 'disbursement'
+  | 'repayment'
+  | 'interest_accrual'
+  | 'late_fee'
+  | 'write_off'
+  | 'recovery'
+  | 'provision'
+  | 'reversal'
+  | 'manual';
+
+export interface JournalLine {
+  accountCode: string;
+  debit: number;
+  credit: number;
+  memo?: string;
+}
+
+/**
+ * A journal entry before it is posted. Dates are ISO calendar dates (YYYY-MM-DD).
+ */
+export interface JournalEntryDraft {
+  eventType: JournalEventType;
+  date: string;
+  memo: string;
+  lines: JournalLine[];
+  loanId?: string;
+  sourceId?: string; // Payment, repayment or entry the posting came from
+  reversesEntryId?: string;
+}
+
+export interface JournalEntry extends JournalEntryDraft {
+  id: string;
+  periodId: string; // YYYY-MM the entry is posted in
+  eventDate: string; // Date of the underlying event; differs from date when its period was locked
+  totalDebit: number;
+  postedBy: string;
+  reversedByEntryId?: string;
+}
+
+export interface AccountBalance {
+  code: string;
+  name: string;
+  type: AccountType;
+  debit: number;
+  credit: number;
+  balance: number; // Signed by the account's normal side
+}
+
+export interface TrialBalance {
+  from?: string;
+  to?: string;
+  rows: AccountBalance[];
+  totalDebit: number;
+  totalCredit: number;
+  balanced: boolean;
+}
+
+export interface IncomeStatement {
+  from: string;
+  to: string;
+  income: AccountBalance[];
+  expenses: AccountBalance[];
+  totalIncome: number;
+  totalExpenses: number;
+  netIncome: number;
+}
+
+export interface BalanceSheet {
+  asOf: string;
+  assets: AccountBalance[];
+  liabilities: AccountBalance[];
+  equity: AccountBalance[];
+  currentEarnings: number; // Income less expenses not yet closed to retained earnings
+  totalAssets: number;
+  totalLiabilities: number;
+  totalEquity: number;
+  balanced: boolean;
+}
+
+export const DEFAULT_CHART_OF_ACCOUNTS: LedgerAccount[] = [
+  { code: '1000', name: 'Cash and Bank', type: 'asset', systemKey: 'cash' },
+  { code: '1100', name: 'Loans Receivable', type: 'asset', systemKey: 'loans_receivable' },
+  { code: '1110', name: 'Interest Receivable', type: 'asset', systemKey: 'interest_receivable' },
+  { code: '1120', name: 'Penalties Receivable', type: 'asset', systemKey: 'penalties_receivable' },
+  { code: '1190', name: 'Loan Loss Allowance', type: 'asset', systemKey: 'loan_loss_allowance', contra: true },
+  { code: '2100', name: 'Customer Credit Balances', type: 'liability', systemKey: 'customer_credit' },
+  { code: '3000', name: 'Share Capital', type: 'equity', systemKey: 'share_capital' },
+  { code: '3100', name: 'Retained Earnings', type: 'equity', systemKey: 'retained_earnings' },
+  { code: '4000', name: 'Interest Income', type: 'income', systemKey: 'interest_income' },
+  { code: '4100', name: 'Fee Income', type: 'income', systemKey: 'fee_income' },
+  { code: '4200', name: 'Penalty Income', type: 'income', systemKey: 'penalty_income' },
+  { code: '4300', name: 'Recoveries on Written-off Loans', type: 'income', systemKey: 'recovery_income' },
+  { code: '5000', name: 'Loan Loss Expense', type: 'expense', systemKey: 'loan_loss_expense' },
+];
+
+const DEBIT_NORMAL_TYPES: AccountType[] = ['asset', 'expense'];
+const BALANCE_TOLERANCE = 0.005;
+
+/**
+ * Whether an account's balance normally sits on the debit side
+ */
+export function isDebitNormal(account: Pick<LedgerAccount, 'type' | 'contra'>): boolean {
+  const debitNormal = DEBIT_NORMAL_TYPES.includes(account.type);
+  return account.contra ? !debitNormal : debitNormal;
+}
+
+/**
+ * The agency's chart with any missing system account restored from the defaults
+ */
+export function resolveChartOfAccounts(stored?: { accounts?: LedgerAccount[] } | null): LedgerAccount[] {
+  const accounts = (stored?.accounts || []).filter((account) => account && account.code);
+  if (accounts.length === 0) return DEFAULT_CHART_OF_ACCOUNTS.map((account) => ({ ...account }));
+
+  const present = new Set(accounts.map((account) => account.systemKey).filter(Boolean));
+  const codes = new Set(accounts.map((account) => account.code));
+  const restored = DEFAULT_CHART_OF_ACCOUNTS
+    .filter((account) => !present.has(account.systemKey) && !codes.has(account.code))
+    .map((account) => ({ ...account }));
+
+  return [...accounts, ...restored].sort((a, b) => a.code.localeCompare(b.code));
+}
+
+/**
+ * Problems that would stop the chart from being used for postings
+ */
+export function validateChartOfAccounts(accounts: LedgerAccount[]): string[] {
+  const errors: string[] = [];
+  const codes = new Set<string>();
+  const systemKeys = new Set<string>();
+
+  for (const account of accounts) {
+    if (!account.code?.trim()) errors.push('Every account needs a code');
+    if (!account.name?.trim()) errors.push(`Account ${account.code} needs a name`);
+    if (codes.has(account.code)) errors.push(`Account code ${account.code} is used more than once`);
+    codes.add(account.code);
+
+    if (account.systemKey) {
+      if (systemKeys.has(account.systemKey)) {
+        errors.push(`More than one account is mapped to ${account.systemKey}`);
+      }
+      if (account.active === false) {
+        errors.push(`Account ${account.code} is used by automatic postings and cannot be deactivated`);
+      }
+      systemKeys.add(account.systemKey);
+    }
+  }
+
+  for (const account of DEFAULT_CHART_OF_ACCOUNTS) {
+    if (!systemKeys.has(account.systemKey!)) {
+      errors.push(`No account is mapped to ${account.systemKey}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Account codes the automatic postings use
+ */
+export function getSystemAccountCodes(accounts: LedgerAccount[]): SystemAccountCodes {
+  const codes = {} as SystemAccountCodes;
+  for (const account of DEFAULT_CHART_OF_ACCOUNTS) {
+    const mapped = accounts.find((candidate) => candidate.systemKey === account.systemKey);
+    codes[account.systemKey!] = mapped?.code || account.code;
+  }
+  return codes;
+}
+
+function debit(accountCode: string, amount: number, memo?: string): JournalLine {
+  return { accountCode, debit: roundCurrency(amount), credit: 0, ...(memo ? { memo } : {}) };
+}
+
+function credit(accountCode: string, amount: number, memo?: string): JournalLine {
+  return { accountCode, debit: 0, credit: roundCurrency(amount), ...(memo ? { memo } : {}) };
+}
+
+// Balancing lines take the sum of the rounded lines so the entry always balances to the cent
+function sumCredits(lines: JournalLine[]): number {
+  return lines.reduce((sum, line) => sum + line.credit, 0);
+}
+
+function withoutZeroLines(lines: JournalLine[]): JournalLine[] {
+  return lines.filter((line) => line.debit > 0 || line.credit > 0);
+}
+
+/**
+ * ISO calendar date (UTC) of a date
+ */
+export function toLedgerDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Accounting period (YYYY-MM) a ledger date falls in
+ */
+export function getPeriodId(date: string | Date): string {
+  const ledgerDate = typeof date === 'string' ? date : toLedgerDate(date);
+  return ledgerDate.slice(0, 7);
+}
+
+/**
+ * Whether a period is closed to postings. Periods up to and including
+ * lockedThrough are locked.
+ */
+export function isPeriodLocked(periodId: string, lockedThrough?: string | null): boolean {
+  return !!lockedThrough && periodId <= lockedThrough;
+}
+
+/**
+ * First day of the first period after the locked ones
+ */
+export function getFirstOpenDate(lockedThrough: string): string {
+  const [year, month] = lockedThrough.split('-').map(Number);
+  const next = new Date(Date.UTC(year, month, 1));
+  return toLedgerDate(next);
+}
+
+/**
+ * The date an automatic posting is booked on: its event date, or the first
+ * open day when the event falls in a locked period
+ */
+export function resolvePostingDate(eventDate: string, lockedThrough?: string | null): string {
+  if (!isPeriodLocked(getPeriodId(eventDate), lockedThrough)) return eventDate;
+  return getFirstOpenDate(lockedThrough!);
+}
+
+/**
+ * Check an entry against the chart before it is posted
+ */
+export function validateJournalEntry(entry: JournalEntryDraft, accounts: LedgerAccount[]): string[] {
+  const errors: string[] = [];
+  const byCode = new Map(accounts.map((account) => [account.code, account]));
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(entry.date)) {
+    errors.push('Entry date must be a calendar date (YYYY-MM-DD)');
+  }
+  if (entry.lines.length < 2) {
+    errors.push('An entry needs at least two lines');
+  }
+
+  for (const line of entry.lines) {
+    const account = byCode.get(line.accountCode);
+    if (!account) {
+      errors.push(`Unknown account ${line.accountCode}`);
+    } else if (account.active === false) {
+      errors.push(`Account ${line.accountCode} is inactive`);
+    }
+    if (line.debit < 0 || line.credit < 0) {
+      errors.push(`Line on ${line.accountCode} has a negative amount`);
+    }
+    if (line.debit > 0 && line.credit > 0) {
+      errors.push(`Line on ${line.accountCode} has both a debit and a credit`);
+    }
+    if (!(line.debit > 0) && !(line.credit > 0)) {
+      errors.push(`Line on ${line.accountCode} has no amount`);
+    }
+  }
+
+  const totalDebit = entry.lines.reduce((sum, line) => sum + line.debit, 0);
+  const totalCredit = entry.lines.reduce((sum, line) => sum + line.credit, 0);
+  if (Math.abs(totalDebit - totalCredit) > BALANCE_TOLERANCE) {
+    errors.push(`Entry does not balance: debits ${roundCurrency(totalDebit)}, credits ${roundCurrency(totalCredit)}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Loan paid out to the customer
+ */
+export function buildDisbursementEntry(
+  codes: SystemAccountCodes,
+  input: { loanId: string; amount: number; date: string }
+): JournalEntryDraft {
+  return {
+    eventType: 'disbursement',
+    date: input.date,
+    memo: `Disbursement of loan ${input.loanId}`,
+    loanId: input.loanId,
+    lines: withoutZeroLines([
+      debit(codes.loans_receivable, input.amount),
+      credit(codes.cash, input.amount),
+    ]),
+  };
+}
+
+/**
+ * Payment received, split the way it was allocated. Anything the schedule
+ * could not absorb is held as customer credit.
+ */
+export function buildRepaymentEntry(
+  codes: SystemAccountCodes,
+  input: {
+    loanId: string;
+    paymentId: string;
+    date: string;
+    allocation: { fees?: number; penalties?: number; interest?: number; principal?: number };
+    creditAmount?: number;
+  }
+): JournalEntryDraft {
+  const fees = Number(input.allocation.fees || 0);
+  const penalties = Number(input.allocation.penalties || 0);
+  const interest = Number(input.allocation.interest || 0);
+  const principal = Number(input.allocation.principal || 0);
+  const creditAmount = Number(input.creditAmount || 0);
+  const credits = [
+    credit(codes.loans_receivable, principal, 'Principal'),
+    credit(codes.interest_receivable, interest, 'Interest'),
+    credit(codes.penalties_receivable, penalties, 'Penalties'),
+    credit(codes.fee_income, fees, 'Fees'),
+    credit(codes.customer_credit, creditAmount, 'Overpayment held as credit'),
+  ];
+
+  return {
+    eventType: 'repayment',
+    date: input.date,
+    memo: `Repayment on loan ${input.loanId}`,
+    loanId: input.loanId,
+    sourceId: input.paymentId,
+    lines: withoutZeroLines([debit(codes.cash, sumCredits(credits)), ...credits]),
+  };
+}
+
+/**
+ * Interest earned on a loan
+ */
+export function buildInterestAccrualEntry(
+  codes: SystemAccountCodes,
+  input: { loanId: string; amount: number; date: string }
+): JournalEntryDraft {
+  return {
+    eventType: 'interest_accrual',
+    date: input.date,
+    memo: `Interest accrued on loan ${input.loanId}`,
+    loanId: input.loanId,
+    lines: withoutZeroLines([
+      debit(codes.interest_receivable, input.amount),
+      credit(codes.interest_income, input.amount),
+    ]),
+  };
+}
+
+/**
+ * Late fee charged on an overdue installment. A negative amount books a reduction.
+ */
+export function buildLateFeeEntry(
+  codes: SystemAccountCodes,
+  input: { loanId: string; repaymentId: string; amount: number; date: string }
+): JournalEntryDraft {
+  const amount = Math.abs(input.amount);
+  const lines = input.amount >= 0
+    ? [debit(codes.penalties_receivable, amount), credit(codes.penalty_income, amount)]
+    : [debit(codes.penalty_income, amount), credit(codes.penalties_receivable, amount)];
+
+  return {
+    eventType: 'late_fee',
+    date: input.date,
+    memo: input.amount >= 0
+      ? `Late fee on loan ${input.loanId}`
+      : `Late fee reduced on loan ${input.loanId}`,
+    loanId: input.loanId,
+    sourceId: input.repaymentId,
+    lines: withoutZeroLines(lines),
+  };
+}
+
+/**
+ * Balances written off a loan as a loss
+ */
+export function buildWriteOffEntry(
+  codes: SystemAccountCodes,
+  input: { loanId: string; date: string; principal: number; interest?: number; penalties?: number }
+): JournalEntryDraft {
+  const credits = [
+    credit(codes.loans_receivable, input.principal, 'Principal'),
+    credit(codes.interest_receivable, Number(input.interest || 0), 'Interest'),
+    credit(codes.penalties_receivable, Number(input.penalties || 0), 'Penalties'),
+  ];
+
+  return {
+    eventType: 'write_off',
+    date: input.date,
+    memo: `Write-off of loan ${input.loanId}`,
+    loanId: input.loanId,
+    lines: withoutZeroLines([debit(codes.loan_loss_expense, sumCredits(credits)), ...credits]),
+  };
+}
+
+/**
+ * Cash recovered on a loan already written off
+ */
+export function buildRecoveryEntry(
+  codes: SystemAccountCodes,
+  input: { loanId: string; recoveryId: string; date: string; amount: number }
+): JournalEntryDraft {
+  return {
+    eventType: 'recovery',
+    date: input.date,
+    memo: `Recovery on written-off loan ${input.loanId}`,
+    loanId: input.loanId,
+    sourceId: input.recoveryId,
+    lines: withoutZeroLines([
+      debit(codes.cash, input.amount),
+      credit(codes.recovery_income, input.amount),
+    ]),
+  };
+}
+
+/**
+ * Month-end movement in the loan loss allowance. A positive charge builds the
+ * allowance through loan loss expense; a negative one releases it.
+ */
+export function buildProvisionEntry(
+  codes: SystemAccountCodes,
+  input: { periodId: string; date: string; charge: number }
+): JournalEntryDraft {
+  const amount = Math.abs(input.charge);
+  const lines = input.charge >= 0
+    ? [debit(codes.loan_loss_expense, amount), credit(codes.loan_loss_allowance, amount)]
+    : [debit(codes.loan_loss_allowance, amount), credit(codes.loan_loss_expense, amount)];
+
+  return {
+    eventType: 'provision',
+    date: input.date,
+    memo: `${input.charge >= 0 ? 'Loan loss provision' : 'Loan loss provision release'} for ${input.periodId}`,
+    sourceId: input.periodId,
+    lines: withoutZeroLines(lines),
+  };
+}
+
+/**
+ * Entry that cancels a posted entry by swapping its debits and credits
+ */
+export function buildReversalEntry(
+  entry: Pick<JournalEntry, 'id' | 'lines' | 'memo' | 'loanId'>,
+  date: string,
+  reason?: string
+): JournalEntryDraft {
+  return {
+    eventType: 'reversal',
+    date,
+    memo: reason ? `Reversal of ${entry.memo}: ${reason}` : `Reversal of ${entry.memo}`,
+    ...(entry.loanId ? { loanId: entry.loanId } : {}),
+    sourceId: entry.id,
+    reversesEntryId: entry.id,
+    lines: entry.lines.map((line) => ({
+      accountCode: line.accountCode,
+      debit: line.credit,
+      credit: line.debit,
+      ...(line.memo ? { memo: line.memo } : {}),
+    })),
+  };
+}
+
+function summariseAccounts(
+  accounts: LedgerAccount[],
+  entries: Pick<JournalEntry, 'date' | 'lines'>[],
+  filter: (date: string) => boolean
+): AccountBalance[] {
+  const totals = new Map<string, { debit: number; credit: number }>();
+  for (const entry of entries) {
+    if (!filter(entry.date)) continue;
+    for (const line of entry.lines) {
+      const total = totals.get(line.accountCode) || { debit: 0, credit: 0 };
+      total.debit += Number(line.debit || 0);
+      total.credit += Number(line.credit || 0);
+      totals.set(line.accountCode, total);
+    }
+  }
+
+  const known = new Set(accounts.map((account) => account.code));
+  // Entries posted to an account later removed from the chart still have to show up
+  const orphaned: LedgerAccount[] = [...totals.keys()]
+    .filter((code) => !known.has(code))
+    .map((code) => ({ code, name: `Unknown account ${code}`, type: 'asset' }));
+
+  return [...accounts, ...orphaned]
+    .map((account) => {
+      const total = totals.get(account.code) || { debit: 0, credit: 0 };
+      const net = total.debit - total.credit;
+      return {
+        code: account.code,
+        name: account.name,
+        type: account.type,
+        debit: roundCurrency(total.debit),
+        credit: roundCurrency(total.credit),
+        balance: roundCurrency(isDebitNormal(account) ? net : -net),
+      };
+    })
+    .sort((a, b) => a.code.localeCompare(b.code));
+}
+
+/**
+ * Debit and credit totals per account. Dates are inclusive.
+ */
+export function computeTrialBalance(
+  accounts: LedgerAccount[],
+  entries: Pick<JournalEntry, 'date' | 'lines'>[],
+  range: { from?: string; to?: string } = {}
+): TrialBalance {
+  const rows = summariseAccounts(accounts, entries, (date) =>
+    (!range.from || date >= range.from) && (!range.to || date <= range.to)
+  ).filter((row) => row.debit !== 0 || row.credit !== 0);
+
+  const totalDebit = roundCurrency(rows.reduce((sum, row) => sum + row.debit, 0));
+  const totalCredit = roundCurrency(rows.reduce((sum, row) => sum + row.credit, 0));
+
+  return {
+    ...range,
+    rows,
+    totalDebit,
+    totalCredit,
+    balanced: Math.abs(totalDebit - totalCredit) <= BALANCE_TOLERANCE,
+  };
+}
+
+/**
+ * Income and expenses between two dates (inclusive)
+ */
+export function buildIncomeStatement(
+  accounts: LedgerAccount[],
+  entries: Pick<JournalEntry, 'date' | 'lines'>[],
+  from: string,
+  to: string
+): IncomeStatement {
+  const rows = summariseAccounts(accounts, entries, (date) => date >= from && date <= to);
+  const income = rows.filter((row) => row.type === 'income');
+  const expenses = rows.filter((row) => row.type === 'expense');
+  const totalIncome = roundCurrency(income.reduce((sum, row) => sum + row.balance, 0));
+  const totalExpenses = roundCurrency(expenses.reduce((sum, row) => sum + row.balance, 0));
+
+  return {
+    from,
+    to,
+    income,
+    expenses,
+    totalIncome,
+    totalExpenses,
+    netIncome: roundCurrency(totalIncome - totalExpenses),
+  };
+}
+
+/**
+ * Assets, liabilities and equity at the end of a date
+ */
+export function buildBalanceSheet(
+  accounts: LedgerAccount[],
+  entries: Pick<JournalEntry, 'date' | 'lines'>[],
+  asOf: string
+): BalanceSheet {
+  const rows = summariseAccounts(accounts, entries, (date) => date <= asOf);
+  const assets = rows.filter((row) => row.type === 'asset');
+  const liabilities = rows.filter((row) => row.type === 'liability');
+  const equity = rows.filter((row) => row.type === 'equity');
+
+  const currentEarnings = roundCurrency(
+    rows.filter((row) => row.type === 'income').reduce((sum, row) => sum + row.balance, 0) -
+    rows.filter((row) => row.type === 'expense').reduce((sum, row) => sum + row.balance, 0)
+  );
+
+  // Contra accounts carry a credit balance and reduce their section
+  const sectionTotal = (section: AccountBalance[]) => roundCurrency(
+    section.reduce((sum, row) => {
+      const account = accounts.find((candidate) => candidate.code === row.code);
+      return sum + (account?.contra ? -row.balance : row.balance);
+    }, 0)
+  );
+
+  const totalAssets = sectionTotal(assets);
+  const totalLiabilities = sectionTotal(liabilities);
+  const totalEquity = roundCurrency(sectionTotal(equity) + currentEarnings);
+
+  return {
+    asOf,
+    assets,
+    liabilities,
+    equity,
+    currentEarnings,
+    totalAssets,
+    totalLiabilities,
+    totalEquity,
+    balanced: Math.abs(totalAssets - totalLiabilities - totalEquity) <= BALANCE_TOLERANCE,
+  };
+}
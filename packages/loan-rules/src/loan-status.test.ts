@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { canTransitionStatus, isOverrideTransition, LoanStatus, UserRole } from './loan-status';
+
+describe('canTransitionStatus', () => {
+  it('lets every role follow the workflow', () => {
+    expect(canTransitionStatus(LoanStatus.DRAFT, LoanStatus.PENDING, UserRole.LOAN_OFFICER)).toBe(true);
+    expect(canTransitionStatus(LoanStatus.APPROVED, LoanStatus.DISBURSED, UserRole.LOAN_OFFICER)).toBe(true);
+    expect(canTransitionStatus(LoanStatus.RESTRUCTURING, LoanStatus.RESTRUCTURED, UserRole.COLLECTIONS)).toBe(true);
+  });
+
+  it('keeps other roles to the workflow', () => {
+    expect(canTransitionStatus(LoanStatus.PENDING, LoanStatus.DISBURSED, UserRole.LOAN_OFFICER)).toBe(false);
+    expect(canTransitionStatus(LoanStatus.REJECTED, LoanStatus.PENDING, UserRole.ACCOUNTANT)).toBe(false);
+  });
+
+  it('lets admins and managers override the workflow', () => {
+    expect(isOverrideTransition(LoanStatus.REJECTED, LoanStatus.PENDING)).toBe(true);
+    expect(canTransitionStatus(LoanStatus.REJECTED, LoanStatus.PENDING, UserRole.ADMIN)).toBe(true);
+    expect(canTransitionStatus(LoanStatus.APPROVED, LoanStatus.PENDING, UserRole.MANAGER)).toBe(true);
+  });
+
+  it('never reopens a written-off or closed loan', () => {
+    for (const role of [UserRole.ADMIN, UserRole.MANAGER]) {
+      expect(canTransitionStatus(LoanStatus.WRITTEN_OFF, LoanStatus.ACTIVE, role)).toBe(false);
+      expect(canTransitionStatus(LoanStatus.CLOSED, LoanStatus.ACTIVE, role)).toBe(false);
+      expect(canTransitionStatus(LoanStatus.CLOSED, LoanStatus.OVERDUE, role)).toBe(false);
+    }
+  });
+
+  it('only restructures a loan through its restructure request', () => {
+    expect(canTransitionStatus(LoanStatus.ACTIVE, LoanStatus.RESTRUCTURED, UserRole.ADMIN)).toBe(false);
+    expect(canTransitionStatus(LoanStatus.OVERDUE, LoanStatus.RESTRUCTURED, UserRole.MANAGER)).toBe(false);
+    expect(canTransitionStatus(LoanStatus.ACTIVE, LoanStatus.RESTRUCTURING, UserRole.ADMIN)).toBe(true);
+  });
+});
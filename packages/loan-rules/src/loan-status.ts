@@ -0,0 +1,368 @@
+/**
+ * Loan Status State Machine
+ *
+ * Status lifecycle, allowed transitions and role permissions for loans.
+ * Used by both frontend and Cloud Functions
+ */
+
+/**
+ * Loan Status Lifecycle
+ * Draft → Pending → Under Review → Approved → Disbursed → Active → Closed
+ *                                    ↓                      ↓  ↑
+ *                                 Rejected        Restructuring → Restructured
+ *
+ * Overdue, restructured and defaulted loans can be written off once a write-off
+ * request is approved; recoveries are then recorded against the written-off loan.
+ */
+export enum LoanStatus {
+  DRAFT = 'draft',
+  PENDING = 'pending',
+  UNDER_REVIEW = 'under_review',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+  DISBURSED = 'disbursed',
+  ACTIVE = 'active',
+  OVERDUE = 'overdue',
+  RESTRUCTURING = 'restructuring', // Restructure requested, awaiting approval
+  RESTRUCTURED = 'restructured', // Repaying on a restructured schedule
+  DEFAULTED = 'defaulted', // Set from the repayment schedule once arrears pass the default threshold
+  WRITTEN_OFF = 'written_off', // Balance taken off the active portfolio as a loss, still tracked for recoveries
+  CLOSED = 'closed',
+}
+
+/**
+ * User Roles in the system
+ */
+export enum UserRole {
+  ADMIN = 'admin',
+  LOAN_OFFICER = 'loan_officer',
+  ACCOUNTANT = 'accountant',
+  MANAGER = 'manager',
+  COLLECTIONS = 'collections',
+  UNDERWRITER = 'underwriter',
+  CUSTOMER = 'customer',
+}
+
+/**
+ * Status Transition Rules
+ */
+export const STATUS_TRANSITIONS: Record<LoanStatus, LoanStatus[]> = {
+  [LoanStatus.DRAFT]: [LoanStatus.PENDING],
+  [LoanStatus.PENDING]: [LoanStatus.APPROVED, LoanStatus.REJECTED, LoanStatus.DRAFT], // Simplified: pending → approved/rejected directly
+  [LoanStatus.UNDER_REVIEW]: [LoanStatus.APPROVED, LoanStatus.REJECTED, LoanStatus.PENDING], // Can go back to pending
+  [LoanStatus.APPROVED]: [LoanStatus.DISBURSED, LoanStatus.REJECTED], // Can be rejected even after approval
+  [LoanStatus.REJECTED]: [], // Terminal state (unless admin override)
+  [LoanStatus.DISBURSED]: [LoanStatus.ACTIVE],
+  [LoanStatus.ACTIVE]: [LoanStatus.OVERDUE, LoanStatus.RESTRUCTURING, LoanStatus.CLOSED],
+  [LoanStatus.OVERDUE]: [LoanStatus.ACTIVE, LoanStatus.RESTRUCTURING, LoanStatus.WRITTEN_OFF, LoanStatus.CLOSED],
+  [LoanStatus.RESTRUCTURING]: [LoanStatus.RESTRUCTURED, LoanStatus.ACTIVE, LoanStatus.OVERDUE, LoanStatus.DEFAULTED], // Approved, or rejected back to where it was
+  [LoanStatus.RESTRUCTURED]: [LoanStatus.OVERDUE, LoanStatus.RESTRUCTURING, LoanStatus.WRITTEN_OFF, LoanStatus.CLOSED],
+  [LoanStatus.DEFAULTED]: [LoanStatus.RESTRUCTURING, LoanStatus.WRITTEN_OFF, LoanStatus.CLOSED],
+  [LoanStatus.WRITTEN_OFF]: [], // Terminal state; recoveries do not reopen the loan
+  [LoanStatus.CLOSED]: [], // Terminal state
+};
+
+// Statuses a loan can be written off from
+export const WRITE_OFF_STATUSES: LoanStatus[] = [LoanStatus.OVERDUE, LoanStatus.RESTRUCTURED, LoanStatus.DEFAULTED];
+
+// Statuses an override can only move a loan into once its approvals are complete
+export const APPROVAL_GATED_STATUSES: LoanStatus[] = [LoanStatus.APPROVED, LoanStatus.DISBURSED, LoanStatus.ACTIVE];
+
+// Finished loans an override cannot reopen: their balances are off the books or paid
+const FINAL_STATUSES: LoanStatus[] = [LoanStatus.WRITTEN_OFF, LoanStatus.CLOSED];
+
+/**
+ * Permission Matrix
+ * Defines what each role can do with loans in different statuses
+ */
+export interface LoanPermission {
+  canView: boolean;
+  canEdit: boolean;
+  canSubmit: boolean;
+  canApprove: boolean;
+  canReject: boolean;
+  canDisburse: boolean;
+  canManageRepayments: boolean;
+  canClose: boolean;
+  canRestructure: boolean; // Request a restructure of a distressed loan
+  canRequestWriteOff: boolean;
+  canWriteOff: boolean; // Approve a write-off request
+  canOverride: boolean; // Admin override any status
+}
+
+/**
+ * Get permissions for a role and loan status
+ */
+export function getLoanPermissions(
+  role: UserRole,
+  loanStatus: LoanStatus,
+  isLoanOwner: boolean = false
+): LoanPermission {
+  const isAdmin = role === UserRole.ADMIN || role === UserRole.MANAGER;
+  const isAccountant = role === UserRole.ACCOUNTANT;
+  const isLoanOfficer = role === UserRole.LOAN_OFFICER;
+
+  // Admin/Manager has full access
+  if (isAdmin) {
+    return {
+      canView: true,
+      canEdit: true,
+      canSubmit: true,
+      canApprove: true,
+      canReject: true,
+      canDisburse: true,
+      canManageRepayments: true,
+      canClose: true,
+      canRestructure: true,
+      canRequestWriteOff: WRITE_OFF_STATUSES.includes(loanStatus),
+      canWriteOff: WRITE_OFF_STATUSES.includes(loanStatus),
+      canOverride: true,
+    };
+  }
+
+  // Accountant permissions
+  if (isAccountant) {
+    return {
+      canView: [LoanStatus.PENDING, LoanStatus.UNDER_REVIEW, LoanStatus.APPROVED, LoanStatus.DISBURSED, LoanStatus.ACTIVE, LoanStatus.OVERDUE, LoanStatus.DEFAULTED, LoanStatus.WRITTEN_OFF].includes(loanStatus),
+      canEdit: false, // Accountants don't edit loan details
+      canSubmit: false,
+      canApprove: [LoanStatus.PENDING, LoanStatus.UNDER_REVIEW, LoanStatus.APPROVED].includes(loanStatus),
+      canReject: [LoanStatus.PENDING, LoanStatus.UNDER_REVIEW].includes(loanStatus),
+      canDisburse: false, // Accountants cannot disburse
+      canManageRepayments: [LoanStatus.APPROVED, LoanStatus.DISBURSED, LoanStatus.ACTIVE, LoanStatus.OVERDUE, LoanStatus.DEFAULTED].includes(loanStatus),
+      canClose: false,
+      canRestructure: false,
+      canRequestWriteOff: WRITE_OFF_STATUSES.includes(loanStatus),
+      canWriteOff: false,
+      canOverride: false,
+    };
+  }
+
+  // Collections permissions
+  if (role === UserRole.COLLECTIONS) {
+    const isRepaying = [LoanStatus.ACTIVE, LoanStatus.OVERDUE, LoanStatus.RESTRUCTURED, LoanStatus.DEFAULTED].includes(loanStatus);
+    return {
+      canView: isRepaying || loanStatus === LoanStatus.RESTRUCTURING || loanStatus === LoanStatus.WRITTEN_OFF,
+      canEdit: false,
+      canSubmit: false,
+      canApprove: false,
+      canReject: false,
+      canDisburse: false,
+      canManageRepayments: isRepaying,
+      canClose: false,
+      canRestructure: isRepaying,
+      canRequestWriteOff: WRITE_OFF_STATUSES.includes(loanStatus),
+      canWriteOff: false,
+      canOverride: false,
+    };
+  }
+
+  // Underwriter permissions
+  if (role === UserRole.UNDERWRITER) {
+    const isUnderConsideration = [LoanStatus.PENDING, LoanStatus.UNDER_REVIEW].includes(loanStatus);
+    return {
+      canView: true,
+      canEdit: false,
+      canSubmit: false,
+      canApprove: isUnderConsideration,
+      canReject: isUnderConsideration,
+      canDisburse: false,
+      canManageRepayments: false,
+      canClose: false,
+      canRestructure: false,
+      canRequestWriteOff: false,
+      canWriteOff: false,
+      canOverride: false,
+    };
+  }
+
+  // Loan Officer permissions
+  if (isLoanOfficer) {
+    const canOnlyEditDraft = loanStatus === LoanStatus.DRAFT;
+    return {
+      canView: true,
+      canEdit: canOnlyEditDraft && isLoanOwner,
+      canSubmit: canOnlyEditDraft && isLoanOwner,
+      // Officers can co-sign small loans they did not originate, per the approval matrix
+      canApprove: [LoanStatus.PENDING, LoanStatus.UNDER_REVIEW].includes(loanStatus) && !isLoanOwner,
+      canReject: false,
+      canDisburse: false,
+      canManageRepayments: false,
+      canClose: false,
+      canRestructure: false,
+      canRequestWriteOff: false,
+      canWriteOff: false,
+      canOverride: false,
+    };
+  }
+
+  // Default: no permissions
+  return {
+    canView: false,
+    canEdit: false,
+    canSubmit: false,
+    canApprove: false,
+    canReject: false,
+    canDisburse: false,
+    canManageRepayments: false,
+    canClose: false,
+    canRestructure: false,
+    canRequestWriteOff: false,
+    canWriteOff: false,
+    canOverride: false,
+  };
+}
+
+/**
+ * Check if a status transition is allowed
+ */
+export function canTransitionStatus(
+  fromStatus: LoanStatus,
+  toStatus: LoanStatus,
+  role: UserRole
+): boolean {
+  // Check if transition is in allowed list
+  const allowedTransitions = STATUS_TRANSITIONS[fromStatus] || [];
+  if (allowedTransitions.includes(toStatus)) {
+    return true;
+  }
+
+  // Admin and manager can override any other transition, except out of a finished loan
+  // or into restructured, which needs an approved restructure request and its new schedule
+  if (role === UserRole.ADMIN || role === UserRole.MANAGER) {
+    return !FINAL_STATUSES.includes(fromStatus) && toStatus !== LoanStatus.RESTRUCTURED;
+  }
+  return false;
+}
+
+/**
+ * Whether a transition is outside the workflow, so only an admin or manager override allows it
+ */
+export function isOverrideTransition(fromStatus: LoanStatus, toStatus: LoanStatus): boolean {
+  return !(STATUS_TRANSITIONS[fromStatus] || []).includes(toStatus);
+}
+
+/**
+ * Actions a user can take on a loan
+ */
+export type LoanAction = 'edit' | 'submit' | 'approve' | 'reject' | 'disburse' | 'manage_repayments' | 'close' | 'restructure' | 'write_off';
+
+/**
+ * The action a status transition amounts to, for permission checks
+ */
+export function getTransitionAction(fromStatus: LoanStatus, toStatus: LoanStatus): LoanAction {
+  if (fromStatus === LoanStatus.RESTRUCTURING) {
+    // Deciding on a restructure request
+    return toStatus === LoanStatus.RESTRUCTURED ? 'approve' : 'reject';
+  }
+
+  switch (toStatus) {
+    case LoanStatus.APPROVED:
+      return 'approve';
+    case LoanStatus.REJECTED:
+      return 'reject';
+    case LoanStatus.DISBURSED:
+      return 'disburse';
+    case LoanStatus.CLOSED:
+      return 'close';
+    case LoanStatus.RESTRUCTURING:
+      return 'restructure';
+    case LoanStatus.WRITTEN_OFF:
+      return 'write_off';
+    case LoanStatus.ACTIVE:
+      // Activation completes a disbursement; otherwise the loan is back in good standing
+      return fromStatus === LoanStatus.DISBURSED ? 'disburse' : 'manage_repayments';
+    case LoanStatus.OVERDUE:
+      return 'manage_repayments';
+    default:
+      return 'submit';
+  }
+}
+
+/**
+ * Check if user can perform action on loan
+ */
+export function canPerformAction(
+  action: LoanAction,
+  role: UserRole,
+  loanStatus: LoanStatus,
+  isLoanOwner: boolean = false
+): boolean {
+  const permissions = getLoanPermissions(role, loanStatus, isLoanOwner);
+
+  switch (action) {
+    case 'edit':
+      return permissions.canEdit;
+    case 'submit':
+      return permissions.canSubmit;
+    case 'approve':
+      return permissions.canApprove;
+    case 'reject':
+      return permissions.canReject;
+    case 'disburse':
+      return permissions.canDisburse;
+    case 'manage_repayments':
+      return permissions.canManageRepayments;
+    case 'close':
+      return permissions.canClose;
+    case 'restructure':
+      return permissions.canRestructure;
+    case 'write_off':
+      return permissions.canWriteOff;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Get next valid statuses for a loan
+ */
+export function getNextValidStatuses(
+  currentStatus: LoanStatus,
+  role: UserRole
+): LoanStatus[] {
+  const isAdmin = role === UserRole.ADMIN || role === UserRole.MANAGER;
+  
+  if (isAdmin) {
+    // Admin can transition to any status, except those with their own workflow
+    return Object.values(LoanStatus).filter(
+      (status) => status !== LoanStatus.DEFAULTED && status !== LoanStatus.WRITTEN_OFF
+    );
+  }
+
+  const allowedTransitions = STATUS_TRANSITIONS[currentStatus] || [];
+  
+  // Filter based on role permissions
+  return allowedTransitions.filter((status) => {
+    if (role === UserRole.ACCOUNTANT) {
+      // Accountant can move: pending → under_review → approved/rejected
+      if (currentStatus === LoanStatus.PENDING) {
+        return status === LoanStatus.UNDER_REVIEW;
+      }
+      if (currentStatus === LoanStatus.UNDER_REVIEW) {
+        return status === LoanStatus.APPROVED || status === LoanStatus.REJECTED;
+      }
+      return false;
+    }
+    
+    if (role === UserRole.LOAN_OFFICER) {
+      // Loan officer can submit drafts and co-sign approvals: draft → pending, pending → approved
+      if (currentStatus === LoanStatus.DRAFT) {
+        return status === LoanStatus.PENDING;
+      }
+      return (currentStatus === LoanStatus.PENDING || currentStatus === LoanStatus.UNDER_REVIEW) && status === LoanStatus.APPROVED;
+    }
+
+    if (role === UserRole.UNDERWRITER) {
+      return status === LoanStatus.APPROVED || status === LoanStatus.REJECTED;
+    }
+
+    if (role === UserRole.COLLECTIONS) {
+      // Collections staff can only offer restructures; approval sits with managers
+      return status === LoanStatus.RESTRUCTURING;
+    }
+
+    return true;
+  });
+}
+
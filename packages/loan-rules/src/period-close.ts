@@ -0,0 +1,281 @@
+/**
+ * Period-end Close
+ *
+ * The checks a month must pass before it is closed, the balances frozen for
+ * each loan when it closes, and what happens to transactions dated inside a
+ * closed month: blocked outright, or held for approval and then booked in
+ * the first open period.
+ * Used by both frontend and Cloud Functions
+ */
+
+import {
+  getOutstandingComponents,
+  type ComponentAmounts,
+  type AllocationInstallment,
+} from './allocation';
+import { getFirstOpenDate, isPeriodLocked, getPeriodId, toLedgerDate } from './ledger';
+import { classifyExposure, getDaysPastDue, type BozClassification, type ProvisioningConfig } from './provisioning';
+import { roundCurrency } from './utils';
+
+export type BackdatingPolicy = 'block' | 'approval';
+
+export interface PeriodCloseConfig {
+  backdatingPolicy: BackdatingPolicy; // What happens to transactions dated in a closed period
+}
+
+export const DEFAULT_PERIOD_CLOSE_CONFIG: PeriodCloseConfig = {
+  backdatingPolicy: 'approval',
+};
+
+export type BackdatingRule = 'open' | 'blocked' | 'approval_required';
+
+export type PeriodCloseCheckId = 'accruals' | 'provisioning' | 'portfolio_snapshot' | 'trial_balance' | 'backdated_requests';
+
+export interface PeriodCloseCheck {
+  id: PeriodCloseCheckId;
+  label: string;
+  passed: boolean;
+  detail: string;
+}
+
+export const PERIOD_CLOSE_CHECK_LABELS: Record<PeriodCloseCheckId, string> = {
+  accruals: 'Interest accrued through the period end',
+  provisioning: 'Provisioning run for the period',
+  portfolio_snapshot: 'Portfolio snapshot taken at the period end',
+  trial_balance: 'Trial balance balances',
+  backdated_requests: 'No backdated transactions awaiting approval',
+};
+
+/**
+ * Part of a payment dated after the period end, on the installment it was
+ * applied to (none for payments recorded without installment lines)
+ */
+export interface PaidAfterPeriodEnd extends ComponentAmounts {
+  repaymentId?: string;
+}
+
+/**
+ * A loan as the close reads it: its schedule today and the payments
+ * dated after the period end, which are rewound
+ */
+export interface PeriodLoanInput {
+  loanId: string;
+  customerId?: string;
+  status: string;
+  loanType?: string;
+  branchId?: string;
+  officerId?: string;
+  economicSector?: string;
+  annualRate: number;
+  disbursedAmount: number;
+  disbursedOn: Date;
+  restructured: boolean;
+  writtenOffOn?: string; // YYYY-MM-DD
+  installments: AllocationInstallment[];
+  paidAfterPeriodEnd: PaidAfterPeriodEnd[];
+}
+
+/**
+ * One loan's balances frozen at a period end
+ */
+export interface PeriodLoanBalance {
+  loanId: string;
+  customerId: string;
+  status: string; // Status at the period end
+  onBook: boolean;
+  loanType?: string;
+  branchId?: string;
+  officerId?: string;
+  economicSector?: string;
+  annualRate: number;
+  disbursedAmount: number;
+  disbursedOn: string;
+  restructured: boolean;
+  principalOutstanding: number;
+  interestOutstanding: number; // Interest, fees and penalties are those of installments already due
+  feesOutstanding: number;
+  penaltiesOutstanding: number;
+  daysPastDue: number;
+  classification: BozClassification;
+  scheduledPayments?: Array<{ date: string; amount: number }>; // Kept for loans disbursed in the period
+}
+
+export interface PeriodBalanceTotals {
+  loanCount: number; // Loans on the book at the period end
+  principalOutstanding: number;
+  interestOutstanding: number;
+  feesOutstanding: number;
+  penaltiesOutstanding: number;
+  totalOutstanding: number;
+}
+
+const ON_BOOK_STATUSES = ['disbursed', 'active', 'overdue', 'restructuring', 'restructured', 'defaulted'];
+
+/**
+ * Stored period-close config merged over the defaults
+ */
+export function resolvePeriodCloseConfig(stored?: Partial<PeriodCloseConfig> | null): PeriodCloseConfig {
+  return {
+    backdatingPolicy: stored?.backdatingPolicy === 'block' ? 'block' : DEFAULT_PERIOD_CLOSE_CONFIG.backdatingPolicy,
+  };
+}
+
+/**
+ * Last day of a YYYY-MM period
+ */
+export function getPeriodEndDate(periodId: string): string {
+  const [year, month] = periodId.split('-').map(Number);
+  return toLedgerDate(new Date(Date.UTC(year, month, 0)));
+}
+
+/**
+ * The period after a YYYY-MM period
+ */
+export function getNextPeriodId(periodId: string): string {
+  return getPeriodId(getFirstOpenDate(periodId));
+}
+
+/**
+ * The period before a YYYY-MM period
+ */
+export function getPreviousPeriodId(periodId: string): string {
+  const [year, month] = periodId.split('-').map(Number);
+  return getPeriodId(new Date(Date.UTC(year, month - 2, 1)));
+}
+
+/**
+ * Whether a transaction dated on a day may be recorded as it is
+ */
+export function getBackdatingRule(
+  date: string,
+  lockedThrough: string | null | undefined,
+  config: PeriodCloseConfig
+): BackdatingRule {
+  if (!isPeriodLocked(getPeriodId(date), lockedThrough)) return 'open';
+  return config.backdatingPolicy === 'block' ? 'blocked' : 'approval_required';
+}
+
+/**
+ * The schedule as it stood at the period end: payments dated after it are
+ * taken back off the installments they were applied to
+ */
+function rewindInstallments(
+  installments: AllocationInstallment[],
+  paidAfterPeriodEnd: PaidAfterPeriodEnd[]
+): { installments: AllocationInstallment[]; unmatched: ComponentAmounts } {
+  const rewound = installments.map((installment) => ({ ...installment, paid: { ...installment.paid } }));
+  const unmatched = { principal: 0, interest: 0, fees: 0, penalties: 0 };
+
+  for (const line of paidAfterPeriodEnd) {
+    const installment = line.repaymentId ? rewound.find((candidate) => candidate.id === line.repaymentId) : undefined;
+    const target = installment ? installment.paid : unmatched;
+    const sign = installment ? -1 : 1;
+    target.principal = Math.max(0, target.principal + sign * line.principal);
+    target.interest = Math.max(0, target.interest + sign * line.interest);
+    target.fees = Math.max(0, target.fees + sign * line.fees);
+    target.penalties = Math.max(0, target.penalties + sign * line.penalties);
+  }
+
+  return { installments: rewound, unmatched };
+}
+
+/**
+ * A loan's balances at a period end, with payments dated after it rewound
+ */
+export function buildPeriodLoanBalance(
+  input: PeriodLoanInput,
+  periodId: string,
+  provisioningConfig: ProvisioningConfig
+): PeriodLoanBalance {
+  const periodEnd = getPeriodEndDate(periodId);
+  const asOf = new Date(`${periodEnd}T23:59:59.999Z`);
+  const writtenOff = !!input.writtenOffOn && input.writtenOffOn <= periodEnd;
+  const { installments, unmatched } = rewindInstallments(input.installments, input.paidAfterPeriodEnd);
+
+  const outstanding = { principal: 0, interest: 0, fees: 0, penalties: 0 };
+  if (!writtenOff) {
+    for (const installment of installments) {
+      const components = getOutstandingComponents(installment);
+      outstanding.principal += components.principal;
+      if (installment.dueDate <= asOf) {
+        outstanding.interest += components.interest;
+        outstanding.fees += components.fees;
+        outstanding.penalties += components.penalties;
+      }
+    }
+    // Payments without installment lines are added back as they were split
+    outstanding.principal += unmatched.principal;
+    outstanding.interest += unmatched.interest;
+    outstanding.fees += unmatched.fees;
+    outstanding.penalties += unmatched.penalties;
+  }
+
+  const principalOutstanding = roundCurrency(outstanding.principal);
+  const onBook = !writtenOff && principalOutstanding > 0.005;
+  // A loan repaid or written off since the period end was still running at it
+  const status = writtenOff
+    ? 'written_off'
+    : onBook && !ON_BOOK_STATUSES.includes(input.status) ? 'active' : input.status;
+  const daysPastDue = onBook ? getDaysPastDue(installments, asOf) : 0;
+  const disbursedOn = toLedgerDate(input.disbursedOn);
+
+  return {
+    loanId: input.loanId,
+    customerId: input.customerId || '',
+    status,
+    onBook,
+    ...(input.loanType ? { loanType: input.loanType } : {}),
+    ...(input.branchId ? { branchId: input.branchId } : {}),
+    ...(input.officerId ? { officerId: input.officerId } : {}),
+    ...(input.economicSector ? { economicSector: input.economicSector } : {}),
+    annualRate: input.annualRate,
+    disbursedAmount: roundCurrency(input.disbursedAmount),
+    disbursedOn,
+    restructured: input.restructured,
+    principalOutstanding: onBook ? principalOutstanding : 0,
+    interestOutstanding: onBook ? roundCurrency(outstanding.interest) : 0,
+    feesOutstanding: onBook ? roundCurrency(outstanding.fees) : 0,
+    penaltiesOutstanding: onBook ? roundCurrency(outstanding.penalties) : 0,
+    daysPastDue,
+    classification: classifyExposure(
+      { loanId: input.loanId, status, restructured: input.restructured, daysPastDue, exposureAtDefault: 0 },
+      provisioningConfig
+    ),
+    ...(getPeriodId(disbursedOn) === periodId ? {
+      scheduledPayments: input.installments.map((installment) => ({
+        date: toLedgerDate(installment.dueDate),
+        amount: roundCurrency(installment.due.principal + installment.due.interest + installment.due.fees),
+      })),
+    } : {}),
+  };
+}
+
+/**
+ * Book totals of the loans on the book at a period end
+ */
+export function summarizePeriodBalances(balances: PeriodLoanBalance[]): PeriodBalanceTotals {
+  const onBook = balances.filter((balance) => balance.onBook);
+  const sum = (pick: (balance: PeriodLoanBalance) => number) =>
+    roundCurrency(onBook.reduce((total, balance) => total + pick(balance), 0));
+
+  const principalOutstanding = sum((balance) => balance.principalOutstanding);
+  const interestOutstanding = sum((balance) => balance.interestOutstanding);
+  const feesOutstanding = sum((balance) => balance.feesOutstanding);
+  const penaltiesOutstanding = sum((balance) => balance.penaltiesOutstanding);
+
+  return {
+    loanCount: onBook.length,
+    principalOutstanding,
+    interestOutstanding,
+    feesOutstanding,
+    penaltiesOutstanding,
+    totalOutstanding: roundCurrency(principalOutstanding + interestOutstanding + feesOutstanding + penaltiesOutstanding),
+  };
+}
+
+/**
+ * A close check with its label
+ */
+export function buildCloseCheck(id: PeriodCloseCheckId, passed: boolean, detail: string): PeriodCloseCheck {
+  return { id, label: PERIOD_CLOSE_CHECK_LABELS[id], passed, detail };
+}
@@ -0,0 +1,241 @@
+/**
+ * Credit Policy Simulation
+ *
+ * Replays a proposed credit policy (risk rules, custom decision rules and
+ * credit score weights) over historical applications and compares approval
+ * rate, observed default rate and portfolio yield with the current policy.
+ * Outcomes are only known for applications that were actually booked, so
+ * applications a policy would newly approve are reported as unobserved.
+ */
+
+import {
+  DEFAULT_POLICY_RULES,
+  composeDecisionRules,
+  evaluateCreditDecision,
+  type RiskRules,
+  type CreditApplicationFacts,
+  type CreditDecision,
+  type DecisionOutcome,
+  type DecisionRule,
+} from './decision-rules';
+import { roundCurrency } from './utils';
+
+export interface CreditScoreFactors {
+  paymentHistory: number;
+  creditHistory: number;
+  debtToIncome: number;
+  collateralValue: number;
+  employmentStability: number;
+}
+
+export type CreditScoreWeights = CreditScoreFactors;
+
+export const DEFAULT_CREDIT_SCORE_WEIGHTS: CreditScoreWeights = {
+  paymentHistory: 0.35,
+  creditHistory: 0.25,
+  debtToIncome: 0.15,
+  collateralValue: 0.15,
+  employmentStability: 0.10,
+};
+
+export type HistoricalOutcome = 'repaid' | 'defaulted' | 'performing' | 'not_booked';
+
+export interface HistoricalApplication {
+  loanId: string;
+  loanType?: string;
+  facts: CreditApplicationFacts;
+  scoreFactors?: CreditScoreFactors; // Recomputed into facts.creditScore with each policy's weights
+  outcome: HistoricalOutcome;
+  principal: number;
+  interestCollected: number;
+  principalLost: number;
+}
+
+export interface CreditPolicy {
+  riskRules?: Record<string, RiskRules>; // By loan type
+  decisionRules?: Record<string, DecisionRule[]>; // By loan type
+  policyRules?: DecisionRule[];
+  scoreWeights?: CreditScoreWeights;
+}
+
+export interface PolicyMetrics {
+  applications: number;
+  approved: number;
+  referred: number;
+  declined: number;
+  booked: number;
+  approvalRate: number; // Booked / applications
+  bookedPrincipal: number;
+  observed: number; // Booked applications with a historical outcome
+  unobserved: number; // Booked applications that were never booked historically
+  resolved: number; // Observed loans that were repaid or defaulted
+  defaulted: number;
+  defaultRate: number; // Defaulted / resolved
+  interestCollected: number;
+  principalLost: number;
+  portfolioYield: number; // (Interest collected - principal lost) / observed principal
+}
+
+export interface PolicyDecisionChange {
+  loanId: string;
+  current: DecisionOutcome;
+  proposed: DecisionOutcome;
+  outcome: HistoricalOutcome;
+}
+
+export interface PolicySimulationResult {
+  current: PolicyMetrics;
+  proposed: PolicyMetrics;
+  deltas: {
+    approvalRate: number;
+    defaultRate: number;
+    portfolioYield: number;
+    bookedPrincipal: number;
+  };
+  changedDecisions: PolicyDecisionChange[];
+}
+
+export interface PolicySimulationOptions {
+  bookReferrals?: boolean; // Referred applications count as booked (default true)
+}
+
+function round4(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Weighted credit score (0-1000) from its factor scores
+ */
+export function weightCreditScore(
+  factors: CreditScoreFactors,
+  weights: CreditScoreWeights = DEFAULT_CREDIT_SCORE_WEIGHTS
+): number {
+  const score = Math.round(
+    factors.paymentHistory * weights.paymentHistory +
+    factors.creditHistory * weights.creditHistory +
+    factors.debtToIncome * weights.debtToIncome +
+    factors.collateralValue * weights.collateralValue +
+    factors.employmentStability * weights.employmentStability
+  );
+  return Math.max(0, Math.min(1000, score));
+}
+
+/**
+ * Decide a historical application under a policy
+ */
+export function decideWithPolicy(application: HistoricalApplication, policy: CreditPolicy): CreditDecision {
+  const loanType = application.loanType || '';
+  const rules = composeDecisionRules(
+    policy.riskRules?.[loanType],
+    policy.decisionRules?.[loanType] || [],
+    policy.policyRules || DEFAULT_POLICY_RULES
+  );
+  const facts = application.scoreFactors
+    ? { ...application.facts, creditScore: weightCreditScore(application.scoreFactors, policy.scoreWeights) }
+    : application.facts;
+  return evaluateCreditDecision(rules, facts);
+}
+
+function isBooked(outcome: DecisionOutcome, options: PolicySimulationOptions): boolean {
+  return outcome === 'approve' || (outcome === 'refer' && options.bookReferrals !== false);
+}
+
+function summarise(
+  applications: HistoricalApplication[],
+  decisions: DecisionOutcome[],
+  options: PolicySimulationOptions
+): PolicyMetrics {
+  const metrics: PolicyMetrics = {
+    applications: applications.length,
+    approved: 0,
+    referred: 0,
+    declined: 0,
+    booked: 0,
+    approvalRate: 0,
+    bookedPrincipal: 0,
+    observed: 0,
+    unobserved: 0,
+    resolved: 0,
+    defaulted: 0,
+    defaultRate: 0,
+    interestCollected: 0,
+    principalLost: 0,
+    portfolioYield: 0,
+  };
+  let observedPrincipal = 0;
+
+  applications.forEach((application, index) => {
+    const outcome = decisions[index];
+    if (outcome === 'approve') metrics.approved++;
+    else if (outcome === 'refer') metrics.referred++;
+    else metrics.declined++;
+
+    if (!isBooked(outcome, options)) return;
+    metrics.booked++;
+    metrics.bookedPrincipal += application.principal;
+
+    if (application.outcome === 'not_booked') {
+      metrics.unobserved++;
+      return;
+    }
+
+    metrics.observed++;
+    observedPrincipal += application.principal;
+    metrics.interestCollected += application.interestCollected;
+    metrics.principalLost += application.principalLost;
+    if (application.outcome === 'repaid' || application.outcome === 'defaulted') {
+      metrics.resolved++;
+    }
+    if (application.outcome === 'defaulted') {
+      metrics.defaulted++;
+    }
+  });
+
+  metrics.approvalRate = metrics.applications > 0 ? round4(metrics.booked / metrics.applications) : 0;
+  metrics.defaultRate = metrics.resolved > 0 ? round4(metrics.defaulted / metrics.resolved) : 0;
+  metrics.portfolioYield = observedPrincipal > 0
+    ? round4((metrics.interestCollected - metrics.principalLost) / observedPrincipal)
+    : 0;
+  metrics.bookedPrincipal = roundCurrency(metrics.bookedPrincipal);
+  metrics.interestCollected = roundCurrency(metrics.interestCollected);
+  metrics.principalLost = roundCurrency(metrics.principalLost);
+
+  return metrics;
+}
+
+/**
+ * Replay the current and proposed policies over historical applications
+ */
+export function simulatePolicyChange(
+  applications: HistoricalApplication[],
+  currentPolicy: CreditPolicy,
+  proposedPolicy: CreditPolicy,
+  options: PolicySimulationOptions = {}
+): PolicySimulationResult {
+  const currentDecisions = applications.map((application) => decideWithPolicy(application, currentPolicy).outcome);
+  const proposedDecisions = applications.map((application) => decideWithPolicy(application, proposedPolicy).outcome);
+
+  const current = summarise(applications, currentDecisions, options);
+  const proposed = summarise(applications, proposedDecisions, options);
+
+  const changedDecisions = applications
+    .map((application, index) => ({
+      loanId: application.loanId,
+      current: currentDecisions[index],
+      proposed: proposedDecisions[index],
+      outcome: application.outcome,
+    }))
+    .filter((change) => change.current !== change.proposed);
+
+  return {
+    current,
+    proposed,
+    deltas: {
+      approvalRate: round4(proposed.approvalRate - current.approvalRate),
+      defaultRate: round4(proposed.defaultRate - current.defaultRate),
+      portfolioYield: round4(proposed.portfolioYield - current.portfolioYield),
+      bookedPrincipal: roundCurrency(proposed.bookedPrincipal - current.bookedPrincipal),
+    },
+    changedDecisions,
+  };
+}
@@ -0,0 +1,421 @@
+/**
+ * Portfolio-at-Risk and Vintage Analytics
+ *
+ * Buckets each loan by days past due, works out balance-weighted portfolio at
+ * risk (PAR1/30/60/90) overall and by loan type, branch and officer, the roll
+ * rates between two snapshots of the book, and vintage curves that follow each
+ * disbursement cohort's PAR30 and write-offs by months on book.
+ * Used by both frontend and Cloud Functions
+ */
+
+import {
+  getOutstandingComponents,
+  type AllocationInstallment,
+} from './allocation';
+import { getDaysPastDue } from './provisioning';
+import { getPeriodId } from './ledger';
+import { roundCurrency } from './utils';
+
+export type DelinquencyBucket =
+  | 'current'
+  | 'dpd_1_30'
+  | 'dpd_31_60'
+  | 'dpd_61_90'
+  | 'dpd_90_plus'
+  | 'written_off'
+  | 'closed';
+
+/**
+ * Buckets a loan moves through on its way to write-off, in order
+ */
+export const DELINQUENCY_BUCKETS: DelinquencyBucket[] = [
+  'current',
+  'dpd_1_30',
+  'dpd_31_60',
+  'dpd_61_90',
+  'dpd_90_plus',
+  'written_off',
+];
+
+export const DELINQUENCY_BUCKET_LABELS: Record<DelinquencyBucket, string> = {
+  current: 'Current',
+  dpd_1_30: '1-30',
+  dpd_31_60: '31-60',
+  dpd_61_90: '61-90',
+  dpd_90_plus: '90+',
+  written_off: 'Written off',
+  closed: 'Closed',
+};
+
+export type PortfolioDimension = 'loanType' | 'branchId' | 'officerId';
+
+export const PORTFOLIO_DIMENSIONS: PortfolioDimension[] = ['loanType', 'branchId', 'officerId'];
+
+// Statuses of loans still on the book
+export const ON_BOOK_STATUSES = ['disbursed', 'active', 'overdue', 'restructuring', 'restructured', 'defaulted'];
+
+// Statuses of loans that were disbursed and have since left the book
+const CLOSED_STATUSES = ['paid', 'completed', 'settled', 'closed'];
+
+/**
+ * A loan as the snapshot job reads it
+ */
+export interface PortfolioLoanInput {
+  loanId: string;
+  status: string;
+  loanType?: string;
+  branchId?: string;
+  officerId?: string;
+  disbursedOn: Date;
+  disbursedAmount: number;
+  installments: AllocationInstallment[]; // Only needed for loans on the book
+  writtenOffPrincipal?: number;
+}
+
+/**
+ * One loan in a daily snapshot
+ */
+export interface LoanPosition {
+  loanId: string;
+  status: string;
+  loanType?: string;
+  branchId?: string;
+  officerId?: string;
+  cohort: string; // YYYY-MM of disbursement
+  disbursedAmount: number;
+  principalOutstanding: number;
+  daysPastDue: number;
+  bucket: DelinquencyBucket;
+  writtenOffPrincipal: number;
+}
+
+export interface ParRatios {
+  par1: number; // Share of outstanding principal more than 0 days past due, 0-1
+  par30: number;
+  par60: number;
+  par90: number;
+}
+
+export interface PortfolioSegment {
+  loanCount: number;
+  principalOutstanding: number;
+  par: ParRatios;
+}
+
+export interface BucketTotal {
+  count: number;
+  principal: number;
+}
+
+/**
+ * Book totals on one day, kept as portfolio_snapshots/{date}
+ */
+export interface PortfolioSnapshotSummary extends PortfolioSegment {
+  date: string; // YYYY-MM-DD
+  byBucket: Record<DelinquencyBucket, BucketTotal>;
+  byLoanType: Record<string, PortfolioSegment>;
+  byBranch: Record<string, PortfolioSegment>;
+  byOfficer: Record<string, PortfolioSegment>;
+}
+
+export interface RollRateCell extends BucketTotal {
+  rate: number; // Share of the from-bucket's principal, 0-1
+}
+
+export interface RollRateRow extends BucketTotal {
+  from: DelinquencyBucket;
+  to: Record<DelinquencyBucket, RollRateCell>;
+}
+
+/**
+ * Where the principal in each bucket on one date had moved to by a later date
+ */
+export interface RollRateMatrix {
+  fromDate: string;
+  toDate: string;
+  rows: RollRateRow[];
+}
+
+/**
+ * One cohort (and optionally one segment of it) at one month-end
+ */
+export interface VintageCell {
+  cohort: string;
+  dimension: PortfolioDimension | 'all';
+  segment: string;
+  loanCount: number;
+  disbursedAmount: number;
+  par30Principal: number;
+  writtenOffPrincipal: number;
+}
+
+export interface VintagePoint {
+  monthsOnBook: number;
+  date: string;
+  par30Ratio: number; // PAR30 principal over amount disbursed, 0-1
+  writtenOffRatio: number;
+  lossRatio: number; // PAR30 and written off together
+}
+
+export interface VintageCurve {
+  cohort: string;
+  segment: string;
+  loanCount: number;
+  disbursedAmount: number;
+  points: VintagePoint[];
+}
+
+// Loans without a segment value are reported together
+export const UNASSIGNED_SEGMENT = 'unassigned';
+
+function roundRatio(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function emptyBuckets(): Record<DelinquencyBucket, BucketTotal> {
+  return {
+    current: { count: 0, principal: 0 },
+    dpd_1_30: { count: 0, principal: 0 },
+    dpd_31_60: { count: 0, principal: 0 },
+    dpd_61_90: { count: 0, principal: 0 },
+    dpd_90_plus: { count: 0, principal: 0 },
+    written_off: { count: 0, principal: 0 },
+    closed: { count: 0, principal: 0 },
+  };
+}
+
+/**
+ * Delinquency bucket for a loan's status and days past due
+ */
+export function getDelinquencyBucket(status: string, daysPastDue: number): DelinquencyBucket {
+  if (status === 'written_off') return 'written_off';
+  if (!ON_BOOK_STATUSES.includes(status)) return 'closed';
+  if (daysPastDue > 90) return 'dpd_90_plus';
+  if (daysPastDue > 60) return 'dpd_61_90';
+  if (daysPastDue > 30) return 'dpd_31_60';
+  if (daysPastDue > 0) return 'dpd_1_30';
+  return 'current';
+}
+
+/**
+ * Whether a status belongs in the snapshot at all: loans never disbursed are left out
+ */
+export function isSnapshotStatus(status: string): boolean {
+  return ON_BOOK_STATUSES.includes(status) || CLOSED_STATUSES.includes(status) || status === 'written_off';
+}
+
+/**
+ * Position of one loan at a date. Only loans on the book carry principal;
+ * written-off loans carry what was written off instead.
+ */
+export function buildLoanPosition(input: PortfolioLoanInput, asOf: Date): LoanPosition {
+  const onBook = ON_BOOK_STATUSES.includes(input.status);
+  const daysPastDue = onBook ? getDaysPastDue(input.installments, asOf) : 0;
+  const principalOutstanding = onBook
+    ? roundCurrency(input.installments.reduce((sum, installment) => sum + getOutstandingComponents(installment).principal, 0))
+    : 0;
+
+  return {
+    loanId: input.loanId,
+    status: input.status,
+    ...(input.loanType ? { loanType: input.loanType } : {}),
+    ...(input.branchId ? { branchId: input.branchId } : {}),
+    ...(input.officerId ? { officerId: input.officerId } : {}),
+    cohort: getPeriodId(input.disbursedOn),
+    disbursedAmount: roundCurrency(input.disbursedAmount),
+    principalOutstanding,
+    daysPastDue,
+    bucket: getDelinquencyBucket(input.status, daysPastDue),
+    writtenOffPrincipal: input.status === 'written_off' ? roundCurrency(input.writtenOffPrincipal || 0) : 0,
+  };
+}
+
+/**
+ * Balance-weighted PAR of the loans on the book
+ */
+export function calculateParRatios(positions: LoanPosition[]): ParRatios {
+  const onBook = positions.filter((position) => ON_BOOK_STATUSES.includes(position.status));
+  const total = onBook.reduce((sum, position) => sum + position.principalOutstanding, 0);
+  const atRisk = (days: number) => onBook
+    .filter((position) => position.daysPastDue > days)
+    .reduce((sum, position) => sum + position.principalOutstanding, 0);
+
+  if (total <= 0) {
+    return { par1: 0, par30: 0, par60: 0, par90: 0 };
+  }
+  return {
+    par1: roundRatio(atRisk(0) / total),
+    par30: roundRatio(atRisk(30) / total),
+    par60: roundRatio(atRisk(60) / total),
+    par90: roundRatio(atRisk(90) / total),
+  };
+}
+
+function summarizeSegment(positions: LoanPosition[]): PortfolioSegment {
+  const onBook = positions.filter((position) => ON_BOOK_STATUSES.includes(position.status));
+  return {
+    loanCount: onBook.length,
+    principalOutstanding: roundCurrency(onBook.reduce((sum, position) => sum + position.principalOutstanding, 0)),
+    par: calculateParRatios(onBook),
+  };
+}
+
+function groupBy<T>(items: T[], getKey: (item: T) => string): Record<string, T[]> {
+  return items.reduce<Record<string, T[]>>((groups, item) => {
+    const key = getKey(item);
+    (groups[key] = groups[key] || []).push(item);
+    return groups;
+  }, {});
+}
+
+function segmentsBy(positions: LoanPosition[], dimension: PortfolioDimension): Record<string, PortfolioSegment> {
+  const onBook = positions.filter((position) => ON_BOOK_STATUSES.includes(position.status));
+  const groups = groupBy(onBook, (position) => position[dimension] || UNASSIGNED_SEGMENT);
+  return Object.fromEntries(Object.entries(groups).map(([key, group]) => [key, summarizeSegment(group)]));
+}
+
+/**
+ * Book totals, bucket totals and PAR by loan type, branch and officer on a date
+ */
+export function summarizePortfolio(date: string, positions: LoanPosition[]): PortfolioSnapshotSummary {
+  const byBucket = emptyBuckets();
+  for (const position of positions) {
+    byBucket[position.bucket].count += 1;
+    byBucket[position.bucket].principal = roundCurrency(
+      byBucket[position.bucket].principal +
+      (position.bucket === 'written_off' ? position.writtenOffPrincipal : position.principalOutstanding)
+    );
+  }
+
+  return {
+    date,
+    ...summarizeSegment(positions),
+    byBucket,
+    byLoanType: segmentsBy(positions, 'loanType'),
+    byBranch: segmentsBy(positions, 'branchId'),
+    byOfficer: segmentsBy(positions, 'officerId'),
+  };
+}
+
+/**
+ * Roll rates between two snapshots, weighted by each loan's principal on the
+ * earlier date. Loans missing from the later snapshot have closed. Written-off
+ * loans stay written off, so that row is left out.
+ */
+export function buildRollRateMatrix(
+  fromDate: string,
+  from: LoanPosition[],
+  toDate: string,
+  to: LoanPosition[]
+): RollRateMatrix {
+  const later = new Map(to.map((position) => [position.loanId, position]));
+  const rows: RollRateRow[] = DELINQUENCY_BUCKETS
+    .filter((bucket) => bucket !== 'written_off')
+    .map((bucket) => {
+      const cells = emptyBuckets();
+      const starting = from.filter((position) => position.bucket === bucket);
+      for (const position of starting) {
+        const target = later.get(position.loanId)?.bucket || 'closed';
+        cells[target].count += 1;
+        cells[target].principal += position.principalOutstanding;
+      }
+
+      const principal = starting.reduce((sum, position) => sum + position.principalOutstanding, 0);
+      const toCells = Object.fromEntries(Object.entries(cells).map(([target, cell]) => [target, {
+        count: cell.count,
+        principal: roundCurrency(cell.principal),
+        rate: principal > 0 ? roundRatio(cell.principal / principal) : 0,
+      }])) as Record<DelinquencyBucket, RollRateCell>;
+
+      return { from: bucket, count: starting.length, principal: roundCurrency(principal), to: toCells };
+    });
+
+  return { fromDate, toDate, rows };
+}
+
+function buildCell(
+  cohort: string,
+  dimension: PortfolioDimension | 'all',
+  segment: string,
+  positions: LoanPosition[]
+): VintageCell {
+  return {
+    cohort,
+    dimension,
+    segment,
+    loanCount: positions.length,
+    disbursedAmount: roundCurrency(positions.reduce((sum, position) => sum + position.disbursedAmount, 0)),
+    par30Principal: roundCurrency(positions
+      .filter((position) => position.daysPastDue > 30)
+      .reduce((sum, position) => sum + position.principalOutstanding, 0)),
+    writtenOffPrincipal: roundCurrency(positions.reduce((sum, position) => sum + position.writtenOffPrincipal, 0)),
+  };
+}
+
+/**
+ * Cohort totals at a month-end for the whole book and for each loan type,
+ * branch and officer. Positions must include closed loans so each cohort keeps
+ * its full disbursed amount.
+ */
+export function buildVintageCells(positions: LoanPosition[]): VintageCell[] {
+  const cells: VintageCell[] = [];
+  for (const [cohort, cohortPositions] of Object.entries(groupBy(positions, (position) => position.cohort))) {
+    cells.push(buildCell(cohort, 'all', 'all', cohortPositions));
+    for (const dimension of PORTFOLIO_DIMENSIONS) {
+      const segments = groupBy(cohortPositions, (position) => position[dimension] || UNASSIGNED_SEGMENT);
+      for (const [segment, segmentPositions] of Object.entries(segments)) {
+        cells.push(buildCell(cohort, dimension, segment, segmentPositions));
+      }
+    }
+  }
+  return cells.sort((a, b) => a.cohort.localeCompare(b.cohort));
+}
+
+/**
+ * Whole months from a YYYY-MM cohort to a YYYY-MM-DD date
+ */
+export function getMonthsOnBook(cohort: string, date: string): number {
+  const [cohortYear, cohortMonth] = cohort.split('-').map(Number);
+  const [year, month] = date.split('-').map(Number);
+  return (year - cohortYear) * 12 + (month - cohortMonth);
+}
+
+/**
+ * Vintage curves from month-end cohort totals: for each cohort (and segment)
+ * the share of its disbursed amount in PAR30 or written off by months on book
+ */
+export function buildVintageCurves(
+  monthEnds: Array<{ date: string; cells: VintageCell[] }>,
+  dimension: PortfolioDimension | 'all' = 'all'
+): VintageCurve[] {
+  const curves = new Map<string, VintageCurve>();
+  const ordered = [...monthEnds].sort((a, b) => a.date.localeCompare(b.date));
+
+  for (const { date, cells } of ordered) {
+    for (const cell of cells.filter((candidate) => candidate.dimension === dimension)) {
+      const key = `${cell.cohort}|${cell.segment}`;
+      const curve = curves.get(key) || {
+        cohort: cell.cohort,
+        segment: cell.segment,
+        loanCount: 0,
+        disbursedAmount: 0,
+        points: [],
+      };
+      // The latest month-end has the cohort's settled size
+      curve.loanCount = cell.loanCount;
+      curve.disbursedAmount = cell.disbursedAmount;
+
+      const ratio = (amount: number) => (cell.disbursedAmount > 0 ? roundRatio(amount / cell.disbursedAmount) : 0);
+      curve.points.push({
+        monthsOnBook: getMonthsOnBook(cell.cohort, date),
+        date,
+        par30Ratio: ratio(cell.par30Principal),
+        writtenOffRatio: ratio(cell.writtenOffPrincipal),
+        lossRatio: ratio(cell.par30Principal + cell.writtenOffPrincipal),
+      });
+      curves.set(key, curve);
+    }
+  }
+
+  return [...curves.values()].sort((a, b) => a.cohort.localeCompare(b.cohort) || a.segment.localeCompare(b.segment));
+}
@@ -0,0 +1,381 @@
+/**
+ * Collateral Price Book
+ *
+ * Each agency keeps its own reference prices: vehicles by make, model and
+ * year, land per hectare by district, and equipment by category, along with
+ * the condition and location adjustments applied to them. The book is
+ * versioned: a version takes effect from its date once published and is not
+ * changed afterwards, so a valuation taken from it records the version, the
+ * entry matched and each adjustment, and can be reproduced later.
+ * Used by both frontend and Cloud Functions
+ */
+
+import { getDepreciationRate, RESIDUAL_VALUE_FLOOR } from './collateral-valuation';
+import { toLedgerDate } from './ledger';
+
+export type PriceBookKind = 'vehicle' | 'land' | 'equipment';
+
+export type PriceBookStatus = 'draft' | 'published';
+
+export type CollateralCondition = 'excellent' | 'good' | 'fair' | 'poor';
+
+export const PRICE_BOOK_KINDS: Record<PriceBookKind, string> = {
+  vehicle: 'Vehicles',
+  land: 'Land',
+  equipment: 'Equipment',
+};
+
+export const DEFAULT_CONDITION_MULTIPLIERS: Record<CollateralCondition, number> = {
+  excellent: 1.0,
+  good: 0.85,
+  fair: 0.65,
+  poor: 0.40,
+};
+
+export const DEFAULT_LOCATION_MULTIPLIERS: Record<string, number> = {
+  lusaka: 1.2,
+  ndola: 1.1,
+  kitwe: 1.05,
+  livingstone: 1.0,
+  chipata: 0.95,
+  kabwe: 0.90,
+  other: 0.85,
+};
+
+export interface VehiclePrice {
+  make: string;
+  model: string;
+  year: number;
+  price: number;
+}
+
+export interface LandPrice {
+  district: string;
+  pricePerHectare: number;
+}
+
+export interface EquipmentPrice {
+  category: string;
+  price: number; // Price new; depreciated by age when the item's year is known
+}
+
+export interface PriceBookEntries {
+  vehicles: VehiclePrice[];
+  land: LandPrice[];
+  equipment: EquipmentPrice[];
+}
+
+export interface PriceBookVersion {
+  id: string;
+  version: number;
+  effectiveFrom: string; // YYYY-MM-DD
+  status: PriceBookStatus;
+  entries: PriceBookEntries;
+  conditionMultipliers: Record<CollateralCondition, number>; // Vehicles and equipment
+  locationMultipliers: Record<string, number>; // Vehicles and equipment, by town
+}
+
+export interface PriceBookAdjustment {
+  label: string;
+  factor: number;
+}
+
+/**
+ * A value taken from the price book, with everything needed to reproduce it
+ */
+export interface PriceBookValuation {
+  value: number;
+  kind: PriceBookKind;
+  referencePrice: number; // Price of the entry matched (per hectare for land)
+  quantity: number; // Hectares for land, otherwise 1
+  adjustments: PriceBookAdjustment[];
+  versionId: string;
+  version: number;
+  effectiveFrom: string;
+  entry: VehiclePrice | LandPrice | EquipmentPrice;
+  explanation: string;
+}
+
+export interface PriceBookLookupInput {
+  type: string;
+  brand?: string | null;
+  model?: string | null;
+  year?: number | null;
+  condition?: string | null;
+  location?: string | null; // Town or district
+  category?: string | null; // Equipment category
+  description?: string | null;
+  areaHectares?: number | null;
+  asOf: Date;
+}
+
+export interface PriceBookImportError {
+  row: number; // Spreadsheet row, counting the header as row 1
+  message: string;
+}
+
+export function createEmptyPriceBookEntries(): PriceBookEntries {
+  return { vehicles: [], land: [], equipment: [] };
+}
+
+export function normalizePriceKey(value?: string | null): string {
+  return (value || '').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function formatAmount(value: number): string {
+  return value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+/**
+ * A stored version with missing fields filled from the defaults
+ */
+export function resolvePriceBookVersion(id: string, stored: Partial<PriceBookVersion> | null | undefined): PriceBookVersion {
+  return {
+    id,
+    version: Number(stored?.version || 0),
+    effectiveFrom: stored?.effectiveFrom || '',
+    status: stored?.status === 'published' ? 'published' : 'draft',
+    entries: {
+      vehicles: stored?.entries?.vehicles || [],
+      land: stored?.entries?.land || [],
+      equipment: stored?.entries?.equipment || [],
+    },
+    conditionMultipliers: { ...DEFAULT_CONDITION_MULTIPLIERS, ...(stored?.conditionMultipliers || {}) },
+    locationMultipliers: stored?.locationMultipliers || { ...DEFAULT_LOCATION_MULTIPLIERS },
+  };
+}
+
+/**
+ * The published version in effect on a date: the latest effective date, then the highest version
+ */
+export function getEffectivePriceBook(versions: PriceBookVersion[], asOf: Date): PriceBookVersion | null {
+  const date = toLedgerDate(asOf);
+  return versions
+    .filter((version) => version.status === 'published' && version.effectiveFrom && version.effectiveFrom <= date)
+    .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom) || b.version - a.version)[0] || null;
+}
+
+/**
+ * Problems that stop a version being published
+ */
+export function validatePriceBookEntries(entries: PriceBookEntries): string[] {
+  const problems: string[] = [];
+  const seen = new Set<string>();
+  const checkDuplicate = (key: string, label: string) => {
+    if (seen.has(key)) problems.push(`${label} is listed more than once`);
+    seen.add(key);
+  };
+
+  for (const entry of entries.vehicles) {
+    const label = `${entry.make} ${entry.model} ${entry.year}`;
+    if (!normalizePriceKey(entry.make) || !normalizePriceKey(entry.model) || !entry.year) problems.push(`A vehicle needs a make, model and year (${label})`);
+    if (!(entry.price > 0)) problems.push(`${label} needs a price above zero`);
+    checkDuplicate(`vehicle:${normalizePriceKey(entry.make)}:${normalizePriceKey(entry.model)}:${entry.year}`, label);
+  }
+  for (const entry of entries.land) {
+    if (!normalizePriceKey(entry.district)) problems.push('Land prices need a district');
+    if (!(entry.pricePerHectare > 0)) problems.push(`Land in ${entry.district} needs a price per hectare above zero`);
+    checkDuplicate(`land:${normalizePriceKey(entry.district)}`, `Land in ${entry.district}`);
+  }
+  for (const entry of entries.equipment) {
+    if (!normalizePriceKey(entry.category)) problems.push('Equipment prices need a category');
+    if (!(entry.price > 0)) problems.push(`${entry.category} needs a price above zero`);
+    checkDuplicate(`equipment:${normalizePriceKey(entry.category)}`, entry.category);
+  }
+
+  return problems;
+}
+
+// Straight-line depreciation factor at an age, down to the residual floor
+function getAgeFactor(type: string, age: number): number {
+  return Math.max(RESIDUAL_VALUE_FLOOR, 1 - Math.max(0, age) * getDepreciationRate(type));
+}
+
+function applyMarketAdjustments(book: PriceBookVersion, input: PriceBookLookupInput, adjustments: PriceBookAdjustment[]): void {
+  const condition = normalizePriceKey(input.condition) as CollateralCondition;
+  if (book.conditionMultipliers[condition] !== undefined) {
+    adjustments.push({ label: `Condition (${condition})`, factor: book.conditionMultipliers[condition] });
+  }
+  // Only towns the book lists adjust the price; elsewhere the reference price stands
+  const location = normalizePriceKey(input.location).replace(/\s+/g, '');
+  if (location && book.locationMultipliers[location] !== undefined) {
+    adjustments.push({ label: `Location (${input.location})`, factor: book.locationMultipliers[location] });
+  }
+}
+
+function findVehicle(book: PriceBookVersion, input: PriceBookLookupInput, adjustments: PriceBookAdjustment[]): VehiclePrice | null {
+  const make = normalizePriceKey(input.brand);
+  const model = normalizePriceKey(input.model);
+  if (!make || !model) return null;
+
+  const candidates = book.entries.vehicles.filter(
+    (entry) => normalizePriceKey(entry.make) === make && normalizePriceKey(entry.model) === model
+  );
+  if (candidates.length === 0) return null;
+  if (!input.year) {
+    return candidates.length === 1 ? candidates[0] : null;
+  }
+
+  const year = input.year;
+  const entry = [...candidates].sort((a, b) => Math.abs(a.year - year) - Math.abs(b.year - year) || b.year - a.year)[0];
+  if (entry.year !== year) {
+    // Carry the nearest year's price to the vehicle's year at its type's depreciation rate
+    const currentYear = input.asOf.getFullYear();
+    const factor = getAgeFactor('vehicle', currentYear - year) / getAgeFactor('vehicle', currentYear - entry.year);
+    adjustments.push({ label: `Age (${year} priced from ${entry.year})`, factor: Math.round(factor * 10000) / 10000 });
+  }
+  return entry;
+}
+
+function findEquipment(book: PriceBookVersion, input: PriceBookLookupInput, adjustments: PriceBookAdjustment[]): EquipmentPrice | null {
+  const category = normalizePriceKey(input.category);
+  const text = normalizePriceKey([input.description, input.brand, input.model].filter(Boolean).join(' '));
+  const entry = book.entries.equipment.find((candidate) => normalizePriceKey(candidate.category) === category)
+    // Otherwise the longest category named in the description
+    || [...book.entries.equipment]
+      .sort((a, b) => b.category.length - a.category.length)
+      .find((candidate) => normalizePriceKey(candidate.category) && text.includes(normalizePriceKey(candidate.category)));
+  if (!entry) return null;
+
+  if (input.year) {
+    const age = input.asOf.getFullYear() - input.year;
+    adjustments.push({ label: `Age (${age} years)`, factor: Math.round(getAgeFactor('equipment', age) * 10000) / 10000 });
+  }
+  return entry;
+}
+
+/**
+ * Value an asset from a price book version, or null when the book has no price for it
+ */
+export function valueFromPriceBook(book: PriceBookVersion, input: PriceBookLookupInput): PriceBookValuation | null {
+  const type = normalizePriceKey(input.type);
+  const adjustments: PriceBookAdjustment[] = [];
+  let kind: PriceBookKind;
+  let entry: VehiclePrice | LandPrice | EquipmentPrice | null;
+  let referencePrice: number;
+  let quantity = 1;
+  let entryLabel: string;
+
+  if (type === 'vehicle') {
+    const vehicle = findVehicle(book, input, adjustments);
+    if (!vehicle) return null;
+    kind = 'vehicle';
+    entry = vehicle;
+    referencePrice = vehicle.price;
+    entryLabel = `${vehicle.make} ${vehicle.model} ${vehicle.year}`;
+    applyMarketAdjustments(book, input, adjustments);
+  } else if (type === 'land') {
+    const district = normalizePriceKey(input.location);
+    const land = book.entries.land.find((candidate) => normalizePriceKey(candidate.district) === district);
+    if (!land || !input.areaHectares || input.areaHectares <= 0) return null;
+    kind = 'land';
+    entry = land;
+    referencePrice = land.pricePerHectare;
+    quantity = input.areaHectares;
+    entryLabel = `Land in ${land.district} at ${formatAmount(land.pricePerHectare)} per hectare × ${quantity} ha`;
+  } else if (type === 'equipment') {
+    const equipment = findEquipment(book, input, adjustments);
+    if (!equipment) return null;
+    kind = 'equipment';
+    entry = equipment;
+    referencePrice = equipment.price;
+    entryLabel = `${equipment.category} (new)`;
+    applyMarketAdjustments(book, input, adjustments);
+  } else {
+    return null;
+  }
+
+  const value = Math.round(adjustments.reduce((running, adjustment) => running * adjustment.factor, referencePrice * quantity));
+  const steps = adjustments.map((adjustment) => `× ${adjustment.factor} ${adjustment.label.toLowerCase()}`).join(' ');
+
+  return {
+    value,
+    kind,
+    referencePrice,
+    quantity,
+    adjustments,
+    versionId: book.id,
+    version: book.version,
+    effectiveFrom: book.effectiveFrom,
+    entry,
+    explanation: `Price book version ${book.version} (effective ${book.effectiveFrom}): ${entryLabel}, `
+      + `${formatAmount(referencePrice * quantity)}${steps ? ` ${steps}` : ''} = ${formatAmount(value)}`,
+  };
+}
+
+function readCell(row: Record<string, unknown>, ...names: string[]): string {
+  for (const name of names) {
+    const value = row[name];
+    if (value !== undefined && value !== null && String(value).trim() !== '') {
+      return String(value).trim();
+    }
+  }
+  return '';
+}
+
+function readAmount(value: string): number {
+  return parseFloat(value.replace(/[^0-9.-]/g, ''));
+}
+
+/**
+ * Read price book entries from spreadsheet rows keyed by lower-cased header.
+ * A "kind" column (vehicle, land or equipment) says which columns each row uses:
+ * make, model, year and price; district and price per hectare; or category and price.
+ */
+export function parsePriceBookRows(rows: Array<Record<string, unknown>>): {
+  entries: PriceBookEntries;
+  errors: PriceBookImportError[];
+} {
+  const entries = createEmptyPriceBookEntries();
+  const errors: PriceBookImportError[] = [];
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 2;
+    const kind = normalizePriceKey(readCell(row, 'kind', 'type', 'asset type'));
+    const price = readAmount(readCell(row, 'price', 'reference price', 'price per hectare', 'price_per_hectare'));
+
+    if (!kind) {
+      errors.push({ row: rowNumber, message: 'Kind is missing (vehicle, land or equipment)' });
+      return;
+    }
+    if (!(price > 0)) {
+      errors.push({ row: rowNumber, message: 'Price must be a number above zero' });
+      return;
+    }
+
+    if (kind === 'vehicle') {
+      const make = readCell(row, 'make', 'brand');
+      const model = readCell(row, 'model');
+      const year = parseInt(readCell(row, 'year'), 10);
+      if (!make || !model || !year) {
+        errors.push({ row: rowNumber, message: 'Vehicles need a make, model and year' });
+        return;
+      }
+      entries.vehicles.push({ make, model, year, price });
+    } else if (kind === 'land') {
+      const district = readCell(row, 'district', 'location');
+      if (!district) {
+        errors.push({ row: rowNumber, message: 'Land prices need a district' });
+        return;
+      }
+      entries.land.push({ district, pricePerHectare: price });
+    } else if (kind === 'equipment') {
+      const category = readCell(row, 'category');
+      if (!category) {
+        errors.push({ row: rowNumber, message: 'Equipment prices need a category' });
+        return;
+      }
+      entries.equipment.push({ category, price });
+    } else {
+      errors.push({ row: rowNumber, message: `Unknown kind "${kind}"` });
+    }
+  });
+
+  for (const problem of validatePriceBookEntries(entries)) {
+    if (problem.includes('more than once')) {
+      errors.push({ row: 0, message: problem });
+    }
+  }
+
+  return { entries, errors };
+}
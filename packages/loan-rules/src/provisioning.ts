@@ -0,0 +1,333 @@
+/**
+ * Loan Loss Provisioning
+ *
+ * Classifies each loan for provisioning, either into IFRS 9 stages or into the
+ * Bank of Zambia classification buckets, from its days past due and whether it
+ * has been restructured, and works out the allowance it needs: the expected
+ * credit loss (PD × LGD × EAD) under IFRS 9, or the prescribed rate for its
+ * bucket under the Bank of Zambia rules.
+ * Used by both frontend and Cloud Functions
+ */
+
+import {
+  getOutstandingComponents,
+  sumComponents,
+  type AllocationInstallment,
+} from './allocation';
+import { roundCurrency } from './utils';
+
+export type ProvisioningFramework = 'ifrs9' | 'boz';
+
+export type Ifrs9Stage = 1 | 2 | 3;
+
+export type BozClassification = 'pass' | 'special_mention' | 'substandard' | 'doubtful' | 'loss';
+
+export interface BozClassRule {
+  classification: BozClassification;
+  minDaysPastDue: number;
+  provisionRate: number; // Share of the exposure provided for, 0-1
+}
+
+export interface ProvisioningConfig {
+  framework: ProvisioningFramework;
+  stage2DaysPastDue: number; // Significant increase in credit risk
+  stage3DaysPastDue: number; // Credit-impaired
+  restructuredMinimumStage: Ifrs9Stage;
+  restructuredMinimumClass: BozClassification;
+  probabilityOfDefault: Record<`stage${Ifrs9Stage}`, number>; // 12-month PD for stage 1, lifetime for 2 and 3
+  useModelProbability: boolean; // Use the default-risk model's PD for stages 1 and 2 where it is higher
+  lossGivenDefault: number;
+  lossGivenDefaultByLoanType?: Record<string, number>;
+  bozClasses: BozClassRule[];
+}
+
+export const BOZ_CLASSIFICATIONS: BozClassification[] = ['pass', 'special_mention', 'substandard', 'doubtful', 'loss'];
+
+export const DEFAULT_PROVISIONING_CONFIG: ProvisioningConfig = {
+  framework: 'ifrs9',
+  stage2DaysPastDue: 30,
+  stage3DaysPastDue: 90,
+  restructuredMinimumStage: 2,
+  restructuredMinimumClass: 'special_mention',
+  probabilityOfDefault: { stage1: 0.02, stage2: 0.2, stage3: 1 },
+  useModelProbability: false,
+  lossGivenDefault: 0.45,
+  bozClasses: [
+    { classification: 'pass', minDaysPastDue: 0, provisionRate: 0.01 },
+    { classification: 'special_mention', minDaysPastDue: 30, provisionRate: 0.05 },
+    { classification: 'substandard', minDaysPastDue: 90, provisionRate: 0.2 },
+    { classification: 'doubtful', minDaysPastDue: 180, provisionRate: 0.5 },
+    { classification: 'loss', minDaysPastDue: 365, provisionRate: 1 },
+  ],
+};
+
+/**
+ * A loan as the provisioning run sees it at the reporting date
+ */
+export interface ProvisioningExposureInput {
+  loanId: string;
+  loanType?: string;
+  status?: string;
+  restructured: boolean;
+  daysPastDue: number;
+  exposureAtDefault: number;
+  modelProbability?: number; // PD from the default-risk model
+}
+
+export interface ProvisionedExposure extends ProvisioningExposureInput {
+  stage: Ifrs9Stage;
+  classification: BozClassification;
+  probabilityOfDefault: number;
+  lossGivenDefault: number;
+  expectedCreditLoss: number; // PD × LGD × EAD
+  regulatoryProvision: number; // Bank of Zambia rate × EAD
+  provision: number; // Allowance under the configured framework
+}
+
+export interface ProvisionBucket {
+  count: number;
+  exposure: number;
+  provision: number;
+}
+
+export interface ProvisionSummary {
+  framework: ProvisioningFramework;
+  exposures: ProvisionedExposure[];
+  totalExposure: number;
+  totalProvision: number;
+  byStage: Record<`stage${Ifrs9Stage}`, ProvisionBucket>;
+  byClassification: Record<BozClassification, ProvisionBucket>;
+}
+
+export interface ProvisionMovement {
+  opening: number;
+  charge: number; // Negative when the allowance is released
+  closing: number;
+}
+
+/**
+ * What the default-risk model looks at for one loan
+ */
+export interface DefaultRiskFacts {
+  overdueInstallments: number;
+  paymentRate: number; // Share of installments paid, 0-1
+  riskScore?: number; // 0-100, higher is riskier
+  loanAmount: number;
+  monthlyIncome?: number;
+}
+
+function emptyBucket(): ProvisionBucket {
+  return { count: 0, exposure: 0, provision: 0 };
+}
+
+/**
+ * Stored provisioning config merged over the defaults
+ */
+export function resolveProvisioningConfig(stored?: Partial<ProvisioningConfig> | null): ProvisioningConfig {
+  return {
+    ...DEFAULT_PROVISIONING_CONFIG,
+    ...(stored || {}),
+    probabilityOfDefault: {
+      ...DEFAULT_PROVISIONING_CONFIG.probabilityOfDefault,
+      ...(stored?.probabilityOfDefault || {}),
+    },
+    bozClasses: stored?.bozClasses?.length ? stored.bozClasses : DEFAULT_PROVISIONING_CONFIG.bozClasses,
+  };
+}
+
+/**
+ * Problems with a provisioning config, empty when it can be used
+ */
+export function validateProvisioningConfig(config: ProvisioningConfig): string[] {
+  const errors: string[] = [];
+  const isRate = (value: number) => typeof value === 'number' && value >= 0 && value <= 1;
+
+  if (!(config.stage2DaysPastDue > 0) || !(config.stage3DaysPastDue > config.stage2DaysPastDue)) {
+    errors.push('Stage 3 must start at more days past due than stage 2, and stage 2 after day 0');
+  }
+  if (!Object.values(config.probabilityOfDefault).every(isRate)) {
+    errors.push('Probabilities of default must be between 0% and 100%');
+  }
+  if (!isRate(config.lossGivenDefault) || !Object.values(config.lossGivenDefaultByLoanType || {}).every(isRate)) {
+    errors.push('Loss given default must be between 0% and 100%');
+  }
+
+  const sorted = [...config.bozClasses].sort((a, b) => a.minDaysPastDue - b.minDaysPastDue);
+  if (sorted.length === 0 || sorted[0].minDaysPastDue !== 0) {
+    errors.push('The first classification bucket must start at 0 days past due');
+  }
+  if (!sorted.every((rule) => isRate(rule.provisionRate))) {
+    errors.push('Classification provision rates must be between 0% and 100%');
+  }
+  if (new Set(sorted.map((rule) => rule.classification)).size !== sorted.length) {
+    errors.push('Each classification can only appear once');
+  }
+
+  return errors;
+}
+
+/**
+ * Days the oldest unpaid installment is past due at a date
+ */
+export function getDaysPastDue(installments: AllocationInstallment[], asOf: Date): number {
+  const oldestUnpaid = installments
+    .filter((installment) => installment.dueDate < asOf && sumComponents(getOutstandingComponents(installment)) > 0.005)
+    .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime())[0];
+
+  return oldestUnpaid ? Math.floor((asOf.getTime() - oldestUnpaid.dueDate.getTime()) / (1000 * 60 * 60 * 24)) : 0;
+}
+
+/**
+ * Exposure at default: all principal still owed, plus the interest, fees and
+ * penalties of installments already due
+ */
+export function getExposureAtDefault(installments: AllocationInstallment[], asOf: Date): number {
+  return roundCurrency(installments.reduce((sum, installment) => {
+    const outstanding = getOutstandingComponents(installment);
+    return sum + outstanding.principal +
+      (installment.dueDate <= asOf ? outstanding.interest + outstanding.fees + outstanding.penalties : 0);
+  }, 0));
+}
+
+/**
+ * IFRS 9 stage from days past due, default status and restructuring
+ */
+export function assignStage(input: ProvisioningExposureInput, config: ProvisioningConfig): Ifrs9Stage {
+  let stage: Ifrs9Stage = 1;
+  if (input.status === 'defaulted' || input.daysPastDue > config.stage3DaysPastDue) {
+    stage = 3;
+  } else if (input.daysPastDue > config.stage2DaysPastDue) {
+    stage = 2;
+  }
+  return input.restructured ? (Math.max(stage, config.restructuredMinimumStage) as Ifrs9Stage) : stage;
+}
+
+/**
+ * Bank of Zambia classification from days past due and restructuring
+ */
+export function classifyExposure(input: ProvisioningExposureInput, config: ProvisioningConfig): BozClassification {
+  const rules = [...config.bozClasses].sort((a, b) => a.minDaysPastDue - b.minDaysPastDue);
+  let classification = rules.filter((rule) => input.daysPastDue >= rule.minDaysPastDue).pop()?.classification || 'pass';
+  if (input.status === 'defaulted' && BOZ_CLASSIFICATIONS.indexOf(classification) < BOZ_CLASSIFICATIONS.indexOf('substandard')) {
+    classification = 'substandard';
+  }
+  if (input.restructured && BOZ_CLASSIFICATIONS.indexOf(classification) < BOZ_CLASSIFICATIONS.indexOf(config.restructuredMinimumClass)) {
+    classification = config.restructuredMinimumClass;
+  }
+  return classification;
+}
+
+/**
+ * Stage, classification and allowance for each exposure, with totals
+ */
+export function provisionExposures(
+  inputs: ProvisioningExposureInput[],
+  config: ProvisioningConfig
+): ProvisionSummary {
+  const rates = new Map(config.bozClasses.map((rule) => [rule.classification, rule.provisionRate]));
+  const byStage = { stage1: emptyBucket(), stage2: emptyBucket(), stage3: emptyBucket() };
+  const byClassification = Object.fromEntries(
+    BOZ_CLASSIFICATIONS.map((classification) => [classification, emptyBucket()])
+  ) as Record<BozClassification, ProvisionBucket>;
+
+  const exposures = inputs.map((input): ProvisionedExposure => {
+    const stage = assignStage(input, config);
+    const classification = classifyExposure(input, config);
+    const stagePd = config.probabilityOfDefault[`stage${stage}`];
+    const probabilityOfDefault = stage < 3 && config.useModelProbability && input.modelProbability !== undefined
+      ? Math.max(stagePd, input.modelProbability)
+      : stagePd;
+    const lossGivenDefault = (input.loanType ? config.lossGivenDefaultByLoanType?.[input.loanType] : undefined) ?? config.lossGivenDefault;
+    const expectedCreditLoss = roundCurrency(probabilityOfDefault * lossGivenDefault * input.exposureAtDefault);
+    const regulatoryProvision = roundCurrency((rates.get(classification) ?? 0) * input.exposureAtDefault);
+    const provision = config.framework === 'boz' ? regulatoryProvision : expectedCreditLoss;
+
+    for (const bucket of [byStage[`stage${stage}`], byClassification[classification]]) {
+      bucket.count++;
+      bucket.exposure = roundCurrency(bucket.exposure + input.exposureAtDefault);
+      bucket.provision = roundCurrency(bucket.provision + provision);
+    }
+
+    return {
+      ...input,
+      stage,
+      classification,
+      probabilityOfDefault,
+      lossGivenDefault,
+      expectedCreditLoss,
+      regulatoryProvision,
+      provision,
+    };
+  });
+
+  return {
+    framework: config.framework,
+    exposures,
+    totalExposure: roundCurrency(exposures.reduce((sum, exposure) => sum + exposure.exposureAtDefault, 0)),
+    totalProvision: roundCurrency(exposures.reduce((sum, exposure) => sum + exposure.provision, 0)),
+    byStage,
+    byClassification,
+  };
+}
+
+/**
+ * Opening, charge and closing allowance for a period
+ */
+export function buildProvisionMovement(opening: number, closing: number): ProvisionMovement {
+  return {
+    opening: roundCurrency(opening),
+    charge: roundCurrency(closing - opening),
+    closing: roundCurrency(closing),
+  };
+}
+
+/**
+ * Overdue count and payment rate from a loan's repayment documents
+ */
+export function getRepaymentRiskFacts(
+  repayments: any[],
+  asOf: Date
+): Pick<DefaultRiskFacts, 'overdueInstallments' | 'paymentRate'> {
+  const overdueInstallments = repayments.filter((r: any) => {
+    if (r.status === 'paid') return false;
+    const dueDate = r.dueDate?.toDate?.() || new Date(r.dueDate);
+    return dueDate < asOf;
+  }).length;
+  const paid = repayments.filter((r: any) => r.status === 'paid').length;
+
+  return {
+    overdueInstallments,
+    paymentRate: repayments.length > 0 ? paid / repayments.length : 1,
+  };
+}
+
+/**
+ * Heuristic probability of default over the next 90 days
+ */
+export function estimateProbabilityOfDefault(facts: DefaultRiskFacts): { probability: number; factors: string[] } {
+  const factors: string[] = [];
+  let probability = 0.1; // Base 10%
+
+  if (facts.overdueInstallments > 0) {
+    probability += 0.3;
+    factors.push(`${facts.overdueInstallments} overdue repayment(s)`);
+  }
+
+  if (facts.paymentRate < 0.7) {
+    probability += 0.2;
+    factors.push(`Low payment rate: ${Math.round(facts.paymentRate * 100)}%`);
+  }
+
+  const riskScore = facts.riskScore || 50;
+  if (riskScore > 70) {
+    probability += 0.2;
+    factors.push(`High risk score: ${riskScore}/100`);
+  }
+
+  if (facts.monthlyIncome && facts.monthlyIncome > 0 && facts.loanAmount > facts.monthlyIncome * 12) {
+    probability += 0.15;
+    factors.push('Loan amount exceeds annual income');
+  }
+
+  return { probability: Math.round(Math.min(0.95, probability) * 100) / 100, factors };
+}
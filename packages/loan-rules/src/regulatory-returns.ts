@@ -0,0 +1,541 @@
+/**
+ * Regulatory Returns
+ *
+ * Builds the prudential returns a non-bank financial institution files with
+ * the Bank of Zambia from the loan book at a reporting date: portfolio at risk
+ * by bucket, sectoral distribution, large exposures, insider loans and the
+ * interest rate disclosure. The returns are cross-checked before submission.
+ * Used by both frontend and Cloud Functions
+ */
+
+import type { BozClassification } from './provisioning';
+import { roundCurrency } from './utils';
+
+export type RegulatoryReturnId =
+  | 'portfolio_at_risk'
+  | 'sectoral_distribution'
+  | 'large_exposures'
+  | 'insider_loans'
+  | 'interest_rate_disclosure';
+
+export type EconomicSector =
+  | 'agriculture'
+  | 'mining'
+  | 'manufacturing'
+  | 'energy'
+  | 'construction'
+  | 'trade'
+  | 'hospitality'
+  | 'transport'
+  | 'financial'
+  | 'real_estate'
+  | 'services'
+  | 'households'
+  | 'other';
+
+export const ECONOMIC_SECTORS: Record<EconomicSector, string> = {
+  agriculture: 'Agriculture, forestry and fishing',
+  mining: 'Mining and quarrying',
+  manufacturing: 'Manufacturing',
+  energy: 'Electricity, gas and water',
+  construction: 'Construction',
+  trade: 'Wholesale and retail trade',
+  hospitality: 'Restaurants and hotels',
+  transport: 'Transport, storage and communications',
+  financial: 'Financial services',
+  real_estate: 'Real estate',
+  services: 'Community, social and personal services',
+  households: 'Personal loans to households',
+  other: 'Other',
+};
+
+// Loan types whose borrowers are households by construction; business loans
+// have to be classified on the loan or the customer
+const HOUSEHOLD_LOAN_TYPES = ['salary_based', 'personal_unsecured', 'education', 'medical', 'emergency'];
+
+export interface RegulatoryConfig {
+  institutionName: string;
+  licenceNumber: string;
+  regulatoryCapital: number; // Core capital at the reporting date
+  largeExposurePct: number; // Exposure to one borrower reported as large, % of capital
+  singleObligorLimitPct: number; // Most that may be lent to one borrower, % of capital
+  insiderLimitPct: number; // Most that may be lent to insiders together, % of capital
+}
+
+export const DEFAULT_REGULATORY_CONFIG: RegulatoryConfig = {
+  institutionName: '',
+  licenceNumber: '',
+  regulatoryCapital: 0,
+  largeExposurePct: 10,
+  singleObligorLimitPct: 25,
+  insiderLimitPct: 10,
+};
+
+/**
+ * A loan as the returns see it at the reporting date. Loans repaid during the
+ * period are off the book but still count in the interest rate disclosure.
+ */
+export interface RegulatoryExposure {
+  loanId: string;
+  onBook: boolean;
+  customerId: string;
+  customerName: string;
+  loanType?: string;
+  status: string;
+  sector?: EconomicSector; // Undefined when the loan has not been classified
+  principalOutstanding: number;
+  daysPastDue: number;
+  classification: BozClassification;
+  annualRate: number; // Nominal, %
+  disbursedAmount: number;
+  disbursedOn?: string; // YYYY-MM-DD
+  scheduledPayments?: Array<{ date: string; amount: number }>; // Principal, interest and fees as contracted
+  insiderRelationship?: string;
+}
+
+export type ReturnValueFormat = 'text' | 'count' | 'amount' | 'percent';
+
+export interface ReturnColumn {
+  key: string;
+  label: string;
+  format: ReturnValueFormat;
+}
+
+export type ReturnRow = Record<string, string | number>;
+
+export interface RegulatoryReturn {
+  id: RegulatoryReturnId;
+  code: string;
+  title: string;
+  columns: ReturnColumn[];
+  rows: ReturnRow[];
+  totals?: ReturnRow;
+  summary: Array<{ label: string; value: number; format: ReturnValueFormat }>;
+}
+
+export interface ReportPack {
+  institutionName: string;
+  licenceNumber: string;
+  periodStart: string; // YYYY-MM-DD
+  asOf: string; // YYYY-MM-DD, the reporting date
+  regulatoryCapital: number;
+  returns: RegulatoryReturn[];
+}
+
+export interface ReportValidationIssue {
+  severity: 'error' | 'warning';
+  returnId?: RegulatoryReturnId;
+  message: string;
+}
+
+const NON_PERFORMING: BozClassification[] = ['substandard', 'doubtful', 'loss'];
+
+const PAR_BUCKETS: Array<{ label: string; min: number; max: number }> = [
+  { label: 'Current', min: 0, max: 0 },
+  { label: '1-30 days', min: 1, max: 30 },
+  { label: '31-60 days', min: 31, max: 60 },
+  { label: '61-90 days', min: 61, max: 90 },
+  { label: '91-180 days', min: 91, max: 180 },
+  { label: '181-365 days', min: 181, max: 365 },
+  { label: 'Over 365 days', min: 366, max: Infinity },
+];
+
+function toPercent(part: number, whole: number): number {
+  return whole > 0 ? Math.round((part / whole) * 10000) / 100 : 0;
+}
+
+function sumPrincipal(exposures: RegulatoryExposure[]): number {
+  return roundCurrency(exposures.reduce((sum, exposure) => sum + exposure.principalOutstanding, 0));
+}
+
+/**
+ * Fill a stored config with the defaults
+ */
+export function resolveRegulatoryConfig(stored?: Partial<RegulatoryConfig> | null): RegulatoryConfig {
+  return { ...DEFAULT_REGULATORY_CONFIG, ...(stored || {}) };
+}
+
+/**
+ * Sector a loan is reported under: set on the loan, else on the customer,
+ * else implied by a consumer loan type
+ */
+export function resolveEconomicSector(
+  loanSector: unknown,
+  customerSector: unknown,
+  loanType?: string
+): EconomicSector | undefined {
+  for (const sector of [loanSector, customerSector]) {
+    if (typeof sector === 'string' && sector in ECONOMIC_SECTORS) {
+      return sector as EconomicSector;
+    }
+  }
+  return loanType && HOUSEHOLD_LOAN_TYPES.includes(loanType) ? 'households' : undefined;
+}
+
+/**
+ * Annual percentage rate: the yearly rate at which the contracted payments
+ * discount back to the amount advanced, so fees count as cost of credit
+ */
+export function computeAnnualPercentageRate(
+  amountAdvanced: number,
+  advancedOn: string,
+  payments: Array<{ date: string; amount: number }>
+): number | null {
+  const start = new Date(`${advancedOn}T00:00:00Z`).getTime();
+  const flows = payments
+    .map((payment) => ({
+      years: (new Date(`${payment.date}T00:00:00Z`).getTime() - start) / (365 * 24 * 60 * 60 * 1000),
+      amount: payment.amount,
+    }))
+    .filter((flow) => flow.years > 0 && flow.amount > 0);
+
+  const totalRepaid = flows.reduce((sum, flow) => sum + flow.amount, 0);
+  if (amountAdvanced <= 0 || flows.length === 0 || totalRepaid < amountAdvanced) {
+    return null;
+  }
+
+  const presentValue = (rate: number) =>
+    flows.reduce((sum, flow) => sum + flow.amount / Math.pow(1 + rate, flow.years), 0);
+
+  // Present value falls as the rate rises; bisect between 0% and 10,000%
+  let low = 0;
+  let high = 100;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    if (presentValue(mid) > amountAdvanced) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return Math.round(((low + high) / 2) * 10000) / 100;
+}
+
+/**
+ * Portfolio at risk: principal outstanding by days past due
+ */
+export function buildPortfolioAtRiskReturn(exposures: RegulatoryExposure[]): RegulatoryReturn {
+  const total = sumPrincipal(exposures);
+  const rows = PAR_BUCKETS.map((bucket) => {
+    const inBucket = exposures.filter((e) => e.daysPastDue >= bucket.min && e.daysPastDue <= bucket.max);
+    const principal = sumPrincipal(inBucket);
+    return { bucket: bucket.label, loans: inBucket.length, principalOutstanding: principal, share: toPercent(principal, total) };
+  });
+
+  const atRisk = (days: number) => sumPrincipal(exposures.filter((e) => e.daysPastDue > days));
+  const nonPerforming = sumPrincipal(exposures.filter((e) => NON_PERFORMING.includes(e.classification)));
+
+  return {
+    id: 'portfolio_at_risk',
+    code: 'PAR',
+    title: 'Portfolio at Risk',
+    columns: [
+      { key: 'bucket', label: 'Days Past Due', format: 'text' },
+      { key: 'loans', label: 'Number of Loans', format: 'count' },
+      { key: 'principalOutstanding', label: 'Principal Outstanding', format: 'amount' },
+      { key: 'share', label: '% of Gross Loans', format: 'percent' },
+    ],
+    rows,
+    totals: { bucket: 'Total', loans: exposures.length, principalOutstanding: total, share: total > 0 ? 100 : 0 },
+    summary: [
+      { label: 'Gross loans outstanding', value: total, format: 'amount' },
+      { label: 'PAR > 30 days', value: toPercent(atRisk(30), total), format: 'percent' },
+      { label: 'PAR > 90 days', value: toPercent(atRisk(90), total), format: 'percent' },
+      { label: 'Non-performing loans (substandard, doubtful, loss)', value: nonPerforming, format: 'amount' },
+      { label: 'Non-performing loan ratio', value: toPercent(nonPerforming, total), format: 'percent' },
+    ],
+  };
+}
+
+/**
+ * Sectoral distribution: principal outstanding and non-performing loans by economic sector
+ */
+export function buildSectoralDistributionReturn(exposures: RegulatoryExposure[]): RegulatoryReturn {
+  const total = sumPrincipal(exposures);
+  const rows = (Object.keys(ECONOMIC_SECTORS) as EconomicSector[]).map((sector) => {
+    const inSector = exposures.filter((e) => (e.sector || 'other') === sector);
+    const principal = sumPrincipal(inSector);
+    const nonPerforming = sumPrincipal(inSector.filter((e) => NON_PERFORMING.includes(e.classification)));
+    return {
+      sector: ECONOMIC_SECTORS[sector],
+      loans: inSector.length,
+      principalOutstanding: principal,
+      share: toPercent(principal, total),
+      nonPerforming,
+      nonPerformingRatio: toPercent(nonPerforming, principal),
+    };
+  });
+  const nonPerforming = sumPrincipal(exposures.filter((e) => NON_PERFORMING.includes(e.classification)));
+
+  return {
+    id: 'sectoral_distribution',
+    code: 'SECT',
+    title: 'Sectoral Distribution of Loans',
+    columns: [
+      { key: 'sector', label: 'Economic Sector', format: 'text' },
+      { key: 'loans', label: 'Number of Loans', format: 'count' },
+      { key: 'principalOutstanding', label: 'Principal Outstanding', format: 'amount' },
+      { key: 'share', label: '% of Gross Loans', format: 'percent' },
+      { key: 'nonPerforming', label: 'Non-performing Loans', format: 'amount' },
+      { key: 'nonPerformingRatio', label: 'NPL Ratio (%)', format: 'percent' },
+    ],
+    rows,
+    totals: {
+      sector: 'Total',
+      loans: exposures.length,
+      principalOutstanding: total,
+      share: total > 0 ? 100 : 0,
+      nonPerforming,
+      nonPerformingRatio: toPercent(nonPerforming, total),
+    },
+    summary: [
+      { label: 'Loans not classified by sector (reported as Other)', value: exposures.filter((e) => !e.sector).length, format: 'count' },
+    ],
+  };
+}
+
+/**
+ * Large exposures: borrowers owing at least the large exposure threshold of capital
+ */
+export function buildLargeExposuresReturn(exposures: RegulatoryExposure[], config: RegulatoryConfig): RegulatoryReturn {
+  const byBorrower = new Map<string, { name: string; loans: number; principal: number }>();
+  for (const exposure of exposures) {
+    const borrower = byBorrower.get(exposure.customerId) || { name: exposure.customerName, loans: 0, principal: 0 };
+    borrower.loans += 1;
+    borrower.principal += exposure.principalOutstanding;
+    byBorrower.set(exposure.customerId, borrower);
+  }
+
+  const capital = config.regulatoryCapital;
+  const rows = capital > 0
+    ? [...byBorrower.entries()]
+        .map(([customerId, borrower]) => ({
+          customerId,
+          borrower: borrower.name,
+          loans: borrower.loans,
+          exposure: roundCurrency(borrower.principal),
+          capitalShare: toPercent(borrower.principal, capital),
+        }))
+        .filter((row) => row.capitalShare >= config.largeExposurePct)
+        .sort((a, b) => b.exposure - a.exposure)
+        .map((row) => ({ ...row, breachesLimit: row.capitalShare > config.singleObligorLimitPct ? 'Yes' : 'No' }))
+    : [];
+  const totalLarge = roundCurrency(rows.reduce((sum, row) => sum + row.exposure, 0));
+
+  return {
+    id: 'large_exposures',
+    code: 'LEXP',
+    title: 'Large Exposures',
+    columns: [
+      { key: 'borrower', label: 'Borrower', format: 'text' },
+      { key: 'customerId', label: 'Customer ID', format: 'text' },
+      { key: 'loans', label: 'Number of Loans', format: 'count' },
+      { key: 'exposure', label: 'Principal Outstanding', format: 'amount' },
+      { key: 'capitalShare', label: '% of Regulatory Capital', format: 'percent' },
+      { key: 'breachesLimit', label: 'Above Single Obligor Limit', format: 'text' },
+    ],
+    rows,
+    totals: { borrower: 'Total', customerId: '', loans: rows.reduce((sum, row) => sum + row.loans, 0), exposure: totalLarge, capitalShare: toPercent(totalLarge, capital), breachesLimit: '' },
+    summary: [
+      { label: 'Regulatory capital', value: capital, format: 'amount' },
+      { label: 'Large exposure threshold (% of capital)', value: config.largeExposurePct, format: 'percent' },
+      { label: 'Single obligor limit (% of capital)', value: config.singleObligorLimitPct, format: 'percent' },
+    ],
+  };
+}
+
+/**
+ * Insider loans: lending to directors, shareholders, staff and their related parties
+ */
+export function buildInsiderLoansReturn(exposures: RegulatoryExposure[], config: RegulatoryConfig): RegulatoryReturn {
+  const insiders = exposures.filter((e) => e.insiderRelationship);
+  const total = sumPrincipal(insiders);
+
+  return {
+    id: 'insider_loans',
+    code: 'INSD',
+    title: 'Insider Loans',
+    columns: [
+      { key: 'borrower', label: 'Borrower', format: 'text' },
+      { key: 'relationship', label: 'Relationship', format: 'text' },
+      { key: 'loanId', label: 'Loan ID', format: 'text' },
+      { key: 'disbursedOn', label: 'Date Disbursed', format: 'text' },
+      { key: 'disbursedAmount', label: 'Amount Disbursed', format: 'amount' },
+      { key: 'principalOutstanding', label: 'Principal Outstanding', format: 'amount' },
+      { key: 'annualRate', label: 'Interest Rate (%)', format: 'percent' },
+      { key: 'classification', label: 'Classification', format: 'text' },
+    ],
+    rows: insiders.map((e) => ({
+      borrower: e.customerName,
+      relationship: e.insiderRelationship!,
+      loanId: e.loanId,
+      disbursedOn: e.disbursedOn || '',
+      disbursedAmount: e.disbursedAmount,
+      principalOutstanding: e.principalOutstanding,
+      annualRate: e.annualRate,
+      classification: e.classification,
+    })),
+    totals: {
+      borrower: 'Total',
+      relationship: '',
+      loanId: '',
+      disbursedOn: '',
+      disbursedAmount: roundCurrency(insiders.reduce((sum, e) => sum + e.disbursedAmount, 0)),
+      principalOutstanding: total,
+      annualRate: '',
+      classification: '',
+    },
+    summary: [
+      { label: 'Insider loans outstanding', value: total, format: 'amount' },
+      { label: 'Insider loans (% of regulatory capital)', value: toPercent(total, config.regulatoryCapital), format: 'percent' },
+      { label: 'Insider lending limit (% of capital)', value: config.insiderLimitPct, format: 'percent' },
+    ],
+  };
+}
+
+/**
+ * Interest rate disclosure: nominal rates and the annual percentage rate of
+ * loans disbursed in the period, by product
+ */
+export function buildInterestRateDisclosureReturn(
+  exposures: RegulatoryExposure[],
+  periodStart: string,
+  asOf: string
+): RegulatoryReturn {
+  const disbursed = exposures.filter((e) => e.disbursedOn && e.disbursedOn >= periodStart && e.disbursedOn <= asOf);
+  const products = [...new Set(disbursed.map((e) => e.loanType || 'unspecified'))].sort();
+
+  const rows = products.map((product) => {
+    const loans = disbursed.filter((e) => (e.loanType || 'unspecified') === product);
+    const amount = loans.reduce((sum, e) => sum + e.disbursedAmount, 0);
+    const rates = loans.map((e) => e.annualRate);
+    const priced = loans
+      .map((e) => ({ amount: e.disbursedAmount, apr: computeAnnualPercentageRate(e.disbursedAmount, e.disbursedOn!, e.scheduledPayments || []) }))
+      .filter((loan): loan is { amount: number; apr: number } => loan.apr !== null);
+    const pricedAmount = priced.reduce((sum, loan) => sum + loan.amount, 0);
+
+    return {
+      product: product.replace(/_/g, ' '),
+      loans: loans.length,
+      amountDisbursed: roundCurrency(amount),
+      minimumRate: Math.min(...rates),
+      maximumRate: Math.max(...rates),
+      weightedRate: amount > 0 ? Math.round((loans.reduce((sum, e) => sum + e.annualRate * e.disbursedAmount, 0) / amount) * 100) / 100 : 0,
+      weightedApr: pricedAmount > 0 ? Math.round((priced.reduce((sum, loan) => sum + loan.apr * loan.amount, 0) / pricedAmount) * 100) / 100 : 0,
+    };
+  });
+
+  return {
+    id: 'interest_rate_disclosure',
+    code: 'RATE',
+    title: 'Interest Rate Disclosure',
+    columns: [
+      { key: 'product', label: 'Product', format: 'text' },
+      { key: 'loans', label: 'Loans Disbursed', format: 'count' },
+      { key: 'amountDisbursed', label: 'Amount Disbursed', format: 'amount' },
+      { key: 'minimumRate', label: 'Minimum Nominal Rate (%)', format: 'percent' },
+      { key: 'maximumRate', label: 'Maximum Nominal Rate (%)', format: 'percent' },
+      { key: 'weightedRate', label: 'Weighted Nominal Rate (%)', format: 'percent' },
+      { key: 'weightedApr', label: 'Weighted APR (%)', format: 'percent' },
+    ],
+    rows,
+    summary: [
+      { label: 'Loans disbursed in the period', value: disbursed.length, format: 'count' },
+    ],
+  };
+}
+
+/**
+ * All returns for a reporting period
+ */
+export function buildReportPack(
+  exposures: RegulatoryExposure[],
+  config: RegulatoryConfig,
+  period: { start: string; asOf: string }
+): ReportPack {
+  const book = exposures.filter((e) => e.onBook);
+  return {
+    institutionName: config.institutionName,
+    licenceNumber: config.licenceNumber,
+    periodStart: period.start,
+    asOf: period.asOf,
+    regulatoryCapital: config.regulatoryCapital,
+    returns: [
+      buildPortfolioAtRiskReturn(book),
+      buildSectoralDistributionReturn(book),
+      buildLargeExposuresReturn(book, config),
+      buildInsiderLoansReturn(book, config),
+      buildInterestRateDisclosureReturn(exposures, period.start, period.asOf),
+    ],
+  };
+}
+
+/**
+ * Checks a pack must pass before it is submitted. Errors block submission;
+ * warnings are for the compliance officer to review.
+ */
+export function validateReportPack(
+  pack: ReportPack,
+  exposures: RegulatoryExposure[],
+  config: RegulatoryConfig
+): ReportValidationIssue[] {
+  const issues: ReportValidationIssue[] = [];
+  const find = (id: RegulatoryReturnId) => pack.returns.find((r) => r.id === id);
+
+  if (!config.institutionName.trim()) {
+    issues.push({ severity: 'error', message: 'Institution name is not set' });
+  }
+  if (!config.licenceNumber.trim()) {
+    issues.push({ severity: 'error', message: 'Licence number is not set' });
+  }
+  if (!(config.regulatoryCapital > 0)) {
+    issues.push({ severity: 'error', returnId: 'large_exposures', message: 'Regulatory capital is not set, so large exposures and insider limits cannot be measured' });
+  }
+
+  // Every return must account for the same gross portfolio
+  const book = exposures.filter((e) => e.onBook);
+  const gross = sumPrincipal(book);
+  const par = find('portfolio_at_risk');
+  const parBuckets = roundCurrency((par?.rows || []).reduce((sum, row) => sum + Number(row.principalOutstanding), 0));
+  if (Math.abs(parBuckets - gross) > 0.01) {
+    issues.push({ severity: 'error', returnId: 'portfolio_at_risk', message: `PAR buckets total ${parBuckets.toFixed(2)} but gross loans are ${gross.toFixed(2)}` });
+  }
+  const sectors = find('sectoral_distribution');
+  const sectorTotal = roundCurrency((sectors?.rows || []).reduce((sum, row) => sum + Number(row.principalOutstanding), 0));
+  if (Math.abs(sectorTotal - parBuckets) > 0.01) {
+    issues.push({ severity: 'error', returnId: 'sectoral_distribution', message: `Sectoral distribution totals ${sectorTotal.toFixed(2)} but portfolio at risk totals ${parBuckets.toFixed(2)}` });
+  }
+
+  const negative = book.filter((e) => e.principalOutstanding < 0);
+  if (negative.length > 0) {
+    issues.push({ severity: 'error', message: `${negative.length} loan(s) have a negative principal balance: ${negative.slice(0, 5).map((e) => e.loanId).join(', ')}` });
+  }
+
+  const unclassified = book.filter((e) => !e.sector);
+  if (unclassified.length > 0) {
+    issues.push({ severity: 'warning', returnId: 'sectoral_distribution', message: `${unclassified.length} loan(s) have no economic sector and are reported under Other` });
+  }
+
+  for (const row of find('large_exposures')?.rows || []) {
+    if (row.breachesLimit === 'Yes') {
+      issues.push({ severity: 'warning', returnId: 'large_exposures', message: `${row.borrower} owes ${row.capitalShare}% of capital, above the ${config.singleObligorLimitPct}% single obligor limit` });
+    }
+  }
+
+  const insiderShare = find('insider_loans')?.summary.find((item) => item.label.startsWith('Insider loans (%'))?.value || 0;
+  if (config.regulatoryCapital > 0 && insiderShare > config.insiderLimitPct) {
+    issues.push({ severity: 'warning', returnId: 'insider_loans', message: `Insider loans are ${insiderShare}% of capital, above the ${config.insiderLimitPct}% limit` });
+  }
+
+  const disbursed = exposures.filter((e) => e.disbursedOn && e.disbursedOn >= pack.periodStart && e.disbursedOn <= pack.asOf);
+  const unpriced = disbursed.filter((e) => !(e.annualRate > 0));
+  if (unpriced.length > 0) {
+    issues.push({ severity: 'warning', returnId: 'interest_rate_disclosure', message: `${unpriced.length} loan(s) disbursed in the period have no interest rate` });
+  }
+  const noSchedule = disbursed.filter((e) => computeAnnualPercentageRate(e.disbursedAmount, e.disbursedOn!, e.scheduledPayments || []) === null);
+  if (noSchedule.length > 0) {
+    issues.push({ severity: 'warning', returnId: 'interest_rate_disclosure', message: `${noSchedule.length} loan(s) disbursed in the period have no usable schedule and are left out of the APR` });
+  }
+
+  return issues;
+}
@@ -0,0 +1,206 @@
+/**
+ * Collateral Repossession and Liquidation
+ *
+ * A repossession case follows a secured asset from the notice of intention to
+ * repossess, through seizure and storage, to its sale. Each step waits out the
+ * notice period the agency gives the borrower, and a statutory notice is
+ * issued at each one. Sale proceeds, less the costs of repossession, go to the
+ * loan up to what is owed; anything left over is returned to the borrower.
+ * Used by both frontend and Cloud Functions
+ */
+
+import { roundCurrency } from './utils';
+
+/**
+ * Case lifecycle
+ * Notified → Seized → Listed → Sold → Closed
+ *    ↓          ↓        ↓
+ * Cancelled  Redeemed ←──┘
+ */
+export type RepossessionStatus =
+  | 'notified' // Notice of intention issued, the borrower may still bring the loan up to date
+  | 'seized' // Asset taken into possession and in storage
+  | 'listed' // Notice of sale issued, the sale is scheduled
+  | 'sold' // Proceeds applied to the loan, a surplus is still owed to the borrower
+  | 'redeemed' // Borrower paid up and the asset was handed back
+  | 'cancelled' // Arrears cleared before the asset was seized
+  | 'closed'; // Sold and settled with the borrower
+
+export const REPOSSESSION_TRANSITIONS: Record<RepossessionStatus, RepossessionStatus[]> = {
+  notified: ['seized', 'cancelled'],
+  seized: ['listed', 'redeemed'],
+  listed: ['sold', 'redeemed'],
+  sold: ['closed'],
+  redeemed: [],
+  cancelled: [],
+  closed: [],
+};
+
+export const OPEN_REPOSSESSION_STATUSES: RepossessionStatus[] = ['notified', 'seized', 'listed', 'sold'];
+
+// Loan statuses whose collateral can be repossessed
+export const REPOSSESSION_LOAN_STATUSES = ['overdue', 'restructured', 'defaulted', 'written_off'];
+
+export type RepossessionNoticeType = 'intent' | 'seizure' | 'sale' | 'statement';
+
+export const REPOSSESSION_NOTICES: Record<RepossessionNoticeType, string> = {
+  intent: 'Notice of Intention to Repossess',
+  seizure: 'Notice of Repossession',
+  sale: 'Notice of Intended Sale',
+  statement: 'Statement of Account after Sale',
+};
+
+export type RepossessionCostType = 'seizure' | 'transport' | 'storage' | 'valuation' | 'sale' | 'other';
+
+export const REPOSSESSION_COST_TYPES: Record<RepossessionCostType, string> = {
+  seizure: 'Seizure',
+  transport: 'Transport',
+  storage: 'Storage',
+  valuation: 'Valuation',
+  sale: 'Auctioneer / sale',
+  other: 'Other',
+};
+
+export type RepossessionSaleMethod = 'auction' | 'private_sale';
+
+export interface RepossessionCost {
+  type: RepossessionCostType;
+  amount: number;
+  date: Date;
+  description?: string;
+}
+
+export interface RepossessionConfig {
+  remedyPeriodDays: number; // From the notice of intention until the asset can be seized
+  redemptionPeriodDays: number; // From seizure until the asset can be sold
+  saleNoticeDays: number; // From the notice of sale until the sale
+  deductCostsFromProceeds: boolean; // Recover repossession costs from the proceeds before the loan
+}
+
+export const DEFAULT_REPOSSESSION_CONFIG: RepossessionConfig = {
+  remedyPeriodDays: 14,
+  redemptionPeriodDays: 14,
+  saleNoticeDays: 7,
+  deductCostsFromProceeds: true,
+};
+
+/**
+ * What the asset was worth when it was seized, from the collateral price estimate
+ */
+export interface SeizureValuation {
+  marketValue: number;
+  quickSaleValue: number;
+  auctionValue: number;
+  recommendedAction: 'sell' | 'hold' | 'auction';
+  confidence: 'high' | 'medium' | 'low';
+}
+
+export interface LiquidationResult {
+  grossProceeds: number;
+  costs: number;
+  netProceeds: number;
+  amountOwed: number; // Loan balance (or unrecovered write-off) on the sale date
+  appliedToLoan: number;
+  surplus: number; // Returned to the borrower
+  shortfall: number; // Still owed on the loan after the sale
+}
+
+function toNonNegativeInteger(value: unknown, fallback: number): number {
+  const number = Number(value);
+  return Number.isFinite(number) && number >= 0 ? Math.floor(number) : fallback;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+/**
+ * Stored repossession config merged over the defaults
+ */
+export function resolveRepossessionConfig(stored?: Partial<RepossessionConfig> | null): RepossessionConfig {
+  return {
+    remedyPeriodDays: toNonNegativeInteger(stored?.remedyPeriodDays, DEFAULT_REPOSSESSION_CONFIG.remedyPeriodDays),
+    redemptionPeriodDays: toNonNegativeInteger(stored?.redemptionPeriodDays, DEFAULT_REPOSSESSION_CONFIG.redemptionPeriodDays),
+    saleNoticeDays: toNonNegativeInteger(stored?.saleNoticeDays, DEFAULT_REPOSSESSION_CONFIG.saleNoticeDays),
+    deductCostsFromProceeds: typeof stored?.deductCostsFromProceeds === 'boolean'
+      ? stored.deductCostsFromProceeds
+      : DEFAULT_REPOSSESSION_CONFIG.deductCostsFromProceeds,
+  };
+}
+
+export function canTransitionRepossession(from: RepossessionStatus, to: RepossessionStatus): boolean {
+  return REPOSSESSION_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * The asset can be seized once the remedy period after the notice of intention has passed
+ */
+export function getEarliestSeizureDate(intentNoticeAt: Date, config: RepossessionConfig): Date {
+  return addDays(intentNoticeAt, config.remedyPeriodDays);
+}
+
+/**
+ * Until this date the borrower can redeem the seized asset by paying what is owed
+ */
+export function getRedemptionEndDate(seizedAt: Date, config: RepossessionConfig): Date {
+  return addDays(seizedAt, config.redemptionPeriodDays);
+}
+
+/**
+ * The asset can be sold once the redemption period after seizure has passed
+ * and the borrower has had the notice of sale for the full notice period
+ */
+export function getEarliestSaleDate(seizedAt: Date, saleNoticeAt: Date, config: RepossessionConfig): Date {
+  const afterRedemption = getRedemptionEndDate(seizedAt, config);
+  const afterNotice = addDays(saleNoticeAt, config.saleNoticeDays);
+  return afterRedemption > afterNotice ? afterRedemption : afterNotice;
+}
+
+/**
+ * Auction when the valuation recommends it, otherwise a private sale
+ */
+export function getRecommendedSaleMethod(valuation: SeizureValuation): RepossessionSaleMethod {
+  return valuation.recommendedAction === 'auction' ? 'auction' : 'private_sale';
+}
+
+/**
+ * The lowest price to accept: the auction estimate at auction, the quick-sale
+ * estimate in a private sale
+ */
+export function getReservePrice(valuation: SeizureValuation, method: RepossessionSaleMethod): number {
+  return roundCurrency(method === 'auction' ? valuation.auctionValue : valuation.quickSaleValue);
+}
+
+export function sumRepossessionCosts(costs: RepossessionCost[]): number {
+  return roundCurrency(costs.reduce((sum, cost) => sum + cost.amount, 0));
+}
+
+/**
+ * Split sale proceeds between the loan and the borrower. Costs come off the
+ * proceeds first when the agency recovers them that way; the loan takes what
+ * is owed and any surplus belongs to the borrower.
+ */
+export function computeLiquidation(input: {
+  grossProceeds: number;
+  costs: RepossessionCost[];
+  amountOwed: number;
+  deductCosts: boolean;
+}): LiquidationResult {
+  const grossProceeds = roundCurrency(input.grossProceeds);
+  const costs = sumRepossessionCosts(input.costs);
+  const amountOwed = roundCurrency(Math.max(0, input.amountOwed));
+  const netProceeds = input.deductCosts ? roundCurrency(Math.max(0, grossProceeds - costs)) : grossProceeds;
+  const appliedToLoan = Math.min(netProceeds, amountOwed);
+
+  return {
+    grossProceeds,
+    costs,
+    netProceeds,
+    amountOwed,
+    appliedToLoan,
+    surplus: roundCurrency(netProceeds - appliedToLoan),
+    shortfall: roundCurrency(amountOwed - appliedToLoan),
+  };
+}
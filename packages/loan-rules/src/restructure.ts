@@ -0,0 +1,120 @@
+/**
+ * Loan Restructuring Rules
+ *
+ * Pure restructure planning: capitalizes arrears into a new principal and
+ * builds the replacement schedule on the new rate, term and frequency.
+ * Used by both frontend and Cloud Functions
+ */
+
+import {
+  emptyComponents,
+  getOutstandingComponents,
+  sumComponents,
+  type AllocationInstallment,
+  type ComponentAmounts,
+} from './allocation';
+import type { BusinessCalendar, DayCountConvention } from './calendar';
+import {
+  buildAmortizationSchedule,
+  type AmortizationSchedule,
+  type InterestCalculationMethod,
+  type RepaymentFrequency,
+  type ScheduleFees,
+} from './schedule';
+import { roundCurrency } from './utils';
+
+/**
+ * New terms offered in a restructure
+ */
+export interface RestructureTerms {
+  annualRate: number; // Percentage (e.g., 12 = 12%)
+  durationMonths: number;
+  frequency: RepaymentFrequency;
+  method?: InterestCalculationMethod;
+  customIntervalDays?: number;
+  capitalizePenalties: boolean; // Otherwise overdue late fees are waived
+}
+
+export interface RestructurePlanInput {
+  installments: AllocationInstallment[]; // Current schedule, including paid installments
+  restructureDate: Date;
+  terms: RestructureTerms;
+  fees?: ScheduleFees;
+  dayCount?: DayCountConvention;
+  calendar?: BusinessCalendar;
+}
+
+export interface RestructurePlan {
+  outstandingPrincipal: number; // Principal not yet repaid, due or not
+  arrears: ComponentAmounts; // Overdue amounts on installments due by the restructure date
+  capitalizedAmount: number; // Overdue interest, fees and (optionally) penalties added to principal
+  waivedPenalties: number;
+  newPrincipal: number;
+  closedInstallmentIds: string[]; // Due or partly paid installments closed out at what was paid
+  removedInstallmentIds: string[]; // Future installments with nothing paid, replaced by the new schedule
+  schedule: AmortizationSchedule;
+}
+
+/**
+ * Plan a restructure of the unpaid part of a schedule
+ *
+ * Every unpaid installment is superseded. Those already due (or partly paid)
+ * are closed out at what was paid so their payment history stays intact; the
+ * rest are removed. Unearned interest on future installments is dropped and
+ * re-accrues on the new schedule.
+ */
+export function buildRestructurePlan(input: RestructurePlanInput): RestructurePlan {
+  const arrears = emptyComponents();
+  const closedInstallmentIds: string[] = [];
+  const removedInstallmentIds: string[] = [];
+  let outstandingPrincipal = 0;
+
+  for (const installment of input.installments) {
+    const outstanding = getOutstandingComponents(installment);
+    if (sumComponents(outstanding) <= 0) continue;
+
+    outstandingPrincipal = roundCurrency(outstandingPrincipal + outstanding.principal);
+
+    const isDue = installment.dueDate.getTime() <= input.restructureDate.getTime();
+    if (isDue) {
+      arrears.fees = roundCurrency(arrears.fees + outstanding.fees);
+      arrears.penalties = roundCurrency(arrears.penalties + outstanding.penalties);
+      arrears.interest = roundCurrency(arrears.interest + outstanding.interest);
+      arrears.principal = roundCurrency(arrears.principal + outstanding.principal);
+    }
+
+    if (isDue || sumComponents(installment.paid) > 0) {
+      closedInstallmentIds.push(installment.id);
+    } else {
+      removedInstallmentIds.push(installment.id);
+    }
+  }
+
+  const capitalizedPenalties = input.terms.capitalizePenalties ? arrears.penalties : 0;
+  const capitalizedAmount = roundCurrency(arrears.fees + arrears.interest + capitalizedPenalties);
+  const newPrincipal = roundCurrency(outstandingPrincipal + capitalizedAmount);
+
+  const schedule = buildAmortizationSchedule({
+    principal: newPrincipal,
+    annualRate: input.terms.annualRate,
+    durationMonths: input.terms.durationMonths,
+    startDate: input.restructureDate,
+    method: input.terms.method,
+    frequency: input.terms.frequency,
+    customIntervalDays: input.terms.customIntervalDays,
+    fees: input.fees,
+    dayCount: input.dayCount,
+    calendar: input.calendar,
+  });
+
+  return {
+    outstandingPrincipal,
+    arrears,
+    capitalizedAmount,
+    waivedPenalties: roundCurrency(arrears.penalties - capitalizedPenalties),
+    newPrincipal,
+    closedInstallmentIds,
+    removedInstallmentIds,
+    schedule,
+  };
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { addRepaymentPeriods, buildAmortizationSchedule, getNumberOfInstallments } from './schedule';
+
+const startDate = new Date(2024, 0, 15);
+
+function sum(values: number[]): number {
+  return Math.round(values.reduce((total, value) => total + value, 0) * 100) / 100;
+}
+
+describe('buildAmortizationSchedule', () => {
+  it('repays a reducing balance loan in equal installments that amortize the principal exactly', () => {
+    const schedule = buildAmortizationSchedule({ principal: 10000, annualRate: 24, durationMonths: 12, startDate });
+
+    expect(schedule.numberOfInstallments).toBe(12);
+    expect(schedule.installmentAmount).toBeCloseTo(945.6, 2);
+    expect(sum(schedule.installments.map((installment) => installment.principalDue))).toBe(10000);
+    expect(schedule.installments[0].interestDue).toBe(200);
+    expect(schedule.installments[11].closingBalance).toBe(0);
+    // Every installment but the last, which absorbs rounding, is the same amount
+    for (const installment of schedule.installments.slice(0, 11)) {
+      expect(installment.amountDue).toBe(schedule.installmentAmount);
+    }
+  });
+
+  it('charges flat interest on the original principal for the whole term', () => {
+    const schedule = buildAmortizationSchedule({ principal: 12000, annualRate: 10, durationMonths: 12, startDate, method: 'flat' });
+
+    expect(schedule.totalInterest).toBe(1200);
+    expect(schedule.installments.every((installment) => installment.interestDue === 100)).toBe(true);
+    expect(schedule.installments.every((installment) => installment.principalDue === 1000)).toBe(true);
+  });
+
+  it('charges simple interest on the declining balance with equal principal', () => {
+    const schedule = buildAmortizationSchedule({ principal: 12000, annualRate: 12, durationMonths: 12, startDate, method: 'simple' });
+
+    expect(schedule.installments[0].interestDue).toBe(120);
+    expect(schedule.installments[1].interestDue).toBe(110);
+    expect(schedule.installments[11].interestDue).toBe(10);
+    expect(schedule.totalInterest).toBe(780);
+  });
+
+  it('normalizes a decimal annual rate', () => {
+    const percent = buildAmortizationSchedule({ principal: 5000, annualRate: 18, durationMonths: 6, startDate });
+    const decimal = buildAmortizationSchedule({ principal: 5000, annualRate: 0.18, durationMonths: 6, startDate });
+
+    expect(decimal.totalInterest).toBe(percent.totalInterest);
+  });
+
+  it('spreads the upfront fee so the fees sum exactly', () => {
+    const schedule = buildAmortizationSchedule({
+      principal: 1000,
+      annualRate: 0,
+      durationMonths: 3,
+      startDate,
+      fees: { upfrontFee: 100, installmentFee: 5 },
+    });
+
+    expect(schedule.installments.map((installment) => installment.feeDue)).toEqual([38.33, 38.33, 38.34]);
+    expect(schedule.totalFees).toBe(115);
+    expect(schedule.totalAmount).toBe(1115);
+  });
+
+  it('sets weekly due dates and installment counts from the term', () => {
+    const schedule = buildAmortizationSchedule({ principal: 1300, annualRate: 26, durationMonths: 3, startDate, frequency: 'weekly' });
+
+    expect(schedule.numberOfInstallments).toBe(13);
+    expect(schedule.installments[0].dueDate).toEqual(new Date(2024, 0, 22));
+    expect(schedule.installments[12].dueDate).toEqual(new Date(2024, 3, 15));
+  });
+});
+
+describe('addRepaymentPeriods', () => {
+  it('keeps monthly due dates on the last day of shorter months', () => {
+    const endOfMonth = new Date(2024, 0, 31);
+
+    expect(addRepaymentPeriods(endOfMonth, 'monthly', 1)).toEqual(new Date(2024, 1, 29));
+    expect(addRepaymentPeriods(endOfMonth, 'monthly', 2)).toEqual(new Date(2024, 2, 31));
+    expect(addRepaymentPeriods(endOfMonth, 'quarterly', 1)).toEqual(new Date(2024, 3, 30));
+  });
+});
+
+describe('getNumberOfInstallments', () => {
+  it('counts installments for each frequency', () => {
+    expect(getNumberOfInstallments(12, 'monthly')).toBe(12);
+    expect(getNumberOfInstallments(12, 'biweekly')).toBe(26);
+    expect(getNumberOfInstallments(12, 'quarterly')).toBe(4);
+    expect(getNumberOfInstallments(1, 'custom', 10)).toBe(3);
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * Amortization Schedule Engine
+ *
+ * Pure installment-by-installment schedule generation for every
+ * interest calculation method and repayment frequency.
+ * Used by both frontend and Cloud Functions
+ */
+
+import {
+  addMonthsClamped,
+  adjustToBusinessDay,
+  yearFraction,
+  type BusinessCalendar,
+  type DayCountConvention,
+} from './calendar';
+import { roundCurrency } from './utils';
+
+/**
+ * Interest calculation method
+ * - flat: interest on the original principal for the whole term, spread evenly
+ * - simple: non-compounding interest on the outstanding principal, equal principal installments
+ * - reducing_balance: equal installments, interest on the outstanding balance at the nominal periodic rate
+ * - compound: equal installments, interest compounding daily on the outstanding balance
+ */
+export type InterestCalculationMethod = 'simple' | 'compound' | 'flat' | 'reducing_balance';
+
+/**
+ * Repayment frequency options
+ */
+export type RepaymentFrequency = 'daily' | 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'custom';
+
+export const DEFAULT_INTEREST_METHOD: InterestCalculationMethod = 'reducing_balance';
+export const DEFAULT_REPAYMENT_FREQUENCY: RepaymentFrequency = 'monthly';
+export const DEFAULT_CUSTOM_INTERVAL_DAYS = 30;
+
+/**
+ * Fees charged alongside each installment
+ */
+export interface ScheduleFees {
+  upfrontFee?: number; // Financed origination fee, spread evenly across installments
+  installmentFee?: number; // Fixed service fee charged with every installment
+}
+
+export interface ScheduleInput {
+  principal: number;
+  annualRate: number; // Percentage (e.g., 12 = 12%); decimal rates (0.12) are normalized
+  durationMonths: number;
+  startDate: Date;
+  method?: InterestCalculationMethod;
+  frequency?: RepaymentFrequency;
+  customIntervalDays?: number; // Only used with the 'custom' frequency
+  fees?: ScheduleFees;
+  dayCount?: DayCountConvention; // Accrue interest on actual period lengths instead of equal periods
+  calendar?: BusinessCalendar; // Roll due dates off weekends and holidays
+}
+
+export interface ScheduleInstallment {
+  installmentNumber: number;
+  dueDate: Date;
+  openingBalance: number;
+  principalDue: number;
+  interestDue: number;
+  feeDue: number;
+  amountDue: number;
+  closingBalance: number;
+}
+
+export interface AmortizationSchedule {
+  method: InterestCalculationMethod;
+  frequency: RepaymentFrequency;
+  periodsPerYear: number;
+  periodicRate: number; // Decimal rate applied per installment period
+  numberOfInstallments: number;
+  installmentAmount: number; // Amount due on the first installment
+  totalPrincipal: number;
+  totalInterest: number;
+  totalFees: number;
+  totalAmount: number;
+  installments: ScheduleInstallment[];
+}
+
+/**
+ * Normalize an annual rate to a percentage (12 means 12%, 0.12 is converted to 12)
+ */
+export function normalizeAnnualRate(rate: number): number {
+  return rate > 1 ? rate : rate * 100;
+}
+
+/**
+ * Number of installment periods in a year for a repayment frequency
+ */
+export function getPeriodsPerYear(
+  frequency: RepaymentFrequency,
+  customIntervalDays: number = DEFAULT_CUSTOM_INTERVAL_DAYS
+): number {
+  switch (frequency) {
+    case 'daily':
+      return 365;
+    case 'weekly':
+      return 52;
+    case 'biweekly':
+      return 26;
+    case 'quarterly':
+      return 4;
+    case 'custom':
+      return 365 / Math.max(1, customIntervalDays);
+    case 'monthly':
+    default:
+      return 12;
+  }
+}
+
+/**
+ * Number of installments needed to cover a term expressed in months
+ */
+export function getNumberOfInstallments(
+  durationMonths: number,
+  frequency: RepaymentFrequency,
+  customIntervalDays?: number
+): number {
+  if (frequency === 'monthly') {
+    return Math.max(1, Math.round(durationMonths));
+  }
+  const periodsPerYear = getPeriodsPerYear(frequency, customIntervalDays);
+  return Math.max(1, Math.round((durationMonths * periodsPerYear) / 12));
+}
+
+/**
+ * Decimal interest rate applied per installment period
+ */
+export function getPeriodicRate(
+  annualRate: number,
+  method: InterestCalculationMethod,
+  frequency: RepaymentFrequency,
+  customIntervalDays?: number
+): number {
+  const annualDecimal = normalizeAnnualRate(annualRate) / 100;
+  const periodsPerYear = getPeriodsPerYear(frequency, customIntervalDays);
+
+  if (method === 'compound') {
+    return Math.pow(1 + annualDecimal / 365, 365 / periodsPerYear) - 1;
+  }
+
+  return annualDecimal / periodsPerYear;
+}
+
+/**
+ * Due date of the given installment, counted from the start date
+ * Monthly dates stay anchored to the start day (a loan started on the 31st
+ * falls due on the last day of shorter months rather than drifting)
+ */
+export function addRepaymentPeriods(
+  startDate: Date,
+  frequency: RepaymentFrequency,
+  periods: number,
+  customIntervalDays: number = DEFAULT_CUSTOM_INTERVAL_DAYS
+): Date {
+  const date = new Date(startDate);
+
+  switch (frequency) {
+    case 'daily':
+      date.setDate(date.getDate() + periods);
+      break;
+    case 'weekly':
+      date.setDate(date.getDate() + periods * 7);
+      break;
+    case 'biweekly':
+      date.setDate(date.getDate() + periods * 14);
+      break;
+    case 'custom':
+      date.setDate(date.getDate() + periods * Math.max(1, customIntervalDays));
+      break;
+    case 'quarterly':
+      return addMonthsClamped(date, periods * 3);
+    case 'monthly':
+    default:
+      return addMonthsClamped(date, periods);
+  }
+
+  return date;
+}
+
+/**
+ * Decimal interest rate for an accrual period measured as a fraction of a year
+ */
+function getAccrualRate(annualDecimal: number, method: InterestCalculationMethod, fraction: number): number {
+  if (method === 'compound') {
+    return Math.pow(1 + annualDecimal / 365, fraction * 365) - 1;
+  }
+  return annualDecimal * fraction;
+}
+
+/**
+ * Equal installment (annuity) payment for a principal over n periods
+ */
+function annuityPayment(principal: number, periodicRate: number, periods: number): number {
+  if (periodicRate <= 0) {
+    return principal / periods;
+  }
+  return (principal * periodicRate) / (1 - Math.pow(1 + periodicRate, -periods));
+}
+
+/**
+ * Build a full amortization schedule
+ *
+ * Every amount is rounded to the cent; the last installment absorbs any
+ * rounding residual so principal always sums exactly to the loan amount.
+ */
+export function buildAmortizationSchedule(input: ScheduleInput): AmortizationSchedule {
+  const method = input.method || DEFAULT_INTEREST_METHOD;
+  const frequency = input.frequency || DEFAULT_REPAYMENT_FREQUENCY;
+  const principal = roundCurrency(Math.max(0, input.principal));
+  const annualDecimal = normalizeAnnualRate(input.annualRate || 0) / 100;
+  const periodsPerYear = getPeriodsPerYear(frequency, input.customIntervalDays);
+  const numberOfInstallments = getNumberOfInstallments(input.durationMonths, frequency, input.customIntervalDays);
+  const periodicRate = getPeriodicRate(input.annualRate || 0, method, frequency, input.customIntervalDays);
+
+  const upfrontFee = roundCurrency(input.fees?.upfrontFee || 0);
+  const installmentFee = roundCurrency(input.fees?.installmentFee || 0);
+  const upfrontFeeShare = roundCurrency(upfrontFee / numberOfInstallments);
+
+  // Flat interest is fixed up front: principal × annual rate × term in years
+  const flatTotalInterest = roundCurrency(principal * annualDecimal * (input.durationMonths / 12));
+  const flatInterestShare = roundCurrency(flatTotalInterest / numberOfInstallments);
+  const equalPrincipalShare = roundCurrency(principal / numberOfInstallments);
+  const annuity = roundCurrency(annuityPayment(principal, periodicRate, numberOfInstallments));
+
+  const installments: ScheduleInstallment[] = [];
+  let balance = principal;
+  let interestCharged = 0;
+  let feesCharged = 0;
+  let previousDueDate = new Date(input.startDate);
+
+  for (let i = 1; i <= numberOfInstallments; i++) {
+    const isLast = i === numberOfInstallments;
+    const openingBalance = balance;
+    let interestDue: number;
+    let principalDue: number;
+
+    const scheduledDate = addRepaymentPeriods(input.startDate, frequency, i, input.customIntervalDays);
+    const dueDate = input.calendar ? adjustToBusinessDay(scheduledDate, input.calendar) : scheduledDate;
+    const accrualRate = input.dayCount
+      ? getAccrualRate(annualDecimal, method, yearFraction(previousDueDate, dueDate, input.dayCount))
+      : periodicRate;
+    previousDueDate = dueDate;
+
+    switch (method) {
+      case 'flat':
+        interestDue = isLast ? roundCurrency(flatTotalInterest - interestCharged) : flatInterestShare;
+        principalDue = isLast ? openingBalance : Math.min(equalPrincipalShare, openingBalance);
+        break;
+      case 'simple':
+        interestDue = roundCurrency(openingBalance * accrualRate);
+        principalDue = isLast ? openingBalance : Math.min(equalPrincipalShare, openingBalance);
+        break;
+      case 'compound':
+      case 'reducing_balance':
+      default:
+        interestDue = roundCurrency(openingBalance * accrualRate);
+        principalDue = isLast ? openingBalance : Math.min(Math.max(0, roundCurrency(annuity - interestDue)), openingBalance);
+        break;
+    }
+
+    const feeDue = roundCurrency(installmentFee + (isLast ? upfrontFee - upfrontFeeShare * (numberOfInstallments - 1) : upfrontFeeShare));
+
+    balance = roundCurrency(openingBalance - principalDue);
+    interestCharged = roundCurrency(interestCharged + interestDue);
+    feesCharged = roundCurrency(feesCharged + feeDue);
+
+    installments.push({
+      installmentNumber: i,
+      dueDate,
+      openingBalance,
+      principalDue: roundCurrency(principalDue),
+      interestDue,
+      feeDue,
+      amountDue: roundCurrency(principalDue + interestDue + feeDue),
+      closingBalance: balance,
+    });
+  }
+
+  return {
+    method,
+    frequency,
+    periodsPerYear,
+    periodicRate,
+    numberOfInstallments,
+    installmentAmount: installments[0]?.amountDue || 0,
+    totalPrincipal: principal,
+    totalInterest: interestCharged,
+    totalFees: feesCharged,
+    totalAmount: roundCurrency(principal + interestCharged + feesCharged),
+    installments,
+  };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { emptyComponents, type AllocationInstallment } from './allocation';
+import { calculateSettlementQuote, type SettlementRebateConfig } from './settlement';
+
+function installment(id: string, month: number): AllocationInstallment {
+  return {
+    id,
+    dueDate: new Date(2024, month, 1),
+    due: { ...emptyComponents(), interest: 30, principal: 100 },
+    paid: emptyComponents(),
+  };
+}
+
+const installments = [installment('1', 1), installment('2', 2), installment('3', 3)];
+
+function quote(rebate: SettlementRebateConfig, paidFirst = false) {
+  return calculateSettlementQuote({
+    installments: paidFirst
+      ? [{ ...installments[0], paid: installments[0].due }, ...installments.slice(1)]
+      : installments,
+    settlementDate: new Date(2024, 1, 16),
+    startDate: new Date(2024, 0, 1),
+    rebate,
+    dayCount: '30/360',
+  });
+}
+
+describe('calculateSettlementQuote', () => {
+  it('charges arrears in full and splits the rest by due date', () => {
+    const result = quote({ method: 'none', penaltyRate: 0 });
+
+    expect(result.arrears).toEqual({ fees: 0, penalties: 0, interest: 30, principal: 100 });
+    expect(result.principalNotYetDue).toBe(200);
+    expect(result.contractualInterest).toBe(60);
+    expect(result.accruedInterest).toBe(15);
+    expect(result.remainingInstallments).toBe(1);
+    expect(result.rebate).toBe(0);
+    expect(result.payoffAmount).toBe(390);
+  });
+
+  it('charges only interest accrued to the settlement date with the actuarial rebate', () => {
+    const result = quote({ method: 'actuarial', penaltyRate: 0 }, true);
+
+    expect(result.interestCharged).toBe(15);
+    expect(result.rebate).toBe(45);
+    expect(result.payoffAmount).toBe(215);
+  });
+
+  it('rebates later periods by the sum of digits with the rule of 78s', () => {
+    const result = quote({ method: 'rule_of_78s', penaltyRate: 0 }, true);
+
+    // One of three periods remains: 1 / (1 + 2 + 3) of the 90 total interest
+    expect(result.rebate).toBe(15);
+    expect(result.interestCharged).toBe(45);
+  });
+
+  it('adds a penalty on the principal settled early with fixed_penalty', () => {
+    const result = quote({ method: 'fixed_penalty', penaltyRate: 2 }, true);
+
+    expect(result.penalty).toBe(4);
+    expect(result.payoffAmount).toBe(219);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Early Settlement Rules
+ *
+ * Pure payoff calculation for settling a loan ahead of schedule, with the
+ * interest rebate rules agencies offer on early settlement.
+ * Used by both frontend and Cloud Functions
+ */
+
+import {
+  emptyComponents,
+  getOutstandingComponents,
+  sumComponents,
+  type AllocationInstallment,
+  type ComponentAmounts,
+} from './allocation';
+import { yearFraction, DEFAULT_DAY_COUNT_CONVENTION, type DayCountConvention } from './calendar';
+import { roundCurrency } from './utils';
+
+/**
+ * Interest rebate rule applied to unearned interest on early settlement
+ * - none: the full contractual interest stays payable
+ * - rule_of_78s: rebate by the sum-of-digits of the installments not yet reached
+ * - actuarial: only interest accrued to the settlement date is charged
+ * - fixed_penalty: actuarial rebate plus a penalty on the principal settled early
+ */
+export type SettlementRebateMethod = 'none' | 'rule_of_78s' | 'actuarial' | 'fixed_penalty';
+
+export interface SettlementRebateConfig {
+  method: SettlementRebateMethod;
+  penaltyRate: number; // Percentage of principal settled early (fixed_penalty only)
+}
+
+export const DEFAULT_SETTLEMENT_REBATE: SettlementRebateConfig = {
+  method: 'actuarial',
+  penaltyRate: 0,
+};
+
+export interface SettlementQuoteInput {
+  installments: AllocationInstallment[];
+  settlementDate: Date;
+  startDate: Date; // Disbursement date, the accrual start of the first installment
+  rebate: SettlementRebateConfig;
+  dayCount?: DayCountConvention;
+}
+
+export interface SettlementQuote {
+  settlementDate: Date;
+  rebateMethod: SettlementRebateMethod;
+  arrears: ComponentAmounts; // Everything due on or before the settlement date
+  principalNotYetDue: number;
+  feesNotYetDue: number;
+  contractualInterest: number; // Scheduled interest on installments not yet due
+  accruedInterest: number; // Interest earned in the current period up to the settlement date
+  interestCharged: number; // Interest not yet due that is still collected after the rebate
+  rebate: number;
+  penalty: number;
+  payoffAmount: number;
+  remainingInstallments: number; // Installments after the period in progress
+}
+
+/**
+ * Sum of the digits 1..n, the Rule of 78s weighting
+ */
+function sumOfDigits(n: number): number {
+  return (n * (n + 1)) / 2;
+}
+
+/**
+ * Calculate the amount needed to settle a loan in full on a date
+ */
+export function calculateSettlementQuote(input: SettlementQuoteInput): SettlementQuote {
+  const dayCount = input.dayCount || DEFAULT_DAY_COUNT_CONVENTION;
+  const settlementTime = input.settlementDate.getTime();
+  const schedule = [...input.installments].sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
+
+  const arrears = emptyComponents();
+  let principalNotYetDue = 0;
+  let feesNotYetDue = 0;
+  let contractualInterest = 0;
+  let accruedInterest = 0;
+  let remainingInstallments = 0;
+  let currentPeriodFound = false;
+
+  schedule.forEach((installment, index) => {
+    const outstanding = getOutstandingComponents(installment);
+
+    if (installment.dueDate.getTime() <= settlementTime) {
+      arrears.fees = roundCurrency(arrears.fees + outstanding.fees);
+      arrears.penalties = roundCurrency(arrears.penalties + outstanding.penalties);
+      arrears.interest = roundCurrency(arrears.interest + outstanding.interest);
+      arrears.principal = roundCurrency(arrears.principal + outstanding.principal);
+      return;
+    }
+
+    principalNotYetDue = roundCurrency(principalNotYetDue + outstanding.principal);
+    feesNotYetDue = roundCurrency(feesNotYetDue + outstanding.fees + outstanding.penalties);
+    contractualInterest = roundCurrency(contractualInterest + outstanding.interest);
+
+    if (!currentPeriodFound) {
+      // Interest on the period in progress is earned pro rata to the settlement date
+      currentPeriodFound = true;
+      const periodStart = index > 0 ? schedule[index - 1].dueDate : input.startDate;
+      const periodLength = yearFraction(periodStart, installment.dueDate, dayCount);
+      const elapsed = yearFraction(periodStart, input.settlementDate, dayCount);
+      const earnedShare = periodLength > 0 ? Math.min(1, elapsed / periodLength) : 1;
+      accruedInterest = roundCurrency(Math.min(outstanding.interest, installment.due.interest * earnedShare));
+    } else {
+      remainingInstallments++;
+    }
+  });
+
+  let interestCharged = contractualInterest;
+  let penalty = 0;
+
+  switch (input.rebate.method) {
+    case 'rule_of_78s': {
+      // Interest for the period in progress is earned; later periods are rebated by sum-of-digits
+      const totalInstallments = schedule.length;
+      const totalInterest = schedule.reduce((sum, installment) => sum + installment.due.interest, 0);
+      const rebateShare = totalInstallments > 0
+        ? sumOfDigits(remainingInstallments) / sumOfDigits(totalInstallments)
+        : 0;
+      interestCharged = roundCurrency(contractualInterest - Math.min(contractualInterest, totalInterest * rebateShare));
+      break;
+    }
+    case 'actuarial':
+      interestCharged = accruedInterest;
+      break;
+    case 'fixed_penalty':
+      interestCharged = accruedInterest;
+      penalty = roundCurrency(principalNotYetDue * (Math.max(0, input.rebate.penaltyRate) / 100));
+      break;
+    case 'none':
+    default:
+      break;
+  }
+
+  const rebate = roundCurrency(contractualInterest - interestCharged);
+  const payoffAmount = roundCurrency(
+    sumComponents(arrears) + principalNotYetDue + feesNotYetDue + interestCharged + penalty
+  );
+
+  return {
+    settlementDate: input.settlementDate,
+    rebateMethod: input.rebate.method,
+    arrears,
+    principalNotYetDue,
+    feesNotYetDue,
+    contractualInterest,
+    accruedInterest,
+    interestCharged,
+    rebate,
+    penalty,
+    payoffAmount,
+    remainingInstallments,
+  };
+}
+
+export interface RefinancePayoff {
+  loanId: string;
+  payoffAmount: number;
+}
+
+export interface RefinanceNetting {
+  settlementTotal: number; // Paid out of the new principal to close the refinanced loans
+  netDisbursement: number; // Cash actually released to the borrower
+}
+
+/**
+ * Net the payoff of the loans being refinanced against a new principal
+ * A negative net disbursement means the new principal does not cover the payoffs
+ */
+export function netRefinanceSettlements(newPrincipal: number, payoffs: RefinancePayoff[]): RefinanceNetting {
+  const settlementTotal = roundCurrency(payoffs.reduce((sum, payoff) => sum + payoff.payoffAmount, 0));
+  return {
+    settlementTotal,
+    netDisbursement: roundCurrency(newPrincipal - settlementTotal),
+  };
+}
@@ -0,0 +1,411 @@
+/**
+ * Tax Computation
+ *
+ * Computes an agency's taxes month by month from the income it actually
+ * received: the interest, fees and penalties allocated on each payment and
+ * recoveries on written-off loans. Each receipt is scheduled in the month the
+ * ledger posted it and matched to its journal entry, so every month's
+ * schedule reconciles to the ledger.
+ * Used by both frontend and Cloud Functions
+ */
+
+import type { JournalEntry, SystemAccountCodes } from './ledger';
+import { roundCurrency } from './utils';
+
+export type TaxComponent = 'interest' | 'fees' | 'penalties' | 'recoveries';
+
+export const TAX_COMPONENTS: Record<TaxComponent, string> = {
+  interest: 'Interest',
+  fees: 'Fees',
+  penalties: 'Penalties',
+  recoveries: 'Recoveries',
+};
+
+export type TaxRuleKind = 'corporate_income' | 'turnover' | 'vat' | 'withholding';
+
+export const TAX_RULE_KINDS: Record<TaxRuleKind, string> = {
+  corporate_income: 'Corporate income tax (estimate)',
+  turnover: 'Turnover tax',
+  vat: 'VAT',
+  withholding: 'Withholding tax',
+};
+
+export interface TaxRule {
+  id: string;
+  name: string;
+  kind: TaxRuleKind;
+  enabled: boolean;
+  rate: number; // %
+  components: TaxComponent[]; // Income the rule is charged on
+  inclusive?: boolean; // VAT: the income already includes the tax
+  deductExpenses?: boolean; // Corporate income tax: deduct the period's ledger expenses
+  loanTypes?: string[]; // Withholding: only income from these loan types; empty for all
+}
+
+export interface TaxConfig {
+  rules: TaxRule[];
+}
+
+export const DEFAULT_TAX_CONFIG: TaxConfig = {
+  rules: [
+    {
+      id: 'cit',
+      name: 'Corporate income tax',
+      kind: 'corporate_income',
+      enabled: true,
+      rate: 30,
+      components: ['interest', 'fees', 'penalties', 'recoveries'],
+      deductExpenses: true,
+    },
+    {
+      id: 'turnover',
+      name: 'Turnover tax',
+      kind: 'turnover',
+      enabled: false,
+      rate: 5,
+      components: ['interest', 'fees', 'penalties', 'recoveries'],
+    },
+    {
+      id: 'vat_fees',
+      name: 'VAT on fees',
+      kind: 'vat',
+      enabled: false,
+      rate: 16,
+      components: ['fees'],
+      inclusive: true,
+    },
+    {
+      id: 'wht_interest',
+      name: 'Withholding tax on interest',
+      kind: 'withholding',
+      enabled: false,
+      rate: 15,
+      components: ['interest'],
+      loanTypes: [],
+    },
+  ],
+};
+
+export type TaxIncome = Record<TaxComponent, number>;
+
+/**
+ * Income received in one payment, recovery or reversal of either. A reversal
+ * carries negative amounts.
+ */
+export interface TaxReceipt {
+  entryId: string; // Journal entry the ledger posts it as
+  loanId: string;
+  loanType?: string;
+  date: string; // YYYY-MM-DD of the payment, recovery or reversal
+  income: TaxIncome;
+}
+
+/**
+ * A journal entry's income, as posted
+ */
+export interface LedgerIncomeEntry {
+  entryId: string;
+  date: string; // Posting date
+  income: TaxIncome;
+}
+
+export interface TaxRuleAmount {
+  ruleId: string;
+  name: string;
+  kind: TaxRuleKind;
+  rate: number;
+  base: number;
+  amount: number;
+}
+
+export interface TaxReconciliation {
+  ledger: TaxIncome;
+  differences: TaxIncome; // Ledger less receipts
+  unposted: string[]; // Receipts with no journal entry
+  ledgerOnly: string[]; // Journal entries with no receipt behind them
+  reconciled: boolean;
+}
+
+export interface TaxPeriodSchedule {
+  periodId: string; // YYYY-MM
+  from: string;
+  to: string;
+  receiptCount: number;
+  income: TaxIncome;
+  totalIncome: number;
+  deductibleExpenses: number;
+  taxes: TaxRuleAmount[];
+  totalTax: number;
+  reconciliation: TaxReconciliation;
+}
+
+export interface TaxReport {
+  from: string;
+  to: string;
+  periods: TaxPeriodSchedule[];
+  income: TaxIncome;
+  totalIncome: number;
+  taxes: TaxRuleAmount[];
+  totalTax: number;
+  reconciled: boolean;
+}
+
+const BALANCE_TOLERANCE = 0.005;
+
+export function emptyTaxIncome(): TaxIncome {
+  return { interest: 0, fees: 0, penalties: 0, recoveries: 0 };
+}
+
+function addIncome(target: TaxIncome, income: TaxIncome, sign = 1): void {
+  for (const component of Object.keys(TAX_COMPONENTS) as TaxComponent[]) {
+    target[component] += sign * Number(income[component] || 0);
+  }
+}
+
+function roundIncome(income: TaxIncome): TaxIncome {
+  return {
+    interest: roundCurrency(income.interest),
+    fees: roundCurrency(income.fees),
+    penalties: roundCurrency(income.penalties),
+    recoveries: roundCurrency(income.recoveries),
+  };
+}
+
+function sumIncome(income: TaxIncome, components: TaxComponent[] = Object.keys(TAX_COMPONENTS) as TaxComponent[]): number {
+  return roundCurrency(components.reduce((total, component) => total + income[component], 0));
+}
+
+/**
+ * Stored tax config merged over the defaults. Rules removed by the agency stay removed.
+ */
+export function resolveTaxConfig(stored?: Partial<TaxConfig> | null): TaxConfig {
+  if (!stored?.rules) {
+    return { rules: DEFAULT_TAX_CONFIG.rules.map((rule) => ({ ...rule })) };
+  }
+  return {
+    rules: stored.rules.map((rule) => ({
+      ...rule,
+      rate: Number(rule.rate || 0),
+      components: rule.components || [],
+    })),
+  };
+}
+
+/**
+ * Problems that stop a tax config from being saved
+ */
+export function validateTaxConfig(config: TaxConfig): string[] {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+  for (const rule of config.rules) {
+    const label = rule.name || rule.id || 'A tax rule';
+    if (!rule.id || !rule.name.trim()) {
+      errors.push('Every tax rule needs an id and a name');
+    }
+    if (ids.has(rule.id)) {
+      errors.push(`Tax rule id ${rule.id} is used more than once`);
+    }
+    ids.add(rule.id);
+    if (!(rule.kind in TAX_RULE_KINDS)) {
+      errors.push(`${label} has an unknown kind`);
+    }
+    if (!(rule.rate >= 0 && rule.rate <= 100)) {
+      errors.push(`${label} must have a rate between 0 and 100%`);
+    }
+    if (rule.components.length === 0) {
+      errors.push(`${label} must apply to at least one kind of income`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * The income a repayment, recovery or reversal entry posted
+ */
+export function getLedgerIncome(
+  entry: Pick<JournalEntry, 'lines'>,
+  codes: Pick<SystemAccountCodes, 'interest_receivable' | 'fee_income' | 'penalties_receivable' | 'recovery_income'>
+): TaxIncome {
+  const income = emptyTaxIncome();
+  for (const line of entry.lines) {
+    const net = Number(line.credit || 0) - Number(line.debit || 0);
+    // Interest and penalties are accrued first, so a repayment collects them
+    // from their receivables; fees and recoveries are income when received
+    if (line.accountCode === codes.interest_receivable) income.interest += net;
+    else if (line.accountCode === codes.fee_income) income.fees += net;
+    else if (line.accountCode === codes.penalties_receivable) income.penalties += net;
+    else if (line.accountCode === codes.recovery_income) income.recoveries += net;
+  }
+  return roundIncome(income);
+}
+
+function applyRule(
+  rule: TaxRule,
+  receipts: TaxReceipt[],
+  income: TaxIncome,
+  deductibleExpenses: number
+): TaxRuleAmount {
+  let base = sumIncome(income, rule.components);
+  let amount = 0;
+
+  switch (rule.kind) {
+    case 'corporate_income':
+      base = roundCurrency(base - (rule.deductExpenses ? deductibleExpenses : 0));
+      amount = Math.max(0, base) * rule.rate / 100;
+      break;
+    case 'vat':
+      amount = rule.inclusive ? base * rule.rate / (100 + rule.rate) : base * rule.rate / 100;
+      break;
+    case 'withholding': {
+      if (rule.loanTypes && rule.loanTypes.length > 0) {
+        const matching = emptyTaxIncome();
+        for (const receipt of receipts) {
+          if (receipt.loanType && rule.loanTypes.includes(receipt.loanType)) {
+            addIncome(matching, receipt.income);
+          }
+        }
+        base = sumIncome(roundIncome(matching), rule.components);
+      }
+      amount = base * rule.rate / 100;
+      break;
+    }
+    default:
+      amount = base * rule.rate / 100;
+  }
+
+  return {
+    ruleId: rule.id,
+    name: rule.name,
+    kind: rule.kind,
+    rate: rule.rate,
+    base,
+    amount: roundCurrency(amount),
+  };
+}
+
+function getMonthEnd(periodId: string): string {
+  const [year, month] = periodId.split('-').map(Number);
+  return new Date(Date.UTC(year, month, 0)).toISOString().slice(0, 10);
+}
+
+function getPeriods(from: string, to: string): string[] {
+  const periods: string[] = [];
+  let [year, month] = from.slice(0, 7).split('-').map(Number);
+  const last = to.slice(0, 7);
+  for (;;) {
+    const periodId = `${year}-${String(month).padStart(2, '0')}`;
+    if (periodId > last) break;
+    periods.push(periodId);
+    month += 1;
+    if (month > 12) {
+      month = 1;
+      year += 1;
+    }
+  }
+  return periods;
+}
+
+/**
+ * Month-by-month tax schedules between two dates (inclusive). A receipt falls
+ * in the month its journal entry was posted; one the ledger has not posted
+ * falls on its own date and is reported as unposted.
+ */
+export function buildTaxReport(
+  receipts: TaxReceipt[],
+  ledgerEntries: LedgerIncomeEntry[],
+  expensesByPeriod: Record<string, number>,
+  config: TaxConfig,
+  from: string,
+  to: string
+): TaxReport {
+  const entriesById = new Map(ledgerEntries.map((entry) => [entry.entryId, entry]));
+  const receiptIds = new Set(receipts.map((receipt) => receipt.entryId));
+  const inRange = (date: string) => date >= from && date <= to;
+  const rules = config.rules.filter((rule) => rule.enabled);
+
+  const periods = getPeriods(from, to).map((periodId): TaxPeriodSchedule => {
+    const periodFrom = `${periodId}-01` < from ? from : `${periodId}-01`;
+    const periodTo = getMonthEnd(periodId) > to ? to : getMonthEnd(periodId);
+    const inPeriod = (date: string) => date >= periodFrom && date <= periodTo;
+
+    const periodReceipts = receipts.filter((receipt) => {
+      const posted = entriesById.get(receipt.entryId);
+      return inPeriod(posted ? posted.date : receipt.date);
+    });
+    const periodEntries = ledgerEntries.filter((entry) => inPeriod(entry.date));
+
+    const received = emptyTaxIncome();
+    periodReceipts.forEach((receipt) => addIncome(received, receipt.income));
+    const income = roundIncome(received);
+
+    const posted = emptyTaxIncome();
+    periodEntries.forEach((entry) => addIncome(posted, entry.income));
+    const ledger = roundIncome(posted);
+
+    const differences = emptyTaxIncome();
+    addIncome(differences, ledger);
+    addIncome(differences, income, -1);
+    const roundedDifferences = roundIncome(differences);
+
+    const unposted = periodReceipts.filter((receipt) => !entriesById.has(receipt.entryId)).map((receipt) => receipt.entryId);
+    const ledgerOnly = periodEntries.filter((entry) => !receiptIds.has(entry.entryId)).map((entry) => entry.entryId);
+
+    const deductibleExpenses = roundCurrency(expensesByPeriod[periodId] || 0);
+    const taxes = rules.map((rule) => applyRule(rule, periodReceipts, income, deductibleExpenses));
+
+    return {
+      periodId,
+      from: periodFrom,
+      to: periodTo,
+      receiptCount: periodReceipts.length,
+      income,
+      totalIncome: sumIncome(income),
+      deductibleExpenses,
+      taxes,
+      totalTax: roundCurrency(taxes.reduce((total, tax) => total + tax.amount, 0)),
+      reconciliation: {
+        ledger,
+        differences: roundedDifferences,
+        unposted,
+        ledgerOnly,
+        reconciled: unposted.length === 0 && ledgerOnly.length === 0 &&
+          Object.values(roundedDifferences).every((difference) => Math.abs(difference) <= BALANCE_TOLERANCE),
+      },
+    };
+  });
+
+  const income = emptyTaxIncome();
+  periods.forEach((period) => addIncome(income, period.income));
+
+  // Corporate income tax is assessed on the whole period, so a loss month offsets a profitable one
+  const allReceipts = receipts.filter((receipt) => {
+    const posted = entriesById.get(receipt.entryId);
+    return inRange(posted ? posted.date : receipt.date);
+  });
+  const totalExpenses = roundCurrency(periods.reduce((total, period) => total + period.deductibleExpenses, 0));
+  const taxes = rules.map((rule): TaxRuleAmount => {
+    if (rule.kind === 'corporate_income') {
+      return applyRule(rule, allReceipts, roundIncome(income), totalExpenses);
+    }
+    const periodTaxes = periods.map((period) => period.taxes.find((tax) => tax.ruleId === rule.id)!);
+    return {
+      ruleId: rule.id,
+      name: rule.name,
+      kind: rule.kind,
+      rate: rule.rate,
+      base: roundCurrency(periodTaxes.reduce((total, tax) => total + tax.base, 0)),
+      amount: roundCurrency(periodTaxes.reduce((total, tax) => total + tax.amount, 0)),
+    };
+  });
+
+  return {
+    from,
+    to,
+    periods,
+    income: roundIncome(income),
+    totalIncome: sumIncome(roundIncome(income)),
+    taxes,
+    totalTax: roundCurrency(taxes.reduce((total, tax) => total + tax.amount, 0)),
+    reconciled: periods.every((period) => period.reconciliation.reconciled),
+  };
+}
@@ -0,0 +1,23 @@
+/**
+ * Shared Helpers
+ *
+ * Rounding and date coercion used across the loan rules.
+ * Used by both frontend and Cloud Functions
+ */
+
+/**
+ * Round an amount to cents
+ */
+export function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Date from a stored value: a Date, a web or Admin SDK Timestamp, or a
+ * string or number. Null when missing or invalid.
+ */
+export function toDateValue(value: any): Date | null {
+  if (!value) return null;
+  const date = value.toDate?.() || new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
@@ -0,0 +1,118 @@
+/**
+ * Loan Write-off and Recovery
+ *
+ * The balances taken off the books when a loan is written off, what remains
+ * recoverable afterwards, and the gross and net-of-recovery credit losses of
+ * a portfolio.
+ * Used by both frontend and Cloud Functions
+ */
+
+import {
+  getOutstandingComponents,
+  type AllocationInstallment,
+} from './allocation';
+import { roundCurrency } from './utils';
+
+export type RecoverySource = 'cash' | 'collateral_sale' | 'guarantor' | 'other';
+
+export const RECOVERY_SOURCES: RecoverySource[] = ['cash', 'collateral_sale', 'guarantor', 'other'];
+
+/**
+ * Balances written off a loan. Fees are recognised when paid, so unpaid fees
+ * are never on the books and are not part of the loss.
+ */
+export interface WriteOffBalances {
+  principal: number;
+  interest: number;
+  penalties: number;
+  total: number; // Gross loss
+}
+
+export interface CreditLossSummary {
+  writtenOffLoans: number;
+  grossLosses: number;
+  recoveries: number;
+  netLosses: number; // Gross losses less recoveries
+  recoveryRate: number; // Share of gross losses recovered, 0-1
+}
+
+/**
+ * A written-off loan as loss reporting sees it
+ */
+export interface WrittenOffLoan {
+  status?: string;
+  writeOff?: { total?: number } | null;
+  recoveredAmount?: number;
+}
+
+/**
+ * Interest receivable the ledger holds for a loan: interest booked by the
+ * daily accruals less interest collected by payments still standing.
+ * Undefined for loans that were never accrued.
+ */
+export function getBookedInterestReceivable(accruedInterest: unknown, payments: any[]): number | undefined {
+  if (typeof accruedInterest !== 'number') {
+    return undefined;
+  }
+  const collected = payments
+    .filter((payment) => payment.status !== 'reversed')
+    .reduce((sum, payment) => sum + Number(payment.allocation?.interest || 0), 0);
+  return roundCurrency(accruedInterest - collected);
+}
+
+/**
+ * Balances to write off at a date. All unpaid principal is written off, with
+ * the penalties charged so far. Interest is the receivable actually booked by
+ * accruals less interest collected, when known; otherwise the unpaid interest
+ * of installments already due.
+ */
+export function computeWriteOffBalances(
+  installments: AllocationInstallment[],
+  asOf: Date,
+  interestReceivable?: number
+): WriteOffBalances {
+  let principal = 0;
+  let penalties = 0;
+  let dueInterest = 0;
+
+  for (const installment of installments) {
+    const outstanding = getOutstandingComponents(installment);
+    principal += outstanding.principal;
+    penalties += outstanding.penalties;
+    if (installment.dueDate <= asOf) {
+      dueInterest += outstanding.interest;
+    }
+  }
+
+  const interest = interestReceivable !== undefined ? Math.max(0, interestReceivable) : dueInterest;
+  return {
+    principal: roundCurrency(principal),
+    interest: roundCurrency(interest),
+    penalties: roundCurrency(penalties),
+    total: roundCurrency(principal + interest + penalties),
+  };
+}
+
+/**
+ * What is still left to recover on a written-off loan
+ */
+export function getRecoverableBalance(loan: WrittenOffLoan): number {
+  return roundCurrency(Math.max(0, Number(loan.writeOff?.total || 0) - Number(loan.recoveredAmount || 0)));
+}
+
+/**
+ * Gross losses written off and the losses net of what was recovered since
+ */
+export function summarizeCreditLosses(loans: WrittenOffLoan[]): CreditLossSummary {
+  const writtenOff = loans.filter((loan) => loan.status === 'written_off' && loan.writeOff);
+  const grossLosses = roundCurrency(writtenOff.reduce((sum, loan) => sum + Number(loan.writeOff?.total || 0), 0));
+  const recoveries = roundCurrency(writtenOff.reduce((sum, loan) => sum + Number(loan.recoveredAmount || 0), 0));
+
+  return {
+    writtenOffLoans: writtenOff.length,
+    grossLosses,
+    recoveries,
+    netLosses: roundCurrency(grossLosses - recoveries),
+    recoveryRate: grossLosses > 0 ? Math.round((recoveries / grossLosses) * 10000) / 10000 : 0,
+  };
+}
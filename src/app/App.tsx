@@ -62,6 +62,7 @@ import { CompliancePage } from '../features/admin/pages/CompliancePage';
 import { CurrencySettingsPage } from '../features/admin/pages/CurrencySettingsPage';
 import { SecuritySettingsPage } from '../features/admin/pages/SecuritySettingsPage';
 import { LoanProductsPage } from '../features/admin/pages/LoanProductsPage';
+import { PolicySimulationPage } from '../features/admin/pages/PolicySimulationPage';
 import { NotificationsPage as NotificationsManagementPage } from '../features/admin/pages/NotificationsPage';
 import { MobileMoneyPage } from '../features/admin/pages/MobileMoneyPage';
 import { CreditScoringPage } from '../features/admin/pages/CreditScoringPage';
@@ -187,6 +188,7 @@ function AppContent() {
                 <Route path="settings/currency" element={<CurrencySettingsPage />} />
                 <Route path="settings/security" element={<SecuritySettingsPage />} />
                 <Route path="loan-products" element={<LoanProductsPage />} />
+                <Route path="credit-policy/simulation" element={<PolicySimulationPage />} />
                 <Route path="notifications-management" element={<NotificationsManagementPage />} />
                 <Route path="mobile-money/:loanId" element={<MobileMoneyPage />} />
                 <Route path="credit-scoring/:customerId" element={<CreditScoringPage />} />
@@ -0,0 +1,492 @@
+/**
+ * Bank Reconciliation Card Component
+ * Saved reconciliation sessions: import a statement, review each line's
+ * match, split or combine allocations, and post confirmed matches as payments
+ */
+
+import { useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Select } from '../ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../ui/dialog';
+import { Ban, Check, FileCheck, Loader2, Pencil, Plus, RotateCcw, Trash2, Upload } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { formatCurrency, formatDateSafe } from '../../lib/utils';
+import {
+  getAllocatedAmount,
+  parseBankStatementFile,
+  validateLineAllocations,
+  type ReconciliationAllocation,
+  type ReconciliationLine,
+  type ReconciliationLineState,
+} from '../../lib/accounting/bank-reconciliation';
+import {
+  createReconciliationSession,
+  getReconciliationLines,
+  getReconciliationSessions,
+  postReconciliationSession,
+  updateReconciliationLine,
+  type ReconciliationSession,
+} from '../../lib/accounting/reconciliation-sessions';
+import { getRepaymentOutstanding } from '../../lib/firebase/repayment-helpers';
+
+interface BankReconciliationCardProps {
+  agencyId: string;
+  userId: string;
+  repayments: any[]; // Repayments with loanId and customerName
+}
+
+const STATE_BADGES: Record<ReconciliationLineState, 'success' | 'warning' | 'destructive' | 'outline'> = {
+  matched: 'success',
+  suggested: 'warning',
+  unmatched: 'destructive',
+  ignored: 'outline',
+};
+
+const FORMAT_LABELS: Record<ReconciliationSession['format'], string> = {
+  csv: 'CSV',
+  excel: 'Excel',
+  ofx: 'OFX',
+  mt940: 'MT940',
+  camt053: 'CAMT.053',
+};
+
+function AllocationEditor({
+  line,
+  repayments,
+  onCancel,
+  onSave,
+}: {
+  line: ReconciliationLine;
+  repayments: any[];
+  onCancel: () => void;
+  onSave: (allocations: ReconciliationAllocation[]) => Promise<void>;
+}) {
+  const [allocations, setAllocations] = useState<ReconciliationAllocation[]>(
+    line.allocations.length > 0 ? line.allocations : [{ loanId: '', amount: line.transaction.amount }]
+  );
+  const [saving, setSaving] = useState(false);
+
+  const openRepayments = repayments.filter(
+    (r: any) => getRepaymentOutstanding(r) > 0 || allocations.some((a) => a.repaymentId === r.id)
+  );
+  const error = validateLineAllocations({ transaction: line.transaction, allocations });
+
+  const updateAllocation = (index: number, patch: Partial<ReconciliationAllocation>) => {
+    setAllocations((prev) => prev.map((allocation, i) => (i === index ? { ...allocation, ...patch } : allocation)));
+  };
+
+  const selectRepayment = (index: number, repaymentId: string) => {
+    const repayment = repayments.find((r: any) => r.id === repaymentId);
+    updateAllocation(index, {
+      repaymentId: repayment?.id,
+      loanId: repayment?.loanId || '',
+      customerName: repayment?.customerName && repayment.customerName !== 'N/A' ? repayment.customerName : undefined,
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave(allocations);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Allocate Bank Line</DialogTitle>
+          <DialogDescription>
+            {line.transaction.date} · {line.transaction.description || 'No description'} ·{' '}
+            {formatCurrency(line.transaction.amount, 'ZMW')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {allocations.map((allocation, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Select
+                value={allocation.repaymentId || ''}
+                onChange={(e) => selectRepayment(index, e.target.value)}
+                className="flex-1"
+              >
+                <option value="">Select repayment</option>
+                {openRepayments.map((r: any) => (
+                  <option key={`${r.loanId}-${r.id}`} value={r.id}>
+                    {r.customerName} · Loan {String(r.loanId).substring(0, 8)} · due {formatDateSafe(r.dueDate)} ·{' '}
+                    {formatCurrency(getRepaymentOutstanding(r), 'ZMW')} owed
+                  </option>
+                ))}
+              </Select>
+              <Input
+                type="number"
+                step="0.01"
+                className="w-32"
+                value={allocation.amount}
+                onChange={(e) => updateAllocation(index, { amount: Number(e.target.value) })}
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setAllocations((prev) => prev.filter((_, i) => i !== index))}
+                disabled={allocations.length === 1}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex items-center justify-between">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setAllocations((prev) => [...prev, {
+                loanId: '',
+                amount: Math.max(0, Math.round((line.transaction.amount - getAllocatedAmount({ allocations: prev })) * 100) / 100),
+              }])}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Repayment
+            </Button>
+            <p className="text-sm text-muted-foreground">
+              Allocated {formatCurrency(getAllocatedAmount({ allocations }), 'ZMW')} of{' '}
+              {formatCurrency(line.transaction.amount, 'ZMW')}
+            </p>
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!!error || saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Confirm Match
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export function BankReconciliationCard({ agencyId, userId, repayments }: BankReconciliationCardProps) {
+  const queryClient = useQueryClient();
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [importing, setImporting] = useState(false);
+  const [posting, setPosting] = useState(false);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [editingLine, setEditingLine] = useState<ReconciliationLine | null>(null);
+
+  const { data: sessions = [], isLoading: sessionsLoading } = useQuery({
+    queryKey: ['reconciliation-sessions', agencyId],
+    queryFn: () => getReconciliationSessions(agencyId),
+    enabled: !!agencyId,
+  });
+
+  const { data: lines = [], isLoading: linesLoading } = useQuery({
+    queryKey: ['reconciliation-lines', agencyId, sessionId],
+    queryFn: () => getReconciliationLines(agencyId, sessionId!),
+    enabled: !!agencyId && !!sessionId,
+  });
+
+  const session = sessions.find((s) => s.id === sessionId);
+  const readyToPost = lines.filter((line) => line.state === 'matched' && !line.postedAt).length;
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['reconciliation-sessions', agencyId] });
+    queryClient.invalidateQueries({ queryKey: ['reconciliation-lines', agencyId] });
+  };
+
+  const handleImport = async (file: File) => {
+    setImporting(true);
+    try {
+      const { format, transactions } = await parseBankStatementFile(file);
+      if (transactions.length === 0) {
+        toast.error('No valid transactions found in the file');
+        return;
+      }
+
+      const result = await createReconciliationSession(agencyId, {
+        fileName: file.name,
+        format,
+        transactions,
+        repayments,
+        userId,
+      });
+      if (!result.success) {
+        toast.error(result.error || 'Failed to save bank statement');
+        return;
+      }
+
+      toast.success(
+        `Imported ${transactions.length} lines: ${result.summary!.matched} matched, ${result.summary!.suggested} suggested, ${result.summary!.unmatched} unmatched`
+      );
+      refresh();
+      setSessionId(result.sessionId!);
+    } catch (error: any) {
+      console.error('Reconciliation error:', error);
+      toast.error('Failed to process bank statement: ' + error.message);
+    } finally {
+      setImporting(false);
+      if (fileRef.current) fileRef.current.value = '';
+    }
+  };
+
+  const setLineState = async (
+    line: ReconciliationLine,
+    state: ReconciliationLineState,
+    allocations?: ReconciliationAllocation[]
+  ) => {
+    const result = await updateReconciliationLine(agencyId, sessionId!, line, { state, allocations });
+    if (!result.success) {
+      toast.error(result.error || 'Failed to update reconciliation line');
+      return false;
+    }
+    refresh();
+    return true;
+  };
+
+  const handlePost = async () => {
+    if (!confirm(`Record payments for ${readyToPost} matched line${readyToPost === 1 ? '' : 's'}?`)) {
+      return;
+    }
+    setPosting(true);
+    try {
+      const result = await postReconciliationSession(agencyId, sessionId!, userId);
+      if (!result.success) {
+        toast.error(result.error || 'Failed to post reconciliation');
+        return;
+      }
+      if (result.posted > 0) {
+        toast.success(`Recorded payments for ${result.posted} line${result.posted === 1 ? '' : 's'}`);
+      }
+      if (result.failed > 0) {
+        toast.error(`${result.failed} line${result.failed === 1 ? '' : 's'} could not be posted: ${result.errors[0]}`);
+      }
+      refresh();
+      queryClient.invalidateQueries({ queryKey: ['accounting-repayments'] });
+      queryClient.invalidateQueries({ queryKey: ['accounting-loans'] });
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle>Bank Reconciliation</CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              Match bank statement lines with repayments and post them as payments
+            </p>
+          </div>
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".csv,.xlsx,.xls,.ofx,.qfx,.sta,.mt940,.940,.xml,.txt"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+            }}
+          />
+          <Button variant="outline" onClick={() => fileRef.current?.click()} disabled={importing}>
+            {importing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+            Import Statement
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {sessionsLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-neutral-400" />
+          </div>
+        ) : sessions.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <FileCheck className="w-12 h-12 mx-auto mb-4 text-neutral-400 dark:text-neutral-600" />
+            <p>Import a bank statement to reconcile transactions</p>
+            <p className="text-xs mt-2 text-muted-foreground">
+              Supports CSV and Excel (date, description and amount columns), OFX, MT940 and CAMT.053
+            </p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Imported</TableHead>
+                <TableHead>Statement</TableHead>
+                <TableHead className="text-right">Lines</TableHead>
+                <TableHead>Matched / Suggested / Unmatched / Ignored</TableHead>
+                <TableHead className="text-right">Posted</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sessions.map((s) => (
+                <TableRow key={s.id}>
+                  <TableCell>{formatDateSafe(s.createdAt)}</TableCell>
+                  <TableCell>
+                    {s.fileName} <span className="text-xs text-muted-foreground">({FORMAT_LABELS[s.format] || s.format})</span>
+                  </TableCell>
+                  <TableCell className="text-right">{s.summary.totalTransactions}</TableCell>
+                  <TableCell>
+                    {s.summary.matched} / {s.summary.suggested} / {s.summary.unmatched} / {s.summary.ignored}
+                  </TableCell>
+                  <TableCell className="text-right">{s.summary.posted}</TableCell>
+                  <TableCell>
+                    <Badge variant={s.status === 'completed' ? 'success' : 'outline'}>{s.status}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => setSessionId(s.id)}>Open</Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!sessionId} onOpenChange={(open) => !open && setSessionId(null)}>
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Bank Reconciliation</DialogTitle>
+            <DialogDescription>
+              {session ? `${session.fileName} · ${FORMAT_LABELS[session.format] || session.format}` : ''}
+            </DialogDescription>
+          </DialogHeader>
+
+          {session && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 p-4 bg-slate-50 dark:bg-neutral-800/50 rounded-lg">
+              <div>
+                <p className="text-xs text-slate-600">Total Lines</p>
+                <p className="text-lg font-bold">{session.summary.totalTransactions}</p>
+                <p className="text-xs text-slate-500">{formatCurrency(session.summary.totalAmount, 'ZMW')}</p>
+              </div>
+              <div>
+                <p className="text-xs text-slate-600">Matched</p>
+                <p className="text-lg font-bold text-green-600">{session.summary.matched}</p>
+                <p className="text-xs text-green-600">{formatCurrency(session.summary.matchedAmount, 'ZMW')}</p>
+              </div>
+              <div>
+                <p className="text-xs text-slate-600">Suggested / Unmatched</p>
+                <p className="text-lg font-bold text-amber-600">
+                  {session.summary.suggested} / {session.summary.unmatched}
+                </p>
+                <p className="text-xs text-slate-500">{formatCurrency(session.summary.unmatchedAmount, 'ZMW')} not matched</p>
+              </div>
+              <div>
+                <p className="text-xs text-slate-600">Posted</p>
+                <p className="text-lg font-bold">{session.summary.posted}</p>
+                <p className="text-xs text-slate-500">{session.summary.ignored} ignored</p>
+              </div>
+            </div>
+          )}
+
+          {linesLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-neutral-400" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Allocated To</TableHead>
+                  <TableHead>State</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map((line) => (
+                  <TableRow key={line.id}>
+                    <TableCell className="whitespace-nowrap">{line.transaction.date}</TableCell>
+                    <TableCell>
+                      <p>{line.transaction.description}</p>
+                      {line.transaction.reference && (
+                        <p className="text-xs text-muted-foreground font-mono">{line.transaction.reference}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right font-semibold">
+                      {formatCurrency(line.transaction.amount, 'ZMW')}
+                    </TableCell>
+                    <TableCell>
+                      {line.allocations.map((allocation, index) => (
+                        <p key={index} className="text-xs">
+                          {allocation.customerName || 'Loan'}{' '}
+                          <span className="font-mono">{allocation.loanId.substring(0, 8)}</span> ·{' '}
+                          {formatCurrency(allocation.amount, 'ZMW')}
+                        </p>
+                      ))}
+                      <p className="text-xs text-muted-foreground">{line.matchReason}</p>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={STATE_BADGES[line.state]}>{line.postedAt ? 'posted' : line.state}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {!line.postedAt && (
+                        <>
+                          {line.state === 'suggested' && (
+                            <Button variant="ghost" size="sm" title="Confirm" onClick={() => setLineState(line, 'matched')}>
+                              <Check className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button variant="ghost" size="sm" title="Allocate" onClick={() => setEditingLine(line)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          {line.state !== 'ignored' ? (
+                            <Button variant="ghost" size="sm" title="Ignore" onClick={() => setLineState(line, 'ignored')}>
+                              <Ban className="h-4 w-4" />
+                            </Button>
+                          ) : (
+                            <Button variant="ghost" size="sm" title="Restore" onClick={() => setLineState(line, 'unmatched')}>
+                              <RotateCcw className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {(line.state === 'matched' || line.state === 'suggested') && (
+                            <Button variant="ghost" size="sm" title="Unmatch" onClick={() => setLineState(line, 'unmatched')}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSessionId(null)}>Close</Button>
+            <Button onClick={handlePost} disabled={posting || readyToPost === 0}>
+              {posting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileCheck className="mr-2 h-4 w-4" />}
+              Post Matched ({readyToPost})
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {editingLine && (
+        <AllocationEditor
+          line={editingLine}
+          repayments={repayments}
+          onCancel={() => setEditingLine(null)}
+          onSave={async (allocations) => {
+            if (await setLineState(editingLine, 'matched', allocations)) {
+              setEditingLine(null);
+            }
+          }}
+        />
+      )}
+    </Card>
+  );
+}
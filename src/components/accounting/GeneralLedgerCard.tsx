@@ -0,0 +1,590 @@
+/**
+ * General Ledger Card Component
+ * Trial balance, income statement, balance sheet and journal from the posted
+ * ledger, with manual entries and the chart of accounts. Periods are locked by
+ * the period-end close
+ */
+
+import { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Select } from '../ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../ui/dialog';
+import { BookOpen, Lock, Loader2, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { formatCurrency } from '../../lib/utils';
+import {
+  getAccountingPeriods,
+  getJournalEntries,
+  getLedgerReports,
+  postManualJournalEntry,
+  reverseJournalEntry,
+  saveChartOfAccounts,
+} from '../../lib/accounting/general-ledger';
+import type {
+  AccountBalance,
+  AccountType,
+  JournalLine,
+  LedgerAccount,
+} from '../../../packages/loan-rules/src/ledger';
+
+interface GeneralLedgerCardProps {
+  agencyId: string;
+  userId: string;
+  canManage?: boolean; // Post and reverse entries
+  canEditChart?: boolean;
+}
+
+const ACCOUNT_TYPES: AccountType[] = ['asset', 'liability', 'equity', 'income', 'expense'];
+
+function getMonthRange(month: string): { from: string; to: string } {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  return { from: `${month}-01`, to: `${month}-${String(lastDay).padStart(2, '0')}` };
+}
+
+function BalanceRows({ rows, label, total }: { rows: AccountBalance[]; label: string; total: number }) {
+  return (
+    <>
+      <TableRow className="bg-neutral-50 dark:bg-neutral-800/50">
+        <TableCell colSpan={2} className="font-semibold">{label}</TableCell>
+      </TableRow>
+      {rows.map((row) => (
+        <TableRow key={row.code}>
+          <TableCell className="pl-6">{row.code} · {row.name}</TableCell>
+          <TableCell className="text-right">{formatCurrency(row.balance, 'ZMW')}</TableCell>
+        </TableRow>
+      ))}
+      <TableRow>
+        <TableCell className="font-medium">Total {label}</TableCell>
+        <TableCell className="text-right font-medium">{formatCurrency(total, 'ZMW')}</TableCell>
+      </TableRow>
+    </>
+  );
+}
+
+export function GeneralLedgerCard({ agencyId, userId, canManage = false, canEditChart = false }: GeneralLedgerCardProps) {
+  const queryClient = useQueryClient();
+  const [month, setMonth] = useState(() => new Date().toISOString().slice(0, 7));
+  const [entryDialogOpen, setEntryDialogOpen] = useState(false);
+  const { from, to } = getMonthRange(month);
+
+  const { data: reports, isLoading: reportsLoading } = useQuery({
+    queryKey: ['ledger-reports', agencyId, from, to],
+    queryFn: () => getLedgerReports(agencyId, from, to),
+    enabled: !!agencyId,
+  });
+
+  const { data: journal = [] } = useQuery({
+    queryKey: ['journal-entries', agencyId, from, to],
+    queryFn: () => getJournalEntries(agencyId, { from, to }),
+    enabled: !!agencyId,
+  });
+
+  const { data: periods } = useQuery({
+    queryKey: ['accounting-periods', agencyId],
+    queryFn: () => getAccountingPeriods(agencyId),
+    enabled: !!agencyId,
+  });
+
+  const refreshLedger = () => {
+    queryClient.invalidateQueries({ queryKey: ['ledger-reports', agencyId] });
+    queryClient.invalidateQueries({ queryKey: ['journal-entries', agencyId] });
+    queryClient.invalidateQueries({ queryKey: ['accounting-periods', agencyId] });
+  };
+
+  const handleReverse = async (entryId: string) => {
+    const reason = prompt('Reason for the reversal');
+    if (reason === null) return;
+    const result = await reverseJournalEntry(agencyId, entryId, reason || undefined);
+    if (!result.success) {
+      toast.error(result.error || 'Failed to reverse journal entry');
+      return;
+    }
+    toast.success('Journal entry reversed');
+    refreshLedger();
+  };
+
+  const accountNames = new Map((reports?.accounts || []).map((account) => [account.code, account.name]));
+  const isLocked = !!periods?.lockedThrough && month <= periods.lockedThrough;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <BookOpen className="h-5 w-5" />
+              General Ledger
+            </CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              {periods?.lockedThrough
+                ? `Periods closed through ${periods.lockedThrough}`
+                : 'No periods are locked'}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              type="month"
+              value={month}
+              onChange={(e) => e.target.value && setMonth(e.target.value)}
+              className="w-40"
+            />
+            {isLocked && (
+              <Badge variant="outline" className="gap-1">
+                <Lock className="h-3 w-3" />
+                Locked
+              </Badge>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {reportsLoading || !reports ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-neutral-400" />
+          </div>
+        ) : (
+          <Tabs defaultValue="trial-balance">
+            <TabsList>
+              <TabsTrigger value="trial-balance">Trial Balance</TabsTrigger>
+              <TabsTrigger value="income-statement">Income Statement</TabsTrigger>
+              <TabsTrigger value="balance-sheet">Balance Sheet</TabsTrigger>
+              <TabsTrigger value="journal">Journal</TabsTrigger>
+              <TabsTrigger value="accounts">Chart of Accounts</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="trial-balance">
+              <p className="text-xs text-muted-foreground mb-2">
+                Cumulative balances at {to}
+                {!reports.trialBalance.balanced && (
+                  <span className="text-red-600 ml-2">Debits and credits do not agree</span>
+                )}
+              </p>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Account</TableHead>
+                    <TableHead className="text-right">Debit</TableHead>
+                    <TableHead className="text-right">Credit</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {reports.trialBalance.rows.map((row) => {
+                    const net = row.debit - row.credit;
+                    return (
+                      <TableRow key={row.code}>
+                        <TableCell>{row.code} · {row.name}</TableCell>
+                        <TableCell className="text-right">{net > 0 ? formatCurrency(net, 'ZMW') : ''}</TableCell>
+                        <TableCell className="text-right">{net < 0 ? formatCurrency(-net, 'ZMW') : ''}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                  {reports.trialBalance.rows.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={3} className="text-center py-6 text-muted-foreground">
+                        Nothing has been posted yet.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  <TableRow>
+                    <TableCell className="font-semibold">Total</TableCell>
+                    <TableCell className="text-right font-semibold">
+                      {formatCurrency(reports.trialBalance.rows.reduce((sum, row) => sum + Math.max(0, row.debit - row.credit), 0), 'ZMW')}
+                    </TableCell>
+                    <TableCell className="text-right font-semibold">
+                      {formatCurrency(reports.trialBalance.rows.reduce((sum, row) => sum + Math.max(0, row.credit - row.debit), 0), 'ZMW')}
+                    </TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </TabsContent>
+
+            <TabsContent value="income-statement">
+              <p className="text-xs text-muted-foreground mb-2">{from} to {to}</p>
+              <Table>
+                <TableBody>
+                  <BalanceRows rows={reports.incomeStatement.income} label="Income" total={reports.incomeStatement.totalIncome} />
+                  <BalanceRows rows={reports.incomeStatement.expenses} label="Expenses" total={reports.incomeStatement.totalExpenses} />
+                  <TableRow>
+                    <TableCell className="font-semibold">Net Income</TableCell>
+                    <TableCell className="text-right font-semibold">
+                      {formatCurrency(reports.incomeStatement.netIncome, 'ZMW')}
+                    </TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </TabsContent>
+
+            <TabsContent value="balance-sheet">
+              <p className="text-xs text-muted-foreground mb-2">
+                As at {to}
+                {!reports.balanceSheet.balanced && (
+                  <span className="text-red-600 ml-2">Assets do not equal liabilities and equity</span>
+                )}
+              </p>
+              <Table>
+                <TableBody>
+                  <BalanceRows rows={reports.balanceSheet.assets} label="Assets" total={reports.balanceSheet.totalAssets} />
+                  <BalanceRows rows={reports.balanceSheet.liabilities} label="Liabilities" total={reports.balanceSheet.totalLiabilities} />
+                  <BalanceRows
+                    rows={[
+                      ...reports.balanceSheet.equity,
+                      {
+                        code: '',
+                        name: 'Current earnings',
+                        type: 'equity',
+                        debit: 0,
+                        credit: 0,
+                        balance: reports.balanceSheet.currentEarnings,
+                      },
+                    ]}
+                    label="Equity"
+                    total={reports.balanceSheet.totalEquity}
+                  />
+                </TableBody>
+              </Table>
+            </TabsContent>
+
+            <TabsContent value="journal">
+              {canManage && (
+                <div className="flex justify-end mb-2">
+                  <Button size="sm" variant="outline" onClick={() => setEntryDialogOpen(true)}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Manual Entry
+                  </Button>
+                </div>
+              )}
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Entry</TableHead>
+                    <TableHead>Lines</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    {canManage && <TableHead />}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {journal.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {entry.date}
+                        {entry.eventDate && entry.eventDate !== entry.date && (
+                          <p className="text-xs text-muted-foreground">Event {entry.eventDate}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <p className="font-medium">{entry.memo}</p>
+                        <div className="flex gap-1 mt-1">
+                          <Badge variant="outline">{entry.eventType.replace(/_/g, ' ')}</Badge>
+                          {entry.reversedByEntryId && <Badge variant="secondary">Reversed</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {entry.lines.map((line, index) => (
+                          <div key={index} className={line.credit > 0 ? 'pl-4' : ''}>
+                            {line.accountCode} {accountNames.get(line.accountCode) || ''}{' '}
+                            {line.debit > 0 ? `Dr ${line.debit.toFixed(2)}` : `Cr ${line.credit.toFixed(2)}`}
+                          </div>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(entry.totalDebit, 'ZMW')}</TableCell>
+                      {canManage && (
+                        <TableCell>
+                          {entry.eventType !== 'reversal' && !entry.reversedByEntryId && (
+                            <Button variant="ghost" size="sm" onClick={() => handleReverse(entry.id)} title="Reverse entry">
+                              <RotateCcw className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                  {journal.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={canManage ? 5 : 4} className="text-center py-6 text-muted-foreground">
+                        No entries were posted in this period.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </TabsContent>
+
+            <TabsContent value="accounts">
+              <ChartOfAccountsEditor
+                agencyId={agencyId}
+                userId={userId}
+                accounts={reports.accounts}
+                canEdit={canEditChart}
+                onSaved={refreshLedger}
+              />
+            </TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+
+      {canManage && reports && (
+        <ManualEntryDialog
+          open={entryDialogOpen}
+          onOpenChange={setEntryDialogOpen}
+          agencyId={agencyId}
+          accounts={reports.accounts}
+          onPosted={refreshLedger}
+        />
+      )}
+    </Card>
+  );
+}
+
+function ChartOfAccountsEditor({
+  agencyId,
+  userId,
+  accounts,
+  canEdit,
+  onSaved,
+}: {
+  agencyId: string;
+  userId: string;
+  accounts: LedgerAccount[];
+  canEdit: boolean;
+  onSaved: () => void;
+}) {
+  const [draft, setDraft] = useState<LedgerAccount[]>(accounts);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(accounts);
+  }, [accounts]);
+
+  const updateAccount = (index: number, changes: Partial<LedgerAccount>) => {
+    setDraft((prev) => prev.map((account, i) => (i === index ? { ...account, ...changes } : account)));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const result = await saveChartOfAccounts(agencyId, draft, userId);
+      if (!result.success) {
+        toast.error(result.error || 'Failed to save chart of accounts');
+        return;
+      }
+      toast.success('Chart of accounts saved');
+      onSaved();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Code</TableHead>
+            <TableHead>Name</TableHead>
+            <TableHead>Type</TableHead>
+            <TableHead>Used For</TableHead>
+            <TableHead>Active</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {draft.map((account, index) => (
+            <TableRow key={index}>
+              <TableCell>
+                <Input
+                  value={account.code}
+                  disabled={!canEdit}
+                  onChange={(e) => updateAccount(index, { code: e.target.value })}
+                  className="w-24"
+                />
+              </TableCell>
+              <TableCell>
+                <Input
+                  value={account.name}
+                  disabled={!canEdit}
+                  onChange={(e) => updateAccount(index, { name: e.target.value })}
+                />
+              </TableCell>
+              <TableCell>
+                <Select
+                  value={account.type}
+                  disabled={!canEdit || !!account.systemKey}
+                  onChange={(e) => updateAccount(index, { type: e.target.value as AccountType })}
+                  className="w-32"
+                >
+                  {ACCOUNT_TYPES.map((type) => (
+                    <option key={type} value={type}>{type}</option>
+                  ))}
+                </Select>
+              </TableCell>
+              <TableCell className="text-xs text-muted-foreground">
+                {account.systemKey ? account.systemKey.replace(/_/g, ' ') : 'Manual entries'}
+              </TableCell>
+              <TableCell>
+                <input
+                  type="checkbox"
+                  checked={account.active !== false}
+                  disabled={!canEdit || !!account.systemKey}
+                  onChange={(e) => updateAccount(index, { active: e.target.checked })}
+                />
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {canEdit && (
+        <div className="flex justify-between">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setDraft((prev) => [...prev, { code: '', name: '', type: 'expense', active: true }])}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Add Account
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Chart
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ManualEntryDialog({
+  open,
+  onOpenChange,
+  agencyId,
+  accounts,
+  onPosted,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  agencyId: string;
+  accounts: LedgerAccount[];
+  onPosted: () => void;
+}) {
+  const emptyLine = (): JournalLine => ({ accountCode: '', debit: 0, credit: 0 });
+  const [date, setDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [memo, setMemo] = useState('');
+  const [lines, setLines] = useState<JournalLine[]>([emptyLine(), emptyLine()]);
+  const [posting, setPosting] = useState(false);
+
+  const totalDebit = lines.reduce((sum, line) => sum + Number(line.debit || 0), 0);
+  const totalCredit = lines.reduce((sum, line) => sum + Number(line.credit || 0), 0);
+  const balanced = totalDebit > 0 && Math.abs(totalDebit - totalCredit) < 0.005;
+
+  const updateLine = (index: number, changes: Partial<JournalLine>) => {
+    setLines((prev) => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const handlePost = async () => {
+    setPosting(true);
+    try {
+      const result = await postManualJournalEntry(agencyId, {
+        date,
+        memo,
+        lines: lines.filter((line) => line.accountCode && (line.debit > 0 || line.credit > 0)),
+      });
+      if (!result.success) {
+        toast.error(result.error || 'Failed to post journal entry');
+        return;
+      }
+      toast.success('Journal entry posted');
+      setMemo('');
+      setLines([emptyLine(), emptyLine()]);
+      onOpenChange(false);
+      onPosted();
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Manual Journal Entry</DialogTitle>
+          <DialogDescription>Debits must equal credits. Locked periods cannot be posted to.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <Label>Date</Label>
+              <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div className="col-span-2">
+              <Label>Memo</Label>
+              <Input value={memo} onChange={(e) => setMemo(e.target.value)} placeholder="Description of the entry" />
+            </div>
+          </div>
+          {lines.map((line, index) => (
+            <div key={index} className="grid grid-cols-[1fr_110px_110px_auto] gap-2 items-center">
+              <Select value={line.accountCode} onChange={(e) => updateLine(index, { accountCode: e.target.value })}>
+                <option value="">Select account</option>
+                {accounts
+                  .filter((account) => account.active !== false)
+                  .map((account) => (
+                    <option key={account.code} value={account.code}>
+                      {account.code} · {account.name}
+                    </option>
+                  ))}
+              </Select>
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="Debit"
+                value={line.debit || ''}
+                onChange={(e) => updateLine(index, { debit: Number(e.target.value || 0), credit: 0 })}
+              />
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="Credit"
+                value={line.credit || ''}
+                onChange={(e) => updateLine(index, { credit: Number(e.target.value || 0), debit: 0 })}
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={lines.length <= 2}
+                onClick={() => setLines((prev) => prev.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex justify-between items-center text-sm">
+            <Button variant="outline" size="sm" onClick={() => setLines((prev) => [...prev, emptyLine()])}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Line
+            </Button>
+            <span className={balanced ? 'text-green-600' : 'text-red-600'}>
+              Debits {totalDebit.toFixed(2)} · Credits {totalCredit.toFixed(2)}
+            </span>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handlePost} disabled={posting || !balanced || !memo.trim()}>
+            {posting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Post Entry
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,482 @@
+/**
+ * Period Close Card Component
+ * Month-end close: the checks a month must pass, closing it to freeze its
+ * loan balances and lock the ledger, reopening, and the backdated
+ * transactions waiting for approval
+ */
+
+import { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Select } from '../ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { CheckCircle2, ClipboardCheck, Loader2, Lock, RotateCcw, XCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { formatCurrency, formatDateSafe } from '../../lib/utils';
+import { getAccountingPeriods } from '../../lib/accounting/general-ledger';
+import {
+  closeAccountingPeriod,
+  getPeriodCloseConfig,
+  getPeriodCloses,
+  getPeriodLoanBalances,
+  previewPeriodClose,
+  reopenAccountingPeriod,
+  savePeriodCloseConfig,
+  type PeriodCloseCheck,
+  type PeriodCloseConfig,
+} from '../../lib/accounting/period-close';
+import {
+  approveBackdatedRequest,
+  getPendingBackdatedRequests,
+  rejectBackdatedRequest,
+} from '../../lib/loans/backdated-payments';
+import { getNextPeriodId, type BackdatingPolicy } from '../../../packages/loan-rules/src/period-close';
+
+interface PeriodCloseCardProps {
+  agencyId: string;
+  userId: string;
+  canClose?: boolean; // Run checks, close periods and decide backdated requests
+  canReopen?: boolean;
+  canEditConfig?: boolean;
+}
+
+const POLICY_LABELS: Record<BackdatingPolicy, string> = {
+  approval: 'Hold for approval, then book in the open period',
+  block: 'Block',
+};
+
+function getPreviousMonth(): string {
+  const now = new Date();
+  const previous = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+  return previous.toISOString().slice(0, 7);
+}
+
+function CheckList({ checks }: { checks: PeriodCloseCheck[] }) {
+  return (
+    <ul className="space-y-1">
+      {checks.map((check) => (
+        <li key={check.id} className={`text-sm flex items-start gap-2 ${check.passed ? 'text-green-700' : 'text-red-700'}`}>
+          {check.passed ? <CheckCircle2 className="w-4 h-4 mt-0.5 shrink-0" /> : <XCircle className="w-4 h-4 mt-0.5 shrink-0" />}
+          <span>
+            <span className="font-medium">{check.label}</span>
+            <span className="text-neutral-500"> · {check.detail}</span>
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function PeriodCloseCard({ agencyId, userId, canClose = false, canReopen = false, canEditConfig = false }: PeriodCloseCardProps) {
+  const queryClient = useQueryClient();
+  const [month, setMonth] = useState(getPreviousMonth);
+  const [checks, setChecks] = useState<PeriodCloseCheck[] | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [closing, setClosing] = useState(false);
+  const [selectedPeriod, setSelectedPeriod] = useState<string | null>(null);
+  const [decidingId, setDecidingId] = useState<string | null>(null);
+
+  const { data: periods } = useQuery({
+    queryKey: ['accounting-periods', agencyId],
+    queryFn: () => getAccountingPeriods(agencyId),
+    enabled: !!agencyId,
+  });
+
+  const { data: closes = [], isLoading } = useQuery({
+    queryKey: ['period-closes', agencyId],
+    queryFn: () => getPeriodCloses(agencyId),
+    enabled: !!agencyId,
+  });
+
+  const { data: requests = [] } = useQuery({
+    queryKey: ['backdated-requests', agencyId],
+    queryFn: () => getPendingBackdatedRequests(agencyId),
+    enabled: !!agencyId,
+  });
+
+  const { data: config } = useQuery({
+    queryKey: ['period-close-config', agencyId],
+    queryFn: () => getPeriodCloseConfig(agencyId),
+    enabled: !!agencyId,
+  });
+
+  const selected = closes.find((close) => close.periodId === selectedPeriod) || closes[0];
+
+  const { data: balances = [], isLoading: balancesLoading } = useQuery({
+    queryKey: ['period-close-loans', agencyId, selected?.periodId],
+    queryFn: () => getPeriodLoanBalances(agencyId, selected!.periodId),
+    enabled: !!agencyId && !!selected,
+  });
+
+  // The next period to close follows the last closed one
+  useEffect(() => {
+    if (periods?.lockedThrough) {
+      setMonth(getNextPeriodId(periods.lockedThrough));
+    }
+  }, [periods?.lockedThrough]);
+
+  useEffect(() => {
+    setChecks(null);
+  }, [month]);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['accounting-periods', agencyId] });
+    queryClient.invalidateQueries({ queryKey: ['period-closes', agencyId] });
+    queryClient.invalidateQueries({ queryKey: ['period-close-loans', agencyId] });
+    queryClient.invalidateQueries({ queryKey: ['ledger-reports', agencyId] });
+  };
+
+  const handleCheck = async () => {
+    setChecking(true);
+    try {
+      const result = await previewPeriodClose(agencyId, month);
+      if (!result.success) {
+        toast.error(result.error || 'Failed to check the period');
+        return;
+      }
+      setChecks(result.checks || []);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleClose = async () => {
+    if (!confirm(`Close ${month}? Its balances are frozen and transactions dated in it will need approval or be blocked.`)) {
+      return;
+    }
+    setClosing(true);
+    try {
+      const result = await closeAccountingPeriod(agencyId, month);
+      if (result.checks) {
+        setChecks(result.checks);
+      }
+      if (!result.success) {
+        toast.error(result.error || 'Failed to close the period');
+        return;
+      }
+      toast.success(`${month} closed`);
+      setSelectedPeriod(month);
+      refresh();
+    } finally {
+      setClosing(false);
+    }
+  };
+
+  const handleReopen = async (periodId: string) => {
+    if (!confirm(`Reopen ${periodId} and every later period? Their snapshots are kept until the periods are closed again.`)) {
+      return;
+    }
+    const result = await reopenAccountingPeriod(agencyId, periodId);
+    if (!result.success) {
+      toast.error(result.error || 'Failed to reopen the period');
+      return;
+    }
+    toast.success(`${periodId} reopened`);
+    refresh();
+  };
+
+  const handleDecision = async (requestId: string, decision: 'approve' | 'reject') => {
+    const notes = prompt(decision === 'approve' ? 'Approval notes (optional)' : 'Reason for rejecting');
+    if (notes === null) return;
+    setDecidingId(requestId);
+    try {
+      const result = decision === 'approve'
+        ? await approveBackdatedRequest(agencyId, requestId, userId, notes || undefined)
+        : await rejectBackdatedRequest(agencyId, requestId, userId, notes || undefined);
+      if (!result.success) {
+        toast.error(result.error || `Failed to ${decision} backdated payment`);
+        return;
+      }
+      toast.success(decision === 'approve' ? 'Backdated payment recorded' : 'Backdated payment rejected');
+      queryClient.invalidateQueries({ queryKey: ['backdated-requests', agencyId] });
+      queryClient.invalidateQueries({ queryKey: ['loans'] });
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
+  const allPassed = !!checks && checks.every((check) => check.passed);
+  const latestClosed = closes.find((close) => close.status === 'closed');
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ClipboardCheck className="h-5 w-5" />
+              Period-end Close
+            </CardTitle>
+            <CardDescription>
+              {periods?.lockedThrough ? `Closed through ${periods.lockedThrough}` : 'No period has been closed'}
+            </CardDescription>
+          </div>
+          {canClose && (
+            <div className="flex items-end gap-2">
+              <div>
+                <Label>Period</Label>
+                <Input type="month" value={month} onChange={(e) => e.target.value && setMonth(e.target.value)} className="w-40" />
+              </div>
+              <Button variant="outline" onClick={handleCheck} disabled={checking}>
+                {checking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Run Checks
+              </Button>
+              <Button onClick={handleClose} disabled={closing || !allPassed}>
+                {closing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Lock className="mr-2 h-4 w-4" />}
+                Close Period
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {checks && <CheckList checks={checks} />}
+
+        <Tabs defaultValue="closes">
+          <TabsList>
+            <TabsTrigger value="closes">Closed Periods</TabsTrigger>
+            <TabsTrigger value="backdated">
+              Backdated {requests.length > 0 && <Badge variant="outline" className="ml-2">{requests.length}</Badge>}
+            </TabsTrigger>
+            <TabsTrigger value="settings">Settings</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="closes" className="space-y-4 mt-4">
+            {isLoading ? (
+              <Loader2 className="w-5 h-5 animate-spin" />
+            ) : closes.length === 0 ? (
+              <p className="text-sm text-neutral-500">No period has been closed yet.</p>
+            ) : (
+              <>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Period</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Loans</TableHead>
+                      <TableHead className="text-right">Principal</TableHead>
+                      <TableHead className="text-right">Total outstanding</TableHead>
+                      <TableHead>Closed</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {closes.map((close) => (
+                      <TableRow
+                        key={close.periodId}
+                        className="cursor-pointer"
+                        onClick={() => setSelectedPeriod(close.periodId)}
+                      >
+                        <TableCell className="font-medium">
+                          {close.periodId}
+                          {close.periodId === selected?.periodId && <Badge variant="outline" className="ml-2">Selected</Badge>}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={close.status === 'closed' ? 'default' : 'secondary'}>
+                            {close.status}{close.revision > 1 ? ` (rev ${close.revision})` : ''}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">{close.totals?.loanCount || 0}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(close.totals?.principalOutstanding || 0)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(close.totals?.totalOutstanding || 0)}</TableCell>
+                        <TableCell>{close.closedAt ? formatDateSafe(close.closedAt) : '-'}</TableCell>
+                        <TableCell className="text-right">
+                          {canReopen && close.periodId === latestClosed?.periodId && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleReopen(close.periodId);
+                              }}
+                            >
+                              <RotateCcw className="mr-2 h-4 w-4" />
+                              Reopen
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                {selected && (
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium">Loan balances at {selected.periodEnd}</p>
+                    {balancesLoading ? (
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                    ) : (
+                      <div className="max-h-96 overflow-y-auto">
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>Loan</TableHead>
+                              <TableHead>Status</TableHead>
+                              <TableHead className="text-right">Principal</TableHead>
+                              <TableHead className="text-right">Interest</TableHead>
+                              <TableHead className="text-right">Fees &amp; penalties</TableHead>
+                              <TableHead className="text-right">Days past due</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {balances.filter((balance) => balance.onBook).map((balance) => (
+                              <TableRow key={balance.loanId}>
+                                <TableCell className="font-mono text-xs">{balance.loanId}</TableCell>
+                                <TableCell>{balance.status}</TableCell>
+                                <TableCell className="text-right">{formatCurrency(balance.principalOutstanding)}</TableCell>
+                                <TableCell className="text-right">{formatCurrency(balance.interestOutstanding)}</TableCell>
+                                <TableCell className="text-right">
+                                  {formatCurrency(balance.feesOutstanding + balance.penaltiesOutstanding)}
+                                </TableCell>
+                                <TableCell className="text-right">{balance.daysPastDue}</TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="backdated" className="mt-4">
+            {requests.length === 0 ? (
+              <p className="text-sm text-neutral-500">No backdated transactions are awaiting approval.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Dated</TableHead>
+                    <TableHead>Loan</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {requests.map((request) => (
+                    <TableRow key={request.id}>
+                      <TableCell>{request.date}</TableCell>
+                      <TableCell className="font-mono text-xs">{request.loanId}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(request.payment.amount)}</TableCell>
+                      <TableCell>{request.reason}</TableCell>
+                      <TableCell className="text-right space-x-2">
+                        {canClose && request.requestedBy !== userId ? (
+                          <>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleDecision(request.id, 'reject')}
+                              disabled={decidingId === request.id}
+                            >
+                              Reject
+                            </Button>
+                            <Button
+                              size="sm"
+                              onClick={() => handleDecision(request.id, 'approve')}
+                              disabled={decidingId === request.id}
+                            >
+                              {decidingId === request.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                              Approve
+                            </Button>
+                          </>
+                        ) : (
+                          <span className="text-xs text-neutral-500">
+                            {request.requestedBy === userId ? 'Awaiting another approver' : 'Awaiting approval'}
+                          </span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </TabsContent>
+
+          <TabsContent value="settings" className="mt-4">
+            {config ? (
+              <PeriodCloseConfigEditor
+                agencyId={agencyId}
+                userId={userId}
+                config={config}
+                canEdit={canEditConfig}
+                onSaved={() => queryClient.invalidateQueries({ queryKey: ['period-close-config', agencyId] })}
+              />
+            ) : (
+              <Loader2 className="w-5 h-5 animate-spin" />
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
+
+function PeriodCloseConfigEditor({
+  agencyId,
+  userId,
+  config,
+  canEdit,
+  onSaved,
+}: {
+  agencyId: string;
+  userId: string;
+  config: PeriodCloseConfig;
+  canEdit: boolean;
+  onSaved: () => void;
+}) {
+  const [draft, setDraft] = useState<PeriodCloseConfig>(config);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(config);
+  }, [config]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const result = await savePeriodCloseConfig(agencyId, draft, userId);
+      if (!result.success) {
+        toast.error(result.error || 'Failed to save period close settings');
+        return;
+      }
+      toast.success('Period close settings saved');
+      onSaved();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="w-96">
+        <Label>Transactions dated in a closed period</Label>
+        <Select
+          value={draft.backdatingPolicy}
+          disabled={!canEdit}
+          onChange={(e) => setDraft({ ...draft, backdatingPolicy: e.target.value as BackdatingPolicy })}
+        >
+          {Object.entries(POLICY_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </Select>
+      </div>
+
+      {canEdit && (
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Settings
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
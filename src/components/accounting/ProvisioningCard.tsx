@@ -0,0 +1,484 @@
+/**
+ * Provisioning Card Component
+ * Monthly loan loss allowance movements, the stage and Bank of Zambia
+ * classification of the book, and the provisioning config
+ */
+
+import { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Select } from '../ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Loader2, Play, ShieldAlert } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { formatCurrency } from '../../lib/utils';
+import {
+  getProvisionReports,
+  getProvisionedExposures,
+  getProvisioningConfig,
+  runProvisioning,
+  saveProvisioningConfig,
+  type ProvisionReport,
+} from '../../lib/accounting/provisioning';
+import {
+  BOZ_CLASSIFICATIONS,
+  type ProvisionBucket,
+  type ProvisioningConfig,
+  type ProvisioningFramework,
+} from '../../../packages/loan-rules/src/provisioning';
+
+interface ProvisioningCardProps {
+  agencyId: string;
+  userId: string;
+  canRun?: boolean; // Run provisioning for a past month
+  canEditConfig?: boolean;
+}
+
+const FRAMEWORK_LABELS: Record<ProvisioningFramework, string> = {
+  ifrs9: 'IFRS 9 expected credit loss',
+  boz: 'Bank of Zambia classification',
+};
+
+function getPreviousMonth(): string {
+  const now = new Date();
+  const previous = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+  return previous.toISOString().slice(0, 7);
+}
+
+function formatLabel(value: string): string {
+  return value.replace(/_/g, ' ').replace(/\b\w/g, (char) => char.toUpperCase());
+}
+
+function toPercent(rate: number): string {
+  return String(Math.round(rate * 10000) / 100);
+}
+
+function BucketRows({ buckets }: { buckets: Array<[string, ProvisionBucket]> }) {
+  return (
+    <>
+      {buckets.map(([label, bucket]) => (
+        <TableRow key={label}>
+          <TableCell>{label}</TableCell>
+          <TableCell className="text-right">{bucket.count}</TableCell>
+          <TableCell className="text-right">{formatCurrency(bucket.exposure, 'ZMW')}</TableCell>
+          <TableCell className="text-right">{formatCurrency(bucket.provision, 'ZMW')}</TableCell>
+          <TableCell className="text-right">
+            {bucket.exposure > 0 ? `${toPercent(bucket.provision / bucket.exposure)}%` : '-'}
+          </TableCell>
+        </TableRow>
+      ))}
+    </>
+  );
+}
+
+export function ProvisioningCard({ agencyId, userId, canRun = false, canEditConfig = false }: ProvisioningCardProps) {
+  const queryClient = useQueryClient();
+  const [runMonth, setRunMonth] = useState(getPreviousMonth);
+  const [running, setRunning] = useState(false);
+  const [selectedPeriod, setSelectedPeriod] = useState<string | null>(null);
+
+  const { data: reports = [], isLoading } = useQuery({
+    queryKey: ['provision-reports', agencyId],
+    queryFn: () => getProvisionReports(agencyId),
+    enabled: !!agencyId,
+  });
+
+  const { data: config } = useQuery({
+    queryKey: ['provisioning-config', agencyId],
+    queryFn: () => getProvisioningConfig(agencyId),
+    enabled: !!agencyId,
+  });
+
+  const selected: ProvisionReport | undefined =
+    reports.find((report) => report.periodId === selectedPeriod) || reports[0];
+
+  const { data: exposures = [] } = useQuery({
+    queryKey: ['provisioned-exposures', agencyId, selected?.periodId],
+    queryFn: () => getProvisionedExposures(agencyId, selected!.periodId),
+    enabled: !!agencyId && !!selected,
+  });
+
+  const handleRun = async () => {
+    if (!confirm(`Provision the book as at the end of ${runMonth}? The movement will be posted to the general ledger.`)) {
+      return;
+    }
+    setRunning(true);
+    try {
+      const result = await runProvisioning(agencyId, runMonth);
+      if (!result.success) {
+        toast.error(result.error || 'Failed to run provisioning');
+        return;
+      }
+      toast.success(`Provisioned ${result.loanCount} loans: charge ${formatCurrency(result.charge || 0, 'ZMW')}`);
+      setSelectedPeriod(runMonth);
+      queryClient.invalidateQueries({ queryKey: ['provision-reports', agencyId] });
+      queryClient.invalidateQueries({ queryKey: ['ledger-reports', agencyId] });
+      queryClient.invalidateQueries({ queryKey: ['journal-entries', agencyId] });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldAlert className="h-5 w-5" />
+              Loan Loss Provisioning
+            </CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              {config ? FRAMEWORK_LABELS[config.framework] : 'Loading config...'} · run on the first of each month
+            </p>
+          </div>
+          {canRun && (
+            <div className="flex flex-wrap items-center gap-2">
+              <Input
+                type="month"
+                value={runMonth}
+                onChange={(e) => e.target.value && setRunMonth(e.target.value)}
+                className="w-40"
+              />
+              <Button variant="outline" size="sm" onClick={handleRun} disabled={running}>
+                {running ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+                Run Provisioning
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-neutral-400" />
+          </div>
+        ) : (
+          <Tabs defaultValue="movements">
+            <TabsList>
+              <TabsTrigger value="movements">Monthly Movements</TabsTrigger>
+              <TabsTrigger value="classification">Classification</TabsTrigger>
+              <TabsTrigger value="settings">Settings</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="movements">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Period</TableHead>
+                    <TableHead>Basis</TableHead>
+                    <TableHead className="text-right">Opening</TableHead>
+                    <TableHead className="text-right">Charge / (Release)</TableHead>
+                    <TableHead className="text-right">Closing</TableHead>
+                    <TableHead className="text-right">Exposure</TableHead>
+                    <TableHead className="text-right">Loans</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {reports.map((report) => (
+                    <TableRow
+                      key={report.periodId}
+                      className="cursor-pointer"
+                      onClick={() => setSelectedPeriod(report.periodId)}
+                    >
+                      <TableCell className="font-medium">
+                        {report.periodId}
+                        {report.periodId === selected?.periodId && <Badge variant="outline" className="ml-2">Selected</Badge>}
+                      </TableCell>
+                      <TableCell>{report.framework === 'boz' ? 'BoZ' : 'IFRS 9'}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(report.opening, 'ZMW')}</TableCell>
+                      <TableCell className={`text-right ${report.charge < 0 ? 'text-green-600' : ''}`}>
+                        {report.charge < 0
+                          ? `(${formatCurrency(-report.charge, 'ZMW')})`
+                          : formatCurrency(report.charge, 'ZMW')}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">{formatCurrency(report.closing, 'ZMW')}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(report.totalExposure, 'ZMW')}</TableCell>
+                      <TableCell className="text-right">{report.loanCount}</TableCell>
+                    </TableRow>
+                  ))}
+                  {reports.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center py-6 text-muted-foreground">
+                        No month has been provisioned yet.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </TabsContent>
+
+            <TabsContent value="classification">
+              {!selected ? (
+                <p className="text-center py-6 text-muted-foreground">No month has been provisioned yet.</p>
+              ) : (
+                <div className="space-y-4">
+                  <p className="text-xs text-muted-foreground">As at {selected.asOf}</p>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Bucket</TableHead>
+                        <TableHead className="text-right">Loans</TableHead>
+                        <TableHead className="text-right">Exposure</TableHead>
+                        <TableHead className="text-right">Provision</TableHead>
+                        <TableHead className="text-right">Coverage</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      <TableRow className="bg-neutral-50 dark:bg-neutral-800/50">
+                        <TableCell colSpan={5} className="font-semibold">IFRS 9 Stage</TableCell>
+                      </TableRow>
+                      <BucketRows
+                        buckets={([1, 2, 3] as const).map((stage) => [`Stage ${stage}`, selected.byStage[`stage${stage}`]])}
+                      />
+                      <TableRow className="bg-neutral-50 dark:bg-neutral-800/50">
+                        <TableCell colSpan={5} className="font-semibold">Bank of Zambia Classification</TableCell>
+                      </TableRow>
+                      <BucketRows
+                        buckets={BOZ_CLASSIFICATIONS.map((classification) => [
+                          formatLabel(classification),
+                          selected.byClassification[classification],
+                        ])}
+                      />
+                    </TableBody>
+                  </Table>
+
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Loan</TableHead>
+                        <TableHead className="text-right">Days Past Due</TableHead>
+                        <TableHead>Stage / Class</TableHead>
+                        <TableHead className="text-right">EAD</TableHead>
+                        <TableHead className="text-right">PD × LGD</TableHead>
+                        <TableHead className="text-right">Provision</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {exposures.slice(0, 20).map((exposure) => (
+                        <TableRow key={exposure.loanId}>
+                          <TableCell className="font-mono text-xs">
+                            {exposure.loanId}
+                            {exposure.restructured && <Badge variant="secondary" className="ml-2">Restructured</Badge>}
+                          </TableCell>
+                          <TableCell className="text-right">{exposure.daysPastDue}</TableCell>
+                          <TableCell>Stage {exposure.stage} · {formatLabel(exposure.classification)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(exposure.exposureAtDefault, 'ZMW')}</TableCell>
+                          <TableCell className="text-right">
+                            {toPercent(exposure.probabilityOfDefault)}% × {toPercent(exposure.lossGivenDefault)}%
+                          </TableCell>
+                          <TableCell className="text-right">{formatCurrency(exposure.provision, 'ZMW')}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  {exposures.length > 20 && (
+                    <p className="text-xs text-muted-foreground">Showing the 20 largest of {exposures.length} provisions.</p>
+                  )}
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="settings">
+              {config && (
+                <ProvisioningConfigEditor
+                  agencyId={agencyId}
+                  userId={userId}
+                  config={config}
+                  canEdit={canEditConfig}
+                  onSaved={() => queryClient.invalidateQueries({ queryKey: ['provisioning-config', agencyId] })}
+                />
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ProvisioningConfigEditor({
+  agencyId,
+  userId,
+  config,
+  canEdit,
+  onSaved,
+}: {
+  agencyId: string;
+  userId: string;
+  config: ProvisioningConfig;
+  canEdit: boolean;
+  onSaved: () => void;
+}) {
+  const [draft, setDraft] = useState<ProvisioningConfig>(config);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(config);
+  }, [config]);
+
+  const update = (changes: Partial<ProvisioningConfig>) => {
+    setDraft((prev) => ({ ...prev, ...changes }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const result = await saveProvisioningConfig(agencyId, draft, userId);
+      if (!result.success) {
+        toast.error(result.error || 'Failed to save provisioning config');
+        return;
+      }
+      toast.success('Provisioning config saved. It applies from the next run.');
+      onSaved();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div>
+          <Label>Framework</Label>
+          <Select
+            value={draft.framework}
+            disabled={!canEdit}
+            onChange={(e) => update({ framework: e.target.value as ProvisioningFramework })}
+          >
+            {Object.entries(FRAMEWORK_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </Select>
+        </div>
+        <div>
+          <Label>Stage 2 after (days past due)</Label>
+          <Input
+            type="number"
+            min="1"
+            value={draft.stage2DaysPastDue}
+            disabled={!canEdit}
+            onChange={(e) => update({ stage2DaysPastDue: Number(e.target.value || 0) })}
+          />
+        </div>
+        <div>
+          <Label>Stage 3 after (days past due)</Label>
+          <Input
+            type="number"
+            min="1"
+            value={draft.stage3DaysPastDue}
+            disabled={!canEdit}
+            onChange={(e) => update({ stage3DaysPastDue: Number(e.target.value || 0) })}
+          />
+        </div>
+        {([1, 2, 3] as const).map((stage) => (
+          <div key={stage}>
+            <Label>Stage {stage} PD (%)</Label>
+            <Input
+              type="number"
+              step="0.01"
+              min="0"
+              max="100"
+              value={toPercent(draft.probabilityOfDefault[`stage${stage}`])}
+              disabled={!canEdit}
+              onChange={(e) => update({
+                probabilityOfDefault: { ...draft.probabilityOfDefault, [`stage${stage}`]: Number(e.target.value || 0) / 100 },
+              })}
+            />
+          </div>
+        ))}
+        <div>
+          <Label>Loss given default (%)</Label>
+          <Input
+            type="number"
+            step="0.01"
+            min="0"
+            max="100"
+            value={toPercent(draft.lossGivenDefault)}
+            disabled={!canEdit}
+            onChange={(e) => update({ lossGivenDefault: Number(e.target.value || 0) / 100 })}
+          />
+        </div>
+        <div>
+          <Label>Restructured loans at least</Label>
+          <Select
+            value={String(draft.restructuredMinimumStage)}
+            disabled={!canEdit}
+            onChange={(e) => update({ restructuredMinimumStage: Number(e.target.value) as 1 | 2 | 3 })}
+          >
+            <option value="1">Stage 1</option>
+            <option value="2">Stage 2</option>
+            <option value="3">Stage 3</option>
+          </Select>
+        </div>
+        <div className="flex items-end gap-2 pb-2">
+          <input
+            id="use-model-probability"
+            type="checkbox"
+            checked={draft.useModelProbability}
+            disabled={!canEdit}
+            onChange={(e) => update({ useModelProbability: e.target.checked })}
+          />
+          <Label htmlFor="use-model-probability">Use the default-risk model's PD where it is higher</Label>
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Bank of Zambia Class</TableHead>
+            <TableHead>From (days past due)</TableHead>
+            <TableHead>Provision (%)</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {draft.bozClasses.map((rule, index) => (
+            <TableRow key={rule.classification}>
+              <TableCell>{formatLabel(rule.classification)}</TableCell>
+              <TableCell>
+                <Input
+                  type="number"
+                  min="0"
+                  value={rule.minDaysPastDue}
+                  disabled={!canEdit}
+                  onChange={(e) => update({
+                    bozClasses: draft.bozClasses.map((r, i) => (i === index ? { ...r, minDaysPastDue: Number(e.target.value || 0) } : r)),
+                  })}
+                  className="w-28"
+                />
+              </TableCell>
+              <TableCell>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max="100"
+                  value={toPercent(rule.provisionRate)}
+                  disabled={!canEdit}
+                  onChange={(e) => update({
+                    bozClasses: draft.bozClasses.map((r, i) => (i === index ? { ...r, provisionRate: Number(e.target.value || 0) / 100 } : r)),
+                  })}
+                  className="w-28"
+                />
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {canEdit && (
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Settings
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -28,8 +28,9 @@ import { doc, updateDoc, serverTimestamp, collection, query, where, getDocs, add
 import { db } from '../../lib/firebase/config';
 import { createAuditLog, createCustomer } from '../../lib/firebase/firestore-helpers';
 import { useQueryClient } from '@tanstack/react-query';
-import { approveLoan, rejectLoan, disburseLoan, LoanStatus } from '../../lib/loans/workflow';
-import { UserRole } from '../../types/loan-workflow';
+import { approveLoan, rejectLoan, disburseLoan, changeLoanStatus } from '../../lib/loans/workflow';
+import { formatApprovalRequirements } from '../../lib/loans/approvals';
+import { LoanStatus, UserRole } from '../../types/loan-workflow';
 
 interface AIChatPanelProps {
   open: boolean;
@@ -479,26 +480,6 @@ ${errorMessage}
         case 'update_loan_status': {
           const { loanId, status, loanNumber } = actionData;
 
-          // Check if trying to approve/reject/disburse without admin permission
-          const restrictedStatuses = ['approved', 'rejected', 'disbursed'];
-          if (restrictedStatuses.includes(status) && !isAdmin) {
-            toast.error('This status change requires admin permissions. Only administrators can approve, reject, or disburse loans.');
-            if (messageId) {
-              setMessages((prev) =>
-                prev.map((msg) =>
-                  msg.id === messageId
-                    ? {
-                        ...msg,
-                        pendingAction: undefined,
-                        content: `${typeof msg.content === 'string' ? msg.content : String(msg.content || '')}\n\n❌ **Action Failed:** Changing loan status to "${status}" requires admin permissions. Please contact an administrator.`,
-                      }
-                    : msg
-                )
-              );
-            }
-            return;
-          }
-
           // If loanNumber is provided but not loanId, try to find loan
           let finalLoanId = loanId;
           if (!finalLoanId && loanNumber) {
@@ -524,48 +505,52 @@ ${errorMessage}
             return;
           }
 
-          const validStatuses = ['pending', 'approved', 'active', 'completed', 'defaulted', 'rejected', 'cancelled'];
+          const validStatuses = Object.values(LoanStatus) as string[];
           if (!validStatuses.includes(status)) {
             toast.error(`Invalid status. Must be one of: ${validStatuses.join(', ')}`);
             return;
           }
 
-          const loanRef = doc(db, 'agencies', profile.agency_id, 'loans', finalLoanId);
-          
-          // Get current status first
-          const { getDoc } = await import('firebase/firestore');
-          const loanSnap = await getDoc(loanRef);
-          if (!loanSnap.exists()) {
-            toast.error('Loan not found.');
-            return;
-          }
+          const userRole = profile.role === 'admin' ? UserRole.ADMIN :
+                          profile.employee_category === 'manager' ? UserRole.MANAGER :
+                          profile.employee_category === 'accountant' ? UserRole.ACCOUNTANT :
+                          profile.employee_category === 'underwriter' ? UserRole.UNDERWRITER :
+                          UserRole.LOAN_OFFICER;
+
+          // The transition is validated against the state machine and the user's role server-side
+          const result = await changeLoanStatus({
+            loanId: finalLoanId,
+            agencyId: profile.agency_id,
+            newStatus: status as LoanStatus,
+            userId: user.id,
+            userRole,
+            notes: 'Requested from AI assistant',
+          });
 
-          const currentStatus = loanSnap.data().status;
-          if (currentStatus === status) {
-            toast.info('Loan status is already set to this value.');
+          if (!result.success) {
+            toast.error(result.error || 'Failed to update loan status');
+            if (messageId) {
+              setMessages((prev) =>
+                prev.map((msg) =>
+                  msg.id === messageId
+                    ? {
+                        ...msg,
+                        pendingAction: undefined,
+                        content: `${typeof msg.content === 'string' ? msg.content : String(msg.content || '')}\n\n❌ **Action Failed:** ${result.error || 'Failed to update loan status'}`,
+                      }
+                    : msg
+                )
+              );
+            }
             return;
           }
 
-          await updateDoc(loanRef, {
-            status: status,
-            statusUpdatedAt: serverTimestamp(),
-            statusUpdatedBy: user.id,
-            updatedAt: serverTimestamp(),
-          });
-
-          // Create audit log
-          await createAuditLog(profile.agency_id, {
-            actorId: user.id,
-            action: 'update_loan_status',
-            targetCollection: 'loans',
-            targetId: finalLoanId,
-            metadata: {
-              oldStatus: currentStatus,
-              newStatus: status,
-            },
-          }).catch(() => {
-            // Ignore audit log errors
-          });
+          const currentStatus = result.previousStatus;
+          if (result.awaitingApprovals) {
+            toast.success(`Approval signed. Still needed: ${formatApprovalRequirements(result.awaitingApprovals)}`);
+            queryClient.invalidateQueries({ queryKey: ['loan', finalLoanId] });
+            break;
+          }
 
           toast.success(`Loan status updated to "${status}"`);
           queryClient.invalidateQueries({ queryKey: ['loans'] });
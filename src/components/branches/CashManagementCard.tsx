@@ -0,0 +1,516 @@
+/**
+ * Cash Management Card Component
+ * Branch vault balances and movements with the bank and between branches,
+ * transfers awaiting receipt, teller sessions with their closing variances,
+ * shortages per teller and the agency's cash management settings
+ */
+
+import { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Select } from '../ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Loader2, Play, Vault } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { formatCurrency, formatDateSafe } from '../../lib/utils';
+import {
+  cancelVaultTransfer,
+  dispatchVaultTransfer,
+  getVaultTransfers,
+  receiveVaultTransfer,
+  recordVaultBankMovement,
+  type VaultTransferType,
+} from '../../lib/branches/branch-manager';
+import {
+  getCashManagementConfig,
+  getTellerNames,
+  getTellerSessions,
+  getTellerVarianceReport,
+  saveCashManagementConfig,
+  type CashManagementConfig,
+  type TellerVarianceSummary,
+} from '../../lib/branches/teller-sessions';
+import type { Branch } from '../../types/features';
+
+interface CashManagementCardProps {
+  agencyId: string;
+  userId: string;
+  branches: Branch[];
+  canEditConfig?: boolean;
+}
+
+const TRANSFER_LABELS: Record<VaultTransferType, string> = {
+  bank_withdrawal: 'Bank withdrawal',
+  bank_deposit: 'Bank deposit',
+  float_issue: 'Teller float',
+  cash_return: 'Teller return',
+  inter_branch: 'Branch transfer',
+};
+
+type VaultAction = 'withdrawal' | 'deposit' | 'transfer';
+
+function getMonthStart(): string {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), 1).toISOString().slice(0, 10);
+}
+
+export function CashManagementCard({ agencyId, userId, branches, canEditConfig = false }: CashManagementCardProps) {
+  const queryClient = useQueryClient();
+  const [branchId, setBranchId] = useState('');
+  const [action, setAction] = useState<VaultAction>('withdrawal');
+  const [toBranchId, setToBranchId] = useState('');
+  const [amount, setAmount] = useState('');
+  const [reference, setReference] = useState('');
+  const [working, setWorking] = useState(false);
+  const [from, setFrom] = useState(getMonthStart);
+  const [to, setTo] = useState(() => new Date().toISOString().slice(0, 10));
+  const [variances, setVariances] = useState<TellerVarianceSummary[] | null>(null);
+
+  const branchNames = Object.fromEntries(branches.map((branch) => [branch.id, branch.name]));
+
+  const { data: transfers = [], isLoading: transfersLoading } = useQuery({
+    queryKey: ['vault-transfers', agencyId],
+    queryFn: () => getVaultTransfers(agencyId),
+    enabled: !!agencyId,
+  });
+
+  const { data: sessions = [], isLoading: sessionsLoading } = useQuery({
+    queryKey: ['teller-sessions', agencyId],
+    queryFn: () => getTellerSessions(agencyId),
+    enabled: !!agencyId,
+  });
+
+  const { data: tellerNames = {} } = useQuery({
+    queryKey: ['teller-names', agencyId],
+    queryFn: () => getTellerNames(agencyId),
+    enabled: !!agencyId,
+  });
+
+  const { data: config } = useQuery({
+    queryKey: ['cash-management-config', agencyId],
+    queryFn: () => getCashManagementConfig(agencyId),
+    enabled: !!agencyId,
+  });
+
+  const inTransit = transfers.filter((transfer) => transfer.status === 'in_transit');
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['branches', agencyId] });
+    queryClient.invalidateQueries({ queryKey: ['vault-transfers', agencyId] });
+  };
+
+  const handleVaultAction = async () => {
+    const value = Number(amount);
+    if (!branchId || !(value > 0)) {
+      toast.error('Choose a branch and enter an amount');
+      return;
+    }
+    if (action === 'transfer' && (!toBranchId || toBranchId === branchId)) {
+      toast.error('Choose a different branch to send the cash to');
+      return;
+    }
+    setWorking(true);
+    try {
+      if (action === 'transfer') {
+        await dispatchVaultTransfer(agencyId, { fromBranchId: branchId, toBranchId, amount: value, userId, reference });
+        toast.success('Cash dispatched. The receiving branch confirms it on arrival.');
+      } else {
+        await recordVaultBankMovement(agencyId, { branchId, direction: action, amount: value, userId, reference });
+        toast.success(action === 'withdrawal' ? 'Bank withdrawal recorded' : 'Bank deposit recorded');
+      }
+      setAmount('');
+      setReference('');
+      refresh();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to move vault cash');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleReceive = async (transferId: string, dispatched: number) => {
+    const input = prompt('Amount counted on arrival', String(dispatched));
+    if (input === null) return;
+    const received = Number(input);
+    if (!(received >= 0)) {
+      toast.error('Enter the amount received');
+      return;
+    }
+    try {
+      await receiveVaultTransfer(agencyId, transferId, received, userId);
+      toast.success(received === dispatched ? 'Transfer received' : `Transfer received with a difference of ${formatCurrency(received - dispatched)}`);
+      refresh();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to receive transfer');
+    }
+  };
+
+  const handleCancel = async (transferId: string) => {
+    if (!confirm('Cancel this transfer and return the cash to the sending vault?')) return;
+    try {
+      await cancelVaultTransfer(agencyId, transferId, userId);
+      toast.success('Transfer cancelled');
+      refresh();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to cancel transfer');
+    }
+  };
+
+  const handleVarianceReport = async () => {
+    setWorking(true);
+    try {
+      setVariances(await getTellerVarianceReport(agencyId, {
+        from: new Date(`${from}T00:00:00`),
+        to: new Date(`${to}T23:59:59`),
+      }));
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to build variance report');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Vault className="h-5 w-5" />
+          Cash Management
+        </CardTitle>
+        <CardDescription>
+          Branch vaults, cash moved with the bank and between branches, and teller drawer variances
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="vaults">
+          <TabsList>
+            <TabsTrigger value="vaults">Vaults</TabsTrigger>
+            <TabsTrigger value="transfers">Transfers{inTransit.length > 0 ? ` (${inTransit.length})` : ''}</TabsTrigger>
+            <TabsTrigger value="sessions">Sessions</TabsTrigger>
+            <TabsTrigger value="variances">Variances</TabsTrigger>
+            <TabsTrigger value="settings">Settings</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="vaults" className="space-y-4 mt-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Branch</TableHead>
+                  <TableHead className="text-right">Vault</TableHead>
+                  <TableHead className="text-right">With tellers</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {branches.map((branch) => (
+                  <TableRow key={branch.id}>
+                    <TableCell className="font-medium">{branch.name}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(branch.vaultBalance || 0)}</TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(sessions
+                        .filter((session) => session.status === 'open' && session.branchId === branch.id)
+                        .reduce((sum, session) => sum + session.openingFloat + session.cashIn - session.cashOut, 0))}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-2 items-end border-t pt-4">
+              <div>
+                <Label>Branch</Label>
+                <Select value={branchId} onChange={(e) => setBranchId(e.target.value)}>
+                  <option value="">Choose</option>
+                  {branches.map((branch) => (
+                    <option key={branch.id} value={branch.id}>{branch.name}</option>
+                  ))}
+                </Select>
+              </div>
+              <div>
+                <Label>Movement</Label>
+                <Select value={action} onChange={(e) => setAction(e.target.value as VaultAction)}>
+                  <option value="withdrawal">Withdraw from bank</option>
+                  <option value="deposit">Deposit to bank</option>
+                  <option value="transfer">Send to branch</option>
+                </Select>
+              </div>
+              {action === 'transfer' && (
+                <div>
+                  <Label>To</Label>
+                  <Select value={toBranchId} onChange={(e) => setToBranchId(e.target.value)}>
+                    <option value="">Choose</option>
+                    {branches.filter((branch) => branch.id !== branchId).map((branch) => (
+                      <option key={branch.id} value={branch.id}>{branch.name}</option>
+                    ))}
+                  </Select>
+                </div>
+              )}
+              <div>
+                <Label>Amount</Label>
+                <Input type="number" min="0" step="0.01" value={amount} onChange={(e) => setAmount(e.target.value)} />
+              </div>
+              <div>
+                <Label>Reference</Label>
+                <Input value={reference} onChange={(e) => setReference(e.target.value)} placeholder="Slip or cheque no." />
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={handleVaultAction} disabled={working}>
+                {working && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Record
+              </Button>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="transfers" className="mt-4">
+            {transfersLoading ? (
+              <Loader2 className="w-5 h-5 animate-spin" />
+            ) : transfers.length === 0 ? (
+              <p className="text-sm text-neutral-500">No vault movements yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Movement</TableHead>
+                    <TableHead>From</TableHead>
+                    <TableHead>To</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {transfers.map((transfer) => (
+                    <TableRow key={transfer.id}>
+                      <TableCell>{formatDateSafe(transfer.createdAt)}</TableCell>
+                      <TableCell>
+                        {TRANSFER_LABELS[transfer.type]}
+                        {transfer.tellerId && (
+                          <span className="text-xs text-neutral-500"> · {tellerNames[transfer.tellerId] || transfer.tellerId}</span>
+                        )}
+                      </TableCell>
+                      <TableCell>{transfer.fromBranchId ? branchNames[transfer.fromBranchId] || transfer.fromBranchId : '-'}</TableCell>
+                      <TableCell>{transfer.toBranchId ? branchNames[transfer.toBranchId] || transfer.toBranchId : '-'}</TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(transfer.amount)}
+                        {!!transfer.variance && (
+                          <p className="text-xs text-red-700">received {formatCurrency(transfer.receivedAmount || 0)}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={transfer.status === 'in_transit' ? 'secondary' : 'outline'}>
+                          {transfer.status.replace('_', ' ')}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        {transfer.status === 'in_transit' && (
+                          <div className="flex gap-2">
+                            <Button size="sm" variant="outline" onClick={() => handleReceive(transfer.id, transfer.amount)}>
+                              Receive
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => handleCancel(transfer.id)}>
+                              Cancel
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </TabsContent>
+
+          <TabsContent value="sessions" className="mt-4">
+            {sessionsLoading ? (
+              <Loader2 className="w-5 h-5 animate-spin" />
+            ) : sessions.length === 0 ? (
+              <p className="text-sm text-neutral-500">No teller sessions yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Teller</TableHead>
+                    <TableHead>Branch</TableHead>
+                    <TableHead>Opened</TableHead>
+                    <TableHead>Closed</TableHead>
+                    <TableHead className="text-right">Expected</TableHead>
+                    <TableHead className="text-right">Counted</TableHead>
+                    <TableHead className="text-right">Variance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sessions.map((session) => (
+                    <TableRow key={session.id}>
+                      <TableCell className="font-medium">{tellerNames[session.tellerId] || session.tellerId}</TableCell>
+                      <TableCell>{branchNames[session.branchId] || session.branchId}</TableCell>
+                      <TableCell>{formatDateSafe(session.openedAt)}</TableCell>
+                      <TableCell>{session.status === 'open' ? <Badge>Open</Badge> : formatDateSafe(session.closedAt)}</TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(session.expectedCash ?? session.openingFloat + session.cashIn - session.cashOut)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {session.countedCash !== undefined ? formatCurrency(session.countedCash) : '-'}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right ${session.varianceStatus === 'short' ? 'text-red-700' : session.varianceStatus === 'over' ? 'text-amber-700' : ''}`}
+                        title={session.varianceReason}
+                      >
+                        {session.variance !== undefined ? formatCurrency(session.variance) : '-'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </TabsContent>
+
+          <TabsContent value="variances" className="space-y-4 mt-4">
+            <div className="flex items-end gap-2">
+              <div>
+                <Label>From</Label>
+                <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="w-44" />
+              </div>
+              <div>
+                <Label>To</Label>
+                <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="w-44" />
+              </div>
+              <Button onClick={handleVarianceReport} disabled={working || !from || !to}>
+                {working ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+                Run
+              </Button>
+            </div>
+            {variances && (variances.length === 0 ? (
+              <p className="text-sm text-neutral-500">No sessions closed in this range.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Teller</TableHead>
+                    <TableHead className="text-right">Sessions</TableHead>
+                    <TableHead className="text-right">Short</TableHead>
+                    <TableHead className="text-right">Over</TableHead>
+                    <TableHead className="text-right">Net</TableHead>
+                    <TableHead>Shortages</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {variances.map((summary) => (
+                    <TableRow key={summary.tellerId}>
+                      <TableCell className="font-medium">{tellerNames[summary.tellerId] || summary.tellerId}</TableCell>
+                      <TableCell className="text-right">{summary.sessions}</TableCell>
+                      <TableCell className="text-right text-red-700">
+                        {formatCurrency(summary.totalShort)} ({summary.shortSessions})
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(summary.totalOver)} ({summary.overSessions})
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(summary.netVariance)}</TableCell>
+                      <TableCell className="text-xs">
+                        {summary.shortages.map((shortage) => (
+                          <p key={shortage.sessionId}>
+                            {formatDateSafe(shortage.openedAt)} at {branchNames[shortage.branchId] || shortage.branchId}:
+                            {' '}{formatCurrency(-shortage.variance)}
+                          </p>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ))}
+          </TabsContent>
+
+          <TabsContent value="settings" className="mt-4">
+            {config ? (
+              <CashManagementConfigEditor
+                agencyId={agencyId}
+                userId={userId}
+                config={config}
+                canEdit={canEditConfig}
+                onSaved={() => queryClient.invalidateQueries({ queryKey: ['cash-management-config', agencyId] })}
+              />
+            ) : (
+              <Loader2 className="w-5 h-5 animate-spin" />
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
+
+function CashManagementConfigEditor({
+  agencyId,
+  userId,
+  config,
+  canEdit,
+  onSaved,
+}: {
+  agencyId: string;
+  userId: string;
+  config: CashManagementConfig;
+  canEdit: boolean;
+  onSaved: () => void;
+}) {
+  const [draft, setDraft] = useState<CashManagementConfig>(config);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(config);
+  }, [config]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const result = await saveCashManagementConfig(agencyId, draft, userId);
+      if (!result.success) {
+        toast.error(result.error || 'Failed to save cash management settings');
+        return;
+      }
+      toast.success('Cash management settings saved');
+      onSaved();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 max-w-md">
+      <label className="text-sm flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={draft.requireTellerSession}
+          disabled={!canEdit}
+          onChange={(e) => setDraft({ ...draft, requireTellerSession: e.target.checked })}
+        />
+        Cash payments and disbursements need an open teller session
+      </label>
+      <div>
+        <Label>Variance tolerance</Label>
+        <Input
+          type="number"
+          min="0"
+          step="0.01"
+          value={draft.varianceTolerance}
+          disabled={!canEdit}
+          onChange={(e) => setDraft({ ...draft, varianceTolerance: Number(e.target.value || 0) })}
+        />
+        <p className="text-xs text-neutral-500 mt-1">Largest difference at close accepted without a reason</p>
+      </div>
+      {canEdit && (
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Settings
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
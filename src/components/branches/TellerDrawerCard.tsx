@@ -0,0 +1,337 @@
+/**
+ * Teller Drawer Card Component
+ * The signed-in teller's session: open it with a float counted out of the
+ * branch vault, follow the cash taken in and paid out, top up from or drop to
+ * the vault, and close it on a denomination count
+ */
+
+import { useMemo, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Select } from '../ui/select';
+import { Textarea } from '../ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { ArrowDownToLine, ArrowUpFromLine, Loader2, Lock, Wallet } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { formatCurrency, formatDateSafe } from '../../lib/utils';
+import { getActiveBranches } from '../../lib/branches/branch-manager';
+import {
+  closeTellerSession,
+  getOpenTellerSession,
+  getSessionExpectedCash,
+  getSessionMovements,
+  openTellerSession,
+  recordSessionCash,
+  type DenominationCount,
+} from '../../lib/branches/teller-sessions';
+import {
+  ZMW_DENOMINATIONS,
+  countDenominations,
+  getVarianceStatus,
+} from '../../../packages/loan-rules/src/cash-management';
+
+interface TellerDrawerCardProps {
+  agencyId: string;
+  userId: string;
+}
+
+const MOVEMENT_LABELS: Record<string, string> = {
+  payment: 'Payment',
+  disbursement: 'Disbursement',
+  vault_issue: 'Top-up from vault',
+  vault_return: 'Drop to vault',
+  reversal: 'Payment reversed',
+};
+
+function safeCount(counts: DenominationCount): number {
+  try {
+    return countDenominations(counts);
+  } catch {
+    return NaN;
+  }
+}
+
+function DenominationCountInput({
+  counts,
+  onChange,
+  disabled,
+}: {
+  counts: DenominationCount;
+  onChange: (counts: DenominationCount) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+      {ZMW_DENOMINATIONS.map((denomination) => (
+        <div key={denomination.value}>
+          <Label className="text-xs">{denomination.label}</Label>
+          <Input
+            type="number"
+            min="0"
+            step="1"
+            value={counts[String(denomination.value)] || ''}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...counts, [String(denomination.value)]: Number(e.target.value || 0) })}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function TellerDrawerCard({ agencyId, userId }: TellerDrawerCardProps) {
+  const queryClient = useQueryClient();
+  const [branchId, setBranchId] = useState('');
+  const [counts, setCounts] = useState<DenominationCount>({});
+  const [varianceReason, setVarianceReason] = useState('');
+  const [working, setWorking] = useState(false);
+
+  const { data: session, isLoading } = useQuery({
+    queryKey: ['teller-session', agencyId, userId],
+    queryFn: () => getOpenTellerSession(agencyId, userId),
+    enabled: !!agencyId && !!userId,
+  });
+
+  const { data: branches = [] } = useQuery({
+    queryKey: ['branches', agencyId, 'active'],
+    queryFn: () => getActiveBranches(agencyId),
+    enabled: !!agencyId && !session,
+  });
+
+  const { data: movements = [] } = useQuery({
+    queryKey: ['teller-movements', agencyId, session?.id],
+    queryFn: () => getSessionMovements(agencyId, session!.id),
+    enabled: !!agencyId && !!session,
+  });
+
+  const counted = useMemo(() => safeCount(counts), [counts]);
+  const expected = session ? getSessionExpectedCash(session) : 0;
+  const variance = Math.round((counted - expected) * 100) / 100;
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['teller-session', agencyId, userId] });
+    queryClient.invalidateQueries({ queryKey: ['teller-movements', agencyId] });
+    queryClient.invalidateQueries({ queryKey: ['teller-sessions', agencyId] });
+    queryClient.invalidateQueries({ queryKey: ['branches', agencyId] });
+    queryClient.invalidateQueries({ queryKey: ['vault-transfers', agencyId] });
+  };
+
+  const handleOpen = async () => {
+    if (!branchId) {
+      toast.error('Choose the branch you are working at');
+      return;
+    }
+    if (isNaN(counted)) {
+      toast.error('Denomination counts must be whole numbers');
+      return;
+    }
+    setWorking(true);
+    try {
+      const result = await openTellerSession({ agencyId, branchId, tellerId: userId, denominations: counts });
+      if (!result.success) {
+        toast.error(result.error || 'Failed to open teller session');
+        return;
+      }
+      toast.success(`Session opened with a float of ${formatCurrency(counted)}`);
+      setCounts({});
+      refresh();
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleVault = async (type: 'vault_issue' | 'vault_return') => {
+    if (!session) return;
+    const input = prompt(type === 'vault_issue' ? 'Amount taken from the vault' : 'Amount dropped to the vault');
+    const amount = Number(input);
+    if (!input || !(amount > 0)) return;
+    setWorking(true);
+    try {
+      const result = await recordSessionCash({ agencyId, sessionId: session.id, type, amount, recordedBy: userId });
+      if (!result.success) {
+        toast.error(result.error || 'Failed to move cash');
+        return;
+      }
+      toast.success(type === 'vault_issue' ? 'Top-up recorded' : 'Drop recorded');
+      refresh();
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleClose = async () => {
+    if (!session) return;
+    if (isNaN(counted)) {
+      toast.error('Denomination counts must be whole numbers');
+      return;
+    }
+    if (!confirm(`Close your session with ${formatCurrency(counted)} counted? The cash goes back to the vault.`)) {
+      return;
+    }
+    setWorking(true);
+    try {
+      const result = await closeTellerSession({
+        agencyId,
+        sessionId: session.id,
+        denominations: counts,
+        varianceReason,
+      });
+      if (!result.success) {
+        toast.error(result.error || 'Failed to close teller session');
+        return;
+      }
+      const status = getVarianceStatus(result.variance || 0);
+      if (status === 'balanced') {
+        toast.success('Session closed and balanced');
+      } else {
+        toast.error(`Session closed ${status} by ${formatCurrency(Math.abs(result.variance || 0))}`);
+      }
+      setCounts({});
+      setVarianceReason('');
+      refresh();
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Wallet className="h-5 w-5" />
+              Teller Drawer
+            </CardTitle>
+            <CardDescription>
+              {session
+                ? `Session opened ${formatDateSafe(session.openedAt)}`
+                : 'Open a session with a float from the branch vault before taking cash'}
+            </CardDescription>
+          </div>
+          {session && <Badge>Open</Badge>}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Loader2 className="w-5 h-5 animate-spin" />
+        ) : !session ? (
+          <div className="space-y-4">
+            <div className="w-72">
+              <Label>Branch</Label>
+              <Select value={branchId} onChange={(e) => setBranchId(e.target.value)}>
+                <option value="">Choose a branch</option>
+                {branches.map((branch) => (
+                  <option key={branch.id} value={branch.id}>
+                    {branch.name} (vault {formatCurrency(branch.vaultBalance || 0)})
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <div>
+              <Label>Opening float</Label>
+              <DenominationCountInput counts={counts} onChange={setCounts} disabled={working} />
+              <p className="text-sm text-neutral-500 mt-2">Float: {isNaN(counted) ? '-' : formatCurrency(counted)}</p>
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={handleOpen} disabled={working || !branchId}>
+                {working && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Open Session
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <p className="text-xs text-neutral-500">Opening float</p>
+                <p className="font-semibold">{formatCurrency(session.openingFloat)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-neutral-500">Cash in</p>
+                <p className="font-semibold text-green-700">{formatCurrency(session.cashIn)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-neutral-500">Cash out</p>
+                <p className="font-semibold text-red-700">{formatCurrency(session.cashOut)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-neutral-500">Should hold</p>
+                <p className="font-semibold">{formatCurrency(expected)}</p>
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => handleVault('vault_issue')} disabled={working}>
+                <ArrowDownToLine className="mr-2 h-4 w-4" />
+                Top-up from Vault
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleVault('vault_return')} disabled={working}>
+                <ArrowUpFromLine className="mr-2 h-4 w-4" />
+                Drop to Vault
+              </Button>
+            </div>
+
+            {movements.length > 0 && (
+              <div className="max-h-64 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Time</TableHead>
+                      <TableHead>Movement</TableHead>
+                      <TableHead>Loan</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {movements.map((movement) => (
+                      <TableRow key={movement.id}>
+                        <TableCell>{movement.createdAt ? movement.createdAt.toLocaleTimeString() : '-'}</TableCell>
+                        <TableCell>{MOVEMENT_LABELS[movement.type] || movement.type}</TableCell>
+                        <TableCell className="font-mono text-xs">{movement.loanId || '-'}</TableCell>
+                        <TableCell className={`text-right ${movement.direction === 'in' ? 'text-green-700' : 'text-red-700'}`}>
+                          {movement.direction === 'in' ? '+' : '-'}{formatCurrency(movement.amount)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            <div className="border-t pt-4 space-y-3">
+              <Label>Closing count</Label>
+              <DenominationCountInput counts={counts} onChange={setCounts} disabled={working} />
+              <p className="text-sm">
+                Counted {isNaN(counted) ? '-' : formatCurrency(counted)} against {formatCurrency(expected)}
+                {!isNaN(counted) && getVarianceStatus(variance) !== 'balanced' && (
+                  <span className={variance < 0 ? 'text-red-700' : 'text-amber-700'}>
+                    {' '}· {variance < 0 ? 'short' : 'over'} by {formatCurrency(Math.abs(variance))}
+                  </span>
+                )}
+              </p>
+              {!isNaN(counted) && getVarianceStatus(variance) !== 'balanced' && (
+                <Textarea
+                  value={varianceReason}
+                  onChange={(e) => setVarianceReason(e.target.value)}
+                  placeholder="Why the count differs"
+                  rows={2}
+                />
+              )}
+              <div className="flex justify-end">
+                <Button onClick={handleClose} disabled={working}>
+                  {working ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Lock className="mr-2 h-4 w-4" />}
+                  Close Session
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,235 @@
+/**
+ * Collateral Insurance Card Component
+ * The insurance policies recorded on a collateral record: record a policy
+ * with its certificate, see which is in force and when it expires, and
+ * cancel one recorded in error
+ */
+
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { FileText, Loader2, ShieldCheck, XCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { formatCurrency, formatDateSafe } from '../../lib/utils';
+import {
+  cancelInsurancePolicy,
+  getCollateralInsurancePolicies,
+  recordInsurancePolicy,
+  type CollateralInsurancePolicy,
+} from '../../lib/firebase/collateral-insurance';
+import { getDaysToExpiry, isPolicyInForce } from '../../../packages/loan-rules/src/collateral-insurance';
+
+interface CollateralInsuranceCardProps {
+  agencyId: string;
+  userId: string;
+  collateralId: string;
+  defaultBeneficiary?: string; // The agency, as loss payee
+}
+
+const EMPTY_FORM = {
+  insurer: '',
+  policyNumber: '',
+  sumInsured: '',
+  beneficiary: '',
+  startDate: '',
+  expiryDate: '',
+};
+
+export function CollateralInsuranceCard({ agencyId, userId, collateralId, defaultBeneficiary }: CollateralInsuranceCardProps) {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState({ ...EMPTY_FORM, beneficiary: defaultBeneficiary || '' });
+  const [certificate, setCertificate] = useState<File | null>(null);
+  const [working, setWorking] = useState(false);
+
+  const { data: policies = [], isLoading } = useQuery({
+    queryKey: ['collateral-insurance', agencyId, collateralId],
+    queryFn: () => getCollateralInsurancePolicies(agencyId, collateralId),
+    enabled: !!agencyId && !!collateralId,
+  });
+
+  const now = new Date();
+  const inForce = policies.find((policy) => isPolicyInForce(policy, now));
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['collateral-insurance', agencyId] });
+  };
+
+  const handleRecord = async () => {
+    if (!form.startDate || !form.expiryDate) {
+      toast.error('Enter the policy start and expiry dates');
+      return;
+    }
+    setWorking(true);
+    try {
+      const result = await recordInsurancePolicy({
+        agencyId,
+        collateralId,
+        insurer: form.insurer,
+        policyNumber: form.policyNumber,
+        sumInsured: Number(form.sumInsured || 0),
+        beneficiary: form.beneficiary,
+        startDate: new Date(form.startDate),
+        expiryDate: new Date(form.expiryDate),
+        certificate,
+        recordedBy: userId,
+      });
+      if (!result.success) {
+        toast.error(result.error || 'Failed to record insurance policy');
+        return;
+      }
+      toast.success('Insurance policy recorded');
+      setForm({ ...EMPTY_FORM, beneficiary: defaultBeneficiary || '' });
+      setCertificate(null);
+      refresh();
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleCancel = async (policy: CollateralInsurancePolicy) => {
+    const reason = prompt('Reason for cancelling this policy');
+    if (!reason) return;
+    const result = await cancelInsurancePolicy({ agencyId, policyId: policy.id, reason, cancelledBy: userId });
+    if (!result.success) {
+      toast.error(result.error || 'Failed to cancel insurance policy');
+      return;
+    }
+    toast.success('Insurance policy cancelled');
+    refresh();
+  };
+
+  const getStatus = (policy: CollateralInsurancePolicy) => {
+    if (policy.status === 'cancelled') {
+      return <span className="text-sm" title={policy.cancellationReason}>Cancelled {formatDateSafe(policy.cancelledAt)}</span>;
+    }
+    const days = getDaysToExpiry(policy, now);
+    if (days < 0) return <Badge variant="destructive">Expired</Badge>;
+    if (!isPolicyInForce(policy, now)) return <Badge variant="outline">Starts {formatDateSafe(policy.startDate)}</Badge>;
+    if (days <= 30) return <Badge variant="secondary">Expires in {days} day{days === 1 ? '' : 's'}</Badge>;
+    return <Badge>In force</Badge>;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Insurance
+        </CardTitle>
+        <CardDescription>
+          {inForce
+            ? `Insured with ${inForce.insurer} until ${formatDateSafe(inForce.expiryDate)}`
+            : 'No policy in force. Loans whose type requires insured collateral cannot be disbursed against this asset.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Loader2 className="w-5 h-5 animate-spin" />
+        ) : policies.length === 0 ? (
+          <p className="text-sm text-neutral-500">No insurance policies recorded.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Insurer</TableHead>
+                <TableHead>Policy</TableHead>
+                <TableHead className="text-right">Sum insured</TableHead>
+                <TableHead>Beneficiary</TableHead>
+                <TableHead>Cover</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {policies.map((policy) => (
+                <TableRow key={policy.id}>
+                  <TableCell>{policy.insurer}</TableCell>
+                  <TableCell>
+                    <span className="font-mono text-xs">{policy.policyNumber}</span>
+                    {policy.certificate && (
+                      <a
+                        href={policy.certificate.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-xs text-blue-600 hover:underline flex items-center gap-1 mt-1"
+                      >
+                        <FileText className="w-3 h-3" />
+                        Certificate
+                      </a>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(policy.sumInsured)}</TableCell>
+                  <TableCell>{policy.beneficiary}</TableCell>
+                  <TableCell className="text-sm">
+                    {formatDateSafe(policy.startDate)} – {formatDateSafe(policy.expiryDate)}
+                  </TableCell>
+                  <TableCell>{getStatus(policy)}</TableCell>
+                  <TableCell>
+                    {policy.status === 'active' && (
+                      <Button size="sm" variant="outline" onClick={() => handleCancel(policy)}>
+                        <XCircle className="mr-2 h-4 w-4" />
+                        Cancel
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2 border-t pt-4">
+          <div>
+            <Label>Insurer</Label>
+            <Input value={form.insurer} onChange={(e) => setForm({ ...form, insurer: e.target.value })} />
+          </div>
+          <div>
+            <Label>Policy number</Label>
+            <Input value={form.policyNumber} onChange={(e) => setForm({ ...form, policyNumber: e.target.value })} />
+          </div>
+          <div>
+            <Label>Sum insured</Label>
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={form.sumInsured}
+              onChange={(e) => setForm({ ...form, sumInsured: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label>Beneficiary</Label>
+            <Input value={form.beneficiary} onChange={(e) => setForm({ ...form, beneficiary: e.target.value })} />
+          </div>
+          <div>
+            <Label>Start date</Label>
+            <Input type="date" value={form.startDate} onChange={(e) => setForm({ ...form, startDate: e.target.value })} />
+          </div>
+          <div>
+            <Label>Expiry date</Label>
+            <Input type="date" value={form.expiryDate} onChange={(e) => setForm({ ...form, expiryDate: e.target.value })} />
+          </div>
+          <div className="md:col-span-2">
+            <Label>Certificate</Label>
+            <Input
+              type="file"
+              accept="application/pdf,image/*"
+              onChange={(e) => setCertificate(e.target.files?.[0] || null)}
+            />
+          </div>
+          <div className="flex items-end">
+            <Button onClick={handleRecord} disabled={working} className="w-full">
+              {working && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Record Policy
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,186 @@
+/**
+ * Collateral Lien Registry Card Component
+ * Pledges registered although the asset already secured another loan, and the
+ * agency's policy on whether such pledges are blocked or flagged
+ */
+
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Label } from '../ui/label';
+import { Select } from '../ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Loader2, ShieldAlert } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { formatCurrency, formatDateSafe } from '../../lib/utils';
+import {
+  getCollateralLienConfig,
+  getFlaggedLiens,
+  saveCollateralLienConfig,
+  type CollateralLienConfig,
+} from '../../lib/firebase/collateral-liens';
+import type { DoublePledgePolicy } from '../../../packages/loan-rules/src/collateral-liens';
+
+interface CollateralLienRegistryCardProps {
+  agencyId: string;
+  userId: string;
+  canEditConfig?: boolean;
+}
+
+export function CollateralLienRegistryCard({ agencyId, userId, canEditConfig = false }: CollateralLienRegistryCardProps) {
+  const queryClient = useQueryClient();
+
+  const { data: flagged = [], isLoading } = useQuery({
+    queryKey: ['collateral-liens', agencyId, 'flagged'],
+    queryFn: () => getFlaggedLiens(agencyId),
+    enabled: !!agencyId,
+  });
+
+  const { data: config } = useQuery({
+    queryKey: ['collateral-lien-config', agencyId],
+    queryFn: () => getCollateralLienConfig(agencyId),
+    enabled: !!agencyId,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5" />
+          Lien Registry
+        </CardTitle>
+        <CardDescription>
+          Assets matched by serial, registration or title number that secure more than one loan
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="flagged">
+          <TabsList>
+            <TabsTrigger value="flagged">Double Pledges{flagged.length > 0 ? ` (${flagged.length})` : ''}</TabsTrigger>
+            <TabsTrigger value="settings">Settings</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="flagged" className="mt-4">
+            {isLoading ? (
+              <Loader2 className="w-5 h-5 animate-spin" />
+            ) : flagged.length === 0 ? (
+              <p className="text-sm text-neutral-500">No asset secures more than one loan.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Collateral</TableHead>
+                    <TableHead>Loan</TableHead>
+                    <TableHead>Rank</TableHead>
+                    <TableHead className="text-right">Secures</TableHead>
+                    <TableHead>Also secures</TableHead>
+                    <TableHead>Pledged</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {flagged.map((lien) => (
+                    <TableRow key={lien.id}>
+                      <TableCell>
+                        <Link to={`/admin/collateral/${lien.collateralId}`} className="text-blue-600 hover:underline font-mono text-xs">
+                          {lien.collateralId}
+                        </Link>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{lien.loanId}</TableCell>
+                      <TableCell>{lien.rank}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(lien.coverageAmount)}</TableCell>
+                      <TableCell className="text-xs">
+                        {lien.conflicts.map((conflict) => (
+                          <p key={conflict.lienId}>
+                            {conflict.loanId} <span className="text-neutral-500">on {conflict.matchedOn.join(', ')}</span>
+                          </p>
+                        ))}
+                      </TableCell>
+                      <TableCell>{formatDateSafe(lien.pledgedAt)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </TabsContent>
+
+          <TabsContent value="settings" className="mt-4">
+            {config ? (
+              <LienConfigEditor
+                agencyId={agencyId}
+                userId={userId}
+                config={config}
+                canEdit={canEditConfig}
+                onSaved={() => queryClient.invalidateQueries({ queryKey: ['collateral-lien-config', agencyId] })}
+              />
+            ) : (
+              <Loader2 className="w-5 h-5 animate-spin" />
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
+
+function LienConfigEditor({
+  agencyId,
+  userId,
+  config,
+  canEdit,
+  onSaved,
+}: {
+  agencyId: string;
+  userId: string;
+  config: CollateralLienConfig;
+  canEdit: boolean;
+  onSaved: () => void;
+}) {
+  const [draft, setDraft] = useState<CollateralLienConfig>(config);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(config);
+  }, [config]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const result = await saveCollateralLienConfig(agencyId, draft, userId);
+      if (!result.success) {
+        toast.error(result.error || 'Failed to save lien settings');
+        return;
+      }
+      toast.success('Lien settings saved');
+      onSaved();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 max-w-md">
+      <div>
+        <Label>When an asset already secures another loan</Label>
+        <Select
+          value={draft.doublePledgePolicy}
+          disabled={!canEdit}
+          onChange={(e) => setDraft({ doublePledgePolicy: e.target.value as DoublePledgePolicy })}
+        >
+          <option value="block">Refuse the pledge</option>
+          <option value="flag">Register it at the next rank and flag it</option>
+        </Select>
+      </div>
+      {canEdit && (
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Settings
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
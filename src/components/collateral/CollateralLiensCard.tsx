@@ -0,0 +1,241 @@
+/**
+ * Collateral Liens Card Component
+ * The liens registered on a collateral record: pledge it to a loan at the next
+ * rank, see which loans it secures and any double pledge it was flagged for,
+ * release a lien by hand and download release letters
+ */
+
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { collection, getDocs, query, where } from 'firebase/firestore';
+import { db } from '../../lib/firebase/config';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Select } from '../ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { AlertTriangle, FileDown, Link2, Loader2, Unlock } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { formatCurrency, formatDateSafe } from '../../lib/utils';
+import {
+  getCollateralLiens,
+  getLienReleaseLetterData,
+  pledgeCollateral,
+  releaseLien,
+  type CollateralLien,
+} from '../../lib/firebase/collateral-liens';
+import { downloadLienReleaseLetterPDF } from '../../lib/pdf-generator';
+import { LIEN_RELEASE_STATUSES } from '../../../packages/loan-rules/src/collateral-liens';
+
+interface CollateralLiensCardProps {
+  agencyId: string;
+  userId: string;
+  collateralId: string;
+  customerId?: string; // Owner, to offer their loans for a pledge
+  agencyName?: string;
+  canRelease?: boolean;
+}
+
+export function CollateralLiensCard({
+  agencyId,
+  userId,
+  collateralId,
+  customerId,
+  agencyName,
+  canRelease = false,
+}: CollateralLiensCardProps) {
+  const queryClient = useQueryClient();
+  const [loanId, setLoanId] = useState('');
+  const [coverage, setCoverage] = useState('');
+  const [working, setWorking] = useState(false);
+
+  const { data: liens = [], isLoading } = useQuery({
+    queryKey: ['collateral-liens', agencyId, collateralId],
+    queryFn: () => getCollateralLiens(agencyId, collateralId),
+    enabled: !!agencyId && !!collateralId,
+  });
+
+  // Loans still open, the owner's if known
+  const { data: loans = [] } = useQuery({
+    queryKey: ['collateral-pledge-loans', agencyId, customerId],
+    queryFn: async () => {
+      const loansRef = collection(db, 'agencies', agencyId, 'loans');
+      const snapshot = await getDocs(customerId ? query(loansRef, where('customerId', '==', customerId)) : loansRef);
+      return snapshot.docs
+        .map((loanDoc) => ({ id: loanDoc.id, ...loanDoc.data() } as any))
+        .filter((loan) => !LIEN_RELEASE_STATUSES.includes(loan.status) && loan.status !== 'written_off');
+    },
+    enabled: !!agencyId,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['collateral-liens', agencyId] });
+    queryClient.invalidateQueries({ queryKey: ['collateral', agencyId] });
+    queryClient.invalidateQueries({ queryKey: ['collaterals'] });
+  };
+
+  const handlePledge = async () => {
+    if (!loanId) {
+      toast.error('Choose the loan this collateral secures');
+      return;
+    }
+    setWorking(true);
+    try {
+      const result = await pledgeCollateral({
+        agencyId,
+        collateralId,
+        loanId,
+        pledgedBy: userId,
+        coverageAmount: coverage ? Number(coverage) : undefined,
+      });
+      if (!result.success) {
+        toast.error(result.error || 'Failed to pledge collateral');
+        return;
+      }
+      if (result.flagged) {
+        toast('Pledged, but this asset already secures another loan. The lien is flagged for review.', { icon: '⚠️' });
+      } else {
+        toast.success('Collateral pledged');
+      }
+      setLoanId('');
+      setCoverage('');
+      refresh();
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRelease = async (lien: CollateralLien) => {
+    const reason = prompt('Reason for releasing this lien');
+    if (!reason) return;
+    const result = await releaseLien({ agencyId, lienId: lien.id, releasedBy: userId, reason });
+    if (!result.success) {
+      toast.error(result.error || 'Failed to release lien');
+      return;
+    }
+    toast.success('Lien released');
+    refresh();
+  };
+
+  const handleLetter = async (lien: CollateralLien) => {
+    try {
+      const data = await getLienReleaseLetterData(agencyId, lien);
+      await downloadLienReleaseLetterPDF({ ...data, agencyName });
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to generate release letter');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Link2 className="h-5 w-5" />
+          Liens
+        </CardTitle>
+        <CardDescription>
+          The loans this asset secures, by priority. Liens are released when their loan closes.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Loader2 className="w-5 h-5 animate-spin" />
+        ) : liens.length === 0 ? (
+          <p className="text-sm text-neutral-500">This collateral is not pledged to any loan.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Rank</TableHead>
+                <TableHead>Loan</TableHead>
+                <TableHead className="text-right">Secures</TableHead>
+                <TableHead>Pledged</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {liens.map((lien) => (
+                <TableRow key={lien.id}>
+                  <TableCell>{lien.rank}</TableCell>
+                  <TableCell>
+                    <Link to={`/admin/loans/${lien.loanId}`} className="font-mono text-xs text-blue-600 hover:underline">
+                      {lien.loanId}
+                    </Link>
+                    {lien.flagged && lien.status === 'active' && (
+                      <p
+                        className="text-xs text-amber-700 flex items-center gap-1 mt-1"
+                        title={lien.conflicts.map((conflict) => `${conflict.loanId} (${conflict.matchedOn.join(', ')})`).join('\n')}
+                      >
+                        <AlertTriangle className="w-3 h-3" />
+                        Also secures {lien.conflicts.map((conflict) => conflict.loanId).join(', ')}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(lien.coverageAmount)}</TableCell>
+                  <TableCell>{formatDateSafe(lien.pledgedAt)}</TableCell>
+                  <TableCell>
+                    {lien.status === 'active' ? (
+                      <Badge>Active</Badge>
+                    ) : (
+                      <span className="text-sm" title={lien.releaseReason}>
+                        Released {formatDateSafe(lien.releasedAt)}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {lien.status === 'active' ? (
+                      canRelease && (
+                        <Button size="sm" variant="outline" onClick={() => handleRelease(lien)}>
+                          <Unlock className="mr-2 h-4 w-4" />
+                          Release
+                        </Button>
+                      )
+                    ) : (
+                      <Button size="sm" variant="outline" onClick={() => handleLetter(lien)}>
+                        <FileDown className="mr-2 h-4 w-4" />
+                        Letter
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2 items-end border-t pt-4">
+          <div>
+            <Label>Pledge to loan</Label>
+            <Select value={loanId} onChange={(e) => setLoanId(e.target.value)}>
+              <option value="">Choose a loan</option>
+              {loans.map((loan) => (
+                <option key={loan.id} value={loan.id}>
+                  {loan.loanNumber || loan.id} · {formatCurrency(Number(loan.amount || 0))} · {loan.status}
+                </option>
+              ))}
+            </Select>
+          </div>
+          <div>
+            <Label>Amount secured</Label>
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={coverage}
+              onChange={(e) => setCoverage(e.target.value)}
+              placeholder="Loan amount"
+            />
+          </div>
+          <Button onClick={handlePledge} disabled={working || !loanId}>
+            {working && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Pledge
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
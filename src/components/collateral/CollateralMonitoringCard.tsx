@@ -0,0 +1,129 @@
+/**
+ * Collateral Monitoring Card Component
+ * The latest revaluation of pledged collateral and the loans whose
+ * loan-to-value or collateral coverage has breached their loan type's limits
+ */
+
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Loader2, RefreshCw, TrendingDown } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { formatDateSafe } from '../../lib/utils';
+import {
+  getLatestRevaluationRun,
+  getOpenCollateralBreaches,
+  runCollateralRevaluation,
+} from '../../lib/firebase/collateral-valuation';
+import { COLLATERAL_BREACH_RULES, type CollateralBreachRule } from '../../../packages/loan-rules/src/collateral-valuation';
+
+// Alert rules raised by the revaluation, keyed back to the breach they record
+const ALERT_RULE_BREACHES: Record<string, CollateralBreachRule> = {
+  collateral_ltv_breach: 'max_loan_to_value',
+  collateral_coverage_breach: 'min_collateral_coverage',
+};
+
+interface CollateralMonitoringCardProps {
+  agencyId: string;
+  canRun?: boolean;
+}
+
+export function CollateralMonitoringCard({ agencyId, canRun = false }: CollateralMonitoringCardProps) {
+  const queryClient = useQueryClient();
+  const [running, setRunning] = useState(false);
+
+  const { data: lastRun } = useQuery({
+    queryKey: ['collateral-revaluation', agencyId],
+    queryFn: () => getLatestRevaluationRun(agencyId),
+    enabled: !!agencyId,
+  });
+
+  const { data: breaches = [], isLoading } = useQuery({
+    queryKey: ['collateral-breaches', agencyId],
+    queryFn: () => getOpenCollateralBreaches(agencyId),
+    enabled: !!agencyId,
+  });
+
+  const handleRun = async () => {
+    setRunning(true);
+    try {
+      const result = await runCollateralRevaluation(agencyId);
+      if (!result.success) {
+        toast.error(result.error || 'Failed to run collateral revaluation');
+        return;
+      }
+      toast.success(`Revalued ${result.assetsRevalued || 0} assets; ${result.loansInBreach || 0} loans in breach`);
+      queryClient.invalidateQueries({ queryKey: ['collateral-revaluation', agencyId] });
+      queryClient.invalidateQueries({ queryKey: ['collateral-breaches', agencyId] });
+      queryClient.invalidateQueries({ queryKey: ['collaterals'] });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <TrendingDown className="h-5 w-5" />
+              Collateral Monitoring
+            </CardTitle>
+            <CardDescription>
+              {lastRun
+                ? `Last revalued ${formatDateSafe(lastRun.date)} · ${lastRun.assetsRevalued} assets, ${lastRun.loansAssessed} loans assessed`
+                : 'Pledged collateral is revalued on the first of each month'}
+            </CardDescription>
+          </div>
+          {canRun && (
+            <Button size="sm" variant="outline" onClick={handleRun} disabled={running}>
+              {running ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+              Revalue Now
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Loader2 className="w-5 h-5 animate-spin" />
+        ) : breaches.length === 0 ? (
+          <p className="text-sm text-neutral-500">No loans are in breach of their collateral limits.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Loan</TableHead>
+                <TableHead>Breach</TableHead>
+                <TableHead>Detail</TableHead>
+                <TableHead>Raised</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {breaches.map((breach) => (
+                <TableRow key={breach.id}>
+                  <TableCell>
+                    <Link to={`/admin/loans/${breach.loanId}`} className="text-blue-600 hover:underline font-mono text-xs">
+                      {breach.loanId}
+                    </Link>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="destructive">
+                      {COLLATERAL_BREACH_RULES[ALERT_RULE_BREACHES[breach.rule]] || breach.rule}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">{breach.message}</TableCell>
+                  <TableCell>{formatDateSafe(breach.createdAt)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,470 @@
+/**
+ * Price Book Card Component
+ * The agency's collateral price book: the version in effect, drafts being
+ * prepared by hand or imported from a spreadsheet, and publishing a draft
+ * from the date it takes effect
+ */
+
+import { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { BookOpen, Loader2, Trash2, Upload } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { formatCurrency, formatDateSafe } from '../../lib/utils';
+import {
+  createPriceBookDraft,
+  deletePriceBookDraft,
+  getPriceBookVersions,
+  parsePriceBookFile,
+  publishPriceBookVersion,
+  updatePriceBookDraft,
+  type PriceBookEntries,
+  type PriceBookImportError,
+  type PriceBookVersionRecord,
+} from '../../lib/firebase/price-book';
+import { getEffectivePriceBook, PRICE_BOOK_KINDS, type PriceBookKind } from '../../../packages/loan-rules/src/price-book';
+
+interface PriceBookCardProps {
+  agencyId: string;
+  userId: string;
+  canEdit?: boolean;
+}
+
+export function PriceBookCard({ agencyId, userId, canEdit = false }: PriceBookCardProps) {
+  const queryClient = useQueryClient();
+  const [draftId, setDraftId] = useState<string | null>(null);
+
+  const { data: versions = [], isLoading } = useQuery({
+    queryKey: ['price-book', agencyId],
+    queryFn: () => getPriceBookVersions(agencyId),
+    enabled: !!agencyId,
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['price-book', agencyId] });
+  const effective = getEffectivePriceBook(versions, new Date()) as PriceBookVersionRecord | null;
+  const draft = versions.find((version) => version.id === draftId && version.status === 'draft') || null;
+
+  const handlePublish = async (version: PriceBookVersionRecord) => {
+    if (!confirm(`Publish version ${version.version}? It is used for valuations from ${version.effectiveFrom} and cannot be changed afterwards.`)) {
+      return;
+    }
+    const result = await publishPriceBookVersion(agencyId, version.id, userId);
+    if (!result.success) {
+      toast.error(result.error || 'Failed to publish price book');
+      return;
+    }
+    toast.success(`Price book version ${version.version} published`);
+    setDraftId(null);
+    refresh();
+  };
+
+  const handleDiscard = async (version: PriceBookVersionRecord) => {
+    const result = await deletePriceBookDraft(agencyId, version.id);
+    if (!result.success) {
+      toast.error(result.error || 'Failed to discard draft');
+      return;
+    }
+    if (draftId === version.id) setDraftId(null);
+    refresh();
+  };
+
+  const handleNewDraft = async () => {
+    const result = await createPriceBookDraft({
+      agencyId,
+      effectiveFrom: new Date().toISOString().slice(0, 10),
+      createdBy: userId,
+    });
+    if (!result.success) {
+      toast.error(result.error || 'Failed to create draft');
+      return;
+    }
+    setDraftId(result.versionId || null);
+    refresh();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BookOpen className="h-5 w-5" />
+          Price Book
+        </CardTitle>
+        <CardDescription>
+          {effective
+            ? `Version ${effective.version} in effect since ${effective.effectiveFrom}. Collateral is priced from it first; AI estimates are used only for items it does not list.`
+            : 'No price book published. Collateral is priced from AI and market estimates.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="current">
+          <TabsList>
+            <TabsTrigger value="current">In Effect</TabsTrigger>
+            <TabsTrigger value="versions">Versions</TabsTrigger>
+            {canEdit && <TabsTrigger value="import">Import</TabsTrigger>}
+          </TabsList>
+
+          <TabsContent value="current" className="mt-4">
+            {isLoading ? (
+              <Loader2 className="w-5 h-5 animate-spin" />
+            ) : effective ? (
+              <PriceBookEntriesTable entries={effective.entries} />
+            ) : (
+              <p className="text-sm text-neutral-500">No version is in effect yet.</p>
+            )}
+          </TabsContent>
+
+          <TabsContent value="versions" className="mt-4 space-y-4">
+            {canEdit && (
+              <Button size="sm" variant="outline" onClick={handleNewDraft}>
+                New Draft
+              </Button>
+            )}
+            {versions.length === 0 ? (
+              <p className="text-sm text-neutral-500">No versions yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Version</TableHead>
+                    <TableHead>Effective from</TableHead>
+                    <TableHead>Entries</TableHead>
+                    <TableHead>Source</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {versions.map((version) => (
+                    <TableRow key={version.id}>
+                      <TableCell>{version.version}</TableCell>
+                      <TableCell>{version.effectiveFrom}</TableCell>
+                      <TableCell className="text-sm">
+                        {version.entries.vehicles.length} vehicles · {version.entries.land.length} districts · {version.entries.equipment.length} equipment
+                      </TableCell>
+                      <TableCell className="text-sm">{version.importFileName || 'Manual'}</TableCell>
+                      <TableCell>
+                        {version.status === 'published' ? (
+                          <span className="text-sm">
+                            {version.id === effective?.id ? <Badge>In effect</Badge> : 'Published'} {formatDateSafe(version.publishedAt)}
+                          </span>
+                        ) : (
+                          <Badge variant="outline">Draft</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {canEdit && version.status === 'draft' && (
+                          <div className="flex gap-2">
+                            <Button size="sm" variant="outline" onClick={() => setDraftId(version.id)}>Edit</Button>
+                            <Button size="sm" onClick={() => handlePublish(version)}>Publish</Button>
+                            <Button size="sm" variant="outline" onClick={() => handleDiscard(version)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            {canEdit && draft && (
+              <PriceBookDraftEditor agencyId={agencyId} draft={draft} onSaved={refresh} />
+            )}
+          </TabsContent>
+
+          {canEdit && (
+            <TabsContent value="import" className="mt-4">
+              <PriceBookImport
+                agencyId={agencyId}
+                userId={userId}
+                onImported={(versionId) => {
+                  setDraftId(versionId);
+                  refresh();
+                }}
+              />
+            </TabsContent>
+          )}
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
+
+function PriceBookEntriesTable({
+  entries,
+  onRemove,
+}: {
+  entries: PriceBookEntries;
+  onRemove?: (kind: PriceBookKind, index: number) => void;
+}) {
+  const rows: Array<{ kind: PriceBookKind; index: number; item: string; price: string }> = [
+    ...entries.vehicles.map((entry, index) => ({
+      kind: 'vehicle' as const,
+      index,
+      item: `${entry.make} ${entry.model} ${entry.year}`,
+      price: formatCurrency(entry.price),
+    })),
+    ...entries.land.map((entry, index) => ({
+      kind: 'land' as const,
+      index,
+      item: entry.district,
+      price: `${formatCurrency(entry.pricePerHectare)} / ha`,
+    })),
+    ...entries.equipment.map((entry, index) => ({
+      kind: 'equipment' as const,
+      index,
+      item: entry.category,
+      price: `${formatCurrency(entry.price)} new`,
+    })),
+  ];
+
+  if (rows.length === 0) {
+    return <p className="text-sm text-neutral-500">No prices listed.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Kind</TableHead>
+          <TableHead>Item</TableHead>
+          <TableHead className="text-right">Reference price</TableHead>
+          {onRemove && <TableHead />}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row) => (
+          <TableRow key={`${row.kind}-${row.index}`}>
+            <TableCell>{PRICE_BOOK_KINDS[row.kind]}</TableCell>
+            <TableCell>{row.item}</TableCell>
+            <TableCell className="text-right">{row.price}</TableCell>
+            {onRemove && (
+              <TableCell>
+                <Button size="sm" variant="outline" onClick={() => onRemove(row.kind, row.index)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </TableCell>
+            )}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+const EMPTY_ENTRY = { kind: 'vehicle' as PriceBookKind, make: '', model: '', year: '', district: '', category: '', price: '' };
+
+function PriceBookDraftEditor({
+  agencyId,
+  draft,
+  onSaved,
+}: {
+  agencyId: string;
+  draft: PriceBookVersionRecord;
+  onSaved: () => void;
+}) {
+  const [entries, setEntries] = useState<PriceBookEntries>(draft.entries);
+  const [effectiveFrom, setEffectiveFrom] = useState(draft.effectiveFrom);
+  const [newEntry, setNewEntry] = useState(EMPTY_ENTRY);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setEntries(draft.entries);
+    setEffectiveFrom(draft.effectiveFrom);
+  }, [draft]);
+
+  const handleRemove = (kind: PriceBookKind, index: number) => {
+    const key = kind === 'vehicle' ? 'vehicles' : kind;
+    setEntries({ ...entries, [key]: entries[key].filter((_, i) => i !== index) });
+  };
+
+  const handleAdd = () => {
+    const price = Number(newEntry.price || 0);
+    if (newEntry.kind === 'vehicle') {
+      setEntries({ ...entries, vehicles: [...entries.vehicles, { make: newEntry.make.trim(), model: newEntry.model.trim(), year: Number(newEntry.year), price }] });
+    } else if (newEntry.kind === 'land') {
+      setEntries({ ...entries, land: [...entries.land, { district: newEntry.district.trim(), pricePerHectare: price }] });
+    } else {
+      setEntries({ ...entries, equipment: [...entries.equipment, { category: newEntry.category.trim(), price }] });
+    }
+    setNewEntry({ ...EMPTY_ENTRY, kind: newEntry.kind });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const result = await updatePriceBookDraft(agencyId, draft.id, { entries, effectiveFrom });
+      if (!result.success) {
+        toast.error(result.error || 'Failed to save draft');
+        return;
+      }
+      toast.success('Draft saved');
+      onSaved();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 border-t pt-4">
+      <div className="flex items-end gap-4">
+        <p className="font-semibold">Draft version {draft.version}</p>
+        <div>
+          <Label>Effective from</Label>
+          <Input type="date" value={effectiveFrom} onChange={(e) => setEffectiveFrom(e.target.value)} />
+        </div>
+      </div>
+
+      <PriceBookEntriesTable entries={entries} onRemove={handleRemove} />
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end">
+        <div>
+          <Label>Kind</Label>
+          <select
+            value={newEntry.kind}
+            onChange={(e) => setNewEntry({ ...EMPTY_ENTRY, kind: e.target.value as PriceBookKind })}
+            className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+          >
+            {(Object.keys(PRICE_BOOK_KINDS) as PriceBookKind[]).map((kind) => (
+              <option key={kind} value={kind}>{PRICE_BOOK_KINDS[kind]}</option>
+            ))}
+          </select>
+        </div>
+        {newEntry.kind === 'vehicle' && (
+          <>
+            <div>
+              <Label>Make</Label>
+              <Input value={newEntry.make} onChange={(e) => setNewEntry({ ...newEntry, make: e.target.value })} />
+            </div>
+            <div>
+              <Label>Model</Label>
+              <Input value={newEntry.model} onChange={(e) => setNewEntry({ ...newEntry, model: e.target.value })} />
+            </div>
+            <div>
+              <Label>Year</Label>
+              <Input type="number" value={newEntry.year} onChange={(e) => setNewEntry({ ...newEntry, year: e.target.value })} />
+            </div>
+          </>
+        )}
+        {newEntry.kind === 'land' && (
+          <div className="md:col-span-3">
+            <Label>District</Label>
+            <Input value={newEntry.district} onChange={(e) => setNewEntry({ ...newEntry, district: e.target.value })} />
+          </div>
+        )}
+        {newEntry.kind === 'equipment' && (
+          <div className="md:col-span-3">
+            <Label>Category</Label>
+            <Input value={newEntry.category} onChange={(e) => setNewEntry({ ...newEntry, category: e.target.value })} />
+          </div>
+        )}
+        <div>
+          <Label>{newEntry.kind === 'land' ? 'Price per hectare' : 'Price'}</Label>
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            value={newEntry.price}
+            onChange={(e) => setNewEntry({ ...newEntry, price: e.target.value })}
+          />
+        </div>
+        <Button variant="outline" onClick={handleAdd}>Add</Button>
+      </div>
+
+      <div className="flex justify-end">
+        <Button size="sm" onClick={handleSave} disabled={saving}>
+          {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save Draft
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function PriceBookImport({
+  agencyId,
+  userId,
+  onImported,
+}: {
+  agencyId: string;
+  userId: string;
+  onImported: (versionId: string) => void;
+}) {
+  const [file, setFile] = useState<File | null>(null);
+  const [effectiveFrom, setEffectiveFrom] = useState('');
+  const [errors, setErrors] = useState<PriceBookImportError[]>([]);
+  const [importing, setImporting] = useState(false);
+
+  const handleImport = async () => {
+    if (!file) {
+      toast.error('Choose a spreadsheet to import');
+      return;
+    }
+    setImporting(true);
+    try {
+      const parsed = await parsePriceBookFile(file);
+      setErrors(parsed.errors);
+      if (parsed.errors.length > 0) {
+        toast.error(`${parsed.errors.length} rows need fixing before the import`);
+        return;
+      }
+
+      const result = await createPriceBookDraft({
+        agencyId,
+        effectiveFrom,
+        entries: parsed.entries,
+        importFileName: file.name,
+        createdBy: userId,
+      });
+      if (!result.success || !result.versionId) {
+        toast.error(result.error || 'Failed to import price book');
+        return;
+      }
+      const count = parsed.entries.vehicles.length + parsed.entries.land.length + parsed.entries.equipment.length;
+      toast.success(`Imported ${count} prices as a draft; review and publish it under Versions`);
+      setFile(null);
+      onImported(result.versionId);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to read spreadsheet');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 max-w-xl">
+      <p className="text-sm text-neutral-500">
+        One row per price with a <span className="font-mono">kind</span> column: vehicle rows give make, model, year
+        and price; land rows give district and price (per hectare); equipment rows give category and price (new).
+        The import becomes a draft version replacing the whole book once published.
+      </p>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label>Spreadsheet (.xlsx or .csv)</Label>
+          <Input type="file" accept=".xlsx,.xls,.csv" onChange={(e) => setFile(e.target.files?.[0] || null)} />
+        </div>
+        <div>
+          <Label>Effective from</Label>
+          <Input type="date" value={effectiveFrom} onChange={(e) => setEffectiveFrom(e.target.value)} />
+        </div>
+      </div>
+      <Button onClick={handleImport} disabled={importing || !file}>
+        {importing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+        Import as Draft
+      </Button>
+      {errors.length > 0 && (
+        <ul className="text-sm text-red-600 list-disc pl-5">
+          {errors.slice(0, 20).map((error, index) => (
+            <li key={index}>{error.row > 0 ? `Row ${error.row}: ` : ''}{error.message}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
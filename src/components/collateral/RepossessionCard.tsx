@@ -0,0 +1,632 @@
+/**
+ * Repossession Card Component
+ * Repossession of a collateral record: open a case against a loan it secures,
+ * record the seizure, storage and costs, schedule and record the sale, refund
+ * any surplus and download the notices sent to the borrower
+ */
+
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Select } from '../ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { FileDown, Gavel, Loader2, Plus, Truck } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { formatCurrency, formatDateSafe } from '../../lib/utils';
+import { getCollateralLiens } from '../../lib/firebase/collateral-liens';
+import {
+  addRepossessionCost,
+  endRepossession,
+  getRepossessionConfig,
+  getRepossessionNoticeData,
+  getRepossessions,
+  openRepossession,
+  recordRepossessionSale,
+  recordSeizure,
+  recordSurplusRefund,
+  scheduleRepossessionSale,
+  updateStorageLocation,
+  type RepossessionCase,
+} from '../../lib/loans/repossession';
+import { downloadRepossessionNoticePDF } from '../../lib/pdf-generator';
+import { UserRole } from '../../types/loan-workflow';
+import { PAYMENT_METHODS } from '../../../packages/loan-rules/src/cash-management';
+import {
+  getEarliestSaleDate,
+  getEarliestSeizureDate,
+  getRecommendedSaleMethod,
+  getReservePrice,
+  OPEN_REPOSSESSION_STATUSES,
+  REPOSSESSION_COST_TYPES,
+  REPOSSESSION_NOTICES,
+  type RepossessionCostType,
+  type RepossessionSaleMethod,
+  type RepossessionStatus,
+} from '../../../packages/loan-rules/src/repossession';
+
+interface RepossessionCardProps {
+  agencyId: string;
+  userId: string;
+  userRole: UserRole;
+  collateralId: string;
+  agencyName?: string;
+}
+
+const STATUS_LABELS: Record<RepossessionStatus, string> = {
+  notified: 'Notice issued',
+  seized: 'In possession',
+  listed: 'Listed for sale',
+  sold: 'Sold, surplus owed',
+  redeemed: 'Redeemed',
+  cancelled: 'Cancelled',
+  closed: 'Closed',
+};
+
+const SALE_METHOD_LABELS: Record<RepossessionSaleMethod, string> = {
+  auction: 'Public auction',
+  private_sale: 'Private sale',
+};
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export function RepossessionCard({ agencyId, userId, userRole, collateralId, agencyName }: RepossessionCardProps) {
+  const queryClient = useQueryClient();
+  const [working, setWorking] = useState(false);
+  const [lienId, setLienId] = useState('');
+
+  const { data: cases = [], isLoading } = useQuery({
+    queryKey: ['repossessions', agencyId, collateralId],
+    queryFn: () => getRepossessions(agencyId, { collateralId }),
+    enabled: !!agencyId && !!collateralId,
+  });
+
+  const { data: liens = [] } = useQuery({
+    queryKey: ['collateral-liens', agencyId, collateralId],
+    queryFn: () => getCollateralLiens(agencyId, collateralId),
+    enabled: !!agencyId && !!collateralId,
+  });
+
+  const { data: config } = useQuery({
+    queryKey: ['repossession-config', agencyId],
+    queryFn: () => getRepossessionConfig(agencyId),
+    enabled: !!agencyId,
+  });
+
+  const openCase = cases.find((record) => OPEN_REPOSSESSION_STATUSES.includes(record.status));
+  const activeLiens = liens.filter((lien) => lien.status === 'active');
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['repossessions', agencyId] });
+    queryClient.invalidateQueries({ queryKey: ['collateral-liens', agencyId] });
+    queryClient.invalidateQueries({ queryKey: ['collateral', agencyId] });
+    queryClient.invalidateQueries({ queryKey: ['loan'] });
+  };
+
+  // Runs a step and reports its outcome; returns whether it succeeded
+  const run = async (step: () => Promise<{ success: boolean; error?: string }>, done: string, failed: string) => {
+    setWorking(true);
+    try {
+      const result = await step();
+      if (!result.success) {
+        toast.error(result.error || failed);
+        return false;
+      }
+      toast.success(done);
+      refresh();
+      return true;
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleOpen = async () => {
+    const lien = activeLiens.find((candidate) => candidate.id === lienId);
+    if (!lien) {
+      toast.error('Choose the loan in default');
+      return;
+    }
+    const reason = prompt('Reason for repossession, e.g. the arrears and contact attempts');
+    if (!reason) return;
+    const opened = await run(
+      () => openRepossession({ agencyId, loanId: lien.loanId, collateralId, openedBy: userId, reason }),
+      'Repossession opened and notice of intention issued',
+      'Failed to open repossession'
+    );
+    if (opened) setLienId('');
+  };
+
+  const handleNotice = async (record: RepossessionCase, type: keyof typeof REPOSSESSION_NOTICES) => {
+    try {
+      const data = await getRepossessionNoticeData(agencyId, record, type);
+      await downloadRepossessionNoticePDF({ ...data, agencyName });
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to generate notice');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Truck className="h-5 w-5" />
+          Repossession
+        </CardTitle>
+        <CardDescription>
+          Seizure, storage and sale of this asset when a loan it secures is in default. Proceeds go to the loan and any surplus back to the borrower.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !config ? (
+          <Loader2 className="w-5 h-5 animate-spin" />
+        ) : openCase ? (
+          <OpenCase
+            record={openCase}
+            agencyId={agencyId}
+            userId={userId}
+            userRole={userRole}
+            working={working}
+            run={run}
+            earliestSeizure={getEarliestSeizureDate(
+              openCase.notices.find((notice) => notice.type === 'intent')?.issuedAt || openCase.openedAt || new Date(),
+              config
+            )}
+            earliestSale={openCase.seizedAt ? getEarliestSaleDate(openCase.seizedAt, new Date(), config) : null}
+          />
+        ) : activeLiens.length > 0 ? (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2 items-end">
+            <div className="md:col-span-2">
+              <Label>Repossess for loan</Label>
+              <Select value={lienId} onChange={(e) => setLienId(e.target.value)}>
+                <option value="">Choose the loan in default</option>
+                {activeLiens.map((lien) => (
+                  <option key={lien.id} value={lien.id}>
+                    {lien.loanId} · rank {lien.rank} · secures {formatCurrency(lien.coverageAmount)}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <Button onClick={handleOpen} disabled={working || !lienId}>
+              {working && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Issue Notice of Intention
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-neutral-500">This asset secures no loan, so it cannot be repossessed.</p>
+        )}
+
+        {cases.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Opened</TableHead>
+                <TableHead>Loan</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Notices</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {cases.map((record) => (
+                <TableRow key={record.id}>
+                  <TableCell>{formatDateSafe(record.openedAt)}</TableCell>
+                  <TableCell>
+                    <Link to={`/admin/loans/${record.loanId}`} className="font-mono text-xs text-blue-600 hover:underline">
+                      {record.loanId}
+                    </Link>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={OPEN_REPOSSESSION_STATUSES.includes(record.status) ? 'default' : 'outline'}>
+                      {STATUS_LABELS[record.status]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="space-x-1">
+                    {record.notices.map((notice) => (
+                      <Button
+                        key={notice.type}
+                        size="sm"
+                        variant="outline"
+                        title={`${REPOSSESSION_NOTICES[notice.type]}, ${formatDateSafe(notice.issuedAt)}`}
+                        onClick={() => handleNotice(record, notice.type)}
+                      >
+                        <FileDown className="mr-1 h-3 w-3" />
+                        {notice.type === 'statement' ? 'Statement' : notice.type === 'intent' ? 'Intention' : notice.type === 'seizure' ? 'Seizure' : 'Sale'}
+                      </Button>
+                    ))}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function OpenCase({
+  record,
+  agencyId,
+  userId,
+  userRole,
+  working,
+  run,
+  earliestSeizure,
+  earliestSale,
+}: {
+  record: RepossessionCase;
+  agencyId: string;
+  userId: string;
+  userRole: UserRole;
+  working: boolean;
+  run: (step: () => Promise<{ success: boolean; error?: string }>, done: string, failed: string) => Promise<boolean>;
+  earliestSeizure: Date;
+  earliestSale: Date | null;
+}) {
+  const [date, setDate] = useState(today());
+  const [storageLocation, setStorageLocation] = useState('');
+  const [condition, setCondition] = useState<'excellent' | 'good' | 'fair' | 'poor'>('fair');
+  const [costType, setCostType] = useState<RepossessionCostType>('storage');
+  const [costAmount, setCostAmount] = useState('');
+  const [costDescription, setCostDescription] = useState('');
+  const [saleMethod, setSaleMethod] = useState<RepossessionSaleMethod | ''>('');
+  const [reservePrice, setReservePrice] = useState('');
+  const [price, setPrice] = useState('');
+  const [buyerName, setBuyerName] = useState('');
+  const [reference, setReference] = useState('');
+  const [refundMethod, setRefundMethod] = useState('bank_transfer');
+
+  const caseId = record.id;
+  const totalCosts = record.costs.reduce((sum, cost) => sum + cost.amount, 0);
+  const method = saleMethod || (record.valuation ? getRecommendedSaleMethod(record.valuation) : 'auction');
+
+  const handleEnd = async (outcome: 'cancelled' | 'redeemed') => {
+    const reason = prompt(outcome === 'cancelled'
+      ? 'Why is the repossession cancelled? e.g. arrears paid'
+      : 'How was the asset redeemed? e.g. loan paid up');
+    if (!reason) return;
+    await run(
+      () => endRepossession({ agencyId, caseId, outcome, reason, endedBy: userId }),
+      outcome === 'cancelled' ? 'Repossession cancelled' : 'Asset returned to the borrower',
+      'Failed to update repossession'
+    );
+  };
+
+  const handleMove = async () => {
+    const location = prompt('New storage location', record.storageLocation || '');
+    if (!location) return;
+    await run(
+      () => updateStorageLocation({ agencyId, caseId, storageLocation: location, updatedBy: userId }),
+      'Storage location updated',
+      'Failed to update storage location'
+    );
+  };
+
+  const handleAddCost = async () => {
+    const added = await run(
+      () => addRepossessionCost({
+        agencyId,
+        caseId,
+        type: costType,
+        amount: Number(costAmount),
+        date: new Date(date),
+        description: costDescription,
+        recordedBy: userId,
+      }),
+      'Cost added',
+      'Failed to add cost'
+    );
+    if (added) {
+      setCostAmount('');
+      setCostDescription('');
+    }
+  };
+
+  if (record.status === 'notified') {
+    return (
+      <div className="space-y-3">
+        <p className="text-sm">
+          Notice of intention issued {formatDateSafe(record.notices[0]?.issuedAt)} for {formatCurrency(record.amountInArrears)} in arrears.
+          The borrower has until {earliestSeizure.toLocaleDateString()} to pay before the asset can be seized.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-2 items-end border-t pt-4">
+          <div>
+            <Label>Seized on</Label>
+            <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+          <div>
+            <Label>Stored at</Label>
+            <Input value={storageLocation} onChange={(e) => setStorageLocation(e.target.value)} placeholder="Yard, warehouse…" />
+          </div>
+          <div>
+            <Label>Condition found in</Label>
+            <Select value={condition} onChange={(e) => setCondition(e.target.value as typeof condition)}>
+              <option value="excellent">Excellent</option>
+              <option value="good">Good</option>
+              <option value="fair">Fair</option>
+              <option value="poor">Poor</option>
+            </Select>
+          </div>
+          <Button
+            disabled={working || !storageLocation.trim()}
+            onClick={() => run(
+              () => recordSeizure({ agencyId, caseId, seizedAt: new Date(date), storageLocation, condition, recordedBy: userId }),
+              'Seizure recorded and notice of repossession issued',
+              'Failed to record seizure'
+            )}
+          >
+            {working && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Record Seizure
+          </Button>
+        </div>
+        <div className="flex justify-end">
+          <Button size="sm" variant="outline" onClick={() => handleEnd('cancelled')} disabled={working}>
+            Cancel Repossession
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (record.status === 'sold' && record.liquidation) {
+    return (
+      <div className="space-y-3">
+        <LiquidationSummary record={record} />
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-2 items-end border-t pt-4">
+          <div>
+            <Label>Surplus paid on</Label>
+            <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+          <div>
+            <Label>Paid by</Label>
+            <Select value={refundMethod} onChange={(e) => setRefundMethod(e.target.value)}>
+              {Object.entries(PAYMENT_METHODS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </Select>
+          </div>
+          <div>
+            <Label>Reference</Label>
+            <Input value={reference} onChange={(e) => setReference(e.target.value)} />
+          </div>
+          <Button
+            disabled={working}
+            onClick={() => run(
+              () => recordSurplusRefund({
+                agencyId,
+                caseId,
+                paidAt: new Date(date),
+                paymentMethod: refundMethod,
+                reference: reference.trim() || undefined,
+                paidBy: userId,
+              }),
+              'Surplus refund recorded',
+              'Failed to record surplus refund'
+            )}
+          >
+            Record Refund of {formatCurrency(record.liquidation.surplus)}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  // Seized or listed: the asset is in possession
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+        <div>
+          <p className="text-neutral-500">Seized</p>
+          <p className="font-medium">{formatDateSafe(record.seizedAt)}</p>
+        </div>
+        <div>
+          <p className="text-neutral-500">Stored at</p>
+          <p className="font-medium">
+            {record.storageLocation}{' '}
+            <button className="text-xs text-blue-600 hover:underline" onClick={handleMove}>Move</button>
+          </p>
+        </div>
+        {record.valuation && (
+          <>
+            <div>
+              <p className="text-neutral-500">Valued at seizure</p>
+              <p className="font-medium">{formatCurrency(record.valuation.marketValue)}</p>
+              <p className="text-xs text-neutral-500">
+                Quick sale {formatCurrency(record.valuation.quickSaleValue)} · auction {formatCurrency(record.valuation.auctionValue)}
+              </p>
+            </div>
+            <div>
+              <p className="text-neutral-500">Recommended</p>
+              <p className="font-medium capitalize">{record.valuation.recommendedAction}</p>
+              <p className="text-xs text-neutral-500">{record.valuation.confidence} confidence</p>
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="border-t pt-4 space-y-2">
+        <p className="text-sm font-medium">Costs · {formatCurrency(totalCosts)}</p>
+        {record.costs.length > 0 && (
+          <Table>
+            <TableBody>
+              {record.costs.map((cost, index) => (
+                <TableRow key={index}>
+                  <TableCell>{formatDateSafe(cost.date)}</TableCell>
+                  <TableCell>{REPOSSESSION_COST_TYPES[cost.type]}</TableCell>
+                  <TableCell className="text-neutral-500">{cost.description}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(cost.amount)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-2 items-end">
+          <div>
+            <Label>Type</Label>
+            <Select value={costType} onChange={(e) => setCostType(e.target.value as RepossessionCostType)}>
+              {Object.entries(REPOSSESSION_COST_TYPES).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </Select>
+          </div>
+          <div>
+            <Label>Date</Label>
+            <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+          <div>
+            <Label>Amount</Label>
+            <Input type="number" min="0" step="0.01" value={costAmount} onChange={(e) => setCostAmount(e.target.value)} />
+          </div>
+          <div>
+            <Label>Description</Label>
+            <Input value={costDescription} onChange={(e) => setCostDescription(e.target.value)} />
+          </div>
+          <Button variant="outline" onClick={handleAddCost} disabled={working || !costAmount}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Cost
+          </Button>
+        </div>
+      </div>
+
+      {record.status === 'seized' ? (
+        <div className="border-t pt-4 space-y-2">
+          <p className="text-sm text-neutral-500">
+            The sale can be held from {earliestSale?.toLocaleDateString()}, after the redemption period and the notice of sale.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-2 items-end">
+            <div>
+              <Label>Sell by</Label>
+              <Select value={method} onChange={(e) => setSaleMethod(e.target.value as RepossessionSaleMethod)}>
+                {Object.entries(SALE_METHOD_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </Select>
+            </div>
+            <div>
+              <Label>Sale date</Label>
+              <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div>
+              <Label>Reserve price</Label>
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                value={reservePrice}
+                onChange={(e) => setReservePrice(e.target.value)}
+                placeholder={record.valuation ? String(getReservePrice(record.valuation, method)) : ''}
+              />
+            </div>
+            <Button
+              disabled={working}
+              onClick={() => run(
+                () => scheduleRepossessionSale({
+                  agencyId,
+                  caseId,
+                  saleMethod: method,
+                  saleDate: new Date(date),
+                  reservePrice: reservePrice
+                    ? Number(reservePrice)
+                    : record.valuation ? getReservePrice(record.valuation, method) : undefined,
+                  scheduledBy: userId,
+                }),
+                'Sale scheduled and notice of sale issued',
+                'Failed to schedule sale'
+              )}
+            >
+              <Gavel className="mr-2 h-4 w-4" />
+              Issue Notice of Sale
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="border-t pt-4 space-y-2">
+          <p className="text-sm text-neutral-500">
+            {record.saleMethod ? SALE_METHOD_LABELS[record.saleMethod] : 'Sale'} scheduled for {formatDateSafe(record.saleDate)}
+            {record.reservePrice ? `, reserve ${formatCurrency(record.reservePrice)}` : ''}.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-2 items-end">
+            <div>
+              <Label>Sold on</Label>
+              <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div>
+              <Label>Sale price</Label>
+              <Input type="number" min="0" step="0.01" value={price} onChange={(e) => setPrice(e.target.value)} />
+            </div>
+            <div>
+              <Label>Buyer</Label>
+              <Input value={buyerName} onChange={(e) => setBuyerName(e.target.value)} />
+            </div>
+            <div>
+              <Label>Reference</Label>
+              <Input value={reference} onChange={(e) => setReference(e.target.value)} />
+            </div>
+            <Button
+              disabled={working || !price || !buyerName.trim()}
+              onClick={() => {
+                if (record.reservePrice && Number(price) < record.reservePrice &&
+                  !confirm(`The sale price is below the reserve of ${formatCurrency(record.reservePrice)}. Record it anyway?`)) {
+                  return;
+                }
+                run(
+                  () => recordRepossessionSale({
+                    agencyId,
+                    caseId,
+                    soldAt: new Date(date),
+                    grossProceeds: Number(price),
+                    buyerName,
+                    reference: reference.trim() || undefined,
+                    recordedBy: userId,
+                    userRole,
+                  }),
+                  'Sale recorded and proceeds applied to the loan',
+                  'Failed to record sale'
+                );
+              }}
+            >
+              <Gavel className="mr-2 h-4 w-4" />
+              Record Sale
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button size="sm" variant="outline" onClick={() => handleEnd('redeemed')} disabled={working}>
+          Return to Borrower
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function LiquidationSummary({ record }: { record: RepossessionCase }) {
+  const liquidation = record.liquidation!;
+  const rows: Array<[string, number]> = [
+    ['Sale price', liquidation.grossProceeds],
+    ['Costs', liquidation.costs],
+    ['Net proceeds', liquidation.netProceeds],
+    ['Applied to the loan', liquidation.appliedToLoan],
+    ['Still owed on the loan', liquidation.shortfall],
+    ['Surplus owed to the borrower', liquidation.surplus],
+  ];
+  return (
+    <div className="space-y-1 text-sm">
+      <p>
+        Sold {formatDateSafe(record.soldAt)} to {record.buyerName}.
+      </p>
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex justify-between">
+          <span className="text-neutral-500">{label}</span>
+          <span className="font-medium">{formatCurrency(value)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+/**
+ * Repossessions Card Component
+ * Repossession cases across the agency, surpluses still owed to borrowers,
+ * and the notice periods given before seizure and sale
+ */
+
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Loader2, Truck } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { formatCurrency, formatDateSafe } from '../../lib/utils';
+import {
+  getRepossessionConfig,
+  getRepossessions,
+  saveRepossessionConfig,
+  type RepossessionCase,
+  type RepossessionConfig,
+} from '../../lib/loans/repossession';
+import { OPEN_REPOSSESSION_STATUSES } from '../../../packages/loan-rules/src/repossession';
+
+interface RepossessionsCardProps {
+  agencyId: string;
+  userId: string;
+  canEditConfig?: boolean;
+}
+
+export function RepossessionsCard({ agencyId, userId, canEditConfig = false }: RepossessionsCardProps) {
+  const queryClient = useQueryClient();
+
+  const { data: cases = [], isLoading } = useQuery({
+    queryKey: ['repossessions', agencyId, 'all'],
+    queryFn: () => getRepossessions(agencyId),
+    enabled: !!agencyId,
+  });
+
+  const { data: config } = useQuery({
+    queryKey: ['repossession-config', agencyId],
+    queryFn: () => getRepossessionConfig(agencyId),
+    enabled: !!agencyId,
+  });
+
+  const openCases = cases.filter((record) => OPEN_REPOSSESSION_STATUSES.includes(record.status));
+  const soldCases = cases.filter((record) => record.liquidation);
+  const surplusOwed = cases
+    .filter((record) => record.status === 'sold')
+    .reduce((sum, record) => sum + (record.liquidation?.surplus || 0), 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Truck className="h-5 w-5" />
+          Repossessions
+        </CardTitle>
+        <CardDescription>
+          Assets being repossessed or sold for loans in default
+          {surplusOwed > 0 ? ` · ${formatCurrency(surplusOwed)} in sale surpluses still owed to borrowers` : ''}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="open">
+          <TabsList>
+            <TabsTrigger value="open">Open{openCases.length > 0 ? ` (${openCases.length})` : ''}</TabsTrigger>
+            <TabsTrigger value="sales">Sales</TabsTrigger>
+            <TabsTrigger value="settings">Settings</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="open" className="mt-4">
+            {isLoading ? (
+              <Loader2 className="w-5 h-5 animate-spin" />
+            ) : openCases.length === 0 ? (
+              <p className="text-sm text-neutral-500">No repossessions in progress.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Collateral</TableHead>
+                    <TableHead>Loan</TableHead>
+                    <TableHead>Stage</TableHead>
+                    <TableHead>Stored at</TableHead>
+                    <TableHead className="text-right">Costs</TableHead>
+                    <TableHead>Opened</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {openCases.map((record) => (
+                    <TableRow key={record.id}>
+                      <TableCell>
+                        <Link to={`/admin/collateral/${record.collateralId}`} className="text-blue-600 hover:underline font-mono text-xs">
+                          {record.collateralId}
+                        </Link>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{record.loanId}</TableCell>
+                      <TableCell>{getStageLabel(record)}</TableCell>
+                      <TableCell>{record.storageLocation || '—'}</TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(record.costs.reduce((sum, cost) => sum + cost.amount, 0))}
+                      </TableCell>
+                      <TableCell>{formatDateSafe(record.openedAt)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </TabsContent>
+
+          <TabsContent value="sales" className="mt-4">
+            {soldCases.length === 0 ? (
+              <p className="text-sm text-neutral-500">No repossessed assets have been sold.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Sold</TableHead>
+                    <TableHead>Loan</TableHead>
+                    <TableHead className="text-right">Price</TableHead>
+                    <TableHead className="text-right">Costs</TableHead>
+                    <TableHead className="text-right">To loan</TableHead>
+                    <TableHead className="text-right">Shortfall</TableHead>
+                    <TableHead className="text-right">Surplus</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {soldCases.map((record) => (
+                    <TableRow key={record.id}>
+                      <TableCell>{formatDateSafe(record.soldAt)}</TableCell>
+                      <TableCell className="font-mono text-xs">{record.loanId}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(record.liquidation!.grossProceeds)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(record.liquidation!.costs)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(record.liquidation!.appliedToLoan)}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(record.liquidation!.shortfall)}</TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(record.liquidation!.surplus)}
+                        {record.liquidation!.surplus > 0 && (
+                          <p className="text-xs text-neutral-500">
+                            {record.status === 'sold' ? 'Owed' : `Paid ${formatDateSafe(record.surplusPaidAt)}`}
+                          </p>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </TabsContent>
+
+          <TabsContent value="settings" className="mt-4">
+            {config ? (
+              <RepossessionConfigEditor
+                agencyId={agencyId}
+                userId={userId}
+                config={config}
+                canEdit={canEditConfig}
+                onSaved={() => queryClient.invalidateQueries({ queryKey: ['repossession-config', agencyId] })}
+              />
+            ) : (
+              <Loader2 className="w-5 h-5 animate-spin" />
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
+
+function getStageLabel(record: RepossessionCase): string {
+  switch (record.status) {
+    case 'notified':
+      return 'Notice of intention issued';
+    case 'seized':
+      return `Seized ${formatDateSafe(record.seizedAt)}`;
+    case 'listed':
+      return `Sale on ${formatDateSafe(record.saleDate)}`;
+    default:
+      return `Surplus of ${formatCurrency(record.liquidation?.surplus || 0)} owed`;
+  }
+}
+
+function RepossessionConfigEditor({
+  agencyId,
+  userId,
+  config,
+  canEdit,
+  onSaved,
+}: {
+  agencyId: string;
+  userId: string;
+  config: RepossessionConfig;
+  canEdit: boolean;
+  onSaved: () => void;
+}) {
+  const [draft, setDraft] = useState<RepossessionConfig>(config);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(config);
+  }, [config]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const result = await saveRepossessionConfig(agencyId, draft, userId);
+      if (!result.success) {
+        toast.error(result.error || 'Failed to save repossession settings');
+        return;
+      }
+      toast.success('Repossession settings saved');
+      onSaved();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const periods: Array<[keyof Omit<RepossessionConfig, 'deductCostsFromProceeds'>, string, string]> = [
+    ['remedyPeriodDays', 'Remedy period (days)', 'From the notice of intention until the asset can be seized'],
+    ['redemptionPeriodDays', 'Redemption period (days)', 'From seizure until the asset can be sold'],
+    ['saleNoticeDays', 'Notice of sale (days)', 'From the notice of sale until the sale'],
+  ];
+
+  return (
+    <div className="space-y-4 max-w-md">
+      {periods.map(([key, label, hint]) => (
+        <div key={key}>
+          <Label>{label}</Label>
+          <Input
+            type="number"
+            min="0"
+            step="1"
+            value={draft[key]}
+            disabled={!canEdit}
+            onChange={(e) => setDraft({ ...draft, [key]: Number(e.target.value || 0) })}
+          />
+          <p className="text-xs text-neutral-500 mt-1">{hint}</p>
+        </div>
+      ))}
+      <label className="text-sm flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={draft.deductCostsFromProceeds}
+          disabled={!canEdit}
+          onChange={(e) => setDraft({ ...draft, deductCostsFromProceeds: e.target.checked })}
+        />
+        Recover repossession costs from the sale proceeds before the loan
+      </label>
+      {canEdit && (
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Settings
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,342 @@
+/**
+ * Regulatory Reports Card Component
+ * Generates the Bank of Zambia return pack for a month, shows its validation
+ * results, downloads it as a spreadsheet or PDF and records its submission
+ */
+
+import { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
+import { AlertTriangle, CheckCircle2, FileSpreadsheet, FileText, Loader2, Play, Send, XCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { formatDateSafe } from '../../lib/utils';
+import {
+  generateRegulatoryReport,
+  getComplianceReports,
+  getRegulatoryConfig,
+  getValidationErrors,
+  saveRegulatoryConfig,
+  submitRegulatoryReport,
+  type RegulatoryConfig,
+  type ReportPack,
+  type ReportValidationIssue,
+} from '../../lib/compliance/compliance-reports';
+import { exportRegulatoryReportPack } from '../../lib/data-export';
+import { downloadRegulatoryReportPackPDF } from '../../lib/pdf-generator';
+
+interface RegulatoryReportsCardProps {
+  agencyId: string;
+  userId: string;
+  canSubmit?: boolean;
+  canEditConfig?: boolean;
+}
+
+function getPreviousMonth(): string {
+  const now = new Date();
+  const previous = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+  return previous.toISOString().slice(0, 7);
+}
+
+function ValidationList({ issues }: { issues: ReportValidationIssue[] }) {
+  if (issues.length === 0) {
+    return (
+      <p className="text-sm text-green-700 flex items-center gap-2">
+        <CheckCircle2 className="w-4 h-4" />
+        All checks passed
+      </p>
+    );
+  }
+  return (
+    <ul className="space-y-1">
+      {issues.map((issue, index) => (
+        <li key={index} className={`text-sm flex items-start gap-2 ${issue.severity === 'error' ? 'text-red-700' : 'text-amber-700'}`}>
+          {issue.severity === 'error' ? <XCircle className="w-4 h-4 mt-0.5 shrink-0" /> : <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />}
+          {issue.message}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function RegulatoryReportsCard({ agencyId, userId, canSubmit = false, canEditConfig = false }: RegulatoryReportsCardProps) {
+  const queryClient = useQueryClient();
+  const [month, setMonth] = useState(getPreviousMonth);
+  const [generating, setGenerating] = useState(false);
+  const [submittingId, setSubmittingId] = useState<string | null>(null);
+
+  const { data: reports = [], isLoading } = useQuery({
+    queryKey: ['regulatory-reports', agencyId],
+    queryFn: () => getComplianceReports(agencyId, 'regulatory'),
+    enabled: !!agencyId,
+  });
+
+  const { data: config } = useQuery({
+    queryKey: ['regulatory-config', agencyId],
+    queryFn: () => getRegulatoryConfig(agencyId),
+    enabled: !!agencyId,
+  });
+
+  // Packs from before the report-pack format carry no returns
+  const packs = reports.filter((report) => report.data?.pack);
+
+  const handleGenerate = async () => {
+    const [year, monthIndex] = month.split('-').map(Number);
+    setGenerating(true);
+    try {
+      const report = await generateRegulatoryReport(
+        agencyId,
+        { start: new Date(year, monthIndex - 1, 1), end: new Date(year, monthIndex, 0) },
+        userId
+      );
+      const errors = getValidationErrors(report.data.validation);
+      if (errors.length > 0) {
+        toast.error(`Pack generated with ${errors.length} validation error(s)`);
+      } else {
+        toast.success('Pack generated and validated');
+      }
+      queryClient.invalidateQueries({ queryKey: ['regulatory-reports', agencyId] });
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to generate report pack');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleSubmit = async (reportId: string) => {
+    if (!confirm('Record this pack as submitted to the Bank of Zambia? Submitted packs cannot be changed.')) {
+      return;
+    }
+    setSubmittingId(reportId);
+    try {
+      const result = await submitRegulatoryReport(agencyId, reportId, userId);
+      if (!result.success) {
+        toast.error(result.error || 'Failed to submit report pack');
+        return;
+      }
+      toast.success('Report pack marked as submitted');
+      queryClient.invalidateQueries({ queryKey: ['regulatory-reports', agencyId] });
+    } finally {
+      setSubmittingId(null);
+    }
+  };
+
+  const handleDownloadPdf = async (pack: ReportPack) => {
+    try {
+      await downloadRegulatoryReportPackPDF(pack);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to generate PDF');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4">
+          <div>
+            <CardTitle>Regulatory Returns</CardTitle>
+            <CardDescription>
+              Bank of Zambia prudential returns: portfolio at risk, sectoral distribution, large exposures,
+              insider loans and interest rate disclosure
+            </CardDescription>
+          </div>
+          <div className="flex items-end gap-2">
+            <div>
+              <Label>Reporting month</Label>
+              <Input type="month" value={month} onChange={(e) => setMonth(e.target.value)} className="w-40" />
+            </div>
+            <Button onClick={handleGenerate} disabled={generating || !month}>
+              {generating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+              Generate Pack
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="packs">
+          <TabsList>
+            <TabsTrigger value="packs">Report Packs</TabsTrigger>
+            <TabsTrigger value="settings">Settings</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="packs" className="space-y-4 mt-4">
+            {isLoading ? (
+              <Loader2 className="w-5 h-5 animate-spin" />
+            ) : packs.length === 0 ? (
+              <p className="text-sm text-neutral-500">No report packs have been generated yet.</p>
+            ) : (
+              packs.map((report) => {
+                const pack = report.data.pack as ReportPack;
+                const issues = (report.data.validation || []) as ReportValidationIssue[];
+                const errors = getValidationErrors(issues);
+                return (
+                  <div key={report.id} className="p-4 border rounded-lg space-y-3">
+                    <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                      <div>
+                        <p className="font-semibold">{report.name}</p>
+                        <p className="text-sm text-neutral-500">
+                          As at {pack.asOf}{report.data.source === 'period_close' && ' (closed period)'} · generated {formatDateSafe(report.generatedAt)}
+                          {report.submittedAt && ` · submitted ${formatDateSafe(report.submittedAt)}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline">{report.status}</Badge>
+                        {errors.length > 0 && (
+                          <Badge className="bg-red-100 text-red-700 border-red-200">{errors.length} error(s)</Badge>
+                        )}
+                        <Button variant="outline" size="sm" onClick={() => exportRegulatoryReportPack(pack)}>
+                          <FileSpreadsheet className="mr-2 h-4 w-4" />
+                          Excel
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => handleDownloadPdf(pack)}>
+                          <FileText className="mr-2 h-4 w-4" />
+                          PDF
+                        </Button>
+                        {canSubmit && report.status !== 'submitted' && (
+                          <Button
+                            size="sm"
+                            onClick={() => handleSubmit(report.id)}
+                            disabled={errors.length > 0 || submittingId === report.id}
+                          >
+                            {submittingId === report.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+                            Submit
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    <ValidationList issues={issues} />
+                  </div>
+                );
+              })
+            )}
+          </TabsContent>
+
+          <TabsContent value="settings" className="mt-4">
+            {config ? (
+              <RegulatoryConfigEditor
+                agencyId={agencyId}
+                userId={userId}
+                config={config}
+                canEdit={canEditConfig}
+                onSaved={() => queryClient.invalidateQueries({ queryKey: ['regulatory-config', agencyId] })}
+              />
+            ) : (
+              <Loader2 className="w-5 h-5 animate-spin" />
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
+
+function RegulatoryConfigEditor({
+  agencyId,
+  userId,
+  config,
+  canEdit,
+  onSaved,
+}: {
+  agencyId: string;
+  userId: string;
+  config: RegulatoryConfig;
+  canEdit: boolean;
+  onSaved: () => void;
+}) {
+  const [draft, setDraft] = useState<RegulatoryConfig>(config);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(config);
+  }, [config]);
+
+  const update = (changes: Partial<RegulatoryConfig>) => {
+    setDraft((prev) => ({ ...prev, ...changes }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const result = await saveRegulatoryConfig(agencyId, draft, userId);
+      if (!result.success) {
+        toast.error(result.error || 'Failed to save regulatory settings');
+        return;
+      }
+      toast.success('Regulatory settings saved. They apply to packs generated from now on.');
+      onSaved();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <Label>Institution name</Label>
+          <Input value={draft.institutionName} disabled={!canEdit} onChange={(e) => update({ institutionName: e.target.value })} />
+        </div>
+        <div>
+          <Label>Licence number</Label>
+          <Input value={draft.licenceNumber} disabled={!canEdit} onChange={(e) => update({ licenceNumber: e.target.value })} />
+        </div>
+        <div>
+          <Label>Regulatory capital (ZMW)</Label>
+          <Input
+            type="number"
+            min="0"
+            value={draft.regulatoryCapital}
+            disabled={!canEdit}
+            onChange={(e) => update({ regulatoryCapital: Number(e.target.value || 0) })}
+          />
+        </div>
+        <div>
+          <Label>Large exposure threshold (% of capital)</Label>
+          <Input
+            type="number"
+            step="0.01"
+            min="0"
+            value={draft.largeExposurePct}
+            disabled={!canEdit}
+            onChange={(e) => update({ largeExposurePct: Number(e.target.value || 0) })}
+          />
+        </div>
+        <div>
+          <Label>Single obligor limit (% of capital)</Label>
+          <Input
+            type="number"
+            step="0.01"
+            min="0"
+            value={draft.singleObligorLimitPct}
+            disabled={!canEdit}
+            onChange={(e) => update({ singleObligorLimitPct: Number(e.target.value || 0) })}
+          />
+        </div>
+        <div>
+          <Label>Insider lending limit (% of capital)</Label>
+          <Input
+            type="number"
+            step="0.01"
+            min="0"
+            value={draft.insiderLimitPct}
+            disabled={!canEdit}
+            onChange={(e) => update({ insiderLimitPct: Number(e.target.value || 0) })}
+          />
+        </div>
+      </div>
+
+      {canEdit && (
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Settings
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
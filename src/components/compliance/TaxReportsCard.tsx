@@ -0,0 +1,402 @@
+/**
+ * Tax Reports Card Component
+ * Generates month-by-month tax schedules from the income actually received,
+ * shows each month's reconciliation to the ledger, exports the schedules and
+ * edits the agency's tax rules
+ */
+
+import { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { AlertTriangle, CheckCircle2, FileSpreadsheet, Loader2, Play } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { formatCurrency, formatDateSafe } from '../../lib/utils';
+import {
+  generateTaxReport,
+  getComplianceReports,
+  getTaxConfig,
+  saveTaxConfig,
+  type TaxConfig,
+  type TaxReport,
+} from '../../lib/compliance/compliance-reports';
+import { exportTaxReport } from '../../lib/data-export';
+import {
+  TAX_COMPONENTS,
+  TAX_RULE_KINDS,
+  type TaxComponent,
+  type TaxRule,
+} from '../../../packages/loan-rules/src/tax';
+
+interface TaxReportsCardProps {
+  agencyId: string;
+  userId: string;
+  canEditConfig?: boolean;
+}
+
+function getPreviousMonth(): string {
+  const now = new Date();
+  const previous = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+  return previous.toISOString().slice(0, 7);
+}
+
+function TaxSchedule({ report }: { report: TaxReport }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Month</TableHead>
+          <TableHead className="text-right">Interest</TableHead>
+          <TableHead className="text-right">Fees</TableHead>
+          <TableHead className="text-right">Penalties</TableHead>
+          <TableHead className="text-right">Recoveries</TableHead>
+          {report.taxes.map((tax) => (
+            <TableHead key={tax.ruleId} className="text-right">{tax.name}</TableHead>
+          ))}
+          <TableHead>Ledger</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {report.periods.map((period) => (
+          <TableRow key={period.periodId}>
+            <TableCell className="font-medium">{period.periodId}</TableCell>
+            <TableCell className="text-right">{formatCurrency(period.income.interest)}</TableCell>
+            <TableCell className="text-right">{formatCurrency(period.income.fees)}</TableCell>
+            <TableCell className="text-right">{formatCurrency(period.income.penalties)}</TableCell>
+            <TableCell className="text-right">{formatCurrency(period.income.recoveries)}</TableCell>
+            {period.taxes.map((tax) => (
+              <TableCell key={tax.ruleId} className="text-right">{formatCurrency(tax.amount)}</TableCell>
+            ))}
+            <TableCell>
+              {period.reconciliation.reconciled ? (
+                <span className="text-green-700 flex items-center gap-1 text-sm">
+                  <CheckCircle2 className="w-4 h-4" />
+                  Reconciled
+                </span>
+              ) : (
+                <span
+                  className="text-amber-700 flex items-center gap-1 text-sm"
+                  title={[
+                    period.reconciliation.unposted.length > 0 && `Unposted: ${period.reconciliation.unposted.join(', ')}`,
+                    period.reconciliation.ledgerOnly.length > 0 && `No receipt: ${period.reconciliation.ledgerOnly.join(', ')}`,
+                  ].filter(Boolean).join('\n')}
+                >
+                  <AlertTriangle className="w-4 h-4" />
+                  {period.reconciliation.unposted.length + period.reconciliation.ledgerOnly.length > 0
+                    ? `${period.reconciliation.unposted.length + period.reconciliation.ledgerOnly.length} unmatched`
+                    : 'Differs'}
+                </span>
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+        <TableRow className="font-semibold">
+          <TableCell>Total</TableCell>
+          <TableCell className="text-right">{formatCurrency(report.income.interest)}</TableCell>
+          <TableCell className="text-right">{formatCurrency(report.income.fees)}</TableCell>
+          <TableCell className="text-right">{formatCurrency(report.income.penalties)}</TableCell>
+          <TableCell className="text-right">{formatCurrency(report.income.recoveries)}</TableCell>
+          {report.taxes.map((tax) => (
+            <TableCell key={tax.ruleId} className="text-right">{formatCurrency(tax.amount)}</TableCell>
+          ))}
+          <TableCell />
+        </TableRow>
+      </TableBody>
+    </Table>
+  );
+}
+
+export function TaxReportsCard({ agencyId, userId, canEditConfig = false }: TaxReportsCardProps) {
+  const queryClient = useQueryClient();
+  const [fromMonth, setFromMonth] = useState(getPreviousMonth);
+  const [toMonth, setToMonth] = useState(getPreviousMonth);
+  const [generating, setGenerating] = useState(false);
+
+  const { data: reports = [], isLoading } = useQuery({
+    queryKey: ['tax-reports', agencyId],
+    queryFn: () => getComplianceReports(agencyId, 'tax'),
+    enabled: !!agencyId,
+  });
+
+  const { data: config } = useQuery({
+    queryKey: ['tax-config', agencyId],
+    queryFn: () => getTaxConfig(agencyId),
+    enabled: !!agencyId,
+  });
+
+  // Reports from before the schedule format carry only revenue totals
+  const scheduled = reports.filter((report) => report.data?.report);
+
+  const handleGenerate = async () => {
+    if (toMonth < fromMonth) {
+      toast.error('The last month must not be before the first');
+      return;
+    }
+    const [fromYear, fromIndex] = fromMonth.split('-').map(Number);
+    const [toYear, toIndex] = toMonth.split('-').map(Number);
+    setGenerating(true);
+    try {
+      const report = await generateTaxReport(
+        agencyId,
+        { start: new Date(fromYear, fromIndex - 1, 1), end: new Date(toYear, toIndex, 0) },
+        userId
+      );
+      if (report.data.report.reconciled) {
+        toast.success('Tax report generated and reconciled to the ledger');
+      } else {
+        toast.error('Tax report generated, but some months do not reconcile to the ledger');
+      }
+      queryClient.invalidateQueries({ queryKey: ['tax-reports', agencyId] });
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to generate tax report');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4">
+          <div>
+            <CardTitle>Tax Reports</CardTitle>
+            <CardDescription>
+              Taxes on interest, fee, penalty and recovery income received, month by month and reconciled to the ledger
+            </CardDescription>
+          </div>
+          <div className="flex items-end gap-2">
+            <div>
+              <Label>From</Label>
+              <Input type="month" value={fromMonth} onChange={(e) => setFromMonth(e.target.value)} className="w-40" />
+            </div>
+            <div>
+              <Label>To</Label>
+              <Input type="month" value={toMonth} onChange={(e) => setToMonth(e.target.value)} className="w-40" />
+            </div>
+            <Button onClick={handleGenerate} disabled={generating || !fromMonth || !toMonth}>
+              {generating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+              Generate
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="reports">
+          <TabsList>
+            <TabsTrigger value="reports">Reports</TabsTrigger>
+            <TabsTrigger value="settings">Tax Rules</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="reports" className="space-y-4 mt-4">
+            {isLoading ? (
+              <Loader2 className="w-5 h-5 animate-spin" />
+            ) : scheduled.length === 0 ? (
+              <p className="text-sm text-neutral-500">No tax reports have been generated yet.</p>
+            ) : (
+              scheduled.map((saved) => {
+                const report = saved.data.report as TaxReport;
+                return (
+                  <div key={saved.id} className="p-4 border rounded-lg space-y-3">
+                    <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                      <div>
+                        <p className="font-semibold">{saved.name}</p>
+                        <p className="text-sm text-neutral-500">
+                          Total tax {formatCurrency(report.totalTax)} on income of {formatCurrency(report.totalIncome)}
+                          {' '}· generated {formatDateSafe(saved.generatedAt)}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {report.reconciled ? (
+                          <Badge variant="outline">Reconciled</Badge>
+                        ) : (
+                          <Badge className="bg-amber-100 text-amber-700 border-amber-200">Unreconciled</Badge>
+                        )}
+                        <Button variant="outline" size="sm" onClick={() => exportTaxReport(report)}>
+                          <FileSpreadsheet className="mr-2 h-4 w-4" />
+                          Excel
+                        </Button>
+                      </div>
+                    </div>
+                    <TaxSchedule report={report} />
+                  </div>
+                );
+              })
+            )}
+          </TabsContent>
+
+          <TabsContent value="settings" className="mt-4">
+            {config ? (
+              <TaxConfigEditor
+                agencyId={agencyId}
+                userId={userId}
+                config={config}
+                canEdit={canEditConfig}
+                onSaved={() => queryClient.invalidateQueries({ queryKey: ['tax-config', agencyId] })}
+              />
+            ) : (
+              <Loader2 className="w-5 h-5 animate-spin" />
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
+
+function TaxConfigEditor({
+  agencyId,
+  userId,
+  config,
+  canEdit,
+  onSaved,
+}: {
+  agencyId: string;
+  userId: string;
+  config: TaxConfig;
+  canEdit: boolean;
+  onSaved: () => void;
+}) {
+  const [draft, setDraft] = useState<TaxConfig>(config);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(config);
+  }, [config]);
+
+  const updateRule = (index: number, changes: Partial<TaxRule>) => {
+    setDraft((prev) => ({
+      rules: prev.rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)),
+    }));
+  };
+
+  const toggleComponent = (index: number, component: TaxComponent, checked: boolean) => {
+    const components = draft.rules[index].components;
+    updateRule(index, {
+      components: checked ? [...components, component] : components.filter((c) => c !== component),
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const result = await saveTaxConfig(agencyId, draft, userId);
+      if (!result.success) {
+        toast.error(result.error || 'Failed to save tax rules');
+        return;
+      }
+      toast.success('Tax rules saved. They apply to reports generated from now on.');
+      onSaved();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>On</TableHead>
+            <TableHead>Tax</TableHead>
+            <TableHead>Rate (%)</TableHead>
+            <TableHead>Charged on</TableHead>
+            <TableHead>Options</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {draft.rules.map((rule, index) => (
+            <TableRow key={rule.id}>
+              <TableCell>
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  disabled={!canEdit}
+                  onChange={(e) => updateRule(index, { enabled: e.target.checked })}
+                />
+              </TableCell>
+              <TableCell>
+                <Input value={rule.name} disabled={!canEdit} onChange={(e) => updateRule(index, { name: e.target.value })} />
+                <p className="text-xs text-muted-foreground mt-1">{TAX_RULE_KINDS[rule.kind]}</p>
+              </TableCell>
+              <TableCell>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max="100"
+                  className="w-24"
+                  value={rule.rate}
+                  disabled={!canEdit}
+                  onChange={(e) => updateRule(index, { rate: Number(e.target.value || 0) })}
+                />
+              </TableCell>
+              <TableCell>
+                <div className="flex flex-wrap gap-3">
+                  {(Object.keys(TAX_COMPONENTS) as TaxComponent[]).map((component) => (
+                    <label key={component} className="text-sm flex items-center gap-1">
+                      <input
+                        type="checkbox"
+                        checked={rule.components.includes(component)}
+                        disabled={!canEdit}
+                        onChange={(e) => toggleComponent(index, component, e.target.checked)}
+                      />
+                      {TAX_COMPONENTS[component]}
+                    </label>
+                  ))}
+                </div>
+              </TableCell>
+              <TableCell>
+                {rule.kind === 'corporate_income' && (
+                  <label className="text-sm flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={!!rule.deductExpenses}
+                      disabled={!canEdit}
+                      onChange={(e) => updateRule(index, { deductExpenses: e.target.checked })}
+                    />
+                    Deduct ledger expenses
+                  </label>
+                )}
+                {rule.kind === 'vat' && (
+                  <label className="text-sm flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={!!rule.inclusive}
+                      disabled={!canEdit}
+                      onChange={(e) => updateRule(index, { inclusive: e.target.checked })}
+                    />
+                    Income includes VAT
+                  </label>
+                )}
+                {rule.kind === 'withholding' && (
+                  <Input
+                    placeholder="Loan types (all if empty)"
+                    value={(rule.loanTypes || []).join(', ')}
+                    disabled={!canEdit}
+                    onChange={(e) => updateRule(index, {
+                      loanTypes: e.target.value.split(',').map((type) => type.trim()).filter(Boolean),
+                    })}
+                  />
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {canEdit && (
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Tax Rules
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
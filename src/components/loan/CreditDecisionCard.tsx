@@ -0,0 +1,114 @@
+/**
+ * Credit Decision Card Component
+ * Shows the stored credit decision trace for a loan and lets staff re-run it
+ */
+
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { Loader2, Scale, RefreshCw } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { runCreditDecision } from '../../lib/loans/credit-decision';
+import { formatDateSafe } from '../../lib/utils';
+import type { CreditDecision, DecisionOutcome } from '../../../packages/loan-rules/src/decision-rules';
+
+interface CreditDecisionCardProps {
+  agencyId: string;
+  loanId: string;
+  decision?: CreditDecision | null;
+  canRun?: boolean;
+}
+
+const OUTCOME_STYLES: Record<DecisionOutcome, { label: string; className: string }> = {
+  approve: { label: 'Approve', className: 'bg-green-100 text-green-800 border-green-300' },
+  refer: { label: 'Refer', className: 'bg-yellow-100 text-yellow-800 border-yellow-300' },
+  decline: { label: 'Decline', className: 'bg-red-100 text-red-800 border-red-300' },
+};
+
+function formatFact(value: unknown): string {
+  if (value === null || value === undefined) return 'not provided';
+  if (typeof value === 'number') return value.toLocaleString();
+  return String(value);
+}
+
+export function CreditDecisionCard({ agencyId, loanId, decision, canRun = false }: CreditDecisionCardProps) {
+  const queryClient = useQueryClient();
+  const [running, setRunning] = useState(false);
+
+  const handleRun = async () => {
+    setRunning(true);
+    try {
+      const result = await runCreditDecision(agencyId, loanId);
+      if (!result.success) {
+        toast.error(result.error || 'Failed to run credit decision');
+        return;
+      }
+      toast.success(`Credit decision: ${OUTCOME_STYLES[result.decision!.outcome].label}`);
+      queryClient.invalidateQueries({ queryKey: ['loan'] });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <Card className="border-neutral-200">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="w-5 h-5 text-[#006BFF]" />
+          Credit Decision
+        </CardTitle>
+        {canRun && (
+          <Button size="sm" variant="outline" onClick={handleRun} disabled={running}>
+            {running ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <RefreshCw className="w-4 h-4 mr-2" />
+            )}
+            {decision ? 'Re-run' : 'Run Decision'}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!decision ? (
+          <p className="text-sm text-neutral-500">No credit decision has been recorded for this loan.</p>
+        ) : (
+          <>
+            <div className="flex items-center gap-3">
+              <Badge variant="outline" className={OUTCOME_STYLES[decision.outcome].className}>
+                {OUTCOME_STYLES[decision.outcome].label}
+              </Badge>
+              <span className="text-xs text-neutral-500">
+                {decision.hits.length} of {decision.rulesEvaluated} rules hit · {formatDateSafe(decision.evaluatedAt)}
+              </span>
+            </div>
+
+            {decision.hits.length === 0 ? (
+              <p className="text-sm text-neutral-600">No rules were hit.</p>
+            ) : (
+              <ul className="space-y-2">
+                {decision.hits.map((hit) => (
+                  <li key={hit.ruleId} className="rounded-lg border border-neutral-200 p-3 text-sm">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-neutral-900">{hit.name}</span>
+                      <Badge variant="outline" className={OUTCOME_STYLES[hit.outcome].className}>
+                        {OUTCOME_STYLES[hit.outcome].label}
+                      </Badge>
+                    </div>
+                    <p className="text-neutral-600 mt-1">{hit.reason}</p>
+                    <p className="text-xs text-neutral-500 mt-1">
+                      {Object.entries(hit.facts)
+                        .map(([fact, value]) => `${fact}: ${formatFact(value)}`)
+                        .join(' · ')}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,188 @@
+/**
+ * Loan Recoveries Card Component
+ * Shows what was written off a loan and the recoveries made since, and lets
+ * staff record new recoveries
+ */
+
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Loader2, FileX, Plus } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { getLoanRecoveries, recordLoanRecovery, type RecoverySource } from '../../lib/loans/write-off';
+import { formatCurrency, formatDateSafe } from '../../lib/utils';
+import { getRecoverableBalance, RECOVERY_SOURCES } from '../../../packages/loan-rules/src/write-off';
+
+interface LoanRecoveriesCardProps {
+  agencyId: string;
+  loan: any;
+  userId: string;
+  canRecord?: boolean;
+}
+
+const SOURCE_LABELS: Record<RecoverySource, string> = {
+  cash: 'Cash',
+  collateral_sale: 'Collateral sale',
+  guarantor: 'Guarantor',
+  other: 'Other',
+};
+
+export function LoanRecoveriesCard({ agencyId, loan, userId, canRecord = false }: LoanRecoveriesCardProps) {
+  const queryClient = useQueryClient();
+  const [formOpen, setFormOpen] = useState(false);
+  const [amount, setAmount] = useState('');
+  const [recoveryDate, setRecoveryDate] = useState(new Date().toISOString().slice(0, 10));
+  const [source, setSource] = useState<RecoverySource>('cash');
+  const [reference, setReference] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const writeOff = loan.writeOff || {};
+  const recoverable = getRecoverableBalance(loan);
+
+  const { data: recoveries = [], isLoading } = useQuery({
+    queryKey: ['loan-recoveries', agencyId, loan.id],
+    queryFn: () => getLoanRecoveries(agencyId, loan.id),
+  });
+
+  const handleRecord = async () => {
+    setSaving(true);
+    try {
+      const result = await recordLoanRecovery({
+        agencyId,
+        loanId: loan.id,
+        amount: Number(amount),
+        recoveryDate: new Date(recoveryDate),
+        source,
+        reference: reference.trim() || undefined,
+        recordedBy: userId,
+      });
+      if (!result.success) {
+        toast.error(result.error || 'Failed to record recovery');
+        return;
+      }
+      toast.success('Recovery recorded');
+      setAmount('');
+      setReference('');
+      setFormOpen(false);
+      queryClient.invalidateQueries({ queryKey: ['loan-recoveries', agencyId, loan.id] });
+      queryClient.invalidateQueries({ queryKey: ['loan'] });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="border-neutral-200">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <FileX className="w-5 h-5 text-red-600" />
+          Write-off &amp; Recoveries
+        </CardTitle>
+        {canRecord && recoverable > 0 && (
+          <Button size="sm" variant="outline" onClick={() => setFormOpen(!formOpen)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Record Recovery
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <p className="text-neutral-500">Written off</p>
+            <p className="font-semibold text-red-600">{formatCurrency(Number(writeOff.total || 0))}</p>
+            <p className="text-xs text-neutral-500">{writeOff.writtenOffOn ? formatDateSafe(writeOff.writtenOffOn) : '-'}</p>
+          </div>
+          <div>
+            <p className="text-neutral-500">Principal / Interest / Fees</p>
+            <p className="font-medium">
+              {formatCurrency(Number(writeOff.principal || 0))} / {formatCurrency(Number(writeOff.interest || 0))} / {formatCurrency(Number(writeOff.penalties || 0))}
+            </p>
+          </div>
+          <div>
+            <p className="text-neutral-500">Recovered</p>
+            <p className="font-semibold text-emerald-600">{formatCurrency(Number(loan.recoveredAmount || 0))}</p>
+          </div>
+          <div>
+            <p className="text-neutral-500">Net loss</p>
+            <p className="font-semibold">{formatCurrency(recoverable)}</p>
+          </div>
+        </div>
+
+        {formOpen && (
+          <div className="rounded-lg border border-neutral-200 p-4 grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="recoveryAmount">Amount</Label>
+              <Input
+                id="recoveryAmount"
+                type="number"
+                min="0"
+                step="0.01"
+                max={recoverable}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recoveryDate">Date</Label>
+              <Input id="recoveryDate" type="date" value={recoveryDate} onChange={(e) => setRecoveryDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recoverySource">Source</Label>
+              <select
+                id="recoverySource"
+                value={source}
+                onChange={(e) => setSource(e.target.value as RecoverySource)}
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+              >
+                {RECOVERY_SOURCES.map((option) => (
+                  <option key={option} value={option}>{SOURCE_LABELS[option]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recoveryReference">Reference</Label>
+              <Input id="recoveryReference" value={reference} onChange={(e) => setReference(e.target.value)} />
+            </div>
+            <div className="md:col-span-4 flex justify-end">
+              <Button size="sm" onClick={handleRecord} disabled={saving || !(Number(amount) > 0)}>
+                {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save Recovery
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <Loader2 className="w-4 h-4 animate-spin" />
+        ) : recoveries.length === 0 ? (
+          <p className="text-sm text-neutral-500">No recoveries have been recorded on this loan.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead>Reference</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {recoveries.map((recovery) => (
+                <TableRow key={recovery.id}>
+                  <TableCell>{formatDateSafe(recovery.recoveryDate)}</TableCell>
+                  <TableCell>{SOURCE_LABELS[recovery.source] || recovery.source}</TableCell>
+                  <TableCell>{recovery.reference || '-'}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(recovery.amount)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -10,6 +10,9 @@ import { Loader2 } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { useAuth } from '../../hooks/useAuth';
 import { createAuditLog } from '../../lib/firebase/firestore-helpers';
+import { getRepaymentOutstanding, toAllocationInstallment } from '../../lib/firebase/repayment-helpers';
+import { getPaymentAllocationConfig } from '../../lib/firebase/loan-type-config';
+import { allocatePayment } from '../../../packages/loan-rules/src/allocation';
 
 interface RecordPaymentDialogProps {
   open: boolean;
@@ -35,9 +38,8 @@ export function RecordPaymentDialog({
   const [transactionId, setTransactionId] = useState('');
   const [loading, setLoading] = useState(false);
 
-  const amountDue = Number(repayment?.amountDue || 0);
-  const amountPaid = Number(repayment?.amountPaid || 0);
-  const remaining = amountDue - amountPaid;
+  // Outstanding includes any late fee charged on the installment
+  const remaining = repayment ? getRepaymentOutstanding({ id: repaymentId, ...repayment }) : 0;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -61,6 +63,9 @@ export function RecordPaymentDialog({
       const deterministicId = transactionId?.trim() || 
         `payment-${loanId}-${repaymentId}-${paymentAmount.toFixed(2)}-${paymentMethod}`;
       const paymentTransactionId = deterministicId;
+
+      const loanSnap = await getDoc(doc(db, 'agencies', agencyId, 'loans', loanId));
+      const allocationConfig = await getPaymentAllocationConfig(agencyId, loanSnap.data()?.loanType);
       
       // Use Firestore transaction for atomic updates
       await runTransaction(db, async (transaction) => {
@@ -81,8 +86,6 @@ export function RecordPaymentDialog({
         }
 
         const currentRepayment = repaymentSnap.data();
-        const currentAmountPaid = Number(currentRepayment.amountPaid || 0);
-        const currentAmountDue = Number(currentRepayment.amountDue || 0);
         
         // Check if this payment transaction already exists (idempotency check)
         const paymentHistoryRef = doc(
@@ -103,12 +106,29 @@ export function RecordPaymentDialog({
           throw new Error('This payment has already been recorded');
         }
 
-        const newAmountPaid = currentAmountPaid + paymentAmount;
-        const isFullyPaid = newAmountPaid >= currentAmountDue;
+        // Split the payment across the installment's fees, penalties, interest and principal
+        const installment = toAllocationInstallment({ id: repaymentId, ...currentRepayment }, allocationConfig.order);
+        const allocation = allocatePayment(paymentAmount, [installment], allocationConfig);
+        if (allocation.excessAmount > 0) {
+          throw new Error(`Payment amount exceeds the amount due on this repayment by ${allocation.excessAmount.toLocaleString()}`);
+        }
+
+        const applied = allocation.totals;
+        const feePaid = installment.paid.fees + applied.fees;
+        const interestPaid = installment.paid.interest + applied.interest;
+        const principalPaid = installment.paid.principal + applied.principal;
+        const isFullyPaid = allocation.installments[0]?.settled ?? false;
 
         // Update repayment atomically
         transaction.update(repaymentRef, {
-          amountPaid: newAmountPaid,
+          principalDue: installment.due.principal,
+          interestDue: installment.due.interest,
+          feeDue: installment.due.fees,
+          feePaid,
+          penaltyPaid: installment.paid.penalties + applied.penalties,
+          interestPaid,
+          principalPaid,
+          amountPaid: Math.round((feePaid + interestPaid + principalPaid) * 100) / 100,
           status: isFullyPaid ? 'paid' : currentRepayment.status,
           paidAt: isFullyPaid ? serverTimestamp() : currentRepayment.paidAt,
           paymentMethod: paymentMethod || null,
@@ -121,6 +141,7 @@ export function RecordPaymentDialog({
         // Create payment history entry with transaction ID as document ID for idempotency
         const paymentHistoryData: any = {
           amount: paymentAmount,
+          allocation: applied,
           paymentMethod: paymentMethod || 'cash',
           recordedBy: user?.id || '',
           recordedAt: serverTimestamp(),
@@ -128,6 +149,22 @@ export function RecordPaymentDialog({
         };
         
         transaction.set(paymentHistoryRef, paymentHistoryData);
+
+        // Record the payment at loan level too, where the general ledger picks it up
+        const paymentRef = doc(db, 'agencies', agencyId, 'loans', loanId, 'payments', paymentTransactionId);
+        transaction.set(paymentRef, {
+          id: paymentTransactionId,
+          amount: paymentAmount,
+          paymentMethod: paymentMethod || 'cash',
+          paymentDate: Timestamp.now(),
+          recordedBy: user?.id || '',
+          recordedAt: serverTimestamp(),
+          transactionId: transactionId?.trim() || null,
+          type: 'scheduled',
+          allocation: applied,
+          allocationOrder: allocationConfig.order,
+          installments: [{ repaymentId, ...applied }],
+        });
       });
 
       // Create audit log
@@ -0,0 +1,276 @@
+/**
+ * Early Settlement Quote Dialog
+ *
+ * Quotes the payoff amount for a date, issues the dated quote as a PDF and,
+ * once the borrower pays, accepts it to close the loan
+ */
+
+import { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '../ui/dialog';
+import { Button } from '../ui/button';
+import { Label } from '../ui/label';
+import { Input } from '../ui/input';
+import { Textarea } from '../ui/textarea';
+import { Loader2, Download, CheckCircle2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../../hooks/useAuth';
+import { formatCurrency } from '../../lib/utils';
+import { UserRole } from '../../types/loan-workflow';
+import { downloadSettlementQuotePDF } from '../../lib/pdf-generator';
+import {
+  getSettlementQuote,
+  issueSettlementQuote,
+  acceptSettlementQuote,
+  type SettlementQuote,
+} from '../../lib/loans/settlement';
+
+const REBATE_METHOD_LABELS: Record<SettlementQuote['rebateMethod'], string> = {
+  none: 'No rebate',
+  rule_of_78s: 'Rule of 78s',
+  actuarial: 'Actuarial (interest accrued to date)',
+  fixed_penalty: 'Actuarial plus fixed penalty',
+};
+
+interface SettlementQuoteDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  loanId: string;
+  agencyId: string;
+  agencyName?: string;
+  customerName: string;
+  userRole: UserRole;
+  canClose: boolean;
+  onSuccess: () => void;
+}
+
+function parseDateInput(value: string): Date {
+  // Midday avoids the date shifting across time zones
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day, 12);
+}
+
+export function SettlementQuoteDialog({
+  open,
+  onOpenChange,
+  loanId,
+  agencyId,
+  agencyName,
+  customerName,
+  userRole,
+  canClose,
+  onSuccess,
+}: SettlementQuoteDialogProps) {
+  const { user } = useAuth();
+  const [settlementDate, setSettlementDate] = useState(new Date().toISOString().split('T')[0]);
+  const [issuedQuoteId, setIssuedQuoteId] = useState<string | null>(null);
+  const [paymentMethod, setPaymentMethod] = useState('cash');
+  const [transactionId, setTransactionId] = useState('');
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setIssuedQuoteId(null);
+      setTransactionId('');
+      setNotes('');
+    }
+  }, [open]);
+
+  // A new date needs a new quote
+  useEffect(() => {
+    setIssuedQuoteId(null);
+  }, [settlementDate]);
+
+  const { data: quote, isFetching: quoteLoading } = useQuery({
+    queryKey: ['settlement-quote', agencyId, loanId, settlementDate],
+    queryFn: () => getSettlementQuote(agencyId, loanId, parseDateInput(settlementDate)),
+    enabled: open && Boolean(settlementDate),
+  });
+
+  const handleIssue = async () => {
+    if (!user?.id) return;
+    setLoading(true);
+    try {
+      const result = await issueSettlementQuote({
+        loanId,
+        agencyId,
+        userId: user.id,
+        settlementDate: parseDateInput(settlementDate),
+      });
+      if (!result.success || !result.quote || !result.quoteId || !result.validUntil) {
+        toast.error(result.error || 'Failed to issue settlement quote');
+        return;
+      }
+
+      setIssuedQuoteId(result.quoteId);
+      const issued = result.quote;
+      await downloadSettlementQuotePDF({
+        quoteId: result.quoteId,
+        loanId,
+        customerName,
+        agencyName,
+        settlementDate: issued.settlementDate,
+        validUntil: result.validUntil,
+        rebateMethodLabel: REBATE_METHOD_LABELS[issued.rebateMethod],
+        arrears: issued.arrears.fees + issued.arrears.penalties + issued.arrears.interest + issued.arrears.principal,
+        principalNotYetDue: issued.principalNotYetDue,
+        feesNotYetDue: issued.feesNotYetDue,
+        contractualInterest: issued.contractualInterest,
+        interestCharged: issued.interestCharged,
+        rebate: issued.rebate,
+        penalty: issued.penalty,
+        payoffAmount: issued.payoffAmount,
+      });
+      toast.success('Settlement quote issued');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to download settlement quote');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAccept = async () => {
+    if (!user?.id || !issuedQuoteId) return;
+    setLoading(true);
+    try {
+      const result = await acceptSettlementQuote({
+        loanId,
+        agencyId,
+        quoteId: issuedQuoteId,
+        userId: user.id,
+        userRole,
+        paymentMethod,
+        transactionId,
+        notes,
+      });
+      if (result.success) {
+        toast.success('Loan settled and closed');
+        onOpenChange(false);
+        onSuccess();
+      } else {
+        toast.error(result.error || 'Failed to settle loan');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const arrearsTotal = quote
+    ? quote.arrears.fees + quote.arrears.penalties + quote.arrears.interest + quote.arrears.principal
+    : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Early Settlement</DialogTitle>
+          <DialogDescription>
+            Quote the amount needed to settle this loan in full on a date. Unearned interest is rebated per the agency's settlement rule.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div>
+            <Label htmlFor="settlementDate">Settlement Date *</Label>
+            <Input
+              id="settlementDate"
+              type="date"
+              value={settlementDate}
+              onChange={(e) => setSettlementDate(e.target.value)}
+              required
+              className="mt-2"
+            />
+          </div>
+
+          <div className="rounded-lg border border-neutral-200 dark:border-neutral-700 p-4 grid grid-cols-2 gap-2 text-sm">
+            {quoteLoading && !quote ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : quote && (
+              <>
+                <span className="text-muted-foreground">Arrears</span>
+                <span className="text-right">{formatCurrency(arrearsTotal)}</span>
+                <span className="text-muted-foreground">Principal not yet due</span>
+                <span className="text-right">{formatCurrency(quote.principalNotYetDue)}</span>
+                <span className="text-muted-foreground">Fees not yet due</span>
+                <span className="text-right">{formatCurrency(quote.feesNotYetDue)}</span>
+                <span className="text-muted-foreground">Scheduled interest</span>
+                <span className="text-right">{formatCurrency(quote.contractualInterest)}</span>
+                <span className="text-muted-foreground">Rebate ({REBATE_METHOD_LABELS[quote.rebateMethod]})</span>
+                <span className="text-right text-emerald-600">-{formatCurrency(quote.rebate)}</span>
+                {quote.penalty > 0 && (
+                  <>
+                    <span className="text-muted-foreground">Early settlement penalty</span>
+                    <span className="text-right">{formatCurrency(quote.penalty)}</span>
+                  </>
+                )}
+                <span className="text-muted-foreground font-semibold">Payoff amount</span>
+                <span className="text-right font-semibold">{formatCurrency(quote.payoffAmount)}</span>
+              </>
+            )}
+          </div>
+
+          {issuedQuoteId && canClose && (
+            <>
+              <div>
+                <Label htmlFor="settlementPaymentMethod">Payment Method *</Label>
+                <select
+                  id="settlementPaymentMethod"
+                  value={paymentMethod}
+                  onChange={(e) => setPaymentMethod(e.target.value)}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm mt-2"
+                >
+                  <option value="cash">Cash</option>
+                  <option value="bank_transfer">Bank Transfer</option>
+                  <option value="mobile_money">Mobile Money</option>
+                  <option value="check">Check</option>
+                  <option value="other">Other</option>
+                </select>
+              </div>
+
+              <div>
+                <Label htmlFor="settlementTransactionId">Transaction ID (Optional)</Label>
+                <Input
+                  id="settlementTransactionId"
+                  type="text"
+                  value={transactionId}
+                  onChange={(e) => setTransactionId(e.target.value)}
+                  placeholder="Enter transaction reference number"
+                  className="mt-2"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="settlementNotes">Notes (Optional)</Label>
+                <Textarea
+                  id="settlementNotes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  className="mt-2"
+                  rows={2}
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
+            Cancel
+          </Button>
+          {issuedQuoteId && canClose ? (
+            <Button type="button" onClick={handleAccept} disabled={loading}>
+              {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCircle2 className="mr-2 h-4 w-4" />}
+              Accept & Record Payment
+            </Button>
+          ) : (
+            <Button type="button" onClick={handleIssue} disabled={loading || !quote || quote.payoffAmount <= 0}>
+              {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+              Issue Quote PDF
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -18,7 +18,9 @@ import { formatCurrency, formatDateSafe } from '../../lib/utils';
 import { AddPaymentDialog } from '../payment/AddPaymentDialog';
 import { useState } from 'react';
 import { motion } from 'framer-motion';
-import { calculateLoanFinancials } from '../../lib/firebase/loan-calculations';
+import { calculateLoanFinancials, getLoanScheduleOptions } from '../../lib/firebase/loan-calculations';
+import { getAgencyInterestMethod } from '../../lib/firebase/loan-settings';
+import { useAgency } from '../../hooks/useAgency';
 import { Skeleton } from '../ui/skeleton';
 
 interface RepaymentSectionProps {
@@ -40,6 +42,7 @@ interface PaymentHistoryEntry {
 export function RepaymentSection({ loan, agencyId }: RepaymentSectionProps) {
   const [paymentDialogOpen, setPaymentDialogOpen] = useState(false);
   const queryClient = useQueryClient();
+  const { agency } = useAgency();
   const [paymentHistory, setPaymentHistory] = useState<PaymentHistoryEntry[]>([]);
   const [historyLoading, setHistoryLoading] = useState(true);
 
@@ -224,7 +227,7 @@ export function RepaymentSection({ loan, agencyId }: RepaymentSectionProps) {
   const principal = Number(loan?.amount || 0);
   const interestRate = Number(loan?.interestRate || 0);
   const durationMonths = Number(loan?.durationMonths || 0);
-  const financials = calculateLoanFinancials(principal, interestRate, durationMonths);
+  const financials = calculateLoanFinancials(principal, interestRate, durationMonths, getLoanScheduleOptions(loan, getAgencyInterestMethod(agency)));
 
   // Calculate totals - use loan's calculated values if available, otherwise calculate
   const totalPaid = loan?.totalPaid !== undefined 
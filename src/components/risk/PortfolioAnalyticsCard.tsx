@@ -0,0 +1,346 @@
+/**
+ * Portfolio Analytics Card Component
+ * Balance-weighted PAR over time and by segment, roll rates between
+ * delinquency buckets and vintage curves by disbursement cohort, all read from
+ * the nightly portfolio snapshots
+ */
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Label } from '../ui/label';
+import { Select } from '../ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Loader2 } from 'lucide-react';
+import { formatCurrency } from '../../lib/utils';
+import {
+  getPortfolioSnapshots,
+  getRollRates,
+  getSegmentNames,
+  getVintageCurves,
+  type PortfolioDimension,
+  type PortfolioSnapshotSummary,
+} from '../../lib/analytics/portfolio-analytics';
+import {
+  DELINQUENCY_BUCKET_LABELS,
+  DELINQUENCY_BUCKETS,
+  UNASSIGNED_SEGMENT,
+  type DelinquencyBucket,
+  type ParRatios,
+  type VintagePoint,
+} from '../../../packages/loan-rules/src/portfolio-analytics';
+
+interface PortfolioAnalyticsCardProps {
+  agencyId: string;
+}
+
+const DIMENSION_LABELS: Record<PortfolioDimension, string> = {
+  loanType: 'Loan type',
+  branchId: 'Branch',
+  officerId: 'Loan officer',
+};
+
+const SEGMENTS_BY_DIMENSION: Record<PortfolioDimension, keyof PortfolioSnapshotSummary> = {
+  loanType: 'byLoanType',
+  branchId: 'byBranch',
+  officerId: 'byOfficer',
+};
+
+const PAR_SERIES: Array<{ key: keyof ParRatios; label: string; color: string }> = [
+  { key: 'par1', label: 'PAR1', color: '#f59e0b' },
+  { key: 'par30', label: 'PAR30', color: '#f97316' },
+  { key: 'par60', label: 'PAR60', color: '#ef4444' },
+  { key: 'par90', label: 'PAR90', color: '#991b1b' },
+];
+
+const VINTAGE_METRICS: Record<'lossRatio' | 'par30Ratio' | 'writtenOffRatio', string> = {
+  lossRatio: 'PAR30 + written off',
+  par30Ratio: 'PAR30',
+  writtenOffRatio: 'Written off',
+};
+
+// Roll-rate columns: every bucket a loan can end up in
+const ROLL_TARGETS: DelinquencyBucket[] = [...DELINQUENCY_BUCKETS, 'closed'];
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function EmptySnapshots() {
+  return (
+    <p className="text-sm text-neutral-500">
+      No portfolio snapshots yet. The loan book is snapshot every night, so trends appear from tomorrow.
+    </p>
+  );
+}
+
+export function PortfolioAnalyticsCard({ agencyId }: PortfolioAnalyticsCardProps) {
+  const [trendDays, setTrendDays] = useState(90);
+  const [segmentDimension, setSegmentDimension] = useState<PortfolioDimension>('loanType');
+  const [rollDays, setRollDays] = useState(30);
+  const [vintageDimension, setVintageDimension] = useState<PortfolioDimension | 'all'>('all');
+  const [vintageMetric, setVintageMetric] = useState<keyof typeof VINTAGE_METRICS>('lossRatio');
+
+  const { data: snapshots = [], isLoading } = useQuery({
+    queryKey: ['portfolio-snapshots', agencyId, trendDays],
+    queryFn: () => getPortfolioSnapshots(agencyId, trendDays),
+    enabled: !!agencyId,
+  });
+
+  const { data: rollRates, isLoading: rollRatesLoading } = useQuery({
+    queryKey: ['portfolio-roll-rates', agencyId, rollDays],
+    queryFn: () => getRollRates(agencyId, rollDays),
+    enabled: !!agencyId,
+  });
+
+  const { data: vintages = [], isLoading: vintagesLoading } = useQuery({
+    queryKey: ['portfolio-vintages', agencyId, vintageDimension],
+    queryFn: () => getVintageCurves(agencyId, vintageDimension),
+    enabled: !!agencyId,
+  });
+
+  const { data: segmentNames } = useQuery({
+    queryKey: ['portfolio-segment-names', agencyId],
+    queryFn: () => getSegmentNames(agencyId),
+    enabled: !!agencyId,
+  });
+
+  const latest = snapshots[snapshots.length - 1];
+  const segmentName = (dimension: PortfolioDimension | 'all', segment: string) => {
+    if (dimension === 'all') return 'All loans';
+    if (segment === UNASSIGNED_SEGMENT) return 'Unassigned';
+    return segmentNames?.[dimension][segment] || segment;
+  };
+
+  const segments = latest
+    ? Object.entries(latest[SEGMENTS_BY_DIMENSION[segmentDimension]] as PortfolioSnapshotSummary['byLoanType'])
+        .sort(([, a], [, b]) => b.principalOutstanding - a.principalOutstanding)
+    : [];
+
+  const trendData = snapshots.map((snapshot) => ({
+    date: snapshot.date,
+    ...Object.fromEntries(PAR_SERIES.map(({ key }) => [key, Number((snapshot.par[key] * 100).toFixed(2))])),
+  }));
+
+  const maxMonthsOnBook = vintages.reduce(
+    (max, curve) => Math.max(max, ...curve.points.map((point) => point.monthsOnBook)),
+    0
+  );
+  const monthsOnBook = Array.from({ length: Math.min(maxMonthsOnBook, 24) + 1 }, (_, index) => index);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Portfolio at Risk</CardTitle>
+        <CardDescription>
+          Balance-weighted PAR trends, roll rates and vintage curves from the nightly snapshots of the loan book
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Loader2 className="w-5 h-5 animate-spin" />
+        ) : !latest ? (
+          <EmptySnapshots />
+        ) : (
+          <Tabs defaultValue="trend">
+            <TabsList>
+              <TabsTrigger value="trend">PAR Trend</TabsTrigger>
+              <TabsTrigger value="segments">By Segment</TabsTrigger>
+              <TabsTrigger value="roll-rates">Roll Rates</TabsTrigger>
+              <TabsTrigger value="vintages">Vintages</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="trend" className="space-y-4 mt-4">
+              <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4 flex-1">
+                  <div>
+                    <p className="text-sm text-neutral-500">Outstanding ({latest.date})</p>
+                    <p className="text-lg font-semibold">{formatCurrency(latest.principalOutstanding)}</p>
+                    <p className="text-xs text-neutral-500">{latest.loanCount} loans</p>
+                  </div>
+                  {PAR_SERIES.map(({ key, label }) => (
+                    <div key={key}>
+                      <p className="text-sm text-neutral-500">{label}</p>
+                      <p className="text-lg font-semibold">{formatPercent(latest.par[key])}</p>
+                    </div>
+                  ))}
+                </div>
+                <div>
+                  <Label>Period</Label>
+                  <Select value={String(trendDays)} onChange={(e) => setTrendDays(Number(e.target.value))}>
+                    <option value="30">Last 30 days</option>
+                    <option value="90">Last 90 days</option>
+                    <option value="365">Last 12 months</option>
+                  </Select>
+                </div>
+              </div>
+              <ResponsiveContainer width="100%" height={300}>
+                <LineChart data={trendData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#E5E7EB" />
+                  <XAxis dataKey="date" />
+                  <YAxis unit="%" />
+                  <Tooltip formatter={(value: number) => `${value}%`} />
+                  <Legend />
+                  {PAR_SERIES.map(({ key, label, color }) => (
+                    <Line key={key} type="monotone" dataKey={key} name={label} stroke={color} dot={false} />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </TabsContent>
+
+            <TabsContent value="segments" className="space-y-4 mt-4">
+              <div className="w-48">
+                <Label>Segment by</Label>
+                <Select value={segmentDimension} onChange={(e) => setSegmentDimension(e.target.value as PortfolioDimension)}>
+                  {Object.entries(DIMENSION_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </Select>
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{DIMENSION_LABELS[segmentDimension]}</TableHead>
+                    <TableHead className="text-right">Loans</TableHead>
+                    <TableHead className="text-right">Outstanding</TableHead>
+                    {PAR_SERIES.map(({ key, label }) => (
+                      <TableHead key={key} className="text-right">{label}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {segments.map(([segment, totals]) => (
+                    <TableRow key={segment}>
+                      <TableCell>{segmentName(segmentDimension, segment)}</TableCell>
+                      <TableCell className="text-right">{totals.loanCount}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(totals.principalOutstanding)}</TableCell>
+                      {PAR_SERIES.map(({ key }) => (
+                        <TableCell key={key} className="text-right">{formatPercent(totals.par[key])}</TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TabsContent>
+
+            <TabsContent value="roll-rates" className="space-y-4 mt-4">
+              <div className="w-48">
+                <Label>Over</Label>
+                <Select value={String(rollDays)} onChange={(e) => setRollDays(Number(e.target.value))}>
+                  <option value="7">7 days</option>
+                  <option value="30">30 days</option>
+                  <option value="90">90 days</option>
+                </Select>
+              </div>
+              {rollRatesLoading ? (
+                <Loader2 className="w-5 h-5 animate-spin" />
+              ) : !rollRates ? (
+                <p className="text-sm text-neutral-500">Roll rates need at least two snapshots.</p>
+              ) : (
+                <>
+                  <p className="text-sm text-neutral-500">
+                    Share of each bucket's principal on {rollRates.fromDate} by where it stood on {rollRates.toDate}
+                  </p>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>From</TableHead>
+                        <TableHead className="text-right">Principal</TableHead>
+                        {ROLL_TARGETS.map((bucket) => (
+                          <TableHead key={bucket} className="text-right">{DELINQUENCY_BUCKET_LABELS[bucket]}</TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rollRates.rows.map((row) => (
+                        <TableRow key={row.from}>
+                          <TableCell className="font-medium">{DELINQUENCY_BUCKET_LABELS[row.from]}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(row.principal)}</TableCell>
+                          {ROLL_TARGETS.map((bucket) => (
+                            <TableCell key={bucket} className="text-right">
+                              {row.principal > 0 ? formatPercent(row.to[bucket].rate) : '-'}
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </>
+              )}
+            </TabsContent>
+
+            <TabsContent value="vintages" className="space-y-4 mt-4">
+              <div className="flex gap-4">
+                <div className="w-48">
+                  <Label>Segment by</Label>
+                  <Select
+                    value={vintageDimension}
+                    onChange={(e) => setVintageDimension(e.target.value as PortfolioDimension | 'all')}
+                  >
+                    <option value="all">Whole book</option>
+                    {Object.entries(DIMENSION_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </Select>
+                </div>
+                <div className="w-48">
+                  <Label>Measure</Label>
+                  <Select
+                    value={vintageMetric}
+                    onChange={(e) => setVintageMetric(e.target.value as keyof typeof VINTAGE_METRICS)}
+                  >
+                    {Object.entries(VINTAGE_METRICS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </Select>
+                </div>
+              </div>
+              {vintagesLoading ? (
+                <Loader2 className="w-5 h-5 animate-spin" />
+              ) : vintages.length === 0 ? (
+                <p className="text-sm text-neutral-500">Vintage curves start from the first month-end snapshot.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Cohort</TableHead>
+                        {vintageDimension !== 'all' && <TableHead>{DIMENSION_LABELS[vintageDimension]}</TableHead>}
+                        <TableHead className="text-right">Disbursed</TableHead>
+                        {monthsOnBook.map((month) => (
+                          <TableHead key={month} className="text-right">M{month}</TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {vintages.map((curve) => {
+                        const byMonth = new Map<number, VintagePoint>(curve.points.map((point) => [point.monthsOnBook, point]));
+                        return (
+                          <TableRow key={`${curve.cohort}-${curve.segment}`}>
+                            <TableCell className="font-medium">{curve.cohort}</TableCell>
+                            {vintageDimension !== 'all' && <TableCell>{segmentName(vintageDimension, curve.segment)}</TableCell>}
+                            <TableCell className="text-right">{formatCurrency(curve.disbursedAmount)}</TableCell>
+                            {monthsOnBook.map((month) => {
+                              const point = byMonth.get(month);
+                              return (
+                                <TableCell key={month} className="text-right">
+                                  {point ? formatPercent(point[vintageMetric]) : ''}
+                                </TableCell>
+                              );
+                            })}
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -10,6 +10,7 @@ import { Textarea } from '../../../components/ui/textarea';
 import { Loader2, Upload, X } from 'lucide-react';
 import { useAuth } from '../../../hooks/useAuth';
 import { createCollateral } from '../../../lib/firebase/firestore-helpers';
+import { addPledgedCollateral } from '../../../lib/firebase/collateral-liens';
 import { uploadCollateralPhoto } from '../../../lib/firebase/storage-helpers';
 import toast from 'react-hot-toast';
 import { useQuery } from '@tanstack/react-query';
@@ -26,6 +27,8 @@ const collateralSchema = z.object({
   model: z.string().optional(),
   year: z.string().optional(),
   serialNumber: z.string().optional(),
+  registrationNumber: z.string().optional(),
+  titleNumber: z.string().optional(),
   condition: z.enum(['excellent', 'good', 'fair', 'poor']).optional(),
   location: z.string().optional(),
   customerId: z.string().optional(),
@@ -129,9 +132,9 @@ export function AddCollateralDrawer({
         }
       }
 
-      // If linked to a loan, use addCollateral which updates both loan subcollection and registry
+      // If linked to a loan, pledge it: creates it in the loan subcollection and registry and registers the lien
       if (data.loanId) {
-        await addCollateral(profile.agency_id, data.loanId, {
+        const pledged = await addPledgedCollateral(profile.agency_id, data.loanId, {
           type: data.type as any,
           name: data.name,
           description: data.description,
@@ -141,9 +144,14 @@ export function AddCollateralDrawer({
           model: data.model || undefined,
           year: data.year ? parseInt(data.year) : undefined,
           serialNumber: data.serialNumber || undefined,
+          registrationNumber: data.registrationNumber || undefined,
+          titleNumber: data.titleNumber || undefined,
           condition: data.condition || 'good',
           location: data.location || undefined,
-        });
+        }, user.id);
+        if (pledged.flagged) {
+          toast('This asset already secures another loan. The pledge is flagged for review.', { icon: '⚠️' });
+        }
       } else {
         // Create collateral in registry (standalone)
         await createCollateral(profile.agency_id, {
@@ -156,6 +164,8 @@ export function AddCollateralDrawer({
           model: data.model || undefined,
           year: data.year ? parseInt(data.year) : undefined,
           serialNumber: data.serialNumber || undefined,
+          registrationNumber: data.registrationNumber || undefined,
+          titleNumber: data.titleNumber || undefined,
           condition: data.condition || 'good',
           location: data.location || undefined,
           ownerCustomerId: data.customerId || undefined,
@@ -301,12 +311,32 @@ export function AddCollateralDrawer({
                 <Label htmlFor="serialNumber">Serial Number (Optional)</Label>
                 <Input
                   id="serialNumber"
-                  placeholder="Serial/Registration number"
+                  placeholder="Serial/chassis number"
                   {...register('serialNumber')}
                 />
               </div>
             </div>
 
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="registrationNumber">Registration Number (Optional)</Label>
+                <Input
+                  id="registrationNumber"
+                  placeholder="e.g., ABC 1234"
+                  {...register('registrationNumber')}
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="titleNumber">Title Deed Number (Optional)</Label>
+                <Input
+                  id="titleNumber"
+                  placeholder="e.g., LUS/1234"
+                  {...register('titleNumber')}
+                />
+              </div>
+            </div>
+
             <div>
               <Label htmlFor="location">Location (Optional)</Label>
               <Input
@@ -58,6 +58,7 @@ import {
   ExternalLink,
   Sparkles,
   Shield,
+  FlaskConical,
   ClipboardList,
   AlertCircle,
   DollarSign,
@@ -238,6 +239,7 @@ export function AdminLayout() {
   const systemNav = useMemo(() => [
     { id: 'activity-logs', label: 'Activity Logs', icon: ClipboardList, path: '/admin/activity-logs' },
     { id: 'compliance', label: 'Compliance', icon: Shield, path: '/admin/compliance' },
+    { id: 'credit-policy', label: 'Policy Simulation', icon: FlaskConical, path: '/admin/credit-policy/simulation' },
     { id: 'data-management', label: 'Data Management', icon: Folder, path: '/admin/data-management' },
     { id: 'marketplace', label: 'Marketplace Leads', icon: Store, path: '/admin/marketplace/leads' },
     { id: 'settings', label: 'Settings', icon: Settings, path: '/admin/settings' },
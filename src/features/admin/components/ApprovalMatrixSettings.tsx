@@ -0,0 +1,254 @@
+/**
+ * Approval Matrix Settings Component
+ * Lets agencies configure who must sign off a loan by amount and loan type
+ */
+
+import { useState, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../../components/ui/card';
+import { Button } from '../../../components/ui/button';
+import { Input } from '../../../components/ui/input';
+import { Label } from '../../../components/ui/label';
+import { Switch } from '../../../components/ui/switch';
+import { Loader2, Plus, Save, ShieldCheck, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAgency } from '../../../hooks/useAgency';
+import { getApprovalMatrix, saveApprovalMatrix } from '../../../lib/firebase/approval-matrix';
+import { getEnabledLoanTypes } from '../../../lib/firebase/loan-type-config';
+import { APPROVER_ROLE_LABELS } from '../../../lib/loans/approvals';
+import {
+  APPROVER_ROLES,
+  type ApprovalMatrix,
+  type ApprovalTier,
+  type ApproverRole,
+} from '../../../../packages/loan-rules/src/approval-matrix';
+
+export function ApprovalMatrixSettings() {
+  const { agency } = useAgency();
+  const queryClient = useQueryClient();
+  const [matrix, setMatrix] = useState<ApprovalMatrix | null>(null);
+
+  const { data: savedMatrix, isLoading } = useQuery({
+    queryKey: ['approvalMatrix', agency?.id],
+    queryFn: () => getApprovalMatrix(agency!.id),
+    enabled: !!agency?.id,
+  });
+
+  const { data: loanTypes = [] } = useQuery({
+    queryKey: ['enabledLoanTypes', agency?.id],
+    queryFn: () => getEnabledLoanTypes(agency!.id),
+    enabled: !!agency?.id,
+  });
+
+  useEffect(() => {
+    if (savedMatrix) {
+      setMatrix(savedMatrix);
+    }
+  }, [savedMatrix]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (updated: ApprovalMatrix) => {
+      if (!agency?.id) throw new Error('Agency not found');
+      await saveApprovalMatrix(agency.id, updated);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['approvalMatrix', agency?.id] });
+      queryClient.invalidateQueries({ queryKey: ['pending-approvals'] });
+      toast.success('Approval matrix saved');
+    },
+    onError: (error: any) => {
+      toast.error(error.message || 'Failed to save approval matrix');
+    },
+  });
+
+  if (isLoading || !matrix) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const updateTier = (index: number, updates: Partial<ApprovalTier>) => {
+    setMatrix({
+      ...matrix,
+      tiers: matrix.tiers.map((tier, i) => (i === index ? { ...tier, ...updates } : tier)),
+    });
+  };
+
+  const toggleTierLoanType = (index: number, loanTypeId: string) => {
+    const current = matrix.tiers[index].loanTypes || [];
+    updateTier(index, {
+      loanTypes: current.includes(loanTypeId)
+        ? current.filter((id) => id !== loanTypeId)
+        : [...current, loanTypeId],
+    });
+  };
+
+  const handleSave = () => {
+    const invalid = matrix.tiers.find((tier) => tier.requirements.every((r) => r.count <= 0));
+    if (invalid) {
+      toast.error('Every tier needs at least one required approver');
+      return;
+    }
+    saveMutation.mutate(matrix);
+  };
+
+  return (
+    <Card className="rounded-2xl border border-neutral-200/50 dark:border-neutral-800/50 shadow-[0_8px_30px_rgb(0,0,0,0.06)] dark:shadow-[0_8px_30px_rgb(0,0,0,0.4)] bg-white dark:bg-[#1E293B]">
+      <CardHeader className="pb-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg font-semibold text-neutral-900 dark:text-neutral-100 flex items-center gap-2">
+              <ShieldCheck className="w-5 h-5 text-[#006BFF]" />
+              Approval Matrix
+            </CardTitle>
+            <CardDescription className="text-sm text-neutral-600 dark:text-neutral-400 mt-1">
+              Who must sign off a loan before it is approved. The officer who originated a loan can never approve it,
+              and senior roles can sign in place of junior ones. Loan-type tiers take precedence over general tiers.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="approvalMatrixEnabled" className="text-sm">Enabled</Label>
+            <Switch
+              id="approvalMatrixEnabled"
+              checked={matrix.enabled}
+              onCheckedChange={(checked) => setMatrix({ ...matrix, enabled: checked })}
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!matrix.enabled && (
+          <p className="text-sm text-neutral-500">
+            With the matrix disabled, any single approver other than the originating officer can approve a loan.
+          </p>
+        )}
+
+        {matrix.tiers.map((tier, index) => (
+          <div key={index} className="rounded-xl border border-neutral-200 dark:border-neutral-700 p-4 space-y-3">
+            <div className="flex items-end gap-3">
+              <div className="flex-1">
+                <Label className="text-xs text-neutral-500">Up to amount (blank for no limit)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={tier.maxAmount ?? ''}
+                  onChange={(e) => updateTier(index, {
+                    maxAmount: e.target.value === '' ? null : Number(e.target.value),
+                  })}
+                  className="mt-1"
+                />
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setMatrix({ ...matrix, tiers: matrix.tiers.filter((_, i) => i !== index) })}
+                disabled={matrix.tiers.length <= 1}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+
+            {loanTypes.length > 0 && (
+              <div>
+                <Label className="text-xs text-neutral-500">Loan types (none selected applies to all)</Label>
+                <div className="flex flex-wrap gap-3 mt-1">
+                  {loanTypes.map((loanType) => (
+                    <label key={loanType.id} className="flex items-center gap-1.5 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={(tier.loanTypes || []).includes(loanType.id)}
+                        onChange={() => toggleTierLoanType(index, loanType.id)}
+                      />
+                      {loanType.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label className="text-xs text-neutral-500">Required approvers</Label>
+              {tier.requirements.map((requirement, reqIndex) => (
+                <div key={reqIndex} className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min={1}
+                    value={requirement.count}
+                    onChange={(e) => updateTier(index, {
+                      requirements: tier.requirements.map((r, i) =>
+                        i === reqIndex ? { ...r, count: Math.max(0, Math.floor(Number(e.target.value) || 0)) } : r
+                      ),
+                    })}
+                    className="w-20"
+                  />
+                  <select
+                    value={requirement.role}
+                    onChange={(e) => updateTier(index, {
+                      requirements: tier.requirements.map((r, i) =>
+                        i === reqIndex ? { ...r, role: e.target.value as ApproverRole } : r
+                      ),
+                    })}
+                    className="flex h-10 flex-1 rounded-md border border-input bg-background px-3 py-2 text-sm"
+                  >
+                    {APPROVER_ROLES.map((role) => (
+                      <option key={role} value={role}>{APPROVER_ROLE_LABELS[role]}</option>
+                    ))}
+                  </select>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateTier(index, {
+                      requirements: tier.requirements.filter((_, i) => i !== reqIndex),
+                    })}
+                    disabled={tier.requirements.length <= 1}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => updateTier(index, {
+                  requirements: [...tier.requirements, { role: 'manager', count: 1 }],
+                })}
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add approver
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        <div className="flex items-center justify-between">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setMatrix({
+              ...matrix,
+              tiers: [...matrix.tiers, { maxAmount: null, loanTypes: [], requirements: [{ role: 'manager', count: 1 }] }],
+            })}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Tier
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="w-4 h-4 mr-2" />
+            )}
+            Save Approval Matrix
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -14,6 +14,7 @@ import { approveLoan, rejectLoan } from '../../../lib/loans/workflow';
 import { LoanStatus, UserRole } from '../../../types/loan-workflow';
 import toast from 'react-hot-toast';
 import { useAuth } from '../../../hooks/useAuth';
+import { formatApprovalRequirements } from '../../../lib/loans/approvals';
 
 interface LoanApprovalDialogProps {
   open: boolean;
@@ -52,6 +53,8 @@ export function LoanApprovalDialog({
 
   const userRole = (profile?.role === 'admin' ? UserRole.ADMIN : 
                    profile?.employee_category === 'accountant' ? UserRole.ACCOUNTANT :
+                   profile?.employee_category === 'manager' ? UserRole.MANAGER :
+                   profile?.employee_category === 'underwriter' ? UserRole.UNDERWRITER :
                    UserRole.LOAN_OFFICER) as UserRole;
 
   const handleSubmit = async () => {
@@ -67,7 +70,7 @@ export function LoanApprovalDialog({
 
     setLoading(true);
     try {
-      let result;
+      let result: Awaited<ReturnType<typeof approveLoan>>;
       if (action === 'approve') {
         result = await approveLoan(loanId, agencyId, user.id, userRole, notes);
       } else {
@@ -75,7 +78,11 @@ export function LoanApprovalDialog({
       }
 
       if (result.success) {
-        toast.success(`Loan ${action === 'approve' ? 'approved' : 'rejected'} successfully`);
+        if (result.awaitingApprovals) {
+          toast.success(`Approval signed. Still needed: ${formatApprovalRequirements(result.awaitingApprovals)}`);
+        } else {
+          toast.success(`Loan ${action === 'approve' ? 'approved' : 'rejected'} successfully`);
+        }
         setNotes('');
         setAction(null);
         onOpenChange(false);
@@ -1,15 +1,15 @@
-import { useState } from 'react';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { doc, updateDoc, serverTimestamp } from 'firebase/firestore';
-import { db } from '../../../lib/firebase/config';
+import { useState, useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '../../../components/ui/dialog';
 import { Button } from '../../../components/ui/button';
 import { Label } from '../../../components/ui/label';
 import { Textarea } from '../../../components/ui/textarea';
 import { Loader2 } from 'lucide-react';
 import toast from 'react-hot-toast';
-import { createAuditLog } from '../../../lib/firebase/firestore-helpers';
 import { useAuth } from '../../../hooks/useAuth';
+import { changeLoanStatus } from '../../../lib/loans/workflow';
+import { formatApprovalRequirements } from '../../../lib/loans/approvals';
+import { LoanStatus, UserRole, getNextValidStatuses } from '../../../types/loan-workflow';
 
 interface LoanStatusDialogProps {
   open: boolean;
@@ -17,94 +17,75 @@ interface LoanStatusDialogProps {
   loanId: string;
   currentStatus: string;
   agencyId: string;
+  userRole: UserRole;
 }
 
-export function LoanStatusDialog({ open, onOpenChange, loanId, currentStatus, agencyId }: LoanStatusDialogProps) {
+const STATUS_DESCRIPTIONS: Record<LoanStatus, { label: string; description: string }> = {
+  [LoanStatus.DRAFT]: { label: 'Draft', description: 'Application being prepared' },
+  [LoanStatus.PENDING]: { label: 'Pending', description: 'Awaiting approval' },
+  [LoanStatus.UNDER_REVIEW]: { label: 'Under Review', description: 'Application being reviewed' },
+  [LoanStatus.APPROVED]: { label: 'Approved', description: 'Loan approved, ready for disbursement' },
+  [LoanStatus.REJECTED]: { label: 'Rejected', description: 'Loan application rejected' },
+  [LoanStatus.DISBURSED]: { label: 'Disbursed', description: 'Funds released to the borrower' },
+  [LoanStatus.ACTIVE]: { label: 'Active', description: 'Loan is active and being repaid' },
+  [LoanStatus.OVERDUE]: { label: 'Overdue', description: 'Repayments are behind schedule' },
+  [LoanStatus.RESTRUCTURING]: { label: 'Restructuring', description: 'Restructure requested' },
+  [LoanStatus.RESTRUCTURED]: { label: 'Restructured', description: 'Repaying on a restructured schedule' },
+  [LoanStatus.DEFAULTED]: { label: 'Defaulted', description: 'Arrears passed the default threshold' },
+  [LoanStatus.WRITTEN_OFF]: { label: 'Written Off', description: 'Balance written off; recoveries still tracked' },
+  [LoanStatus.CLOSED]: { label: 'Closed', description: 'Loan fully repaid and closed' },
+};
+
+export function LoanStatusDialog({ open, onOpenChange, loanId, currentStatus, agencyId, userRole }: LoanStatusDialogProps) {
   const { user } = useAuth();
   const queryClient = useQueryClient();
-  const [newStatus, setNewStatus] = useState(currentStatus);
+  // Only the moves the state machine allows for this role are offered
+  const statusOptions = getNextValidStatuses(currentStatus as LoanStatus, userRole);
+  const [newStatus, setNewStatus] = useState<string>(statusOptions[0] || currentStatus);
   const [notes, setNotes] = useState('');
   const [loading, setLoading] = useState(false);
 
-  const statusOptions = [
-    { value: 'pending', label: 'Pending', description: 'Awaiting approval' },
-    { value: 'approved', label: 'Approved', description: 'Loan approved, ready for disbursement' },
-    { value: 'active', label: 'Active', description: 'Loan is active and being repaid' },
-    { value: 'completed', label: 'Completed', description: 'Loan fully repaid' },
-    { value: 'defaulted', label: 'Defaulted', description: 'Loan in default' },
-    { value: 'rejected', label: 'Rejected', description: 'Loan application rejected' },
-    { value: 'cancelled', label: 'Cancelled', description: 'Loan cancelled' },
-  ];
+  useEffect(() => {
+    if (open) {
+      setNewStatus(statusOptions[0] || currentStatus);
+    }
+  }, [open, currentStatus, userRole]);
 
   const handleStatusChange = async () => {
     if (newStatus === currentStatus) {
       toast('Status is already set to this value', { icon: 'ℹ️' });
       return;
     }
+    if (!user?.id) {
+      toast.error('You must be signed in to change loan status');
+      return;
+    }
 
     setLoading(true);
     
-    // Optimistic update - immediately update the cache
-    const previousLoanData = queryClient.getQueryData(['loan', agencyId, loanId]);
-    const previousLoansData = queryClient.getQueryData(['loans', agencyId]);
-    
-    // Optimistically update the individual loan query
-    queryClient.setQueryData(['loan', agencyId, loanId], (old: any) => {
-      if (!old) return old;
-      return {
-        ...old,
-        status: newStatus,
-        statusNotes: notes || null,
-        statusUpdatedAt: new Date(),
-        statusUpdatedBy: user?.id || null,
-        updatedAt: new Date(),
-      };
-    });
-    
-    // Optimistically update the loans list query
-    queryClient.setQueryData(['loans', agencyId], (old: any[]) => {
-      if (!old) return old;
-      return old.map((loan: any) => 
-        loan.id === loanId 
-          ? { 
-              ...loan, 
-              status: newStatus, 
-              statusNotes: notes || null,
-              statusUpdatedAt: new Date(),
-              updatedAt: new Date(),
-            } 
-          : loan
-      );
-    });
-    
-    // Close dialog immediately for better UX
-    onOpenChange(false);
-    toast.success('Loan status updated successfully');
-    
     try {
-      const loanRef = doc(db, 'agencies', agencyId, 'loans', loanId);
-      await updateDoc(loanRef, {
-        status: newStatus,
-        statusNotes: notes || null,
-        statusUpdatedAt: serverTimestamp(),
-        statusUpdatedBy: user?.id || null,
-        updatedAt: serverTimestamp(),
+      const result = await changeLoanStatus({
+        loanId,
+        agencyId,
+        newStatus: newStatus as LoanStatus,
+        userId: user.id,
+        userRole,
+        notes: notes || undefined,
       });
 
-      // Create audit log (don't block on this)
-      createAuditLog(agencyId, {
-        actorId: user?.id || '',
-        action: 'update_loan_status',
-        targetCollection: 'loans',
-        targetId: loanId,
-        metadata: {
-          oldStatus: currentStatus,
-          newStatus,
-          notes,
-        },
-      }).catch(() => {
-        // Ignore audit log errors
-      });
+      if (!result.success) {
+        toast.error(result.error || 'Failed to update loan status');
+        return;
+      }
+
+      if (result.awaitingApprovals) {
+        toast.success(`Approval signed. Still needed: ${formatApprovalRequirements(result.awaitingApprovals)}`);
+      } else {
+        toast.success('Loan status updated successfully');
+      }
+      if (result.releasedLienIds?.length) {
+        toast.success(`${result.releasedLienIds.length} collateral lien(s) released. Release letters are on the collateral page.`);
+      }
 
       // Comprehensive cache invalidation
       queryClient.invalidateQueries({ queryKey: ['loans'] }); // All loan queries
@@ -113,27 +94,12 @@ export function LoanStatusDialog({ open, onOpenChange, loanId, currentStatus, ag
       queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] }); // Dashboard stats
       queryClient.invalidateQueries({ queryKey: ['ai-analysis-data'] }); // AI insights data
       queryClient.invalidateQueries({ queryKey: ['ai_insights'] }); // AI insights
+      queryClient.invalidateQueries({ queryKey: ['collateral-liens'] }); // Liens released on close
       setNotes('');
+      onOpenChange(false);
     } catch (error: any) {
       console.error('Error updating loan status:', error);
-      
-      // Provide more specific error messages
-      let errorMessage = 'Failed to update loan status';
-      if (error?.code === 'permission-denied') {
-        errorMessage = 'You do not have permission to update this loan status. Please contact an administrator.';
-      } else if (error?.message) {
-        errorMessage = error.message;
-      }
-      
-      toast.error(errorMessage);
-      
-      // Rollback optimistic update on error
-      if (previousLoanData) {
-        queryClient.setQueryData(['loan', agencyId, loanId], previousLoanData);
-      }
-      if (previousLoansData) {
-        queryClient.setQueryData(['loans', agencyId], previousLoansData);
-      }
+      toast.error(error?.message || 'Failed to update loan status');
     } finally {
       setLoading(false);
     }
@@ -152,18 +118,24 @@ export function LoanStatusDialog({ open, onOpenChange, loanId, currentStatus, ag
         <div className="space-y-4 py-4">
           <div>
             <Label htmlFor="status">New Status *</Label>
-            <select
-              id="status"
-              value={newStatus}
-              onChange={(e) => setNewStatus(e.target.value)}
-              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm mt-2"
-            >
-              {statusOptions.map((option) => (
-                <option key={option.value} value={option.value}>
-                  {option.label} - {option.description}
-                </option>
-              ))}
-            </select>
+            {statusOptions.length === 0 ? (
+              <p className="text-sm text-muted-foreground mt-2">
+                Your role cannot move this loan out of its current status.
+              </p>
+            ) : (
+              <select
+                id="status"
+                value={newStatus}
+                onChange={(e) => setNewStatus(e.target.value)}
+                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm mt-2"
+              >
+                {statusOptions.map((status) => (
+                  <option key={status} value={status}>
+                    {STATUS_DESCRIPTIONS[status].label} - {STATUS_DESCRIPTIONS[status].description}
+                  </option>
+                ))}
+              </select>
+            )}
           </div>
 
           <div>
@@ -183,7 +155,7 @@ export function LoanStatusDialog({ open, onOpenChange, loanId, currentStatus, ag
           <Button variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
             Cancel
           </Button>
-          <Button onClick={handleStatusChange} disabled={loading || newStatus === currentStatus}>
+          <Button onClick={handleStatusChange} disabled={loading || statusOptions.length === 0 || newStatus === currentStatus}>
             {loading ? (
               <>
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -34,9 +34,26 @@ import {
   updateLoanTypeConfig,
   DEFAULT_LOAN_TYPE_TEMPLATES,
 } from '../../../lib/firebase/loan-type-config';
-import type { LoanTypeConfig, LoanTypeId } from '../../../types/loan-config';
+import type { LoanTypeConfig, LoanTypeId, RiskRules } from '../../../types/loan-config';
 import { motion, AnimatePresence } from 'framer-motion';
 import { getLoanTypeIcon } from '../../../lib/loan-type-icons';
+import {
+  resolvePaymentAllocationConfig,
+  type AllocationComponent,
+  type AllocationStrategy,
+  type OverpaymentHandling,
+} from '../../../../packages/loan-rules/src/allocation';
+import type { DecisionRule, RuleOperator } from '../../../../packages/loan-rules/src/decision-rules';
+import { resolveInsuranceRequirement } from '../../../../packages/loan-rules/src/collateral-insurance';
+
+const COLLATERAL_TYPES = ['vehicle', 'equipment', 'property', 'land', 'electronics', 'jewelry', 'livestock', 'other'];
+
+const ALLOCATION_ORDER_PRESETS: { label: string; order: AllocationComponent[] }[] = [
+  { label: 'Fees → Penalties → Interest → Principal', order: ['fees', 'penalties', 'interest', 'principal'] },
+  { label: 'Penalties → Fees → Interest → Principal', order: ['penalties', 'fees', 'interest', 'principal'] },
+  { label: 'Interest → Fees → Penalties → Principal', order: ['interest', 'fees', 'penalties', 'principal'] },
+  { label: 'Interest → Principal → Fees → Penalties', order: ['interest', 'principal', 'fees', 'penalties'] },
+];
 
 export function LoanTypeSettings() {
   const { agency } = useAgency();
@@ -351,6 +368,8 @@ function LoanTypeCard({
   enabledCount = 0,
 }: LoanTypeCardProps) {
   const config = isEditing && editedConfig ? editedConfig : loanType;
+  const allocation = resolvePaymentAllocationConfig(config.paymentAllocation);
+  const insurance = resolveInsuranceRequirement(config.collateralInsurance);
   const Icon = getLoanTypeIcon(loanType.id);
 
   return (
@@ -469,6 +488,102 @@ function LoanTypeCard({
                 </div>
               </div>
 
+              <div className="space-y-3">
+                <Label className="text-sm font-semibold text-neutral-900 dark:text-neutral-100">Payment Allocation</Label>
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <span className="text-xs text-neutral-500 dark:text-neutral-400">Waterfall Order</span>
+                    <select
+                      value={allocation.order.join(',')}
+                      onChange={(e) => onConfigChange({
+                        ...editedConfig!,
+                        paymentAllocation: { ...allocation, order: e.target.value.split(',') as AllocationComponent[] },
+                      })}
+                      className="flex h-10 w-full rounded-lg border border-input bg-background px-3 py-2 text-sm"
+                    >
+                      {!ALLOCATION_ORDER_PRESETS.some((preset) => preset.order.join(',') === allocation.order.join(',')) && (
+                        <option value={allocation.order.join(',')}>{allocation.order.join(' → ')}</option>
+                      )}
+                      {ALLOCATION_ORDER_PRESETS.map((preset) => (
+                        <option key={preset.label} value={preset.order.join(',')}>{preset.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <span className="text-xs text-neutral-500 dark:text-neutral-400">Apply To</span>
+                    <select
+                      value={allocation.strategy}
+                      onChange={(e) => onConfigChange({
+                        ...editedConfig!,
+                        paymentAllocation: { ...allocation, strategy: e.target.value as AllocationStrategy },
+                      })}
+                      className="flex h-10 w-full rounded-lg border border-input bg-background px-3 py-2 text-sm"
+                    >
+                      <option value="by_installment">Oldest installment first</option>
+                      <option value="by_component">Each component across all arrears</option>
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <span className="text-xs text-neutral-500 dark:text-neutral-400">Overpayments</span>
+                    <select
+                      value={allocation.overpaymentHandling}
+                      onChange={(e) => onConfigChange({
+                        ...editedConfig!,
+                        paymentAllocation: { ...allocation, overpaymentHandling: e.target.value as OverpaymentHandling },
+                      })}
+                      className="flex h-10 w-full rounded-lg border border-input bg-background px-3 py-2 text-sm"
+                    >
+                      <option value="reduce_term">Prepay - reduce term</option>
+                      <option value="reduce_installment">Prepay - reduce installment</option>
+                      <option value="credit_balance">Keep as customer credit</option>
+                    </select>
+                  </div>
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <Label className="text-sm font-semibold text-neutral-900 dark:text-neutral-100">Collateral Insurance</Label>
+                <label className="text-sm flex items-center gap-2">
+                  <Switch
+                    checked={insurance.required}
+                    onCheckedChange={(checked) => onConfigChange({
+                      ...editedConfig!,
+                      collateralInsurance: { ...insurance, required: checked },
+                    })}
+                  />
+                  Block disbursement until the collateral below is insured
+                </label>
+                {insurance.required && (
+                  <div className="flex flex-wrap gap-4">
+                    {COLLATERAL_TYPES.map((type) => (
+                      <label key={type} className="text-sm flex items-center gap-2 capitalize">
+                        <input
+                          type="checkbox"
+                          checked={insurance.collateralTypes.includes(type)}
+                          onChange={(e) => {
+                            const collateralTypes = e.target.checked
+                              ? [...insurance.collateralTypes, type]
+                              : insurance.collateralTypes.filter((insured) => insured !== type);
+                            onConfigChange({
+                              ...editedConfig!,
+                              collateralInsurance: { ...insurance, collateralTypes },
+                            });
+                          }}
+                        />
+                        {type}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <DecisionRulesEditor
+                riskRules={config.riskRules || {}}
+                decisionRules={config.decisionRules || []}
+                onRiskRulesChange={(riskRules) => onConfigChange({ ...editedConfig!, riskRules })}
+                onDecisionRulesChange={(decisionRules) => onConfigChange({ ...editedConfig!, decisionRules })}
+              />
+
               <div className="flex gap-2 pt-2">
                 <Button 
                   onClick={onSave} 
@@ -520,3 +635,162 @@ function LoanTypeCard({
   );
 }
 
+const RISK_RULE_FIELDS: { key: keyof RiskRules; label: string }[] = [
+  { key: 'minCreditScore', label: 'Min Credit Score' },
+  { key: 'maxDebtToIncome', label: 'Max Debt-to-Income (%)' },
+  { key: 'minCollateralCoverage', label: 'Min Collateral Coverage (%)' },
+  { key: 'maxLoanToValue', label: 'Max Loan-to-Value (%)' },
+];
+
+const DECISION_FACTS = [
+  'amount',
+  'durationMonths',
+  'creditScore',
+  'riskScore',
+  'monthlyIncome',
+  'debtToIncome',
+  'collateralCoverage',
+  'loanToValue',
+  'guarantorCount',
+  'pastDefaults',
+  'businessAgeMonths',
+  'employmentStatus',
+];
+
+const RULE_OPERATORS: { value: RuleOperator; label: string }[] = [
+  { value: 'lt', label: '<' },
+  { value: 'lte', label: '≤' },
+  { value: 'gt', label: '>' },
+  { value: 'gte', label: '≥' },
+  { value: 'eq', label: '=' },
+  { value: 'neq', label: '≠' },
+  { value: 'missing', label: 'is missing' },
+];
+
+interface DecisionRulesEditorProps {
+  riskRules: RiskRules;
+  decisionRules: DecisionRule[];
+  onRiskRulesChange: (riskRules: RiskRules) => void;
+  onDecisionRulesChange: (decisionRules: DecisionRule[]) => void;
+}
+
+function DecisionRulesEditor({
+  riskRules,
+  decisionRules,
+  onRiskRulesChange,
+  onDecisionRulesChange,
+}: DecisionRulesEditorProps) {
+  const updateRule = (index: number, updates: Partial<DecisionRule>) => {
+    onDecisionRulesChange(decisionRules.map((rule, i) => (i === index ? { ...rule, ...updates } : rule)));
+  };
+
+  const updateCondition = (index: number, updates: Partial<DecisionRule['conditions'][number]>) => {
+    const rule = decisionRules[index];
+    const [first, ...rest] = rule.conditions;
+    updateRule(index, { conditions: [{ ...first, ...updates }, ...rest] });
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label className="text-sm font-semibold text-neutral-900 dark:text-neutral-100">Credit Decision Rules</Label>
+      <div className="grid grid-cols-4 gap-4">
+        {RISK_RULE_FIELDS.map((field) => (
+          <div key={field.key} className="space-y-2">
+            <span className="text-xs text-neutral-500 dark:text-neutral-400">{field.label}</span>
+            <Input
+              type="number"
+              value={riskRules[field.key] ?? ''}
+              onChange={(e) => {
+                // Firestore rejects undefined values, so a cleared threshold is removed
+                const { [field.key]: _cleared, ...rest } = riskRules;
+                onRiskRulesChange(e.target.value === '' ? rest : { ...rest, [field.key]: Number(e.target.value) });
+              }}
+              className="rounded-lg"
+            />
+          </div>
+        ))}
+      </div>
+
+      <span className="text-xs text-neutral-500 dark:text-neutral-400 block">
+        Custom rules refer or decline an application when their condition holds. A rule with the id of an agency
+        policy rule (e.g. risk_score_refer) replaces it.
+      </span>
+      {decisionRules.map((rule, index) => {
+        const condition = rule.conditions[0] || { fact: 'amount', operator: 'gt' as RuleOperator };
+        return (
+          <div key={rule.id} className="flex items-center gap-2">
+            <Input
+              value={rule.name}
+              placeholder="Rule name"
+              onChange={(e) => updateRule(index, { name: e.target.value })}
+              className="rounded-lg flex-1"
+            />
+            <select
+              value={condition.fact}
+              onChange={(e) => updateCondition(index, { fact: e.target.value })}
+              className="flex h-10 rounded-lg border border-input bg-background px-3 py-2 text-sm"
+            >
+              {!DECISION_FACTS.includes(condition.fact) && <option value={condition.fact}>{condition.fact}</option>}
+              {DECISION_FACTS.map((fact) => (
+                <option key={fact} value={fact}>{fact}</option>
+              ))}
+            </select>
+            <select
+              value={condition.operator}
+              onChange={(e) => updateCondition(index, { operator: e.target.value as RuleOperator })}
+              className="flex h-10 rounded-lg border border-input bg-background px-3 py-2 text-sm"
+            >
+              {RULE_OPERATORS.map((operator) => (
+                <option key={operator.value} value={operator.value}>{operator.label}</option>
+              ))}
+            </select>
+            {condition.operator !== 'missing' && (
+              <Input
+                value={condition.value === undefined ? '' : String(condition.value)}
+                onChange={(e) => updateCondition(index, {
+                  value: e.target.value !== '' && !isNaN(Number(e.target.value)) ? Number(e.target.value) : e.target.value,
+                })}
+                className="rounded-lg w-28"
+              />
+            )}
+            <select
+              value={rule.outcome}
+              onChange={(e) => updateRule(index, { outcome: e.target.value as DecisionRule['outcome'] })}
+              className="flex h-10 rounded-lg border border-input bg-background px-3 py-2 text-sm"
+            >
+              <option value="refer">Refer</option>
+              <option value="decline">Decline</option>
+            </select>
+            {rule.conditions.length > 1 && (
+              <span className="text-xs text-neutral-500">+{rule.conditions.length - 1} more</span>
+            )}
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onDecisionRulesChange(decisionRules.filter((_, i) => i !== index))}
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        );
+      })}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onDecisionRulesChange([
+          ...decisionRules,
+          {
+            id: `custom_${Date.now()}`,
+            name: '',
+            conditions: [{ fact: 'amount', operator: 'gt', value: 0 }],
+            outcome: 'refer',
+          },
+        ])}
+      >
+        Add Rule
+      </Button>
+    </div>
+  );
+}
@@ -14,7 +14,8 @@ import { Textarea } from '../../../components/ui/textarea';
 import { Loader2, ChevronRight, ChevronLeft, Upload, X } from 'lucide-react';
 import { useAuth } from '../../../hooks/useAuth';
 import { useAgency } from '../../../hooks/useAgency';
-import { createLoan, addCollateral, uploadLoanDocument, createCollateral } from '../../../lib/firebase/firestore-helpers';
+import { createLoan, uploadLoanDocument, createCollateral } from '../../../lib/firebase/firestore-helpers';
+import { addPledgedCollateral } from '../../../lib/firebase/collateral-liens';
 import { createLoanTransaction } from '../../../lib/firebase/loan-transactions';
 import { validateLoanEligibility } from '../../../lib/firebase/loan-validation';
 import { uploadLoanDocument as uploadDoc, uploadCollateralPhoto } from '../../../lib/firebase/storage-helpers';
@@ -254,8 +255,8 @@ export function NewLoanDrawer({ open, onOpenChange, onSuccess, preselectedCustom
           photos: collateralPhotos,
         };
 
-        // addCollateral already creates it in both loan subcollection and top-level registry
-        await addCollateral(profile.agency_id, loanId, collateralData);
+        // Creates it in both loan subcollection and top-level registry, and registers the lien
+        await addPledgedCollateral(profile.agency_id, loanId, collateralData, user.id);
       }
 
       // Upload loan documents
@@ -0,0 +1,285 @@
+/**
+ * Loan Restructure Dialog
+ *
+ * Lets collections staff propose new terms for a distressed loan and lets
+ * managers approve or reject a pending restructure
+ */
+
+import { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../../../components/ui/dialog';
+import { Button } from '../../../components/ui/button';
+import { Input } from '../../../components/ui/input';
+import { Textarea } from '../../../components/ui/textarea';
+import { Label } from '../../../components/ui/label';
+import { Switch } from '../../../components/ui/switch';
+import { Loader2, CheckCircle2, XCircle, RefreshCw } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../../../hooks/useAuth';
+import { formatCurrency } from '../../../lib/utils';
+import { UserRole } from '../../../types/loan-workflow';
+import type { RepaymentFrequency } from '../../../types/loan-config';
+import {
+  previewLoanRestructure,
+  requestLoanRestructure,
+  approveLoanRestructure,
+  rejectLoanRestructure,
+  getPendingRestructure,
+  type RestructureTerms,
+} from '../../../lib/loans/restructure';
+
+interface RestructureLoanDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  loanId: string;
+  agencyId: string;
+  userRole: UserRole;
+  mode: 'request' | 'review';
+  defaultTerms: { interestRate: number; durationMonths: number; repaymentFrequency: RepaymentFrequency };
+  onSuccess: () => void;
+}
+
+export function RestructureLoanDialog({
+  open,
+  onOpenChange,
+  loanId,
+  agencyId,
+  userRole,
+  mode,
+  defaultTerms,
+  onSuccess,
+}: RestructureLoanDialogProps) {
+  const { user } = useAuth();
+  const [annualRate, setAnnualRate] = useState(String(defaultTerms.interestRate));
+  const [durationMonths, setDurationMonths] = useState(String(defaultTerms.durationMonths));
+  const [frequency, setFrequency] = useState<RepaymentFrequency>(defaultTerms.repaymentFrequency);
+  const [capitalizePenalties, setCapitalizePenalties] = useState(true);
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setNotes('');
+    }
+  }, [open]);
+
+  const terms: RestructureTerms = {
+    annualRate: Number(annualRate) || 0,
+    durationMonths: Number(durationMonths) || 0,
+    frequency,
+    capitalizePenalties,
+  };
+
+  const { data: pendingRequest, isLoading: requestLoading } = useQuery({
+    queryKey: ['loan-restructure', agencyId, loanId],
+    queryFn: () => getPendingRestructure(agencyId, loanId),
+    enabled: open && mode === 'review',
+  });
+
+  const { data: plan, isFetching: planLoading } = useQuery({
+    queryKey: ['loan-restructure-preview', agencyId, loanId, terms],
+    queryFn: () => previewLoanRestructure(agencyId, loanId, terms),
+    enabled: open && mode === 'request' && terms.durationMonths > 0,
+  });
+
+  const handleRequest = async () => {
+    if (!user?.id) return;
+    setLoading(true);
+    try {
+      const result = await requestLoanRestructure({
+        loanId,
+        agencyId,
+        userId: user.id,
+        userRole,
+        terms,
+        reason: notes,
+      });
+      if (result.success) {
+        toast.success('Restructure submitted for approval');
+        onOpenChange(false);
+        onSuccess();
+      } else {
+        toast.error(result.error || 'Failed to request restructure');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDecision = async (decision: 'approve' | 'reject') => {
+    if (!user?.id || !pendingRequest) return;
+    setLoading(true);
+    try {
+      const params = {
+        loanId,
+        agencyId,
+        restructureId: pendingRequest.id,
+        userId: user.id,
+        userRole,
+        notes,
+      };
+      const result = decision === 'approve'
+        ? await approveLoanRestructure(params)
+        : await rejectLoanRestructure(params);
+      if (result.success) {
+        toast.success(`Restructure ${decision === 'approve' ? 'approved' : 'rejected'}`);
+        onOpenChange(false);
+        onSuccess();
+      } else {
+        toast.error(result.error || `Failed to ${decision} restructure`);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const summary = mode === 'review' ? pendingRequest?.preview : plan && {
+    outstandingPrincipal: plan.outstandingPrincipal,
+    capitalizedAmount: plan.capitalizedAmount,
+    waivedPenalties: plan.waivedPenalties,
+    newPrincipal: plan.newPrincipal,
+    installmentAmount: plan.schedule.installmentAmount,
+    numberOfInstallments: plan.schedule.numberOfInstallments,
+    totalAmount: plan.schedule.totalAmount,
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>{mode === 'request' ? 'Restructure Loan' : 'Review Restructure'}</DialogTitle>
+          <DialogDescription>
+            {mode === 'request'
+              ? 'Capitalize arrears and reschedule the outstanding balance on new terms. A manager must approve the restructure.'
+              : 'Approve to replace the current schedule with the restructured one. The old schedule is kept for history.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          {mode === 'request' ? (
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="restructureRate">Interest Rate (%)</Label>
+                <Input
+                  id="restructureRate"
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  value={annualRate}
+                  onChange={(e) => setAnnualRate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="restructureTerm">Term (Months)</Label>
+                <Input
+                  id="restructureTerm"
+                  type="number"
+                  min="1"
+                  value={durationMonths}
+                  onChange={(e) => setDurationMonths(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="restructureFrequency">Frequency</Label>
+                <select
+                  id="restructureFrequency"
+                  value={frequency}
+                  onChange={(e) => setFrequency(e.target.value as RepaymentFrequency)}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                >
+                  <option value="weekly">Weekly</option>
+                  <option value="biweekly">Bi-weekly</option>
+                  <option value="monthly">Monthly</option>
+                  <option value="quarterly">Quarterly</option>
+                </select>
+              </div>
+              <div className="col-span-3 flex items-center justify-between">
+                <Label htmlFor="capitalizePenalties">Capitalize overdue late fees (otherwise waived)</Label>
+                <Switch id="capitalizePenalties" checked={capitalizePenalties} onCheckedChange={setCapitalizePenalties} />
+              </div>
+            </div>
+          ) : pendingRequest ? (
+            <div className="text-sm space-y-1">
+              <p>
+                <span className="text-muted-foreground">Proposed terms:</span>{' '}
+                {pendingRequest.terms.annualRate}% for {pendingRequest.terms.durationMonths} months, {pendingRequest.terms.frequency}
+              </p>
+              <p><span className="text-muted-foreground">Reason:</span> {pendingRequest.reason}</p>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              {requestLoading ? 'Loading restructure request...' : 'No restructure request is awaiting approval.'}
+            </p>
+          )}
+
+          {(planLoading || summary) && (
+            <div className="rounded-lg border border-neutral-200 dark:border-neutral-700 p-4 grid grid-cols-2 gap-2 text-sm">
+              {planLoading && !summary ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : summary && (
+                <>
+                  <span className="text-muted-foreground">Outstanding principal</span>
+                  <span className="text-right">{formatCurrency(summary.outstandingPrincipal)}</span>
+                  <span className="text-muted-foreground">Arrears capitalized</span>
+                  <span className="text-right">{formatCurrency(summary.capitalizedAmount)}</span>
+                  <span className="text-muted-foreground">Late fees waived</span>
+                  <span className="text-right">{formatCurrency(summary.waivedPenalties)}</span>
+                  <span className="text-muted-foreground font-semibold">New principal</span>
+                  <span className="text-right font-semibold">{formatCurrency(summary.newPrincipal)}</span>
+                  <span className="text-muted-foreground">Installments</span>
+                  <span className="text-right">{summary.numberOfInstallments} × {formatCurrency(summary.installmentAmount)}</span>
+                  <span className="text-muted-foreground">Total repayable</span>
+                  <span className="text-right">{formatCurrency(summary.totalAmount)}</span>
+                </>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="restructureNotes">{mode === 'request' ? 'Reason for Restructure' : 'Decision Notes'} *</Label>
+            <Textarea
+              id="restructureNotes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+              className="resize-none"
+              placeholder={mode === 'request' ? 'e.g., borrower lost income, agreed reduced installment' : 'Notes are recorded in the audit log'}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
+            Cancel
+          </Button>
+          {mode === 'request' ? (
+            <Button type="button" onClick={handleRequest} disabled={loading || !notes.trim() || !plan}>
+              {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+              Submit for Approval
+            </Button>
+          ) : (
+            <>
+              <Button
+                type="button"
+                variant="destructive"
+                onClick={() => handleDecision('reject')}
+                disabled={loading || !notes.trim() || !pendingRequest}
+              >
+                <XCircle className="mr-2 h-4 w-4" />
+                Reject
+              </Button>
+              <Button
+                type="button"
+                onClick={() => handleDecision('approve')}
+                disabled={loading || !notes.trim() || !pendingRequest}
+              >
+                {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCircle2 className="mr-2 h-4 w-4" />}
+                Approve Restructure
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,219 @@
+/**
+ * Loan Write-off Dialog
+ *
+ * Lets staff request the write-off of a loan that cannot be collected and
+ * lets a manager other than the requester approve or reject it
+ */
+
+import { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../../../components/ui/dialog';
+import { Button } from '../../../components/ui/button';
+import { Textarea } from '../../../components/ui/textarea';
+import { Label } from '../../../components/ui/label';
+import { Loader2, CheckCircle2, XCircle, FileX } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../../../hooks/useAuth';
+import { formatCurrency } from '../../../lib/utils';
+import { UserRole } from '../../../types/loan-workflow';
+import {
+  previewLoanWriteOff,
+  requestLoanWriteOff,
+  approveLoanWriteOff,
+  rejectLoanWriteOff,
+  getPendingWriteOff,
+} from '../../../lib/loans/write-off';
+
+interface WriteOffLoanDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  loanId: string;
+  agencyId: string;
+  userRole: UserRole;
+  mode: 'request' | 'review';
+  onSuccess: () => void;
+}
+
+export function WriteOffLoanDialog({
+  open,
+  onOpenChange,
+  loanId,
+  agencyId,
+  userRole,
+  mode,
+  onSuccess,
+}: WriteOffLoanDialogProps) {
+  const { user } = useAuth();
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setNotes('');
+    }
+  }, [open]);
+
+  const { data: pendingRequest, isLoading: requestLoading } = useQuery({
+    queryKey: ['loan-write-off', agencyId, loanId],
+    queryFn: () => getPendingWriteOff(agencyId, loanId),
+    enabled: open && mode === 'review',
+  });
+
+  // Both modes show today's balances; approval writes off what is outstanding then
+  const { data: balances, isFetching: balancesLoading } = useQuery({
+    queryKey: ['loan-write-off-preview', agencyId, loanId],
+    queryFn: () => previewLoanWriteOff(agencyId, loanId),
+    enabled: open,
+  });
+
+  const handleRequest = async () => {
+    if (!user?.id) return;
+    setLoading(true);
+    try {
+      const result = await requestLoanWriteOff({
+        loanId,
+        agencyId,
+        userId: user.id,
+        userRole,
+        reason: notes,
+      });
+      if (result.success) {
+        toast.success('Write-off submitted for approval');
+        onOpenChange(false);
+        onSuccess();
+      } else {
+        toast.error(result.error || 'Failed to request write-off');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDecision = async (decision: 'approve' | 'reject') => {
+    if (!user?.id || !pendingRequest) return;
+    setLoading(true);
+    try {
+      const params = {
+        loanId,
+        agencyId,
+        writeOffId: pendingRequest.id,
+        userId: user.id,
+        userRole,
+        notes,
+      };
+      const result = decision === 'approve'
+        ? await approveLoanWriteOff(params)
+        : await rejectLoanWriteOff(params);
+      if (result.success) {
+        toast.success(`Write-off ${decision === 'approve' ? 'approved' : 'rejected'}`);
+        onOpenChange(false);
+        onSuccess();
+      } else {
+        toast.error(result.error || `Failed to ${decision} write-off`);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const isRequester = mode === 'review' && pendingRequest?.requestedBy === user?.id;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>{mode === 'request' ? 'Write Off Loan' : 'Review Write-off'}</DialogTitle>
+          <DialogDescription>
+            {mode === 'request'
+              ? 'Take the outstanding balance off the portfolio. The loan stays on file for recoveries. A manager other than you must approve the write-off.'
+              : 'Approve to write off the balance outstanding today and post the loss to the general ledger.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          {mode === 'review' && (
+            pendingRequest ? (
+              <div className="text-sm space-y-1">
+                <p><span className="text-muted-foreground">Reason:</span> {pendingRequest.reason}</p>
+                {isRequester && (
+                  <p className="text-amber-600">You requested this write-off, so another manager must decide on it.</p>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                {requestLoading ? 'Loading write-off request...' : 'No write-off request is awaiting approval.'}
+              </p>
+            )
+          )}
+
+          <div className="rounded-lg border border-neutral-200 dark:border-neutral-700 p-4 grid grid-cols-2 gap-2 text-sm">
+            {balancesLoading && !balances ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : balances && (
+              <>
+                <span className="text-muted-foreground">Principal</span>
+                <span className="text-right">{formatCurrency(balances.principal)}</span>
+                <span className="text-muted-foreground">Interest receivable</span>
+                <span className="text-right">{formatCurrency(balances.interest)}</span>
+                <span className="text-muted-foreground">Late fees</span>
+                <span className="text-right">{formatCurrency(balances.penalties)}</span>
+                <span className="text-muted-foreground font-semibold">Amount written off</span>
+                <span className="text-right font-semibold text-red-600">{formatCurrency(balances.total)}</span>
+              </>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="writeOffNotes">{mode === 'request' ? 'Reason for Write-off' : 'Decision Notes'} *</Label>
+            <Textarea
+              id="writeOffNotes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+              className="resize-none"
+              placeholder={mode === 'request' ? 'e.g., borrower absconded, collection efforts exhausted' : 'Notes are recorded in the audit log'}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
+            Cancel
+          </Button>
+          {mode === 'request' ? (
+            <Button
+              type="button"
+              variant="destructive"
+              onClick={handleRequest}
+              disabled={loading || !notes.trim() || !balances || balances.total <= 0}
+            >
+              {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileX className="mr-2 h-4 w-4" />}
+              Submit for Approval
+            </Button>
+          ) : (
+            <>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => handleDecision('reject')}
+                disabled={loading || !notes.trim() || !pendingRequest}
+              >
+                <XCircle className="mr-2 h-4 w-4" />
+                Reject
+              </Button>
+              <Button
+                type="button"
+                variant="destructive"
+                onClick={() => handleDecision('approve')}
+                disabled={loading || !notes.trim() || !pendingRequest || isRequester}
+              >
+                {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCircle2 className="mr-2 h-4 w-4" />}
+                Approve Write-off
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useRef, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useQuery, useQueryClient, useMutation } from '@tanstack/react-query';
 import { collection, getDocs, doc, updateDoc, serverTimestamp } from 'firebase/firestore';
 import { db } from '../../../lib/firebase/config';
@@ -12,29 +12,43 @@ import { Skeleton } from '../../../components/ui/skeleton';
 import { EmptyState } from '../../../components/ui/empty-state';
 import { motion } from 'framer-motion';
 import { cn } from '../../../lib/utils';
-import { DollarSign, TrendingUp, TrendingDown, Calendar, FileText, Download, Filter, Search, Loader2, Upload, CheckCircle2, AlertCircle, FileCheck, Eye, Edit } from 'lucide-react';
+import { DollarSign, TrendingUp, TrendingDown, Calendar, FileText, Download, Filter, Search, Loader2, Eye, Edit } from 'lucide-react';
 import { formatCurrency, formatDateSafe } from '../../../lib/utils';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, Legend } from 'recharts';
-import { parseBankStatementFile, matchBankTransactions, generateReconciliationReport } from '../../../lib/accounting/bank-reconciliation';
+import { getLedgerReports } from '../../../lib/accounting/general-ledger';
+import { getSystemAccountCodes, toLedgerDate } from '../../../../packages/loan-rules/src/ledger';
+import { GeneralLedgerCard } from '../../../components/accounting/GeneralLedgerCard';
+import { PeriodCloseCard } from '../../../components/accounting/PeriodCloseCard';
+import { BankReconciliationCard } from '../../../components/accounting/BankReconciliationCard';
+import { ProvisioningCard } from '../../../components/accounting/ProvisioningCard';
 import toast from 'react-hot-toast';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '../../../components/ui/dialog';
 import { Select } from '../../../components/ui/select';
 import { Label } from '../../../components/ui/label';
 
+function getRangeStart(range: 'week' | 'month' | 'quarter' | 'year'): Date {
+  const now = new Date();
+  switch (range) {
+    case 'week':
+      return new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+    case 'month':
+      return new Date(now.getFullYear(), now.getMonth(), 1);
+    case 'quarter':
+      return new Date(now.getFullYear(), Math.floor(now.getMonth() / 3) * 3, 1);
+    case 'year':
+      return new Date(now.getFullYear(), 0, 1);
+  }
+}
+
 export function AccountingPage() {
   const { profile } = useAuth();
   const queryClient = useQueryClient();
   const [searchParams, setSearchParams] = useSearchParams();
   const [dateRange, setDateRange] = useState<'week' | 'month' | 'quarter' | 'year'>('month');
   const [searchTerm, setSearchTerm] = useState('');
-  const [reconciliationDialogOpen, setReconciliationDialogOpen] = useState(false);
-  const [reconciliationMatches, setReconciliationMatches] = useState<any[]>([]);
-  const [reconciliationReport, setReconciliationReport] = useState<any>(null);
-  const [processingReconciliation, setProcessingReconciliation] = useState(false);
   const [selectedTransaction, setSelectedTransaction] = useState<any | null>(null);
   const [transactionDetailOpen, setTransactionDetailOpen] = useState(false);
   const [newStatus, setNewStatus] = useState<'paid' | 'pending' | 'overdue'>('pending');
-  const bankStatementFileRef = useRef<HTMLInputElement>(null);
   
   // Get filter from URL query params
   const filterParam = searchParams.get('filter');
@@ -94,26 +108,24 @@ export function AccountingPage() {
     enabled: !!loans && loans.length > 0 && !!profile?.agency_id,
   });
 
+  // Income comes from the general ledger, not from the repayment records
+  const { data: ledgerIncome } = useQuery({
+    queryKey: ['ledger-income', profile?.agency_id, dateRange],
+    queryFn: async () => {
+      const from = toLedgerDate(getRangeStart(dateRange));
+      const to = toLedgerDate(new Date());
+      const reports = await getLedgerReports(profile!.agency_id!, from, to);
+      const interestCode = getSystemAccountCodes(reports.accounts).interest_income;
+      return {
+        interestIncome: reports.incomeStatement.income.find((row) => row.code === interestCode)?.balance || 0,
+      };
+    },
+    enabled: !!profile?.agency_id,
+  });
+
   // Calculate financial metrics
   const financialData = loans ? (() => {
-    const now = new Date();
-    let startDate: Date;
-    
-    switch (dateRange) {
-      case 'week':
-        startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-        break;
-      case 'month':
-        startDate = new Date(now.getFullYear(), now.getMonth(), 1);
-        break;
-      case 'quarter':
-        const quarter = Math.floor(now.getMonth() / 3);
-        startDate = new Date(now.getFullYear(), quarter * 3, 1);
-        break;
-      case 'year':
-        startDate = new Date(now.getFullYear(), 0, 1);
-        break;
-    }
+    const startDate = getRangeStart(dateRange);
 
     const activeLoans = loans.filter((l: any) => l.status === 'active');
     const disbursedThisPeriod = loans.filter((l: any) => {
@@ -132,16 +144,6 @@ export function AccountingPage() {
     const pendingRepayments = repayments?.filter((r: any) => r.status === 'pending') || [];
     const totalOutstanding = pendingRepayments.reduce((sum: number, r: any) => sum + Number(r.amountDue || 0), 0);
 
-    // Calculate interest income
-    const interestIncome = paidRepayments.reduce((sum: number, r: any) => {
-      const loan = loans.find((l: any) => l.id === r.loanId);
-      if (loan && (loan as any).interestRate) {
-        const interestPortion = Number(r.amountPaid || 0) - Number(r.amountPaid || 0) / (1 + Number((loan as any).interestRate || 0) / 100);
-        return sum + interestPortion;
-      }
-      return sum;
-    }, 0);
-
     // Calculate defaulted loans
     const defaultedLoans = loans.filter((l: any) => l.status === 'defaulted');
     const defaultedAmount = defaultedLoans.reduce((sum: number, l: any) => sum + Number(l.amount || 0), 0);
@@ -151,7 +153,6 @@ export function AccountingPage() {
       totalPortfolio,
       totalCollections,
       totalOutstanding,
-      interestIncome,
       defaultedAmount,
       activeLoansCount: activeLoans.length,
       defaultedCount: defaultedLoans.length,
@@ -416,7 +417,7 @@ export function AccountingPage() {
               <div>
                 <p className="text-sm font-medium text-muted-foreground">Interest Income</p>
                 <p className="text-2xl font-bold text-blue-600 mt-1">
-                  {formatCurrency(financialData?.interestIncome || 0, 'ZMW')}
+                  {formatCurrency(ledgerIncome?.interestIncome || 0, 'ZMW')}
                 </p>
               </div>
               <DollarSign className="h-8 w-8 text-blue-600" />
@@ -581,130 +582,92 @@ export function AccountingPage() {
       </div>
 
       {/* Bank Reconciliation */}
-      <Card>
-        <CardHeader>
-          <div className="flex justify-between items-center">
-            <div>
-              <CardTitle>Bank Reconciliation</CardTitle>
-              <p className="text-sm text-muted-foreground mt-1">Match bank statement transactions with repayments</p>
-            </div>
-            <Button
-              variant="outline"
-              onClick={() => setReconciliationDialogOpen(true)}
-            >
-              <FileCheck className="mr-2 h-4 w-4" />
-              Reconcile Bank Statement
-            </Button>
-          </div>
-        </CardHeader>
-        <CardContent>
-          <div className="text-center py-8 text-muted-foreground">
-            <FileCheck className="w-12 h-12 mx-auto mb-4 text-neutral-400 dark:text-neutral-600" />
-            <p>Upload a bank statement CSV to reconcile transactions</p>
-            <p className="text-xs mt-2 text-muted-foreground">Supports common CSV formats with date, description, and amount columns</p>
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* Financial Reports */}
-      <Card>
-        <CardHeader>
-          <div className="flex justify-between items-center">
-            <CardTitle>Financial Reports</CardTitle>
-            <div className="flex gap-2">
-              <Button
-                variant="outline"
-                size="sm"
-                disabled
-                title="P&L Report generation coming soon"
-              >
-                <FileText className="mr-2 h-4 w-4" />
-                P&L Report
-              </Button>
-              <Button
-                variant="outline"
-                size="sm"
-                disabled
-                title="Trial Balance generation coming soon"
-              >
-                <FileText className="mr-2 h-4 w-4" />
-                Trial Balance
-              </Button>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => {
-                  if (repayments && repayments.length > 0) {
-                    const csv = [
-                      ['Date', 'Type', 'Loan ID', 'Amount', 'Status', 'Payment Method'],
-                      ...repayments.map((r: any) => [
-                        formatDateSafe(r.paidAt || r.dueDate),
-                        r.status === 'paid' ? 'Collection' : 'Due Payment',
-                        r.loanId || '',
-                        Number(r.amountPaid || r.amountDue || 0).toFixed(2),
-                        r.status || 'pending',
-                        r.paymentMethod || 'N/A',
-                      ]),
-                    ].map(row => row.join(',')).join('\n');
-                    
-                    const blob = new Blob([csv], { type: 'text/csv' });
-                    const url = window.URL.createObjectURL(blob);
-                    const a = document.createElement('a');
-                    a.href = url;
-                    a.download = `transactions-${Date.now()}.csv`;
-                    a.click();
-                    toast.success('Transactions exported successfully');
-                  } else {
-                    toast.error('No transactions to export');
-                  }
-                }}
-              >
-                <Download className="mr-2 h-4 w-4" />
-                Export CSV
-              </Button>
-            </div>
-          </div>
-        </CardHeader>
-        <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
-            <div className="p-4 bg-blue-50 dark:bg-blue-500/10 rounded-lg">
-              <p className="text-sm text-slate-600 dark:text-blue-200 mb-1">Total Income</p>
-              <p className="text-2xl font-bold text-blue-600 dark:text-blue-400">
-                {formatCurrency(financialData?.interestIncome || 0, 'ZMW')}
-              </p>
-              <p className="text-xs text-muted-foreground mt-1">Interest + Principal</p>
-            </div>
-            <div className="p-4 bg-green-50 dark:bg-green-500/10 rounded-lg">
-              <p className="text-sm text-slate-600 dark:text-green-200 mb-1">Collections</p>
-              <p className="text-2xl font-bold text-green-600 dark:text-green-400">
-                {formatCurrency(financialData?.totalCollections || 0, 'ZMW')}
-              </p>
-              <p className="text-xs text-muted-foreground mt-1">This period</p>
-            </div>
-            <div className="p-4 bg-amber-50 dark:bg-amber-500/10 rounded-lg">
-              <p className="text-sm text-slate-600 dark:text-amber-200 mb-1">Outstanding</p>
-              <p className="text-2xl font-bold text-amber-600 dark:text-amber-400">
-                {formatCurrency(financialData?.totalOutstanding || 0, 'ZMW')}
-              </p>
-              <p className="text-xs text-muted-foreground mt-1">Pending payments</p>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
+      {profile?.agency_id && (
+        <BankReconciliationCard
+          agencyId={profile.agency_id}
+          userId={profile.id}
+          repayments={repayments || []}
+        />
+      )}
+
+      {/* General Ledger */}
+      {profile?.agency_id && (
+        <GeneralLedgerCard
+          agencyId={profile.agency_id}
+          userId={profile.id}
+          canManage={profile.role === 'admin' || profile.employee_category === 'accountant'}
+          canEditChart={profile.role === 'admin'}
+        />
+      )}
+
+      {/* Period-end Close */}
+      {profile?.agency_id && (
+        <PeriodCloseCard
+          agencyId={profile.agency_id}
+          userId={profile.id}
+          canClose={profile.role === 'admin' || profile.employee_category === 'accountant'}
+          canReopen={profile.role === 'admin'}
+          canEditConfig={profile.role === 'admin'}
+        />
+      )}
+
+      {/* Loan Loss Provisioning */}
+      {profile?.agency_id && (
+        <ProvisioningCard
+          agencyId={profile.agency_id}
+          userId={profile.id}
+          canRun={profile.role === 'admin' || profile.employee_category === 'accountant'}
+          canEditConfig={profile.role === 'admin'}
+        />
+      )}
 
       {/* Recent Transactions */}
       <Card>
         <CardHeader>
           <div className="flex justify-between items-center">
             <CardTitle>Recent Transactions</CardTitle>
-            <div className="relative w-64">
-              <Search className="absolute left-3 top-3 w-4 h-4 text-slate-400" />
-              <Input
-                placeholder="Search transactions..."
-                className="pl-9"
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-              />
+            <div className="flex items-center gap-2">
+              <div className="relative w-64">
+                <Search className="absolute left-3 top-3 w-4 h-4 text-slate-400" />
+                <Input
+                  placeholder="Search transactions..."
+                  className="pl-9"
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                />
+              </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    if (repayments && repayments.length > 0) {
+                      const csv = [
+                        ['Date', 'Type', 'Loan ID', 'Amount', 'Status', 'Payment Method'],
+                        ...repayments.map((r: any) => [
+                          formatDateSafe(r.paidAt || r.dueDate),
+                          r.status === 'paid' ? 'Collection' : 'Due Payment',
+                          r.loanId || '',
+                          Number(r.amountPaid || r.amountDue || 0).toFixed(2),
+                          r.status || 'pending',
+                          r.paymentMethod || 'N/A',
+                        ]),
+                      ].map(row => row.join(',')).join('\n');
+                    
+                      const blob = new Blob([csv], { type: 'text/csv' });
+                      const url = window.URL.createObjectURL(blob);
+                      const a = document.createElement('a');
+                      a.href = url;
+                      a.download = `transactions-${Date.now()}.csv`;
+                      a.click();
+                      toast.success('Transactions exported successfully');
+                    } else {
+                      toast.error('No transactions to export');
+                    }
+                  }}
+                >
+                  <Download className="mr-2 h-4 w-4" />
+                  Export CSV
+                </Button>
             </div>
           </div>
         </CardHeader>
@@ -1032,268 +995,6 @@ export function AccountingPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
-
-      {/* Bank Reconciliation Dialog */}
-      <Dialog open={reconciliationDialogOpen} onOpenChange={setReconciliationDialogOpen}>
-        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
-          <DialogHeader>
-            <DialogTitle>Bank Reconciliation</DialogTitle>
-            <DialogDescription>
-              Upload your bank statement CSV to automatically match transactions with repayments
-            </DialogDescription>
-          </DialogHeader>
-          
-          <div className="space-y-4">
-            <div>
-              <label className="block text-sm font-medium mb-2">Upload Bank Statement</label>
-              <input
-                ref={bankStatementFileRef}
-                type="file"
-                accept=".csv,.xlsx,.xls"
-                className="hidden"
-                onChange={async (e) => {
-                  const file = e.target.files?.[0];
-                  if (!file || !repayments) return;
-
-                  setProcessingReconciliation(true);
-                  try {
-                    const bankTransactions = await parseBankStatementFile(file);
-                    if (bankTransactions.length === 0) {
-                      toast.error('No valid transactions found in the file');
-                      setProcessingReconciliation(false);
-                      return;
-                    }
-                    
-                    const matches = matchBankTransactions(bankTransactions, repayments);
-                    const report = generateReconciliationReport(matches);
-                    
-                    setReconciliationMatches(matches);
-                    setReconciliationReport(report);
-                    toast.success(`Processed ${bankTransactions.length} transactions. ${report.matched} matched, ${report.unmatched} unmatched.`);
-                  } catch (error: any) {
-                    console.error('Reconciliation error:', error);
-                    toast.error('Failed to process bank statement: ' + error.message);
-                  } finally {
-                    setProcessingReconciliation(false);
-                  }
-                }}
-              />
-              <Button
-                variant="outline"
-                onClick={() => bankStatementFileRef.current?.click()}
-                disabled={processingReconciliation}
-                className="w-full"
-              >
-                {processingReconciliation ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Processing...
-                  </>
-                ) : (
-                  <>
-                    <Upload className="mr-2 h-4 w-4" />
-                    Select File (CSV/Excel)
-                  </>
-                )}
-              </Button>
-              <p className="text-xs text-slate-500 mt-2">
-                File should contain: Date, Description, Amount columns (Reference optional). Supports CSV, XLSX, and XLS formats.
-              </p>
-            </div>
-
-            {reconciliationReport && (
-              <div className="space-y-4">
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 p-4 bg-slate-50 rounded-lg">
-                  <div>
-                    <p className="text-xs text-slate-600">Total Transactions</p>
-                    <p className="text-lg font-bold">{reconciliationReport.totalTransactions}</p>
-                    <p className="text-xs text-slate-500">{formatCurrency(reconciliationReport.totalAmount, 'ZMW')}</p>
-                  </div>
-                  <div>
-                    <p className="text-xs text-slate-600">Matched</p>
-                    <p className="text-lg font-bold text-green-600">{reconciliationReport.matched}</p>
-                    <p className="text-xs text-green-600">{formatCurrency(reconciliationReport.matchedAmount, 'ZMW')}</p>
-                  </div>
-                  <div>
-                    <p className="text-xs text-slate-600">Unmatched</p>
-                    <p className="text-lg font-bold text-red-600">{reconciliationReport.unmatched}</p>
-                    <p className="text-xs text-red-600">{formatCurrency(reconciliationReport.unmatchedAmount, 'ZMW')}</p>
-                  </div>
-                  <div>
-                    <p className="text-xs text-slate-600">Match Rate</p>
-                    <p className="text-lg font-bold">{reconciliationReport.matchRate.toFixed(1)}%</p>
-                    <p className="text-xs text-slate-500">
-                      {reconciliationReport.highConfidence} high, {reconciliationReport.mediumConfidence} medium
-                    </p>
-                  </div>
-                </div>
-
-                <div className="max-h-96 overflow-y-auto">
-                  <table className="w-full text-sm">
-                    <thead className="bg-slate-50 dark:bg-neutral-800/50 sticky top-0">
-                      <tr>
-                        <th className="px-4 py-2 text-left">Date</th>
-                        <th className="px-4 py-2 text-left">Description</th>
-                        <th className="px-4 py-2 text-right">Amount</th>
-                        <th className="px-4 py-2 text-left">Match</th>
-                        <th className="px-4 py-2 text-left">Confidence</th>
-                        <th className="px-4 py-2 text-left">Reason</th>
-                      </tr>
-                    </thead>
-                    <tbody>
-                      {reconciliationMatches.map((match, idx) => (
-                        <tr key={idx} className="border-b">
-                          <td className="px-4 py-2">{match.bankTransaction.date}</td>
-                          <td className="px-4 py-2">{match.bankTransaction.description}</td>
-                          <td className="px-4 py-2 text-right font-semibold">
-                            {formatCurrency(match.bankTransaction.amount, 'ZMW')}
-                          </td>
-                          <td className="px-4 py-2">
-                            {match.repayment ? (
-                              <div className="flex items-center gap-2">
-                                <CheckCircle2 className="w-4 h-4 text-green-600" />
-                                <span className="text-xs font-mono">
-                                  {match.repayment.loanId?.substring(0, 8)}
-                                </span>
-                              </div>
-                            ) : (
-                              <AlertCircle className="w-4 h-4 text-red-600" />
-                            )}
-                          </td>
-                          <td className="px-4 py-2">
-                            <Badge
-                              variant={
-                                match.matchConfidence === 'high' ? 'success' :
-                                match.matchConfidence === 'medium' ? 'warning' : 'outline'
-                              }
-                            >
-                              {match.matchConfidence}
-                            </Badge>
-                          </td>
-                          <td className="px-4 py-2 text-xs text-slate-500">
-                            {match.matchReason}
-                          </td>
-                        </tr>
-                      ))}
-                    </tbody>
-                  </table>
-                </div>
-              </div>
-            )}
-          </div>
-
-          <DialogFooter>
-            <Button
-              variant="outline"
-              onClick={() => {
-                setReconciliationDialogOpen(false);
-                setReconciliationMatches([]);
-                setReconciliationReport(null);
-              }}
-            >
-              Close
-            </Button>
-            {reconciliationReport && (
-              <Button
-                onClick={async () => {
-                  try {
-                    // Get matches with high or medium confidence
-                    const matchesToApply = reconciliationMatches.filter(
-                      m => m.repayment && (m.matchConfidence === 'high' || m.matchConfidence === 'medium')
-                    );
-                    
-                    if (matchesToApply.length === 0) {
-                      toast.error('No matches to apply. Only high/medium confidence matches can be applied.');
-                      return;
-                    }
-                    
-                    setProcessingReconciliation(true);
-                    
-                    // Import Firestore functions
-                    const { doc, updateDoc, serverTimestamp, Timestamp } = await import('firebase/firestore');
-                    
-                    let applied = 0;
-                    let failed = 0;
-                    
-                    for (const match of matchesToApply) {
-                      try {
-                        const repayment = match.repayment;
-                        const bankTx = match.bankTransaction;
-                        
-                        // Update repayment status to paid
-                        const repaymentRef = doc(
-                          db,
-                          'agencies',
-                          profile!.agency_id,
-                          'loans',
-                          repayment.loanId,
-                          'repayments',
-                          repayment.id
-                        );
-                        
-                        await updateDoc(repaymentRef, {
-                          status: 'paid',
-                          amountPaid: bankTx.amount,
-                          paidAt: bankTx.date ? Timestamp.fromDate(new Date(bankTx.date)) : serverTimestamp(),
-                          paymentMethod: 'bank_transfer',
-                          notes: `Reconciled from bank statement: ${bankTx.description}`,
-                          reconciledAt: serverTimestamp(),
-                          reconciledBy: profile!.id,
-                          transactionId: bankTx.reference || bankTx.account || undefined,
-                          updatedAt: serverTimestamp(),
-                        });
-                        
-                        // Update loan summary after payment
-                        const { updateLoanAfterPayment } = await import('../../../lib/firebase/repayment-helpers');
-                        await updateLoanAfterPayment(profile!.agency_id, repayment.loanId);
-                        
-                        applied++;
-                      } catch (error: any) {
-                        console.error('Error applying match:', error);
-                        failed++;
-                      }
-                    }
-                    
-                    // Invalidate queries to refresh data
-                    queryClient.invalidateQueries({ queryKey: ['accounting-repayments'] });
-                    queryClient.invalidateQueries({ queryKey: ['accounting-loans'] });
-                    
-                    if (applied > 0) {
-                      toast.success(`Successfully reconciled ${applied} repayment${applied > 1 ? 's' : ''}`);
-                    }
-                    if (failed > 0) {
-                      toast.error(`Failed to reconcile ${failed} repayment${failed > 1 ? 's' : ''}`);
-                    }
-                    
-                    setReconciliationDialogOpen(false);
-                    setReconciliationMatches([]);
-                    setReconciliationReport(null);
-                  } catch (error: any) {
-                    console.error('Error applying reconciliation:', error);
-                    toast.error('Failed to apply reconciliation: ' + error.message);
-                  } finally {
-                    setProcessingReconciliation(false);
-                  }
-                }}
-                disabled={processingReconciliation}
-                className="bg-gradient-to-r from-[#006BFF] to-[#3B82FF] hover:from-[#0052CC] hover:to-[#006BFF] text-white"
-              >
-                {processingReconciliation ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Applying...
-                  </>
-                ) : (
-                  <>
-                    <FileCheck className="mr-2 h-4 w-4" />
-                    Apply Matches ({reconciliationMatches.filter(m => m.repayment && (m.matchConfidence === 'high' || m.matchConfidence === 'medium')).length})
-                  </>
-                )}
-              </Button>
-            )}
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
     </div>
   );
 }
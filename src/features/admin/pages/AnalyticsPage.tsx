@@ -21,6 +21,7 @@ import { EmptyState } from '../../../components/ui/empty-state';
 import { Lock } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { cn } from '../../../lib/utils';
+import { PortfolioAnalyticsCard } from '../../../components/risk/PortfolioAnalyticsCard';
 
 export function AnalyticsPage() {
   const { profile } = useAuth();
@@ -214,6 +215,8 @@ export function AnalyticsPage() {
         </Card>
       )}
 
+      {profile?.agency_id && <PortfolioAnalyticsCard agencyId={profile.agency_id} />}
+
       {forecast && forecast.length > 0 && (
         <Card>
           <CardHeader>
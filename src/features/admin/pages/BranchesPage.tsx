@@ -40,9 +40,11 @@ import {
   deleteBranch,
   getBranchStatistics,
 } from '../../../lib/branches/branch-manager';
+import { formatCurrency } from '../../../lib/utils';
 import type { Branch } from '../../../types/features';
 import { useFeatureGate } from '../../../hooks/useFeatureGate';
 import { UpgradeModal } from '../../../components/pricing/UpgradeModal';
+import { CashManagementCard } from '../../../components/branches/CashManagementCard';
 
 const branchSchema = z.object({
   name: z.string().min(2, 'Branch name is required'),
@@ -239,6 +241,15 @@ export function BranchesPage() {
         )}
       </div>
 
+      {profile?.agency_id && branches.length > 0 && (
+        <CashManagementCard
+          agencyId={profile.agency_id}
+          userId={profile.id}
+          branches={branches}
+          canEditConfig={profile.role === 'admin'}
+        />
+      )}
+
       {/* Create/Edit Dialog */}
       <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
         <DialogContent className="max-w-2xl">
@@ -363,6 +374,7 @@ function BranchCard({
           <p className="text-neutral-600">{branch.address}</p>
           <p className="text-neutral-600">{branch.phone}</p>
           <p className="text-neutral-600">{branch.email}</p>
+          <p className="text-neutral-600">Vault: {formatCurrency(branch.vaultBalance || 0)}</p>
         </div>
 
         {isLoading ? (
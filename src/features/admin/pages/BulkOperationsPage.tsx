@@ -42,9 +42,16 @@ import toast from 'react-hot-toast';
 import { motion } from 'framer-motion';
 import { formatCurrency, formatDateSafe } from '../../../lib/utils';
 import { createAuditLog } from '../../../lib/firebase/firestore-helpers';
+import { changeLoanStatus } from '../../../lib/loans/workflow';
+import { LoanStatus, UserRole } from '../../../types/loan-workflow';
 
 export function BulkOperationsPage() {
   const { profile, user } = useAuth();
+  const userRole = (profile?.role === 'admin' ? UserRole.ADMIN :
+                   profile?.employee_category === 'accountant' ? UserRole.ACCOUNTANT :
+                   profile?.employee_category === 'manager' ? UserRole.MANAGER :
+                   profile?.employee_category === 'underwriter' ? UserRole.UNDERWRITER :
+                   UserRole.LOAN_OFFICER) as UserRole;
   const queryClient = useQueryClient();
   const [selectedLoans, setSelectedLoans] = useState<Set<string>>(new Set());
   const [selectedCustomers, setSelectedCustomers] = useState<Set<string>>(new Set());
@@ -85,30 +92,35 @@ export function BulkOperationsPage() {
     mutationFn: async (loanIds: string[]) => {
       if (!profile?.agency_id) throw new Error('Agency not found');
       
-      const batch = writeBatch(db);
-      loanIds.forEach(loanId => {
-        const loanRef = doc(db, 'agencies', profile.agency_id, 'loans', loanId);
-        batch.update(loanRef, {
-          status: bulkStatus,
-          updatedAt: serverTimestamp(),
-        });
-      });
-      
-      await batch.commit();
+      if (!user?.id) throw new Error('User not found');
       
-      // Create audit logs
+      // Each loan goes through the state machine; loans that cannot make the move are skipped
+      const failures: string[] = [];
       for (const loanId of loanIds) {
-        await createAuditLog(profile.agency_id, {
-          actorId: user?.id || 'system',
-          action: 'bulk_status_update',
-          targetCollection: 'loans',
-          targetId: loanId,
-          metadata: { newStatus: bulkStatus, bulkOperation: true },
-        }).catch(() => {});
+        const result = await changeLoanStatus({
+          loanId,
+          agencyId: profile.agency_id,
+          newStatus: bulkStatus as LoanStatus,
+          userId: user.id,
+          userRole,
+          notes: 'Bulk status update',
+        });
+        if (!result.success) {
+          failures.push(`${loanId}: ${result.error || 'Failed to update status'}`);
+        }
       }
+      
+      if (failures.length === loanIds.length) {
+        throw new Error(failures[0]);
+      }
+      return { updated: loanIds.length - failures.length, failures };
     },
-    onSuccess: () => {
-      toast.success(`Updated ${selectedLoans.size} loan(s) status to ${bulkStatus}`);
+    onSuccess: ({ updated, failures }) => {
+      toast.success(`Updated ${updated} loan(s) status to ${bulkStatus}`);
+      if (failures.length > 0) {
+        toast.error(`${failures.length} loan(s) could not be updated`);
+        console.warn('Bulk status update failures:', failures);
+      }
       setSelectedLoans(new Set());
       queryClient.invalidateQueries({ queryKey: ['loans'] });
     },
@@ -288,11 +300,12 @@ export function BulkOperationsPage() {
                   onChange={(e) => setBulkStatus(e.target.value)}
                   className="flex h-10 rounded-md border border-input bg-background px-3 py-2 text-sm"
                 >
-                  <option value="pending">Pending</option>
+                  <option value="under_review">Under Review</option>
                   <option value="approved">Approved</option>
+                  <option value="rejected">Rejected</option>
+                  <option value="disbursed">Disbursed</option>
                   <option value="active">Active</option>
-                  <option value="settled">Settled</option>
-                  <option value="defaulted">Defaulted</option>
+                  <option value="closed">Closed</option>
                 </select>
                 <Button
                   onClick={() => {
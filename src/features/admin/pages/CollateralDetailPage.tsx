@@ -25,22 +25,31 @@ import { Loader2 } from 'lucide-react';
 import { useState } from 'react';
 import * as React from 'react';
 import { estimateCollateralPrice, calculateCollateralProfit } from '../../../lib/ai/collateral-pricing';
-import { calculateLoanFinancials } from '../../../lib/firebase/loan-calculations';
+import { calculateLoanFinancials, getLoanScheduleOptions } from '../../../lib/firebase/loan-calculations';
+import { getAgencyInterestMethod } from '../../../lib/firebase/loan-settings';
 import toast from 'react-hot-toast';
 import { motion } from 'framer-motion';
 import { cn } from '../../../lib/utils';
 import { useFeatureGate } from '../../../hooks/useFeatureGate';
 import { UpgradeModal } from '../../../components/pricing/UpgradeModal';
+import { CollateralLiensCard } from '../../../components/collateral/CollateralLiensCard';
+import { RepossessionCard } from '../../../components/collateral/RepossessionCard';
+import { CollateralInsuranceCard } from '../../../components/collateral/CollateralInsuranceCard';
+import { UserRole } from '../../../types/loan-workflow';
+import { useAgency } from '../../../hooks/useAgency';
+import { recordCollateralValuation } from '../../../lib/firebase/collateral-valuation';
 
 export function CollateralDetailPage() {
   const { loanId, collateralId } = useParams<{ loanId?: string; collateralId: string }>();
   const { profile } = useAuth();
+  const { agency } = useAgency();
   const queryClient = useQueryClient();
   const { features, plan } = useFeatureGate();
   const [aiValuation, setAiValuation] = useState<any>(null);
   const [loadingValuation, setLoadingValuation] = useState(false);
   const [marketValue, setMarketValue] = useState<number | null>(null);
   const [loadingMarketValue, setLoadingMarketValue] = useState(false);
+  const [recordingValuation, setRecordingValuation] = useState(false);
   const [upgradeModalOpen, setUpgradeModalOpen] = useState(false);
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [aiVisionAnalysis, setAiVisionAnalysis] = useState<any>(null);
@@ -57,10 +66,36 @@ export function CollateralDetailPage() {
     brand: '',
     model: '',
     year: '',
+    areaHectares: '',
   });
   
   const hasCollateralValuation = features.collateralValuation;
 
+  // Record the market value as the valuation later revaluations depreciate from
+  const recordMarketValuation = async () => {
+    if (!collateral || !profile?.agency_id || !marketValue) return;
+
+    setRecordingValuation(true);
+    try {
+      const result = await recordCollateralValuation({
+        agencyId: profile.agency_id,
+        collateralId: collateral.id,
+        value: marketValue,
+        source: aiValuation?.priceBook ? 'price_book' : 'ai_estimate',
+        valuedBy: profile.id,
+        priceBook: aiValuation?.priceBook,
+      });
+      if (!result.success) {
+        toast.error(result.error || 'Failed to record valuation');
+        return;
+      }
+      toast.success('Market valuation recorded');
+      queryClient.invalidateQueries({ queryKey: ['collateral', profile.agency_id, loanId, collateralId] });
+    } finally {
+      setRecordingValuation(false);
+    }
+  };
+
   // AI Vision Analysis function
   const analyzeWithAI = async () => {
     if (!collateral || !profile?.agency_id) return;
@@ -202,6 +237,7 @@ export function CollateralDetailPage() {
         brand: collateral.brand || '',
         model: collateral.model || '',
         year: collateral.year || '',
+        areaHectares: String((collateral as { areaHectares?: number }).areaHectares || ''),
       });
     }
   }, [collateral]);
@@ -227,6 +263,7 @@ export function CollateralDetailPage() {
         brand: data.brand,
         model: data.model,
         year: data.year,
+        areaHectares: parseFloat(data.areaHectares) || null,
         updatedAt: serverTimestamp(),
       };
 
@@ -279,6 +316,7 @@ export function CollateralDetailPage() {
         year: collateral.year,
         condition: collateral.condition || 'good',
         location: collateral.location,
+        areaHectares: Number((collateral as { areaHectares?: number }).areaHectares) || undefined,
         estimatedValue: Number(collateral.estimatedValue || collateral.value || 0),
       });
       setMarketValue(pricingResult.estimatedMarketValue);
@@ -316,7 +354,7 @@ export function CollateralDetailPage() {
     
     if (principal > 0 && interestRate > 0 && durationMonths > 0) {
       // Use calculateLoanFinancials to get the correct total amount (accounts for loan duration)
-      const financials = calculateLoanFinancials(principal, interestRate, durationMonths);
+      const financials = calculateLoanFinancials(principal, interestRate, durationMonths, getLoanScheduleOptions(loan, getAgencyInterestMethod(agency)));
       remainingBalance = Math.max(0, financials.totalAmount - totalPaid);
     } else {
       // Fallback for loans without proper duration/rate data
@@ -361,6 +399,24 @@ export function CollateralDetailPage() {
   };
 
   const photos = collateral.photos || [];
+  // Identifiers the lien registry matches on, and the owner whose loans it can secure
+  const registryFields = collateral as {
+    registrationNumber?: string;
+    titleNumber?: string;
+    ownerCustomerId?: string;
+    customerId?: string;
+    type?: string;
+    currency?: string;
+    currentValue?: number;
+    lastRevaluedAt?: { toDate?: () => Date } | Date;
+  };
+  const pledgeCustomerId = registryFields.ownerCustomerId || registryFields.customerId || (loan as { customerId?: string } | null | undefined)?.customerId;
+  const userRole = (profile?.role === 'admin' ? UserRole.ADMIN :
+                   profile?.employee_category === 'manager' ? UserRole.MANAGER :
+                   profile?.employee_category === 'accountant' ? UserRole.ACCOUNTANT :
+                   profile?.employee_category === 'collections' ? UserRole.COLLECTIONS :
+                   profile?.employee_category === 'loan_officer' ? UserRole.LOAN_OFFICER :
+                   UserRole.ADMIN) as UserRole;
 
   return (
     <div className="space-y-6">
@@ -612,6 +668,18 @@ export function CollateralDetailPage() {
                   <p className="font-mono text-sm">{collateral.serialNumber}</p>
                 </div>
               )}
+              {registryFields.registrationNumber && (
+                <div>
+                  <p className="text-xs font-semibold text-neutral-500 uppercase tracking-wider mb-1">Registration Number</p>
+                  <p className="font-mono text-sm">{registryFields.registrationNumber}</p>
+                </div>
+              )}
+              {registryFields.titleNumber && (
+                <div>
+                  <p className="text-xs font-semibold text-neutral-500 uppercase tracking-wider mb-1">Title Number</p>
+                  <p className="font-mono text-sm">{registryFields.titleNumber}</p>
+                </div>
+              )}
               {loanCoverageRatio > 0 && (
                 <div className="pt-4 border-t border-neutral-200">
                   <div className="flex items-center justify-between mb-2">
@@ -650,6 +718,39 @@ export function CollateralDetailPage() {
         </motion.div>
       </div>
 
+      {/* Liens */}
+      {profile?.agency_id && profile.id && collateralId && (
+        <CollateralLiensCard
+          agencyId={profile.agency_id}
+          userId={profile.id}
+          collateralId={collateralId}
+          customerId={pledgeCustomerId}
+          agencyName={agency?.name}
+          canRelease={profile.role === 'admin'}
+        />
+      )}
+
+      {/* Insurance */}
+      {profile?.agency_id && profile.id && collateralId && (
+        <CollateralInsuranceCard
+          agencyId={profile.agency_id}
+          userId={profile.id}
+          collateralId={collateralId}
+          defaultBeneficiary={agency?.name}
+        />
+      )}
+
+      {/* Repossession */}
+      {profile?.agency_id && profile.id && collateralId && (
+        <RepossessionCard
+          agencyId={profile.agency_id}
+          userId={profile.id}
+          userRole={userRole}
+          collateralId={collateralId}
+          agencyName={agency?.name}
+        />
+      )}
+
       {/* Market Valuation Section */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
@@ -677,6 +778,19 @@ export function CollateralDetailPage() {
                     Value entered when creating collateral
                   </p>
                 </div>
+                {registryFields.currentValue !== undefined && registryFields.lastRevaluedAt && (
+                  <div>
+                    <p className="text-xs font-semibold text-neutral-500 uppercase tracking-wider mb-2">
+                      Current Value (Revalued)
+                    </p>
+                    <p className="text-2xl font-bold text-neutral-900">
+                      {formatCurrency(registryFields.currentValue, registryFields.currency || 'ZMW')}
+                    </p>
+                    <p className="text-sm text-neutral-500 mt-1">
+                      Depreciated to {formatDateSafe(registryFields.lastRevaluedAt)}
+                    </p>
+                  </div>
+                )}
                 {loadingMarketValue ? (
                   <div className="flex items-center gap-2 text-neutral-500">
                     <Loader2 className="w-4 h-4 animate-spin" />
@@ -685,7 +799,7 @@ export function CollateralDetailPage() {
                 ) : marketValue ? (
                   <div>
                     <p className="text-xs font-semibold text-neutral-500 uppercase tracking-wider mb-2">
-                      Market Value (AI Estimated)
+                      Market Value ({aiValuation?.priceBook ? `Price Book v${aiValuation.priceBook.version}` : 'AI Estimated'})
                     </p>
                     <p className="text-2xl font-bold text-[#22C55E]">
                       {formatCurrency(marketValue, collateral.currency || 'ZMW')}
@@ -700,8 +814,22 @@ export function CollateralDetailPage() {
                       </p>
                     )}
                     <p className="text-xs text-neutral-500 mt-1">
-                      Based on {collateral.name || collateral.description} market analysis
+                      {aiValuation?.priceBook
+                        ? aiValuation.priceBook.explanation
+                        : `Based on ${collateral.name || collateral.description} market analysis`}
                     </p>
+                    {userRole !== UserRole.LOAN_OFFICER && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={recordMarketValuation}
+                        disabled={recordingValuation}
+                        className="mt-2"
+                      >
+                        {recordingValuation && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                        Record as Market Valuation
+                      </Button>
+                    )}
                   </div>
                 ) : (
                   <Button
@@ -1012,6 +1140,21 @@ export function CollateralDetailPage() {
                 placeholder="e.g., Lusaka, Zambia"
               />
             </div>
+
+            {registryFields.type === 'land' && (
+              <div className="space-y-2">
+                <Label htmlFor="areaHectares">Area (hectares)</Label>
+                <Input
+                  id="areaHectares"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={editForm.areaHectares}
+                  onChange={(e) => setEditForm({ ...editForm, areaHectares: e.target.value })}
+                  placeholder="Priced per hectare from the price book"
+                />
+              </div>
+            )}
           </div>
 
           <DialogFooter>
@@ -31,6 +31,10 @@ import { formatCurrency, formatDateSafe } from '../../../lib/utils';
 import { Link } from 'react-router-dom';
 import toast from 'react-hot-toast';
 import { AddCollateralDrawer } from '../components/AddCollateralDrawer';
+import { CollateralLienRegistryCard } from '../../../components/collateral/CollateralLienRegistryCard';
+import { RepossessionsCard } from '../../../components/collateral/RepossessionsCard';
+import { CollateralMonitoringCard } from '../../../components/collateral/CollateralMonitoringCard';
+import { PriceBookCard } from '../../../components/collateral/PriceBookCard';
 import { motion, AnimatePresence } from 'framer-motion';
 import { cn } from '../../../lib/utils';
 
@@ -768,6 +772,41 @@ export function CollateralsPage() {
         </CardContent>
       </Card>
 
+      {/* Revaluation and LTV Monitoring */}
+      {profile?.agency_id && (
+        <CollateralMonitoringCard
+          agencyId={profile.agency_id}
+          canRun={profile.role === 'admin' || profile.employee_category === 'manager'}
+        />
+      )}
+
+      {/* Price Book */}
+      {profile?.agency_id && (
+        <PriceBookCard
+          agencyId={profile.agency_id}
+          userId={profile.id}
+          canEdit={profile.role === 'admin'}
+        />
+      )}
+
+      {/* Lien Registry */}
+      {profile?.agency_id && (
+        <CollateralLienRegistryCard
+          agencyId={profile.agency_id}
+          userId={profile.id}
+          canEditConfig={profile.role === 'admin'}
+        />
+      )}
+
+      {/* Repossessions */}
+      {profile?.agency_id && (
+        <RepossessionsCard
+          agencyId={profile.agency_id}
+          userId={profile.id}
+          canEditConfig={profile.role === 'admin'}
+        />
+      )}
+
       <AddCollateralDrawer
         open={addDrawerOpen}
         onOpenChange={setAddDrawerOpen}
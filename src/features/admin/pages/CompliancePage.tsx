@@ -1,6 +1,6 @@
 import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { collection, getDocs, doc, addDoc, updateDoc, query as firestoreQuery, where, orderBy, serverTimestamp } from 'firebase/firestore';
+import { collection, getDocs, doc, updateDoc, query as firestoreQuery, where, orderBy } from 'firebase/firestore';
 import { db } from '../../../lib/firebase/config';
 import { useAuth } from '../../../hooks/useAuth';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '../../../components/ui/card';
@@ -29,7 +29,6 @@ import {
 } from '../../../components/ui/dialog';
 import {
   Shield,
-  FileText,
   CheckCircle2,
   XCircle,
   Clock,
@@ -49,6 +48,8 @@ import { motion } from 'framer-motion';
 import { useFeatureGate } from '../../../hooks/useFeatureGate';
 import { UpgradeModal } from '../../../components/pricing/UpgradeModal';
 import { scheduleComplianceReports } from '../../../lib/compliance/compliance-automation';
+import { RegulatoryReportsCard } from '../../../components/compliance/RegulatoryReportsCard';
+import { TaxReportsCard } from '../../../components/compliance/TaxReportsCard';
 
 interface ComplianceChecklist {
   id: string;
@@ -63,17 +64,6 @@ interface ComplianceChecklist {
   notes?: string;
 }
 
-interface RegulatoryReport {
-  id: string;
-  name: string;
-  type: string;
-  period: string;
-  status: 'draft' | 'submitted' | 'approved';
-  submittedAt?: Date;
-  dueDate?: Date;
-  data: Record<string, any>;
-}
-
 export function CompliancePage() {
   const { profile, user } = useAuth();
   const { features, plan } = useFeatureGate();
@@ -157,34 +147,6 @@ export function CompliancePage() {
     enabled: !!profile?.agency_id,
   });
 
-  // Regulatory report templates
-  const reportTemplates: RegulatoryReport[] = [
-    {
-      id: 'monthly-loan-report',
-      name: 'Monthly Loan Portfolio Report',
-      type: 'portfolio',
-      period: 'monthly',
-      status: 'draft',
-      data: {},
-    },
-    {
-      id: 'default-report',
-      name: 'Default Rate Report',
-      type: 'defaults',
-      period: 'quarterly',
-      status: 'draft',
-      data: {},
-    },
-    {
-      id: 'customer-report',
-      name: 'Customer Data Report',
-      type: 'customers',
-      period: 'annual',
-      status: 'draft',
-      data: {},
-    },
-  ];
-
   const toggleChecklistItem = (id: string) => {
     setChecklistItems(items =>
       items.map(item =>
@@ -217,45 +179,6 @@ export function CompliancePage() {
     toast.success('Checklist item added');
   };
 
-  const generateReport = async (template: RegulatoryReport) => {
-    try {
-      // Generate report data based on template type
-      let reportData: Record<string, any> = {};
-
-      if (template.type === 'portfolio') {
-        const loansRef = collection(db, 'agencies', profile!.agency_id, 'loans');
-        const loansSnapshot = await getDocs(loansRef);
-        const loans = loansSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })).filter((l: any) => !l.deleted);
-
-        reportData = {
-          totalLoans: loans.length,
-          activeLoans: loans.filter((l: any) => l.status === 'active').length,
-          totalPortfolioValue: loans.reduce((sum: number, l: any) => sum + Number(l.amount || 0), 0),
-          averageLoanAmount: loans.length > 0
-            ? loans.reduce((sum: number, l: any) => sum + Number(l.amount || 0), 0) / loans.length
-            : 0,
-          defaultRate: loans.length > 0
-            ? (loans.filter((l: any) => l.status === 'defaulted').length / loans.length) * 100
-            : 0,
-        };
-      }
-
-      // Create report document
-      const reportRef = collection(db, 'agencies', profile!.agency_id, 'regulatory_reports');
-      await addDoc(reportRef, {
-        ...template,
-        data: reportData,
-        generatedAt: serverTimestamp(),
-        generatedBy: user?.id,
-        status: 'draft',
-      });
-
-      toast.success('Report generated successfully');
-    } catch (error: any) {
-      toast.error(error.message || 'Failed to generate report');
-    }
-  };
-
   const filteredChecklist = selectedCategory === 'all'
     ? checklistItems
     : checklistItems.filter(item => item.category === selectedCategory);
@@ -443,73 +366,22 @@ export function CompliancePage() {
             </Card>
           )}
 
-          <Card>
-            <CardHeader>
-              <CardTitle>Regulatory Reports</CardTitle>
-              <CardDescription>Generate and submit regulatory reports</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                {reportTemplates.map((template) => (
-                  <div key={template.id} className="flex items-center justify-between p-4 border rounded-lg">
-                    <div className="flex-1">
-                      <div className="flex items-center gap-3">
-                        <FileText className="w-5 h-5 text-[#006BFF]" />
-                        <div>
-                          <p className="font-semibold">{template.name}</p>
-                          <p className="text-sm text-neutral-500">
-                            {template.type} • {template.period}
-                          </p>
-                        </div>
-                      </div>
-                    </div>
-                    <div className="flex items-center gap-2">
-                      <Badge variant="outline">{template.status}</Badge>
-                      <Button
-                        variant="outline"
-                        onClick={() => generateReport(template)}
-                      >
-                        <Download className="mr-2 h-4 w-4" />
-                        Generate
-                      </Button>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
+          {profile?.agency_id && (
+            <RegulatoryReportsCard
+              agencyId={profile.agency_id}
+              userId={user?.id || ''}
+              canSubmit={profile.role === 'admin'}
+              canEditConfig={profile.role === 'admin'}
+            />
+          )}
 
-          {/* Report Templates */}
-          <Card>
-            <CardHeader>
-              <CardTitle>Report Templates</CardTitle>
-              <CardDescription>Pre-configured regulatory report templates</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="p-4 border rounded-lg">
-                  <h4 className="font-semibold mb-2">Monthly Portfolio Report</h4>
-                  <p className="text-sm text-neutral-600 mb-4">
-                    Summary of loan portfolio, disbursements, and collections
-                  </p>
-                  <Button variant="outline" size="sm">
-                    <Download className="mr-2 h-4 w-4" />
-                    Download Template
-                  </Button>
-                </div>
-                <div className="p-4 border rounded-lg">
-                  <h4 className="font-semibold mb-2">Default Rate Report</h4>
-                  <p className="text-sm text-neutral-600 mb-4">
-                    Analysis of default rates and at-risk loans
-                  </p>
-                  <Button variant="outline" size="sm">
-                    <Download className="mr-2 h-4 w-4" />
-                    Download Template
-                  </Button>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
+          {profile?.agency_id && (
+            <TaxReportsCard
+              agencyId={profile.agency_id}
+              userId={user?.id || ''}
+              canEditConfig={profile.role === 'admin'}
+            />
+          )}
         </TabsContent>
 
         {/* Audit Trail */}
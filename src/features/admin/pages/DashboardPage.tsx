@@ -6,7 +6,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '../../../components/ui
 import { Button } from '../../../components/ui/button';
 import { Badge } from '../../../components/ui/badge';
 import { Skeleton } from '../../../components/ui/skeleton';
-import { ArrowUpRight, ArrowDownRight, DollarSign, Users, FileCheck, UserPlus, Plus, AlertTriangle, TrendingUp, Calendar, Sparkles } from 'lucide-react';
+import { ArrowUpRight, ArrowDownRight, DollarSign, Users, FileCheck, UserPlus, Plus, AlertTriangle, TrendingUp, Calendar, Sparkles, FileX, Receipt } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, Legend } from 'recharts';
 import { formatCurrency, formatDate } from '../../../lib/utils';
 import { useAuth } from '../../../hooks/useAuth';
@@ -161,6 +161,10 @@ export function AdminDashboard() {
         overdueLoans: 0,
         totalLoans: 0,
         totalPortfolioValue: 0,
+        writtenOffLoans: 0,
+        grossLosses: 0,
+        recoveries: 0,
+        netLosses: 0,
       });
       return;
     }
@@ -271,12 +275,14 @@ export function AdminDashboard() {
       // Status distribution for pie chart (ensure we always have data)
       const completedLoans = loans.filter((l: any) => l.status === 'completed' || l.status === 'paid');
       const defaultedLoans = loans.filter((l: any) => l.status === 'defaulted');
+      const writtenOffLoans = loans.filter((l: any) => l.status === 'written_off');
       
       const statusData = [
         { name: 'Active', value: activeLoans.length, color: '#10b981' },
         { name: 'Pending', value: pendingLoans.length, color: '#f59e0b' },
         { name: 'Completed', value: completedLoans.length, color: '#3b82f6' },
         { name: 'Defaulted', value: defaultedLoans.length, color: '#ef4444' },
+        { name: 'Written Off', value: writtenOffLoans.length, color: '#6b7280' },
       ].filter(item => item.value > 0); // Only show statuses with loans
 
       return { chartData: chartDataArray, statusData, officerPerformance };
@@ -491,7 +497,9 @@ export function AdminDashboard() {
         <StatCard
           title="Overdue Loans"
           value={stats?.overdueLoans || 0}
-          change={stats?.overdueLoans > 0 ? 'Action needed' : 'All good'}
+          change={overdueSummary?.portfolioAtRisk
+            ? `PAR30 ${(overdueSummary.portfolioAtRisk.par30 * 100).toFixed(1)}%`
+            : stats?.overdueLoans > 0 ? 'Action needed' : 'All good'}
           trend={stats?.overdueLoans > 0 ? 'down' : 'up'}
           icon={AlertTriangle}
           onClick={() => navigate('/admin/loans?overdue=true')}
@@ -505,6 +513,25 @@ export function AdminDashboard() {
         />
       </div>
 
+      {/* Credit Losses - written off, gross and net of recoveries */}
+      <div className="grid gap-6 md:grid-cols-2">
+        <StatCard
+          title="Gross Losses"
+          value={formatCurrency(stats?.grossLosses || 0, 'ZMW')}
+          change={`${stats?.writtenOffLoans || 0} loans written off`}
+          trend="down"
+          icon={FileX}
+          onClick={() => navigate('/admin/loans?status=written_off')}
+        />
+        <StatCard
+          title="Net Losses"
+          value={formatCurrency(stats?.netLosses || 0, 'ZMW')}
+          change={`${formatCurrency(stats?.recoveries || 0, 'ZMW')} recovered`}
+          trend={stats?.recoveries > 0 ? 'up' : 'down'}
+          icon={Receipt}
+        />
+      </div>
+
       {/* Charts - Reference Style */}
       <div className="grid gap-6 grid-cols-1 md:grid-cols-2 lg:grid-cols-7">
         <motion.div
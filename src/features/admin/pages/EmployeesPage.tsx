@@ -162,7 +162,7 @@ export function EmployeesPage() {
                 try {
                   const { importEmployeesFromCSV } = await import('../../../lib/data-import');
                   const { createEmployee } = await import('../../../lib/firebase/firestore-helpers');
-                  const { addCollateral } = await import('../../../lib/firebase/firestore-helpers');
+                  const { addPledgedCollateral } = await import('../../../lib/firebase/collateral-liens');
                   
                   const result = await importEmployeesFromCSV(
                     file,
@@ -172,7 +172,7 @@ export function EmployeesPage() {
                       await createEmployee(agencyId, data);
                     },
                     async (agencyId, loanId, data) => {
-                      await addCollateral(agencyId, loanId, data);
+                      await addPledgedCollateral(agencyId, loanId, data, user.id);
                     }
                   );
                   
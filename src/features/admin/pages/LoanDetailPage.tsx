@@ -55,15 +55,20 @@ import {
   Loader2,
   CreditCard,
   MoreVertical,
-  Send
+  Send,
+  RefreshCw,
+  Receipt,
+  FileX
 } from 'lucide-react';
 import { formatCurrency, formatDateSafe } from '../../../lib/utils';
 import { LoanStatusDialog } from '../components/LoanStatusDialog';
 import { RepaymentSection } from '../../../components/repayment/RepaymentSection';
 import { AddPaymentDialog } from '../../../components/payment/AddPaymentDialog';
+import { SettlementQuoteDialog } from '../../../components/payment/SettlementQuoteDialog';
 import { useState, useEffect } from 'react';
 import toast from 'react-hot-toast';
-import { calculateLoanFinancials } from '../../../lib/firebase/loan-calculations';
+import { calculateLoanFinancials, getLoanScheduleOptions } from '../../../lib/firebase/loan-calculations';
+import { getAgencyInterestMethod } from '../../../lib/firebase/loan-settings';
 import { motion } from 'framer-motion';
 import { cn } from '../../../lib/utils';
 import { createAuditLog } from '../../../lib/firebase/firestore-helpers';
@@ -72,8 +77,14 @@ import { AIInsightsPanel } from '../../../components/ai/AIInsightsPanel';
 import { Sparkles } from 'lucide-react';
 import { AddCollateralDrawer } from '../components/AddCollateralDrawer';
 import { LoanApprovalDialog } from '../components/LoanApprovalDialog';
-import { LoanStatus, UserRole, getLoanPermissions } from '../../../types/loan-workflow';
+import { RestructureLoanDialog } from '../components/RestructureLoanDialog';
+import { WriteOffLoanDialog } from '../components/WriteOffLoanDialog';
+import { CreditDecisionCard } from '../../../components/loan/CreditDecisionCard';
+import { LoanRecoveriesCard } from '../../../components/loan/LoanRecoveriesCard';
+import { LoanStatus, UserRole, getLoanPermissions, WRITE_OFF_STATUSES } from '../../../types/loan-workflow';
 import { submitLoanForReview, disburseLoan } from '../../../lib/loans/workflow';
+import { getOpenTellerSession } from '../../../lib/branches/teller-sessions';
+import { getPendingWriteOff } from '../../../lib/loans/write-off';
 import { useAgency } from '../../../hooks/useAgency';
 import { EditLoanDrawer } from '../../employee/components/EditLoanDrawer';
 
@@ -91,11 +102,15 @@ export function LoanDetailPage() {
   const [selectedAction, setSelectedAction] = useState<'approve' | 'reject' | null>(null);
   const [activeTab, setActiveTab] = useState('overview');
   const [editLoanDrawerOpen, setEditLoanDrawerOpen] = useState(false);
+  const [restructureMode, setRestructureMode] = useState<'request' | 'review' | null>(null);
+  const [settlementDialogOpen, setSettlementDialogOpen] = useState(false);
+  const [writeOffMode, setWriteOffMode] = useState<'request' | 'review' | null>(null);
 
   // Get user role
   const userRole = (profile?.role === 'admin' ? UserRole.ADMIN : 
                    profile?.employee_category === 'accountant' ? UserRole.ACCOUNTANT :
                    profile?.employee_category === 'loan_officer' ? UserRole.LOAN_OFFICER :
+                   profile?.employee_category === 'collections' ? UserRole.COLLECTIONS :
                    UserRole.ADMIN) as UserRole;
 
   // Handle loan actions
@@ -132,11 +147,17 @@ export function LoanDetailPage() {
     }
 
     try {
-      const result = await disburseLoan(loanId, agency.id, user.id, userRole);
+      // A teller with an open drawer may pay the loan out in cash from it
+      const tellerSession = await getOpenTellerSession(agency.id, user.id);
+      const disbursementMethod = tellerSession
+        ? (confirm('Pay out in cash from your teller drawer?') ? 'cash' : 'bank_transfer')
+        : undefined;
+      const result = await disburseLoan(loanId, agency.id, user.id, userRole, undefined, disbursementMethod);
       if (result.success) {
         toast.success('Loan disbursed successfully');
         queryClient.invalidateQueries({ queryKey: ['loan', loanId] });
         queryClient.invalidateQueries({ queryKey: ['loans'] });
+        queryClient.invalidateQueries({ queryKey: ['teller-session', agency.id] });
       } else {
         toast.error(result.error || 'Failed to disburse loan');
       }
@@ -353,6 +374,13 @@ export function LoanDetailPage() {
     },
   });
 
+  // A write-off request awaiting a decision switches the menu to review
+  const { data: pendingWriteOff } = useQuery({
+    queryKey: ['loan-write-off', profile?.agency_id, loanId],
+    queryFn: () => getPendingWriteOff(profile!.agency_id!, loanId!),
+    enabled: !!profile?.agency_id && !!loanId && WRITE_OFF_STATUSES.includes(loan?.status as LoanStatus),
+  });
+
   const getStatusBadge = (status?: string) => {
     // Normalize status - default to "pending" if undefined, null, empty, or "draft"
     const normalizedStatus = (!status || status === '' || status === 'draft') 
@@ -371,6 +399,9 @@ export function LoanDetailPage() {
       closed: { label: 'Closed', className: 'bg-neutral-100 text-neutral-700 border-neutral-200' },
       defaulted: { label: 'Defaulted', className: 'bg-red-50 text-red-700 border-red-200' },
       overdue: { label: 'Overdue', className: 'bg-orange-50 text-orange-700 border-orange-200' },
+      restructuring: { label: 'Restructure Pending', className: 'bg-purple-50 text-purple-700 border-purple-200' },
+      restructured: { label: 'Restructured', className: 'bg-purple-50 text-purple-700 border-purple-200' },
+      written_off: { label: 'Written Off', className: 'bg-neutral-100 text-neutral-700 border-neutral-300' },
     };
 
     const config = statusConfig[normalizedStatus] || { 
@@ -441,11 +472,14 @@ export function LoanDetailPage() {
   const principal = Number(loan?.amount || 0);
   const interestRate = Number(loan?.interestRate || 0);
   const durationMonths = Number(loan?.durationMonths || 0);
-  const financials = calculateLoanFinancials(principal, interestRate, durationMonths);
+  const financials = calculateLoanFinancials(principal, interestRate, durationMonths, getLoanScheduleOptions(loan, getAgencyInterestMethod(agency)));
   const totalPaid = (loan?.repayments && Array.isArray(loan.repayments))
     ? loan.repayments.reduce((sum: number, r: any) => sum + Number(r?.amountPaid || 0), 0)
     : 0;
-  const remainingBalance = Math.max(0, financials.totalAmount - totalPaid);
+  // Restructured loans no longer follow their original terms; use the schedule-based balance
+  const remainingBalance = loan?.restructuredPrincipal != null && loan?.remainingBalance != null
+    ? Number(loan.remainingBalance)
+    : Math.max(0, financials.totalAmount - totalPaid);
   const startDate = loan?.createdAt?.toDate?.() || loan?.createdAt || new Date();
   const endDate = loan?.endDate?.toDate?.() || loan?.endDate || (() => {
     const end = new Date(startDate);
@@ -502,7 +536,7 @@ export function LoanDetailPage() {
 
 
               {/* Add Payment - Quick action for active loans */}
-              {(loan.status === 'active' || loan.status === 'approved' || loan.status === 'disbursed') && (
+              {(loan.status === 'active' || loan.status === 'approved' || loan.status === 'disbursed' || loan.status === 'restructured') && (
                 <Button
                   onClick={() => setPaymentDialogOpen(true)}
                   variant="outline"
@@ -611,6 +645,71 @@ export function LoanDetailPage() {
                   )
                 )}
 
+                {/* Restructure - distressed loans, approved by a manager */}
+                {permissions.canRestructure && ['active', 'overdue', 'restructured'].includes(loan.status) && (
+                  <DropdownMenuItem
+                    onClick={(e) => {
+                      e.preventDefault();
+                      setRestructureMode('request');
+                    }}
+                    className="cursor-pointer rounded-lg"
+                  >
+                    <RefreshCw className="mr-2 h-4 w-4" />
+                    Restructure Loan
+                  </DropdownMenuItem>
+                )}
+                {/* Early Settlement - quote a payoff and close the loan on payment */}
+                {(permissions.canManageRepayments || permissions.canClose) && ['active', 'overdue', 'restructured'].includes(loan.status) && (
+                  <DropdownMenuItem
+                    onClick={(e) => {
+                      e.preventDefault();
+                      setSettlementDialogOpen(true);
+                    }}
+                    className="cursor-pointer rounded-lg"
+                  >
+                    <Receipt className="mr-2 h-4 w-4" />
+                    Early Settlement
+                  </DropdownMenuItem>
+                )}
+                {permissions.canApprove && loan.status === 'restructuring' && (
+                  <DropdownMenuItem
+                    onClick={(e) => {
+                      e.preventDefault();
+                      setRestructureMode('review');
+                    }}
+                    className="cursor-pointer rounded-lg text-emerald-600 focus:text-emerald-600 focus:bg-emerald-50"
+                  >
+                    <RefreshCw className="mr-2 h-4 w-4" />
+                    Review Restructure
+                  </DropdownMenuItem>
+                )}
+                {/* Write-off - requested by staff, approved by a second manager */}
+                {pendingWriteOff ? (
+                  permissions.canWriteOff && (
+                    <DropdownMenuItem
+                      onClick={(e) => {
+                        e.preventDefault();
+                        setWriteOffMode('review');
+                      }}
+                      className="cursor-pointer rounded-lg text-red-600 focus:text-red-600 focus:bg-red-50"
+                    >
+                      <FileX className="mr-2 h-4 w-4" />
+                      Review Write-off
+                    </DropdownMenuItem>
+                  )
+                ) : permissions.canRequestWriteOff && (
+                  <DropdownMenuItem
+                    onClick={(e) => {
+                      e.preventDefault();
+                      setWriteOffMode('request');
+                    }}
+                    className="cursor-pointer rounded-lg text-red-600 focus:text-red-600 focus:bg-red-50"
+                  >
+                    <FileX className="mr-2 h-4 w-4" />
+                    Write Off Loan
+                  </DropdownMenuItem>
+                )}
+
                 {/* Edit Loan - Show for DRAFT loans or authorized roles */}
                 {permissions.canEdit && (
                   <DropdownMenuItem
@@ -674,6 +773,42 @@ export function LoanDetailPage() {
         {/* Overview Tab */}
         <TabsContent value="overview" className="space-y-6 mt-6">
           {/* AI Insights for this loan - Only show if there are actual insights (not just loading) */}
+          {/* Top-up / refinancing history */}
+          {(loan.refinancedBy || loan.refinance?.loans?.length > 0) && (
+            <Card className="border-neutral-200 dark:border-neutral-800">
+              <CardContent className="pt-6 space-y-2 text-sm">
+                {loan.refinancedBy && (
+                  <p>
+                    <span className="text-muted-foreground">Closed as refinanced by </span>
+                    <Link to={`/admin/loans/${loan.refinancedBy}`} className="font-semibold text-[#006BFF] hover:underline">
+                      {loan.refinancedByLoanNumber || loan.refinancedBy}
+                    </Link>
+                  </p>
+                )}
+                {loan.refinance?.loans?.length > 0 && (
+                  <>
+                    <p className="text-muted-foreground">
+                      Top-up consolidating {loan.refinance.loans.length} loan{loan.refinance.loans.length === 1 ? '' : 's'}
+                      {loan.refinance.settledAt ? ', settled on disbursement' : ', to be settled on disbursement'}:
+                    </p>
+                    {loan.refinance.loans.map((refinanced: any) => (
+                      <div key={refinanced.loanId} className="flex justify-between">
+                        <Link to={`/admin/loans/${refinanced.loanId}`} className="text-[#006BFF] hover:underline">
+                          {refinanced.loanNumber || refinanced.loanId}
+                        </Link>
+                        <span>{formatCurrency(refinanced.payoffAmount)}</span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between font-semibold pt-2 border-t border-neutral-200 dark:border-neutral-800">
+                      <span>Net disbursement</span>
+                      <span>{formatCurrency(loan.refinance.netDisbursement)}</span>
+                    </div>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {!aiLoading && loanAIInsights.length > 0 && (
             <Card className="border-neutral-200 dark:border-neutral-800">
               <CardHeader>
@@ -896,6 +1031,27 @@ export function LoanDetailPage() {
             </CardContent>
           </Card>
       </div>
+          {profile?.agency_id && loan.status === LoanStatus.WRITTEN_OFF && (
+            <div className="mt-6">
+              <LoanRecoveriesCard
+                agencyId={profile.agency_id}
+                loan={loan}
+                userId={user?.id || ''}
+                canRecord={[UserRole.ADMIN, UserRole.MANAGER, UserRole.ACCOUNTANT, UserRole.COLLECTIONS].includes(userRole)}
+              />
+            </div>
+          )}
+          {profile?.agency_id && (
+            <div className="mt-6">
+              <CreditDecisionCard
+                agencyId={profile.agency_id}
+                loanId={loan.id}
+                decision={loan.creditDecision}
+                canRun={[LoanStatus.PENDING, LoanStatus.UNDER_REVIEW].includes(loan.status as LoanStatus) &&
+                  (permissions.canApprove || permissions.canReject)}
+              />
+            </div>
+          )}
         </TabsContent>
 
         {/* Repayments Tab */}
@@ -1099,6 +1255,7 @@ export function LoanDetailPage() {
             loanId={loan.id}
             currentStatus={loan?.status || 'pending'}
             agencyId={profile?.agency_id || ''}
+            userRole={userRole}
           />
       )}
 
@@ -1135,6 +1292,66 @@ export function LoanDetailPage() {
           />
       )}
 
+      {loan && loanId && agency?.id && restructureMode && (
+        <RestructureLoanDialog
+          open={!!restructureMode}
+          onOpenChange={(open) => {
+            if (!open) setRestructureMode(null);
+          }}
+          loanId={loanId}
+          agencyId={agency.id}
+          userRole={userRole}
+          mode={restructureMode}
+          defaultTerms={{
+            interestRate,
+            durationMonths,
+            repaymentFrequency: getLoanScheduleOptions(loan, getAgencyInterestMethod(agency)).frequency || 'monthly',
+          }}
+          onSuccess={() => {
+            queryClient.invalidateQueries({ queryKey: ['loan', loanId] });
+            queryClient.invalidateQueries({ queryKey: ['loans'] });
+            refetchLoan();
+          }}
+        />
+      )}
+
+      {loan && loanId && agency?.id && writeOffMode && (
+        <WriteOffLoanDialog
+          open={!!writeOffMode}
+          onOpenChange={(open) => {
+            if (!open) setWriteOffMode(null);
+          }}
+          loanId={loanId}
+          agencyId={agency.id}
+          userRole={userRole}
+          mode={writeOffMode}
+          onSuccess={() => {
+            queryClient.invalidateQueries({ queryKey: ['loan-write-off'] });
+            queryClient.invalidateQueries({ queryKey: ['loan', loanId] });
+            queryClient.invalidateQueries({ queryKey: ['loans'] });
+            refetchLoan();
+          }}
+        />
+      )}
+
+      {loan && loanId && agency?.id && (
+        <SettlementQuoteDialog
+          open={settlementDialogOpen}
+          onOpenChange={setSettlementDialogOpen}
+          loanId={loanId}
+          agencyId={agency.id}
+          agencyName={agency.name}
+          customerName={loan.customer?.fullName || loan.customer?.name || 'N/A'}
+          userRole={userRole}
+          canClose={permissions.canClose}
+          onSuccess={() => {
+            queryClient.invalidateQueries({ queryKey: ['loan', loanId] });
+            queryClient.invalidateQueries({ queryKey: ['loans'] });
+            refetchLoan();
+          }}
+        />
+      )}
+
       {/* Edit Loan Drawer */}
       {loanId && (
         <EditLoanDrawer
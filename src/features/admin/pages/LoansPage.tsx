@@ -59,13 +59,15 @@ import toast from 'react-hot-toast';
 import { Link, useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { cn } from '../../../lib/utils';
-import { calculateLoanFinancials } from '../../../lib/firebase/loan-calculations';
+import { calculateLoanFinancials, getLoanScheduleOptions } from '../../../lib/firebase/loan-calculations';
+import { getAgencyInterestMethod } from '../../../lib/firebase/loan-settings';
 import { createAuditLog } from '../../../lib/firebase/firestore-helpers';
 import { Checkbox } from '../../../components/ui/checkbox';
 import { Label } from '../../../components/ui/label';
 import { LoanStatusBadge } from '../../../components/loans/LoanStatusBadge';
 import { LoanStatus, UserRole } from '../../../types/loan-workflow';
-import { submitLoanForReview, disburseLoan } from '../../../lib/loans/workflow';
+import { submitLoanForReview, disburseLoan, changeLoanStatus } from '../../../lib/loans/workflow';
+import { getOpenTellerSession } from '../../../lib/branches/teller-sessions';
 import { useAgency } from '../../../hooks/useAgency';
 import {
   Dialog,
@@ -208,7 +210,7 @@ export function LoansPage() {
           const durationMonths = Number(loan.durationMonths || 0);
           
           if (principal > 0 && interestRate > 0 && durationMonths > 0) {
-            const financials = calculateLoanFinancials(principal, interestRate, durationMonths);
+            const financials = calculateLoanFinancials(principal, interestRate, durationMonths, getLoanScheduleOptions(loan, getAgencyInterestMethod(agency)));
             loan.financials = financials;
             loan.remainingBalance = Math.max(0, financials.totalAmount - loan.totalPaid);
             loan.expectedProfit = financials.totalInterest;
@@ -404,10 +406,16 @@ export function LoansPage() {
     }
 
     try {
-      const result = await disburseLoan(loanId, agency.id, user.id, userRole);
+      // A teller with an open drawer may pay the loan out in cash from it
+      const tellerSession = await getOpenTellerSession(agency.id, user.id);
+      const disbursementMethod = tellerSession
+        ? (confirm('Pay out in cash from your teller drawer?') ? 'cash' : 'bank_transfer')
+        : undefined;
+      const result = await disburseLoan(loanId, agency.id, user.id, userRole, undefined, disbursementMethod);
       if (result.success) {
         toast.success('Loan disbursed successfully');
         queryClient.invalidateQueries({ queryKey: ['loans'] });
+        queryClient.invalidateQueries({ queryKey: ['teller-session', agency.id] });
       } else {
         toast.error(result.error || 'Failed to disburse loan');
       }
@@ -421,31 +429,35 @@ export function LoansPage() {
   const bulkStatusUpdate = useMutation({
     mutationFn: async (loanIds: string[]) => {
       if (!profile?.agency_id) throw new Error('Agency not found');
+      if (!user?.id) throw new Error('User not found');
       
-      const batch = writeBatch(db);
-      loanIds.forEach(loanId => {
-        const loanRef = doc(db, 'agencies', profile.agency_id, 'loans', loanId);
-        batch.update(loanRef, {
-          status: bulkStatus,
-          updatedAt: serverTimestamp(),
+      // Each loan goes through the state machine; loans that cannot make the move are skipped
+      const failures: string[] = [];
+      for (const loanId of loanIds) {
+        const result = await changeLoanStatus({
+          loanId,
+          agencyId: profile.agency_id,
+          newStatus: bulkStatus as LoanStatus,
+          userId: user.id,
+          userRole,
+          notes: 'Bulk status update',
         });
-      });
-      
-      await batch.commit();
+        if (!result.success) {
+          failures.push(`${loanId}: ${result.error || 'Failed to update status'}`);
+        }
+      }
       
-      // Create audit logs
-      for (const loanId of loanIds) {
-        await createAuditLog(profile.agency_id, {
-          actorId: user?.id || 'system',
-          action: 'bulk_status_update',
-          targetCollection: 'loans',
-          targetId: loanId,
-          metadata: { newStatus: bulkStatus, bulkOperation: true },
-        }).catch(() => {});
+      if (failures.length === loanIds.length) {
+        throw new Error(failures[0]);
       }
+      return { updated: loanIds.length - failures.length, failures };
     },
-    onSuccess: () => {
-      toast.success(`Updated ${selectedLoans.size} loan(s) status to ${bulkStatus}`);
+    onSuccess: ({ updated, failures }) => {
+      toast.success(`Updated ${updated} loan(s) status to ${bulkStatus}`);
+      if (failures.length > 0) {
+        toast.error(`${failures.length} loan(s) could not be updated`);
+        console.warn('Bulk status update failures:', failures);
+      }
       setSelectedLoans(new Set());
       setBulkStatusDialogOpen(false);
       queryClient.invalidateQueries({ queryKey: ['loans'] });
@@ -1216,6 +1228,7 @@ export function LoansPage() {
           loanId={selectedLoan.id}
           currentStatus={selectedLoan.status}
           agencyId={profile?.agency_id || ''}
+          userRole={userRole}
         />
       )}
 
@@ -1236,11 +1249,12 @@ export function LoansPage() {
                 onChange={(e) => setBulkStatus(e.target.value)}
                 className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm mt-2"
               >
-                <option value="pending">Pending</option>
+                <option value="under_review">Under Review</option>
                 <option value="approved">Approved</option>
+                <option value="rejected">Rejected</option>
+                <option value="disbursed">Disbursed</option>
                 <option value="active">Active</option>
-                <option value="settled">Settled</option>
-                <option value="defaulted">Defaulted</option>
+                <option value="closed">Closed</option>
               </select>
             </div>
           </div>
@@ -3,6 +3,7 @@ import { useQuery } from '@tanstack/react-query';
 import { collection, getDocs, query, where } from 'firebase/firestore';
 import { db } from '../../../lib/firebase/config';
 import { useAuth } from '../../../hooks/useAuth';
+import { useAgency } from '../../../hooks/useAgency';
 import { Card, CardContent, CardHeader, CardTitle } from '../../../components/ui/card';
 import { Button } from '../../../components/ui/button';
 import { Input } from '../../../components/ui/input';
@@ -11,10 +12,12 @@ import { Search, User, Download, FileSpreadsheet, AlertTriangle, DollarSign, Tre
 import { formatCurrency, formatDateSafe } from '../../../lib/utils';
 import toast from 'react-hot-toast';
 import { Link } from 'react-router-dom';
-import { calculateLoanFinancials } from '../../../lib/firebase/loan-calculations';
+import { calculateLoanFinancials, getLoanScheduleOptions } from '../../../lib/firebase/loan-calculations';
+import { getAgencyInterestMethod } from '../../../lib/firebase/loan-settings';
 
 export function OutstandingBorrowersPage() {
   const { profile } = useAuth();
+  const { agency } = useAgency();
   const [searchTerm, setSearchTerm] = useState('');
 
   const { data: borrowers = [], isLoading } = useQuery({
@@ -24,7 +27,7 @@ export function OutstandingBorrowersPage() {
 
       // Get all active loans
       const loansRef = collection(db, 'agencies', profile.agency_id, 'loans');
-      const q = query(loansRef, where('status', 'in', ['active', 'approved']));
+      const q = query(loansRef, where('status', 'in', ['active', 'approved', 'restructured']));
       const snapshot = await getDocs(q);
       
       const loans = await Promise.all(
@@ -61,7 +64,7 @@ export function OutstandingBorrowersPage() {
             
             let totalPayable = principal;
             if (principal > 0 && interestRate > 0 && durationMonths > 0) {
-              const financials = calculateLoanFinancials(principal, interestRate, durationMonths);
+              const financials = calculateLoanFinancials(principal, interestRate, durationMonths, getLoanScheduleOptions(loan, getAgencyInterestMethod(agency)));
               totalPayable = financials.totalAmount;
             }
             
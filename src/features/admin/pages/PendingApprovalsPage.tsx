@@ -7,13 +7,29 @@ import { Card, CardContent, CardHeader, CardTitle } from '../../../components/ui
 import { Button } from '../../../components/ui/button';
 import { Input } from '../../../components/ui/input';
 import { Badge } from '../../../components/ui/badge';
-import { Search, CheckCircle2, XCircle, FileText, Loader2, Eye, Clock, DollarSign, User } from 'lucide-react';
+import { Search, CheckCircle2, XCircle, FileText, Loader2, Eye, Clock, DollarSign, User, PenLine } from 'lucide-react';
 import { formatCurrency, formatDateSafe } from '../../../lib/utils';
 import toast from 'react-hot-toast';
 import { Link } from 'react-router-dom';
 import { createNotification } from '../../../lib/firebase/notifications';
 import { approveLoan, rejectLoan as rejectLoanWorkflow } from '../../../lib/loans/workflow';
 import { UserRole } from '../../../types/loan-workflow';
+import { getApprovalMatrix } from '../../../lib/firebase/approval-matrix';
+import {
+  getLoanApprovalState,
+  formatApprovalRequirements,
+  APPROVER_ROLE_LABELS,
+} from '../../../lib/loans/approvals';
+
+function getUserRole(profile: any): UserRole {
+  return (profile?.role === 'admin' ? UserRole.ADMIN :
+          profile?.role === 'owner' ? UserRole.ADMIN :
+          profile?.employee_category === 'accountant' ? UserRole.ACCOUNTANT :
+          profile?.employee_category === 'manager' ? UserRole.MANAGER :
+          profile?.employee_category === 'underwriter' ? UserRole.UNDERWRITER :
+          profile?.employee_category === 'loan_officer' ? UserRole.LOAN_OFFICER :
+          UserRole.ADMIN) as UserRole;
+}
 
 export function PendingApprovalsPage() {
   const { profile } = useAuth();
@@ -27,11 +43,15 @@ export function PendingApprovalsPage() {
 
       const loansRef = collection(db, 'agencies', profile.agency_id, 'loans');
       const q = query(loansRef, where('status', '==', 'pending'));
-      const snapshot = await getDocs(q);
+      const [snapshot, approvalMatrix] = await Promise.all([
+        getDocs(q),
+        getApprovalMatrix(profile.agency_id),
+      ]);
       
       const loans = await Promise.all(
         snapshot.docs.map(async (docSnapshot) => {
-          const loan = { id: docSnapshot.id, ...docSnapshot.data() };
+          const loan: any = { id: docSnapshot.id, ...docSnapshot.data() };
+          loan.approvalState = await getLoanApprovalState(profile.agency_id, loan, approvalMatrix);
           
           // Fetch customer data
           if (loan.customerId) {
@@ -60,10 +80,7 @@ export function PendingApprovalsPage() {
     mutationFn: async (loanId: string) => {
       if (!profile?.agency_id || !profile?.id) throw new Error('Agency ID or user ID not found');
       
-      const userRole = (profile?.role === 'admin' ? UserRole.ADMIN :
-                       profile?.role === 'owner' ? UserRole.ADMIN :
-                       profile?.employee_category === 'accountant' ? UserRole.ACCOUNTANT :
-                       UserRole.ADMIN) as UserRole;
+      const userRole = getUserRole(profile);
 
       const result = await approveLoan(
         loanId,
@@ -77,6 +94,11 @@ export function PendingApprovalsPage() {
         throw new Error(result.error || 'Failed to approve loan');
       }
 
+      // Still waiting on other approvers
+      if (result.awaitingApprovals) {
+        return result;
+      }
+
       // Create notification
       const loan = pendingLoans.find((l: any) => l.id === loanId);
       if (loan?.customerId && profile?.agency_id) {
@@ -89,11 +111,17 @@ export function PendingApprovalsPage() {
           metadata: { loanId },
         });
       }
+
+      return result;
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ['pending-approvals'] });
       queryClient.invalidateQueries({ queryKey: ['loans'] });
-      toast.success('Loan approved successfully');
+      if (result.awaitingApprovals) {
+        toast.success(`Approval signed. Still needed: ${formatApprovalRequirements(result.awaitingApprovals)}`);
+      } else {
+        toast.success('Loan approved successfully');
+      }
     },
     onError: (error: any) => {
       toast.error(error.message || 'Failed to approve loan');
@@ -104,10 +132,7 @@ export function PendingApprovalsPage() {
     mutationFn: async ({ loanId, reason }: { loanId: string; reason?: string }) => {
       if (!profile?.agency_id || !profile?.id) throw new Error('Agency ID or user ID not found');
       
-      const userRole = (profile?.role === 'admin' ? UserRole.ADMIN :
-                       profile?.role === 'owner' ? UserRole.ADMIN :
-                       profile?.employee_category === 'accountant' ? UserRole.ACCOUNTANT :
-                       UserRole.ADMIN) as UserRole;
+      const userRole = getUserRole(profile);
 
       const result = await rejectLoanWorkflow(
         loanId,
@@ -246,6 +271,28 @@ export function PendingApprovalsPage() {
                             </p>
                           </div>
                         </div>
+
+                        {loan.approvalState && (
+                          <div className="mt-4 flex flex-wrap items-center gap-2 text-sm">
+                            <PenLine className="w-4 h-4 text-neutral-400" />
+                            {loan.approvalState.signatures.length === 0 ? (
+                              <span className="text-neutral-500">No approvals signed yet</span>
+                            ) : (
+                              loan.approvalState.signatures.map((signature: any) => (
+                                <Badge key={signature.userId} variant="outline" className="font-normal">
+                                  {signature.userName || signature.userId.slice(0, 8)} ({APPROVER_ROLE_LABELS[signature.role as keyof typeof APPROVER_ROLE_LABELS]})
+                                  {' · '}
+                                  {formatDateSafe(signature.signedAt)}
+                                </Badge>
+                              ))
+                            )}
+                            {loan.approvalState.evaluation.outstanding.length > 0 && (
+                              <span className="text-amber-600">
+                                Still needed: {formatApprovalRequirements(loan.approvalState.evaluation.outstanding)}
+                              </span>
+                            )}
+                          </div>
+                        )}
                       </div>
                       
                       <div className="flex items-center gap-2 ml-4">
@@ -0,0 +1,334 @@
+/**
+ * Policy Simulation Page
+ * Replay a proposed credit policy over historical applications before adopting it
+ */
+
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useAuth } from '../../../hooks/useAuth';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '../../../components/ui/card';
+import { Button } from '../../../components/ui/button';
+import { Input } from '../../../components/ui/input';
+import { Label } from '../../../components/ui/label';
+import { Switch } from '../../../components/ui/switch';
+import { Badge } from '../../../components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '../../../components/ui/table';
+import { FlaskConical, Loader2, RotateCcw } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { motion } from 'framer-motion';
+import { formatCurrency } from '../../../lib/utils';
+import { getCurrentCreditPolicy, runPolicySimulation } from '../../../lib/loans/policy-simulation';
+import {
+  DEFAULT_CREDIT_SCORE_WEIGHTS,
+  type CreditPolicy,
+  type CreditScoreWeights,
+  type PolicyMetrics,
+} from '../../../../packages/loan-rules/src/policy-simulation';
+import type { RiskRules } from '../../../types/loan-config';
+
+const WEIGHT_LABELS: Record<keyof CreditScoreWeights, string> = {
+  paymentHistory: 'Payment History',
+  creditHistory: 'Credit History',
+  debtToIncome: 'Debt-to-Income',
+  collateralValue: 'Collateral Value',
+  employmentStability: 'Employment Stability',
+};
+
+const THRESHOLD_FIELDS: Array<{ key: keyof RiskRules; label: string }> = [
+  { key: 'minCreditScore', label: 'Min Credit Score' },
+  { key: 'maxDebtToIncome', label: 'Max DTI (%)' },
+  { key: 'minCollateralCoverage', label: 'Min Coverage (%)' },
+  { key: 'maxLoanToValue', label: 'Max LTV (%)' },
+];
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function formatDelta(value: number, format: (value: number) => string, higherIsBetter: boolean) {
+  if (value === 0) return <span className="text-neutral-500">—</span>;
+  const improved = higherIsBetter ? value > 0 : value < 0;
+  return (
+    <span className={improved ? 'text-green-600' : 'text-red-600'}>
+      {value > 0 ? '+' : '-'}{format(Math.abs(value))}
+    </span>
+  );
+}
+
+export function PolicySimulationPage() {
+  const { profile } = useAuth();
+  const [weights, setWeights] = useState<CreditScoreWeights>(DEFAULT_CREDIT_SCORE_WEIGHTS);
+  const [riskRules, setRiskRules] = useState<Record<string, RiskRules>>({});
+  const [bookReferrals, setBookReferrals] = useState(true);
+
+  const { data: currentPolicy, isLoading } = useQuery({
+    queryKey: ['credit-policy', profile?.agency_id],
+    queryFn: async () => {
+      if (!profile?.agency_id) return null;
+      return getCurrentCreditPolicy(profile.agency_id);
+    },
+    enabled: !!profile?.agency_id,
+  });
+
+  const resetToCurrent = () => {
+    setWeights(currentPolicy?.scoreWeights || DEFAULT_CREDIT_SCORE_WEIGHTS);
+    setRiskRules(currentPolicy?.riskRules || {});
+  };
+
+  useEffect(() => {
+    if (!currentPolicy) return;
+    setWeights(currentPolicy.scoreWeights || DEFAULT_CREDIT_SCORE_WEIGHTS);
+    setRiskRules(currentPolicy.riskRules || {});
+  }, [currentPolicy]);
+
+  const simulation = useMutation({
+    mutationFn: async () => {
+      if (!profile?.agency_id || !currentPolicy) throw new Error('Agency not found');
+      const proposed: CreditPolicy = {
+        ...currentPolicy,
+        riskRules,
+        scoreWeights: weights,
+      };
+      return runPolicySimulation(profile.agency_id, proposed, { bookReferrals });
+    },
+    onError: (error: any) => {
+      toast.error(error.message || 'Failed to run policy simulation');
+    },
+  });
+
+  const weightTotal = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+  const loanTypeIds = Object.keys(currentPolicy?.riskRules || {});
+
+  const updateThreshold = (loanTypeId: string, key: keyof RiskRules, value: string) => {
+    setRiskRules((prev) => {
+      const rules: RiskRules = { ...(prev[loanTypeId] || {}) };
+      if (value === '') {
+        delete rules[key];
+      } else {
+        (rules as Record<string, number>)[key] = Number(value);
+      }
+      return { ...prev, [loanTypeId]: rules };
+    });
+  };
+
+  if (isLoading) {
+    return <div className="p-6">Loading...</div>;
+  }
+
+  const result = simulation.data;
+  const metricRows: Array<{
+    label: string;
+    value: (metrics: PolicyMetrics) => string;
+    delta?: React.ReactNode;
+  }> = result
+    ? [
+        { label: 'Applications', value: (m) => m.applications.toLocaleString() },
+        { label: 'Approved / Referred / Declined', value: (m) => `${m.approved} / ${m.referred} / ${m.declined}` },
+        {
+          label: 'Approval Rate',
+          value: (m) => formatPercent(m.approvalRate),
+          delta: formatDelta(result.deltas.approvalRate, formatPercent, true),
+        },
+        {
+          label: 'Booked Principal',
+          value: (m) => formatCurrency(m.bookedPrincipal),
+          delta: formatDelta(result.deltas.bookedPrincipal, (v) => formatCurrency(v), true),
+        },
+        {
+          label: 'Expected Default Rate',
+          value: (m) => formatPercent(m.defaultRate),
+          delta: formatDelta(result.deltas.defaultRate, formatPercent, false),
+        },
+        {
+          label: 'Portfolio Yield',
+          value: (m) => formatPercent(m.portfolioYield),
+          delta: formatDelta(result.deltas.portfolioYield, formatPercent, true),
+        },
+        { label: 'Without Historical Outcome', value: (m) => m.unobserved.toLocaleString() },
+      ]
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.3 }}
+        className="flex items-center justify-between"
+      >
+        <div>
+          <h1 className="page-title text-neutral-900 dark:text-neutral-100 mb-1">Credit Policy Simulation</h1>
+          <p className="helper-text">Replay a proposed policy over past applications before changing it</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={resetToCurrent}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Reset to Current
+          </Button>
+          <Button
+            onClick={() => simulation.mutate()}
+            disabled={simulation.isPending || Math.abs(weightTotal - 1) > 0.001}
+          >
+            {simulation.isPending ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <FlaskConical className="w-4 h-4 mr-2" />
+            )}
+            Run Simulation
+          </Button>
+        </div>
+      </motion.div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Credit Score Weights</CardTitle>
+            <CardDescription>
+              Weights must add up to 100% (currently {Math.round(weightTotal * 100)}%)
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {(Object.keys(WEIGHT_LABELS) as Array<keyof CreditScoreWeights>).map((key) => (
+              <div key={key} className="flex items-center justify-between gap-4">
+                <Label>{WEIGHT_LABELS[key]}</Label>
+                <Input
+                  type="number"
+                  className="w-28"
+                  min={0}
+                  max={100}
+                  value={Math.round(weights[key] * 100)}
+                  onChange={(e) => setWeights({ ...weights, [key]: Number(e.target.value || 0) / 100 })}
+                />
+              </div>
+            ))}
+            <div className="flex items-center justify-between gap-4 pt-2">
+              <Label>Count referred applications as booked</Label>
+              <Switch checked={bookReferrals} onCheckedChange={setBookReferrals} />
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Risk Thresholds</CardTitle>
+            <CardDescription>Leave a field empty to drop the rule</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loanTypeIds.length === 0 ? (
+              <p className="text-sm text-neutral-500">No loan types are configured for this agency.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Loan Type</TableHead>
+                    {THRESHOLD_FIELDS.map((field) => (
+                      <TableHead key={field.key}>{field.label}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {loanTypeIds.map((loanTypeId) => (
+                    <TableRow key={loanTypeId}>
+                      <TableCell className="font-medium">{loanTypeId.replace(/_/g, ' ')}</TableCell>
+                      {THRESHOLD_FIELDS.map((field) => (
+                        <TableCell key={field.key}>
+                          <Input
+                            type="number"
+                            className="w-24"
+                            value={riskRules[loanTypeId]?.[field.key] ?? ''}
+                            onChange={(e) => updateThreshold(loanTypeId, field.key, e.target.value)}
+                          />
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {result && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Current vs Proposed</CardTitle>
+              <CardDescription>
+                Default rate and yield are measured on booked loans with a known outcome
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Metric</TableHead>
+                    <TableHead>Current</TableHead>
+                    <TableHead>Proposed</TableHead>
+                    <TableHead>Change</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {metricRows.map((row) => (
+                    <TableRow key={row.label}>
+                      <TableCell className="font-medium">{row.label}</TableCell>
+                      <TableCell>{row.value(result.current)}</TableCell>
+                      <TableCell>{row.value(result.proposed)}</TableCell>
+                      <TableCell>{row.delta ?? ''}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Changed Decisions ({result.changedDecisions.length})</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Loan</TableHead>
+                    <TableHead>Current</TableHead>
+                    <TableHead>Proposed</TableHead>
+                    <TableHead>Historical Outcome</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.changedDecisions.map((change) => (
+                    <TableRow key={change.loanId}>
+                      <TableCell className="font-mono text-xs">{change.loanId}</TableCell>
+                      <TableCell className="capitalize">{change.current}</TableCell>
+                      <TableCell className="capitalize">{change.proposed}</TableCell>
+                      <TableCell>
+                        <Badge variant={change.outcome === 'defaulted' ? 'destructive' : 'outline'}>
+                          {change.outcome.replace(/_/g, ' ')}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {result.changedDecisions.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center py-8 text-neutral-500">
+                        The proposed policy decides every application the same way.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
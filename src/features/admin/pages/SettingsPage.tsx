@@ -24,11 +24,13 @@ import { uploadAgencyLogo, uploadProfilePhoto, uploadCompanyProfilePhoto } from
 import { InviteEmployeeDrawer } from '../components/InviteEmployeeDrawer';
 import { AddCustomerDrawer } from '../components/AddCustomerDrawer';
 import { LoanTypeSettings } from '../components/LoanTypeSettings';
+import { ApprovalMatrixSettings } from '../components/ApprovalMatrixSettings';
 import { authService } from '../../../lib/supabase/auth';
 import { exportLoans, exportCustomers, exportEmployees } from '../../../lib/data-export';
 import { importCustomersFromCSV, importLoansFromCSV } from '../../../lib/data-import';
 import { createCustomer } from '../../../lib/firebase/firestore-helpers';
 import { createLoanTransaction } from '../../../lib/firebase/loan-transactions';
+import { DEFAULT_LOAN_SETTINGS } from '../../../lib/firebase/loan-settings';
 import { PaymentHistoryTab } from './PaymentHistoryTab';
 import { isDeepSeekConfigured, testDeepSeekConnection } from '../../../lib/ai/deepseek-client';
 
@@ -52,6 +54,9 @@ const passwordSchema = z.object({
   path: ['confirmPassword'],
 });
 
+const parseHolidayList = (value: string): string[] =>
+  value.split(/[\s,]+/).map((date) => date.trim()).filter(Boolean);
+
 const loanSettingsSchema = z.object({
   defaultInterestRate: z.number().min(0).max(100, 'Interest rate must be between 0 and 100%'),
   gracePeriodDays: z.number().min(0).max(30, 'Grace period must be between 0 and 30 days'),
@@ -60,9 +65,18 @@ const loanSettingsSchema = z.object({
   minLoanAmount: z.number().min(0, 'Minimum loan amount must be positive'),
   maxLoanAmount: z.number().min(0, 'Maximum loan amount must be positive'),
   defaultLoanDuration: z.number().min(1).max(60, 'Default duration must be between 1 and 60 months'),
-  interestCalculationMethod: z.enum(['simple', 'compound'], {
+  interestCalculationMethod: z.enum(['simple', 'compound', 'flat', 'reducing_balance'], {
     errorMap: () => ({ message: 'Please select an interest calculation method' }),
   }),
+  dayCountConvention: z.enum(['30/360', 'actual/365', 'actual/actual']),
+  businessDayRoll: z.enum(['none', 'next_business_day', 'previous_business_day']),
+  includeNationalHolidays: z.boolean(),
+  settlementRebateMethod: z.enum(['none', 'rule_of_78s', 'actuarial', 'fixed_penalty']),
+  earlySettlementPenaltyRate: z.number().min(0).max(20, 'Early settlement penalty must be between 0 and 20%'),
+  holidays: z.string().refine(
+    (value) => parseHolidayList(value).every((date) => /^\d{4}-\d{2}-\d{2}$/.test(date)),
+    'Enter holidays as YYYY-MM-DD, separated by commas or new lines'
+  ),
 }).refine((data) => data.maxLoanAmount >= data.minLoanAmount, {
   message: 'Maximum loan amount must be greater than or equal to minimum loan amount',
   path: ['maxLoanAmount'],
@@ -137,6 +151,12 @@ export function SettingsPage() {
       maxLoanAmount: agency?.settings?.loanSettings?.maxLoanAmount || 1000000,
       defaultLoanDuration: agency?.settings?.loanSettings?.defaultLoanDuration || 12,
       interestCalculationMethod: agency?.settings?.loanSettings?.interestCalculationMethod || 'simple',
+      dayCountConvention: agency?.settings?.loanSettings?.dayCountConvention || DEFAULT_LOAN_SETTINGS.dayCountConvention,
+      businessDayRoll: agency?.settings?.loanSettings?.businessDayRoll || DEFAULT_LOAN_SETTINGS.businessDayRoll,
+      includeNationalHolidays: agency?.settings?.loanSettings?.includeNationalHolidays ?? DEFAULT_LOAN_SETTINGS.includeNationalHolidays,
+      settlementRebateMethod: agency?.settings?.loanSettings?.settlementRebateMethod || DEFAULT_LOAN_SETTINGS.settlementRebateMethod,
+      earlySettlementPenaltyRate: agency?.settings?.loanSettings?.earlySettlementPenaltyRate ?? DEFAULT_LOAN_SETTINGS.earlySettlementPenaltyRate,
+      holidays: (agency?.settings?.loanSettings?.holidays || []).join('\n'),
     },
   });
 
@@ -305,6 +325,12 @@ export function SettingsPage() {
         maxLoanAmount: agency.settings.loanSettings.maxLoanAmount || 1000000,
         defaultLoanDuration: agency.settings.loanSettings.defaultLoanDuration || 12,
         interestCalculationMethod: agency.settings.loanSettings.interestCalculationMethod || 'simple',
+        dayCountConvention: agency.settings.loanSettings.dayCountConvention || DEFAULT_LOAN_SETTINGS.dayCountConvention,
+        businessDayRoll: agency.settings.loanSettings.businessDayRoll || DEFAULT_LOAN_SETTINGS.businessDayRoll,
+        includeNationalHolidays: agency.settings.loanSettings.includeNationalHolidays ?? DEFAULT_LOAN_SETTINGS.includeNationalHolidays,
+        settlementRebateMethod: agency.settings.loanSettings.settlementRebateMethod || DEFAULT_LOAN_SETTINGS.settlementRebateMethod,
+        earlySettlementPenaltyRate: agency.settings.loanSettings.earlySettlementPenaltyRate ?? DEFAULT_LOAN_SETTINGS.earlySettlementPenaltyRate,
+        holidays: (agency.settings.loanSettings.holidays || []).join('\n'),
       });
     }
   }, [agency, loanSettingsForm]);
@@ -517,6 +543,12 @@ export function SettingsPage() {
             maxLoanAmount: data.maxLoanAmount,
             defaultLoanDuration: data.defaultLoanDuration,
             interestCalculationMethod: data.interestCalculationMethod,
+            dayCountConvention: data.dayCountConvention,
+            businessDayRoll: data.businessDayRoll,
+            includeNationalHolidays: data.includeNationalHolidays,
+            settlementRebateMethod: data.settlementRebateMethod,
+            earlySettlementPenaltyRate: data.earlySettlementPenaltyRate,
+            holidays: parseHolidayList(data.holidays),
             updatedAt: serverTimestamp(),
           },
         },
@@ -528,7 +560,7 @@ export function SettingsPage() {
         ...agency,
         settings: {
           ...currentSettings,
-          loanSettings: data,
+          loanSettings: { ...data, holidays: parseHolidayList(data.holidays) },
         },
       } as any);
 
@@ -807,6 +839,9 @@ export function SettingsPage() {
             {/* Loan Types Configuration Section */}
             <LoanTypeSettings />
 
+            {/* Maker-Checker Approval Matrix */}
+            <ApprovalMatrixSettings />
+
             {/* Divider */}
             <div className="relative my-8">
               <div className="absolute inset-0 flex items-center">
@@ -879,6 +914,8 @@ export function SettingsPage() {
                         >
                           <option value="simple">Simple Interest</option>
                           <option value="compound">Compound Interest</option>
+                          <option value="flat">Flat Rate</option>
+                          <option value="reducing_balance">Reducing Balance</option>
                         </select>
                         {loanSettingsForm.formState.errors.interestCalculationMethod && (
                           <p className="text-sm text-[#EF4444] mt-1">
@@ -979,6 +1016,145 @@ export function SettingsPage() {
                     </div>
                   </div>
 
+                  {/* Calendar & Day Count */}
+                  <div className="space-y-4 pt-4 border-t border-neutral-200">
+                    <h3 className="text-sm font-semibold text-neutral-900 uppercase tracking-wider flex items-center gap-2">
+                      <Calendar className="w-4 h-4" />
+                      Calendar & Day Count
+                    </h3>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                      <div className="space-y-2">
+                        <Label htmlFor="dayCountConvention" className="text-sm font-semibold text-neutral-900">
+                          Day-Count Convention
+                        </Label>
+                        <select
+                          id="dayCountConvention"
+                          {...loanSettingsForm.register('dayCountConvention')}
+                          className="flex h-10 w-full rounded-xl border border-neutral-200 bg-white px-3 py-2 text-sm focus:ring-2 focus:ring-[#006BFF]/20 focus:border-[#006BFF]"
+                        >
+                          <option value="actual/365">Actual/365</option>
+                          <option value="actual/actual">Actual/Actual</option>
+                          <option value="30/360">30/360</option>
+                        </select>
+                        <p className="text-xs text-neutral-500">
+                          Used for schedules, interest accrual and late fees
+                        </p>
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="businessDayRoll" className="text-sm font-semibold text-neutral-900">
+                          Due Dates on Non-Business Days
+                        </Label>
+                        <select
+                          id="businessDayRoll"
+                          {...loanSettingsForm.register('businessDayRoll')}
+                          className="flex h-10 w-full rounded-xl border border-neutral-200 bg-white px-3 py-2 text-sm focus:ring-2 focus:ring-[#006BFF]/20 focus:border-[#006BFF]"
+                        >
+                          <option value="next_business_day">Move to next business day</option>
+                          <option value="previous_business_day">Move to previous business day</option>
+                          <option value="none">Keep original date</option>
+                        </select>
+                        <p className="text-xs text-neutral-500">
+                          Applies to Sundays and holidays
+                        </p>
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="holidays" className="text-sm font-semibold text-neutral-900">
+                          Agency Holidays
+                        </Label>
+                        <textarea
+                          id="holidays"
+                          rows={3}
+                          placeholder="2026-12-24"
+                          {...loanSettingsForm.register('holidays')}
+                          className={cn(
+                            "flex w-full rounded-xl border border-neutral-200 bg-white px-3 py-2 text-sm focus:ring-2 focus:ring-[#006BFF]/20 focus:border-[#006BFF]",
+                            loanSettingsForm.formState.errors.holidays && 'border-[#EF4444] focus:border-[#EF4444]'
+                          )}
+                        />
+                        {loanSettingsForm.formState.errors.holidays && (
+                          <p className="text-sm text-[#EF4444] mt-1">
+                            {loanSettingsForm.formState.errors.holidays.message}
+                          </p>
+                        )}
+                        <p className="text-xs text-neutral-500">
+                          Extra closure dates (YYYY-MM-DD), one per line
+                        </p>
+                      </div>
+
+                      <div className="flex items-center justify-between gap-4">
+                        <div className="space-y-1">
+                          <Label htmlFor="includeNationalHolidays" className="text-sm font-semibold text-neutral-900">
+                            Zambian Public Holidays
+                          </Label>
+                          <p className="text-xs text-neutral-500">
+                            Treat national public holidays as non-business days
+                          </p>
+                        </div>
+                        <Switch
+                          id="includeNationalHolidays"
+                          checked={loanSettingsForm.watch('includeNationalHolidays')}
+                          onCheckedChange={(checked) => loanSettingsForm.setValue('includeNationalHolidays', checked, { shouldDirty: true })}
+                        />
+                      </div>
+                    </div>
+                  </div>
+
+                  {/* Early Settlement */}
+                  <div className="space-y-4 pt-4 border-t border-neutral-200">
+                    <h3 className="text-sm font-semibold text-neutral-900 uppercase tracking-wider flex items-center gap-2">
+                      <Percent className="w-4 h-4" />
+                      Early Settlement
+                    </h3>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                      <div className="space-y-2">
+                        <Label htmlFor="settlementRebateMethod" className="text-sm font-semibold text-neutral-900">
+                          Interest Rebate Rule
+                        </Label>
+                        <select
+                          id="settlementRebateMethod"
+                          {...loanSettingsForm.register('settlementRebateMethod')}
+                          className="flex h-10 w-full rounded-xl border border-neutral-200 bg-white px-3 py-2 text-sm focus:ring-2 focus:ring-[#006BFF]/20 focus:border-[#006BFF]"
+                        >
+                          <option value="actuarial">Actuarial (interest accrued to date)</option>
+                          <option value="rule_of_78s">Rule of 78s</option>
+                          <option value="fixed_penalty">Actuarial plus fixed penalty</option>
+                          <option value="none">No rebate</option>
+                        </select>
+                        <p className="text-xs text-neutral-500">
+                          How unearned interest is rebated when a loan is settled early
+                        </p>
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="earlySettlementPenaltyRate" className="text-sm font-semibold text-neutral-900">
+                          Early Settlement Penalty (%)
+                        </Label>
+                        <Input
+                          id="earlySettlementPenaltyRate"
+                          type="number"
+                          step="0.1"
+                          min="0"
+                          max="20"
+                          {...loanSettingsForm.register('earlySettlementPenaltyRate', { valueAsNumber: true })}
+                          className={cn(
+                            "rounded-xl border-neutral-200 focus:ring-2 focus:ring-[#006BFF]/20 focus:border-[#006BFF]",
+                            loanSettingsForm.formState.errors.earlySettlementPenaltyRate && 'border-[#EF4444] focus:border-[#EF4444]'
+                          )}
+                        />
+                        {loanSettingsForm.formState.errors.earlySettlementPenaltyRate && (
+                          <p className="text-sm text-[#EF4444] mt-1">
+                            {loanSettingsForm.formState.errors.earlySettlementPenaltyRate.message}
+                          </p>
+                        )}
+                        <p className="text-xs text-neutral-500">
+                          Charged on principal settled early with the fixed penalty rule
+                        </p>
+                      </div>
+                    </div>
+                  </div>
+
                   {/* Loan Amount Limits */}
                   <div className="space-y-4 pt-4 border-t border-neutral-200">
                     <h3 className="text-sm font-semibold text-neutral-900 uppercase tracking-wider flex items-center gap-2">
@@ -11,6 +11,7 @@ import { formatCurrency, formatDateSafe } from '../../../lib/utils';
 import { Link } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { cn } from '../../../lib/utils';
+import { TellerDrawerCard } from '../../../components/branches/TellerDrawerCard';
 
 export function EmployeeDashboard() {
   const { profile, user } = useAuth();
@@ -310,6 +311,11 @@ export function EmployeeDashboard() {
         ))}
       </div>
 
+      {/* Teller Drawer */}
+      {profile?.agency_id && user?.id && (
+        <TellerDrawerCard agencyId={profile.agency_id} userId={user.id} />
+      )}
+
       {/* Quick Actions - Reference Style */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
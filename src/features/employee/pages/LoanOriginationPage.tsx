@@ -8,7 +8,8 @@ import { collection, doc, setDoc, serverTimestamp } from 'firebase/firestore';
 import { db } from '../../../lib/firebase/config';
 import { storageService } from '../../../lib/firebase/storage';
 import { generateCustomerId } from '../../../lib/firebase/helpers';
-import { createCustomer, createLoan as createLoanFirestore, addCollateral } from '../../../lib/firebase/firestore-helpers';
+import { createCustomer, createLoan as createLoanFirestore } from '../../../lib/firebase/firestore-helpers';
+import { addPledgedCollateral } from '../../../lib/firebase/collateral-liens';
 import { useAuth } from '../../../hooks/useAuth';
 import { Card, CardContent, CardHeader, CardTitle } from '../../../components/ui/card';
 import { Button } from '../../../components/ui/button';
@@ -49,6 +50,7 @@ import { Package, Lock, Unlock } from 'lucide-react';
 import type { LoanTypeConfig, LoanTypeId, LoanStep } from '../../../types/loan-config';
 import { buildLoanFlow, getNextStepId, getPreviousStepId, getStepIndex } from '../../../lib/loan-flow/flow-engine';
 import { shouldRenderCollateral, shouldRenderEmployment, shouldRenderBusiness, shouldRenderGuarantor } from '../../../lib/loan-type/rules';
+import { getRefinanceCandidates, quoteRefinance } from '../../../lib/loans/refinance';
 
 // Form schemas
 const borrowerSchema = z.object({
@@ -90,6 +92,7 @@ export function LoanOriginationPage() {
   // Loan Packages (Enterprise Feature)
   const [selectedPackage, setSelectedPackage] = useState<LoanPackage | null>(null);
   const [isPackageLocked, setIsPackageLocked] = useState(false);
+  const [refinanceLoanIds, setRefinanceLoanIds] = useState<string[]>([]);
   
   // Safe defaults for all form states to prevent undefined crashes
   const safeLoanType = loanType || '';
@@ -207,6 +210,17 @@ export function LoanOriginationPage() {
     enabled: !!profile?.agency_id && searchTerm.length > 2,
   });
 
+  // Top-up: open loans of an existing customer that the new loan can consolidate
+  const { data: refinanceCandidates = [] } = useQuery({
+    queryKey: ['refinance-candidates', profile?.agency_id, selectedCustomer?.id],
+    queryFn: () => getRefinanceCandidates(profile!.agency_id, selectedCustomer.id),
+    enabled: !!profile?.agency_id && !!selectedCustomer?.id,
+  });
+
+  useEffect(() => {
+    setRefinanceLoanIds([]);
+  }, [selectedCustomer?.id]);
+
   const borrowerForm = useForm<BorrowerFormData>({
     resolver: zodResolver(borrowerSchema),
     defaultValues: {
@@ -230,6 +244,13 @@ export function LoanOriginationPage() {
     },
   });
 
+  const topUpAmount = loanTermsForm.watch('amount') || 0;
+  const { data: refinanceQuote, isFetching: refinanceQuoteLoading } = useQuery({
+    queryKey: ['refinance-quote', profile?.agency_id, refinanceLoanIds, topUpAmount],
+    queryFn: () => quoteRefinance(profile!.agency_id, refinanceLoanIds, topUpAmount),
+    enabled: !!profile?.agency_id && refinanceLoanIds.length > 0,
+  });
+
   // Update form defaults and add dynamic validation when loan type changes
   useEffect(() => {
     if (currentLoanTypeConfig) {
@@ -306,6 +327,7 @@ export function LoanOriginationPage() {
         interestRate: loanData.interestRate,
         durationMonths: loanData.durationMonths,
         repaymentFrequency: loanData.repaymentFrequency,
+        interestCalculationMethod: loanData.interestCalculationMethod || null,
         
         // === Documents & Collateral ===
         documentUrls: loanData.documentUrls || [],
@@ -313,6 +335,9 @@ export function LoanOriginationPage() {
         hasCollateral: loanData.collateralData?.length > 0,
         collateralIncluded: loanData.collateralData?.length > 0,
         
+        // === Top-up / Refinancing (loans settled out of the principal on disbursement) ===
+        refinance: loanData.refinance || null,
+        
         // === Workflow Status ===
             status: 'draft', // Create in DRAFT status - must be submitted separately
         
@@ -333,15 +358,16 @@ export function LoanOriginationPage() {
       if (loanData.collateralData && loanData.collateralData.length > 0) {
         for (const item of loanData.collateralData) {
           try {
-            await addCollateral(profile.agency_id, loanId, {
+            await addPledgedCollateral(profile.agency_id, loanId, {
               type: item.type || 'other',
               name: item.name || 'Collateral',
               description: item.description || '',
               estimatedValue: item.estimatedValue || 0,
               photos: item.photos || [],
-            });
-          } catch (collateralError) {
+            }, user.id);
+          } catch (collateralError: any) {
             console.warn('Failed to add collateral item:', collateralError);
+            toast.error(`Collateral "${item.name || 'Collateral'}" was not added: ${collateralError.message}`);
           }
         }
       }
@@ -409,6 +435,16 @@ export function LoanOriginationPage() {
       setStep(4);
       return;
     }
+    if (loanType === 'refinancing' && refinanceLoanIds.length === 0) {
+      toast.error('Select the existing loans to refinance');
+      setStep(4);
+      return;
+    }
+    if (refinanceLoanIds.length > 0 && (!refinanceQuote || refinanceQuote.netDisbursement < 0)) {
+      toast.error('The loan amount must cover the settlement of the loans being refinanced');
+      setStep(4);
+      return;
+    }
 
     // Upload documents if any
     let uploadedDocUrls: string[] = [];
@@ -490,9 +526,17 @@ export function LoanOriginationPage() {
       interestRate: loanTermsForm.getValues('interestRate') || 15,
       durationMonths: loanTermsForm.getValues('durationMonths') || 12,
       repaymentFrequency: loanTermsForm.getValues('repaymentFrequency') || 'monthly',
+      interestCalculationMethod: currentLoanTypeConfig?.interestCalculationMethod,
       collateralData: collateralData,
       documentUrls: uploadedDocUrls || [],
       aiAnalysis: aiAnalysis || null,
+      refinance: refinanceLoanIds.length > 0 && refinanceQuote ? {
+        loanIds: refinanceLoanIds,
+        loans: refinanceQuote.loans,
+        settlementTotal: refinanceQuote.settlementTotal,
+        netDisbursement: refinanceQuote.netDisbursement,
+        quotedAt: refinanceQuote.quotedAt.toISOString(),
+      } : null,
     };
 
     createLoan.mutate(loanData);
@@ -1222,6 +1266,56 @@ export function LoanOriginationPage() {
                   </div>
                 </motion.div>
               )}
+              {refinanceCandidates.length > 0 && (
+                <div className="border border-border rounded-lg p-4 space-y-3">
+                  <div>
+                    <p className="text-sm font-semibold">
+                      Top-up / Refinance Existing Loans{loanType === 'refinancing' ? ' *' : ''}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Selected loans are settled out of the new principal on disbursement and closed as refinanced
+                    </p>
+                  </div>
+                  {refinanceCandidates.map((candidate: any) => (
+                    <label key={candidate.id} className="flex items-center justify-between gap-3 text-sm cursor-pointer">
+                      <span className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={refinanceLoanIds.includes(candidate.id)}
+                          onChange={(e) =>
+                            setRefinanceLoanIds(
+                              e.target.checked
+                                ? [...refinanceLoanIds, candidate.id]
+                                : refinanceLoanIds.filter((id) => id !== candidate.id)
+                            )
+                          }
+                        />
+                        {candidate.loanNumber || candidate.id}
+                        <Badge variant="outline" className="capitalize">{candidate.status}</Badge>
+                      </span>
+                      <span className="text-muted-foreground">
+                        {formatCurrency(refinanceQuote?.loans.find((l) => l.loanId === candidate.id)?.payoffAmount ?? candidate.remainingBalance ?? 0)}
+                      </span>
+                    </label>
+                  ))}
+                  {refinanceLoanIds.length > 0 && (
+                    <div className="grid grid-cols-2 gap-2 text-sm pt-2 border-t border-border">
+                      {refinanceQuoteLoading && !refinanceQuote ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : refinanceQuote && (
+                        <>
+                          <span className="text-muted-foreground">Settlement of existing loans</span>
+                          <span className="text-right">{formatCurrency(refinanceQuote.settlementTotal)}</span>
+                          <span className="text-muted-foreground font-semibold">Net cash to borrower</span>
+                          <span className={`text-right font-semibold ${refinanceQuote.netDisbursement < 0 ? 'text-destructive' : ''}`}>
+                            {formatCurrency(refinanceQuote.netDisbursement)}
+                          </span>
+                        </>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
             </motion.form>
           )}
 
@@ -1584,6 +1678,14 @@ export function LoanOriginationPage() {
                             {formatCurrency(loanTermsForm.getValues('amount') || 0)}
                           </span>
                         </div>
+                        {refinanceQuote && refinanceLoanIds.length > 0 && (
+                          <div className="flex justify-between">
+                            <span className="font-medium text-muted-foreground">Net Disbursement:</span>
+                            <span className="font-semibold text-foreground">
+                              {formatCurrency(refinanceQuote.netDisbursement)} ({refinanceLoanIds.length} refinanced)
+                            </span>
+                          </div>
+                        )}
                         <div className="flex justify-between">
                           <span className="font-medium text-muted-foreground">Interest Rate:</span>
                           <span className="font-semibold text-foreground">
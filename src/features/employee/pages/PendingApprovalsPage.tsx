@@ -1,23 +1,36 @@
 import { useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { collection, getDocs, query as firestoreQuery, where, orderBy, updateDoc, doc, serverTimestamp } from 'firebase/firestore';
+import { collection, getDocs, query as firestoreQuery, where, orderBy } from 'firebase/firestore';
 import { db } from '../../../lib/firebase/config';
 import { useAuth } from '../../../hooks/useAuth';
 import { Card, CardContent, CardHeader, CardTitle } from '../../../components/ui/card';
 import { Button } from '../../../components/ui/button';
 import { Input } from '../../../components/ui/input';
 import { Badge } from '../../../components/ui/badge';
-import { Search, CheckCircle2, XCircle, FileText, Loader2, Eye } from 'lucide-react';
+import { Search, CheckCircle2, XCircle, FileText, Loader2, Eye, PenLine } from 'lucide-react';
 import { formatCurrency, formatDateSafe } from '../../../lib/utils';
 import toast from 'react-hot-toast';
 import { Link } from 'react-router-dom';
 import { createNotification } from '../../../lib/firebase/notifications';
+import { approveLoan as approveLoanWorkflow, rejectLoan as rejectLoanWorkflow } from '../../../lib/loans/workflow';
+import { UserRole } from '../../../types/loan-workflow';
+import { getApprovalMatrix } from '../../../lib/firebase/approval-matrix';
+import {
+  getLoanApprovalState,
+  formatApprovalRequirements,
+  APPROVER_ROLE_LABELS,
+} from '../../../lib/loans/approvals';
 
 export function PendingApprovalsPage() {
   const { profile, user } = useAuth();
   const queryClient = useQueryClient();
   const [searchTerm, setSearchTerm] = useState('');
 
+  const userRole = (profile?.employee_category === 'accountant' ? UserRole.ACCOUNTANT :
+                   profile?.employee_category === 'manager' ? UserRole.MANAGER :
+                   profile?.employee_category === 'underwriter' ? UserRole.UNDERWRITER :
+                   UserRole.LOAN_OFFICER) as UserRole;
+
   const { data: pendingLoans = [], isLoading } = useQuery({
     queryKey: ['pending-approvals', profile?.agency_id],
     queryFn: async () => {
@@ -29,11 +42,15 @@ export function PendingApprovalsPage() {
         where('status', '==', 'pending'),
         orderBy('createdAt', 'desc')
       );
-      const snapshot = await getDocs(q);
+      const [snapshot, approvalMatrix] = await Promise.all([
+        getDocs(q),
+        getApprovalMatrix(profile.agency_id),
+      ]);
       
       const loans = await Promise.all(
         snapshot.docs.map(async (docSnapshot) => {
-          const loan = { id: docSnapshot.id, ...docSnapshot.data() };
+          const loan: any = { id: docSnapshot.id, ...docSnapshot.data() };
+          loan.approvalState = await getLoanApprovalState(profile.agency_id, loan, approvalMatrix);
           
           // Fetch customer data
           if (loan.customerId) {
@@ -62,13 +79,21 @@ export function PendingApprovalsPage() {
     mutationFn: async (loanId: string) => {
       if (!profile?.agency_id) throw new Error('Agency ID not found');
       
-      const loanRef = doc(db, 'agencies', profile.agency_id, 'loans', loanId);
-      await updateDoc(loanRef, {
-        status: 'approved',
-        approvedBy: user?.id || profile.id,
-        approvedAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
-      });
+      const result = await approveLoanWorkflow(
+        loanId,
+        profile.agency_id,
+        user?.id || profile.id,
+        userRole,
+        'Loan approved from pending approvals'
+      );
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to approve loan');
+      }
+
+      // Still waiting on other approvers
+      if (result.awaitingApprovals) {
+        return result;
+      }
 
       // Create notification
       const loan = pendingLoans.find((l: any) => l.id === loanId);
@@ -82,11 +107,17 @@ export function PendingApprovalsPage() {
           metadata: { loanId },
         });
       }
+
+      return result;
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ['pending-approvals'] });
       queryClient.invalidateQueries({ queryKey: ['loans'] });
-      toast.success('Loan approved successfully');
+      if (result.awaitingApprovals) {
+        toast.success(`Approval signed. Still needed: ${formatApprovalRequirements(result.awaitingApprovals)}`);
+      } else {
+        toast.success('Loan approved successfully');
+      }
     },
     onError: (error: any) => {
       toast.error(error.message || 'Failed to approve loan');
@@ -97,13 +128,16 @@ export function PendingApprovalsPage() {
     mutationFn: async (loanId: string) => {
       if (!profile?.agency_id) throw new Error('Agency ID not found');
       
-      const loanRef = doc(db, 'agencies', profile.agency_id, 'loans', loanId);
-      await updateDoc(loanRef, {
-        status: 'rejected',
-        rejectedBy: user?.id || profile.id,
-        rejectedAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
-      });
+      const result = await rejectLoanWorkflow(
+        loanId,
+        profile.agency_id,
+        user?.id || profile.id,
+        userRole,
+        'Loan rejected from pending approvals'
+      );
+      if (!result.success) {
+        throw new Error(result.error || 'Failed to reject loan');
+      }
 
       // Create notification
       const loan = pendingLoans.find((l: any) => l.id === loanId);
@@ -201,6 +235,25 @@ export function PendingApprovalsPage() {
                         <span>Created: {formatDateSafe(loan.createdAt)}</span>
                         <span>Interest: {loan.interestRate || 0}%</span>
                       </div>
+                      {loan.approvalState && (
+                        <div className="flex flex-wrap items-center gap-2 text-xs mt-3">
+                          <PenLine className="w-3.5 h-3.5 text-slate-400" />
+                          {loan.approvalState.signatures.length === 0 ? (
+                            <span className="text-slate-500">No approvals signed yet</span>
+                          ) : (
+                            loan.approvalState.signatures.map((signature: any) => (
+                              <Badge key={signature.userId} variant="outline" className="font-normal">
+                                {signature.userName || signature.userId.slice(0, 8)} ({APPROVER_ROLE_LABELS[signature.role as keyof typeof APPROVER_ROLE_LABELS]})
+                              </Badge>
+                            ))
+                          )}
+                          {loan.approvalState.evaluation.outstanding.length > 0 && (
+                            <span className="text-amber-600">
+                              Still needed: {formatApprovalRequirements(loan.approvalState.evaluation.outstanding)}
+                            </span>
+                          )}
+                        </div>
+                      )}
                     </div>
                     <div className="flex items-center gap-2">
                       <Link to={`/employee/loans/${loan.id}`}>
@@ -1,9 +1,18 @@
 /**
  * Bank Reconciliation Utilities
- * Handles CSV/Excel parsing and matching payments with repayments
+ * Parses bank statements (CSV, Excel, OFX, MT940 and CAMT.053) and matches
+ * their lines with outstanding repayments. A line can be matched to several
+ * repayments (one deposit covering several borrowers), and several lines can
+ * share one repayment (an installment paid in parts).
  */
 
 import * as XLSX from 'xlsx';
+import {
+  getOutstandingComponents,
+  sumComponents,
+  toAllocationInstallment,
+} from '../../../packages/loan-rules/src/allocation';
+import { roundCurrency } from '../../../packages/loan-rules/src/utils';
 
 export interface BankTransaction {
   date: string;
@@ -11,15 +20,52 @@ export interface BankTransaction {
   amount: number;
   reference?: string;
   account?: string;
+  bankTransactionId?: string; // The bank's own id for the line (OFX FITID, MT940 bank reference, CAMT entry reference)
 }
 
-export interface ReconciliationMatch {
-  bankTransaction: BankTransaction;
-  repayment?: any;
-  matchConfidence: 'high' | 'medium' | 'low';
+export type BankStatementFormat = 'csv' | 'excel' | 'ofx' | 'mt940' | 'camt053';
+
+export type ReconciliationLineState = 'matched' | 'suggested' | 'unmatched' | 'ignored';
+
+/**
+ * Part of a bank line applied to one repayment
+ */
+export interface ReconciliationAllocation {
+  loanId: string;
+  repaymentId?: string;
+  customerName?: string;
+  amount: number;
+}
+
+export interface ReconciliationLine {
+  id: string;
+  transaction: BankTransaction;
+  state: ReconciliationLineState;
+  allocations: ReconciliationAllocation[];
+  matchConfidence?: 'high' | 'medium' | 'low';
   matchReason: string;
+  paymentIds?: string[]; // Payments recorded when the line was posted
+  postedAt?: any;
+}
+
+export interface ReconciliationReport {
+  totalTransactions: number;
+  matched: number;
+  suggested: number;
+  unmatched: number;
+  ignored: number;
+  posted: number;
+  totalAmount: number;
+  matchedAmount: number;
+  unmatchedAmount: number;
+  matchRate: number;
 }
 
+const AMOUNT_TOLERANCE = 0.01;
+const DATE_TOLERANCE_DAYS = 5;
+const MAX_AGGREGATE_REPAYMENTS = 4;
+const MAX_AGGREGATE_CANDIDATES = 12;
+
 /**
  * Parse CSV with proper handling of quoted fields and commas
  */
@@ -183,133 +229,375 @@ export function parseBankStatementExcel(file: File): Promise<BankTransaction[]>
 }
 
 /**
- * Parse bank statement file (CSV or Excel)
+ * Parse an OFX/QFX statement (SGML 1.x or XML 2.x)
+ * Only credits are kept; debits are never repayments
  */
-export async function parseBankStatementFile(file: File): Promise<BankTransaction[]> {
-  const fileName = file.name.toLowerCase();
-  
-  if (fileName.endsWith('.xlsx') || fileName.endsWith('.xls')) {
-    return await parseBankStatementExcel(file);
-  } else if (fileName.endsWith('.csv')) {
-    const text = await file.text();
-    return parseBankStatementCSV(text);
-  } else {
-    throw new Error('Unsupported file format. Please use CSV or Excel (.xlsx, .xls)');
+export function parseBankStatementOFX(ofxText: string): BankTransaction[] {
+  const transactions: BankTransaction[] = [];
+  const account = readOFXField(ofxText, 'ACCTID');
+  const blocks = ofxText.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+
+  for (const block of blocks) {
+    const amount = parseFloat((readOFXField(block, 'TRNAMT') || '').replace(',', '.'));
+    const posted = readOFXField(block, 'DTPOSTED') || '';
+    if (isNaN(amount) || amount <= 0 || posted.length < 8) continue;
+
+    const name = readOFXField(block, 'NAME');
+    const memo = readOFXField(block, 'MEMO');
+    transactions.push({
+      date: `${posted.slice(0, 4)}-${posted.slice(4, 6)}-${posted.slice(6, 8)}`,
+      description: [name, memo].filter(Boolean).join(' - '),
+      amount: roundCurrency(amount),
+      reference: readOFXField(block, 'REFNUM') || readOFXField(block, 'CHECKNUM') || undefined,
+      account: account || undefined,
+      bankTransactionId: readOFXField(block, 'FITID') || undefined,
+    });
   }
+
+  return transactions;
+}
+
+function readOFXField(text: string, tag: string): string | null {
+  const match = text.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : null;
 }
 
 /**
- * Match bank transactions with repayments
- * Improved matching logic with better date handling and amount tolerance
+ * Parse a SWIFT MT940 statement
+ * Each :61: statement line is a transaction and the :86: field after it its details.
+ * Only credits (and reversed debits) are kept.
+ */
+export function parseBankStatementMT940(mt940Text: string): BankTransaction[] {
+  const transactions: BankTransaction[] = [];
+  // Join continuation lines onto the field they belong to
+  const fields: Array<{ tag: string; value: string }> = [];
+  for (const rawLine of mt940Text.split(/\r?\n/)) {
+    const tagMatch = rawLine.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (tagMatch) {
+      fields.push({ tag: tagMatch[1], value: tagMatch[2] });
+    } else if (fields.length > 0 && rawLine.trim() && !rawLine.startsWith('-')) {
+      fields[fields.length - 1].value += `\n${rawLine}`;
+    }
+  }
+
+  let account: string | undefined;
+  let current: BankTransaction | null = null;
+
+  for (const field of fields) {
+    if (field.tag === '25') {
+      account = field.value.trim();
+    } else if (field.tag === '61') {
+      if (current) transactions.push(current);
+      current = null;
+
+      // YYMMDD [MMDD] mark [funds code] amount type reference [//bank reference]
+      const match = field.value
+        .split('\n')[0]
+        .match(/^(\d{2})(\d{2})(\d{2})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+,\d*)([NSF][A-Z0-9]{3})([^/]*)(?:\/\/(.*))?$/);
+      if (!match) continue;
+
+      const [, yy, mm, dd, , mark, , amountText, , customerReference, bankReference] = match;
+      if (mark !== 'C' && mark !== 'RD') continue;
+
+      current = {
+        date: `20${yy}-${mm}-${dd}`,
+        description: '',
+        amount: roundCurrency(parseFloat(amountText.replace(',', '.'))),
+        reference: customerReference && customerReference !== 'NONREF' ? customerReference.trim() : undefined,
+        account,
+        bankTransactionId: bankReference?.trim() || undefined,
+      };
+    } else if (field.tag === '86' && current) {
+      // Structured details (?20..?29 remittance, ?32/?33 payer name) or free text
+      const structured = field.value.replace(/\n/g, '');
+      const subfields = Array.from(structured.matchAll(/\?(\d{2})([^?]*)/g));
+      current.description = subfields.length > 0
+        ? subfields
+            .filter(([, code]) => (code >= '20' && code <= '29') || code === '32' || code === '33')
+            .map(([, , text]) => text.trim())
+            .join(' ')
+        : field.value.replace(/\n/g, ' ').trim();
+      transactions.push(current);
+      current = null;
+    }
+  }
+  if (current) transactions.push(current);
+
+  return transactions.filter((transaction) => transaction.amount > 0);
+}
+
+/**
+ * Parse an ISO 20022 CAMT.053 bank-to-customer statement
+ * Each credit entry (Ntry) is one transaction; batched entries stay one line
+ */
+export function parseBankStatementCAMT053(xmlText: string): BankTransaction[] {
+  const document = new DOMParser().parseFromString(xmlText, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The CAMT.053 file is not valid XML');
+  }
+
+  const account = readXMLText(document.documentElement, ['Stmt', 'Acct', 'Id', 'IBAN']) ||
+    readXMLText(document.documentElement, ['Stmt', 'Acct', 'Id', 'Othr', 'Id']);
+  const transactions: BankTransaction[] = [];
+
+  for (const entry of findXMLElements(document.documentElement, 'Ntry')) {
+    if (readXMLText(entry, ['CdtDbtInd']) !== 'CRDT') continue;
+    // A reversed debit is a credit too, but a reversed credit is not
+    if (readXMLText(entry, ['RvslInd']) === 'true') continue;
+
+    const amount = parseFloat(readXMLText(entry, ['Amt']) || '');
+    const date = (readXMLText(entry, ['BookgDt', 'Dt']) || readXMLText(entry, ['BookgDt', 'DtTm']) ||
+      readXMLText(entry, ['ValDt', 'Dt']) || '').slice(0, 10);
+    if (isNaN(amount) || amount <= 0 || !date) continue;
+
+    const remittance = findXMLElements(entry, 'Ustrd').map((element) => element.textContent?.trim()).filter(Boolean);
+    const payer = readXMLText(entry, ['NtryDtls', 'TxDtls', 'RltdPties', 'Dbtr', 'Nm']) ||
+      readXMLText(entry, ['NtryDtls', 'TxDtls', 'RltdPties', 'Dbtr', 'Pty', 'Nm']);
+    const endToEndId = readXMLText(entry, ['NtryDtls', 'TxDtls', 'Refs', 'EndToEndId']);
+
+    transactions.push({
+      date,
+      description: [payer, ...remittance].filter(Boolean).join(' - ') || readXMLText(entry, ['AddtlNtryInf']) || '',
+      amount: roundCurrency(amount),
+      reference: endToEndId && endToEndId !== 'NOTPROVIDED' ? endToEndId : undefined,
+      account: account || undefined,
+      bankTransactionId: readXMLText(entry, ['AcctSvcrRef']) || readXMLText(entry, ['NtryRef']) || undefined,
+    });
+  }
+
+  return transactions;
+}
+
+function findXMLElements(parent: Element, localName: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', localName));
+}
+
+/**
+ * Text of the first element down a path of child element names (namespace-agnostic)
+ */
+function readXMLText(parent: Element, path: string[]): string | null {
+  let current: Element | undefined = parent;
+  for (const name of path) {
+    current = Array.from(current.children).find((child) => child.localName === name) ||
+      (current === parent ? findXMLElements(current, name)[0] : undefined);
+    if (!current) return null;
+  }
+  return current.textContent?.trim() || null;
+}
+
+/**
+ * Statement format from the file name, or its content for generic extensions
+ */
+export function detectBankStatementFormat(fileName: string, content?: string): BankStatementFormat | null {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.xlsx') || name.endsWith('.xls')) return 'excel';
+  if (name.endsWith('.csv')) return 'csv';
+  if (name.endsWith('.ofx') || name.endsWith('.qfx')) return 'ofx';
+  if (name.endsWith('.sta') || name.endsWith('.mt940') || name.endsWith('.940')) return 'mt940';
+
+  if (content !== undefined && (name.endsWith('.xml') || name.endsWith('.txt'))) {
+    if (/camt\.053|BkToCstmrStmt/.test(content)) return 'camt053';
+    if (/<OFX>|OFXHEADER/i.test(content)) return 'ofx';
+    if (/^:20:/m.test(content) && /^:61:/m.test(content)) return 'mt940';
+  }
+  return null;
+}
+
+/**
+ * Parse bank statement file (CSV, Excel, OFX, MT940 or CAMT.053)
+ */
+export async function parseBankStatementFile(file: File): Promise<{
+  format: BankStatementFormat;
+  transactions: BankTransaction[];
+}> {
+  if (detectBankStatementFormat(file.name) === 'excel') {
+    return { format: 'excel', transactions: await parseBankStatementExcel(file) };
+  }
+
+  const text = await file.text();
+  const format = detectBankStatementFormat(file.name, text);
+  switch (format) {
+    case 'csv':
+      return { format, transactions: parseBankStatementCSV(text) };
+    case 'ofx':
+      return { format, transactions: parseBankStatementOFX(text) };
+    case 'mt940':
+      return { format, transactions: parseBankStatementMT940(text) };
+    case 'camt053':
+      return { format, transactions: parseBankStatementCAMT053(text) };
+    default:
+      throw new Error('Unsupported file format. Please use CSV, Excel (.xlsx, .xls), OFX, MT940 or CAMT.053');
+  }
+}
+
+/**
+ * A repayment a bank line could pay, with what is still owed on it
+ */
+interface RepaymentCandidate {
+  repayment: any;
+  dueDate: Date | null;
+  outstanding: number;
+}
+
+function toCandidates(repayments: any[]): RepaymentCandidate[] {
+  return repayments
+    .filter((r: any) => r.status !== 'paid' && r.loanId)
+    .map((r: any) => ({
+      repayment: r,
+      dueDate: r.dueDate?.toDate?.() || parseDate(r.dueDate),
+      outstanding: roundCurrency(sumComponents(getOutstandingComponents(toAllocationInstallment(r)))),
+    }))
+    .filter((candidate) => candidate.outstanding > 0);
+}
+
+function toAllocation(candidate: RepaymentCandidate, amount: number): ReconciliationAllocation {
+  return {
+    loanId: candidate.repayment.loanId,
+    repaymentId: candidate.repayment.id,
+    ...(candidate.repayment.customerName && candidate.repayment.customerName !== 'N/A'
+      ? { customerName: candidate.repayment.customerName }
+      : {}),
+    amount: roundCurrency(amount),
+  };
+}
+
+function daysBetween(a: Date, b: Date): number {
+  return Math.abs((a.getTime() - b.getTime()) / (1000 * 60 * 60 * 24));
+}
+
+/**
+ * Up to MAX_AGGREGATE_REPAYMENTS candidates whose outstanding amounts add up to a deposit
+ */
+function findAggregate(candidates: RepaymentCandidate[], amount: number, remaining: Map<string, number>): RepaymentCandidate[] | null {
+  const search = (start: number, chosen: RepaymentCandidate[], total: number): RepaymentCandidate[] | null => {
+    if (chosen.length >= 2 && Math.abs(total - amount) <= AMOUNT_TOLERANCE) return chosen;
+    if (chosen.length >= MAX_AGGREGATE_REPAYMENTS || total > amount + AMOUNT_TOLERANCE) return null;
+    for (let i = start; i < candidates.length; i++) {
+      const found = search(i + 1, [...chosen, candidates[i]], total + (remaining.get(candidates[i].repayment.id) || 0));
+      if (found) return found;
+    }
+    return null;
+  };
+  return search(0, [], 0);
+}
+
+/**
+ * Match bank transactions with outstanding repayments
+ * Reference matches are taken as matched; amount, aggregate and part-payment
+ * matches are only suggested and wait for confirmation.
  */
 export function matchBankTransactions(
   bankTransactions: BankTransaction[],
   repayments: any[]
-): ReconciliationMatch[] {
-  const matches: ReconciliationMatch[] = [];
-  const usedRepayments = new Set<string>(); // Track which repayments have been matched
+): ReconciliationLine[] {
+  const candidates = toCandidates(repayments);
+  // What each repayment still needs after earlier lines were matched to it
+  const remaining = new Map(candidates.map((candidate) => [candidate.repayment.id, candidate.outstanding]));
+  const isOpen = (candidate: RepaymentCandidate) => (remaining.get(candidate.repayment.id) || 0) > AMOUNT_TOLERANCE;
 
-  for (const bankTx of bankTransactions) {
-    let bestMatch: any = null;
-    let bestConfidence: 'high' | 'medium' | 'low' = 'low';
-    let matchReason = 'No match found';
+  return bankTransactions.map((bankTx, index) => {
+    const line: ReconciliationLine = {
+      id: String(index + 1).padStart(4, '0'),
+      transaction: bankTx,
+      state: 'unmatched',
+      allocations: [],
+      matchReason: 'No match found',
+    };
 
-    // Parse bank transaction date
     const txDate = parseDate(bankTx.date);
     if (!txDate) {
-      matches.push({
-        bankTransaction: bankTx,
-        repayment: undefined,
-        matchConfidence: 'low',
-        matchReason: 'Invalid date format',
-      });
-      continue;
+      line.matchReason = 'Invalid date format';
+      return line;
     }
 
-    // Try to match by reference/transaction ID (highest confidence)
-    if (bankTx.reference) {
-      const refMatch = repayments.find((r: any) => 
-        !usedRepayments.has(r.id) &&
-        (r.transactionId === bankTx.reference ||
-         r.id === bankTx.reference ||
-         r.reference === bankTx.reference ||
-         String(r.id).includes(bankTx.reference) ||
-         String(bankTx.reference).includes(r.id))
+    const haystack = `${bankTx.reference || ''} ${bankTx.description}`.toLowerCase();
+
+    // Reference/transaction ID or loan number in the narration (highest confidence)
+    const refMatch = candidates
+      .filter((candidate) => {
+        const r = candidate.repayment;
+        return (bankTx.reference && (r.transactionId === bankTx.reference || r.reference === bankTx.reference || r.id === bankTx.reference)) ||
+          (String(r.loanId).length >= 6 && haystack.includes(String(r.loanId).toLowerCase()));
+      })
+      .sort((a, b) => (a.dueDate?.getTime() || 0) - (b.dueDate?.getTime() || 0))
+      .find(isOpen);
+
+    // Amount and date (within DATE_TOLERANCE_DAYS)
+    const nearby = candidates
+      .filter((candidate) => isOpen(candidate) && candidate.dueDate && daysBetween(txDate, candidate.dueDate) <= DATE_TOLERANCE_DAYS)
+      .sort((a, b) => daysBetween(txDate, a.dueDate!) - daysBetween(txDate, b.dueDate!));
+    const amountMatch = nearby.find(
+      (candidate) => Math.abs((remaining.get(candidate.repayment.id) || 0) - bankTx.amount) <= AMOUNT_TOLERANCE
+    );
+
+    if (refMatch) {
+      line.state = 'matched';
+      line.matchConfidence = 'high';
+      line.matchReason = 'Matched by reference/loan number';
+      line.allocations = [toAllocation(refMatch, bankTx.amount)];
+    } else if (amountMatch) {
+      line.state = 'suggested';
+      line.matchConfidence = 'medium';
+      line.matchReason = `Matched by amount and date (${Math.round(daysBetween(txDate, amountMatch.dueDate!))} days)`;
+      line.allocations = [toAllocation(amountMatch, bankTx.amount)];
+    } else {
+      // One deposit covering several repayments, e.g. a group or employer remittance
+      const aggregate = findAggregate(
+        nearby.filter((candidate) => (remaining.get(candidate.repayment.id) || 0) < bankTx.amount).slice(0, MAX_AGGREGATE_CANDIDATES),
+        bankTx.amount,
+        remaining
       );
-      if (refMatch) {
-        bestMatch = refMatch;
-        bestConfidence = 'high';
-        matchReason = 'Matched by reference/transaction ID';
-        usedRepayments.add(refMatch.id);
-      }
-    }
+      // Part of one repayment, paid by the borrower named in the narration
+      const partPayment = !aggregate && candidates.find((candidate) => {
+        const name = String(candidate.repayment.customerName || '').toLowerCase();
+        return isOpen(candidate) && name.length > 3 && name !== 'n/a' && haystack.includes(name) &&
+          bankTx.amount < (remaining.get(candidate.repayment.id) || 0);
+      });
 
-    // Try to match by amount and date (within 5 days) - medium confidence
-    if (!bestMatch) {
-      const amountTolerance = 0.01; // Allow 1 cent difference
-      const dateToleranceDays = 5;
-      
-      const candidates = repayments
-        .filter((r: any) => {
-          if (usedRepayments.has(r.id)) return false;
-          
-          const repaymentDate = r.dueDate?.toDate?.() || r.paidAt?.toDate?.() || parseDate(r.dueDate) || parseDate(r.paidAt);
-          if (!repaymentDate) return false;
-          
-          const daysDiff = Math.abs((txDate.getTime() - repaymentDate.getTime()) / (1000 * 60 * 60 * 24));
-          const repaymentAmount = Number(r.amountDue || r.amountPaid || 0);
-          const amountDiff = Math.abs(repaymentAmount - bankTx.amount);
-          
-          return daysDiff <= dateToleranceDays && amountDiff <= amountTolerance;
-        })
-        .map((r: any) => {
-          const repaymentDate = r.dueDate?.toDate?.() || r.paidAt?.toDate?.() || parseDate(r.dueDate) || parseDate(r.paidAt);
-          const daysDiff = Math.abs((txDate.getTime() - repaymentDate.getTime()) / (1000 * 60 * 60 * 24));
-          const repaymentAmount = Number(r.amountDue || r.amountPaid || 0);
-          const amountDiff = Math.abs(repaymentAmount - bankTx.amount);
-          
-          return {
-            repayment: r,
-            daysDiff,
-            amountDiff,
-            score: (1 / (daysDiff + 1)) * (1 / (amountDiff + 0.01)), // Higher score = better match
-          };
-        })
-        .sort((a, b) => b.score - a.score);
-
-      if (candidates.length > 0 && candidates[0].score > 0.1) {
-        bestMatch = candidates[0].repayment;
-        bestConfidence = 'medium';
-        matchReason = `Matched by amount and date (${Math.round(candidates[0].daysDiff)} days, ${candidates[0].amountDiff.toFixed(2)} difference)`;
-        usedRepayments.add(bestMatch.id);
+      if (aggregate) {
+        line.state = 'suggested';
+        line.matchConfidence = 'low';
+        line.matchReason = `One deposit covering ${aggregate.length} repayments`;
+        line.allocations = aggregate.map((candidate) => toAllocation(candidate, remaining.get(candidate.repayment.id) || 0));
+      } else if (partPayment) {
+        line.state = 'suggested';
+        line.matchConfidence = 'low';
+        line.matchReason = 'Part payment by the borrower named in the narration';
+        line.allocations = [toAllocation(partPayment, bankTx.amount)];
       }
     }
 
-    // Try to match by amount only (low confidence) - only for pending repayments
-    if (!bestMatch) {
-      const amountTolerance = 0.01;
-      const amountMatch = repayments.find((r: any) => 
-        !usedRepayments.has(r.id) &&
-        Math.abs(Number(r.amountDue || 0) - bankTx.amount) <= amountTolerance &&
-        (r.status === 'pending' || r.status === 'overdue')
-      );
-      if (amountMatch) {
-        bestMatch = amountMatch;
-        bestConfidence = 'low';
-        matchReason = 'Matched by amount only (pending repayment)';
-        usedRepayments.add(amountMatch.id);
+    for (const allocation of line.allocations) {
+      if (allocation.repaymentId) {
+        remaining.set(allocation.repaymentId, roundCurrency((remaining.get(allocation.repaymentId) || 0) - allocation.amount));
       }
     }
+    return line;
+  });
+}
 
-    matches.push({
-      bankTransaction: bankTx,
-      repayment: bestMatch,
-      matchConfidence: bestConfidence,
-      matchReason,
-    });
-  }
+/**
+ * Total applied by a line's allocations
+ */
+export function getAllocatedAmount(line: Pick<ReconciliationLine, 'allocations'>): number {
+  return roundCurrency(line.allocations.reduce((sum, allocation) => sum + allocation.amount, 0));
+}
 
-  return matches;
+/**
+ * Problems that stop a line being confirmed as matched
+ */
+export function validateLineAllocations(line: Pick<ReconciliationLine, 'transaction' | 'allocations'>): string | null {
+  if (line.allocations.length === 0) {
+    return 'Choose at least one repayment for this line';
+  }
+  if (line.allocations.some((allocation) => !allocation.loanId || !(allocation.amount > 0))) {
+    return 'Every allocation needs a loan and an amount';
+  }
+  const allocated = getAllocatedAmount(line);
+  if (Math.abs(allocated - line.transaction.amount) > AMOUNT_TOLERANCE) {
+    return `Allocations total ${allocated.toFixed(2)} but the bank line is ${line.transaction.amount.toFixed(2)}`;
+  }
+  return null;
 }
 
 /**
@@ -382,30 +670,34 @@ function parseDate(dateStr: string | Date | undefined): Date | null {
   return null;
 }
 
+/**
+ * Date a bank line was booked
+ */
+export function getTransactionDate(transaction: BankTransaction): Date | null {
+  return parseDate(transaction.date);
+}
+
 /**
  * Generate reconciliation report
  */
-export function generateReconciliationReport(matches: ReconciliationMatch[]) {
-  const matched = matches.filter(m => m.repayment).length;
-  const unmatched = matches.filter(m => !m.repayment).length;
-  const highConfidence = matches.filter(m => m.matchConfidence === 'high').length;
-  const mediumConfidence = matches.filter(m => m.matchConfidence === 'medium').length;
-  const lowConfidence = matches.filter(m => m.matchConfidence === 'low' && m.repayment).length;
-  const totalAmount = matches.reduce((sum, m) => sum + m.bankTransaction.amount, 0);
-  const matchedAmount = matches
-    .filter(m => m.repayment)
-    .reduce((sum, m) => sum + m.bankTransaction.amount, 0);
+export function generateReconciliationReport(lines: ReconciliationLine[]): ReconciliationReport {
+  const countState = (state: ReconciliationLineState) => lines.filter((line) => line.state === state).length;
+  const totalAmount = roundCurrency(lines.reduce((sum, line) => sum + line.transaction.amount, 0));
+  const matchedAmount = roundCurrency(
+    lines.filter((line) => line.state === 'matched').reduce((sum, line) => sum + line.transaction.amount, 0)
+  );
+  const matched = countState('matched');
 
   return {
-    totalTransactions: matches.length,
+    totalTransactions: lines.length,
     matched,
-    unmatched,
-    highConfidence,
-    mediumConfidence,
-    lowConfidence,
+    suggested: countState('suggested'),
+    unmatched: countState('unmatched'),
+    ignored: countState('ignored'),
+    posted: lines.filter((line) => line.postedAt).length,
     totalAmount,
     matchedAmount,
-    unmatchedAmount: totalAmount - matchedAmount,
-    matchRate: matches.length > 0 ? (matched / matches.length) * 100 : 0,
+    unmatchedAmount: roundCurrency(totalAmount - matchedAmount),
+    matchRate: lines.length > 0 ? (matched / lines.length) * 100 : 0,
   };
 }
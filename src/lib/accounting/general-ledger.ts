@@ -0,0 +1,197 @@
+/**
+ * General Ledger
+ *
+ * Reads an agency's chart of accounts and journal, and builds the trial
+ * balance, income statement and balance sheet from the posted entries.
+ * Entries are posted and periods locked by Cloud Functions only; the trial
+ * balance of a closed period is the one frozen at its close.
+ */
+
+import { collection, doc, getDoc, getDocs, orderBy, query, setDoc, where, serverTimestamp } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '../firebase/config';
+import { createAuditLog } from '../firebase/firestore-helpers';
+import {
+  buildBalanceSheet,
+  buildIncomeStatement,
+  computeTrialBalance,
+  resolveChartOfAccounts,
+  validateChartOfAccounts,
+  type BalanceSheet,
+  type IncomeStatement,
+  type JournalEntry,
+  type JournalLine,
+  type LedgerAccount,
+  type TrialBalance,
+} from '../../../packages/loan-rules/src/ledger';
+
+export interface AccountingPeriods {
+  lockedThrough: string | null; // Last locked period (YYYY-MM)
+  lockedBy?: string;
+}
+
+export interface LedgerReports {
+  accounts: LedgerAccount[];
+  trialBalance: TrialBalance;
+  incomeStatement: IncomeStatement;
+  balanceSheet: BalanceSheet;
+}
+
+interface LedgerCallableResult {
+  success: boolean;
+  error?: string;
+  entryId?: string;
+  lockedThrough?: string | null;
+}
+
+/**
+ * The agency's chart of accounts (the default chart until one is saved)
+ */
+export async function getChartOfAccounts(agencyId: string): Promise<LedgerAccount[]> {
+  const configSnap = await getDoc(doc(db, 'agencies', agencyId, 'config', 'chartOfAccounts'));
+  return resolveChartOfAccounts(configSnap.exists() ? (configSnap.data() as { accounts?: LedgerAccount[] }) : null);
+}
+
+/**
+ * Save the agency's chart of accounts
+ */
+export async function saveChartOfAccounts(
+  agencyId: string,
+  accounts: LedgerAccount[],
+  actorId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const errors = validateChartOfAccounts(accounts);
+    if (errors.length > 0) {
+      return { success: false, error: errors.join('. ') };
+    }
+
+    // Firestore rejects undefined fields
+    const cleaned = accounts.map((account) => ({
+      code: account.code.trim(),
+      name: account.name.trim(),
+      type: account.type,
+      ...(account.systemKey ? { systemKey: account.systemKey } : {}),
+      ...(account.contra ? { contra: true } : {}),
+      active: account.active !== false,
+    }));
+
+    await setDoc(doc(db, 'agencies', agencyId, 'config', 'chartOfAccounts'), {
+      accounts: cleaned,
+      updatedAt: serverTimestamp(),
+      updatedBy: actorId,
+    });
+
+    createAuditLog(agencyId, {
+      actorId,
+      action: 'chart_of_accounts_updated',
+      targetCollection: 'config',
+      targetId: 'chartOfAccounts',
+      metadata: { accounts: cleaned.length },
+    }).catch(() => {
+      // Ignore audit log errors
+    });
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error saving chart of accounts:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to save chart of accounts',
+    };
+  }
+}
+
+/**
+ * The periods closed to postings
+ */
+export async function getAccountingPeriods(agencyId: string): Promise<AccountingPeriods> {
+  const configSnap = await getDoc(doc(db, 'agencies', agencyId, 'config', 'accountingPeriods'));
+  const data = configSnap.exists() ? configSnap.data() : {};
+  return {
+    lockedThrough: data.lockedThrough || null,
+    lockedBy: data.lockedBy,
+  };
+}
+
+/**
+ * Journal entries posted between two ledger dates (inclusive, YYYY-MM-DD)
+ */
+export async function getJournalEntries(
+  agencyId: string,
+  range: { from?: string; to?: string } = {}
+): Promise<JournalEntry[]> {
+  const constraints = [
+    ...(range.from ? [where('date', '>=', range.from)] : []),
+    ...(range.to ? [where('date', '<=', range.to)] : []),
+    orderBy('date', 'asc'),
+  ];
+  const snapshot = await getDocs(query(collection(db, 'agencies', agencyId, 'journal_entries'), ...constraints));
+  return snapshot.docs.map((entryDoc) => ({ id: entryDoc.id, ...entryDoc.data() } as JournalEntry));
+}
+
+/**
+ * Trial balance and income statement for a period, and the balance sheet at its end
+ */
+export async function getLedgerReports(agencyId: string, from: string, to: string): Promise<LedgerReports> {
+  // The balance sheet needs every entry up to the end of the period
+  const [accounts, entries, closeSnap] = await Promise.all([
+    getChartOfAccounts(agencyId),
+    getJournalEntries(agencyId, { to }),
+    getDoc(doc(db, 'agencies', agencyId, 'period_closes', to.slice(0, 7))),
+  ]);
+
+  // A closed period's trial balance is the one frozen when it closed
+  const close = closeSnap.exists() ? closeSnap.data() : null;
+  const closedTrialBalance = close?.status === 'closed' && close.periodEnd === to ? close.trialBalance as TrialBalance : null;
+
+  return {
+    accounts,
+    trialBalance: closedTrialBalance || computeTrialBalance(accounts, entries, { to }),
+    incomeStatement: buildIncomeStatement(accounts, entries, from, to),
+    balanceSheet: buildBalanceSheet(accounts, entries, to),
+  };
+}
+
+async function callLedgerFunction<T>(name: string, data: T, fallbackError: string): Promise<LedgerCallableResult> {
+  try {
+    const callable = httpsCallable<T, LedgerCallableResult>(functions, name);
+    const result = await callable(data);
+    return result.data;
+  } catch (error: any) {
+    console.error(`Error calling ${name}:`, error);
+    return {
+      success: false,
+      error: error.message || fallbackError,
+    };
+  }
+}
+
+/**
+ * Move the period lock back to a month, reopening every period after it.
+ * Periods are locked going forward by closing them.
+ */
+export function lockAccountingPeriod(agencyId: string, periodId: string): Promise<LedgerCallableResult> {
+  return callLedgerFunction('lockAccountingPeriod', { agencyId, periodId }, 'Failed to lock accounting period');
+}
+
+/**
+ * Post a manual journal entry
+ */
+export function postManualJournalEntry(
+  agencyId: string,
+  entry: { date: string; memo: string; lines: JournalLine[] }
+): Promise<LedgerCallableResult> {
+  return callLedgerFunction('postManualJournalEntry', { agencyId, ...entry }, 'Failed to post journal entry');
+}
+
+/**
+ * Reverse a posted journal entry
+ */
+export function reverseJournalEntry(
+  agencyId: string,
+  entryId: string,
+  reason?: string
+): Promise<LedgerCallableResult> {
+  return callLedgerFunction('reverseJournalEntry', { agencyId, entryId, reason }, 'Failed to reverse journal entry');
+}
@@ -0,0 +1,168 @@
+/**
+ * Period-end Close
+ *
+ * Month-end closes and the loan balances frozen at each, the backdating
+ * policy for transactions dated in a closed month, and the requests that
+ * hold such transactions for approval. Periods are checked, closed and
+ * locked by Cloud Functions; reopening is an admin-only ledger action.
+ */
+
+import { collection, doc, getDoc, getDocs, orderBy, query, setDoc, serverTimestamp } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '../firebase/config';
+import { createAuditLog } from '../firebase/firestore-helpers';
+import { getAccountingPeriods, lockAccountingPeriod } from './general-ledger';
+import { toLedgerDate, type TrialBalance } from '../../../packages/loan-rules/src/ledger';
+import {
+  getBackdatingRule,
+  getPreviousPeriodId,
+  resolvePeriodCloseConfig,
+  type BackdatingRule,
+  type PeriodBalanceTotals,
+  type PeriodCloseCheck,
+  type PeriodCloseConfig,
+  type PeriodLoanBalance,
+} from '../../../packages/loan-rules/src/period-close';
+
+export type { PeriodCloseCheck, PeriodCloseConfig, PeriodLoanBalance };
+
+export interface PeriodClose {
+  periodId: string; // YYYY-MM
+  periodEnd: string;
+  status: 'closed' | 'reopened';
+  revision: number;
+  checks: PeriodCloseCheck[];
+  totals: PeriodBalanceTotals;
+  trialBalance: TrialBalance;
+  closedBy: string;
+  closedAt?: Date;
+  reopenedBy?: string;
+}
+
+interface PeriodCloseResult {
+  success: boolean;
+  error?: string;
+  checks?: PeriodCloseCheck[];
+  totals?: PeriodBalanceTotals;
+}
+
+/**
+ * The agency's period-close config (the defaults until one is saved)
+ */
+export async function getPeriodCloseConfig(agencyId: string): Promise<PeriodCloseConfig> {
+  const configSnap = await getDoc(doc(db, 'agencies', agencyId, 'config', 'periodClose'));
+  return resolvePeriodCloseConfig(configSnap.exists() ? (configSnap.data() as Partial<PeriodCloseConfig>) : null);
+}
+
+/**
+ * Save the agency's period-close config
+ */
+export async function savePeriodCloseConfig(
+  agencyId: string,
+  config: PeriodCloseConfig,
+  actorId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    await setDoc(doc(db, 'agencies', agencyId, 'config', 'periodClose'), {
+      ...config,
+      updatedAt: serverTimestamp(),
+      updatedBy: actorId,
+    });
+
+    createAuditLog(agencyId, {
+      actorId,
+      action: 'period_close_config_updated',
+      targetCollection: 'config',
+      targetId: 'periodClose',
+      metadata: { backdatingPolicy: config.backdatingPolicy },
+    }).catch(() => {
+      // Ignore audit log errors
+    });
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error saving period close config:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to save period close config',
+    };
+  }
+}
+
+/**
+ * Whether a transaction dated on a day may be recorded as it is
+ */
+export async function checkBackdating(agencyId: string, date: Date): Promise<BackdatingRule> {
+  const [periods, config] = await Promise.all([getAccountingPeriods(agencyId), getPeriodCloseConfig(agencyId)]);
+  return getBackdatingRule(toLedgerDate(date), periods.lockedThrough, config);
+}
+
+/**
+ * Period closes, newest first
+ */
+export async function getPeriodCloses(agencyId: string): Promise<PeriodClose[]> {
+  const snapshot = await getDocs(query(collection(db, 'agencies', agencyId, 'period_closes'), orderBy('periodId', 'desc')));
+  return snapshot.docs.map((closeDoc) => {
+    const data = closeDoc.data();
+    return {
+      ...data,
+      closedAt: data.closedAt?.toDate?.() || data.closedAt,
+    } as PeriodClose;
+  });
+}
+
+/**
+ * The close of a period, if it is closed
+ */
+export async function getClosedPeriod(agencyId: string, periodId: string): Promise<PeriodClose | null> {
+  const closeSnap = await getDoc(doc(db, 'agencies', agencyId, 'period_closes', periodId));
+  if (!closeSnap.exists() || closeSnap.data().status !== 'closed') {
+    return null;
+  }
+  return closeSnap.data() as PeriodClose;
+}
+
+/**
+ * Each loan's balances frozen at a period's close
+ */
+export async function getPeriodLoanBalances(agencyId: string, periodId: string): Promise<PeriodLoanBalance[]> {
+  const snapshot = await getDocs(collection(db, 'agencies', agencyId, 'period_closes', periodId, 'loans'));
+  return snapshot.docs
+    .map((balanceDoc) => balanceDoc.data() as PeriodLoanBalance)
+    .sort((a, b) => b.principalOutstanding - a.principalOutstanding);
+}
+
+async function callPeriodCloseFunction(name: string, agencyId: string, periodId: string, fallbackError: string): Promise<PeriodCloseResult> {
+  try {
+    const callable = httpsCallable<{ agencyId: string; periodId: string }, PeriodCloseResult>(functions, name);
+    const result = await callable({ agencyId, periodId });
+    return result.data;
+  } catch (error: any) {
+    console.error(`Error calling ${name}:`, error);
+    return {
+      success: false,
+      error: error.message || fallbackError,
+    };
+  }
+}
+
+/**
+ * Run the close checks for a period without closing it
+ */
+export function previewPeriodClose(agencyId: string, periodId: string): Promise<PeriodCloseResult> {
+  return callPeriodCloseFunction('previewPeriodClose', agencyId, periodId, 'Failed to check the period');
+}
+
+/**
+ * Close a period: freeze its balances and lock the ledger through it
+ */
+export function closeAccountingPeriod(agencyId: string, periodId: string): Promise<PeriodCloseResult> {
+  return callPeriodCloseFunction('closeAccountingPeriod', agencyId, periodId, 'Failed to close the period');
+}
+
+/**
+ * Reopen a closed period and every period after it (admins only)
+ */
+export function reopenAccountingPeriod(agencyId: string, periodId: string) {
+  return lockAccountingPeriod(agencyId, getPreviousPeriodId(periodId));
+}
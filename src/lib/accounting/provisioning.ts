@@ -0,0 +1,138 @@
+/**
+ * Loan Loss Provisioning
+ *
+ * The provisioning config and the monthly runs. Runs are made by Cloud
+ * Functions: on the first of each month for the month just ended, or on
+ * demand for a past month that has not been provisioned.
+ */
+
+import { collection, doc, getDoc, getDocs, orderBy, query, setDoc, serverTimestamp } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '../firebase/config';
+import { createAuditLog } from '../firebase/firestore-helpers';
+import {
+  resolveProvisioningConfig,
+  validateProvisioningConfig,
+  type BozClassification,
+  type Ifrs9Stage,
+  type ProvisionBucket,
+  type ProvisionedExposure,
+  type ProvisioningConfig,
+  type ProvisioningFramework,
+} from '../../../packages/loan-rules/src/provisioning';
+
+export interface ProvisionReport {
+  periodId: string; // YYYY-MM
+  asOf: string;
+  framework: ProvisioningFramework;
+  opening: number;
+  charge: number;
+  closing: number;
+  totalExposure: number;
+  byStage: Record<`stage${Ifrs9Stage}`, ProvisionBucket>;
+  byClassification: Record<BozClassification, ProvisionBucket>;
+  loanCount: number;
+  journalEntryId: string | null;
+  postedBy: string;
+  createdAt?: Date;
+}
+
+interface RunProvisioningResult {
+  success: boolean;
+  error?: string;
+  opening?: number;
+  charge?: number;
+  closing?: number;
+  loanCount?: number;
+}
+
+/**
+ * The agency's provisioning config (the defaults until one is saved)
+ */
+export async function getProvisioningConfig(agencyId: string): Promise<ProvisioningConfig> {
+  const configSnap = await getDoc(doc(db, 'agencies', agencyId, 'config', 'provisioning'));
+  return resolveProvisioningConfig(configSnap.exists() ? (configSnap.data() as Partial<ProvisioningConfig>) : null);
+}
+
+/**
+ * Save the agency's provisioning config. It applies from the next run.
+ */
+export async function saveProvisioningConfig(
+  agencyId: string,
+  config: ProvisioningConfig,
+  actorId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const errors = validateProvisioningConfig(config);
+    if (errors.length > 0) {
+      return { success: false, error: errors.join('. ') };
+    }
+
+    await setDoc(doc(db, 'agencies', agencyId, 'config', 'provisioning'), {
+      ...config,
+      lossGivenDefaultByLoanType: config.lossGivenDefaultByLoanType || {},
+      bozClasses: [...config.bozClasses].sort((a, b) => a.minDaysPastDue - b.minDaysPastDue),
+      updatedAt: serverTimestamp(),
+      updatedBy: actorId,
+    });
+
+    createAuditLog(agencyId, {
+      actorId,
+      action: 'provisioning_config_updated',
+      targetCollection: 'config',
+      targetId: 'provisioning',
+      metadata: { framework: config.framework },
+    }).catch(() => {
+      // Ignore audit log errors
+    });
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error saving provisioning config:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to save provisioning config',
+    };
+  }
+}
+
+/**
+ * Monthly provisioning runs, newest first
+ */
+export async function getProvisionReports(agencyId: string): Promise<ProvisionReport[]> {
+  const snapshot = await getDocs(query(collection(db, 'agencies', agencyId, 'provisions'), orderBy('periodId', 'desc')));
+  return snapshot.docs.map((reportDoc) => {
+    const data = reportDoc.data();
+    return {
+      ...data,
+      createdAt: data.createdAt?.toDate?.() || data.createdAt,
+    } as ProvisionReport;
+  });
+}
+
+/**
+ * Each loan's stage, classification and allowance in a month's run
+ */
+export async function getProvisionedExposures(agencyId: string, periodId: string): Promise<ProvisionedExposure[]> {
+  const snapshot = await getDocs(collection(db, 'agencies', agencyId, 'provisions', periodId, 'loans'));
+  return snapshot.docs
+    .map((exposureDoc) => exposureDoc.data() as ProvisionedExposure)
+    .sort((a, b) => b.provision - a.provision);
+}
+
+/**
+ * Provision a past month that has not been provisioned yet
+ */
+export async function runProvisioning(agencyId: string, periodId: string): Promise<RunProvisioningResult> {
+  try {
+    const callable = httpsCallable<{ agencyId: string; periodId: string }, RunProvisioningResult>(functions, 'runProvisioning');
+    const result = await callable({ agencyId, periodId });
+    return result.data;
+  } catch (error: any) {
+    console.error('Error calling runProvisioning:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to run provisioning',
+    };
+  }
+}
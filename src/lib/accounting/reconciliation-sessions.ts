@@ -0,0 +1,315 @@
+/**
+ * Bank Reconciliation Sessions
+ *
+ * An imported bank statement is saved as a session with one document per
+ * line, so matching can be reviewed over several sittings. Posting a session
+ * records a payment on each loan its matched lines were allocated to.
+ */
+
+import {
+  collection,
+  doc,
+  getDocs,
+  orderBy,
+  query,
+  serverTimestamp,
+  updateDoc,
+  writeBatch,
+} from 'firebase/firestore';
+import { db } from '../firebase/config';
+import { createAuditLog } from '../firebase/firestore-helpers';
+import { recordLoanPayment } from '../loans/payments';
+import {
+  generateReconciliationReport,
+  getTransactionDate,
+  matchBankTransactions,
+  validateLineAllocations,
+  type BankStatementFormat,
+  type BankTransaction,
+  type ReconciliationAllocation,
+  type ReconciliationLine,
+  type ReconciliationLineState,
+  type ReconciliationReport,
+} from './bank-reconciliation';
+
+export interface ReconciliationSession {
+  id: string;
+  fileName: string;
+  format: BankStatementFormat;
+  status: 'open' | 'completed';
+  summary: ReconciliationReport;
+  createdBy: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// Lines written per batch (Firestore allows 500 writes)
+const LINES_PER_BATCH = 400;
+
+function sessionsRef(agencyId: string) {
+  return collection(db, 'agencies', agencyId, 'reconciliation_sessions');
+}
+
+function linesRef(agencyId: string, sessionId: string) {
+  return collection(db, 'agencies', agencyId, 'reconciliation_sessions', sessionId, 'lines');
+}
+
+/**
+ * Firestore rejects undefined fields
+ */
+function cleanTransaction(transaction: BankTransaction): BankTransaction {
+  return Object.fromEntries(
+    Object.entries(transaction).filter(([, value]) => value !== undefined && value !== '')
+  ) as unknown as BankTransaction;
+}
+
+function cleanAllocations(allocations: ReconciliationAllocation[]): ReconciliationAllocation[] {
+  return allocations.map((allocation) => ({
+    loanId: allocation.loanId,
+    ...(allocation.repaymentId ? { repaymentId: allocation.repaymentId } : {}),
+    ...(allocation.customerName ? { customerName: allocation.customerName } : {}),
+    amount: Math.round(allocation.amount * 100) / 100,
+  }));
+}
+
+/**
+ * Payment id for a bank line's share on one loan. It is derived from the bank
+ * line itself, so importing the same statement again cannot pay a loan twice.
+ */
+function getReconciliationPaymentId(transaction: BankTransaction, loanId: string): string {
+  const fingerprint = transaction.bankTransactionId ||
+    `${transaction.date}-${transaction.amount.toFixed(2)}-${transaction.reference || transaction.description}`;
+  return `bank-${fingerprint}-${loanId}`.replace(/[^A-Za-z0-9_-]/g, '_').slice(0, 200);
+}
+
+async function refreshSessionSummary(agencyId: string, sessionId: string): Promise<ReconciliationReport> {
+  const lines = await getReconciliationLines(agencyId, sessionId);
+  const summary = generateReconciliationReport(lines);
+  // The session is done once every line is either posted or ignored
+  const completed = lines.every((line) => line.state === 'ignored' || (line.state === 'matched' && line.postedAt));
+
+  await updateDoc(doc(sessionsRef(agencyId), sessionId), {
+    summary,
+    status: completed ? 'completed' : 'open',
+    updatedAt: serverTimestamp(),
+  });
+  return summary;
+}
+
+/**
+ * Match an imported statement against outstanding repayments and save it as a session
+ */
+export async function createReconciliationSession(
+  agencyId: string,
+  params: {
+    fileName: string;
+    format: BankStatementFormat;
+    transactions: BankTransaction[];
+    repayments: any[];
+    userId: string;
+  }
+): Promise<{ success: boolean; error?: string; sessionId?: string; summary?: ReconciliationReport }> {
+  try {
+    const lines = matchBankTransactions(params.transactions, params.repayments);
+    const summary = generateReconciliationReport(lines);
+    const sessionRef = doc(sessionsRef(agencyId));
+
+    for (let start = 0; start < lines.length; start += LINES_PER_BATCH) {
+      const batch = writeBatch(db);
+      if (start === 0) {
+        batch.set(sessionRef, {
+          fileName: params.fileName,
+          format: params.format,
+          status: 'open',
+          summary,
+          createdBy: params.userId,
+          createdAt: serverTimestamp(),
+          updatedAt: serverTimestamp(),
+        });
+      }
+      for (const line of lines.slice(start, start + LINES_PER_BATCH)) {
+        batch.set(doc(linesRef(agencyId, sessionRef.id), line.id), {
+          transaction: cleanTransaction(line.transaction),
+          state: line.state,
+          allocations: cleanAllocations(line.allocations),
+          matchConfidence: line.matchConfidence || null,
+          matchReason: line.matchReason,
+        });
+      }
+      await batch.commit();
+    }
+
+    createAuditLog(agencyId, {
+      actorId: params.userId,
+      action: 'bank_reconciliation_started',
+      targetCollection: 'reconciliation_sessions',
+      targetId: sessionRef.id,
+      metadata: { fileName: params.fileName, format: params.format, lines: lines.length },
+    }).catch(() => {
+      // Ignore audit log errors
+    });
+
+    return { success: true, sessionId: sessionRef.id, summary };
+  } catch (error: any) {
+    console.error('Error creating reconciliation session:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to save bank statement',
+    };
+  }
+}
+
+/**
+ * Reconciliation sessions, newest first
+ */
+export async function getReconciliationSessions(agencyId: string): Promise<ReconciliationSession[]> {
+  const snapshot = await getDocs(query(sessionsRef(agencyId), orderBy('createdAt', 'desc')));
+  return snapshot.docs.map((sessionDoc) => {
+    const data = sessionDoc.data();
+    return {
+      id: sessionDoc.id,
+      ...data,
+      createdAt: data.createdAt?.toDate?.() || data.createdAt,
+      updatedAt: data.updatedAt?.toDate?.() || data.updatedAt,
+    } as ReconciliationSession;
+  });
+}
+
+/**
+ * A session's lines in statement order
+ */
+export async function getReconciliationLines(agencyId: string, sessionId: string): Promise<ReconciliationLine[]> {
+  const snapshot = await getDocs(linesRef(agencyId, sessionId));
+  return snapshot.docs
+    .map((lineDoc) => ({ id: lineDoc.id, ...lineDoc.data() } as ReconciliationLine))
+    .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/**
+ * Change a line's state or allocations. Lines already posted cannot change.
+ */
+export async function updateReconciliationLine(
+  agencyId: string,
+  sessionId: string,
+  line: ReconciliationLine,
+  update: { state: ReconciliationLineState; allocations?: ReconciliationAllocation[] }
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    if (line.postedAt) {
+      return { success: false, error: 'This line has already been posted' };
+    }
+
+    const allocations = update.allocations ?? line.allocations;
+    if (update.state === 'matched') {
+      const error = validateLineAllocations({ transaction: line.transaction, allocations });
+      if (error) {
+        return { success: false, error };
+      }
+    }
+
+    await updateDoc(doc(linesRef(agencyId, sessionId), line.id), {
+      state: update.state,
+      // Unmatching clears the allocations; ignoring keeps them for reference
+      allocations: update.state === 'unmatched' ? [] : cleanAllocations(allocations),
+      ...(update.allocations ? { matchReason: 'Allocated manually', matchConfidence: null } : {}),
+      updatedAt: serverTimestamp(),
+    });
+    await refreshSessionSummary(agencyId, sessionId);
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error updating reconciliation line:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to update reconciliation line',
+    };
+  }
+}
+
+/**
+ * Record a payment for every matched line not yet posted. A line's
+ * allocations are combined per loan and each loan's share is applied with
+ * the loan product's payment waterfall.
+ */
+export async function postReconciliationSession(
+  agencyId: string,
+  sessionId: string,
+  userId: string
+): Promise<{ success: boolean; error?: string; posted: number; failed: number; errors: string[] }> {
+  try {
+    const lines = await getReconciliationLines(agencyId, sessionId);
+    const toPost = lines.filter((line) => line.state === 'matched' && !line.postedAt);
+    const errors: string[] = [];
+    let posted = 0;
+
+    for (const line of toPost) {
+      const paymentDate = getTransactionDate(line.transaction);
+      if (!paymentDate) {
+        errors.push(`Line ${line.id}: invalid date ${line.transaction.date}`);
+        continue;
+      }
+
+      const perLoan = new Map<string, number>();
+      for (const allocation of line.allocations) {
+        perLoan.set(allocation.loanId, (perLoan.get(allocation.loanId) || 0) + allocation.amount);
+      }
+
+      const paymentIds: string[] = [];
+      for (const [loanId, amount] of perLoan) {
+        const paymentId = getReconciliationPaymentId(line.transaction, loanId);
+        const result = await recordLoanPayment({
+          agencyId,
+          loanId,
+          amount: Math.round(amount * 100) / 100,
+          paymentDate,
+          paymentMethod: 'bank_transfer',
+          recordedBy: userId,
+          paymentId,
+          transactionId: line.transaction.reference || line.transaction.bankTransactionId,
+          notes: `Reconciled from bank statement: ${line.transaction.description}`,
+          source: 'bank_reconciliation',
+        });
+
+        // A payment posted by an earlier attempt counts as posted
+        if (result.success || result.error === 'This payment has already been recorded') {
+          paymentIds.push(paymentId);
+        } else {
+          errors.push(`Line ${line.id}, loan ${loanId}: ${result.error}`);
+        }
+      }
+
+      // Only a line with every loan paid is marked posted; a retry skips the loans already paid
+      if (paymentIds.length === perLoan.size) {
+        await updateDoc(doc(linesRef(agencyId, sessionId), line.id), {
+          paymentIds,
+          postedAt: serverTimestamp(),
+          postedBy: userId,
+        });
+        posted++;
+      }
+    }
+
+    await refreshSessionSummary(agencyId, sessionId);
+
+    createAuditLog(agencyId, {
+      actorId: userId,
+      action: 'bank_reconciliation_posted',
+      targetCollection: 'reconciliation_sessions',
+      targetId: sessionId,
+      metadata: { posted, failed: toPost.length - posted },
+    }).catch(() => {
+      // Ignore audit log errors
+    });
+
+    return { success: true, posted, failed: toPost.length - posted, errors };
+  } catch (error: any) {
+    console.error('Error posting reconciliation session:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to post reconciliation',
+      posted: 0,
+      failed: 0,
+      errors: [],
+    };
+  }
+}
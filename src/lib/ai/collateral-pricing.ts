@@ -1,11 +1,26 @@
 /**
  * AI-powered collateral pricing estimation for Zambian market
- * Uses DeepSeek API for intelligent market analysis
+ * Prices from the agency's price book first; uses DeepSeek API for
+ * intelligent market analysis when the book has no price for the item
  */
 
 import { callDeepSeekAPI, parseAIResponse, isDeepSeekConfigured } from './deepseek-client';
-
-interface CollateralPricingInput {
+import {
+  calculateLoanCoverageRatio,
+  COLLATERAL_DEPRECIATION_RATES,
+  RESIDUAL_VALUE_FLOOR,
+} from '../../../packages/loan-rules/src/collateral-valuation';
+import {
+  DEFAULT_CONDITION_MULTIPLIERS,
+  DEFAULT_LOCATION_MULTIPLIERS,
+  valueFromPriceBook,
+  type PriceBookValuation,
+} from '../../../packages/loan-rules/src/price-book';
+import { getEffectivePriceBookVersion, type PriceBookVersionRecord } from '../firebase/price-book';
+
+export { calculateLoanCoverageRatio };
+
+export interface CollateralPricingInput {
   type: string;
   description?: string;
   brand?: string;
@@ -14,10 +29,12 @@ interface CollateralPricingInput {
   condition?: 'excellent' | 'good' | 'fair' | 'poor';
   location?: string;
   estimatedValue?: number;
+  category?: string; // Equipment category, as listed in the price book
+  areaHectares?: number; // Land
   specifications?: Record<string, any>;
 }
 
-interface PricingResult {
+export interface PricingResult {
   estimatedMarketValue: number; // Fair Market Value
   estimatedSalePrice: number; // Quick Sale Value
   auctionPrice: number; // Auction price estimate
@@ -35,35 +52,20 @@ interface PricingResult {
   recommendedAction: 'sell' | 'hold' | 'auction';
   loanCoverageRatio?: number; // Collateral value / Requested loan amount
   trendIndicator?: 'up' | 'down' | 'stable'; // Market trend
+  priceBook?: PriceBookValuation; // Set when priced from the agency's price book
 }
 
 // Zambian market price ranges (in ZMW) - updated estimates
+// Depreciation rates are shared with the periodic revaluation of pledged collateral
 const MARKET_DATA: Record<string, { min: number; max: number; depreciation: number }> = {
-  vehicle: { min: 50000, max: 500000, depreciation: 0.15 },
-  land: { min: 100000, max: 5000000, depreciation: 0.02 },
-  property: { min: 200000, max: 10000000, depreciation: 0.05 },
-  equipment: { min: 10000, max: 500000, depreciation: 0.20 },
-  electronics: { min: 5000, max: 50000, depreciation: 0.30 },
-  jewelry: { min: 5000, max: 200000, depreciation: 0.10 },
-  livestock: { min: 2000, max: 50000, depreciation: 0.25 },
-  other: { min: 1000, max: 100000, depreciation: 0.20 },
-};
-
-const CONDITION_MULTIPLIERS = {
-  excellent: 1.0,
-  good: 0.85,
-  fair: 0.65,
-  poor: 0.40,
-};
-
-const LOCATION_MULTIPLIERS: Record<string, number> = {
-  lusaka: 1.2,
-  ndola: 1.1,
-  kitwe: 1.05,
-  livingstone: 1.0,
-  chipata: 0.95,
-  kabwe: 0.90,
-  other: 0.85,
+  vehicle: { min: 50000, max: 500000, depreciation: COLLATERAL_DEPRECIATION_RATES.vehicle },
+  land: { min: 100000, max: 5000000, depreciation: COLLATERAL_DEPRECIATION_RATES.land },
+  property: { min: 200000, max: 10000000, depreciation: COLLATERAL_DEPRECIATION_RATES.property },
+  equipment: { min: 10000, max: 500000, depreciation: COLLATERAL_DEPRECIATION_RATES.equipment },
+  electronics: { min: 5000, max: 50000, depreciation: COLLATERAL_DEPRECIATION_RATES.electronics },
+  jewelry: { min: 5000, max: 200000, depreciation: COLLATERAL_DEPRECIATION_RATES.jewelry },
+  livestock: { min: 2000, max: 50000, depreciation: COLLATERAL_DEPRECIATION_RATES.livestock },
+  other: { min: 1000, max: 100000, depreciation: COLLATERAL_DEPRECIATION_RATES.other },
 };
 
 export async function estimateCollateralPrice(input: CollateralPricingInput & { agencyId?: string }): Promise<PricingResult> {
@@ -79,6 +81,41 @@ export async function estimateCollateralPrice(input: CollateralPricingInput & {
     specifications = {},
   } = input;
 
+  // The agency's price book comes first, so the valuation can be traced to a published price
+  let priceBook: PriceBookVersionRecord | null = null;
+  if (input.agencyId) {
+    try {
+      priceBook = await getEffectivePriceBookVersion(input.agencyId);
+      const priced = priceBook && valueFromPriceBook(priceBook, {
+        type,
+        brand,
+        model,
+        year,
+        condition,
+        location,
+        category: input.category ?? specifications.category,
+        description,
+        areaHectares: input.areaHectares ?? specifications.areaHectares,
+        asOf: new Date(),
+      });
+      if (priced) {
+        return buildPricingResult({
+          basePrice: priced.value,
+          estimatedValue,
+          confidence: 'high',
+          factors: {
+            positive: priced.adjustments.filter((adjustment) => adjustment.factor > 1).map((adjustment) => adjustment.label),
+            negative: priced.adjustments.filter((adjustment) => adjustment.factor < 1).map((adjustment) => adjustment.label),
+          },
+          marketAnalysis: priced.explanation,
+          priceBook: priced,
+        });
+      }
+    } catch (error) {
+      console.warn('Price book lookup failed, falling back to market estimates:', error);
+    }
+  }
+
   // Try to use DeepSeek API for intelligent pricing if configured
   if (isDeepSeekConfigured()) {
     try {
@@ -182,8 +219,10 @@ Return ONLY valid JSON, no additional text.`;
     negative: [],
   };
 
-  // Apply condition multiplier
-  const conditionMultiplier = CONDITION_MULTIPLIERS[condition] || 0.65;
+  // Apply condition multiplier (the agency's own, when it keeps a price book)
+  const conditionMultipliers = priceBook?.conditionMultipliers || DEFAULT_CONDITION_MULTIPLIERS;
+  const locationMultipliers = priceBook?.locationMultipliers || DEFAULT_LOCATION_MULTIPLIERS;
+  const conditionMultiplier = conditionMultipliers[condition] || 0.65;
   basePrice *= conditionMultiplier;
   
   if (condition === 'excellent') factors.positive.push('Excellent condition');
@@ -191,7 +230,7 @@ Return ONLY valid JSON, no additional text.`;
 
   // Apply location multiplier
   const locationKey = location.toLowerCase().replace(/\s+/g, '');
-  const locationMultiplier = LOCATION_MULTIPLIERS[locationKey] || LOCATION_MULTIPLIERS.other;
+  const locationMultiplier = locationMultipliers[locationKey] || locationMultipliers.other || DEFAULT_LOCATION_MULTIPLIERS.other;
   basePrice *= locationMultiplier;
 
   if (locationMultiplier > 1.0) {
@@ -205,7 +244,7 @@ Return ONLY valid JSON, no additional text.`;
     const currentYear = new Date().getFullYear();
     const age = currentYear - year;
     const depreciationRate = MARKET_DATA[typeLower]?.depreciation || 0.20;
-    const depreciationFactor = Math.max(0.3, 1 - (age * depreciationRate));
+    const depreciationFactor = Math.max(RESIDUAL_VALUE_FLOOR, 1 - (age * depreciationRate));
     basePrice *= depreciationFactor;
 
     if (age > 10) {
@@ -231,6 +270,35 @@ Return ONLY valid JSON, no additional text.`;
     factors.positive.push('High market demand');
   }
 
+  // Determine confidence level
+  let confidence: 'high' | 'medium' | 'low' = 'medium';
+  if (estimatedValue > 0 && year && brand && condition) {
+    confidence = 'high';
+  } else if (estimatedValue > 0 || (year && brand)) {
+    confidence = 'medium';
+  } else {
+    confidence = 'low';
+  }
+
+  // Generate market analysis
+  const marketAnalysis = generateMarketAnalysis(type, basePrice, location, condition);
+
+  return buildPricingResult({ basePrice, estimatedValue, confidence, factors, marketAnalysis });
+}
+
+/**
+ * Price points, recommendation and trend around a fair market value
+ */
+function buildPricingResult(params: {
+  basePrice: number;
+  estimatedValue: number;
+  confidence: PricingResult['confidence'];
+  factors: PricingResult['factors'];
+  marketAnalysis: string;
+  priceBook?: PriceBookValuation;
+}): PricingResult {
+  const { basePrice, estimatedValue, confidence, factors, marketAnalysis, priceBook } = params;
+
   // Calculate different pricing scenarios
   // Quick Sale Value: 65% of market average (fast liquidation)
   const quickSaleValue = basePrice * 0.65;
@@ -251,19 +319,6 @@ Return ONLY valid JSON, no additional text.`;
   // Estimated sale price for quick sale
   const estimatedSalePrice = quickSaleValue;
 
-  // Determine confidence level
-  let confidence: 'high' | 'medium' | 'low' = 'medium';
-  if (estimatedValue > 0 && year && brand && condition) {
-    confidence = 'high';
-  } else if (estimatedValue > 0 || (year && brand)) {
-    confidence = 'medium';
-  } else {
-    confidence = 'low';
-  }
-
-  // Generate market analysis
-  const marketAnalysis = generateMarketAnalysis(type, basePrice, location, condition);
-
   // Determine recommended action
   let recommendedAction: 'sell' | 'hold' | 'auction' = 'sell';
   if (basePrice > estimatedValue * 1.2) {
@@ -292,6 +347,7 @@ Return ONLY valid JSON, no additional text.`;
     marketAnalysis,
     recommendedAction,
     trendIndicator,
+    ...(priceBook ? { priceBook } : {}),
   };
 }
 
@@ -311,17 +367,6 @@ function generateMarketAnalysis(
   }
 }
 
-/**
- * Calculate loan coverage ratio (collateral value / loan amount)
- */
-export function calculateLoanCoverageRatio(
-  collateralValue: number,
-  loanAmount: number
-): number {
-  if (loanAmount === 0) return 0;
-  return Math.round((collateralValue / loanAmount) * 100) / 100;
-}
-
 /**
  * Calculate profit/loss from collateral sale vs defaulted loan amount
  */
@@ -5,6 +5,7 @@
 
 import { collection, getDocs, query, where, orderBy, limit } from 'firebase/firestore';
 import { db } from '../firebase/config';
+import { estimateProbabilityOfDefault, getRepaymentRiskFacts } from '../../../packages/loan-rules/src/provisioning';
 
 interface HistoricalData {
   loans: any[];
@@ -308,59 +309,24 @@ export async function predictLoanDefault(
     const repaymentsSnapshot = await getDocs(repaymentsRef);
     const repayments = repaymentsSnapshot.docs.map(doc => doc.data());
     
-    // Calculate factors
-    const factors: string[] = [];
-    let defaultProbability = 0.1; // Base 10%
-    
-    // Check for overdue repayments
-    const now = new Date();
-    const overdueRepayments = repayments.filter((r: any) => {
-      if (r.status === 'paid') return false;
-      const dueDate = r.dueDate?.toDate?.() || new Date(r.dueDate);
-      return dueDate < now;
-    });
-    
-    if (overdueRepayments.length > 0) {
-      defaultProbability += 0.3;
-      factors.push(`${overdueRepayments.length} overdue repayment(s)`);
-    }
-    
-    // Check payment history
-    const paidRepayments = repayments.filter((r: any) => r.status === 'paid');
-    const totalRepayments = repayments.length;
-    const paymentRate = totalRepayments > 0 ? paidRepayments.length / totalRepayments : 1;
-    
-    if (paymentRate < 0.7) {
-      defaultProbability += 0.2;
-      factors.push(`Low payment rate: ${Math.round(paymentRate * 100)}%`);
-    }
-    
-    // Check loan risk score
-    const riskScore = loan.riskScore || 50;
-    if (riskScore > 70) {
-      defaultProbability += 0.2;
-      factors.push(`High risk score: ${riskScore}/100`);
-    }
-    
     // Check loan amount relative to customer income
+    let monthlyIncome: number | undefined;
     const customerId = loan.customerId || loan.customer_id;
     if (customerId) {
       const customerRef = doc(db, 'agencies', agencyId, 'customers', customerId);
       const customerSnap = await getDoc(customerRef);
       if (customerSnap.exists()) {
-        const customer = customerSnap.data();
-        const monthlyIncome = Number(customer.monthlyIncome || 0);
-        const loanAmount = Number(loan.amount || 0);
-        
-        if (monthlyIncome > 0 && loanAmount > monthlyIncome * 12) {
-          defaultProbability += 0.15;
-          factors.push('Loan amount exceeds annual income');
-        }
+        monthlyIncome = Number(customerSnap.data().monthlyIncome || 0);
       }
     }
-    
-    // Cap probability
-    defaultProbability = Math.min(0.95, defaultProbability);
+
+    // The same model feeds the PD used for loan loss provisioning
+    const { probability: defaultProbability, factors } = estimateProbabilityOfDefault({
+      ...getRepaymentRiskFacts(repayments, new Date()),
+      riskScore: loan.riskScore,
+      loanAmount: Number(loan.amount || 0),
+      monthlyIncome,
+    });
     
     // Generate recommendations
     const recommendations: string[] = [];
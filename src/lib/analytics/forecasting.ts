@@ -5,6 +5,7 @@
 import { collection, query, where, getDocs, orderBy, limit } from 'firebase/firestore';
 import { Timestamp } from 'firebase/firestore';
 import { db } from '../firebase/config';
+import { getLatestPortfolioSnapshot } from './portfolio-analytics';
 import type { ForecastData, PortfolioHealth } from '../../types/features';
 
 /**
@@ -105,13 +106,15 @@ export async function calculatePortfolioHealth(agencyId: string): Promise<Portfo
   const collectionRate = totalDue > 0 ? totalCollected / totalDue : 1;
 
   // Calculate average days to repay
-  const averageDaysToRepay = calculateAverageDaysToRepay(loans, agencyId);
+  const averageDaysToRepay = await calculateAverageDaysToRepay(loans, agencyId);
 
-  // Calculate portfolio at risk (PAR)
-  const par = calculatePortfolioAtRisk(activeLoans, agencyId);
+  // Balance-weighted PAR30 from the latest daily snapshot; until the first
+  // snapshot is taken, overdue installments over the amounts lent
+  const latestSnapshot = await getLatestPortfolioSnapshot(agencyId);
+  const par = latestSnapshot ? latestSnapshot.par.par30 : await calculatePortfolioAtRisk(activeLoans, agencyId);
 
   // Calculate profitability
-  const profitability = calculateProfitability(loans, agencyId);
+  const profitability = await calculateProfitability(loans, agencyId);
 
   // Calculate overall score
   const overallScore = Math.round(
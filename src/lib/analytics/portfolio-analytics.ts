@@ -0,0 +1,110 @@
+/**
+ * Portfolio-at-Risk and Vintage Analytics
+ *
+ * Reads the daily snapshots of the loan book that Cloud Functions take each
+ * night, so PAR trends, roll rates and vintage curves never go back to the
+ * loans' repayments.
+ */
+
+import { collection, getDocs, limit, orderBy, query, where } from 'firebase/firestore';
+import { db } from '../firebase/config';
+import {
+  buildRollRateMatrix,
+  buildVintageCurves,
+  type LoanPosition,
+  type PortfolioDimension,
+  type PortfolioSnapshotSummary,
+  type RollRateMatrix,
+  type VintageCell,
+  type VintageCurve,
+} from '../../../packages/loan-rules/src/portfolio-analytics';
+
+export type { PortfolioSnapshotSummary, RollRateMatrix, VintageCurve, PortfolioDimension };
+
+/**
+ * Daily snapshots for the last number of days, oldest first
+ */
+export async function getPortfolioSnapshots(agencyId: string, days: number = 90): Promise<PortfolioSnapshotSummary[]> {
+  const snapshot = await getDocs(query(
+    collection(db, 'agencies', agencyId, 'portfolio_snapshots'),
+    orderBy('date', 'desc'),
+    limit(days)
+  ));
+  return snapshot.docs.map((snapshotDoc) => snapshotDoc.data() as PortfolioSnapshotSummary).reverse();
+}
+
+/**
+ * The most recent snapshot, or null before the first one is taken
+ */
+export async function getLatestPortfolioSnapshot(agencyId: string): Promise<PortfolioSnapshotSummary | null> {
+  const snapshots = await getPortfolioSnapshots(agencyId, 1);
+  return snapshots[0] || null;
+}
+
+async function getSnapshotPositions(agencyId: string, date: string): Promise<LoanPosition[]> {
+  const snapshot = await getDocs(collection(db, 'agencies', agencyId, 'portfolio_snapshots', date, 'loans'));
+  return snapshot.docs.map((positionDoc) => positionDoc.data() as LoanPosition);
+}
+
+/**
+ * Roll rates from the snapshot a number of days before the latest one (or the
+ * oldest one after that) to the latest. Null until there are two snapshots.
+ */
+export async function getRollRates(agencyId: string, days: number = 30): Promise<RollRateMatrix | null> {
+  const latest = await getLatestPortfolioSnapshot(agencyId);
+  if (!latest) {
+    return null;
+  }
+
+  const start = new Date(`${latest.date}T00:00:00.000Z`);
+  start.setUTCDate(start.getUTCDate() - days);
+  const earlierSnapshot = await getDocs(query(
+    collection(db, 'agencies', agencyId, 'portfolio_snapshots'),
+    where('date', '>=', start.toISOString().slice(0, 10)),
+    orderBy('date', 'asc'),
+    limit(1)
+  ));
+  const fromDate = earlierSnapshot.empty ? null : (earlierSnapshot.docs[0].data().date as string);
+  if (!fromDate || fromDate === latest.date) {
+    return null;
+  }
+
+  const [from, to] = await Promise.all([
+    getSnapshotPositions(agencyId, fromDate),
+    getSnapshotPositions(agencyId, latest.date),
+  ]);
+  return buildRollRateMatrix(fromDate, from, latest.date, to);
+}
+
+/**
+ * Vintage curves for the whole book or split by loan type, branch or officer
+ */
+export async function getVintageCurves(
+  agencyId: string,
+  dimension: PortfolioDimension | 'all' = 'all'
+): Promise<VintageCurve[]> {
+  const snapshot = await getDocs(query(collection(db, 'agencies', agencyId, 'portfolio_vintages'), orderBy('periodId', 'asc')));
+  const monthEnds = snapshot.docs.map((vintageDoc) => {
+    const data = vintageDoc.data();
+    return { date: data.date as string, cells: (data.cells || []) as VintageCell[] };
+  });
+  return buildVintageCurves(monthEnds, dimension);
+}
+
+/**
+ * Display names for the branch and officer IDs snapshots are segmented by
+ */
+export async function getSegmentNames(agencyId: string): Promise<Record<PortfolioDimension, Record<string, string>>> {
+  const [branchesSnapshot, employeesSnapshot] = await Promise.all([
+    getDocs(collection(db, 'agencies', agencyId, 'branches')),
+    getDocs(collection(db, 'agencies', agencyId, 'employees')),
+  ]);
+
+  return {
+    loanType: {},
+    branchId: Object.fromEntries(branchesSnapshot.docs.map((branchDoc) => [branchDoc.id, branchDoc.data().name || branchDoc.id])),
+    officerId: Object.fromEntries(employeesSnapshot.docs
+      .filter((employeeDoc) => employeeDoc.data().userId)
+      .map((employeeDoc) => [employeeDoc.data().userId, employeeDoc.data().name || employeeDoc.data().email || employeeDoc.id])),
+  };
+}
@@ -2,9 +2,49 @@
  * Multi-Branch Management
  */
 
-import { collection, addDoc, doc, updateDoc, getDoc, getDocs, deleteDoc } from 'firebase/firestore';
+import {
+  collection,
+  addDoc,
+  doc,
+  updateDoc,
+  getDoc,
+  getDocs,
+  deleteDoc,
+  orderBy,
+  query,
+  runTransaction,
+  serverTimestamp,
+  where,
+  type Transaction,
+} from 'firebase/firestore';
 import { db } from '../firebase/config';
+import { createAuditLog } from '../firebase/firestore-helpers';
 import type { Branch } from '../../types/features';
+import { roundCurrency } from '../../../packages/loan-rules/src/utils';
+
+export type VaultTransferType = 'bank_withdrawal' | 'bank_deposit' | 'float_issue' | 'cash_return' | 'inter_branch';
+
+/**
+ * Cash moved into or out of a branch vault. Transfers between branches are in
+ * transit from dispatch until the receiving branch counts them in.
+ */
+export interface VaultTransfer {
+  id: string;
+  type: VaultTransferType;
+  amount: number;
+  fromBranchId?: string;
+  toBranchId?: string;
+  sessionId?: string; // Teller session a float was issued to or returned from
+  tellerId?: string;
+  status: 'completed' | 'in_transit' | 'cancelled';
+  reference?: string;
+  createdBy: string;
+  createdAt?: Date;
+  receivedAmount?: number;
+  receivedBy?: string;
+  receivedAt?: Date;
+  variance?: number; // Received less dispatched
+}
 
 /**
  * Create a new branch
@@ -152,3 +192,225 @@ export async function getBranchStatistics(
   };
 }
 
+/**
+ * Move cash in or out of a branch vault inside a transaction, against the
+ * vault transfer written in the same transaction. The vault may not go below
+ * zero.
+ */
+export async function adjustVaultBalance(
+  transaction: Transaction,
+  agencyId: string,
+  branchId: string,
+  change: number,
+  transferId: string
+): Promise<number> {
+  const branchRef = doc(db, 'agencies', agencyId, 'branches', branchId);
+  const branchSnap = await transaction.get(branchRef);
+  if (!branchSnap.exists()) {
+    throw new Error('Branch not found');
+  }
+  const balance = Number(branchSnap.data().vaultBalance || 0);
+  const next = roundCurrency(balance + change);
+  if (next < 0) {
+    throw new Error(`The ${branchSnap.data().name || 'branch'} vault holds only ${balance.toFixed(2)}`);
+  }
+  transaction.update(branchRef, { vaultBalance: next, vaultUpdatedAt: serverTimestamp(), lastVaultTransferId: transferId });
+  return next;
+}
+
+/**
+ * Vault transfers, newest first, optionally those touching one branch
+ */
+export async function getVaultTransfers(agencyId: string, branchId?: string): Promise<VaultTransfer[]> {
+  const snapshot = await getDocs(query(collection(db, 'agencies', agencyId, 'vault_transfers'), orderBy('createdAt', 'desc')));
+  return snapshot.docs
+    .map((transferDoc) => {
+      const data = transferDoc.data();
+      return {
+        id: transferDoc.id,
+        ...data,
+        createdAt: data.createdAt?.toDate?.() || data.createdAt,
+        receivedAt: data.receivedAt?.toDate?.() || data.receivedAt,
+      } as VaultTransfer;
+    })
+    .filter((transfer) => !branchId || transfer.fromBranchId === branchId || transfer.toBranchId === branchId);
+}
+
+/**
+ * Inter-branch transfers dispatched to a branch and not yet received
+ */
+export async function getIncomingVaultTransfers(agencyId: string, branchId: string): Promise<VaultTransfer[]> {
+  const snapshot = await getDocs(query(
+    collection(db, 'agencies', agencyId, 'vault_transfers'),
+    where('toBranchId', '==', branchId),
+    where('status', '==', 'in_transit')
+  ));
+  return snapshot.docs.map((transferDoc) => ({ id: transferDoc.id, ...transferDoc.data() } as VaultTransfer));
+}
+
+/**
+ * Cash drawn from the bank into a branch vault, or banked from it
+ */
+export async function recordVaultBankMovement(
+  agencyId: string,
+  params: { branchId: string; direction: 'withdrawal' | 'deposit'; amount: number; userId: string; reference?: string }
+): Promise<VaultTransfer> {
+  if (!(params.amount > 0)) {
+    throw new Error('Amount must be greater than zero');
+  }
+
+  const transferRef = doc(collection(db, 'agencies', agencyId, 'vault_transfers'));
+  const transfer: Omit<VaultTransfer, 'id' | 'createdAt'> = {
+    type: params.direction === 'withdrawal' ? 'bank_withdrawal' : 'bank_deposit',
+    amount: roundCurrency(params.amount),
+    ...(params.direction === 'withdrawal' ? { toBranchId: params.branchId } : { fromBranchId: params.branchId }),
+    status: 'completed',
+    ...(params.reference ? { reference: params.reference } : {}),
+    createdBy: params.userId,
+  };
+
+  await runTransaction(db, async (transaction) => {
+    await adjustVaultBalance(transaction, agencyId, params.branchId, params.direction === 'withdrawal' ? params.amount : -params.amount, transferRef.id);
+    transaction.set(transferRef, { ...transfer, createdAt: serverTimestamp() });
+  });
+
+  createAuditLog(agencyId, {
+    actorId: params.userId,
+    action: transfer.type,
+    targetCollection: 'vault_transfers',
+    targetId: transferRef.id,
+    metadata: { branchId: params.branchId, amount: transfer.amount },
+  }).catch(() => {
+    // Ignore audit log errors
+  });
+
+  return { id: transferRef.id, ...transfer };
+}
+
+/**
+ * Send cash from one branch vault to another. It leaves the sending vault now
+ * and reaches the other when it is received.
+ */
+export async function dispatchVaultTransfer(
+  agencyId: string,
+  params: { fromBranchId: string; toBranchId: string; amount: number; userId: string; reference?: string }
+): Promise<VaultTransfer> {
+  if (params.fromBranchId === params.toBranchId) {
+    throw new Error('Choose a different branch to send cash to');
+  }
+  if (!(params.amount > 0)) {
+    throw new Error('Amount must be greater than zero');
+  }
+
+  const transferRef = doc(collection(db, 'agencies', agencyId, 'vault_transfers'));
+  const transfer: Omit<VaultTransfer, 'id' | 'createdAt'> = {
+    type: 'inter_branch',
+    amount: roundCurrency(params.amount),
+    fromBranchId: params.fromBranchId,
+    toBranchId: params.toBranchId,
+    status: 'in_transit',
+    ...(params.reference ? { reference: params.reference } : {}),
+    createdBy: params.userId,
+  };
+
+  await runTransaction(db, async (transaction) => {
+    await adjustVaultBalance(transaction, agencyId, params.fromBranchId, -params.amount, transferRef.id);
+    transaction.set(transferRef, { ...transfer, createdAt: serverTimestamp() });
+  });
+
+  createAuditLog(agencyId, {
+    actorId: params.userId,
+    action: 'vault_transfer_dispatched',
+    targetCollection: 'vault_transfers',
+    targetId: transferRef.id,
+    metadata: { fromBranchId: params.fromBranchId, toBranchId: params.toBranchId, amount: transfer.amount },
+  }).catch(() => {
+    // Ignore audit log errors
+  });
+
+  return { id: transferRef.id, ...transfer };
+}
+
+/**
+ * Count an inter-branch transfer into the receiving vault. The amount counted
+ * is what reaches the vault; a difference is kept on the transfer against the
+ * person who sent it and the person who received it.
+ */
+export async function receiveVaultTransfer(
+  agencyId: string,
+  transferId: string,
+  receivedAmount: number,
+  userId: string
+): Promise<VaultTransfer> {
+  if (!(receivedAmount >= 0)) {
+    throw new Error('Received amount cannot be negative');
+  }
+
+  const transferRef = doc(db, 'agencies', agencyId, 'vault_transfers', transferId);
+  const received = await runTransaction(db, async (transaction) => {
+    const transferSnap = await transaction.get(transferRef);
+    if (!transferSnap.exists()) {
+      throw new Error('Transfer not found');
+    }
+    const transfer = { id: transferSnap.id, ...transferSnap.data() } as VaultTransfer;
+    if (transfer.status !== 'in_transit') {
+      throw new Error(`This transfer has already been ${transfer.status === 'completed' ? 'received' : 'cancelled'}`);
+    }
+    if (transfer.createdBy === userId) {
+      throw new Error('Transfers must be received by someone other than the sender');
+    }
+
+    const variance = roundCurrency(receivedAmount - transfer.amount);
+    await adjustVaultBalance(transaction, agencyId, transfer.toBranchId!, receivedAmount, transferId);
+    const updates = {
+      status: 'completed' as const,
+      receivedAmount: roundCurrency(receivedAmount),
+      receivedBy: userId,
+      variance,
+    };
+    transaction.update(transferRef, { ...updates, receivedAt: serverTimestamp() });
+    return { ...transfer, ...updates };
+  });
+
+  createAuditLog(agencyId, {
+    actorId: userId,
+    action: 'vault_transfer_received',
+    targetCollection: 'vault_transfers',
+    targetId: transferId,
+    metadata: { amount: received.amount, receivedAmount: received.receivedAmount, variance: received.variance, sentBy: received.createdBy },
+  }).catch(() => {
+    // Ignore audit log errors
+  });
+
+  return received;
+}
+
+/**
+ * Call back an inter-branch transfer before it is received; the cash goes back
+ * to the sending vault
+ */
+export async function cancelVaultTransfer(agencyId: string, transferId: string, userId: string): Promise<void> {
+  const transferRef = doc(db, 'agencies', agencyId, 'vault_transfers', transferId);
+  await runTransaction(db, async (transaction) => {
+    const transferSnap = await transaction.get(transferRef);
+    if (!transferSnap.exists()) {
+      throw new Error('Transfer not found');
+    }
+    const transfer = transferSnap.data() as VaultTransfer;
+    if (transfer.status !== 'in_transit') {
+      throw new Error('Only transfers in transit can be cancelled');
+    }
+    await adjustVaultBalance(transaction, agencyId, transfer.fromBranchId!, transfer.amount, transferId);
+    transaction.update(transferRef, { status: 'cancelled', cancelledBy: userId, cancelledAt: serverTimestamp() });
+  });
+
+  createAuditLog(agencyId, {
+    actorId: userId,
+    action: 'vault_transfer_cancelled',
+    targetCollection: 'vault_transfers',
+    targetId: transferId,
+    metadata: {},
+  }).catch(() => {
+    // Ignore audit log errors
+  });
+}
@@ -0,0 +1,438 @@
+/**
+ * Teller Sessions
+ *
+ * A teller's shift at the counter: the float issued from the branch vault,
+ * each cash payment taken and disbursement paid out, and the denomination
+ * count at close. The counted cash goes back to the vault and any difference
+ * from the expected cash stays on the session, so a shortage is traceable to
+ * the teller and the shift it happened in.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  where,
+  type Transaction,
+} from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '../firebase/config';
+import { createAuditLog } from '../firebase/firestore-helpers';
+import { adjustVaultBalance } from './branch-manager';
+import {
+  CASH_MOVEMENT_DIRECTIONS,
+  countDenominations,
+  getExpectedCash,
+  resolveCashManagementConfig,
+  summarizeTellerVariances,
+  type CashManagementConfig,
+  type CashMovementType,
+  type DenominationCount,
+  type TellerVarianceSummary,
+  type VarianceStatus,
+} from '../../../packages/loan-rules/src/cash-management';
+import { roundCurrency } from '../../../packages/loan-rules/src/utils';
+
+export type { CashManagementConfig, DenominationCount, TellerVarianceSummary };
+
+export interface TellerSession {
+  id: string;
+  tellerId: string;
+  branchId: string;
+  status: 'open' | 'closed';
+  openingFloat: number;
+  openingDenominations?: DenominationCount;
+  cashIn: number;
+  cashOut: number;
+  openedAt?: Date;
+  closingDenominations?: DenominationCount;
+  expectedCash?: number; // At close
+  countedCash?: number;
+  variance?: number; // Counted less expected; negative is a shortage
+  varianceStatus?: VarianceStatus;
+  varianceReason?: string;
+  closedBy?: string;
+  closedAt?: Date;
+}
+
+export interface CashMovement {
+  id: string;
+  type: CashMovementType;
+  direction: 'in' | 'out';
+  amount: number;
+  loanId?: string;
+  paymentId?: string;
+  reference?: string;
+  recordedBy: string;
+  createdAt?: Date;
+}
+
+function toSession(id: string, data: any): TellerSession {
+  return {
+    id,
+    ...data,
+    openedAt: data.openedAt?.toDate?.() || data.openedAt,
+    closedAt: data.closedAt?.toDate?.() || data.closedAt,
+  } as TellerSession;
+}
+
+/**
+ * Cash a session's drawer should hold now
+ */
+export function getSessionExpectedCash(session: Pick<TellerSession, 'openingFloat' | 'cashIn' | 'cashOut'>): number {
+  return getExpectedCash(session.openingFloat, session.cashIn, session.cashOut);
+}
+
+/**
+ * The agency's cash management config (the defaults until one is saved)
+ */
+export async function getCashManagementConfig(agencyId: string): Promise<CashManagementConfig> {
+  const configSnap = await getDoc(doc(db, 'agencies', agencyId, 'config', 'cashManagement'));
+  return resolveCashManagementConfig(configSnap.exists() ? (configSnap.data() as Partial<CashManagementConfig>) : null);
+}
+
+/**
+ * Save the agency's cash management config
+ */
+export async function saveCashManagementConfig(
+  agencyId: string,
+  config: CashManagementConfig,
+  actorId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    if (config.varianceTolerance < 0) {
+      return { success: false, error: 'Variance tolerance cannot be negative' };
+    }
+
+    await setDoc(doc(db, 'agencies', agencyId, 'config', 'cashManagement'), {
+      ...config,
+      updatedAt: serverTimestamp(),
+      updatedBy: actorId,
+    });
+
+    createAuditLog(agencyId, {
+      actorId,
+      action: 'cash_management_config_updated',
+      targetCollection: 'config',
+      targetId: 'cashManagement',
+      metadata: { ...config },
+    }).catch(() => {
+      // Ignore audit log errors
+    });
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error saving cash management config:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to save cash management config',
+    };
+  }
+}
+
+/**
+ * The teller's open session, if they have one
+ */
+export async function getOpenTellerSession(agencyId: string, tellerId: string): Promise<TellerSession | null> {
+  const snapshot = await getDocs(query(
+    collection(db, 'agencies', agencyId, 'teller_sessions'),
+    where('tellerId', '==', tellerId),
+    where('status', '==', 'open'),
+    limit(1)
+  ));
+  return snapshot.empty ? null : toSession(snapshot.docs[0].id, snapshot.docs[0].data());
+}
+
+/**
+ * The session cash handled by a user goes through. Null when they have none
+ * open and the agency does not require one; an error when it does.
+ */
+export async function getCashDrawer(
+  agencyId: string,
+  userId: string
+): Promise<{ session: TellerSession | null; error?: string }> {
+  const session = await getOpenTellerSession(agencyId, userId);
+  if (session) {
+    return { session };
+  }
+  const config = await getCashManagementConfig(agencyId);
+  return config.requireTellerSession
+    ? { session: null, error: 'Open a teller session before handling cash' }
+    : { session: null };
+}
+
+/**
+ * Teller sessions, newest first
+ */
+export async function getTellerSessions(
+  agencyId: string,
+  filters: { branchId?: string; tellerId?: string; status?: TellerSession['status'] } = {}
+): Promise<TellerSession[]> {
+  const constraints = [
+    ...(filters.branchId ? [where('branchId', '==', filters.branchId)] : []),
+    ...(filters.tellerId ? [where('tellerId', '==', filters.tellerId)] : []),
+    ...(filters.status ? [where('status', '==', filters.status)] : []),
+    orderBy('openedAt', 'desc'),
+  ];
+  const snapshot = await getDocs(query(collection(db, 'agencies', agencyId, 'teller_sessions'), ...constraints));
+  return snapshot.docs.map((sessionDoc) => toSession(sessionDoc.id, sessionDoc.data()));
+}
+
+/**
+ * Cash moved through a session, in order
+ */
+export async function getSessionMovements(agencyId: string, sessionId: string): Promise<CashMovement[]> {
+  const snapshot = await getDocs(query(
+    collection(db, 'agencies', agencyId, 'teller_sessions', sessionId, 'movements'),
+    orderBy('createdAt', 'asc')
+  ));
+  return snapshot.docs.map((movementDoc) => {
+    const data = movementDoc.data();
+    return { id: movementDoc.id, ...data, createdAt: data.createdAt?.toDate?.() || data.createdAt } as CashMovement;
+  });
+}
+
+/**
+ * Open a session with a float issued from the branch vault
+ */
+export async function openTellerSession(params: {
+  agencyId: string;
+  branchId: string;
+  tellerId: string;
+  denominations: DenominationCount;
+}): Promise<{ success: boolean; error?: string; sessionId?: string }> {
+  const { agencyId, branchId, tellerId, denominations } = params;
+
+  try {
+    if (await getOpenTellerSession(agencyId, tellerId)) {
+      return { success: false, error: 'Close your open session before starting another' };
+    }
+
+    const openingFloat = countDenominations(denominations);
+    const sessionRef = doc(collection(db, 'agencies', agencyId, 'teller_sessions'));
+    const transferRef = doc(collection(db, 'agencies', agencyId, 'vault_transfers'));
+
+    await runTransaction(db, async (transaction) => {
+      if (openingFloat > 0) {
+        await adjustVaultBalance(transaction, agencyId, branchId, -openingFloat, transferRef.id);
+        transaction.set(transferRef, {
+          type: 'float_issue',
+          amount: openingFloat,
+          fromBranchId: branchId,
+          sessionId: sessionRef.id,
+          tellerId,
+          status: 'completed',
+          createdBy: tellerId,
+          createdAt: serverTimestamp(),
+        });
+      }
+      transaction.set(sessionRef, {
+        tellerId,
+        branchId,
+        status: 'open',
+        openingFloat,
+        openingDenominations: denominations,
+        cashIn: 0,
+        cashOut: 0,
+        openedAt: serverTimestamp(),
+      });
+    });
+
+    createAuditLog(agencyId, {
+      actorId: tellerId,
+      action: 'teller_session_opened',
+      targetCollection: 'teller_sessions',
+      targetId: sessionRef.id,
+      metadata: { branchId, openingFloat },
+    }).catch(() => {
+      // Ignore audit log errors
+    });
+
+    return { success: true, sessionId: sessionRef.id };
+  } catch (error: any) {
+    console.error('Error opening teller session:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to open teller session',
+    };
+  }
+}
+
+/**
+ * Read an open session for a cash movement inside a transaction, before the
+ * transaction's writes
+ */
+export async function readOpenSession(transaction: Transaction, agencyId: string, sessionId: string): Promise<TellerSession> {
+  const sessionSnap = await transaction.get(doc(db, 'agencies', agencyId, 'teller_sessions', sessionId));
+  if (!sessionSnap.exists()) {
+    throw new Error('Teller session not found');
+  }
+  const session = toSession(sessionSnap.id, sessionSnap.data());
+  if (session.status !== 'open') {
+    throw new Error('This teller session is closed');
+  }
+  return session;
+}
+
+/**
+ * Write a cash movement and the session's running totals inside the
+ * transaction that takes or pays out the cash. Cash cannot be paid out beyond
+ * what the drawer should hold.
+ */
+export function writeSessionCash(
+  transaction: Transaction,
+  agencyId: string,
+  session: TellerSession,
+  movement: { type: CashMovementType; amount: number; recordedBy: string; loanId?: string; paymentId?: string; reference?: string }
+): string {
+  const amount = roundCurrency(movement.amount);
+  const direction = CASH_MOVEMENT_DIRECTIONS[movement.type];
+  if (direction === 'out' && amount > getSessionExpectedCash(session) + 0.005) {
+    throw new Error(`The drawer should hold only ${getSessionExpectedCash(session).toFixed(2)}`);
+  }
+
+  const sessionRef = doc(db, 'agencies', agencyId, 'teller_sessions', session.id);
+  const movementRef = doc(collection(sessionRef, 'movements'));
+  transaction.set(movementRef, {
+    type: movement.type,
+    direction,
+    amount,
+    ...(movement.loanId ? { loanId: movement.loanId } : {}),
+    ...(movement.paymentId ? { paymentId: movement.paymentId } : {}),
+    ...(movement.reference ? { reference: movement.reference } : {}),
+    recordedBy: movement.recordedBy,
+    createdAt: serverTimestamp(),
+  });
+  // The rules only let the totals move together with the movement they record
+  transaction.update(sessionRef, {
+    ...(direction === 'in'
+      ? { cashIn: roundCurrency(session.cashIn + amount) }
+      : { cashOut: roundCurrency(session.cashOut + amount) }),
+    lastMovementId: movementRef.id,
+  });
+  return movementRef.id;
+}
+
+/**
+ * Record cash into or out of an open session. Top-ups from and drops to the
+ * vault move the vault balance too.
+ */
+export async function recordSessionCash(params: {
+  agencyId: string;
+  sessionId: string;
+  type: CashMovementType;
+  amount: number;
+  recordedBy: string;
+  loanId?: string;
+  paymentId?: string;
+  reference?: string;
+}): Promise<{ success: boolean; error?: string; movementId?: string }> {
+  const { agencyId, sessionId, type, recordedBy } = params;
+  const amount = roundCurrency(params.amount);
+
+  try {
+    if (!(amount > 0)) {
+      return { success: false, error: 'Amount must be greater than zero' };
+    }
+
+    const transferRef = doc(collection(db, 'agencies', agencyId, 'vault_transfers'));
+
+    const movementId = await runTransaction(db, async (transaction) => {
+      const session = await readOpenSession(transaction, agencyId, sessionId);
+
+      if (type === 'vault_issue' || type === 'vault_return') {
+        await adjustVaultBalance(transaction, agencyId, session.branchId, type === 'vault_issue' ? -amount : amount, transferRef.id);
+        transaction.set(transferRef, {
+          type: type === 'vault_issue' ? 'float_issue' : 'cash_return',
+          amount,
+          ...(type === 'vault_issue' ? { fromBranchId: session.branchId } : { toBranchId: session.branchId }),
+          sessionId,
+          tellerId: session.tellerId,
+          status: 'completed',
+          createdBy: recordedBy,
+          createdAt: serverTimestamp(),
+        });
+      }
+
+      return writeSessionCash(transaction, agencyId, session, { ...params, amount });
+    });
+
+    return { success: true, movementId };
+  } catch (error: any) {
+    console.error('Error recording teller cash:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to record teller cash',
+    };
+  }
+}
+
+/**
+ * Close a session on its denomination count. The closeTellerSession Cloud
+ * Function works out the variance and returns the count to the vault. A
+ * difference beyond the agency's tolerance needs a reason.
+ */
+export async function closeTellerSession(params: {
+  agencyId: string;
+  sessionId: string;
+  denominations: DenominationCount;
+  varianceReason?: string;
+}): Promise<{ success: boolean; error?: string; variance?: number }> {
+  try {
+    const close = httpsCallable<typeof params, { success: boolean; error?: string; variance?: number }>(
+      functions,
+      'closeTellerSession'
+    );
+    const { data: result } = await close(params);
+    return result;
+  } catch (error: any) {
+    console.error('Error closing teller session:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to close teller session',
+    };
+  }
+}
+
+/**
+ * Shortages and overages per teller for sessions opened between two dates
+ */
+export async function getTellerVarianceReport(
+  agencyId: string,
+  range: { from: Date; to: Date; branchId?: string }
+): Promise<TellerVarianceSummary[]> {
+  const sessions = await getTellerSessions(agencyId, { branchId: range.branchId, status: 'closed' });
+  return summarizeTellerVariances(
+    sessions
+      .filter((session) => session.openedAt && session.openedAt >= range.from && session.openedAt <= range.to)
+      .map((session) => ({
+        sessionId: session.id,
+        tellerId: session.tellerId,
+        branchId: session.branchId,
+        openedAt: session.openedAt!,
+        variance: Number(session.variance || 0),
+      }))
+  );
+}
+
+/**
+ * Employee names by user id, to show who a session or shortage belongs to
+ */
+export async function getTellerNames(agencyId: string): Promise<Record<string, string>> {
+  const snapshot = await getDocs(collection(db, 'agencies', agencyId, 'employees'));
+  const names: Record<string, string> = {};
+  for (const employeeDoc of snapshot.docs) {
+    const employee = employeeDoc.data();
+    if (employee.userId) {
+      names[employee.userId] = employee.name || employee.email || employee.userId;
+    }
+  }
+  return names;
+}
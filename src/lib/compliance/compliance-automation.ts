@@ -6,7 +6,7 @@
 
 import { collection, addDoc, doc, getDoc, getDocs, query, where, orderBy, updateDoc } from 'firebase/firestore';
 import { db } from '../firebase/config';
-import { generateRegulatoryReport, generateTaxReport } from './compliance-reports';
+import { generateRegulatoryReport, generateTaxReport, getValidationErrors } from './compliance-reports';
 
 export interface ComplianceTask {
   id: string;
@@ -161,8 +161,8 @@ async function executeComplianceTask(agencyId: string, task: ComplianceTask): Pr
         return;
     }
     
-    // Auto-submit if enabled
-    if (task.autoSubmit && task.recipients.length > 0) {
+    // Auto-submit if enabled; regulatory packs that fail validation wait for review
+    if (task.autoSubmit && task.recipients.length > 0 && getValidationErrors(report.data?.validation).length === 0) {
       await submitComplianceReport(agencyId, report.id, task.recipients);
     }
     
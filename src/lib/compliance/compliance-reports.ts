@@ -2,66 +2,207 @@
  * Automated Compliance Reporting
  */
 
-import { collection, addDoc, doc, getDoc, getDocs, query, where, orderBy } from 'firebase/firestore';
+import { collection, addDoc, doc, getDoc, getDocs, query, where, orderBy, setDoc, updateDoc, serverTimestamp } from 'firebase/firestore';
 import { db } from '../firebase/config';
+import { createAuditLog } from '../firebase/firestore-helpers';
+import { getProvisioningConfig } from '../accounting/provisioning';
+import { getClosedPeriod, getPeriodLoanBalances } from '../accounting/period-close';
+import { getChartOfAccounts, getJournalEntries } from '../accounting/general-ledger';
 import type { ComplianceReport, ComplianceChecklist } from '../../types/features';
+import { toAllocationInstallment, getOutstandingComponents } from '../../../packages/loan-rules/src/allocation';
+import { toDateKey } from '../../../packages/loan-rules/src/calendar';
+import { buildIncomeStatement, getSystemAccountCodes, toLedgerDate } from '../../../packages/loan-rules/src/ledger';
+import { classifyExposure, getDaysPastDue } from '../../../packages/loan-rules/src/provisioning';
+import {
+  buildReportPack,
+  resolveEconomicSector,
+  resolveRegulatoryConfig,
+  validateReportPack,
+  type RegulatoryConfig,
+  type RegulatoryExposure,
+  type ReportPack,
+  type ReportValidationIssue,
+} from '../../../packages/loan-rules/src/regulatory-returns';
+import {
+  buildTaxReport,
+  emptyTaxIncome,
+  getLedgerIncome,
+  resolveTaxConfig,
+  validateTaxConfig,
+  type TaxConfig,
+  type TaxReceipt,
+  type TaxReport,
+} from '../../../packages/loan-rules/src/tax';
+
+export type { RegulatoryConfig, ReportPack, ReportValidationIssue, TaxConfig, TaxReport };
+
+// Loans that are on the book: disbursed and not yet repaid, closed or written off
+const ON_BOOK_STATUSES = ['disbursed', 'active', 'overdue', 'restructuring', 'restructured', 'defaulted'];
 
 /**
- * Generate regulatory report
+ * Agency details and capital the regulatory returns are measured against
+ */
+export async function getRegulatoryConfig(agencyId: string): Promise<RegulatoryConfig> {
+  const configSnap = await getDoc(doc(db, 'agencies', agencyId, 'config', 'regulatory'));
+  return resolveRegulatoryConfig(configSnap.exists() ? (configSnap.data() as Partial<RegulatoryConfig>) : null);
+}
+
+/**
+ * Save the agency's regulatory config. It applies to packs generated afterwards.
+ */
+export async function saveRegulatoryConfig(
+  agencyId: string,
+  config: RegulatoryConfig,
+  actorId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    if (config.regulatoryCapital < 0 || config.largeExposurePct <= 0 || config.singleObligorLimitPct <= 0 || config.insiderLimitPct <= 0) {
+      return { success: false, error: 'Capital cannot be negative and limits must be greater than zero' };
+    }
+
+    await setDoc(doc(db, 'agencies', agencyId, 'config', 'regulatory'), {
+      ...config,
+      updatedAt: serverTimestamp(),
+      updatedBy: actorId,
+    });
+
+    createAuditLog(agencyId, {
+      actorId,
+      action: 'regulatory_config_updated',
+      targetCollection: 'config',
+      targetId: 'regulatory',
+      metadata: { regulatoryCapital: config.regulatoryCapital },
+    }).catch(() => {
+      // Ignore audit log errors
+    });
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error saving regulatory config:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to save regulatory config',
+    };
+  }
+}
+
+/**
+ * Generate the regulatory report pack for a period, measured at the period end,
+ * and validate it. A closed month is measured from its close snapshot. Packs
+ * with validation errors cannot be submitted.
  */
 export async function generateRegulatoryReport(
   agencyId: string,
-  period: { start: Date; end: Date }
+  period: { start: Date; end: Date },
+  generatedBy?: string
 ): Promise<ComplianceReport> {
-  // Get all loans in period
-  const loansRef = collection(db, 'agencies', agencyId, 'loans');
-  const loansSnapshot = await getDocs(loansRef);
-  const allLoans = loansSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
-
-  const periodLoans = allLoans.filter((loan: any) => {
-    const createdAt = loan.createdAt?.toDate?.() || new Date(loan.createdAt);
-    return createdAt >= period.start && createdAt <= period.end;
-  });
+  const periodStart = toDateKey(period.start);
+  const asOf = toDateKey(period.end);
+  const asOfEnd = new Date(period.end.getFullYear(), period.end.getMonth(), period.end.getDate(), 23, 59, 59, 999);
 
-  // Calculate metrics
-  const totalLoans = periodLoans.length;
-  const totalDisbursed = periodLoans.reduce((sum, loan: any) => sum + Number(loan.amount || 0), 0);
-  const totalCollected = await calculateTotalCollected(agencyId, periodLoans);
-  const defaultedLoans = periodLoans.filter((loan: any) => loan.status === 'defaulted').length;
+  const [config, provisioningConfig, customersSnapshot, employeesSnapshot, close] = await Promise.all([
+    getRegulatoryConfig(agencyId),
+    getProvisioningConfig(agencyId),
+    getDocs(collection(db, 'agencies', agencyId, 'customers')),
+    getDocs(collection(db, 'agencies', agencyId, 'employees')),
+    getClosedPeriod(agencyId, asOf.slice(0, 7)),
+  ]);
 
-  // Get customers
-  const customersRef = collection(db, 'agencies', agencyId, 'customers');
-  const customersSnapshot = await getDocs(customersRef);
-  const totalCustomers = customersSnapshot.docs.length;
+  const customers = new Map(customersSnapshot.docs.map((d) => [d.id, d.data()]));
+  const staffEmails = new Set(
+    employeesSnapshot.docs.map((d) => String(d.data().email || '').toLowerCase()).filter(Boolean)
+  );
+  const getCustomer = (customerId: string) => {
+    const customer = customers.get(customerId) || {};
+    const insiderRelationship = customer.insiderRelationship ||
+      (customer.email && staffEmails.has(String(customer.email).toLowerCase()) ? 'Employee' : undefined);
+    return { customer, insiderRelationship };
+  };
 
-  const reportData = {
-    period: {
-      start: period.start.toISOString(),
-      end: period.end.toISOString(),
-    },
-    summary: {
-      totalLoans,
-      totalDisbursed,
-      totalCollected,
-      defaultedLoans,
-      defaultRate: totalLoans > 0 ? defaultedLoans / totalLoans : 0,
-      totalCustomers,
-    },
-    loans: periodLoans.map((loan: any) => ({
-      id: loan.id,
-      amount: loan.amount,
-      interestRate: loan.interestRate,
+  const exposures: RegulatoryExposure[] = [];
+
+  // A closed month is reported from the balances frozen when it closed
+  const fromClose = !!close && close.periodEnd === asOf;
+  if (fromClose) {
+    const balances = await getPeriodLoanBalances(agencyId, close!.periodId);
+    for (const balance of balances.filter((b) => b.onBook || b.disbursedOn >= periodStart)) {
+      const { customer, insiderRelationship } = getCustomer(balance.customerId);
+      exposures.push({
+        loanId: balance.loanId,
+        onBook: balance.onBook,
+        customerId: balance.customerId,
+        customerName: customer.fullName || customer.name || balance.customerId,
+        ...(balance.loanType ? { loanType: balance.loanType } : {}),
+        status: balance.status,
+        sector: resolveEconomicSector(balance.economicSector, customer.economicSector, balance.loanType),
+        principalOutstanding: balance.principalOutstanding,
+        daysPastDue: balance.daysPastDue,
+        classification: balance.classification,
+        annualRate: balance.annualRate,
+        disbursedAmount: balance.disbursedAmount,
+        disbursedOn: balance.disbursedOn,
+        ...(balance.scheduledPayments ? { scheduledPayments: balance.scheduledPayments } : {}),
+        ...(insiderRelationship ? { insiderRelationship } : {}),
+      });
+    }
+  }
+
+  const loansSnapshot = fromClose ? null : await getDocs(collection(db, 'agencies', agencyId, 'loans'));
+  for (const loanDoc of loansSnapshot?.docs || []) {
+    const loan = loanDoc.data();
+    const disbursedAt = loan.disbursementDate?.toDate?.() || (loan.disbursementDate ? new Date(loan.disbursementDate) : null);
+    if (loan.deleted || !disbursedAt || disbursedAt > asOfEnd) {
+      continue;
+    }
+
+    const onBook = ON_BOOK_STATUSES.includes(loan.status);
+    const disbursedOn = toDateKey(disbursedAt);
+    if (!onBook && disbursedOn < periodStart) {
+      continue;
+    }
+
+    const repaymentsSnapshot = await getDocs(collection(db, 'agencies', agencyId, 'loans', loanDoc.id, 'repayments'));
+    const installments = repaymentsSnapshot.docs.map((d) => toAllocationInstallment({ id: d.id, ...d.data() }));
+    const daysPastDue = getDaysPastDue(installments, asOfEnd);
+    const restructured = loan.status === 'restructured' || Number(loan.restructureCount || 0) > 0;
+
+    const customerId = loan.customerId || loan.customer_id || '';
+    const { customer, insiderRelationship } = getCustomer(customerId);
+
+    exposures.push({
+      loanId: loanDoc.id,
+      onBook,
+      customerId,
+      customerName: customer.fullName || customer.name || customerId,
+      ...(loan.loanType ? { loanType: loan.loanType } : {}),
       status: loan.status,
-      customerId: loan.customerId || loan.customer_id,
-      createdAt: loan.createdAt?.toDate?.() || new Date(loan.createdAt),
-    })),
-  };
+      sector: resolveEconomicSector(loan.economicSector, customer.economicSector, loan.loanType),
+      principalOutstanding: onBook
+        ? Math.round(installments.reduce((sum, i) => sum + getOutstandingComponents(i).principal, 0) * 100) / 100
+        : 0,
+      daysPastDue,
+      classification: classifyExposure({ loanId: loanDoc.id, status: loan.status, restructured, daysPastDue, exposureAtDefault: 0 }, provisioningConfig),
+      annualRate: Number(loan.interestRate || 0),
+      disbursedAmount: Number(loan.amount || 0),
+      disbursedOn,
+      scheduledPayments: installments.map((i) => ({
+        date: toDateKey(i.dueDate),
+        amount: i.due.principal + i.due.interest + i.due.fees,
+      })),
+      ...(insiderRelationship ? { insiderRelationship } : {}),
+    });
+  }
+
+  const pack = buildReportPack(exposures, config, { start: periodStart, asOf });
+  const validation = validateReportPack(pack, exposures, config);
+  const name = `Regulatory Returns - ${period.start.toLocaleDateString()} to ${period.end.toLocaleDateString()}`;
+  const reportData = { pack, validation, source: fromClose ? 'period_close' : 'live' };
 
   // Save report
   const reportsRef = collection(db, 'agencies', agencyId, 'compliance_reports');
   const docRef = await addDoc(reportsRef, {
     type: 'regulatory',
-    name: `Regulatory Report - ${period.start.toLocaleDateString()} to ${period.end.toLocaleDateString()}`,
+    name,
     period: {
       start: period.start.toISOString(),
       end: period.end.toISOString(),
@@ -69,71 +210,240 @@ export async function generateRegulatoryReport(
     status: 'generated',
     data: reportData,
     generatedAt: new Date().toISOString(),
+    ...(generatedBy ? { generatedBy } : {}),
   });
 
   return {
     id: docRef.id,
     type: 'regulatory',
-    name: `Regulatory Report - ${period.start.toLocaleDateString()} to ${period.end.toLocaleDateString()}`,
+    name,
     period,
     status: 'generated',
     data: reportData,
     generatedAt: new Date(),
+    generatedBy,
   };
 }
 
 /**
- * Generate tax report
+ * Mark a validated regulatory pack as submitted to the regulator
  */
-export async function generateTaxReport(
+export async function submitRegulatoryReport(
   agencyId: string,
-  period: { start: Date; end: Date }
-): Promise<ComplianceReport> {
-  // Get all repayments in period
-  const loansRef = collection(db, 'agencies', agencyId, 'loans');
-  const loansSnapshot = await getDocs(loansRef);
-  const loans = loansSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
-
-  let totalInterest = 0;
-  let totalFees = 0;
-  let totalRevenue = 0;
-
-  for (const loan of loans) {
-    try {
-      const repaymentsRef = collection(db, 'agencies', agencyId, 'loans', loan.id, 'repayments');
-      const repaymentsSnapshot = await getDocs(repaymentsRef);
-      const repayments = repaymentsSnapshot.docs.map(doc => doc.data());
-
-      for (const repayment of repayments) {
-        if (repayment.status === 'paid') {
-          const paidAt = repayment.paidAt?.toDate?.() || new Date(repayment.paidAt || repayment.createdAt);
-          
-          if (paidAt >= period.start && paidAt <= period.end) {
-            const principal = Number(repayment.principalAmount || 0);
-            const interest = Number(repayment.interestAmount || 0);
-            const fees = Number(repayment.lateFee || 0) + Number(repayment.otherFees || 0);
-            
-            totalInterest += interest;
-            totalFees += fees;
-            totalRevenue += principal + interest + fees;
-          }
-        }
+  reportId: string,
+  userId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const reportRef = doc(db, 'agencies', agencyId, 'compliance_reports', reportId);
+    const reportSnap = await getDoc(reportRef);
+    if (!reportSnap.exists()) {
+      return { success: false, error: 'Report not found' };
+    }
+
+    const report = reportSnap.data();
+    if (report.type !== 'regulatory') {
+      return { success: false, error: 'Only regulatory report packs can be submitted here' };
+    }
+    if (report.status === 'submitted') {
+      return { success: false, error: 'Report has already been submitted' };
+    }
+    const errors = getValidationErrors(report.data?.validation);
+    if (errors.length > 0) {
+      return { success: false, error: `Fix ${errors.length} validation error(s) and regenerate the pack before submitting` };
+    }
+
+    await updateDoc(reportRef, {
+      status: 'submitted',
+      submittedAt: new Date().toISOString(),
+      submittedBy: userId,
+    });
+
+    createAuditLog(agencyId, {
+      actorId: userId,
+      action: 'regulatory_report_submitted',
+      targetCollection: 'compliance_reports',
+      targetId: reportId,
+      metadata: { name: report.name },
+    }).catch(() => {
+      // Ignore audit log errors
+    });
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error submitting regulatory report:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to submit regulatory report',
+    };
+  }
+}
+
+/**
+ * Validation issues that block a pack from being submitted
+ */
+export function getValidationErrors(validation?: ReportValidationIssue[]): ReportValidationIssue[] {
+  return (validation || []).filter((issue) => issue.severity === 'error');
+}
+
+/**
+ * The agency's tax rules (the defaults until they are saved)
+ */
+export async function getTaxConfig(agencyId: string): Promise<TaxConfig> {
+  const configSnap = await getDoc(doc(db, 'agencies', agencyId, 'config', 'tax'));
+  return resolveTaxConfig(configSnap.exists() ? (configSnap.data() as Partial<TaxConfig>) : null);
+}
+
+/**
+ * Save the agency's tax rules. They apply to tax reports generated afterwards.
+ */
+export async function saveTaxConfig(
+  agencyId: string,
+  config: TaxConfig,
+  actorId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const errors = validateTaxConfig(config);
+    if (errors.length > 0) {
+      return { success: false, error: errors.join('. ') };
+    }
+
+    await setDoc(doc(db, 'agencies', agencyId, 'config', 'tax'), {
+      ...config,
+      updatedAt: serverTimestamp(),
+      updatedBy: actorId,
+    });
+
+    createAuditLog(agencyId, {
+      actorId,
+      action: 'tax_config_updated',
+      targetCollection: 'config',
+      targetId: 'tax',
+      metadata: { enabledRules: config.rules.filter((rule) => rule.enabled).map((rule) => rule.id) },
+    }).catch(() => {
+      // Ignore audit log errors
+    });
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error saving tax config:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to save tax config',
+    };
+  }
+}
+
+function toTaxDate(value: any): string | null {
+  const date = value?.toDate?.() || (value ? new Date(value) : null);
+  return date && !isNaN(date.getTime()) ? toLedgerDate(date) : null;
+}
+
+/**
+ * Every receipt of income on the book: payments as they were allocated,
+ * their reversals, and recoveries on written-off loans
+ */
+async function getTaxReceipts(agencyId: string): Promise<TaxReceipt[]> {
+  const loansSnapshot = await getDocs(collection(db, 'agencies', agencyId, 'loans'));
+  const receipts: TaxReceipt[] = [];
+
+  for (const loanDoc of loansSnapshot.docs) {
+    const loan = loanDoc.data();
+    const [paymentsSnapshot, recoveriesSnapshot] = await Promise.all([
+      getDocs(collection(db, 'agencies', agencyId, 'loans', loanDoc.id, 'payments')),
+      getDocs(collection(db, 'agencies', agencyId, 'loans', loanDoc.id, 'recoveries')),
+    ]);
+
+    for (const paymentDoc of paymentsSnapshot.docs) {
+      const payment = paymentDoc.data();
+      const date = toTaxDate(payment.paymentDate) || toTaxDate(payment.recordedAt);
+      if (!date) continue;
+
+      // Payments recorded without a schedule have no split and carry no income
+      const income = {
+        ...emptyTaxIncome(),
+        interest: Number(payment.allocation?.interest || 0),
+        fees: Number(payment.allocation?.fees || 0),
+        penalties: Number(payment.allocation?.penalties || 0),
+      };
+      const entryId = `repayment_${loanDoc.id}_${paymentDoc.id}`;
+      receipts.push({ entryId, loanId: loanDoc.id, loanType: loan.loanType, date, income });
+
+      if (payment.status === 'reversed') {
+        receipts.push({
+          entryId: `reversal_${entryId}`,
+          loanId: loanDoc.id,
+          loanType: loan.loanType,
+          date: toTaxDate(payment.reversedAt) || date,
+          income: { ...emptyTaxIncome(), interest: -income.interest, fees: -income.fees, penalties: -income.penalties },
+        });
       }
-    } catch (error) {
-      // Skip if error
     }
+
+    for (const recoveryDoc of recoveriesSnapshot.docs) {
+      const recovery = recoveryDoc.data();
+      const date = toTaxDate(recovery.recoveryDate) || toTaxDate(recovery.createdAt);
+      if (!date || Number(recovery.amount || 0) <= 0) continue;
+      receipts.push({
+        entryId: `recovery_${loanDoc.id}_${recoveryDoc.id}`,
+        loanId: loanDoc.id,
+        loanType: loan.loanType,
+        date,
+        income: { ...emptyTaxIncome(), recoveries: Number(recovery.amount) },
+      });
+    }
+  }
+
+  return receipts;
+}
+
+/**
+ * Generate the tax report for a period: month-by-month schedules of the
+ * interest, fee, penalty and recovery income received, the taxes due on it
+ * under the agency's rules, and each month's reconciliation to the ledger
+ */
+export async function generateTaxReport(
+  agencyId: string,
+  period: { start: Date; end: Date },
+  generatedBy?: string
+): Promise<ComplianceReport> {
+  const from = toDateKey(period.start);
+  const to = toDateKey(period.end);
+
+  // Entries posted after the period are read too, so a receipt posted late is
+  // matched to its entry rather than reported as unposted
+  const [config, accounts, receipts, entries] = await Promise.all([
+    getTaxConfig(agencyId),
+    getChartOfAccounts(agencyId),
+    getTaxReceipts(agencyId),
+    getJournalEntries(agencyId, { from }),
+  ]);
+  const codes = getSystemAccountCodes(accounts);
+
+  const ledgerEntries = entries
+    .filter((entry) => entry.eventType === 'repayment' || entry.eventType === 'recovery' ||
+      (entry.eventType === 'reversal' && /^(repayment|recovery)_/.test(entry.reversesEntryId || '')))
+    .map((entry) => ({ entryId: entry.id, date: entry.date, income: getLedgerIncome(entry, codes) }));
+
+  const expensesByPeriod: Record<string, number> = {};
+  for (const periodId of new Set(entries.filter((entry) => entry.date <= to).map((entry) => entry.date.slice(0, 7)))) {
+    expensesByPeriod[periodId] = buildIncomeStatement(accounts, entries, `${periodId}-01`, `${periodId}-31`).totalExpenses;
   }
 
+  const report = buildTaxReport(receipts, ledgerEntries, expensesByPeriod, config, from, to);
+  const name = `Tax Report - ${period.start.toLocaleDateString()} to ${period.end.toLocaleDateString()}`;
   const reportData = {
     period: {
       start: period.start.toISOString(),
       end: period.end.toISOString(),
     },
+    report,
+    rules: config.rules.filter((rule) => rule.enabled),
+    // Summary kept in the shape earlier tax reports used
     revenue: {
-      totalRevenue,
-      interestIncome: totalInterest,
-      fees: totalFees,
-      taxableIncome: totalInterest + totalFees,
+      totalRevenue: report.totalIncome,
+      interestIncome: report.income.interest,
+      fees: report.income.fees + report.income.penalties,
+      taxableIncome: report.totalIncome,
     },
   };
 
@@ -141,7 +451,7 @@ export async function generateTaxReport(
   const reportsRef = collection(db, 'agencies', agencyId, 'compliance_reports');
   const docRef = await addDoc(reportsRef, {
     type: 'tax',
-    name: `Tax Report - ${period.start.toLocaleDateString()} to ${period.end.toLocaleDateString()}`,
+    name,
     period: {
       start: period.start.toISOString(),
       end: period.end.toISOString(),
@@ -149,16 +459,18 @@ export async function generateTaxReport(
     status: 'generated',
     data: reportData,
     generatedAt: new Date().toISOString(),
+    ...(generatedBy ? { generatedBy } : {}),
   });
 
   return {
     id: docRef.id,
     type: 'tax',
-    name: `Tax Report - ${period.start.toLocaleDateString()} to ${period.end.toLocaleDateString()}`,
+    name,
     period,
     status: 'generated',
     data: reportData,
     generatedAt: new Date(),
+    generatedBy,
   };
 }
 
@@ -184,30 +496,7 @@ export async function getComplianceReports(
       start: doc.data().period.start?.toDate?.() || new Date(doc.data().period.start),
       end: doc.data().period.end?.toDate?.() || new Date(doc.data().period.end),
     },
-    generatedAt: doc.data().generatedAt?.toDate() || new Date(doc.data().generatedAt),
-    submittedAt: doc.data().submittedAt?.toDate() || (doc.data().submittedAt ? new Date(doc.data().submittedAt) : undefined),
+    generatedAt: doc.data().generatedAt?.toDate?.() || new Date(doc.data().generatedAt),
+    submittedAt: doc.data().submittedAt?.toDate?.() || (doc.data().submittedAt ? new Date(doc.data().submittedAt) : undefined),
   })) as ComplianceReport[];
 }
-
-// Helper functions
-
-async function calculateTotalCollected(agencyId: string, loans: any[]): Promise<number> {
-  let total = 0;
-
-  for (const loan of loans) {
-    try {
-      const repaymentsRef = collection(db, 'agencies', agencyId, 'loans', loan.id, 'repayments');
-      const repaymentsSnapshot = await getDocs(repaymentsRef);
-      const repayments = repaymentsSnapshot.docs.map(doc => doc.data());
-
-      const paidRepayments = repayments.filter(r => r.status === 'paid');
-      const collected = paidRepayments.reduce((sum, r) => sum + Number(r.amountPaid || r.amountDue || 0), 0);
-      total += collected;
-    } catch (error) {
-      // Skip if error
-    }
-  }
-
-  return total;
-}
-
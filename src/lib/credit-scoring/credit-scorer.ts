@@ -6,6 +6,12 @@ import { collection, query, where, getDocs, orderBy, limit } from 'firebase/fire
 import { db } from '../firebase/config';
 import type { CreditScore, RiskAssessment } from '../../types/features';
 import { lookupNRC } from '../ai/nrc-lookup';
+import {
+  DEFAULT_CREDIT_SCORE_WEIGHTS,
+  weightCreditScore,
+  type CreditScoreFactors,
+  type CreditScoreWeights,
+} from '../../../packages/loan-rules/src/policy-simulation';
 
 /**
  * Calculate credit score for a customer
@@ -13,7 +19,8 @@ import { lookupNRC } from '../ai/nrc-lookup';
 export async function calculateCreditScore(
   agencyId: string,
   customerId: string,
-  loanAmount?: number
+  loanAmount?: number,
+  weights: CreditScoreWeights = DEFAULT_CREDIT_SCORE_WEIGHTS
 ): Promise<CreditScore> {
   // Get customer data
   const customerRef = doc(db, 'agencies', agencyId, 'customers', customerId);
@@ -46,20 +53,12 @@ export async function calculateCreditScore(
   const loans = loansSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
 
   // Calculate factors
-  const paymentHistory = calculatePaymentHistoryScore(loans);
-  const debtToIncome = calculateDebtToIncomeRatio(customerData, loans, loanAmount);
-  const creditHistory = calculateCreditHistoryScore(loans);
-  const collateralValue = calculateCollateralScore(customerData);
-  const employmentStability = calculateEmploymentStabilityScore(customerData);
-
-  // Weighted credit score calculation
-  const score = Math.round(
-    paymentHistory * 0.35 +      // 35% - Most important
-    creditHistory * 0.25 +        // 25%
-    debtToIncome * 0.15 +         // 15%
-    collateralValue * 0.15 +      // 15%
-    employmentStability * 0.10    // 10%
-  );
+  const factors = calculateCreditScoreFactors(customerData, loans, loanAmount);
+  const { collateralValue } = factors;
+
+  // Weighted credit score calculation (by default 35% payment history, 25% credit history,
+  // 15% debt-to-income, 15% collateral, 10% employment stability)
+  const score = weightCreditScore(factors, weights);
 
   // Determine tier
   let tier: 'A' | 'B' | 'C' | 'D';
@@ -76,13 +75,7 @@ export async function calculateCreditScore(
   return {
     score: Math.max(0, Math.min(1000, score)),
     tier,
-    factors: {
-      paymentHistory,
-      debtToIncome,
-      creditHistory,
-      collateralValue,
-      employmentStability,
-    },
+    factors,
     recommendations: {
       maxLoanAmount,
       recommendedInterestRate,
@@ -191,6 +184,24 @@ export async function performRiskAssessment(
   };
 }
 
+/**
+ * Factor scores (0-1000) behind a customer's credit score, from their profile
+ * and the loans they held at the time
+ */
+export function calculateCreditScoreFactors(
+  customerData: any,
+  loans: any[],
+  loanAmount?: number
+): CreditScoreFactors {
+  return {
+    paymentHistory: calculatePaymentHistoryScore(loans),
+    creditHistory: calculateCreditHistoryScore(loans),
+    debtToIncome: calculateDebtToIncomeRatio(customerData, loans, loanAmount),
+    collateralValue: calculateCollateralScore(customerData),
+    employmentStability: calculateEmploymentStabilityScore(customerData),
+  };
+}
+
 // Helper functions
 
 function calculatePaymentHistoryScore(loans: any[]): number {
@@ -4,6 +4,8 @@
  */
 
 import * as XLSX from 'xlsx';
+import type { ReportPack } from '../../packages/loan-rules/src/regulatory-returns';
+import { TAX_COMPONENTS, type TaxComponent, type TaxReport } from '../../packages/loan-rules/src/tax';
 
 interface ExportOptions {
   filename?: string;
@@ -283,3 +285,139 @@ export function exportRepayments(repayments: any[], options: ExportOptions = {})
   
   exportData(data, headers, { ...options, filename: options.filename || `repayments-export-${Date.now()}.${options.format || 'xlsx'}` });
 }
+
+/**
+ * Export a regulatory report pack to Excel, one worksheet per return in its
+ * prescribed layout: institution header, the return table, then key ratios
+ */
+export function exportRegulatoryReportPack(pack: ReportPack, options: ExportOptions = {}) {
+  const workbook = XLSX.utils.book_new();
+  const header = (title: string) => [
+    [title],
+    ['Institution', pack.institutionName],
+    ['Licence Number', pack.licenceNumber],
+    ['Reporting Period', `${pack.periodStart} to ${pack.asOf}`],
+    ['Reporting Date', pack.asOf],
+    ['Currency', 'ZMW'],
+    [],
+  ];
+
+  const cover = XLSX.utils.aoa_to_sheet([
+    ...header('Regulatory Returns'),
+    ['Code', 'Return'],
+    ...pack.returns.map((ret) => [ret.code, ret.title]),
+  ]);
+  cover['!cols'] = [{ wch: 20 }, { wch: 50 }];
+  XLSX.utils.book_append_sheet(workbook, cover, 'Cover');
+
+  for (const ret of pack.returns) {
+    const rows = [
+      ...header(`${ret.code} - ${ret.title}`),
+      ret.columns.map((column) => column.label),
+      ...ret.rows.map((row) => ret.columns.map((column) => row[column.key] ?? '')),
+      ...(ret.totals ? [ret.columns.map((column) => ret.totals![column.key] ?? '')] : []),
+      [],
+      ...ret.summary.map((item) => [item.label, item.value]),
+    ];
+    const worksheet = XLSX.utils.aoa_to_sheet(rows);
+    worksheet['!cols'] = ret.columns.map((column, index) => ({
+      wch: Math.min(Math.max(column.label.length, index === 0 ? 30 : 12) + 2, 50),
+    }));
+    XLSX.utils.book_append_sheet(workbook, worksheet, ret.code);
+  }
+
+  const excelBuffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+  const blob = new Blob([excelBuffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+
+  link.setAttribute('href', url);
+  link.setAttribute('download', options.filename || `regulatory-returns-${pack.asOf}.xlsx`);
+  link.style.visibility = 'hidden';
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Export a tax report to Excel: the month-by-month schedule of income and
+ * taxes, each month's reconciliation to the ledger, and the period totals
+ */
+export function exportTaxReport(report: TaxReport, options: ExportOptions = {}) {
+  const workbook = XLSX.utils.book_new();
+  const components = Object.keys(TAX_COMPONENTS) as TaxComponent[];
+  const taxNames = report.taxes.map((tax) => `${tax.name} (${tax.rate}%)`);
+
+  const schedule = XLSX.utils.aoa_to_sheet([
+    ['Tax Schedule'],
+    ['Period', `${report.from} to ${report.to}`],
+    ['Currency', 'ZMW'],
+    [],
+    ['Month', ...components.map((component) => TAX_COMPONENTS[component]), 'Total income', 'Deductible expenses', ...taxNames, 'Total tax'],
+    ...report.periods.map((period) => [
+      period.periodId,
+      ...components.map((component) => period.income[component]),
+      period.totalIncome,
+      period.deductibleExpenses,
+      ...period.taxes.map((tax) => tax.amount),
+      period.totalTax,
+    ]),
+    [
+      'Total',
+      ...components.map((component) => report.income[component]),
+      report.totalIncome,
+      report.periods.reduce((total, period) => total + period.deductibleExpenses, 0),
+      ...report.taxes.map((tax) => tax.amount),
+      report.totalTax,
+    ],
+  ]);
+  schedule['!cols'] = [{ wch: 12 }, ...Array(components.length + 3 + taxNames.length).fill({ wch: 18 })];
+  XLSX.utils.book_append_sheet(workbook, schedule, 'Schedule');
+
+  const reconciliation = XLSX.utils.aoa_to_sheet([
+    ['Ledger Reconciliation'],
+    ['Period', `${report.from} to ${report.to}`],
+    [],
+    [
+      'Month',
+      ...components.flatMap((component) => [`${TAX_COMPONENTS[component]} received`, `${TAX_COMPONENTS[component]} in ledger`]),
+      'Unposted receipts',
+      'Entries without a receipt',
+      'Reconciled',
+    ],
+    ...report.periods.map((period) => [
+      period.periodId,
+      ...components.flatMap((component) => [period.income[component], period.reconciliation.ledger[component]]),
+      period.reconciliation.unposted.join(', '),
+      period.reconciliation.ledgerOnly.join(', '),
+      period.reconciliation.reconciled ? 'Yes' : 'No',
+    ]),
+  ]);
+  reconciliation['!cols'] = [{ wch: 12 }, ...Array(components.length * 2).fill({ wch: 18 }), { wch: 40 }, { wch: 40 }, { wch: 12 }];
+  XLSX.utils.book_append_sheet(workbook, reconciliation, 'Reconciliation');
+
+  const totals = XLSX.utils.aoa_to_sheet([
+    ['Tax', 'Rate (%)', 'Base', 'Amount'],
+    ...report.taxes.map((tax) => [tax.name, tax.rate, tax.base, tax.amount]),
+    [],
+    ['Total tax', '', '', report.totalTax],
+  ]);
+  totals['!cols'] = [{ wch: 35 }, { wch: 10 }, { wch: 18 }, { wch: 18 }];
+  XLSX.utils.book_append_sheet(workbook, totals, 'Totals');
+
+  const excelBuffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+  const blob = new Blob([excelBuffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+
+  link.setAttribute('href', url);
+  link.setAttribute('download', options.filename || `tax-report-${report.from}-to-${report.to}.xlsx`);
+  link.style.visibility = 'hidden';
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,40 @@
+/**
+ * Firebase helpers for the agency loan approval matrix
+ */
+
+import { doc, getDoc, setDoc, serverTimestamp } from 'firebase/firestore';
+import { db, isDemoMode } from './config';
+import {
+  DEFAULT_APPROVAL_MATRIX,
+  resolveApprovalMatrix,
+  type ApprovalMatrix,
+} from '../../../packages/loan-rules/src/approval-matrix';
+
+/**
+ * Get the approval matrix for an agency
+ * Returns the default matrix if none is configured
+ */
+export async function getApprovalMatrix(agencyId: string): Promise<ApprovalMatrix> {
+  if (isDemoMode || !agencyId) {
+    return DEFAULT_APPROVAL_MATRIX;
+  }
+
+  try {
+    const configSnap = await getDoc(doc(db, 'agencies', agencyId, 'config', 'approvalMatrix'));
+    return resolveApprovalMatrix(configSnap.exists() ? configSnap.data() : undefined);
+  } catch (error) {
+    console.warn('Failed to load approval matrix, using defaults:', error);
+    return DEFAULT_APPROVAL_MATRIX;
+  }
+}
+
+/**
+ * Save the approval matrix for an agency
+ */
+export async function saveApprovalMatrix(agencyId: string, matrix: ApprovalMatrix): Promise<void> {
+  const resolved = resolveApprovalMatrix(matrix);
+  await setDoc(doc(db, 'agencies', agencyId, 'config', 'approvalMatrix'), {
+    ...resolved,
+    updatedAt: serverTimestamp(),
+  });
+}
@@ -0,0 +1,211 @@
+/**
+ * Collateral Insurance
+ *
+ * Insurance policies recorded against collateral, with their certificates
+ * uploaded alongside the asset's other files. transitionLoanStatus refuses to
+ * disburse a loan whose type requires insurance until each such asset
+ * securing it has a policy in force, and a daily job reminds the borrower and
+ * officer as policies near expiry.
+ */
+
+import {
+  addDoc,
+  collection,
+  doc,
+  getDocs,
+  query,
+  serverTimestamp,
+  Timestamp,
+  updateDoc,
+  where,
+} from 'firebase/firestore';
+import { db } from './config';
+import { createAuditLog } from './firestore-helpers';
+import { uploadInsuranceCertificate } from './collateral-storage';
+import {
+  getDaysToExpiry,
+  isPolicyInForce,
+  type InsurancePolicyRecord,
+} from '../../../packages/loan-rules/src/collateral-insurance';
+
+export interface CollateralInsurancePolicy extends InsurancePolicyRecord {
+  certificate?: {
+    url: string;
+    path: string;
+    fileName: string;
+  };
+  recordedBy: string;
+  recordedAt?: Date;
+  cancelledBy?: string;
+  cancelledAt?: Date;
+  cancellationReason?: string;
+}
+
+function toPolicy(id: string, data: any): CollateralInsurancePolicy {
+  return {
+    id,
+    ...data,
+    startDate: data.startDate?.toDate?.() || data.startDate,
+    expiryDate: data.expiryDate?.toDate?.() || data.expiryDate,
+    recordedAt: data.recordedAt?.toDate?.() || data.recordedAt,
+    cancelledAt: data.cancelledAt?.toDate?.() || data.cancelledAt,
+  } as CollateralInsurancePolicy;
+}
+
+/**
+ * Policies on a collateral item, latest expiry first
+ */
+export async function getCollateralInsurancePolicies(
+  agencyId: string,
+  collateralId: string
+): Promise<CollateralInsurancePolicy[]> {
+  const snapshot = await getDocs(query(
+    collection(db, 'agencies', agencyId, 'collateral_insurance'),
+    where('collateralId', '==', collateralId)
+  ));
+  return snapshot.docs
+    .map((policyDoc) => toPolicy(policyDoc.id, policyDoc.data()))
+    .sort((a, b) => b.expiryDate.getTime() - a.expiryDate.getTime());
+}
+
+/**
+ * Policies in force that expire within the given number of days
+ */
+export async function getExpiringInsurancePolicies(
+  agencyId: string,
+  withinDays: number
+): Promise<CollateralInsurancePolicy[]> {
+  const snapshot = await getDocs(query(
+    collection(db, 'agencies', agencyId, 'collateral_insurance'),
+    where('status', '==', 'active')
+  ));
+  const now = new Date();
+  return snapshot.docs
+    .map((policyDoc) => toPolicy(policyDoc.id, policyDoc.data()))
+    .filter((policy) => isPolicyInForce(policy, now) && getDaysToExpiry(policy, now) <= withinDays)
+    .sort((a, b) => a.expiryDate.getTime() - b.expiryDate.getTime());
+}
+
+/**
+ * Record an insurance policy on a collateral item, uploading its certificate if given
+ */
+export async function recordInsurancePolicy(params: {
+  agencyId: string;
+  collateralId: string;
+  insurer: string;
+  policyNumber: string;
+  sumInsured: number;
+  beneficiary: string;
+  startDate: Date;
+  expiryDate: Date;
+  certificate?: File | null;
+  recordedBy: string;
+}): Promise<{ success: boolean; policyId?: string; error?: string }> {
+  const { agencyId, collateralId, recordedBy } = params;
+
+  try {
+    const insurer = params.insurer.trim();
+    const policyNumber = params.policyNumber.trim();
+    const beneficiary = params.beneficiary.trim();
+    if (!insurer || !policyNumber || !beneficiary) {
+      return { success: false, error: 'Insurer, policy number and beneficiary are required' };
+    }
+    if (!(params.sumInsured > 0)) {
+      return { success: false, error: 'Sum insured must be greater than zero' };
+    }
+    if (params.expiryDate.getTime() <= params.startDate.getTime()) {
+      return { success: false, error: 'Expiry date must be after the start date' };
+    }
+
+    const existing = await getCollateralInsurancePolicies(agencyId, collateralId);
+    if (existing.some((policy) => policy.status === 'active' && policy.policyNumber === policyNumber && policy.insurer === insurer)) {
+      return { success: false, error: `Policy ${policyNumber} with ${insurer} is already recorded on this collateral` };
+    }
+
+    let certificate: CollateralInsurancePolicy['certificate'];
+    if (params.certificate) {
+      const uploaded = await uploadInsuranceCertificate(agencyId, collateralId, params.certificate, policyNumber);
+      certificate = {
+        url: uploaded.url,
+        path: uploaded.path,
+        fileName: params.certificate.name,
+      };
+    }
+
+    const policyRef = await addDoc(collection(db, 'agencies', agencyId, 'collateral_insurance'), {
+      collateralId,
+      insurer,
+      policyNumber,
+      sumInsured: Math.round(params.sumInsured * 100) / 100,
+      beneficiary,
+      startDate: Timestamp.fromDate(params.startDate),
+      expiryDate: Timestamp.fromDate(params.expiryDate),
+      status: 'active',
+      ...(certificate ? { certificate } : {}),
+      remindersSent: [],
+      recordedBy,
+      recordedAt: serverTimestamp(),
+    });
+
+    createAuditLog(agencyId, {
+      actorId: recordedBy,
+      action: 'collateral_insurance_recorded',
+      targetCollection: 'collateral_insurance',
+      targetId: policyRef.id,
+      metadata: {
+        collateralId,
+        insurer,
+        policyNumber,
+        sumInsured: params.sumInsured,
+        expiryDate: params.expiryDate.toISOString(),
+      },
+    }).catch(() => {
+      // Ignore audit log errors
+    });
+
+    return { success: true, policyId: policyRef.id };
+  } catch (error: any) {
+    console.error('Error recording insurance policy:', error);
+    return { success: false, error: error.message || 'Failed to record insurance policy' };
+  }
+}
+
+/**
+ * Cancel a policy, e.g. one recorded in error or surrendered before expiry
+ */
+export async function cancelInsurancePolicy(params: {
+  agencyId: string;
+  policyId: string;
+  reason: string;
+  cancelledBy: string;
+}): Promise<{ success: boolean; error?: string }> {
+  const { agencyId, policyId, reason, cancelledBy } = params;
+
+  try {
+    if (!reason.trim()) {
+      return { success: false, error: 'A reason is required to cancel a policy' };
+    }
+
+    await updateDoc(doc(db, 'agencies', agencyId, 'collateral_insurance', policyId), {
+      status: 'cancelled',
+      cancelledBy,
+      cancelledAt: serverTimestamp(),
+      cancellationReason: reason.trim(),
+    });
+
+    createAuditLog(agencyId, {
+      actorId: cancelledBy,
+      action: 'collateral_insurance_cancelled',
+      targetCollection: 'collateral_insurance',
+      targetId: policyId,
+      metadata: { reason: reason.trim() },
+    }).catch(() => {
+      // Ignore audit log errors
+    });
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error cancelling insurance policy:', error);
+    return { success: false, error: error.message || 'Failed to cancel insurance policy' };
+  }
+}
@@ -0,0 +1,415 @@
+/**
+ * Collateral Liens
+ *
+ * Registers collateral pledged to a loan as a lien, checking the asset's
+ * serial, registration and title numbers across the agency so the same asset
+ * cannot quietly secure two loans. Liens are released by transitionLoanStatus
+ * when their loan closes, or here by hand, and the asset is then free to be
+ * pledged again.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+} from 'firebase/firestore';
+import { db } from './config';
+import { addCollateral, createAuditLog } from './firestore-helpers';
+import {
+  COLLATERAL_IDENTIFIER_KINDS,
+  evaluatePledge,
+  getCollateralIdentifierKeys,
+  resolveCollateralLienConfig,
+  type CollateralIdentifiers,
+  type CollateralLienConfig,
+  type LienRecord,
+  type PledgeConflict,
+  type PledgeEvaluation,
+} from '../../../packages/loan-rules/src/collateral-liens';
+
+export type { CollateralLienConfig, PledgeEvaluation };
+
+export interface CollateralLien extends LienRecord {
+  customerId?: string;
+  identifiers: CollateralIdentifiers;
+  flagged: boolean; // Registered although the asset already secured another loan
+  conflicts: PledgeConflict[];
+  pledgedBy: string;
+  pledgedAt?: Date;
+  releasedBy?: string;
+  releasedAt?: Date;
+  releaseReason?: string;
+}
+
+function toLien(id: string, data: any): CollateralLien {
+  return {
+    id,
+    ...data,
+    pledgedAt: data.pledgedAt?.toDate?.() || data.pledgedAt,
+    releasedAt: data.releasedAt?.toDate?.() || data.releasedAt,
+  } as CollateralLien;
+}
+
+function getCollateralValue(collateral: any): number {
+  return Number(collateral.estimatedValue ?? collateral.value ?? 0);
+}
+
+/**
+ * The agency's lien config (the defaults until one is saved)
+ */
+export async function getCollateralLienConfig(agencyId: string): Promise<CollateralLienConfig> {
+  const configSnap = await getDoc(doc(db, 'agencies', agencyId, 'config', 'collateralLiens'));
+  return resolveCollateralLienConfig(configSnap.exists() ? (configSnap.data() as Partial<CollateralLienConfig>) : null);
+}
+
+/**
+ * Save the agency's lien config
+ */
+export async function saveCollateralLienConfig(
+  agencyId: string,
+  config: CollateralLienConfig,
+  actorId: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    await setDoc(doc(db, 'agencies', agencyId, 'config', 'collateralLiens'), {
+      ...config,
+      updatedAt: serverTimestamp(),
+      updatedBy: actorId,
+    });
+
+    createAuditLog(agencyId, {
+      actorId,
+      action: 'collateral_lien_config_updated',
+      targetCollection: 'config',
+      targetId: 'collateralLiens',
+      metadata: { ...config },
+    }).catch(() => {
+      // Ignore audit log errors
+    });
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error saving collateral lien config:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to save collateral lien settings',
+    };
+  }
+}
+
+/**
+ * Liens, newest first, on a collateral record
+ */
+export async function getCollateralLiens(agencyId: string, collateralId: string): Promise<CollateralLien[]> {
+  const snapshot = await getDocs(query(
+    collection(db, 'agencies', agencyId, 'collateral_liens'),
+    where('collateralId', '==', collateralId)
+  ));
+  return snapshot.docs
+    .map((lienDoc) => toLien(lienDoc.id, lienDoc.data()))
+    .sort((a, b) => (b.pledgedAt?.getTime() || 0) - (a.pledgedAt?.getTime() || 0));
+}
+
+/**
+ * Liens securing a loan
+ */
+export async function getLoanLiens(agencyId: string, loanId: string): Promise<CollateralLien[]> {
+  const snapshot = await getDocs(query(
+    collection(db, 'agencies', agencyId, 'collateral_liens'),
+    where('loanId', '==', loanId)
+  ));
+  return snapshot.docs.map((lienDoc) => toLien(lienDoc.id, lienDoc.data()));
+}
+
+/**
+ * Active liens registered although their asset already secured another loan
+ */
+export async function getFlaggedLiens(agencyId: string): Promise<CollateralLien[]> {
+  const snapshot = await getDocs(query(
+    collection(db, 'agencies', agencyId, 'collateral_liens'),
+    where('flagged', '==', true),
+    where('status', '==', 'active')
+  ));
+  return snapshot.docs.map((lienDoc) => toLien(lienDoc.id, lienDoc.data()));
+}
+
+/**
+ * Active liens on an asset, by its record or any of its identifiers
+ */
+async function getActiveAssetLiens(
+  agencyId: string,
+  collateralId: string | null,
+  identifierKeys: string[]
+): Promise<CollateralLien[]> {
+  const liensRef = collection(db, 'agencies', agencyId, 'collateral_liens');
+  const snapshots = await Promise.all([
+    collateralId ? getDocs(query(liensRef, where('collateralId', '==', collateralId))) : null,
+    identifierKeys.length > 0
+      ? getDocs(query(liensRef, where('identifierKeys', 'array-contains-any', identifierKeys)))
+      : null,
+  ]);
+
+  const liens = new Map<string, CollateralLien>();
+  for (const snapshot of snapshots) {
+    snapshot?.docs.forEach((lienDoc) => liens.set(lienDoc.id, toLien(lienDoc.id, lienDoc.data())));
+  }
+  return [...liens.values()].filter((lien) => lien.status === 'active');
+}
+
+/**
+ * Check a pledge against the registry without registering it
+ */
+export async function checkPledge(
+  agencyId: string,
+  pledge: {
+    collateralId: string | null;
+    loanId: string;
+    identifiers: CollateralIdentifiers;
+    collateralValue: number;
+    loanAmount?: number;
+    coverageAmount?: number;
+  }
+): Promise<PledgeEvaluation> {
+  const identifierKeys = getCollateralIdentifierKeys(pledge.identifiers);
+  const [config, liens] = await Promise.all([
+    getCollateralLienConfig(agencyId),
+    getActiveAssetLiens(agencyId, pledge.collateralId, identifierKeys),
+  ]);
+  return evaluatePledge({ ...pledge, identifierKeys }, liens, config);
+}
+
+/**
+ * Pledge collateral in the registry to a loan, registering the lien at the
+ * next rank on the asset
+ */
+export async function pledgeCollateral(params: {
+  agencyId: string;
+  collateralId: string;
+  loanId: string;
+  pledgedBy: string;
+  coverageAmount?: number;
+}): Promise<{ success: boolean; error?: string; lienId?: string; flagged?: boolean }> {
+  const { agencyId, collateralId, loanId, pledgedBy } = params;
+
+  try {
+    const collateralRef = doc(db, 'agencies', agencyId, 'collateral', collateralId);
+    const loanRef = doc(db, 'agencies', agencyId, 'loans', loanId);
+    const [collateralSnap, loanSnap] = await Promise.all([getDoc(collateralRef), getDoc(loanRef)]);
+    if (!collateralSnap.exists()) {
+      return { success: false, error: 'Collateral not found' };
+    }
+    if (!loanSnap.exists()) {
+      return { success: false, error: 'Loan not found' };
+    }
+    const collateral = collateralSnap.data();
+    const loan = loanSnap.data();
+
+    const identifiers: CollateralIdentifiers = {
+      serialNumber: collateral.serialNumber || null,
+      registrationNumber: collateral.registrationNumber || null,
+      titleNumber: collateral.titleNumber || null,
+    };
+    const evaluation = await checkPledge(agencyId, {
+      collateralId,
+      loanId,
+      identifiers,
+      collateralValue: getCollateralValue(collateral),
+      loanAmount: Number(loan.amount || 0),
+      coverageAmount: params.coverageAmount,
+    });
+    if (!evaluation.allowed) {
+      return { success: false, error: evaluation.error };
+    }
+
+    const lienRef = doc(collection(db, 'agencies', agencyId, 'collateral_liens'));
+    await setDoc(lienRef, {
+      collateralId,
+      loanId,
+      ...(loan.customerId ? { customerId: loan.customerId } : {}),
+      rank: evaluation.rank,
+      coverageAmount: evaluation.coverageAmount,
+      status: 'active',
+      identifiers,
+      identifierKeys: getCollateralIdentifierKeys(identifiers),
+      flagged: evaluation.flagged,
+      conflicts: evaluation.conflicts,
+      pledgedBy,
+      pledgedAt: serverTimestamp(),
+    });
+
+    await updateDoc(collateralRef, {
+      lienStatus: 'pledged',
+      loanId,
+      updatedAt: serverTimestamp(),
+    });
+    // Collateral pledged from the registry also appears with the loan's own collateral
+    await setDoc(doc(db, 'agencies', agencyId, 'loans', loanId, 'collateral', collateralId), {
+      ...collateral,
+      id: collateralId,
+      loanId,
+      lienStatus: 'pledged',
+      updatedAt: serverTimestamp(),
+    }, { merge: true });
+    await updateDoc(loanRef, { collateralIncluded: true, updatedAt: serverTimestamp() });
+
+    createAuditLog(agencyId, {
+      actorId: pledgedBy,
+      action: evaluation.flagged ? 'collateral_double_pledge_flagged' : 'collateral_pledged',
+      targetCollection: 'collateral_liens',
+      targetId: lienRef.id,
+      metadata: {
+        collateralId,
+        loanId,
+        rank: evaluation.rank,
+        coverageAmount: evaluation.coverageAmount,
+        conflicts: evaluation.conflicts.map((conflict) => conflict.loanId),
+      },
+    }).catch(() => {
+      // Ignore audit log errors
+    });
+
+    return { success: true, lienId: lienRef.id, flagged: evaluation.flagged };
+  } catch (error: any) {
+    console.error('Error pledging collateral:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to pledge collateral',
+    };
+  }
+}
+
+/**
+ * Add collateral to a loan and register its lien. A pledge the agency's
+ * policy blocks is refused before the collateral is created.
+ */
+export async function addPledgedCollateral(
+  agencyId: string,
+  loanId: string,
+  data: Parameters<typeof addCollateral>[2],
+  pledgedBy: string
+) {
+  const loanSnap = await getDoc(doc(db, 'agencies', agencyId, 'loans', loanId));
+  const evaluation = await checkPledge(agencyId, {
+    collateralId: null,
+    loanId,
+    identifiers: data,
+    collateralValue: data.estimatedValue,
+    loanAmount: loanSnap.exists() ? Number(loanSnap.data().amount || 0) : undefined,
+  });
+  if (!evaluation.allowed) {
+    throw new Error(evaluation.error || 'This collateral cannot be pledged');
+  }
+
+  const collateral = await addCollateral(agencyId, loanId, data);
+  const pledge = await pledgeCollateral({ agencyId, collateralId: collateral.id, loanId, pledgedBy });
+  if (!pledge.success) {
+    throw new Error(pledge.error || 'Failed to register lien');
+  }
+  return { ...collateral, lienId: pledge.lienId, flagged: pledge.flagged };
+}
+
+/**
+ * Release a lien by hand, e.g. when collateral is substituted. Liens on
+ * closed loans are released by transitionLoanStatus.
+ */
+export async function releaseLien(params: {
+  agencyId: string;
+  lienId: string;
+  releasedBy: string;
+  reason: string;
+  repossessionId?: string; // Repossession whose sale releases the lien; otherwise only admins release
+}): Promise<{ success: boolean; error?: string }> {
+  const { agencyId, lienId, releasedBy } = params;
+
+  try {
+    if (!params.reason.trim()) {
+      return { success: false, error: 'A reason is required to release a lien' };
+    }
+
+    const lienRef = doc(db, 'agencies', agencyId, 'collateral_liens', lienId);
+    const lienSnap = await getDoc(lienRef);
+    if (!lienSnap.exists()) {
+      return { success: false, error: 'Lien not found' };
+    }
+    const lien = toLien(lienSnap.id, lienSnap.data());
+    if (lien.status !== 'active') {
+      return { success: false, error: 'This lien is already released' };
+    }
+
+    await updateDoc(lienRef, {
+      status: 'released',
+      releasedBy,
+      releasedAt: serverTimestamp(),
+      releaseReason: params.reason.trim(),
+      ...(params.repossessionId ? { repossessionId: params.repossessionId } : {}),
+    });
+
+    const remaining = (await getCollateralLiens(agencyId, lien.collateralId))
+      .filter((other) => other.id !== lienId && other.status === 'active');
+    if (remaining.length === 0) {
+      await updateDoc(doc(db, 'agencies', agencyId, 'collateral', lien.collateralId), {
+        lienStatus: 'released',
+        updatedAt: serverTimestamp(),
+      });
+    }
+
+    createAuditLog(agencyId, {
+      actorId: releasedBy,
+      action: 'collateral_lien_released',
+      targetCollection: 'collateral_liens',
+      targetId: lienId,
+      metadata: { collateralId: lien.collateralId, loanId: lien.loanId, reason: params.reason.trim() },
+    }).catch(() => {
+      // Ignore audit log errors
+    });
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error releasing lien:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to release lien',
+    };
+  }
+}
+
+/**
+ * What a release letter for a released lien states
+ */
+export async function getLienReleaseLetterData(agencyId: string, lien: CollateralLien) {
+  if (lien.status !== 'released') {
+    throw new Error('Only released liens have a release letter');
+  }
+
+  const [collateralSnap, customerSnap] = await Promise.all([
+    getDoc(doc(db, 'agencies', agencyId, 'collateral', lien.collateralId)),
+    lien.customerId ? getDoc(doc(db, 'agencies', agencyId, 'customers', lien.customerId)) : null,
+  ]);
+  const collateral = collateralSnap.exists() ? collateralSnap.data() : {};
+  const customer = customerSnap?.exists() ? customerSnap.data() : {};
+
+  return {
+    lienId: lien.id,
+    loanId: lien.loanId,
+    customerName: customer.fullName || customer.name || 'Borrower',
+    collateralName: collateral.name || 'Collateral',
+    collateralType: collateral.type || 'other',
+    identifiers: ([
+      [COLLATERAL_IDENTIFIER_KINDS.serial, lien.identifiers?.serialNumber],
+      [COLLATERAL_IDENTIFIER_KINDS.registration, lien.identifiers?.registrationNumber],
+      [COLLATERAL_IDENTIFIER_KINDS.title, lien.identifiers?.titleNumber],
+    ] as Array<[string, string | null | undefined]>)
+      .filter((entry): entry is [string, string] => !!entry[1]),
+    rank: lien.rank,
+    coverageAmount: lien.coverageAmount,
+    pledgedAt: lien.pledgedAt,
+    releasedAt: lien.releasedAt || new Date(),
+    releaseReason: lien.releaseReason || '',
+  };
+}
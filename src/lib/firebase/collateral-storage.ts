@@ -9,7 +9,7 @@ import { isDemoMode } from './config';
 
 export interface CollateralFile {
   file: File;
-  type: 'image' | 'document' | 'pdf';
+  type: 'image' | 'document' | 'pdf' | 'insurance_certificate';
   description?: string;
 }
 
@@ -149,6 +149,22 @@ export async function deleteCollateralFile(filePath: string): Promise<void> {
   }
 }
 
+/**
+ * Upload the certificate of an insurance policy on a collateral item
+ */
+export async function uploadInsuranceCertificate(
+  agencyId: string,
+  collateralId: string,
+  file: File,
+  policyNumber: string
+): Promise<UploadedFile> {
+  return uploadCollateralFile(agencyId, collateralId, {
+    file,
+    type: 'insurance_certificate',
+    description: `Insurance certificate for policy ${policyNumber}`,
+  });
+}
+
 /**
  * Upload multiple collateral files
  */
@@ -0,0 +1,185 @@
+/**
+ * Collateral Valuations
+ *
+ * Market valuations recorded against pledged collateral, which the monthly
+ * revaluation depreciates from, and the breaches of loan-to-value and
+ * coverage limits that revaluation raises.
+ */
+
+import {
+  addDoc,
+  collection,
+  doc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  serverTimestamp,
+  Timestamp,
+  updateDoc,
+  where,
+} from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from './config';
+import { createAuditLog } from './firestore-helpers';
+import type { PriceBookValuation } from '../../../packages/loan-rules/src/price-book';
+
+export type MarketValuationSource = 'appraisal' | 'ai_estimate' | 'price_book';
+
+export interface CollateralValuation {
+  id: string;
+  value: number;
+  date: string; // YYYY-MM-DD
+  source: 'market' | 'pledged'; // What a revaluation depreciated from
+  marketSource?: MarketValuationSource; // Set on recorded market valuations
+  baseValue?: number;
+  depreciationRate?: number;
+  valuedBy?: string;
+  priceBook?: PriceBookValuation; // How a price book valuation was reached
+}
+
+export interface CollateralRevaluationRun {
+  date: string;
+  assetsRevalued: number;
+  loansAssessed: number;
+  loansInBreach: number;
+  alertsRaised: number;
+  tasksCreated: number;
+  alertsResolved: number;
+}
+
+export interface CollateralBreachAlert {
+  id: string;
+  loanId: string;
+  rule: string;
+  message: string;
+  createdAt?: Date;
+}
+
+/**
+ * Record a market valuation of an asset; later revaluations depreciate from it
+ */
+export async function recordCollateralValuation(params: {
+  agencyId: string;
+  collateralId: string;
+  value: number;
+  source: MarketValuationSource;
+  valuedBy: string;
+  priceBook?: PriceBookValuation;
+}): Promise<{ success: boolean; error?: string }> {
+  const { agencyId, collateralId, value, source, valuedBy, priceBook } = params;
+
+  try {
+    if (!(value > 0)) {
+      return { success: false, error: 'Valuation must be greater than zero' };
+    }
+
+    const roundedValue = Math.round(value * 100) / 100;
+    const now = new Date();
+    const collateralRef = doc(db, 'agencies', agencyId, 'collateral', collateralId);
+    await updateDoc(collateralRef, {
+      marketValuation: {
+        value: roundedValue,
+        valuedAt: Timestamp.fromDate(now),
+        source,
+        valuedBy,
+        ...(priceBook ? { priceBook } : {}),
+      },
+      currentValue: roundedValue,
+      updatedAt: serverTimestamp(),
+    });
+    await addDoc(collection(collateralRef, 'valuations'), {
+      value: roundedValue,
+      date: now.toISOString().slice(0, 10),
+      source: 'market',
+      marketSource: source,
+      valuedBy,
+      ...(priceBook ? { priceBook } : {}),
+      createdAt: serverTimestamp(),
+    });
+
+    createAuditLog(agencyId, {
+      actorId: valuedBy,
+      action: 'collateral_valuation_recorded',
+      targetCollection: 'collateral',
+      targetId: collateralId,
+      metadata: {
+        value: roundedValue,
+        source,
+        ...(priceBook ? { priceBookVersion: priceBook.version, explanation: priceBook.explanation } : {}),
+      },
+    }).catch(() => {
+      // Ignore audit log errors
+    });
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error recording collateral valuation:', error);
+    return { success: false, error: error.message || 'Failed to record valuation' };
+  }
+}
+
+/**
+ * Valuations and revaluations of an asset, newest first
+ */
+export async function getCollateralValuations(agencyId: string, collateralId: string): Promise<CollateralValuation[]> {
+  const snapshot = await getDocs(collection(db, 'agencies', agencyId, 'collateral', collateralId, 'valuations'));
+  return snapshot.docs
+    .map((valuationDoc) => ({ id: valuationDoc.id, ...valuationDoc.data() } as CollateralValuation))
+    .sort((a, b) => b.date.localeCompare(a.date));
+}
+
+/**
+ * The most recent revaluation run, if any
+ */
+export async function getLatestRevaluationRun(agencyId: string): Promise<CollateralRevaluationRun | null> {
+  const snapshot = await getDocs(query(
+    collection(db, 'agencies', agencyId, 'collateral_revaluations'),
+    orderBy('date', 'desc'),
+    limit(1)
+  ));
+  return snapshot.empty ? null : (snapshot.docs[0].data() as CollateralRevaluationRun);
+}
+
+/**
+ * Loan-to-value and coverage breaches still open
+ */
+export async function getOpenCollateralBreaches(agencyId: string): Promise<CollateralBreachAlert[]> {
+  const snapshot = await getDocs(query(
+    collection(db, 'agencies', agencyId, 'alerts'),
+    where('source', '==', 'collateral_revaluation'),
+    where('status', '==', 'open')
+  ));
+  return snapshot.docs.map((alertDoc) => {
+    const data = alertDoc.data();
+    return {
+      id: alertDoc.id,
+      loanId: data.loanId,
+      rule: data.rule,
+      message: data.message,
+      createdAt: data.createdAt?.toDate?.() || data.createdAt,
+    };
+  });
+}
+
+/**
+ * Revalue the agency's pledged collateral now rather than waiting for the monthly run
+ */
+export async function runCollateralRevaluation(
+  agencyId: string
+): Promise<{ success: boolean; error?: string } & Partial<CollateralRevaluationRun>> {
+  try {
+    const callable = httpsCallable<{ agencyId: string }, { success: boolean; error?: string } & Partial<CollateralRevaluationRun>>(
+      functions,
+      'runCollateralRevaluation'
+    );
+    const result = await callable({ agencyId });
+    return result.data;
+  } catch (error: any) {
+    console.error('Error calling runCollateralRevaluation:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to run collateral revaluation',
+    };
+  }
+}
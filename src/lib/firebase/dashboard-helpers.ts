@@ -14,6 +14,7 @@ import {
   getDocs
 } from 'firebase/firestore';
 import { db } from './config';
+import { summarizeCreditLosses } from '../../../packages/loan-rules/src/write-off';
 
 interface DashboardStats {
   totalActiveLoans: number;
@@ -27,6 +28,10 @@ interface DashboardStats {
   overdueLoans: number;
   totalLoans: number;
   totalPortfolioValue: number;
+  writtenOffLoans: number;
+  grossLosses: number;
+  recoveries: number;
+  netLosses: number;
 }
 
 /**
@@ -51,6 +56,10 @@ export function subscribeToDashboardStats(
       overdueLoans: 0,
       totalLoans: 0,
       totalPortfolioValue: 0,
+      writtenOffLoans: 0,
+      grossLosses: 0,
+      recoveries: 0,
+      netLosses: 0,
     });
     return () => {};
   }
@@ -150,6 +159,9 @@ export function subscribeToDashboardStats(
       );
       const approvalRate = totalLoans > 0 ? (approvedLoans.length / totalLoans) * 100 : 0;
 
+      // Credit losses written off, gross and net of recoveries since
+      const creditLosses = summarizeCreditLosses(activeLoansData);
+
       const stats = {
         totalActiveLoans: activeLoans.length,
         totalDisbursedThisMonth,
@@ -162,6 +174,10 @@ export function subscribeToDashboardStats(
         overdueLoans: overdueLoans.length,
         totalLoans,
         totalPortfolioValue,
+        writtenOffLoans: creditLosses.writtenOffLoans,
+        grossLosses: creditLosses.grossLosses,
+        recoveries: creditLosses.recoveries,
+        netLosses: creditLosses.netLosses,
       };
       
       console.log('Dashboard stats updated:', stats);
@@ -211,6 +227,10 @@ export function subscribeToDashboardStats(
                   overdueLoans: 0,
                   totalLoans: 0,
                   totalPortfolioValue: 0,
+                  writtenOffLoans: 0,
+                  grossLosses: 0,
+                  recoveries: 0,
+                  netLosses: 0,
                 });
               }
             );
@@ -231,6 +251,10 @@ export function subscribeToDashboardStats(
             overdueLoans: 0,
             totalLoans: 0,
             totalPortfolioValue: 0,
+            writtenOffLoans: 0,
+            grossLosses: 0,
+            recoveries: 0,
+            netLosses: 0,
           });
         }
       }
@@ -912,6 +912,8 @@ export async function addCollateral(
     estimatedValue: number;
     photos: string[];
     serialNumber?: string;
+    registrationNumber?: string; // Vehicle registration, matched across the lien registry
+    titleNumber?: string; // Title deed number, matched across the lien registry
     brand?: string;
     model?: string;
     year?: number;
@@ -966,6 +968,8 @@ export async function createCollateral(
     estimatedValue: number;
     photos?: string[];
     serialNumber?: string;
+    registrationNumber?: string; // Vehicle registration, matched across the lien registry
+    titleNumber?: string; // Title deed number, matched across the lien registry
     brand?: string;
     model?: string;
     year?: number;
@@ -999,6 +1003,8 @@ export async function createCollateral(
   
   // Only add optional fields if they have values
   if (data.serialNumber) cleanData.serialNumber = data.serialNumber;
+  if (data.registrationNumber) cleanData.registrationNumber = data.registrationNumber;
+  if (data.titleNumber) cleanData.titleNumber = data.titleNumber;
   if (data.brand) cleanData.brand = data.brand;
   if (data.model) cleanData.model = data.model;
   if (data.year) cleanData.year = data.year;
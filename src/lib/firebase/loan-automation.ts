@@ -6,18 +6,22 @@
 import { collection, getDocs, query, where, updateDoc, doc, serverTimestamp, Timestamp } from 'firebase/firestore';
 import { db } from './config';
 import { createAuditLog } from './firestore-helpers';
-import { getLateFeeConfig, DEFAULT_LOAN_SETTINGS } from './loan-settings';
-
-interface LateFeeConfig {
-  gracePeriodDays: number; // Days before late fees start
-  lateFeeRate: number; // Percentage of overdue amount per month
-  maxLateFeeRate: number; // Maximum late fee percentage
-}
+import { getLateFeeConfig, getScheduleCalendarConfig, DEFAULT_LOAN_SETTINGS } from './loan-settings';
+import { calculateLoanSchedule, type LoanScheduleOptions } from './loan-calculations';
+import { syncLoanStatus } from './repayment-helpers';
+import { approveLoan, rejectLoan } from '../loans/workflow';
+import { runCreditDecision } from '../loans/credit-decision';
+import { UserRole } from '../../types/loan-workflow';
+import { calculateLateFee as calculateSharedLateFee, type LateFeeConfig } from '../../../packages/loan-rules/src/late-fees';
+import type { ParRatios } from '../../../packages/loan-rules/src/portfolio-analytics';
+import { getScheduledAmountPaid } from '../../../packages/loan-rules/src/allocation';
+import { getLatestPortfolioSnapshot } from '../analytics/portfolio-analytics';
 
 const DEFAULT_LATE_FEE_CONFIG: LateFeeConfig = {
   gracePeriodDays: DEFAULT_LOAN_SETTINGS.gracePeriodDays,
   lateFeeRate: DEFAULT_LOAN_SETTINGS.lateFeeRate,
   maxLateFeeRate: DEFAULT_LOAN_SETTINGS.maxLateFeeRate,
+  dayCountConvention: DEFAULT_LOAN_SETTINGS.dayCountConvention,
 };
 
 /**
@@ -26,17 +30,10 @@ const DEFAULT_LATE_FEE_CONFIG: LateFeeConfig = {
 export function calculateLateFee(
   overdueAmount: number,
   daysOverdue: number,
-  config: LateFeeConfig = DEFAULT_LATE_FEE_CONFIG
+  config: LateFeeConfig = DEFAULT_LATE_FEE_CONFIG,
+  dueDate?: Date
 ): number {
-  if (daysOverdue <= config.gracePeriodDays) {
-    return 0;
-  }
-
-  const effectiveDaysOverdue = daysOverdue - config.gracePeriodDays;
-  const monthsOverdue = effectiveDaysOverdue / 30;
-  const feeRate = Math.min(config.lateFeeRate * monthsOverdue, config.maxLateFeeRate / 100);
-  
-  return Math.round(overdueAmount * feeRate * 100) / 100;
+  return calculateSharedLateFee(overdueAmount, daysOverdue, config, dueDate);
 }
 
 /**
@@ -52,17 +49,17 @@ export async function updateRepaymentStatus(
   const dueDate = repayment.dueDate?.toDate?.() || new Date(repayment.dueDate);
   
   // If already paid, no update needed
-  if (repayment.status === 'paid' || repayment.amountPaid >= repayment.amountDue) {
+  if (repayment.status === 'paid' || getScheduledAmountPaid(repayment) >= repayment.amountDue) {
     return { updated: false };
   }
 
   // Check if overdue
   if (dueDate < now && repayment.status === 'pending') {
     const daysOverdue = Math.floor((now.getTime() - dueDate.getTime()) / (1000 * 60 * 60 * 24));
-    const overdueAmount = repayment.amountDue - (repayment.amountPaid || 0);
+    const overdueAmount = repayment.amountDue - getScheduledAmountPaid(repayment);
     // Get late fee config from agency settings
     const lateFeeConfig = await getLateFeeConfig(agencyId);
-    const lateFee = calculateLateFee(overdueAmount, daysOverdue, lateFeeConfig);
+    const lateFee = calculateLateFee(overdueAmount, daysOverdue, lateFeeConfig, dueDate);
 
     const repaymentRef = doc(
       db,
@@ -142,133 +139,60 @@ export async function updateLoanRepayments(agencyId: string, loanId: string): Pr
 
 /**
  * Update loan status based on repayment status
+ * The status is derived server-side from the repayment schedule
  */
 export async function updateLoanStatus(agencyId: string, loanId: string): Promise<{
   statusChanged: boolean;
   newStatus?: string;
 }> {
-  const loanRef = doc(db, 'agencies', agencyId, 'loans', loanId);
-  const { getDoc, updateDoc } = await import('firebase/firestore');
-  const loanDoc = await getDoc(loanRef);
-  
-  if (!loanDoc.exists()) {
+  const sync = await syncLoanStatus(agencyId, loanId);
+  if (!sync.success || !sync.changed) {
     return { statusChanged: false };
   }
 
-  const loan = loanDoc.data();
-  const repaymentsRef = collection(
-    db,
-    'agencies',
-    agencyId,
-    'loans',
-    loanId,
-    'repayments'
-  );
-  
-  const repaymentsSnapshot = await getDocs(repaymentsRef);
-  const repayments = repaymentsSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
-
-  // Check all repayments
-  let allPaid = true;
-  let hasOverdue = false;
-  let hasPending = false;
-  let totalPaid = 0;
-  let totalDue = 0;
-
-  for (const repayment of repayments) {
-    totalDue += Number(repayment.amountDue || 0);
-    totalPaid += Number(repayment.amountPaid || 0);
-    
-    if (repayment.status === 'overdue') {
-      hasOverdue = true;
-      allPaid = false;
-    } else if (repayment.status === 'pending') {
-      hasPending = true;
-      allPaid = false;
-    } else if (repayment.status !== 'paid') {
-      allPaid = false;
-    }
-  }
-
-  let newStatus = loan.status;
-
-  // Determine new status
-  if (allPaid && totalPaid >= totalDue) {
-    newStatus = 'completed';
-  } else if (hasOverdue) {
-    // Check if multiple repayments are overdue (defaulted)
-    const overdueCount = repayments.filter((r: any) => r.status === 'overdue').length;
-    if (overdueCount >= 3 || (overdueCount > 0 && hasOverdue && !hasPending)) {
-      newStatus = 'defaulted';
-    } else if (loan.status !== 'active') {
-      newStatus = 'active';
-    }
-  } else if (loan.status === 'pending' && repayments.length > 0) {
-    newStatus = 'active';
-  }
-
-  // Update loan status if changed
-  if (newStatus !== loan.status) {
-    await updateDoc(loanRef, {
-      status: newStatus,
-      updatedAt: serverTimestamp(),
-      statusUpdatedAt: serverTimestamp(),
-    });
-
-    // Create audit log
-    createAuditLog(agencyId, {
-      actorId: 'system',
-      action: 'loan_status_auto_update',
-      targetCollection: 'loans',
-      targetId: loanId,
-      metadata: {
-        oldStatus: loan.status,
-        newStatus,
-        reason: allPaid ? 'all_repayments_completed' : hasOverdue ? 'overdue_repayments' : 'status_change',
-      },
-    }).catch(() => {
-      // Ignore audit log errors
-    });
-
-    // Send email notification if status changed to overdue
-    if (newStatus === 'overdue' || (hasOverdue && newStatus !== 'defaulted')) {
-      try {
-        const customerRef = doc(db, 'agencies', agencyId, 'customers', loan.customerId);
-        const customerSnap = await getDoc(customerRef);
-        if (customerSnap.exists()) {
-          const customer = customerSnap.data();
-          const overdueAmount = repayments
-            .filter((r: any) => r.status === 'overdue')
-            .reduce((sum: number, r: any) => sum + Number(r.amountDue || 0), 0);
-          
-          // Trigger email via Cloud Function
-          const { getFunctions, httpsCallable } = await import('firebase/functions');
-          const functions = getFunctions();
-          const sendLoanEmail = httpsCallable(functions, 'sendLoanEmail');
-          await sendLoanEmail({
-            agencyId,
-            loanId,
-            customerId: loan.customerId,
-            customerEmail: customer.email,
-            templateType: 'loan_overdue',
-            data: {
-              loanNumber: loan.loanNumber || loanId,
-              customerName: customer.fullName || customer.name,
-              overdueAmount,
-            },
-          }).catch((err) => {
-            console.error('Failed to send overdue email:', err);
-          });
-        }
-      } catch (error) {
-        console.error('Error sending overdue email notification:', error);
+  const newStatus = sync.status;
+
+  // Send email notification if status changed to overdue
+  if (newStatus === 'overdue') {
+    try {
+      const { getDoc } = await import('firebase/firestore');
+      const loanSnap = await getDoc(doc(db, 'agencies', agencyId, 'loans', loanId));
+      const loan = loanSnap.data();
+      const customerRef = loan?.customerId ? doc(db, 'agencies', agencyId, 'customers', loan.customerId) : null;
+      const customerSnap = customerRef ? await getDoc(customerRef) : null;
+      if (loan && customerSnap?.exists()) {
+        const customer = customerSnap.data();
+        const repaymentsSnapshot = await getDocs(
+          query(collection(db, 'agencies', agencyId, 'loans', loanId, 'repayments'), where('status', '==', 'overdue'))
+        );
+        const overdueAmount = repaymentsSnapshot.docs
+          .reduce((sum: number, r) => sum + Number(r.data().amountDue || 0), 0);
+        
+        // Trigger email via Cloud Function
+        const { getFunctions, httpsCallable } = await import('firebase/functions');
+        const functions = getFunctions();
+        const sendLoanEmail = httpsCallable(functions, 'sendLoanEmail');
+        await sendLoanEmail({
+          agencyId,
+          loanId,
+          customerId: loan.customerId,
+          customerEmail: customer.email,
+          templateType: 'loan_overdue',
+          data: {
+            loanNumber: loan.loanNumber || loanId,
+            customerName: customer.fullName || customer.name,
+            overdueAmount,
+          },
+        }).catch((err) => {
+          console.error('Failed to send overdue email:', err);
+        });
       }
+    } catch (error) {
+      console.error('Error sending overdue email notification:', error);
     }
-
-    return { statusChanged: true, newStatus };
   }
 
-  return { statusChanged: false };
+  return { statusChanged: true, newStatus };
 }
 
 /**
@@ -281,7 +205,7 @@ export async function processAllLoans(agencyId: string): Promise<{
   totalLateFees: number;
 }> {
   const loansRef = collection(db, 'agencies', agencyId, 'loans');
-  const activeLoansQuery = query(loansRef, where('status', 'in', ['active', 'pending']));
+  const activeLoansQuery = query(loansRef, where('status', 'in', ['active', 'pending', 'restructured']));
   const snapshot = await getDocs(activeLoansQuery);
 
   let loansProcessed = 0;
@@ -308,13 +232,15 @@ export async function processAllLoans(agencyId: string): Promise<{
 }
 
 /**
- * Get overdue repayments summary
+ * Get overdue repayments summary, with the balance-weighted PAR of the latest
+ * daily portfolio snapshot
  */
 export async function getOverdueSummary(agencyId: string): Promise<{
   overdueCount: number;
   totalOverdueAmount: number;
   totalLateFees: number;
   loansAtRisk: number;
+  portfolioAtRisk: ParRatios | null;
 }> {
   const loansRef = collection(db, 'agencies', agencyId, 'loans');
   const activeLoansQuery = query(loansRef, where('status', 'in', ['active', 'defaulted']));
@@ -346,7 +272,7 @@ export async function getOverdueSummary(agencyId: string): Promise<{
     for (const repayment of repayments) {
       if (repayment.status === 'overdue') {
         loanHasOverdue = true;
-        const overdueAmount = Number(repayment.amountDue || 0) - Number(repayment.amountPaid || 0);
+        const overdueAmount = Number(repayment.amountDue || 0) - getScheduledAmountPaid(repayment);
         loanOverdueAmount += overdueAmount;
         loanLateFees += Number(repayment.lateFee || 0);
         overdueCount++;
@@ -360,11 +286,14 @@ export async function getOverdueSummary(agencyId: string): Promise<{
     }
   }
 
+  const latestSnapshot = await getLatestPortfolioSnapshot(agencyId);
+
   return {
     overdueCount,
     totalOverdueAmount,
     totalLateFees,
     loansAtRisk,
+    portfolioAtRisk: latestSnapshot?.par || null,
   };
 }
 
@@ -377,11 +306,16 @@ export async function generatePaymentSchedule(
   principal: number,
   interestRate: number,
   durationMonths: number,
-  startDate: Date
+  startDate: Date,
+  options: LoanScheduleOptions = {}
 ): Promise<void> {
-  const monthlyRate = interestRate / 100 / 12;
-  const monthlyPayment = principal * (monthlyRate * Math.pow(1 + monthlyRate, durationMonths)) / 
-    (Math.pow(1 + monthlyRate, durationMonths) - 1);
+  // Fall back to the agency's day-count and holiday calendar when the caller doesn't pass one
+  const calendarConfig = options.dayCount && options.calendar ? null : await getScheduleCalendarConfig(agencyId);
+  const schedule = calculateLoanSchedule(principal, interestRate, durationMonths, startDate, {
+    ...options,
+    dayCount: options.dayCount || calendarConfig?.dayCount,
+    calendar: options.calendar || calendarConfig?.calendar,
+  });
 
   const repaymentsRef = collection(
     db,
@@ -393,22 +327,20 @@ export async function generatePaymentSchedule(
   );
 
   const { addDoc } = await import('firebase/firestore');
-  let remainingBalance = principal;
-
-  for (let i = 0; i < durationMonths; i++) {
-    const dueDate = new Date(startDate);
-    dueDate.setMonth(dueDate.getMonth() + i + 1);
-
-    const interestPayment = remainingBalance * monthlyRate;
-    const principalPayment = monthlyPayment - interestPayment;
-    remainingBalance -= principalPayment;
 
+  for (const installment of schedule.installments) {
     await addDoc(repaymentsRef, {
-      month: i + 1,
-      dueDate: Timestamp.fromDate(dueDate),
-      amountDue: Math.round(monthlyPayment * 100) / 100,
-      principalDue: Math.round(principalPayment * 100) / 100,
-      interestDue: Math.round(interestPayment * 100) / 100,
+      month: installment.installmentNumber, // Kept for screens that still read the legacy field
+      installmentNumber: installment.installmentNumber,
+      dueDate: Timestamp.fromDate(installment.dueDate),
+      amountDue: installment.amountDue,
+      principalDue: installment.principalDue,
+      interestDue: installment.interestDue,
+      feeDue: installment.feeDue,
+      openingBalance: installment.openingBalance,
+      closingBalance: installment.closingBalance,
+      interestCalculationMethod: schedule.method,
+      repaymentFrequency: schedule.frequency,
       amountPaid: 0,
       status: 'pending',
       createdAt: serverTimestamp(),
@@ -531,20 +463,20 @@ export async function detectDefaults(agencyId: string): Promise<{
     });
 
     if (overdueRepayments.length >= 3) {
-      // Critical - mark as defaulted
-      const loanRef = doc(db, 'agencies', agencyId, 'loans', loanId);
-      await updateDoc(loanRef, {
-        status: 'defaulted',
-        defaultedAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
-      });
-      defaultsDetected++;
+      // Critical - the server marks the loan defaulted once the installments are flagged overdue
+      const sync = await syncLoanStatus(agencyId, loanId);
+      const defaulted = sync.success && sync.status === 'defaulted';
+      if (defaulted) {
+        defaultsDetected++;
+      }
       
       atRiskLoans.push({
         loanId,
         customerId: loan.customerId,
         riskLevel: 'critical',
-        reason: `${overdueRepayments.length} overdue repayments - AUTO-DEFAULTED`,
+        reason: defaulted
+          ? `${overdueRepayments.length} overdue repayments - AUTO-DEFAULTED`
+          : `${overdueRepayments.length} overdue repayments - Default imminent`,
       });
     } else if (overdueRepayments.length >= 2) {
       // High risk
@@ -666,7 +598,7 @@ export async function analyzeLoanAgeing(agencyId: string): Promise<{
       const repayment = repaymentDoc.data();
       const dueDate = repayment.dueDate?.toDate?.() || new Date(repayment.dueDate);
       const daysOverdue = Math.floor((now.getTime() - dueDate.getTime()) / (1000 * 60 * 60 * 24));
-      const overdueAmount = Number(repayment.amountDue || 0) - Number(repayment.amountPaid || 0);
+      const overdueAmount = Number(repayment.amountDue || 0) - getScheduledAmountPaid(repayment);
 
       totalAgeingAmount += overdueAmount;
 
@@ -686,9 +618,15 @@ export async function analyzeLoanAgeing(agencyId: string): Promise<{
 }
 
 /**
- * Auto-approve/reject based on risk score
+ * Auto-approve/reject using the credit decision rules for each loan's type
+ * Decisions go through the loan workflow, so the state machine, the caller's
+ * role and the approval matrix all apply; referred loans are left for review
  */
-export async function autoApproveRejectLoans(agencyId: string): Promise<{
+export async function autoApproveRejectLoans(
+  agencyId: string,
+  userId: string,
+  userRole: UserRole
+): Promise<{
   approved: number;
   rejected: number;
   requiresReview: number;
@@ -702,50 +640,37 @@ export async function autoApproveRejectLoans(agencyId: string): Promise<{
   let requiresReview = 0;
 
   for (const loanDoc of loansSnapshot.docs) {
-    const loan = loanDoc.data();
     const loanId = loanDoc.id;
-    const riskScore = loan.riskScore || 50; // Default to medium if not set
+    const { success, decision } = await runCreditDecision(agencyId, loanId);
 
-    const loanRef = doc(db, 'agencies', agencyId, 'loans', loanId);
-    let newStatus: string | null = null;
-
-    // Auto-approve very low risk (score < 25)
-    if (riskScore < 25) {
-      newStatus = 'approved';
-      approved++;
-    }
-    // Auto-reject very high risk (score >= 75)
-    else if (riskScore >= 75) {
-      newStatus = 'rejected';
-      rejected++;
-    } else {
+    if (!success || !decision || decision.outcome === 'refer') {
       requiresReview++;
       continue; // Requires manual review
     }
 
-    if (newStatus) {
-      await updateDoc(loanRef, {
-        status: newStatus,
-        updatedAt: serverTimestamp(),
-        autoProcessedAt: serverTimestamp(),
-        autoProcessedReason: riskScore < 25 ? 'auto_approved_low_risk' : 'auto_rejected_high_risk',
-      });
+    const reasons = decision.hits.map((hit) => hit.reason).join('; ');
+    const result = decision.outcome === 'approve'
+      ? await approveLoan(loanId, agencyId, userId, userRole, 'Auto-approved: no credit decision rules hit')
+      : await rejectLoan(loanId, agencyId, userId, userRole, `Auto-declined: ${reasons}`);
+
+    // Refused transitions and approvals still awaiting signatures need a person
+    if (!result.success || result.awaitingApprovals) {
+      requiresReview++;
+      continue;
+    }
 
-      // Create audit log
-      createAuditLog(agencyId, {
-        actorId: 'system',
-        action: `loan_${newStatus}`,
-        targetCollection: 'loans',
-        targetId: loanId,
-        metadata: {
-          autoProcessed: true,
-          riskScore,
-          reason: riskScore < 25 ? 'Auto-approved: Very low risk profile' : 'Auto-rejected: Very high risk profile',
-        },
-      }).catch(() => {});
+    if (decision.outcome === 'approve') {
+      approved++;
+    } else {
+      rejected++;
     }
+
+    await updateDoc(doc(db, 'agencies', agencyId, 'loans', loanId), {
+      updatedAt: serverTimestamp(),
+      autoProcessedAt: serverTimestamp(),
+      autoProcessedReason: decision.outcome === 'approve' ? 'auto_approved_rules' : 'auto_declined_rules',
+    });
   }
 
   return { approved, rejected, requiresReview };
 }
-
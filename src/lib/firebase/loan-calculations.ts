@@ -3,51 +3,114 @@
  * Handles interest, profit, and financial calculations
  */
 
+import {
+  buildAmortizationSchedule,
+  DEFAULT_INTEREST_METHOD,
+  DEFAULT_REPAYMENT_FREQUENCY,
+  type AmortizationSchedule,
+  type InterestCalculationMethod,
+  type RepaymentFrequency,
+  type ScheduleFees,
+} from '../../../packages/loan-rules/src/schedule';
+import type { BusinessCalendar, DayCountConvention } from '../../../packages/loan-rules/src/calendar';
+
 export interface LoanFinancials {
   principal: number;
   interestRate: number;
   totalInterest: number;
+  totalFees: number;
   totalAmount: number;
-  monthlyPayment: number;
+  installmentAmount: number;
+  numberOfInstallments: number;
+  monthlyPayment: number; // Monthly equivalent of the installment amount
   totalProfit: number;
   profitMargin: number;
 }
 
+export interface LoanScheduleOptions {
+  method?: InterestCalculationMethod;
+  frequency?: RepaymentFrequency;
+  customIntervalDays?: number;
+  fees?: ScheduleFees;
+  dayCount?: DayCountConvention;
+  calendar?: BusinessCalendar;
+}
+
+/**
+ * Read schedule options stored on a loan document
+ * Loans created before methods were recorded fall back to the agency's configured
+ * method, so their totals stay as they were priced
+ */
+export function getLoanScheduleOptions(loan: any, agencyMethod?: InterestCalculationMethod): LoanScheduleOptions {
+  return {
+    method: loan?.interestCalculationMethod || loan?.interest_calculation_method || agencyMethod || DEFAULT_INTEREST_METHOD,
+    frequency: loan?.repaymentFrequency || loan?.repayment_frequency || DEFAULT_REPAYMENT_FREQUENCY,
+    customIntervalDays: loan?.customIntervalDays || undefined,
+  };
+}
+
+/**
+ * Build the full installment schedule for a loan
+ */
+export function calculateLoanSchedule(
+  principal: number,
+  interestRate: number,
+  durationMonths: number,
+  startDate: Date = new Date(),
+  options: LoanScheduleOptions = {}
+): AmortizationSchedule {
+  return buildAmortizationSchedule({
+    principal,
+    annualRate: interestRate,
+    durationMonths,
+    startDate,
+    method: options.method,
+    frequency: options.frequency,
+    customIntervalDays: options.customIntervalDays,
+    fees: options.fees,
+    dayCount: options.dayCount,
+    calendar: options.calendar,
+  });
+}
+
 /**
  * Calculate loan financials
+ * Totals come from the same schedule that is written to the repayments subcollection
  */
 export function calculateLoanFinancials(
   principal: number,
   interestRate: number,
-  durationMonths: number
+  durationMonths: number,
+  options: LoanScheduleOptions = {}
 ): LoanFinancials {
-  // Ensure interestRate is treated as a percentage (e.g., 12 means 12%, not 0.12)
-  // If rate is already in decimal form (0.12), convert it
-  const normalizedRate = interestRate > 1 ? interestRate : interestRate * 100;
-  
-  const monthlyRate = normalizedRate / 100 / 12;
-  // Calculate total interest: Principal * Annual Rate * Years
-  // Example: 10,000 * 0.12 * 1 = 1,200 (for 12% annual rate over 1 year)
-  const totalInterest = principal * (normalizedRate / 100) * (durationMonths / 12);
-  const totalAmount = principal + totalInterest;
-  
-  // Calculate monthly payment using amortization formula
-  let monthlyPayment = 0;
-  if (monthlyRate > 0) {
-    monthlyPayment = principal * (monthlyRate * Math.pow(1 + monthlyRate, durationMonths)) / 
-                     (Math.pow(1 + monthlyRate, durationMonths) - 1);
-  } else {
-    monthlyPayment = principal / durationMonths;
+  if (!principal || principal <= 0 || !durationMonths || durationMonths <= 0) {
+    return {
+      principal,
+      interestRate,
+      totalInterest: 0,
+      totalFees: 0,
+      totalAmount: principal || 0,
+      installmentAmount: 0,
+      numberOfInstallments: 0,
+      monthlyPayment: 0,
+      totalProfit: 0,
+      profitMargin: 0,
+    };
   }
-  
-  const totalProfit = totalInterest;
+
+  const schedule = calculateLoanSchedule(principal, interestRate, durationMonths, new Date(), options);
+  const monthlyPayment = (schedule.installmentAmount * schedule.periodsPerYear) / 12;
+  const totalProfit = schedule.totalInterest + schedule.totalFees;
   const profitMargin = (totalProfit / principal) * 100;
-  
+
   return {
     principal,
     interestRate,
-    totalInterest,
-    totalAmount,
+    totalInterest: schedule.totalInterest,
+    totalFees: schedule.totalFees,
+    totalAmount: schedule.totalAmount,
+    installmentAmount: schedule.installmentAmount,
+    numberOfInstallments: schedule.numberOfInstallments,
     monthlyPayment: Math.round(monthlyPayment * 100) / 100,
     totalProfit: Math.round(totalProfit * 100) / 100,
     profitMargin: Math.round(profitMargin * 100) / 100,
@@ -6,6 +6,19 @@
 import { doc, getDoc } from 'firebase/firestore';
 import { db } from './config';
 import { isDemoMode } from './config';
+import type { InterestCalculationMethod } from '../../types/loan-config';
+import {
+  DEFAULT_BUSINESS_CALENDAR,
+  DEFAULT_DAY_COUNT_CONVENTION,
+  type BusinessCalendar,
+  type BusinessDayRoll,
+  type DayCountConvention,
+} from '../../../packages/loan-rules/src/calendar';
+import {
+  DEFAULT_SETTLEMENT_REBATE,
+  type SettlementRebateConfig,
+  type SettlementRebateMethod,
+} from '../../../packages/loan-rules/src/settlement';
 
 export interface LoanSettings {
   defaultInterestRate: number;
@@ -15,7 +28,14 @@ export interface LoanSettings {
   minLoanAmount: number;
   maxLoanAmount: number;
   defaultLoanDuration: number;
-  interestCalculationMethod: 'simple' | 'compound';
+  interestCalculationMethod: InterestCalculationMethod;
+  dayCountConvention: DayCountConvention;
+  businessDayRoll: BusinessDayRoll;
+  weekendDays: number[];
+  holidays: string[]; // Agency closures as YYYY-MM-DD
+  includeNationalHolidays: boolean;
+  settlementRebateMethod: SettlementRebateMethod;
+  earlySettlementPenaltyRate: number; // Percentage of principal settled early
   updatedAt?: any;
 }
 
@@ -28,6 +48,13 @@ export const DEFAULT_LOAN_SETTINGS: LoanSettings = {
   maxLoanAmount: 1000000,
   defaultLoanDuration: 12,
   interestCalculationMethod: 'simple',
+  dayCountConvention: DEFAULT_DAY_COUNT_CONVENTION,
+  businessDayRoll: DEFAULT_BUSINESS_CALENDAR.roll,
+  weekendDays: DEFAULT_BUSINESS_CALENDAR.weekendDays,
+  holidays: DEFAULT_BUSINESS_CALENDAR.holidays,
+  includeNationalHolidays: DEFAULT_BUSINESS_CALENDAR.includeNationalHolidays,
+  settlementRebateMethod: DEFAULT_SETTLEMENT_REBATE.method,
+  earlySettlementPenaltyRate: DEFAULT_SETTLEMENT_REBATE.penaltyRate,
 };
 
 /**
@@ -57,6 +84,13 @@ export async function getLoanSettings(agencyId: string): Promise<LoanSettings> {
           maxLoanAmount: loanSettings.maxLoanAmount ?? DEFAULT_LOAN_SETTINGS.maxLoanAmount,
           defaultLoanDuration: loanSettings.defaultLoanDuration ?? DEFAULT_LOAN_SETTINGS.defaultLoanDuration,
           interestCalculationMethod: loanSettings.interestCalculationMethod ?? DEFAULT_LOAN_SETTINGS.interestCalculationMethod,
+          dayCountConvention: loanSettings.dayCountConvention ?? DEFAULT_LOAN_SETTINGS.dayCountConvention,
+          businessDayRoll: loanSettings.businessDayRoll ?? DEFAULT_LOAN_SETTINGS.businessDayRoll,
+          weekendDays: loanSettings.weekendDays ?? DEFAULT_LOAN_SETTINGS.weekendDays,
+          holidays: loanSettings.holidays ?? DEFAULT_LOAN_SETTINGS.holidays,
+          includeNationalHolidays: loanSettings.includeNationalHolidays ?? DEFAULT_LOAN_SETTINGS.includeNationalHolidays,
+          settlementRebateMethod: loanSettings.settlementRebateMethod ?? DEFAULT_LOAN_SETTINGS.settlementRebateMethod,
+          earlySettlementPenaltyRate: loanSettings.earlySettlementPenaltyRate ?? DEFAULT_LOAN_SETTINGS.earlySettlementPenaltyRate,
           updatedAt: loanSettings.updatedAt,
         };
       }
@@ -77,6 +111,50 @@ export async function getLateFeeConfig(agencyId: string) {
     gracePeriodDays: settings.gracePeriodDays,
     lateFeeRate: settings.lateFeeRate,
     maxLateFeeRate: settings.maxLateFeeRate,
+    dayCountConvention: settings.dayCountConvention,
+  };
+}
+
+/**
+ * Get the interest method an agency prices loans with, for loans that do not record their own
+ */
+export function getAgencyInterestMethod(agency: any): InterestCalculationMethod {
+  return agency?.settings?.loanSettings?.interestCalculationMethod || DEFAULT_LOAN_SETTINGS.interestCalculationMethod;
+}
+
+/**
+ * Get the business calendar used to roll due dates
+ */
+export function getBusinessCalendar(settings: LoanSettings): BusinessCalendar {
+  return {
+    roll: settings.businessDayRoll,
+    weekendDays: settings.weekendDays,
+    holidays: settings.holidays,
+    includeNationalHolidays: settings.includeNationalHolidays,
+  };
+}
+
+/**
+ * Get the interest rebate rule applied to early settlements
+ */
+export function getSettlementRebateConfig(settings: LoanSettings): SettlementRebateConfig {
+  return {
+    method: settings.settlementRebateMethod,
+    penaltyRate: settings.earlySettlementPenaltyRate,
+  };
+}
+
+/**
+ * Get day-count and calendar settings for schedule generation
+ */
+export async function getScheduleCalendarConfig(agencyId: string): Promise<{
+  dayCount: DayCountConvention;
+  calendar: BusinessCalendar;
+}> {
+  const settings = await getLoanSettings(agencyId);
+  return {
+    dayCount: settings.dayCountConvention,
+    calendar: getBusinessCalendar(settings),
   };
 }
 
@@ -4,6 +4,9 @@ import { db } from './config';
 import { isDemoMode } from './config';
 import { Timestamp } from 'firebase/firestore';
 import { validateLoanEligibility } from './loan-validation';
+import { calculateLoanSchedule } from './loan-calculations';
+import { getScheduleCalendarConfig } from './loan-settings';
+import type { InterestCalculationMethod, RepaymentFrequency } from '../../types/loan-config';
 
 interface CreateLoanTransactionData {
   agencyId: string;
@@ -15,6 +18,8 @@ interface CreateLoanTransactionData {
   loanType: string;
   disbursementDate?: Date;
   collateralIncluded?: boolean;
+  interestCalculationMethod?: InterestCalculationMethod;
+  repaymentFrequency?: RepaymentFrequency;
 }
 
 /**
@@ -92,6 +97,8 @@ export async function createLoanTransaction(
       });
     }
 
+    const calendarConfig = await getScheduleCalendarConfig(agencyId);
+
     const result = await runTransaction(db, async (transaction) => {
       // Generate loan ID
       const loanId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
@@ -113,6 +120,20 @@ export async function createLoanTransaction(
         throw new Error('User not found');
       }
 
+      // Build the repayment schedule up front so the loan records its method and frequency
+      const schedule = calculateLoanSchedule(
+        data.amount,
+        data.interestRate,
+        data.durationMonths,
+        data.disbursementDate || new Date(),
+        {
+          method: data.interestCalculationMethod,
+          frequency: data.repaymentFrequency,
+          dayCount: calendarConfig.dayCount,
+          calendar: calendarConfig.calendar,
+        }
+      );
+
       // Create loan document with DRAFT status (new workflow)
       transaction.set(loanRef, {
         id: loanId,
@@ -121,6 +142,8 @@ export async function createLoanTransaction(
         amount: data.amount,
         interestRate: data.interestRate,
         durationMonths: data.durationMonths,
+        interestCalculationMethod: schedule.method,
+        repaymentFrequency: schedule.frequency,
         loanType: data.loanType,
         status: 'draft', // Start in draft status - must be submitted
         disbursementDate: data.disbursementDate
@@ -133,23 +156,8 @@ export async function createLoanTransaction(
       });
 
       // Create initial repayment schedule
-      const monthlyRate = data.interestRate / 100 / 12;
-      const monthlyPayment =
-        (data.amount * monthlyRate * Math.pow(1 + monthlyRate, data.durationMonths)) /
-        (Math.pow(1 + monthlyRate, data.durationMonths) - 1);
-
-      let remainingBalance = data.amount;
-      const startDate = data.disbursementDate || new Date();
-
-      for (let i = 0; i < data.durationMonths; i++) {
-        const dueDate = new Date(startDate);
-        dueDate.setMonth(dueDate.getMonth() + i + 1);
-
-        const interestPayment = remainingBalance * monthlyRate;
-        const principalPayment = monthlyPayment - interestPayment;
-        remainingBalance -= principalPayment;
-
-        const repaymentId = `${loanId}-repayment-${i + 1}`;
+      for (const installment of schedule.installments) {
+        const repaymentId = `${loanId}-repayment-${installment.installmentNumber}`;
         const repaymentRef = doc(
           db,
           'agencies',
@@ -163,8 +171,12 @@ export async function createLoanTransaction(
         transaction.set(repaymentRef, {
           id: repaymentId,
           loanId: loanId,
-          dueDate: Timestamp.fromDate(dueDate),
-          amountDue: monthlyPayment,
+          installmentNumber: installment.installmentNumber,
+          dueDate: Timestamp.fromDate(installment.dueDate),
+          amountDue: installment.amountDue,
+          principalDue: installment.principalDue,
+          interestDue: installment.interestDue,
+          feeDue: installment.feeDue,
           amountPaid: 0,
           paidAt: null,
           status: 'pending',
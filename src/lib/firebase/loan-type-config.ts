@@ -23,6 +23,10 @@ import type {
   LoanStep,
   LoanTypeRules
 } from '../../types/loan-config';
+import {
+  resolvePaymentAllocationConfig,
+  type PaymentAllocationConfig,
+} from '../../../packages/loan-rules/src/allocation';
 
 /**
  * Default loan type templates
@@ -1125,6 +1129,27 @@ export async function getLoanTypeConfig(
   return config.loanTypes[loanTypeId] || null;
 }
 
+/**
+ * Get the payment allocation waterfall for a loan type
+ * Falls back to fees → penalties → interest → principal with reduce-term prepayment
+ */
+export async function getPaymentAllocationConfig(
+  agencyId: string,
+  loanTypeId?: LoanTypeId | string | null
+): Promise<PaymentAllocationConfig> {
+  if (!loanTypeId) {
+    return resolvePaymentAllocationConfig();
+  }
+
+  try {
+    const loanTypeConfig = await getLoanTypeConfig(agencyId, loanTypeId as LoanTypeId);
+    return resolvePaymentAllocationConfig(loanTypeConfig?.paymentAllocation);
+  } catch (error) {
+    console.warn('Failed to load payment allocation config, using defaults:', error);
+    return resolvePaymentAllocationConfig();
+  }
+}
+
 /**
  * Get loan type template by ID
  */
@@ -0,0 +1,244 @@
+/**
+ * Collateral Price Book
+ *
+ * The agency's versioned reference prices for vehicles, land and equipment.
+ * A version is drafted by hand or imported from a spreadsheet, published with
+ * the date it takes effect from, and left unchanged afterwards so valuations
+ * taken from it can be reproduced. estimateCollateralPrice and the
+ * estimateCollateralValue function price from the version in effect before
+ * falling back to AI or rule-based estimates.
+ */
+
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  serverTimestamp,
+  updateDoc,
+} from 'firebase/firestore';
+import * as XLSX from 'xlsx';
+import { db } from './config';
+import { createAuditLog } from './firestore-helpers';
+import {
+  createEmptyPriceBookEntries,
+  DEFAULT_CONDITION_MULTIPLIERS,
+  DEFAULT_LOCATION_MULTIPLIERS,
+  getEffectivePriceBook,
+  parsePriceBookRows,
+  resolvePriceBookVersion,
+  validatePriceBookEntries,
+  type PriceBookEntries,
+  type PriceBookImportError,
+  type PriceBookVersion,
+} from '../../../packages/loan-rules/src/price-book';
+
+export type { PriceBookEntries, PriceBookImportError, PriceBookVersion };
+
+export interface PriceBookVersionRecord extends PriceBookVersion {
+  source: 'manual' | 'import';
+  importFileName?: string;
+  createdBy: string;
+  createdAt?: Date;
+  publishedBy?: string;
+  publishedAt?: Date;
+}
+
+function toVersion(id: string, data: any): PriceBookVersionRecord {
+  return {
+    ...resolvePriceBookVersion(id, data),
+    source: data.source || 'manual',
+    importFileName: data.importFileName,
+    createdBy: data.createdBy,
+    createdAt: data.createdAt?.toDate?.() || data.createdAt,
+    publishedBy: data.publishedBy,
+    publishedAt: data.publishedAt?.toDate?.() || data.publishedAt,
+  };
+}
+
+/**
+ * All versions of the agency's price book, newest first
+ */
+export async function getPriceBookVersions(agencyId: string): Promise<PriceBookVersionRecord[]> {
+  const snapshot = await getDocs(collection(db, 'agencies', agencyId, 'price_book_versions'));
+  return snapshot.docs
+    .map((versionDoc) => toVersion(versionDoc.id, versionDoc.data()))
+    .sort((a, b) => b.version - a.version);
+}
+
+/**
+ * The published version in effect on a date, if any
+ */
+export async function getEffectivePriceBookVersion(agencyId: string, asOf: Date = new Date()): Promise<PriceBookVersionRecord | null> {
+  const versions = await getPriceBookVersions(agencyId);
+  return (getEffectivePriceBook(versions, asOf) as PriceBookVersionRecord | null) || null;
+}
+
+/**
+ * Read price book entries from an Excel or CSV file
+ */
+export function parsePriceBookFile(file: File): Promise<{ entries: PriceBookEntries; errors: PriceBookImportError[] }> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const data = new Uint8Array(e.target?.result as ArrayBuffer);
+        const workbook = XLSX.read(data, { type: 'array' });
+        const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+        const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(worksheet, { defval: '' }).map((row) =>
+          Object.fromEntries(Object.entries(row).map(([header, value]) => [header.trim().toLowerCase(), value]))
+        );
+        resolve(parsePriceBookRows(rows));
+      } catch (error) {
+        reject(error);
+      }
+    };
+    reader.onerror = () => reject(new Error('Failed to read file'));
+    reader.readAsArrayBuffer(file);
+  });
+}
+
+/**
+ * Start a draft version, from imported entries or a copy of the version in effect
+ */
+export async function createPriceBookDraft(params: {
+  agencyId: string;
+  effectiveFrom: string;
+  entries?: PriceBookEntries;
+  importFileName?: string;
+  createdBy: string;
+}): Promise<{ success: boolean; versionId?: string; error?: string }> {
+  const { agencyId, effectiveFrom, createdBy } = params;
+
+  try {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(effectiveFrom)) {
+      return { success: false, error: 'Choose the date the version takes effect from' };
+    }
+
+    const versions = await getPriceBookVersions(agencyId);
+    const current = getEffectivePriceBook(versions, new Date());
+    const version = (versions[0]?.version || 0) + 1;
+
+    const versionRef = await addDoc(collection(db, 'agencies', agencyId, 'price_book_versions'), {
+      version,
+      effectiveFrom,
+      status: 'draft',
+      entries: params.entries || current?.entries || createEmptyPriceBookEntries(),
+      conditionMultipliers: current?.conditionMultipliers || DEFAULT_CONDITION_MULTIPLIERS,
+      locationMultipliers: current?.locationMultipliers || DEFAULT_LOCATION_MULTIPLIERS,
+      source: params.entries ? 'import' : 'manual',
+      ...(params.importFileName ? { importFileName: params.importFileName } : {}),
+      createdBy,
+      createdAt: serverTimestamp(),
+    });
+
+    createAuditLog(agencyId, {
+      actorId: createdBy,
+      action: 'price_book_draft_created',
+      targetCollection: 'price_book_versions',
+      targetId: versionRef.id,
+      metadata: { version, effectiveFrom, importFileName: params.importFileName || null },
+    }).catch(() => {
+      // Ignore audit log errors
+    });
+
+    return { success: true, versionId: versionRef.id };
+  } catch (error: any) {
+    console.error('Error creating price book draft:', error);
+    return { success: false, error: error.message || 'Failed to create price book draft' };
+  }
+}
+
+/**
+ * Change a draft's entries, adjustments or effective date
+ */
+export async function updatePriceBookDraft(
+  agencyId: string,
+  versionId: string,
+  updates: Partial<Pick<PriceBookVersion, 'effectiveFrom' | 'entries' | 'conditionMultipliers' | 'locationMultipliers'>>
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const versionRef = doc(db, 'agencies', agencyId, 'price_book_versions', versionId);
+    const versionSnap = await getDoc(versionRef);
+    if (!versionSnap.exists() || versionSnap.data().status !== 'draft') {
+      return { success: false, error: 'Only draft versions can be changed' };
+    }
+
+    await updateDoc(versionRef, { ...updates, updatedAt: serverTimestamp() });
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error updating price book draft:', error);
+    return { success: false, error: error.message || 'Failed to update price book draft' };
+  }
+}
+
+/**
+ * Publish a draft; it is used for valuations from its effective date and can no longer be changed
+ */
+export async function publishPriceBookVersion(
+  agencyId: string,
+  versionId: string,
+  publishedBy: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const versionRef = doc(db, 'agencies', agencyId, 'price_book_versions', versionId);
+    const versionSnap = await getDoc(versionRef);
+    if (!versionSnap.exists() || versionSnap.data().status !== 'draft') {
+      return { success: false, error: 'Only draft versions can be published' };
+    }
+
+    const version = toVersion(versionId, versionSnap.data());
+    const problems = validatePriceBookEntries(version.entries);
+    if (problems.length > 0) {
+      return { success: false, error: problems.slice(0, 3).join('; ') };
+    }
+
+    await updateDoc(versionRef, {
+      status: 'published',
+      publishedBy,
+      publishedAt: serverTimestamp(),
+    });
+
+    createAuditLog(agencyId, {
+      actorId: publishedBy,
+      action: 'price_book_published',
+      targetCollection: 'price_book_versions',
+      targetId: versionId,
+      metadata: {
+        version: version.version,
+        effectiveFrom: version.effectiveFrom,
+        vehicles: version.entries.vehicles.length,
+        land: version.entries.land.length,
+        equipment: version.entries.equipment.length,
+      },
+    }).catch(() => {
+      // Ignore audit log errors
+    });
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error publishing price book version:', error);
+    return { success: false, error: error.message || 'Failed to publish price book version' };
+  }
+}
+
+/**
+ * Discard a draft that was never published
+ */
+export async function deletePriceBookDraft(agencyId: string, versionId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const versionRef = doc(db, 'agencies', agencyId, 'price_book_versions', versionId);
+    const versionSnap = await getDoc(versionRef);
+    if (!versionSnap.exists() || versionSnap.data().status !== 'draft') {
+      return { success: false, error: 'Only draft versions can be discarded' };
+    }
+
+    await deleteDoc(versionRef);
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error discarding price book draft:', error);
+    return { success: false, error: error.message || 'Failed to discard price book draft' };
+  }
+}
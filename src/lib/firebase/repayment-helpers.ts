@@ -15,8 +15,17 @@ import {
   serverTimestamp,
   Timestamp
 } from 'firebase/firestore';
-import { db } from './config';
-import { calculateLoanFinancials } from './loan-calculations';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from './config';
+import { calculateLoanFinancials, getLoanScheduleOptions } from './loan-calculations';
+import { getLoanSettings } from './loan-settings';
+import {
+  sumComponents,
+  getOutstandingComponents,
+  toAllocationInstallment,
+} from '../../../packages/loan-rules/src/allocation';
+
+export { toAllocationInstallment };
 
 export interface RepaymentUpdateResult {
   success: boolean;
@@ -29,9 +38,46 @@ export interface RepaymentUpdateResult {
   errors?: string[];
 }
 
+export interface LoanStatusSyncResult {
+  success: boolean;
+  error?: string;
+  previousStatus?: string;
+  status?: string;
+  changed?: boolean;
+}
+
+/**
+ * Re-derive a repaying loan's status (overdue, defaulted, settled) from its
+ * schedule. The status is computed server-side; clients cannot set it.
+ */
+export async function syncLoanStatus(agencyId: string, loanId: string): Promise<LoanStatusSyncResult> {
+  try {
+    const sync = httpsCallable<{ agencyId: string; loanId: string }, LoanStatusSyncResult>(
+      functions,
+      'syncLoanStatus'
+    );
+    const result = await sync({ agencyId, loanId });
+    return result.data;
+  } catch (error: any) {
+    console.error('Error syncing loan status:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to update loan status',
+    };
+  }
+}
+
+/**
+ * Amount still owed on a repayment, including uncollected late fees
+ */
+export function getRepaymentOutstanding(repayment: any): number {
+  return sumComponents(getOutstandingComponents(toAllocationInstallment(repayment)));
+}
+
 /**
  * Update loan summary after payment
- * Updates: remaining balance, total paid, upcoming due date, loan status
+ * Updates: remaining balance, total paid and its component split, upcoming due date,
+ * then re-derives the loan status server-side
  */
 export async function updateLoanAfterPayment(
   agencyId: string,
@@ -57,7 +103,8 @@ export async function updateLoanAfterPayment(
     const durationMonths = Number(loan.durationMonths || 0);
 
     // Calculate total payable
-    const financials = calculateLoanFinancials(principal, interestRate, durationMonths);
+    const { interestCalculationMethod } = await getLoanSettings(agencyId);
+    const financials = calculateLoanFinancials(principal, interestRate, durationMonths, getLoanScheduleOptions(loan, interestCalculationMethod));
     const totalPayable = financials.totalAmount;
 
     // Get all repayments
@@ -69,21 +116,29 @@ export async function updateLoanAfterPayment(
       dueDate: doc.data().dueDate?.toDate?.() || doc.data().dueDate,
     }));
 
-    // Calculate total paid
-    const totalPaid = repayments.reduce((sum: number, r: any) => {
-      return sum + Number(r.amountPaid || 0);
-    }, 0);
+    // Split what has been collected so far into its components
+    const installments = repayments.map((r: any) => toAllocationInstallment(r));
+    const collected = installments.reduce(
+      (totals, installment) => ({
+        fees: totals.fees + installment.paid.fees,
+        penalties: totals.penalties + installment.paid.penalties,
+        interest: totals.interest + installment.paid.interest,
+        principal: totals.principal + installment.paid.principal,
+      }),
+      { fees: 0, penalties: 0, interest: 0, principal: 0 }
+    );
 
-    // Calculate remaining balance
-    const remainingBalance = Math.max(0, totalPayable - totalPaid);
+    // Calculate total paid (ad-hoc payments without a schedule are tracked on the loan)
+    const totalPaid = repayments.length > 0 ? sumComponents(collected) : Number(loan.totalPaid || 0);
+
+    // Calculate remaining balance from the schedule, which reflects late fees and prepayment waivers
+    const remainingBalance = repayments.length > 0
+      ? installments.reduce((sum, installment) => sum + sumComponents(getOutstandingComponents(installment)), 0)
+      : Math.max(0, totalPayable - totalPaid);
 
     // Find upcoming due date (next unpaid repayment)
     const unpaidRepayments = repayments
-      .filter((r: any) => {
-        const amountDue = Number(r.amountDue || 0);
-        const amountPaid = Number(r.amountPaid || 0);
-        return amountPaid < amountDue && r.status !== 'paid';
-      })
+      .filter((r: any) => getRepaymentOutstanding(r) > 0 && r.status !== 'paid')
       .sort((a: any, b: any) => {
         const dateA = a.dueDate instanceof Date ? a.dueDate : new Date(a.dueDate || 0);
         const dateB = b.dueDate instanceof Date ? b.dueDate : new Date(b.dueDate || 0);
@@ -96,36 +151,6 @@ export async function updateLoanAfterPayment(
           : new Date(unpaidRepayments[0].dueDate))
       : null;
 
-    // Determine loan status
-    let loanStatus = loan.status || 'active';
-    
-    if (remainingBalance <= 0) {
-      loanStatus = 'settled';
-    } else {
-      // Check for overdue repayments
-      const hasOverdue = repayments.some((r: any) => {
-        if (r.status === 'paid') return false;
-        const dueDate = r.dueDate instanceof Date ? r.dueDate : new Date(r.dueDate || 0);
-        return dueDate < new Date() && r.status === 'overdue';
-      });
-
-      // Check for defaulted (90+ days overdue)
-      const hasDefaulted = repayments.some((r: any) => {
-        if (r.status !== 'overdue') return false;
-        const daysOverdue = r.daysOverdue || 0;
-        return daysOverdue >= 90;
-      });
-
-      if (hasDefaulted) {
-        loanStatus = 'defaulted';
-      } else if (hasOverdue) {
-        loanStatus = 'overdue';
-      } else if (loanStatus === 'pending' && upcomingDueDate) {
-        // Auto-activate when first payment is due
-        loanStatus = 'active';
-      }
-    }
-
     // Update loan document
     const updateData: any = {
       totalPaid: Math.round(totalPaid * 100) / 100,
@@ -133,22 +158,25 @@ export async function updateLoanAfterPayment(
       updatedAt: serverTimestamp(),
     };
 
+    if (repayments.length > 0) {
+      updateData.feesPaid = Math.round(collected.fees * 100) / 100;
+      updateData.penaltiesPaid = Math.round(collected.penalties * 100) / 100;
+      updateData.interestPaid = Math.round(collected.interest * 100) / 100;
+      updateData.principalPaid = Math.round(collected.principal * 100) / 100;
+    }
+
     if (upcomingDueDate) {
       updateData.upcomingDueDate = Timestamp.fromDate(upcomingDueDate);
     } else {
       updateData.upcomingDueDate = null;
     }
 
-    if (loanStatus !== loan.status) {
-      updateData.status = loanStatus;
-      if (loanStatus === 'settled') {
-        updateData.settledAt = serverTimestamp();
-        updateData.completedAt = serverTimestamp(); // Keep for backward compatibility
-      }
-    }
-
     await updateDoc(loanRef, updateData);
 
+    // Status follows the schedule and is derived server-side
+    const statusSync = await syncLoanStatus(agencyId, loanId);
+    const loanStatus = statusSync.success ? statusSync.status : loan.status;
+
     return {
       success: true,
       updatedFields: {
@@ -170,16 +198,19 @@ export async function updateLoanAfterPayment(
 
 /**
  * Validate payment amount before processing
+ * Overpayments are only accepted when the caller applies the excess as a
+ * prepayment or customer credit
  */
 export function validatePaymentAmount(
   paymentAmount: number,
-  remainingBalance: number
+  remainingBalance: number,
+  options: { allowOverpayment?: boolean } = {}
 ): { valid: boolean; error?: string } {
   if (!paymentAmount || paymentAmount <= 0) {
     return { valid: false, error: 'Payment amount must be greater than 0' };
   }
 
-  if (paymentAmount > remainingBalance) {
+  if (paymentAmount > remainingBalance && !options.allowOverpayment) {
     return {
       valid: false,
       error: `Payment amount (${paymentAmount.toLocaleString()} ZMW) cannot exceed remaining balance (${remainingBalance.toLocaleString()} ZMW)`,
@@ -218,7 +249,7 @@ export async function getUpcomingPayment(
     const dueDate = repayment.dueDate?.toDate?.() || repayment.dueDate;
 
     return {
-      amount: Number(repayment.amountDue || 0) - Number(repayment.amountPaid || 0),
+      amount: getRepaymentOutstanding({ id: snapshot.docs[0].id, ...repayment }),
       dueDate: dueDate instanceof Date ? dueDate : new Date(dueDate),
       repaymentId: snapshot.docs[0].id,
     };
@@ -6,6 +6,7 @@
 
 import { doc, setDoc, getDoc, serverTimestamp, writeBatch } from 'firebase/firestore';
 import { db } from './config';
+import { summarizeCreditLosses } from '../../../packages/loan-rules/src/write-off';
 
 export interface AgencyStats {
   totalActiveLoans: number;
@@ -19,6 +20,10 @@ export interface AgencyStats {
   overdueLoans: number;
   totalLoans: number;
   totalPortfolioValue: number;
+  writtenOffLoans: number;
+  grossLosses: number;
+  recoveries: number;
+  netLosses: number;
   lastUpdated: any;
 }
 
@@ -215,6 +220,9 @@ export async function recalculateDashboardStats(agencyId: string): Promise<Agenc
     ? (approvedLoans / (pendingLoans + approvedLoans)) * 100 
     : 0;
 
+  // Credit losses, gross and net of recoveries
+  const creditLosses = summarizeCreditLosses(loans.filter((l: any) => !l.deleted) as any[]);
+
   const stats: AgencyStats = {
     totalActiveLoans: activeLoans.length,
     totalDisbursedThisMonth,
@@ -227,6 +235,10 @@ export async function recalculateDashboardStats(agencyId: string): Promise<Agenc
     overdueLoans,
     totalLoans,
     totalPortfolioValue,
+    writtenOffLoans: creditLosses.writtenOffLoans,
+    grossLosses: creditLosses.grossLosses,
+    recoveries: creditLosses.recoveries,
+    netLosses: creditLosses.netLosses,
     lastUpdated: serverTimestamp(),
   };
 
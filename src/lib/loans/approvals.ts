@@ -0,0 +1,72 @@
+/**
+ * Maker-Checker Loan Approvals
+ *
+ * Loans are approved by collecting signatures until the agency's approval
+ * matrix is satisfied for the loan's amount and type. The officer who created
+ * the loan can never sign it, and each approver signs once. Signatures are
+ * recorded server-side by the loan status transition function; these helpers
+ * only read them.
+ */
+
+import { getApprovalMatrix } from '../firebase/approval-matrix';
+import {
+  evaluateApprovals,
+  type ApprovalEvaluation,
+  type ApprovalMatrix,
+  type ApprovalRequirement,
+  type ApprovalSignature,
+  type ApproverRole,
+} from '../../../packages/loan-rules/src/approval-matrix';
+
+export interface LoanApprovalState {
+  evaluation: ApprovalEvaluation;
+  signatures: ApprovalSignature[];
+  makerId: string | null;
+}
+
+export const APPROVER_ROLE_LABELS: Record<ApproverRole, string> = {
+  loan_officer: 'Loan Officer',
+  accountant: 'Accountant',
+  underwriter: 'Underwriter',
+  manager: 'Manager',
+  admin: 'Admin',
+};
+
+/**
+ * Describe outstanding requirements, e.g. "1 Manager and 1 Admin"
+ */
+export function formatApprovalRequirements(requirements: ApprovalRequirement[]): string {
+  return requirements
+    .map((requirement) => `${requirement.count} ${APPROVER_ROLE_LABELS[requirement.role]}`)
+    .join(' and ');
+}
+
+function getLoanMakerId(loan: any): string | null {
+  return loan.createdBy || loan.officerId || null;
+}
+
+function evaluateLoan(matrix: ApprovalMatrix, loan: any): LoanApprovalState {
+  const signatures: ApprovalSignature[] = loan.approvalSignatures || [];
+  const makerId = getLoanMakerId(loan);
+  return {
+    evaluation: evaluateApprovals(matrix, {
+      amount: Number(loan.amount ?? loan.terms?.amount ?? 0),
+      loanType: loan.loanType,
+      makerId: makerId || undefined,
+      signatures,
+    }),
+    signatures,
+    makerId,
+  };
+}
+
+/**
+ * Who has signed a loan's approval and who is still needed
+ */
+export async function getLoanApprovalState(
+  agencyId: string,
+  loan: any,
+  matrix?: ApprovalMatrix
+): Promise<LoanApprovalState> {
+  return evaluateLoan(matrix || (await getApprovalMatrix(agencyId)), loan);
+}
@@ -0,0 +1,215 @@
+/**
+ * Backdated Payments
+ *
+ * A payment dated in a closed period is held as a request until someone other
+ * than the person who submitted it approves it. Once approved it is recorded
+ * with its original date; the ledger books it in the first open period, so the
+ * closed period's snapshot is left as it was.
+ */
+
+import {
+  addDoc,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  serverTimestamp,
+  updateDoc,
+  where,
+} from 'firebase/firestore';
+import { db } from '../firebase/config';
+import { createAuditLog } from '../firebase/firestore-helpers';
+import { toLedgerDate } from '../../../packages/loan-rules/src/ledger';
+import { recordLoanPayment, type RecordLoanPaymentParams } from './payments';
+
+export interface BackdatedPaymentRequest {
+  id: string;
+  type: 'payment';
+  loanId: string;
+  date: string; // YYYY-MM-DD the payment is dated
+  payment: {
+    amount: number;
+    paymentMethod: string;
+    transactionId?: string;
+    notes?: string;
+  };
+  reason: string;
+  status: 'pending' | 'approved' | 'rejected';
+  requestedBy: string;
+  requestedAt?: Date;
+  decidedBy?: string;
+  decisionNotes?: string;
+  paymentId?: string;
+}
+
+/**
+ * Hold a payment dated in a closed period for approval
+ */
+export async function requestBackdatedPayment(
+  params: RecordLoanPaymentParams & { reason: string }
+): Promise<{ success: boolean; error?: string; requestId?: string }> {
+  try {
+    if (!params.reason.trim()) {
+      return { success: false, error: 'A reason is required for a backdated payment' };
+    }
+
+    const requestRef = await addDoc(collection(db, 'agencies', params.agencyId, 'backdated_requests'), {
+      type: 'payment',
+      loanId: params.loanId,
+      date: toLedgerDate(params.paymentDate),
+      payment: {
+        amount: params.amount,
+        paymentMethod: params.paymentMethod,
+        ...(params.transactionId ? { transactionId: params.transactionId } : {}),
+        ...(params.notes ? { notes: params.notes } : {}),
+      },
+      reason: params.reason.trim(),
+      status: 'pending',
+      requestedBy: params.recordedBy,
+      requestedAt: serverTimestamp(),
+    });
+
+    createAuditLog(params.agencyId, {
+      actorId: params.recordedBy,
+      action: 'backdated_payment_requested',
+      targetCollection: 'backdated_requests',
+      targetId: requestRef.id,
+      metadata: { loanId: params.loanId, amount: params.amount, date: toLedgerDate(params.paymentDate) },
+    }).catch(() => {
+      // Ignore audit log errors
+    });
+
+    return { success: true, requestId: requestRef.id };
+  } catch (error: any) {
+    console.error('Error requesting backdated payment:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to submit backdated payment',
+    };
+  }
+}
+
+/**
+ * Backdated requests awaiting a decision, oldest first
+ */
+export async function getPendingBackdatedRequests(agencyId: string): Promise<BackdatedPaymentRequest[]> {
+  const snapshot = await getDocs(query(
+    collection(db, 'agencies', agencyId, 'backdated_requests'),
+    where('status', '==', 'pending')
+  ));
+  return snapshot.docs
+    .map((requestDoc) => {
+      const data = requestDoc.data();
+      return {
+        id: requestDoc.id,
+        ...data,
+        requestedAt: data.requestedAt?.toDate?.() || data.requestedAt,
+      } as BackdatedPaymentRequest;
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+async function getPendingRequest(agencyId: string, requestId: string, userId: string): Promise<BackdatedPaymentRequest> {
+  const requestSnap = await getDoc(doc(db, 'agencies', agencyId, 'backdated_requests', requestId));
+  if (!requestSnap.exists()) {
+    throw new Error('Backdated request not found');
+  }
+  const request = { id: requestSnap.id, ...requestSnap.data() } as BackdatedPaymentRequest;
+  if (request.status !== 'pending') {
+    throw new Error(`This request has already been ${request.status}`);
+  }
+  if (request.requestedBy === userId) {
+    throw new Error('Backdated transactions must be approved by someone other than the requester');
+  }
+  return request;
+}
+
+/**
+ * Approve a backdated payment and record it with its original date. The
+ * request is approved in the transaction that records the payment, under an id
+ * fixed to the request, so it cannot be recorded twice.
+ */
+export async function approveBackdatedRequest(
+  agencyId: string,
+  requestId: string,
+  userId: string,
+  notes?: string
+): Promise<{ success: boolean; error?: string; paymentId?: string }> {
+  try {
+    const request = await getPendingRequest(agencyId, requestId, userId);
+
+    const result = await recordLoanPayment({
+      agencyId,
+      loanId: request.loanId,
+      amount: request.payment.amount,
+      paymentDate: new Date(request.date),
+      paymentMethod: request.payment.paymentMethod,
+      recordedBy: request.requestedBy,
+      transactionId: request.payment.transactionId,
+      notes: request.payment.notes,
+      source: 'backdated_request',
+      backdatingApproval: { requestId, approvedBy: userId, notes },
+    });
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    createAuditLog(agencyId, {
+      actorId: userId,
+      action: 'backdated_payment_approved',
+      targetCollection: 'backdated_requests',
+      targetId: requestId,
+      metadata: { loanId: request.loanId, paymentId: result.paymentId || null, date: request.date },
+    }).catch(() => {
+      // Ignore audit log errors
+    });
+
+    return { success: true, paymentId: result.paymentId };
+  } catch (error: any) {
+    console.error('Error approving backdated payment:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to approve backdated payment',
+    };
+  }
+}
+
+/**
+ * Reject a backdated payment; nothing is recorded
+ */
+export async function rejectBackdatedRequest(
+  agencyId: string,
+  requestId: string,
+  userId: string,
+  notes?: string
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const request = await getPendingRequest(agencyId, requestId, userId);
+
+    await updateDoc(doc(db, 'agencies', agencyId, 'backdated_requests', requestId), {
+      status: 'rejected',
+      decidedBy: userId,
+      decidedAt: serverTimestamp(),
+      ...(notes ? { decisionNotes: notes } : {}),
+    });
+
+    createAuditLog(agencyId, {
+      actorId: userId,
+      action: 'backdated_payment_rejected',
+      targetCollection: 'backdated_requests',
+      targetId: requestId,
+      metadata: { loanId: request.loanId, date: request.date },
+    }).catch(() => {
+      // Ignore audit log errors
+    });
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error rejecting backdated payment:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to reject backdated payment',
+    };
+  }
+}
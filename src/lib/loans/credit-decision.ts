@@ -0,0 +1,40 @@
+/**
+ * Credit Decisions
+ *
+ * Evaluates a loan application against the loan type's decision rules. The
+ * runCreditDecision Cloud Function gathers the facts and stores the resulting
+ * trace on the loan so every automated approve/refer/decline can be audited.
+ */
+
+import { httpsCallable } from 'firebase/functions';
+import { functions } from '../firebase/config';
+import type { CreditDecision } from '../../../packages/loan-rules/src/decision-rules';
+
+interface RunCreditDecisionResponse {
+  success: boolean;
+  error?: string;
+  decision?: CreditDecision;
+}
+
+/**
+ * Evaluate a loan application and store the decision trace on the loan
+ */
+export async function runCreditDecision(
+  agencyId: string,
+  loanId: string
+): Promise<RunCreditDecisionResponse> {
+  try {
+    const callable = httpsCallable<{ agencyId: string; loanId: string }, RunCreditDecisionResponse>(
+      functions,
+      'runCreditDecision'
+    );
+    const result = await callable({ agencyId, loanId });
+    return result.data;
+  } catch (error: any) {
+    console.error('Error running credit decision:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to run credit decision',
+    };
+  }
+}
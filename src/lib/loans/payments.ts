@@ -0,0 +1,507 @@
+/**
+ * Loan Payments
+ *
+ * Record a payment against a loan. Loans with a repayment schedule have the
+ * payment split across their installments with the loan product's waterfall
+ * (excess applied as prepayment or kept as customer credit); loans without a
+ * schedule are paid down directly (ad-hoc). Either way a loan-level payment
+ * record is written, which the general ledger posts. A payment recorded in
+ * error is reversed server-side, never edited or deleted.
+ */
+
+import {
+  doc,
+  collection,
+  getDoc,
+  getDocs,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+  type DocumentReference,
+  type Transaction,
+} from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '../firebase/config';
+import { createAuditLog } from '../firebase/firestore-helpers';
+import {
+  getRepaymentOutstanding,
+  toAllocationInstallment,
+  updateLoanAfterPayment,
+} from '../firebase/repayment-helpers';
+import { getPaymentAllocationConfig } from '../firebase/loan-type-config';
+import { checkBackdating } from '../accounting/period-close';
+import { getCashDrawer, readOpenSession, writeSessionCash } from '../branches/teller-sessions';
+import {
+  allocatePayment,
+  applyPrepayment,
+  emptyComponents,
+  getDueInstallments,
+  getOutstandingComponents,
+  sumComponents,
+} from '../../../packages/loan-rules/src/allocation';
+import { isCashMethod } from '../../../packages/loan-rules/src/cash-management';
+import { toLedgerDate } from '../../../packages/loan-rules/src/ledger';
+import { roundCurrency } from '../../../packages/loan-rules/src/utils';
+
+export const PAYABLE_LOAN_STATUSES = ['active', 'disbursed', 'overdue', 'approved', 'restructuring', 'restructured', 'defaulted'];
+
+export interface RecordLoanPaymentParams {
+  agencyId: string;
+  loanId: string;
+  amount: number;
+  paymentDate: Date;
+  paymentMethod: string;
+  recordedBy: string;
+  transactionId?: string; // External reference, e.g. the bank or mobile money reference
+  paymentId?: string; // Payment document id; repeating an id is rejected as a duplicate
+  notes?: string;
+  source?: string; // Where the payment was recorded from, kept on the audit log
+  backdatingApproval?: BackdatingApproval; // Backdated request for a payment dated in a closed period
+}
+
+export interface BackdatingApproval {
+  requestId: string; // Approved together with the payment it records
+  approvedBy: string;
+  notes?: string;
+}
+
+/**
+ * Payment document id of an approved backdated request, so it is recorded once
+ */
+export function getBackdatedPaymentId(requestId: string): string {
+  return `backdated_${requestId}`;
+}
+
+/**
+ * Read the backdated request a payment records and check the payment matches
+ * it. Runs in the payment's transaction, before its writes.
+ */
+async function readBackdatedApproval(
+  transaction: Transaction,
+  params: RecordLoanPaymentParams
+): Promise<DocumentReference | null> {
+  const approval = params.backdatingApproval;
+  if (!approval) return null;
+
+  const requestRef = doc(db, 'agencies', params.agencyId, 'backdated_requests', approval.requestId);
+  const requestSnap = await transaction.get(requestRef);
+  const request = requestSnap.data();
+  if (!request) {
+    throw new Error('Backdated request not found');
+  }
+  if (request.status !== 'pending') {
+    throw new Error(`This request has already been ${request.status}`);
+  }
+  if (request.requestedBy === approval.approvedBy) {
+    throw new Error('Backdated transactions must be approved by someone other than the requester');
+  }
+  if (
+    request.loanId !== params.loanId
+    || Number(request.payment?.amount) !== params.amount
+    || request.date !== toLedgerDate(params.paymentDate)
+  ) {
+    throw new Error('Payment does not match the backdated request');
+  }
+  return requestRef;
+}
+
+/**
+ * Approve the backdated request in the transaction that records its payment
+ */
+function writeBackdatedApproval(
+  transaction: Transaction,
+  requestRef: DocumentReference | null,
+  params: RecordLoanPaymentParams,
+  paymentId: string
+): void {
+  if (!requestRef || !params.backdatingApproval) return;
+  transaction.update(requestRef, {
+    status: 'approved',
+    decidedBy: params.backdatingApproval.approvedBy,
+    decidedAt: serverTimestamp(),
+    ...(params.backdatingApproval.notes ? { decisionNotes: params.backdatingApproval.notes } : {}),
+    paymentId,
+  });
+}
+
+/**
+ * Record a payment against a loan
+ */
+export async function recordLoanPayment(params: RecordLoanPaymentParams): Promise<{
+  success: boolean;
+  error?: string;
+  paymentId?: string;
+  requiresApproval?: boolean; // Dated in a closed period; submit it as a backdated request
+}> {
+  const { agencyId, loanId, amount: paymentAmount, paymentDate, paymentMethod, recordedBy, transactionId, notes } = params;
+
+  try {
+    const backdating = await checkBackdating(agencyId, paymentDate);
+    if (backdating === 'blocked') {
+      return { success: false, error: 'Payments cannot be dated in a closed period' };
+    }
+    if (backdating === 'approval_required' && !params.backdatingApproval) {
+      return {
+        success: false,
+        requiresApproval: true,
+        error: 'This payment is dated in a closed period and needs approval',
+      };
+    }
+
+    // Cash taken at the counter goes into the teller's drawer with the payment.
+    // An approved backdated payment records cash that was taken when it was dated.
+    const drawer = isCashMethod(paymentMethod) && !params.backdatingApproval
+      ? await getCashDrawer(agencyId, recordedBy)
+      : { session: null };
+    if (drawer.error) {
+      return { success: false, error: drawer.error };
+    }
+
+    const loanRef = doc(db, 'agencies', agencyId, 'loans', loanId);
+    const loanSnap = await getDoc(loanRef);
+    if (!loanSnap.exists()) {
+      return { success: false, error: 'Loan not found' };
+    }
+
+    const loanData = loanSnap.data();
+    const loanStatus = loanData.status?.toLowerCase();
+
+    // Validate loan is in a state that can accept payments
+    if (!PAYABLE_LOAN_STATUSES.includes(loanStatus)) {
+      return {
+        success: false,
+        error: `Cannot record payment for loan in "${loanStatus}" status. Loan must be Active or Disbursed.`,
+      };
+    }
+
+    // Get all repayments for this loan
+    const repaymentsSnapshot = await getDocs(collection(db, 'agencies', agencyId, 'loans', loanId, 'repayments'));
+    const repayments = repaymentsSnapshot.docs.map((d) => ({
+      id: d.id,
+      ...d.data(),
+    }));
+
+    // If no repayment schedule exists, use AD-HOC payment mode
+    const useAdHocPayment = repayments.length === 0;
+    const allocationConfig = await getPaymentAllocationConfig(agencyId, loanData.loanType);
+
+    // Sort repayments by due date (oldest first) and filter unpaid ones (late fees included)
+    const unpaidRepayments = repayments
+      .filter((r: any) => getRepaymentOutstanding(r) > 0)
+      .sort((a: any, b: any) => {
+        const dateA = a.dueDate?.toDate?.() || a.dueDate || new Date(0);
+        const dateB = b.dueDate?.toDate?.() || b.dueDate || new Date(0);
+        return dateA.getTime() - dateB.getTime();
+      });
+
+    if (!useAdHocPayment && unpaidRepayments.length === 0) {
+      return { success: false, error: 'All scheduled repayments are already paid' };
+    }
+
+    // A backdated request's payment is recorded under an id fixed to the request
+    const paymentTransactionId = params.backdatingApproval
+      ? getBackdatedPaymentId(params.backdatingApproval.requestId)
+      : params.paymentId || transactionId?.trim() ||
+      `payment-${loanId}-${paymentAmount.toFixed(2)}-${paymentMethod}-${paymentDate.toISOString().split('T')[0]}-${Date.now()}`;
+    const paymentRef = doc(db, 'agencies', agencyId, 'loans', loanId, 'payments', paymentTransactionId);
+
+    if (useAdHocPayment) {
+      // ===== AD-HOC PAYMENT MODE =====
+      // No repayment schedule exists - record payment directly against loan balance
+      await runTransaction(db, async (transaction) => {
+        const paymentCheckSnap = await transaction.get(paymentRef);
+        if (paymentCheckSnap.exists()) {
+          throw new Error('This payment has already been recorded');
+        }
+        const approvalRef = await readBackdatedApproval(transaction, params);
+        const session = drawer.session ? await readOpenSession(transaction, agencyId, drawer.session.id) : null;
+
+        // Re-read loan to get current balance
+        const currentLoanSnap = await transaction.get(loanRef);
+        if (!currentLoanSnap.exists()) {
+          throw new Error('Loan not found');
+        }
+
+        const currentLoan = currentLoanSnap.data();
+        const currentBalance = Number(currentLoan.outstandingBalance || currentLoan.remainingBalance || currentLoan.totalPayable || 0);
+
+        if (paymentAmount > currentBalance) {
+          throw new Error(`Payment amount (${paymentAmount.toLocaleString()}) exceeds outstanding balance (${currentBalance.toLocaleString()})`);
+        }
+
+        const newBalance = Math.max(0, currentBalance - paymentAmount);
+        const totalPaid = Number(currentLoan.totalPaid || 0) + paymentAmount;
+
+        // Update loan with new balance
+        transaction.update(loanRef, {
+          outstandingBalance: newBalance,
+          remainingBalance: newBalance,
+          totalPaid: totalPaid,
+          lastPaymentDate: serverTimestamp(),
+          lastPaymentAmount: paymentAmount,
+          updatedAt: serverTimestamp(),
+        });
+
+        transaction.set(paymentRef, {
+          id: paymentTransactionId,
+          amount: paymentAmount,
+          paymentMethod: paymentMethod || 'cash',
+          paymentDate: Timestamp.fromDate(paymentDate),
+          recordedBy,
+          recordedAt: serverTimestamp(),
+          notes: notes || null,
+          transactionId: transactionId || null,
+          type: 'ad_hoc', // Indicates this is not against a scheduled installment
+          balanceBefore: currentBalance,
+          balanceAfter: newBalance,
+          ...(session ? { tellerSessionId: session.id } : {}),
+          ...(params.backdatingApproval ? { backdatingApprovalId: params.backdatingApproval.requestId } : {}),
+        });
+        writeBackdatedApproval(transaction, approvalRef, params, paymentTransactionId);
+        if (session) {
+          writeSessionCash(transaction, agencyId, session, {
+            type: 'payment',
+            amount: paymentAmount,
+            recordedBy,
+            loanId,
+            paymentId: paymentTransactionId,
+          });
+        }
+      });
+    } else {
+      // ===== SCHEDULED PAYMENT MODE =====
+      // Split the payment across scheduled repayments with the loan product's waterfall
+      const repaymentIds = unpaidRepayments.map((r: any) => r.id);
+
+      await runTransaction(db, async (transaction) => {
+        // Check if this payment transaction already exists (idempotency)
+        const paymentCheckSnap = await transaction.get(paymentRef);
+        if (paymentCheckSnap.exists()) {
+          throw new Error('This payment has already been recorded');
+        }
+        const approvalRef = await readBackdatedApproval(transaction, params);
+        const session = drawer.session ? await readOpenSession(transaction, agencyId, drawer.session.id) : null;
+
+        const currentLoanSnap = await transaction.get(loanRef);
+        if (!currentLoanSnap.exists()) {
+          throw new Error('Loan not found');
+        }
+
+        // Re-read each repayment within transaction to get latest state
+        const currentRepayments = await Promise.all(
+          repaymentIds.map(async (repaymentId) => {
+            const repaymentDocRef = doc(db, 'agencies', agencyId, 'loans', loanId, 'repayments', repaymentId);
+            const repaymentSnap = await transaction.get(repaymentDocRef);
+            if (!repaymentSnap.exists()) {
+              return null;
+            }
+            return {
+              id: repaymentId,
+              ...repaymentSnap.data(),
+            };
+          })
+        );
+
+        const validRepayments = currentRepayments.filter(r => r !== null) as any[];
+        const installments = validRepayments.map((r) => toAllocationInstallment(r, allocationConfig.order));
+
+        if (!installments.some((installment) => sumComponents(getOutstandingComponents(installment)) > 0)) {
+          throw new Error('All repayments are already paid');
+        }
+
+        // Settle what is due, then apply any excess per the overpayment rule
+        const { due, future } = getDueInstallments(installments, paymentDate);
+        const allocation = allocatePayment(paymentAmount, due, allocationConfig);
+        const prepayment = applyPrepayment(allocation.excessAmount, future, allocationConfig.overpaymentHandling);
+
+        const paymentLines: any[] = [];
+
+        for (const installment of installments) {
+          const line = allocation.installments.find((l) => l.id === installment.id);
+          const adjustment = prepayment.adjustments.find((a) => a.id === installment.id);
+          if (!line && !adjustment) continue;
+
+          const repayment = validRepayments.find((r) => r.id === installment.id);
+          const applied = line?.allocated || emptyComponents();
+          const principalPrepaid = adjustment?.principalPrepaid || 0;
+          const interestDue = adjustment ? adjustment.interestDue : installment.due.interest;
+
+          const feePaid = roundCurrency(installment.paid.fees + applied.fees);
+          const penaltyPaid = roundCurrency(installment.paid.penalties + applied.penalties);
+          const interestPaid = roundCurrency(installment.paid.interest + applied.interest);
+          const principalPaid = roundCurrency(installment.paid.principal + applied.principal + principalPrepaid);
+          const amountForThisRepayment = roundCurrency((line?.amount || 0) + principalPrepaid);
+          const isFullyPaid = Boolean(line?.settled || adjustment?.settled);
+
+          const repaymentRef = doc(db, 'agencies', agencyId, 'loans', loanId, 'repayments', installment.id);
+
+          const repaymentUpdate: any = {
+            principalDue: installment.due.principal,
+            interestDue,
+            feeDue: installment.due.fees,
+            feePaid,
+            penaltyPaid,
+            interestPaid,
+            principalPaid,
+            amountPaid: roundCurrency(feePaid + penaltyPaid + interestPaid + principalPaid),
+            status: isFullyPaid ? 'paid' : repayment.status,
+            paidAt: isFullyPaid ? serverTimestamp() : repayment.paidAt ?? null,
+            paymentMethod: paymentMethod || null,
+            lastPaymentDate: serverTimestamp(),
+            lastPaymentAmount: amountForThisRepayment,
+            updatedAt: serverTimestamp(),
+          };
+
+          if (adjustment && adjustment.interestWaived > 0) {
+            repaymentUpdate.amountDue = roundCurrency(installment.due.principal + interestDue + installment.due.fees);
+            repaymentUpdate.interestWaived = roundCurrency(Number(repayment.interestWaived || 0) + adjustment.interestWaived);
+          }
+
+          transaction.update(repaymentRef, repaymentUpdate);
+
+          const split = {
+            fees: applied.fees,
+            penalties: applied.penalties,
+            interest: applied.interest,
+            principal: roundCurrency(applied.principal + principalPrepaid),
+          };
+
+          // Create payment history entry with unique ID for idempotency
+          const paymentHistoryRef = doc(
+            db,
+            'agencies',
+            agencyId,
+            'loans',
+            loanId,
+            'repayments',
+            installment.id,
+            'paymentHistory',
+            `${paymentTransactionId}-${installment.id}`
+          );
+
+          transaction.set(paymentHistoryRef, {
+            amount: amountForThisRepayment,
+            allocation: split,
+            interestWaived: adjustment?.interestWaived || 0,
+            paymentMethod: paymentMethod || 'cash',
+            recordedBy,
+            recordedAt: Timestamp.fromDate(paymentDate),
+            notes: notes || null,
+            transactionId: paymentTransactionId,
+            type: line ? 'scheduled' : 'prepayment',
+          });
+          paymentLines.push({ repaymentId: installment.id, ...split });
+        }
+
+        const totals = {
+          ...allocation.totals,
+          principal: roundCurrency(allocation.totals.principal + prepayment.principalPrepaid),
+        };
+
+        // Keep any excess the schedule cannot absorb as customer credit
+        if (prepayment.creditAmount > 0) {
+          const currentLoan = currentLoanSnap.data();
+          transaction.update(loanRef, {
+            creditBalance: roundCurrency(Number(currentLoan.creditBalance || 0) + prepayment.creditAmount),
+            updatedAt: serverTimestamp(),
+          });
+        }
+
+        // Record exactly how the payment was split for accounting and regulatory reports
+        transaction.set(paymentRef, {
+          id: paymentTransactionId,
+          amount: paymentAmount,
+          paymentMethod: paymentMethod || 'cash',
+          paymentDate: Timestamp.fromDate(paymentDate),
+          recordedBy,
+          recordedAt: serverTimestamp(),
+          notes: notes || null,
+          transactionId: transactionId || null,
+          type: 'scheduled',
+          allocation: totals,
+          allocationOrder: allocationConfig.order,
+          allocationStrategy: allocationConfig.strategy,
+          overpaymentHandling: allocationConfig.overpaymentHandling,
+          principalPrepaid: prepayment.principalPrepaid,
+          interestWaived: prepayment.interestWaived,
+          creditAmount: prepayment.creditAmount,
+          installments: paymentLines,
+          ...(session ? { tellerSessionId: session.id } : {}),
+          ...(params.backdatingApproval ? { backdatingApprovalId: params.backdatingApproval.requestId } : {}),
+        });
+        writeBackdatedApproval(transaction, approvalRef, params, paymentTransactionId);
+        if (session) {
+          writeSessionCash(transaction, agencyId, session, {
+            type: 'payment',
+            amount: paymentAmount,
+            recordedBy,
+            loanId,
+            paymentId: paymentTransactionId,
+          });
+        }
+      });
+    }
+
+    // Update loan summary (remaining balance, total paid, upcoming due date, status)
+    await updateLoanAfterPayment(agencyId, loanId);
+
+    createAuditLog(agencyId, {
+      actorId: recordedBy,
+      action: 'add_payment',
+      targetCollection: 'loans',
+      targetId: loanId,
+      metadata: {
+        paymentId: paymentTransactionId,
+        amount: paymentAmount,
+        paymentMethod,
+        notes: notes || null,
+        paymentDate: paymentDate.toISOString().split('T')[0],
+        ...(params.source ? { source: params.source } : {}),
+        ...(params.backdatingApproval ? { backdatingApprovalId: params.backdatingApproval.requestId } : {}),
+        ...(drawer.session ? { tellerSessionId: drawer.session.id } : {}),
+      },
+    }).catch(() => {
+      // Ignore audit log errors
+    });
+
+    return { success: true, paymentId: paymentTransactionId };
+  } catch (error: any) {
+    console.error('Error recording payment:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to record payment',
+    };
+  }
+}
+
+/**
+ * Reverse a payment recorded in error
+ * The reversePayment Cloud Function takes it back off the schedule and the
+ * general ledger posts the reversal.
+ */
+export async function reverseLoanPayment(params: {
+  agencyId: string;
+  loanId: string;
+  paymentId: string;
+  reason: string;
+}): Promise<{ success: boolean; error?: string }> {
+  try {
+    const reversePayment = httpsCallable<typeof params, { success: boolean; error?: string }>(
+      functions,
+      'reversePayment'
+    );
+    const { data: result } = await reversePayment(params);
+    if (!result.success) {
+      return result;
+    }
+
+    await updateLoanAfterPayment(params.agencyId, params.loanId);
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error reversing payment:', error);
+    return {
+      success: false,
+      error: error.message || 'Failed to reverse payment',
+    };
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Credit Policy Simulation
+ *
+ * Loads an agency's historical applications and replays a proposed credit
+ * policy over them so its effect on approvals, defaults and yield can be
+ * reviewed before the policy is changed.
+ */
+
+import { collection, getDocs } from 'firebase/firestore';
+import { db } from '../firebase/config';
+import { getAgencyLoanConfig } from '../firebase/loan-type-config';
+import { getLoanSettings } from '../firebase/loan-settings';
+import { calculateCreditScoreFactors } from '../credit-scoring/credit-scorer';
+import { buildApplicationFacts } from '../../../packages/loan-rules/src/decision-rules';
+import {
+  DEFAULT_CREDIT_SCORE_WEIGHTS,
+  simulatePolicyChange,
+  type CreditPolicy,
+  type HistoricalApplication,
+  type HistoricalOutcome,
+  type PolicySimulationOptions,
+  type PolicySimulationResult,
+} from '../../../packages/loan-rules/src/policy-simulation';
+import type { CreditApplicationFacts } from '../../../packages/loan-rules/src/decision-rules';
+import { toDateValue } from '../../../packages/loan-rules/src/utils';
+
+const REPAID_STATUSES = ['settled', 'closed', 'completed', 'paid'];
+const DEFAULTED_STATUSES = ['defaulted', 'written_off'];
+const PERFORMING_STATUSES = ['disbursed', 'active', 'overdue', 'restructuring', 'restructured'];
+// Drafts never reached a credit decision
+const EXCLUDED_STATUSES = ['draft', 'requires_mapping'];
+
+function getHistoricalOutcome(status: string): HistoricalOutcome {
+  if (REPAID_STATUSES.includes(status)) return 'repaid';
+  if (DEFAULTED_STATUSES.includes(status)) return 'defaulted';
+  if (PERFORMING_STATUSES.includes(status)) return 'performing';
+  return 'not_booked';
+}
+
+/**
+ * Historical applications of an agency, with the facts known when each was decided
+ */
+export async function loadHistoricalApplications(
+  agencyId: string,
+  options: { from?: Date; to?: Date } = {}
+): Promise<HistoricalApplication[]> {
+  const [loansSnap, customersSnap, loanSettings] = await Promise.all([
+    getDocs(collection(db, 'agencies', agencyId, 'loans')),
+    getDocs(collection(db, 'agencies', agencyId, 'customers')),
+    getLoanSettings(agencyId),
+  ]);
+
+  const customers = new Map(customersSnap.docs.map((customerDoc) => [customerDoc.id, customerDoc.data()]));
+  const loans = loansSnap.docs
+    .map((loanDoc) => ({ id: loanDoc.id, ...loanDoc.data() } as any))
+    .filter((loan) => !loan.deleted && !EXCLUDED_STATUSES.includes(loan.status || 'draft'));
+
+  const loansByCustomer = new Map<string, any[]>();
+  for (const loan of loans) {
+    const customerId = loan.customerId || loan.customer_id;
+    if (!customerId) continue;
+    loansByCustomer.set(customerId, [...(loansByCustomer.get(customerId) || []), loan]);
+  }
+
+  return loans
+    .filter((loan) => {
+      const createdAt = toDateValue(loan.createdAt);
+      if (options.from && (!createdAt || createdAt < options.from)) return false;
+      if (options.to && (!createdAt || createdAt > options.to)) return false;
+      return true;
+    })
+    .map((loan) => {
+      const customerId = loan.customerId || loan.customer_id;
+      const customer = customers.get(customerId) || {};
+      const createdAt = toDateValue(loan.createdAt);
+
+      // Only loans the customer already had count as history for this application
+      const priorLoans = (loansByCustomer.get(customerId) || []).filter((other) => {
+        if (other.id === loan.id) return false;
+        const otherCreatedAt = toDateValue(other.createdAt);
+        return !createdAt || !otherCreatedAt || otherCreatedAt < createdAt;
+      });
+
+      // Facts stored with a recorded credit decision reflect the application at the time
+      const facts: CreditApplicationFacts = loan.creditDecision?.facts
+        ? { ...loan.creditDecision.facts }
+        : buildApplicationFacts(loan, customer, priorLoans, undefined, loanSettings.interestCalculationMethod);
+
+      const principal = Number(loan.amount ?? loan.terms?.amount ?? 0);
+      const outcome = getHistoricalOutcome(loan.status);
+      const principalPaid = Number(loan.principalPaid ?? 0);
+
+      return {
+        loanId: loan.id,
+        loanType: loan.loanType,
+        facts,
+        scoreFactors: calculateCreditScoreFactors(customer, priorLoans, principal),
+        outcome,
+        principal,
+        interestCollected: Number(loan.interestPaid ?? 0),
+        principalLost: outcome === 'defaulted' ? Math.max(0, principal - principalPaid) : 0,
+      };
+    });
+}
+
+/**
+ * The credit policy an agency runs today
+ */
+export async function getCurrentCreditPolicy(agencyId: string): Promise<CreditPolicy> {
+  const config = await getAgencyLoanConfig(agencyId);
+  const loanTypes = Object.values(config?.loanTypes || {});
+
+  return {
+    riskRules: Object.fromEntries(loanTypes.map((loanType) => [loanType.id, loanType.riskRules || {}])),
+    decisionRules: Object.fromEntries(loanTypes.map((loanType) => [loanType.id, loanType.decisionRules || []])),
+    scoreWeights: DEFAULT_CREDIT_SCORE_WEIGHTS,
+  };
+}
+
+/**
+ * Compare a proposed credit policy with the current one over an agency's history
+ */
+export async function runPolicySimulation(
+  agencyId: string,
+  proposedPolicy: CreditPolicy,
+  options: PolicySimulationOptions & { from?: Date; to?: Date } = {}
+): Promise<PolicySimulationResult & { currentPolicy: CreditPolicy }> {
+  const [applications, currentPolicy] = await Promise.all([
+    loadHistoricalApplications(agencyId, { from: options.from, to: options.to }),
+    getCurrentCreditPolicy(agencyId),
+  ]);
+
+  return {
+    ...simulatePolicyChange(applications, currentPolicy, proposedPolicy, options),
+    currentPolicy,
+  };
+}
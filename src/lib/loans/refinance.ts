@@ -0,0 +1,79 @@
+/**
+ * Loan Top-up and Refinancing
+ *
+ * A top-up loan consolidates one or more of the borrower's open loans: their
+ * settlement amount is netted against the new principal, and the disbursement
+ * transition settles them out of it and closes them with the reason
+ * "refinanced". Both sides keep a link so the history can be followed either way.
+ */
+
+import {
+  doc,
+  getDoc,
+  getDocs,
+  collection,
+  query,
+  where,
+} from 'firebase/firestore';
+import { db } from '../firebase/config';
+import { LoanStatus } from '../../types/loan-workflow';
+import { getSettlementQuote } from './settlement';
+import {
+  netRefinanceSettlements,
+  type RefinanceNetting,
+} from '../../../packages/loan-rules/src/settlement';
+
+export interface RefinancedLoan {
+  loanId: string;
+  loanNumber: string | null;
+  payoffAmount: number;
+}
+
+export interface RefinanceQuote extends RefinanceNetting {
+  loans: RefinancedLoan[];
+  quotedAt: Date;
+}
+
+// Loans still being repaid can be consolidated into a top-up
+export const REFINANCEABLE_STATUSES = [LoanStatus.ACTIVE, LoanStatus.OVERDUE, LoanStatus.RESTRUCTURED];
+
+/**
+ * Open loans of a customer that a top-up can consolidate
+ */
+export async function getRefinanceCandidates(agencyId: string, customerId: string): Promise<any[]> {
+  const loansRef = collection(db, 'agencies', agencyId, 'loans');
+  const snapshot = await getDocs(query(loansRef, where('customerId', '==', customerId)));
+  return snapshot.docs
+    .map((d) => ({ id: d.id, ...d.data() } as any))
+    .filter((loan) => REFINANCEABLE_STATUSES.includes(loan.status) && !loan.refinancedBy);
+}
+
+/**
+ * Quote the settlement of the loans being refinanced and net it against a new principal
+ */
+export async function quoteRefinance(
+  agencyId: string,
+  loanIds: string[],
+  newPrincipal: number,
+  settlementDate: Date = new Date()
+): Promise<RefinanceQuote> {
+  const loans = await Promise.all(
+    loanIds.map(async (loanId) => {
+      const [loanSnap, quote] = await Promise.all([
+        getDoc(doc(db, 'agencies', agencyId, 'loans', loanId)),
+        getSettlementQuote(agencyId, loanId, settlementDate),
+      ]);
+      return {
+        loanId,
+        loanNumber: loanSnap.data()?.loanNumber || null,
+        payoffAmount: quote.payoffAmount,
+      };
+    })
+  );
+
+  return {
+    loans,
+    ...netRefinanceSettlements(newPrincipal, loans),
+    quotedAt: settlementDate,
+  };
+}
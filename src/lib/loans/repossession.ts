@@ -0,0 +1,845 @@
+/**
+ * Collateral Repossession Workflow
+ *
+ * Staff open a repossession case on collateral pledged to a loan in arrears,
+ * which issues the notice of intention to repossess. Once the remedy period
+ * has passed the seizure is recorded with where the asset is stored and what
+ * it is worth, storage and other costs are added as they arise, and the sale
+ * is scheduled with a notice of sale. Recording the sale applies the net
+ * proceeds to the loan (a settlement, a part payment, or a recovery on a
+ * written-off loan), releases the lien and leaves any surplus owed to the
+ * borrower until it is paid back.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  where,
+} from 'firebase/firestore';
+import { db } from '../firebase/config';
+import { createAuditLog } from '../firebase/firestore-helpers';
+import { getLoanLiens, releaseLien } from '../firebase/collateral-liens';
+import { estimateCollateralPrice } from '../ai/collateral-pricing';
+import { checkBackdating } from '../accounting/period-close';
+import { LoanStatus, UserRole } from '../../types/loan-workflow';
+import { recordLoanPayment } from './payments';
+import { getSettlementQuote, settleLoan } from './settlement';
+import { recordLoanRecovery } from './write-off';
+import { sumComponents } from '../../../packages/loan-rules/src/allocation';
+import { getRecoverableBalance } from '../../../packages/loan-rules/src/write-off';
+import { COLLATERAL_IDENTIFIER_KINDS } from '../../../packages/loan-rules/src/collateral-liens';
+import {
+  canTransitionRepossession,
+  computeLiquidation,
+  getEarliestSaleDate,
+  getEarliestSeizureDate,
+  getRedemptionEndDate,
+  OPEN_REPOSSESSION_STATUSES,
+  REPOSSESSION_LOAN_STATUSES,
+  REPOSSESSION_NOTICES,
+  resolveRepossessionConfig,
+  type LiquidationResult,
+  type RepossessionConfig,
+  type RepossessionCost,
+  type RepossessionCostType,
+  type RepossessionNoticeType,
+  type RepossessionSaleMethod,
+  type RepossessionStatus,
+  type SeizureValuation,
+} from '../../../packages/loan-rules/src/repossession';
+import { toDateValue } from '../../../packages/loan-rules/src/utils';
+
+export type { LiquidationResult, RepossessionConfig, RepossessionCost, RepossessionStatus, SeizureValuation };
+
+export interface RepossessionNotice {
+  type: RepossessionNoticeType;
+  issuedAt: Date;
+  issuedBy: string;
+}
+
+// How the sale proceeds reached the loan
+export type ProceedsApplication = 'settlement' | 'payment' | 'recovery' | 'none';
+
+export interface RepossessionCase {
+  id: string;
+  loanId: string;
+  collateralId: string;
+  lienId: string;
+  customerId?: string;
+  status: RepossessionStatus;
+  reason: string;
+  amountInArrears: number; // Stated on the notice of intention
+  notices: RepossessionNotice[];
+  costs: RepossessionCost[];
+  openedBy: string;
+  openedAt?: Date;
+  seizedAt?: Date;
+  condition?: string;
+  storageLocation?: string;
+  valuation?: SeizureValuation;
+  saleMethod?: RepossessionSaleMethod;
+  saleDate?: Date; // Scheduled
+  reservePrice?: number;
+  soldAt?: Date;
+  buyerName?: string;
+  saleReference?: string;
+  liquidation?: LiquidationResult;
+  proceedsApplication?: ProceedsApplication;
+  surplusPaidAt?: Date;
+  surplusPaymentMethod?: string;
+  surplusReference?: string;
+  closedReason?: string;
+}
+
+type Result = { success: boolean; error?: string };
+
+const DATE_FIELDS = ['openedAt', 'seizedAt', 'saleDate', 'soldAt', 'surplusPaidAt'] as const;
+
+function toRepossessionCase(id: string, data: any): RepossessionCase {
+  const record: any = {
+    id,
+    ...data,
+    notices: (data.notices || []).map((notice: any) => ({ ...notice, issuedAt: toDateValue(notice.issuedAt) ?? undefined })),
+    costs: (data.costs || []).map((cost: any) => ({ ...cost, date: toDateValue(cost.date) ?? undefined })),
+  };
+  DATE_FIELDS.forEach((field) => {
+    record[field] = toDateValue(data[field]) ?? undefined;
+  });
+  return record as RepossessionCase;
+}
+
+function toStoredNotice(type: RepossessionNoticeType, issuedBy: string, issuedAt: Date = new Date()) {
+  return { type, issuedAt: Timestamp.fromDate(issuedAt), issuedBy };
+}
+
+function toStoredCosts(costs: RepossessionCost[]) {
+  return costs.map((cost) => ({
+    ...cost,
+    date: Timestamp.fromDate(cost.date),
+  }));
+}
+
+function toStoredNotices(notices: RepossessionNotice[]) {
+  return notices.map((notice) => ({ ...notice, issuedAt: Timestamp.fromDate(notice.issuedAt) }));
+}
+
+function logRepossession(agencyId: string, actorId: string, action: string, caseId: string, metadata: Record<string, any>) {
+  createAuditLog(agencyId, {
+    actorId,
+    action,
+    targetCollection: 'repossessions',
+    targetId: caseId,
+    metadata,
+  }).catch(() => {
+    // Ignore audit log errors
+  });
+}
+
+/**
+ * The agency's repossession config (the defaults until one is saved)
+ */
+export async function getRepossessionConfig(agencyId: string): Promise<RepossessionConfig> {
+  const configSnap = await getDoc(doc(db, 'agencies', agencyId, 'config', 'repossession'));
+  return resolveRepossessionConfig(configSnap.exists() ? (configSnap.data() as Partial<RepossessionConfig>) : null);
+}
+
+/**
+ * Save the agency's repossession config
+ */
+export async function saveRepossessionConfig(
+  agencyId: string,
+  config: RepossessionConfig,
+  actorId: string
+): Promise<Result> {
+  try {
+    const resolved = resolveRepossessionConfig(config);
+    await setDoc(doc(db, 'agencies', agencyId, 'config', 'repossession'), {
+      ...resolved,
+      updatedAt: serverTimestamp(),
+      updatedBy: actorId,
+    });
+
+    createAuditLog(agencyId, {
+      actorId,
+      action: 'repossession_config_updated',
+      targetCollection: 'config',
+      targetId: 'repossession',
+      metadata: { ...resolved },
+    }).catch(() => {
+      // Ignore audit log errors
+    });
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error saving repossession config:', error);
+    return { success: false, error: error.message || 'Failed to save repossession settings' };
+  }
+}
+
+/**
+ * Repossession cases, newest first, optionally for one collateral record or loan
+ */
+export async function getRepossessions(
+  agencyId: string,
+  filter: { collateralId?: string; loanId?: string } = {}
+): Promise<RepossessionCase[]> {
+  const casesRef = collection(db, 'agencies', agencyId, 'repossessions');
+  const snapshot = await getDocs(
+    filter.collateralId
+      ? query(casesRef, where('collateralId', '==', filter.collateralId))
+      : filter.loanId
+        ? query(casesRef, where('loanId', '==', filter.loanId))
+        : casesRef
+  );
+  return snapshot.docs
+    .map((caseDoc) => toRepossessionCase(caseDoc.id, caseDoc.data()))
+    .sort((a, b) => (b.openedAt?.getTime() || 0) - (a.openedAt?.getTime() || 0));
+}
+
+/**
+ * Open a repossession case on collateral securing a loan in arrears and issue
+ * the notice of intention to repossess
+ */
+export async function openRepossession(params: {
+  agencyId: string;
+  loanId: string;
+  collateralId: string;
+  openedBy: string;
+  reason: string;
+}): Promise<Result & { caseId?: string }> {
+  const { agencyId, loanId, collateralId, openedBy } = params;
+
+  try {
+    if (!params.reason.trim()) {
+      return { success: false, error: 'A reason is required to open a repossession' };
+    }
+
+    const loanSnap = await getDoc(doc(db, 'agencies', agencyId, 'loans', loanId));
+    if (!loanSnap.exists()) {
+      return { success: false, error: 'Loan not found' };
+    }
+    const loan = loanSnap.data();
+    if (!REPOSSESSION_LOAN_STATUSES.includes(loan.status)) {
+      return { success: false, error: 'Only collateral on loans in arrears, in default or written off can be repossessed' };
+    }
+
+    const lien = (await getLoanLiens(agencyId, loanId))
+      .find((candidate) => candidate.collateralId === collateralId && candidate.status === 'active');
+    if (!lien) {
+      return { success: false, error: 'This collateral is not pledged to the loan' };
+    }
+
+    const existing = await getRepossessions(agencyId, { collateralId });
+    if (existing.some((other) => OPEN_REPOSSESSION_STATUSES.includes(other.status))) {
+      return { success: false, error: 'A repossession is already open on this collateral' };
+    }
+
+    const amountInArrears = loan.status === LoanStatus.WRITTEN_OFF
+      ? getRecoverableBalance(loan)
+      : sumComponents((await getSettlementQuote(agencyId, loanId)).arrears);
+
+    const caseRef = doc(collection(db, 'agencies', agencyId, 'repossessions'));
+    await setDoc(caseRef, {
+      loanId,
+      collateralId,
+      lienId: lien.id,
+      customerId: loan.customerId || lien.customerId || null,
+      status: 'notified',
+      reason: params.reason.trim(),
+      amountInArrears,
+      notices: [toStoredNotice('intent', openedBy)],
+      costs: [],
+      openedBy,
+      openedAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+
+    await setDoc(doc(db, 'agencies', agencyId, 'collateral', collateralId), {
+      repossessionStatus: 'notified',
+      repossessionId: caseRef.id,
+      updatedAt: serverTimestamp(),
+    }, { merge: true });
+
+    logRepossession(agencyId, openedBy, 'repossession_opened', caseRef.id, {
+      loanId,
+      collateralId,
+      amountInArrears,
+      reason: params.reason.trim(),
+    });
+
+    return { success: true, caseId: caseRef.id };
+  } catch (error: any) {
+    console.error('Error opening repossession:', error);
+    return { success: false, error: error.message || 'Failed to open repossession' };
+  }
+}
+
+/**
+ * Record that the asset was taken into possession once the remedy period has
+ * passed, valuing it in the condition it was found in, and issue the notice
+ * of repossession
+ */
+export async function recordSeizure(params: {
+  agencyId: string;
+  caseId: string;
+  seizedAt: Date;
+  storageLocation: string;
+  condition: 'excellent' | 'good' | 'fair' | 'poor';
+  recordedBy: string;
+}): Promise<Result & { valuation?: SeizureValuation }> {
+  const { agencyId, caseId, seizedAt, recordedBy } = params;
+
+  try {
+    if (!params.storageLocation.trim()) {
+      return { success: false, error: 'Record where the asset is stored' };
+    }
+
+    const caseRef = doc(db, 'agencies', agencyId, 'repossessions', caseId);
+    const caseSnap = await getDoc(caseRef);
+    if (!caseSnap.exists()) {
+      return { success: false, error: 'Repossession not found' };
+    }
+    const record = toRepossessionCase(caseSnap.id, caseSnap.data());
+    const config = await getRepossessionConfig(agencyId);
+
+    const intentNotice = record.notices.find((notice) => notice.type === 'intent');
+    const earliest = getEarliestSeizureDate(intentNotice?.issuedAt || record.openedAt || new Date(), config);
+    if (seizedAt < earliest) {
+      return {
+        success: false,
+        error: `The remedy period runs until ${earliest.toLocaleDateString()}; the asset cannot be seized before then`,
+      };
+    }
+
+    const collateralRef = doc(db, 'agencies', agencyId, 'collateral', record.collateralId);
+    const collateralSnap = await getDoc(collateralRef);
+    const collateral = collateralSnap.exists() ? collateralSnap.data() : {};
+    const pricing = await estimateCollateralPrice({
+      agencyId,
+      type: collateral.type || 'other',
+      description: collateral.description || collateral.name || '',
+      brand: collateral.brand,
+      model: collateral.model,
+      year: collateral.year,
+      condition: params.condition,
+      location: collateral.location,
+      areaHectares: collateral.areaHectares ? Number(collateral.areaHectares) : undefined,
+      estimatedValue: Number(collateral.estimatedValue || collateral.value || 0),
+    });
+    const valuation: SeizureValuation = {
+      marketValue: pricing.estimatedMarketValue,
+      quickSaleValue: pricing.estimatedSalePrice,
+      auctionValue: pricing.auctionPrice,
+      recommendedAction: pricing.recommendedAction,
+      confidence: pricing.confidence,
+    };
+
+    await runTransaction(db, async (transaction) => {
+      const currentSnap = await transaction.get(caseRef);
+      const status = currentSnap.data()?.status as RepossessionStatus;
+      if (!canTransitionRepossession(status, 'seized')) {
+        throw new Error('Only a notified repossession can be recorded as seized');
+      }
+      transaction.update(caseRef, {
+        status: 'seized',
+        seizedAt: Timestamp.fromDate(seizedAt),
+        storageLocation: params.storageLocation.trim(),
+        condition: params.condition,
+        valuation,
+        notices: [...toStoredNotices(record.notices), toStoredNotice('seizure', recordedBy)],
+        updatedAt: serverTimestamp(),
+      });
+      transaction.set(collateralRef, {
+        repossessionStatus: 'seized',
+        storageLocation: params.storageLocation.trim(),
+        updatedAt: serverTimestamp(),
+      }, { merge: true });
+    });
+
+    logRepossession(agencyId, recordedBy, 'repossession_seized', caseId, {
+      loanId: record.loanId,
+      collateralId: record.collateralId,
+      storageLocation: params.storageLocation.trim(),
+      valuation,
+    });
+
+    return { success: true, valuation };
+  } catch (error: any) {
+    console.error('Error recording seizure:', error);
+    return { success: false, error: error.message || 'Failed to record seizure' };
+  }
+}
+
+/**
+ * Move a seized asset to another storage location
+ */
+export async function updateStorageLocation(params: {
+  agencyId: string;
+  caseId: string;
+  storageLocation: string;
+  updatedBy: string;
+}): Promise<Result> {
+  const { agencyId, caseId, updatedBy } = params;
+
+  try {
+    const storageLocation = params.storageLocation.trim();
+    if (!storageLocation) {
+      return { success: false, error: 'Record where the asset is stored' };
+    }
+
+    const caseRef = doc(db, 'agencies', agencyId, 'repossessions', caseId);
+    let collateralId = '';
+    await runTransaction(db, async (transaction) => {
+      const caseSnap = await transaction.get(caseRef);
+      const data = caseSnap.data();
+      if (!data || !['seized', 'listed'].includes(data.status)) {
+        throw new Error('Only an asset in possession can be moved');
+      }
+      collateralId = data.collateralId;
+      transaction.update(caseRef, { storageLocation, updatedAt: serverTimestamp() });
+      transaction.set(doc(db, 'agencies', agencyId, 'collateral', collateralId), {
+        storageLocation,
+        updatedAt: serverTimestamp(),
+      }, { merge: true });
+    });
+
+    logRepossession(agencyId, updatedBy, 'repossession_storage_moved', caseId, { collateralId, storageLocation });
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error updating storage location:', error);
+    return { success: false, error: error.message || 'Failed to update storage location' };
+  }
+}
+
+/**
+ * Add a storage, transport or other cost of the repossession
+ */
+export async function addRepossessionCost(params: {
+  agencyId: string;
+  caseId: string;
+  type: RepossessionCostType;
+  amount: number;
+  date: Date;
+  description?: string;
+  recordedBy: string;
+}): Promise<Result> {
+  const { agencyId, caseId, recordedBy } = params;
+
+  try {
+    if (!(params.amount > 0)) {
+      return { success: false, error: 'Cost must be greater than zero' };
+    }
+
+    const cost: RepossessionCost = {
+      type: params.type,
+      amount: Math.round(params.amount * 100) / 100,
+      date: params.date,
+      ...(params.description?.trim() ? { description: params.description.trim() } : {}),
+    };
+
+    const caseRef = doc(db, 'agencies', agencyId, 'repossessions', caseId);
+    await runTransaction(db, async (transaction) => {
+      const caseSnap = await transaction.get(caseRef);
+      if (!caseSnap.exists()) {
+        throw new Error('Repossession not found');
+      }
+      const record = toRepossessionCase(caseSnap.id, caseSnap.data());
+      if (!['seized', 'listed'].includes(record.status)) {
+        throw new Error('Costs can only be added while the asset is in possession');
+      }
+      transaction.update(caseRef, {
+        costs: toStoredCosts([...record.costs, cost]),
+        updatedAt: serverTimestamp(),
+      });
+    });
+
+    logRepossession(agencyId, recordedBy, 'repossession_cost_added', caseId, {
+      type: cost.type,
+      amount: cost.amount,
+    });
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error adding repossession cost:', error);
+    return { success: false, error: error.message || 'Failed to add cost' };
+  }
+}
+
+/**
+ * Schedule the sale of a seized asset and issue the notice of sale. The sale
+ * date must leave the borrower the redemption and sale notice periods.
+ */
+export async function scheduleRepossessionSale(params: {
+  agencyId: string;
+  caseId: string;
+  saleMethod: RepossessionSaleMethod;
+  saleDate: Date;
+  reservePrice?: number;
+  scheduledBy: string;
+}): Promise<Result> {
+  const { agencyId, caseId, saleMethod, saleDate, scheduledBy } = params;
+
+  try {
+    const caseRef = doc(db, 'agencies', agencyId, 'repossessions', caseId);
+    const config = await getRepossessionConfig(agencyId);
+
+    await runTransaction(db, async (transaction) => {
+      const caseSnap = await transaction.get(caseRef);
+      if (!caseSnap.exists()) {
+        throw new Error('Repossession not found');
+      }
+      const record = toRepossessionCase(caseSnap.id, caseSnap.data());
+      if (!canTransitionRepossession(record.status, 'listed')) {
+        throw new Error('Only a seized asset can be listed for sale');
+      }
+
+      const earliest = getEarliestSaleDate(record.seizedAt || new Date(), new Date(), config);
+      if (saleDate < earliest) {
+        throw new Error(`The borrower's notice periods run until ${earliest.toLocaleDateString()}; schedule the sale on or after then`);
+      }
+
+      transaction.update(caseRef, {
+        status: 'listed',
+        saleMethod,
+        saleDate: Timestamp.fromDate(saleDate),
+        ...(params.reservePrice && params.reservePrice > 0
+          ? { reservePrice: Math.round(params.reservePrice * 100) / 100 }
+          : {}),
+        notices: [...toStoredNotices(record.notices), toStoredNotice('sale', scheduledBy)],
+        updatedAt: serverTimestamp(),
+      });
+    });
+
+    logRepossession(agencyId, scheduledBy, 'repossession_sale_scheduled', caseId, {
+      saleMethod,
+      saleDate: saleDate.toISOString(),
+      reservePrice: params.reservePrice || null,
+    });
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error scheduling repossession sale:', error);
+    return { success: false, error: error.message || 'Failed to schedule sale' };
+  }
+}
+
+/**
+ * Record the sale of a repossessed asset. Net proceeds go to the loan: they
+ * settle it when they cover the payoff, are recorded as a part payment when
+ * they do not, or as a recovery if the loan was written off. The lien is
+ * released, and any surplus stays on the case until it is paid back.
+ */
+export async function recordRepossessionSale(params: {
+  agencyId: string;
+  caseId: string;
+  soldAt: Date;
+  grossProceeds: number;
+  buyerName: string;
+  reference?: string;
+  recordedBy: string;
+  userRole: UserRole;
+}): Promise<Result & { liquidation?: LiquidationResult }> {
+  const { agencyId, caseId, soldAt, recordedBy, userRole } = params;
+
+  try {
+    if (!(params.grossProceeds > 0)) {
+      return { success: false, error: 'Sale price must be greater than zero' };
+    }
+    // The proceeds are applied as of the sale date
+    if ((await checkBackdating(agencyId, soldAt)) !== 'open') {
+      return { success: false, error: 'A sale cannot be dated in a closed period' };
+    }
+
+    const caseRef = doc(db, 'agencies', agencyId, 'repossessions', caseId);
+    const caseSnap = await getDoc(caseRef);
+    if (!caseSnap.exists()) {
+      return { success: false, error: 'Repossession not found' };
+    }
+    const record = toRepossessionCase(caseSnap.id, caseSnap.data());
+    if (!canTransitionRepossession(record.status, 'sold')) {
+      return { success: false, error: 'Only an asset listed for sale can be sold' };
+    }
+    if (record.saleDate && soldAt < new Date(record.saleDate.toDateString())) {
+      return { success: false, error: `The sale was scheduled for ${record.saleDate.toLocaleDateString()} and cannot be dated earlier` };
+    }
+
+    const loanSnap = await getDoc(doc(db, 'agencies', agencyId, 'loans', record.loanId));
+    if (!loanSnap.exists()) {
+      return { success: false, error: 'Loan not found' };
+    }
+    const loan = loanSnap.data();
+    const writtenOff = loan.status === LoanStatus.WRITTEN_OFF;
+    const quote = writtenOff ? null : await getSettlementQuote(agencyId, record.loanId, soldAt);
+    const config = await getRepossessionConfig(agencyId);
+
+    const liquidation = computeLiquidation({
+      grossProceeds: params.grossProceeds,
+      costs: record.costs,
+      amountOwed: writtenOff ? getRecoverableBalance(loan) : quote!.payoffAmount,
+      deductCosts: config.deductCostsFromProceeds,
+    });
+
+    // Apply the proceeds first under an id fixed to the case, so they are
+    // never applied twice
+    const applicationId = `repossession_${caseId}`;
+    const notes = `Proceeds of ${params.buyerName ? `sale to ${params.buyerName}` : 'sale'} of repossessed collateral ${record.collateralId}`;
+    let proceedsApplication: ProceedsApplication = 'none';
+    if (liquidation.appliedToLoan > 0) {
+      if (writtenOff) {
+        const result = await recordLoanRecovery({
+          agencyId,
+          loanId: record.loanId,
+          amount: liquidation.appliedToLoan,
+          recoveryDate: soldAt,
+          source: 'collateral_sale',
+          recordedBy,
+          reference: params.reference,
+          notes,
+          collateralId: record.collateralId,
+          recoveryId: applicationId,
+        });
+        if (!result.success) return result;
+        proceedsApplication = 'recovery';
+      } else if (liquidation.shortfall === 0) {
+        const result = await settleLoan({
+          loanId: record.loanId,
+          agencyId,
+          userId: recordedBy,
+          userRole,
+          settlementDate: soldAt,
+          paymentMethod: 'other',
+          transactionId: applicationId,
+          notes,
+          expectedPayoff: liquidation.amountOwed,
+          closedReason: 'collateral_sale',
+          metadata: { repossessionId: caseId },
+        });
+        if (!result.success) return result;
+        proceedsApplication = 'settlement';
+      } else {
+        const result = await recordLoanPayment({
+          agencyId,
+          loanId: record.loanId,
+          amount: liquidation.appliedToLoan,
+          paymentDate: soldAt,
+          paymentMethod: 'other',
+          recordedBy,
+          transactionId: params.reference,
+          paymentId: applicationId,
+          notes,
+          source: 'repossession',
+        });
+        if (!result.success) return { success: false, error: result.error };
+        proceedsApplication = 'payment';
+      }
+    }
+
+    const closed = liquidation.surplus === 0;
+    await runTransaction(db, async (transaction) => {
+      const currentSnap = await transaction.get(caseRef);
+      if (currentSnap.data()?.status !== 'listed') {
+        throw new Error('This sale has already been recorded');
+      }
+      transaction.update(caseRef, {
+        status: closed ? 'closed' : 'sold',
+        soldAt: Timestamp.fromDate(soldAt),
+        buyerName: params.buyerName.trim(),
+        ...(params.reference ? { saleReference: params.reference } : {}),
+        liquidation,
+        proceedsApplication,
+        ...(closed ? { closedReason: 'sold' } : {}),
+        notices: [...toStoredNotices(record.notices), toStoredNotice('statement', recordedBy)],
+        updatedAt: serverTimestamp(),
+      });
+      transaction.set(doc(db, 'agencies', agencyId, 'collateral', record.collateralId), {
+        repossessionStatus: 'sold',
+        soldAt: Timestamp.fromDate(soldAt),
+        updatedAt: serverTimestamp(),
+      }, { merge: true });
+    });
+
+    // A settled loan has its liens released as it closes
+    if (proceedsApplication !== 'settlement') {
+      const released = await releaseLien({
+        agencyId,
+        lienId: record.lienId,
+        releasedBy: recordedBy,
+        reason: 'Collateral repossessed and sold',
+        repossessionId: caseId,
+      });
+      if (!released.success) {
+        console.error(`Repossession ${caseId} was sold but its lien ${record.lienId} was not released:`, released.error);
+      }
+    }
+
+    logRepossession(agencyId, recordedBy, 'repossession_sold', caseId, {
+      loanId: record.loanId,
+      collateralId: record.collateralId,
+      proceedsApplication,
+      ...liquidation,
+    });
+
+    return { success: true, liquidation };
+  } catch (error: any) {
+    console.error('Error recording repossession sale:', error);
+    return { success: false, error: error.message || 'Failed to record sale' };
+  }
+}
+
+/**
+ * Record that the surplus from a sale was paid back to the borrower, closing the case
+ */
+export async function recordSurplusRefund(params: {
+  agencyId: string;
+  caseId: string;
+  paidAt: Date;
+  paymentMethod: string;
+  reference?: string;
+  paidBy: string;
+}): Promise<Result> {
+  const { agencyId, caseId, paidAt, paidBy } = params;
+
+  try {
+    const caseRef = doc(db, 'agencies', agencyId, 'repossessions', caseId);
+    let surplus = 0;
+    await runTransaction(db, async (transaction) => {
+      const caseSnap = await transaction.get(caseRef);
+      const data = caseSnap.data();
+      if (!data || !canTransitionRepossession(data.status, 'closed')) {
+        throw new Error('Only a sold repossession with a surplus owed can be refunded');
+      }
+      surplus = Number(data.liquidation?.surplus || 0);
+      transaction.update(caseRef, {
+        status: 'closed',
+        closedReason: 'surplus_refunded',
+        surplusPaidAt: Timestamp.fromDate(paidAt),
+        surplusPaymentMethod: params.paymentMethod,
+        ...(params.reference ? { surplusReference: params.reference } : {}),
+        updatedAt: serverTimestamp(),
+      });
+    });
+
+    logRepossession(agencyId, paidBy, 'repossession_surplus_refunded', caseId, {
+      amount: surplus,
+      paymentMethod: params.paymentMethod,
+      reference: params.reference || null,
+    });
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error recording surplus refund:', error);
+    return { success: false, error: error.message || 'Failed to record surplus refund' };
+  }
+}
+
+/**
+ * End a case without a sale: cancelled before seizure when the arrears were
+ * cleared, or redeemed when the borrower paid up and took the asset back
+ */
+export async function endRepossession(params: {
+  agencyId: string;
+  caseId: string;
+  outcome: 'cancelled' | 'redeemed';
+  reason: string;
+  endedBy: string;
+}): Promise<Result> {
+  const { agencyId, caseId, outcome, endedBy } = params;
+
+  try {
+    if (!params.reason.trim()) {
+      return { success: false, error: 'A reason is required' };
+    }
+
+    const caseRef = doc(db, 'agencies', agencyId, 'repossessions', caseId);
+    let collateralId = '';
+    await runTransaction(db, async (transaction) => {
+      const caseSnap = await transaction.get(caseRef);
+      const data = caseSnap.data();
+      if (!data || !canTransitionRepossession(data.status, outcome)) {
+        throw new Error(outcome === 'cancelled'
+          ? 'Only a repossession that has not been seized can be cancelled'
+          : 'Only an asset in possession and not yet sold can be redeemed');
+      }
+      collateralId = data.collateralId;
+      transaction.update(caseRef, {
+        status: outcome,
+        closedReason: params.reason.trim(),
+        updatedAt: serverTimestamp(),
+      });
+      transaction.set(doc(db, 'agencies', agencyId, 'collateral', collateralId), {
+        repossessionStatus: outcome,
+        updatedAt: serverTimestamp(),
+      }, { merge: true });
+    });
+
+    logRepossession(agencyId, endedBy, `repossession_${outcome}`, caseId, {
+      collateralId,
+      reason: params.reason.trim(),
+    });
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error ending repossession:', error);
+    return { success: false, error: error.message || 'Failed to update repossession' };
+  }
+}
+
+/**
+ * What a repossession notice states
+ */
+export async function getRepossessionNoticeData(
+  agencyId: string,
+  record: RepossessionCase,
+  noticeType: RepossessionNoticeType
+) {
+  const notice = record.notices.find((candidate) => candidate.type === noticeType);
+  if (!notice) {
+    throw new Error(`No ${REPOSSESSION_NOTICES[noticeType].toLowerCase()} has been issued on this case`);
+  }
+
+  const [collateralSnap, customerSnap, loanSnap, config] = await Promise.all([
+    getDoc(doc(db, 'agencies', agencyId, 'collateral', record.collateralId)),
+    record.customerId ? getDoc(doc(db, 'agencies', agencyId, 'customers', record.customerId)) : null,
+    getDoc(doc(db, 'agencies', agencyId, 'loans', record.loanId)),
+    getRepossessionConfig(agencyId),
+  ]);
+  const collateral = collateralSnap.exists() ? collateralSnap.data() : {};
+  const customer = customerSnap?.exists() ? customerSnap.data() : {};
+  const loan = loanSnap.exists() ? loanSnap.data() : {};
+
+  const intentNotice = record.notices.find((candidate) => candidate.type === 'intent');
+
+  return {
+    noticeType,
+    caseId: record.id,
+    loanId: loan.loanNumber || record.loanId,
+    customerName: customer.fullName || customer.name || 'Borrower',
+    issuedAt: notice.issuedAt,
+    collateralName: collateral.name || 'Collateral',
+    collateralType: collateral.type || 'other',
+    identifiers: ([
+      [COLLATERAL_IDENTIFIER_KINDS.serial, collateral.serialNumber],
+      [COLLATERAL_IDENTIFIER_KINDS.registration, collateral.registrationNumber],
+      [COLLATERAL_IDENTIFIER_KINDS.title, collateral.titleNumber],
+    ] as Array<[string, string | null | undefined]>)
+      .filter((entry): entry is [string, string] => !!entry[1]),
+    amountInArrears: record.amountInArrears,
+    remedyEndsAt: getEarliestSeizureDate(intentNotice?.issuedAt || notice.issuedAt, config),
+    seizedAt: record.seizedAt,
+    storageLocation: record.storageLocation,
+    redemptionEndsAt: record.seizedAt ? getRedemptionEndDate(record.seizedAt, config) : undefined,
+    saleMethod: record.saleMethod,
+    saleDate: record.saleDate,
+    soldAt: record.soldAt,
+    costs: record.costs,
+    liquidation: record.liquidation,
+  };
+}
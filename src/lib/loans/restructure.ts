@@ -0,0 +1,279 @@
+/**
+ * Loan Restructuring Workflow
+ *
+ * Collections staff request a restructure (capitalize arrears, new rate/term/frequency);
+ * a manager approves it through changeLoanStatus, whose transaction writes the new
+ * schedule version and keeps the superseded schedule for history.
+ */
+
+import {
+  doc,
+  getDoc,
+  getDocs,
+  collection,
+  addDoc,
+  updateDoc,
+  serverTimestamp,
+  query,
+  where,
+} from 'firebase/firestore';
+import { db } from '../firebase/config';
+import { createAuditLog } from '../firebase/firestore-helpers';
+import { getLoanScheduleOptions } from '../firebase/loan-calculations';
+import { getBusinessCalendar, getLoanSettings } from '../firebase/loan-settings';
+import { toAllocationInstallment, updateLoanAfterPayment } from '../firebase/repayment-helpers';
+import { LoanStatus, UserRole, LoanAuditAction, canPerformAction } from '../../types/loan-workflow';
+import { changeLoanStatus } from './workflow';
+import {
+  buildRestructurePlan,
+  type RestructurePlan,
+  type RestructureTerms,
+} from '../../../packages/loan-rules/src/restructure';
+
+export type { RestructurePlan, RestructureTerms };
+
+export interface RequestRestructureParams {
+  loanId: string;
+  agencyId: string;
+  userId: string;
+  userRole: UserRole;
+  terms: RestructureTerms;
+  reason: string;
+}
+
+export interface RestructureDecisionParams {
+  loanId: string;
+  agencyId: string;
+  restructureId: string;
+  userId: string;
+  userRole: UserRole;
+  notes: string;
+}
+
+/**
+ * Preview a restructure of a loan as of a date
+ */
+export async function previewLoanRestructure(
+  agencyId: string,
+  loanId: string,
+  terms: RestructureTerms,
+  restructureDate: Date = new Date()
+): Promise<RestructurePlan> {
+  const loanSnap = await getDoc(doc(db, 'agencies', agencyId, 'loans', loanId));
+  if (!loanSnap.exists()) {
+    throw new Error('Loan not found');
+  }
+
+  const repaymentsSnapshot = await getDocs(collection(db, 'agencies', agencyId, 'loans', loanId, 'repayments'));
+  const installments = repaymentsSnapshot.docs.map((d) => toAllocationInstallment({ id: d.id, ...d.data() }));
+  const settings = await getLoanSettings(agencyId);
+
+  return buildRestructurePlan({
+    installments,
+    restructureDate,
+    terms: {
+      ...terms,
+      method: terms.method || getLoanScheduleOptions(loanSnap.data(), settings.interestCalculationMethod).method,
+    },
+    dayCount: settings.dayCountConvention,
+    calendar: getBusinessCalendar(settings),
+  });
+}
+
+/**
+ * Get the restructure request awaiting a decision, if any
+ */
+export async function getPendingRestructure(agencyId: string, loanId: string): Promise<any | null> {
+  const restructuresRef = collection(db, 'agencies', agencyId, 'loans', loanId, 'restructures');
+  const snapshot = await getDocs(query(restructuresRef, where('status', '==', 'pending')));
+  if (snapshot.empty) {
+    return null;
+  }
+  return { id: snapshot.docs[0].id, ...snapshot.docs[0].data() };
+}
+
+/**
+ * Request a restructure (Active/Overdue/Restructured → Restructuring)
+ */
+export async function requestLoanRestructure(params: RequestRestructureParams): Promise<{
+  success: boolean;
+  error?: string;
+  restructureId?: string;
+}> {
+  const { loanId, agencyId, userId, userRole, terms, reason } = params;
+
+  try {
+    if (!reason.trim()) {
+      return { success: false, error: 'A reason is required to restructure a loan' };
+    }
+    if (terms.durationMonths <= 0 || terms.annualRate < 0) {
+      return { success: false, error: 'Restructure terms must have a positive term and a non-negative rate' };
+    }
+
+    const loanRef = doc(db, 'agencies', agencyId, 'loans', loanId);
+    const loanSnap = await getDoc(loanRef);
+    if (!loanSnap.exists()) {
+      return { success: false, error: 'Loan not found' };
+    }
+
+    const currentStatus = loanSnap.data().status as LoanStatus;
+    if (!canPerformAction('restructure', userRole, currentStatus)) {
+      return { success: false, error: 'You do not have permission to restructure this loan' };
+    }
+
+    if (await getPendingRestructure(agencyId, loanId)) {
+      return { success: false, error: 'A restructure request is already awaiting approval' };
+    }
+
+    const plan = await previewLoanRestructure(agencyId, loanId, terms);
+    if (plan.newPrincipal <= 0) {
+      return { success: false, error: 'Loan has no outstanding balance to restructure' };
+    }
+
+    const restructureRef = await addDoc(collection(db, 'agencies', agencyId, 'loans', loanId, 'restructures'), {
+      status: 'pending',
+      previousStatus: currentStatus,
+      terms,
+      reason,
+      preview: {
+        outstandingPrincipal: plan.outstandingPrincipal,
+        capitalizedAmount: plan.capitalizedAmount,
+        waivedPenalties: plan.waivedPenalties,
+        newPrincipal: plan.newPrincipal,
+        installmentAmount: plan.schedule.installmentAmount,
+        numberOfInstallments: plan.schedule.numberOfInstallments,
+        totalAmount: plan.schedule.totalAmount,
+      },
+      requestedBy: userId,
+      requestedByRole: userRole,
+      requestedAt: serverTimestamp(),
+    });
+
+    const result = await changeLoanStatus({
+      loanId,
+      agencyId,
+      newStatus: LoanStatus.RESTRUCTURING,
+      userId,
+      userRole,
+      notes: `Restructure requested: ${reason}`,
+    });
+
+    if (!result.success) {
+      await updateDoc(restructureRef, { status: 'cancelled', updatedAt: serverTimestamp() });
+      return { success: false, error: result.error };
+    }
+
+    await createAuditLog(agencyId, {
+      actorId: userId,
+      action: 'loan_restructure_requested',
+      targetCollection: 'loans',
+      targetId: loanId,
+      metadata: {
+        action: LoanAuditAction.RESTRUCTURE_REQUESTED,
+        restructureId: restructureRef.id,
+        terms,
+        reason,
+        newPrincipal: plan.newPrincipal,
+      },
+    });
+
+    return { success: true, restructureId: restructureRef.id };
+  } catch (error: any) {
+    console.error('Error requesting loan restructure:', error);
+    return { success: false, error: error.message || 'Failed to request restructure' };
+  }
+}
+
+/**
+ * Approve a restructure (Restructuring → Restructured)
+ *
+ * transitionLoanStatus recomputes the plan at approval time, so arrears that
+ * moved since the request are capitalized correctly, and rewrites the
+ * schedule in the same transaction as the status change, archiving the
+ * superseded schedule in scheduleVersions.
+ */
+export async function approveLoanRestructure(params: RestructureDecisionParams): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  const { loanId, agencyId, restructureId, userId, userRole, notes } = params;
+
+  try {
+    const restructureSnap = await getDoc(doc(db, 'agencies', agencyId, 'loans', loanId, 'restructures', restructureId));
+    if (!restructureSnap.exists()) {
+      return { success: false, error: 'Restructure request not found' };
+    }
+
+    const request = restructureSnap.data();
+    if (request.status !== 'pending') {
+      return { success: false, error: `Restructure request is already ${request.status}` };
+    }
+    if (request.requestedBy === userId) {
+      return { success: false, error: 'A restructure must be approved by someone other than the requester' };
+    }
+
+    const result = await changeLoanStatus({
+      loanId,
+      agencyId,
+      newStatus: LoanStatus.RESTRUCTURED,
+      userId,
+      userRole,
+      notes,
+    });
+
+    if (!result.success) {
+      return result;
+    }
+
+    await updateLoanAfterPayment(agencyId, loanId);
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error approving loan restructure:', error);
+    return { success: false, error: error.message || 'Failed to approve restructure' };
+  }
+}
+
+/**
+ * Reject a restructure (Restructuring → the status it was requested from)
+ */
+export async function rejectLoanRestructure(params: RestructureDecisionParams): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  const { loanId, agencyId, restructureId, userId, userRole, notes } = params;
+
+  try {
+    const loanRef = doc(db, 'agencies', agencyId, 'loans', loanId);
+    const restructureRef = doc(db, 'agencies', agencyId, 'loans', loanId, 'restructures', restructureId);
+    const [loanSnap, restructureSnap] = await Promise.all([getDoc(loanRef), getDoc(restructureRef)]);
+
+    if (!loanSnap.exists() || !restructureSnap.exists()) {
+      return { success: false, error: 'Loan or restructure request not found' };
+    }
+
+    const request = restructureSnap.data();
+    if (request.status !== 'pending') {
+      return { success: false, error: `Restructure request is already ${request.status}` };
+    }
+
+    const returnStatus = (request.previousStatus as LoanStatus) || LoanStatus.ACTIVE;
+    const result = await changeLoanStatus({
+      loanId,
+      agencyId,
+      newStatus: returnStatus,
+      userId,
+      userRole,
+      notes,
+    });
+
+    if (!result.success) {
+      return result;
+    }
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error rejecting loan restructure:', error);
+    return { success: false, error: error.message || 'Failed to reject restructure' };
+  }
+}
@@ -0,0 +1,275 @@
+/**
+ * Early Settlement Workflow
+ *
+ * Staff quote the payoff amount for a loan as of a date (applying the agency's
+ * interest rebate rule), issue the dated quote to the borrower, and on payment
+ * accept it: changeLoanStatus settles every outstanding installment and closes
+ * the loan together. Top-ups settle the loans they refinance when disbursed.
+ */
+
+import {
+  doc,
+  getDoc,
+  getDocs,
+  collection,
+  addDoc,
+  serverTimestamp,
+  Timestamp,
+} from 'firebase/firestore';
+import { db } from '../firebase/config';
+import { createAuditLog } from '../firebase/firestore-helpers';
+import { getLoanSettings, getSettlementRebateConfig } from '../firebase/loan-settings';
+import { toAllocationInstallment, updateLoanAfterPayment } from '../firebase/repayment-helpers';
+import { LoanStatus, UserRole } from '../../types/loan-workflow';
+import { changeLoanStatus, type LoanSettlementRequest } from './workflow';
+import { getCashDrawer } from '../branches/teller-sessions';
+import {
+  calculateSettlementQuote,
+  type SettlementQuote,
+} from '../../../packages/loan-rules/src/settlement';
+import { isCashMethod } from '../../../packages/loan-rules/src/cash-management';
+import { toDateValue } from '../../../packages/loan-rules/src/utils';
+
+export type { SettlementQuote };
+
+export interface AcceptSettlementParams {
+  loanId: string;
+  agencyId: string;
+  quoteId: string;
+  userId: string;
+  userRole: UserRole;
+  paymentMethod: string;
+  transactionId?: string;
+  notes?: string;
+}
+
+export interface SettleLoanParams {
+  loanId: string;
+  agencyId: string;
+  userId: string;
+  userRole: UserRole;
+  settlementDate: Date;
+  paymentMethod: string;
+  transactionId?: string;
+  notes?: string;
+  quoteId?: string; // Settlement quote being accepted, if any
+  expectedPayoff?: number; // Refuse to settle if the payoff has moved from this amount
+  closedReason?: LoanSettlementRequest['closedReason']; // Recorded on the loan
+  metadata?: Pick<LoanSettlementRequest, 'repossessionId'>; // Links recorded on the loan
+}
+
+/**
+ * Quotes are valid until the end of their settlement date
+ */
+function getQuoteExpiry(settlementDate: Date): Date {
+  const expiry = new Date(settlementDate);
+  expiry.setHours(23, 59, 59, 999);
+  return expiry;
+}
+
+/**
+ * Calculate the payoff amount of a loan as of a date
+ */
+export async function getSettlementQuote(
+  agencyId: string,
+  loanId: string,
+  settlementDate: Date = new Date()
+): Promise<SettlementQuote> {
+  const loanSnap = await getDoc(doc(db, 'agencies', agencyId, 'loans', loanId));
+  if (!loanSnap.exists()) {
+    throw new Error('Loan not found');
+  }
+
+  const loan = loanSnap.data();
+  const repaymentsSnapshot = await getDocs(collection(db, 'agencies', agencyId, 'loans', loanId, 'repayments'));
+  const installments = repaymentsSnapshot.docs.map((d) => toAllocationInstallment({ id: d.id, ...d.data() }));
+  const settings = await getLoanSettings(agencyId);
+
+  const startDate =
+    toDateValue(loan.disbursementDate) ||
+    toDateValue(loan.disbursedAt) ||
+    toDateValue(loan.disbursed_at) ||
+    toDateValue(loan.createdAt) ||
+    settlementDate;
+
+  return calculateSettlementQuote({
+    installments,
+    settlementDate,
+    startDate,
+    rebate: getSettlementRebateConfig(settings),
+    dayCount: settings.dayCountConvention,
+  });
+}
+
+/**
+ * Issue a dated settlement quote so it can be sent to the borrower and accepted later
+ */
+export async function issueSettlementQuote(params: {
+  loanId: string;
+  agencyId: string;
+  userId: string;
+  settlementDate: Date;
+}): Promise<{
+  success: boolean;
+  error?: string;
+  quoteId?: string;
+  quote?: SettlementQuote;
+  validUntil?: Date;
+}> {
+  const { loanId, agencyId, userId, settlementDate } = params;
+
+  try {
+    const quote = await getSettlementQuote(agencyId, loanId, settlementDate);
+    if (quote.payoffAmount <= 0) {
+      return { success: false, error: 'Loan has no outstanding balance to settle' };
+    }
+
+    const validUntil = getQuoteExpiry(settlementDate);
+    const quoteRef = await addDoc(collection(db, 'agencies', agencyId, 'loans', loanId, 'settlementQuotes'), {
+      ...quote,
+      settlementDate: Timestamp.fromDate(settlementDate),
+      validUntil: Timestamp.fromDate(validUntil),
+      status: 'issued',
+      issuedBy: userId,
+      issuedAt: serverTimestamp(),
+    });
+
+    await createAuditLog(agencyId, {
+      actorId: userId,
+      action: 'settlement_quote_issued',
+      targetCollection: 'loans',
+      targetId: loanId,
+      metadata: {
+        quoteId: quoteRef.id,
+        settlementDate: settlementDate.toISOString(),
+        payoffAmount: quote.payoffAmount,
+        rebate: quote.rebate,
+        rebateMethod: quote.rebateMethod,
+      },
+    });
+
+    return { success: true, quoteId: quoteRef.id, quote, validUntil };
+  } catch (error: any) {
+    console.error('Error issuing settlement quote:', error);
+    return { success: false, error: error.message || 'Failed to issue settlement quote' };
+  }
+}
+
+/**
+ * Settle a loan in full as of a date (Active/Overdue/Restructured → Closed)
+ *
+ * transitionLoanStatus recalculates the payoff, so a payment recorded after a
+ * quote was issued cannot be double counted, and settles every installment in
+ * the transaction that closes the loan. Unearned interest rebated by the quote
+ * is waived on the installments it was scheduled on.
+ */
+export async function settleLoan(params: SettleLoanParams): Promise<{
+  success: boolean;
+  error?: string;
+  quote?: SettlementQuote;
+}> {
+  const {
+    loanId,
+    agencyId,
+    userId,
+    userRole,
+    settlementDate,
+    paymentMethod,
+    transactionId,
+    notes,
+    quoteId,
+    expectedPayoff,
+    closedReason,
+    metadata,
+  } = params;
+
+  try {
+    const quote = await getSettlementQuote(agencyId, loanId, settlementDate);
+    if (expectedPayoff !== undefined && Math.abs(quote.payoffAmount - expectedPayoff) > 0.01) {
+      return { success: false, error: 'The loan balance has changed since this quote was issued. Issue a new quote.' };
+    }
+
+    const drawer = isCashMethod(paymentMethod) ? await getCashDrawer(agencyId, userId) : { session: null };
+    if (drawer.error) {
+      return { success: false, error: drawer.error };
+    }
+
+    const paymentTransactionId = transactionId?.trim() || `settlement-${loanId}-${quoteId || settlementDate.getTime()}`;
+
+    const result = await changeLoanStatus({
+      loanId,
+      agencyId,
+      newStatus: LoanStatus.CLOSED,
+      userId,
+      userRole,
+      notes: notes || (quoteId ? `Settled early on quote ${quoteId}` : 'Settled early'),
+      settlement: {
+        settlementDate,
+        paymentMethod,
+        transactionId: paymentTransactionId,
+        quoteId,
+        expectedPayoff: quote.payoffAmount,
+        closedReason: closedReason || 'early_settlement',
+        ...(metadata || {}),
+      },
+      tellerSessionId: drawer.session?.id,
+    });
+
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    await updateLoanAfterPayment(agencyId, loanId);
+
+    return { success: true, quote };
+  } catch (error: any) {
+    console.error('Error settling loan:', error);
+    return { success: false, error: error.message || 'Failed to settle loan' };
+  }
+}
+
+/**
+ * Accept an issued settlement quote on payment of the payoff amount
+ */
+export async function acceptSettlementQuote(params: AcceptSettlementParams): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  const { loanId, agencyId, quoteId, userId, userRole, paymentMethod, transactionId, notes } = params;
+
+  try {
+    const quoteSnap = await getDoc(doc(db, 'agencies', agencyId, 'loans', loanId, 'settlementQuotes', quoteId));
+    if (!quoteSnap.exists()) {
+      return { success: false, error: 'Settlement quote not found' };
+    }
+
+    const issued = quoteSnap.data();
+    if (issued.status !== 'issued') {
+      return { success: false, error: `Settlement quote is already ${issued.status}` };
+    }
+
+    const settlementDate = toDateValue(issued.settlementDate) || new Date();
+    const validUntil = toDateValue(issued.validUntil) || getQuoteExpiry(settlementDate);
+    if (Date.now() > validUntil.getTime()) {
+      return { success: false, error: 'Settlement quote has expired. Issue a new quote.' };
+    }
+
+    const result = await settleLoan({
+      loanId,
+      agencyId,
+      userId,
+      userRole,
+      settlementDate,
+      paymentMethod,
+      transactionId,
+      notes,
+      quoteId,
+      expectedPayoff: Number(issued.payoffAmount || 0),
+    });
+
+    return { success: result.success, error: result.error };
+  } catch (error: any) {
+    console.error('Error accepting settlement quote:', error);
+    return { success: false, error: error.message || 'Failed to accept settlement quote' };
+  }
+}
@@ -4,12 +4,14 @@
  * Handles all loan status transitions with proper validation, permissions, and audit logging
  */
 
-import { LoanStatus, UserRole, LoanApproval, LoanAuditAction, canTransitionStatus, canPerformAction } from '../../types/loan-workflow';
-import { doc, updateDoc, getDoc, serverTimestamp, collection, addDoc } from 'firebase/firestore';
-import { db } from '../firebase/config';
-import { createAuditLog } from '../firebase/firestore-helpers';
-import { supabase } from '../supabase/client';
+import { LoanStatus, UserRole, canPerformAction } from '../../types/loan-workflow';
+import { doc, getDoc } from 'firebase/firestore';
+import { httpsCallable } from 'firebase/functions';
+import { db, functions } from '../firebase/config';
 import { notifyLoanSubmitted, notifyLoanApproved, notifyLoanRejected, notifyLoanDisbursed } from './notifications';
+import { getCashDrawer, getSessionExpectedCash } from '../branches/teller-sessions';
+import type { ApprovalRequirement } from '../../../packages/loan-rules/src/approval-matrix';
+import { isCashMethod } from '../../../packages/loan-rules/src/cash-management';
 
 export interface ChangeLoanStatusParams {
   loanId: string;
@@ -18,7 +20,40 @@ export interface ChangeLoanStatusParams {
   userId: string;
   userRole: UserRole;
   notes?: string;
-  approval?: LoanApproval;
+  disbursementDate?: Date;
+  settlement?: LoanSettlementRequest; // Closing the loan by paying it off
+  tellerSessionId?: string; // Teller session the disbursed or settled cash goes through
+}
+
+/**
+ * Payoff applied by transitionLoanStatus in the same transaction that closes the loan
+ */
+export interface LoanSettlementRequest {
+  settlementDate: Date;
+  paymentMethod: string;
+  transactionId?: string;
+  quoteId?: string;
+  expectedPayoff?: number; // Refuse to settle if the payoff has moved from this amount
+  closedReason?: 'early_settlement' | 'collateral_sale';
+  repossessionId?: string;
+}
+
+interface TransitionLoanStatusRequest {
+  agencyId: string;
+  loanId: string;
+  newStatus: LoanStatus;
+  notes?: string;
+  disbursementDate?: string;
+  settlement?: Omit<LoanSettlementRequest, 'settlementDate'> & { settlementDate: string };
+  tellerSessionId?: string;
+}
+
+interface TransitionLoanStatusResponse {
+  success: boolean;
+  error?: string;
+  previousStatus?: LoanStatus;
+  awaitingApprovals?: ApprovalRequirement[];
+  releasedLienIds?: string[];
 }
 
 export interface SubmitLoanParams {
@@ -29,126 +64,47 @@ export interface SubmitLoanParams {
 }
 
 /**
- * Change loan status with full validation and audit logging
+ * Change loan status through the server-side state machine
+ *
+ * The transition function validates the move, applies its side-effects and
+ * writes the audit trail; notifications are sent from here once it succeeds.
  */
 export async function changeLoanStatus(params: ChangeLoanStatusParams): Promise<{
   success: boolean;
   error?: string;
   previousStatus?: LoanStatus;
+  awaitingApprovals?: ApprovalRequirement[];
+  releasedLienIds?: string[]; // Collateral liens released because the loan closed
 }> {
-  const { loanId, agencyId, newStatus, userId, userRole, notes, approval } = params;
+  const { loanId, agencyId, newStatus, notes, disbursementDate, settlement, tellerSessionId } = params;
 
   try {
-    // Get current loan data
-    const loanRef = doc(db, 'agencies', agencyId, 'loans', loanId);
-    const loanSnap = await getDoc(loanRef);
-
+    // Loan details for notifications
+    const loanSnap = await getDoc(doc(db, 'agencies', agencyId, 'loans', loanId));
     if (!loanSnap.exists()) {
       return { success: false, error: 'Loan not found' };
     }
-
     const loanData = loanSnap.data();
-    const currentStatus = loanData.status as LoanStatus;
-
-    // Validate status transition
-    if (!canTransitionStatus(currentStatus, newStatus, userRole)) {
-      return {
-        success: false,
-        error: `Cannot transition from ${currentStatus} to ${newStatus} with role ${userRole}`,
-      };
-    }
-
-    // Validate permissions
-    let action: 'approve' | 'reject' | 'disburse' | 'close' | 'submit' = 'submit';
-    if (newStatus === LoanStatus.APPROVED) action = 'approve';
-    if (newStatus === LoanStatus.REJECTED) action = 'reject';
-    if (newStatus === LoanStatus.DISBURSED) action = 'disburse';
-    if (newStatus === LoanStatus.CLOSED) action = 'close';
-
-    if (!canPerformAction(action, userRole, currentStatus, loanData.createdBy === userId)) {
-      return {
-        success: false,
-        error: `You do not have permission to ${action} loans`,
-      };
-    }
-
-    // Prepare update data
-    const updateData: any = {
-      status: newStatus,
-      updated_at: new Date().toISOString(),
-    };
-
-    // Add approval data if provided
-    if (approval) {
-      updateData.approval = {
-        decision: approval.decision,
-        reviewedBy: approval.reviewedBy,
-        reviewedAt: approval.reviewedAt,
-        notes: approval.notes,
-        previousStatus: approval.previousStatus,
-        newStatus: approval.newStatus,
-      };
-      updateData.approved_by = approval.reviewedBy;
-    }
-
-    // Update status-specific fields
-    if (newStatus === LoanStatus.DISBURSED) {
-      updateData.disbursed_at = new Date().toISOString();
-      updateData.disbursed_by = userId;
-    }
-
-    if (newStatus === LoanStatus.CLOSED) {
-      updateData.closed_at = new Date().toISOString();
-      updateData.closed_by = userId;
-    }
 
-    // Update in Supabase (primary database)
-    const { error: supabaseError } = await supabase
-      .from('loans')
-      .update({
-        status: newStatus,
-        approved_by: approval?.reviewedBy || null,
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', loanId);
+    const transitionLoanStatus = httpsCallable<TransitionLoanStatusRequest, TransitionLoanStatusResponse>(
+      functions,
+      'transitionLoanStatus'
+    );
+    const { data: result } = await transitionLoanStatus({
+      agencyId,
+      loanId,
+      newStatus,
+      notes,
+      disbursementDate: disbursementDate?.toISOString(),
+      ...(settlement ? { settlement: { ...settlement, settlementDate: settlement.settlementDate.toISOString() } } : {}),
+      ...(tellerSessionId ? { tellerSessionId } : {}),
+    });
 
-    if (supabaseError) {
-      console.error('Supabase update error:', supabaseError);
-      // Continue with Firestore update even if Supabase fails
+    if (!result.success || result.awaitingApprovals) {
+      return result;
     }
 
-    // Update in Firestore
-    await updateDoc(loanRef, updateData);
-
-    // Create audit log
-    await createAuditLog(agencyId, {
-      actorId: userId,
-      action: 'loan_status_change',
-      targetCollection: 'loans',
-      targetId: loanId,
-      metadata: {
-        previousStatus: currentStatus,
-        newStatus: newStatus,
-        action: LoanAuditAction.STATUS_CHANGE,
-        notes: notes || approval?.notes || '',
-        role: userRole,
-      },
-    });
-
-    // Create audit log entry in Firestore
-    const auditLogRef = collection(db, 'agencies', agencyId, 'loans', loanId, 'audit_logs');
-    await addDoc(auditLogRef, {
-      action: LoanAuditAction.STATUS_CHANGE,
-      previousStatus: currentStatus,
-      newStatus: newStatus,
-      performedBy: userId,
-      performedByRole: userRole,
-      timestamp: new Date().toISOString(),
-      notes: notes || approval?.notes || '',
-      metadata: {
-        approval: approval || null,
-      },
-    });
+    const currentStatus = result.previousStatus;
 
     // Send notifications based on status change
     try {
@@ -161,8 +117,8 @@ export async function changeLoanStatus(params: ChangeLoanStatusParams): Promise<
         amount: loanData.amount,
         status: newStatus,
         previousStatus: currentStatus,
-        performedBy: userId,
-        notes: notes || approval?.notes,
+        performedBy: params.userId,
+        notes,
       };
 
       if (newStatus === LoanStatus.PENDING && currentStatus === LoanStatus.DRAFT) {
@@ -182,6 +138,7 @@ export async function changeLoanStatus(params: ChangeLoanStatusParams): Promise<
     return {
       success: true,
       previousStatus: currentStatus,
+      releasedLienIds: result.releasedLienIds,
     };
   } catch (error: any) {
     console.error('Error changing loan status:', error);
@@ -220,7 +177,8 @@ export async function submitLoanForReview(params: SubmitLoanParams): Promise<{
 }
 
 /**
- * Approve loan (Under Review → Approved)
+ * Approve loan (Pending/Under Review → Approved)
+ * Records the approver's signature; the loan moves to approved once the approval matrix is met
  */
 export async function approveLoan(
   loanId: string,
@@ -228,29 +186,7 @@ export async function approveLoan(
   userId: string,
   userRole: UserRole,
   notes: string
-): Promise<{ success: boolean; error?: string }> {
-  // Get current status
-  const loanRef = doc(db, 'agencies', agencyId, 'loans', loanId);
-  const loanSnap = await getDoc(loanRef);
-
-  if (!loanSnap.exists()) {
-    return { success: false, error: 'Loan not found' };
-  }
-
-  const currentStatus = loanSnap.data().status as LoanStatus;
-
-  // Allow direct approval from PENDING status (simplified workflow)
-  // Loan officers submit → PENDING → Admin/Accountant approves → APPROVED
-  const approval: LoanApproval = {
-    decision: 'approved',
-    reviewedBy: userId,
-    reviewedAt: new Date().toISOString(),
-    notes: notes,
-    previousStatus: currentStatus,
-    newStatus: LoanStatus.APPROVED,
-  };
-
-  // Approve directly (pending → approved)
+): Promise<{ success: boolean; error?: string; awaitingApprovals?: ApprovalRequirement[] }> {
   return await changeLoanStatus({
     loanId,
     agencyId,
@@ -258,7 +194,6 @@ export async function approveLoan(
     userId,
     userRole,
     notes: notes,
-    approval: approval,
   });
 }
 
@@ -271,26 +206,7 @@ export async function rejectLoan(
   userId: string,
   userRole: UserRole,
   notes: string
-): Promise<{ success: boolean; error?: string }> {
-  const loanRef = doc(db, 'agencies', agencyId, 'loans', loanId);
-  const loanSnap = await getDoc(loanRef);
-
-  if (!loanSnap.exists()) {
-    return { success: false, error: 'Loan not found' };
-  }
-
-  const currentStatus = loanSnap.data().status as LoanStatus;
-
-  const approval: LoanApproval = {
-    decision: 'rejected',
-    reviewedBy: userId,
-    reviewedAt: new Date().toISOString(),
-    notes: notes,
-    previousStatus: currentStatus,
-    newStatus: LoanStatus.REJECTED,
-  };
-
-  // Reject directly from PENDING or UNDER_REVIEW
+): Promise<{ success: boolean; error?: string; awaitingApprovals?: ApprovalRequirement[] }> {
   return await changeLoanStatus({
     loanId,
     agencyId,
@@ -298,19 +214,21 @@ export async function rejectLoan(
     userId,
     userRole,
     notes: notes,
-    approval: approval,
   });
 }
 
 /**
- * Disburse loan (Approved → Disbursed → Active)
+ * Disburse loan (Approved → Disbursed → Active). A cash disbursement is paid
+ * out of the disbursing teller's drawer and a top-up settles the loans it
+ * refinances, both in the same transition.
  */
 export async function disburseLoan(
   loanId: string,
   agencyId: string,
   userId: string,
   userRole: UserRole,
-  disbursementDate?: Date
+  disbursementDate?: Date,
+  disbursementMethod?: string
 ): Promise<{ success: boolean; error?: string }> {
   // Validate permission
   if (!canPerformAction('disburse', userRole, LoanStatus.APPROVED, false)) {
@@ -320,6 +238,24 @@ export async function disburseLoan(
     };
   }
 
+  const loanSnap = await getDoc(doc(db, 'agencies', agencyId, 'loans', loanId));
+
+  // The drawer must hold the cash before anything is disbursed
+  const loanData = loanSnap.exists() ? loanSnap.data() : {};
+  const cashAmount = Number(loanData.refinance?.netDisbursement ?? loanData.amount ?? 0);
+  const drawer = isCashMethod(disbursementMethod) && cashAmount > 0
+    ? await getCashDrawer(agencyId, userId)
+    : { session: null };
+  if (drawer.error) {
+    return { success: false, error: drawer.error };
+  }
+  if (drawer.session && cashAmount > getSessionExpectedCash(drawer.session) + 0.005) {
+    return {
+      success: false,
+      error: `Your drawer should hold only ${getSessionExpectedCash(drawer.session).toFixed(2)}; get a top-up from the vault first`,
+    };
+  }
+
   const result = await changeLoanStatus({
     loanId,
     agencyId,
@@ -327,6 +263,8 @@ export async function disburseLoan(
     userId,
     userRole,
     notes: `Loan disbursed on ${disbursementDate?.toISOString() || new Date().toISOString()}`,
+    disbursementDate,
+    tellerSessionId: drawer.session?.id,
   });
 
   if (result.success) {
@@ -0,0 +1,386 @@
+/**
+ * Loan Write-off and Recovery Workflow
+ *
+ * Staff request a write-off of a loan that is overdue, restructured or
+ * defaulted; someone other than the requester approves it through
+ * changeLoanStatus, which takes the balances off the books and posts the
+ * loss. The loan stays on file as written off, and recoveries (cash,
+ * collateral sale proceeds, guarantor payments) are recorded against it.
+ */
+
+import {
+  doc,
+  getDoc,
+  getDocs,
+  collection,
+  addDoc,
+  updateDoc,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+  query,
+  where,
+  orderBy,
+} from 'firebase/firestore';
+import { db } from '../firebase/config';
+import { createAuditLog } from '../firebase/firestore-helpers';
+import { toAllocationInstallment } from '../firebase/repayment-helpers';
+import { checkBackdating } from '../accounting/period-close';
+import { LoanStatus, UserRole, LoanAuditAction, getLoanPermissions } from '../../types/loan-workflow';
+import { changeLoanStatus } from './workflow';
+import {
+  computeWriteOffBalances,
+  getBookedInterestReceivable,
+  getRecoverableBalance,
+  summarizeCreditLosses,
+  type CreditLossSummary,
+  type RecoverySource,
+  type WriteOffBalances,
+} from '../../../packages/loan-rules/src/write-off';
+
+export type { CreditLossSummary, RecoverySource, WriteOffBalances };
+
+export interface RequestWriteOffParams {
+  loanId: string;
+  agencyId: string;
+  userId: string;
+  userRole: UserRole;
+  reason: string;
+}
+
+export interface WriteOffDecisionParams {
+  loanId: string;
+  agencyId: string;
+  writeOffId: string;
+  userId: string;
+  userRole: UserRole;
+  notes: string;
+}
+
+export interface RecordRecoveryParams {
+  agencyId: string;
+  loanId: string;
+  amount: number;
+  recoveryDate: Date;
+  source: RecoverySource;
+  recordedBy: string;
+  reference?: string;
+  notes?: string;
+  collateralId?: string;
+  recoveryId?: string; // Fixed id so the same proceeds cannot be recorded twice
+}
+
+export interface LoanRecovery {
+  id: string;
+  amount: number;
+  recoveryDate: Date;
+  source: RecoverySource;
+  reference?: string;
+  notes?: string;
+  collateralId?: string;
+  recordedBy: string;
+}
+
+/**
+ * Balances that would be written off a loan today
+ */
+export async function previewLoanWriteOff(agencyId: string, loanId: string): Promise<WriteOffBalances> {
+  const loanRef = doc(db, 'agencies', agencyId, 'loans', loanId);
+  const [loanSnap, repaymentsSnapshot, paymentsSnapshot] = await Promise.all([
+    getDoc(loanRef),
+    getDocs(collection(loanRef, 'repayments')),
+    getDocs(collection(loanRef, 'payments')),
+  ]);
+  if (!loanSnap.exists()) {
+    throw new Error('Loan not found');
+  }
+
+  return computeWriteOffBalances(
+    repaymentsSnapshot.docs.map((d) => toAllocationInstallment({ id: d.id, ...d.data() })),
+    new Date(),
+    getBookedInterestReceivable(loanSnap.data().accruedInterest, paymentsSnapshot.docs.map((d) => d.data()))
+  );
+}
+
+/**
+ * Get the write-off request awaiting a decision, if any
+ */
+export async function getPendingWriteOff(agencyId: string, loanId: string): Promise<any | null> {
+  const writeOffsRef = collection(db, 'agencies', agencyId, 'loans', loanId, 'writeOffs');
+  const snapshot = await getDocs(query(writeOffsRef, where('status', '==', 'pending')));
+  if (snapshot.empty) {
+    return null;
+  }
+  return { id: snapshot.docs[0].id, ...snapshot.docs[0].data() };
+}
+
+/**
+ * Request a write-off. The loan keeps its status until the request is approved.
+ */
+export async function requestLoanWriteOff(params: RequestWriteOffParams): Promise<{
+  success: boolean;
+  error?: string;
+  writeOffId?: string;
+}> {
+  const { loanId, agencyId, userId, userRole, reason } = params;
+
+  try {
+    if (!reason.trim()) {
+      return { success: false, error: 'A reason is required to write off a loan' };
+    }
+
+    const loanSnap = await getDoc(doc(db, 'agencies', agencyId, 'loans', loanId));
+    if (!loanSnap.exists()) {
+      return { success: false, error: 'Loan not found' };
+    }
+
+    const currentStatus = loanSnap.data().status as LoanStatus;
+    if (!getLoanPermissions(userRole, currentStatus).canRequestWriteOff) {
+      return { success: false, error: 'Only overdue, restructured or defaulted loans can be written off' };
+    }
+
+    if (await getPendingWriteOff(agencyId, loanId)) {
+      return { success: false, error: 'A write-off request is already awaiting approval' };
+    }
+
+    const preview = await previewLoanWriteOff(agencyId, loanId);
+    if (preview.total <= 0) {
+      return { success: false, error: 'Loan has no outstanding balance to write off' };
+    }
+
+    const writeOffRef = await addDoc(collection(db, 'agencies', agencyId, 'loans', loanId, 'writeOffs'), {
+      status: 'pending',
+      previousStatus: currentStatus,
+      reason,
+      preview,
+      requestedBy: userId,
+      requestedByRole: userRole,
+      requestedAt: serverTimestamp(),
+    });
+
+    await createAuditLog(agencyId, {
+      actorId: userId,
+      action: 'loan_write_off_requested',
+      targetCollection: 'loans',
+      targetId: loanId,
+      metadata: {
+        action: LoanAuditAction.WRITE_OFF_REQUESTED,
+        writeOffId: writeOffRef.id,
+        reason,
+        total: preview.total,
+      },
+    });
+
+    return { success: true, writeOffId: writeOffRef.id };
+  } catch (error: any) {
+    console.error('Error requesting loan write-off:', error);
+    return { success: false, error: error.message || 'Failed to request write-off' };
+  }
+}
+
+/**
+ * Approve a write-off (Overdue/Restructured/Defaulted → Written Off)
+ *
+ * The balances are worked out again by the status transition at approval
+ * time, so payments received since the request are not written off.
+ */
+export async function approveLoanWriteOff(params: WriteOffDecisionParams): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  const { loanId, agencyId, writeOffId, userId, userRole, notes } = params;
+
+  try {
+    const result = await changeLoanStatus({
+      loanId,
+      agencyId,
+      newStatus: LoanStatus.WRITTEN_OFF,
+      userId,
+      userRole,
+      notes,
+    });
+
+    if (!result.success) {
+      return result;
+    }
+
+    await createAuditLog(agencyId, {
+      actorId: userId,
+      action: 'loan_write_off_approved',
+      targetCollection: 'loans',
+      targetId: loanId,
+      metadata: {
+        action: LoanAuditAction.WRITE_OFF_APPROVED,
+        writeOffId,
+        notes,
+      },
+    });
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error approving loan write-off:', error);
+    return { success: false, error: error.message || 'Failed to approve write-off' };
+  }
+}
+
+/**
+ * Reject a write-off request. The loan carries on as before.
+ */
+export async function rejectLoanWriteOff(params: WriteOffDecisionParams): Promise<{
+  success: boolean;
+  error?: string;
+}> {
+  const { loanId, agencyId, writeOffId, userId, userRole, notes } = params;
+
+  try {
+    const writeOffRef = doc(db, 'agencies', agencyId, 'loans', loanId, 'writeOffs', writeOffId);
+    const writeOffSnap = await getDoc(writeOffRef);
+    if (!writeOffSnap.exists()) {
+      return { success: false, error: 'Write-off request not found' };
+    }
+    if (writeOffSnap.data().status !== 'pending') {
+      return { success: false, error: `Write-off request is already ${writeOffSnap.data().status}` };
+    }
+
+    const loanSnap = await getDoc(doc(db, 'agencies', agencyId, 'loans', loanId));
+    if (!getLoanPermissions(userRole, loanSnap.data()?.status as LoanStatus).canWriteOff) {
+      return { success: false, error: 'You do not have permission to decide on write-offs' };
+    }
+
+    await updateDoc(writeOffRef, {
+      status: 'rejected',
+      reviewedBy: userId,
+      reviewedAt: serverTimestamp(),
+      reviewNotes: notes,
+    });
+
+    await createAuditLog(agencyId, {
+      actorId: userId,
+      action: 'loan_write_off_rejected',
+      targetCollection: 'loans',
+      targetId: loanId,
+      metadata: {
+        action: LoanAuditAction.WRITE_OFF_REJECTED,
+        writeOffId,
+        notes,
+      },
+    });
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Error rejecting loan write-off:', error);
+    return { success: false, error: error.message || 'Failed to reject write-off' };
+  }
+}
+
+/**
+ * Record money recovered on a written-off loan. Recoveries are capped at the
+ * balance still unrecovered and are posted to recovery income.
+ */
+export async function recordLoanRecovery(params: RecordRecoveryParams): Promise<{
+  success: boolean;
+  error?: string;
+  recoveryId?: string;
+}> {
+  const { agencyId, loanId, amount, recoveryDate, source, recordedBy } = params;
+
+  try {
+    if (!(amount > 0)) {
+      return { success: false, error: 'Recovery amount must be greater than zero' };
+    }
+    if ((await checkBackdating(agencyId, recoveryDate)) !== 'open') {
+      return { success: false, error: 'Recoveries cannot be dated in a closed period' };
+    }
+
+    const loanRef = doc(db, 'agencies', agencyId, 'loans', loanId);
+    const recoveriesRef = collection(loanRef, 'recoveries');
+    const recoveryRef = params.recoveryId ? doc(recoveriesRef, params.recoveryId) : doc(recoveriesRef);
+    const roundedAmount = Math.round(amount * 100) / 100;
+
+    await runTransaction(db, async (transaction) => {
+      const [loanSnap, existingSnap] = await Promise.all([
+        transaction.get(loanRef),
+        transaction.get(recoveryRef),
+      ]);
+      if (!loanSnap.exists()) {
+        throw new Error('Loan not found');
+      }
+      if (existingSnap.exists()) {
+        throw new Error('This recovery has already been recorded');
+      }
+
+      const loan = loanSnap.data();
+      if (loan.status !== LoanStatus.WRITTEN_OFF) {
+        throw new Error('Recoveries can only be recorded on written-off loans');
+      }
+
+      const recoverable = getRecoverableBalance(loan);
+      if (roundedAmount > recoverable + 0.005) {
+        throw new Error(`Only ${recoverable.toFixed(2)} remains to be recovered on this loan`);
+      }
+
+      transaction.set(recoveryRef, {
+        amount: roundedAmount,
+        recoveryDate: Timestamp.fromDate(recoveryDate),
+        source,
+        ...(params.reference ? { reference: params.reference } : {}),
+        ...(params.notes ? { notes: params.notes } : {}),
+        ...(params.collateralId ? { collateralId: params.collateralId } : {}),
+        recordedBy,
+        createdAt: serverTimestamp(),
+      });
+      transaction.update(loanRef, {
+        recoveredAmount: Math.round((Number(loan.recoveredAmount || 0) + roundedAmount) * 100) / 100,
+        lastRecoveryAt: Timestamp.fromDate(recoveryDate),
+        updatedAt: serverTimestamp(),
+      });
+    });
+
+    createAuditLog(agencyId, {
+      actorId: recordedBy,
+      action: 'loan_recovery_recorded',
+      targetCollection: 'loans',
+      targetId: loanId,
+      metadata: {
+        action: LoanAuditAction.RECOVERY_RECORDED,
+        recoveryId: recoveryRef.id,
+        amount: roundedAmount,
+        source,
+      },
+    }).catch(() => {
+      // Ignore audit log errors
+    });
+
+    return { success: true, recoveryId: recoveryRef.id };
+  } catch (error: any) {
+    console.error('Error recording loan recovery:', error);
+    return { success: false, error: error.message || 'Failed to record recovery' };
+  }
+}
+
+/**
+ * Recoveries recorded on a loan, newest first
+ */
+export async function getLoanRecoveries(agencyId: string, loanId: string): Promise<LoanRecovery[]> {
+  const snapshot = await getDocs(
+    query(collection(db, 'agencies', agencyId, 'loans', loanId, 'recoveries'), orderBy('recoveryDate', 'desc'))
+  );
+  return snapshot.docs.map((d) => {
+    const data = d.data();
+    return {
+      id: d.id,
+      ...data,
+      recoveryDate: data.recoveryDate?.toDate?.() || new Date(data.recoveryDate),
+    } as LoanRecovery;
+  });
+}
+
+/**
+ * Gross write-offs and losses net of recoveries across an agency's loans
+ */
+export async function getCreditLossSummary(agencyId: string): Promise<CreditLossSummary> {
+  const snapshot = await getDocs(
+    query(collection(db, 'agencies', agencyId, 'loans'), where('status', '==', LoanStatus.WRITTEN_OFF))
+  );
+  return summarizeCreditLosses(snapshot.docs.map((d) => d.data()).filter((loan) => !loan.deleted));
+}
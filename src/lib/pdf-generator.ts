@@ -3,6 +3,8 @@
  * Uses jsPDF library (needs to be installed: npm install jspdf)
  */
 
+import type { ReportPack, ReturnValueFormat } from '../../packages/loan-rules/src/regulatory-returns';
+
 interface AmortizationRow {
   month: number;
   payment: number;
@@ -566,3 +568,575 @@ export async function downloadLoanSummaryPDF(data: LoanSummaryPDFData, filename?
   }
 }
 
+
+/**
+ * Early Settlement Quote PDF Data Interface
+ */
+export interface SettlementQuotePDFData {
+  quoteId: string;
+  loanId: string;
+  customerName: string;
+  agencyName?: string;
+  settlementDate: Date;
+  validUntil: Date;
+  rebateMethodLabel: string;
+  arrears: number;
+  principalNotYetDue: number;
+  feesNotYetDue: number;
+  contractualInterest: number;
+  interestCharged: number;
+  rebate: number;
+  penalty: number;
+  payoffAmount: number;
+}
+
+/**
+ * Generate a dated early settlement quote for the borrower
+ */
+export async function generateSettlementQuotePDF(data: SettlementQuotePDFData): Promise<Blob> {
+  try {
+    const jsPDFModule = await import('jspdf');
+    const jsPDF = (jsPDFModule.default || jsPDFModule.jsPDF || jsPDFModule) as any;
+    const doc = new jsPDF();
+    const formatAmount = (value: number) =>
+      `${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ZMW`;
+
+    // Title
+    doc.setFontSize(20);
+    doc.text('Early Settlement Quote', 105, 20, { align: 'center' });
+    if (data.agencyName) {
+      doc.setFontSize(11);
+      doc.text(data.agencyName, 105, 28, { align: 'center' });
+    }
+
+    // Quote Details
+    doc.setFontSize(12);
+    let yPos = 40;
+    doc.text(`Quote Reference: ${data.quoteId}`, 20, yPos);
+    yPos += 7;
+    doc.text(`Loan ID: ${data.loanId}`, 20, yPos);
+    yPos += 7;
+    doc.text(`Customer: ${data.customerName}`, 20, yPos);
+    yPos += 7;
+    doc.text(`Settlement Date: ${data.settlementDate.toLocaleDateString()}`, 20, yPos);
+    yPos += 7;
+    doc.text(`Valid Until: ${data.validUntil.toLocaleString()}`, 20, yPos);
+    yPos += 7;
+    doc.text(`Interest Rebate Rule: ${data.rebateMethodLabel}`, 20, yPos);
+    yPos += 12;
+
+    // Breakdown
+    doc.setFont(undefined, 'bold');
+    doc.text('Payoff Breakdown', 20, yPos);
+    yPos += 8;
+    doc.setFont(undefined, 'normal');
+
+    const rows: Array<[string, number]> = [
+      ['Arrears (due and unpaid)', data.arrears],
+      ['Principal not yet due', data.principalNotYetDue],
+      ['Fees not yet due', data.feesNotYetDue],
+      ['Scheduled interest not yet due', data.contractualInterest],
+      ['Less: interest rebate', -data.rebate],
+      ['Interest charged', data.interestCharged],
+    ];
+    if (data.penalty > 0) {
+      rows.push(['Early settlement penalty', data.penalty]);
+    }
+
+    rows.forEach(([label, value]) => {
+      doc.text(label, 20, yPos);
+      doc.text(formatAmount(value), 190, yPos, { align: 'right' });
+      yPos += 7;
+    });
+
+    yPos += 3;
+    doc.line(20, yPos, 190, yPos);
+    yPos += 8;
+    doc.setFont(undefined, 'bold');
+    doc.text('Amount Payable to Settle', 20, yPos);
+    doc.text(formatAmount(data.payoffAmount), 190, yPos, { align: 'right' });
+    doc.setFont(undefined, 'normal');
+    yPos += 14;
+
+    // Terms
+    doc.setFontSize(9);
+    const terms = doc.splitTextToSize(
+      'This quote is valid only for payment received on or before the validity date shown above. ' +
+      'Payments received after that date, or further payments made on the loan before settlement, ' +
+      'require a new quote. The loan is closed once the full amount payable is received.',
+      170
+    );
+    doc.text(terms, 20, yPos);
+
+    // Footer
+    const pageCount = doc.getNumberOfPages();
+    for (let i = 1; i <= pageCount; i++) {
+      doc.setPage(i);
+      doc.setFontSize(8);
+      doc.text(
+        `Page ${i} of ${pageCount} • Generated on ${new Date().toLocaleDateString()}`,
+        105,
+        285,
+        { align: 'center' }
+      );
+    }
+
+    return doc.output('blob');
+  } catch (error) {
+    console.warn('jsPDF not available:', error);
+    throw new Error('PDF generation requires jsPDF library. Install it with: npm install jspdf');
+  }
+}
+
+/**
+ * Download early settlement quote PDF
+ */
+export async function downloadSettlementQuotePDF(data: SettlementQuotePDFData, filename?: string) {
+  try {
+    const blob = await generateSettlementQuotePDF(data);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename || `settlement-quote-${data.loanId}.pdf`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  } catch (error: any) {
+    console.error('Failed to generate settlement quote PDF:', error);
+    throw error;
+  }
+}
+
+/**
+ * Generate a regulatory report pack, one landscape section per return
+ */
+export async function generateRegulatoryReportPackPDF(pack: ReportPack): Promise<Blob> {
+  try {
+    const jsPDFModule = await import('jspdf');
+    const jsPDF = (jsPDFModule.default || jsPDFModule.jsPDF || jsPDFModule) as any;
+    const doc = new jsPDF({ orientation: 'landscape' });
+    const formatValue = (value: string | number | undefined, format: ReturnValueFormat) => {
+      if (value === undefined || value === '') return '';
+      if (typeof value !== 'number') return String(value);
+      if (format === 'amount') return value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+      if (format === 'percent') return `${value.toFixed(2)}%`;
+      return value.toLocaleString('en-US');
+    };
+
+    pack.returns.forEach((ret, index) => {
+      if (index > 0) doc.addPage();
+
+      // Return header
+      doc.setFontSize(16);
+      doc.text(`${ret.code} - ${ret.title}`, 148, 15, { align: 'center' });
+      doc.setFontSize(10);
+      doc.text(`Institution: ${pack.institutionName}`, 10, 25);
+      doc.text(`Licence Number: ${pack.licenceNumber}`, 10, 31);
+      doc.text(`Reporting Period: ${pack.periodStart} to ${pack.asOf}`, 150, 25);
+      doc.text('Currency: ZMW', 150, 31);
+
+      // Table, repeating the column headings on each page
+      const columnWidth = 277 / ret.columns.length;
+      const drawHeadings = (y: number) => {
+        doc.setFont(undefined, 'bold');
+        ret.columns.forEach((column, i) => {
+          doc.text(doc.splitTextToSize(column.label, columnWidth - 2)[0], 10 + i * columnWidth, y);
+        });
+        doc.setFont(undefined, 'normal');
+        doc.line(10, y + 2, 287, y + 2);
+        return y + 8;
+      };
+
+      let yPos = drawHeadings(42);
+      const tableRows = ret.totals ? [...ret.rows, ret.totals] : ret.rows;
+      if (tableRows.length === 0) {
+        doc.text('Nil return', 10, yPos);
+        yPos += 7;
+      }
+      tableRows.forEach((row, rowIndex) => {
+        if (yPos > 185) {
+          doc.addPage();
+          yPos = drawHeadings(15);
+        }
+        const isTotal = ret.totals && rowIndex === tableRows.length - 1;
+        if (isTotal) {
+          doc.line(10, yPos - 5, 287, yPos - 5);
+          doc.setFont(undefined, 'bold');
+        }
+        ret.columns.forEach((column, i) => {
+          const text = doc.splitTextToSize(formatValue(row[column.key], column.format), columnWidth - 2)[0] || '';
+          doc.text(text, 10 + i * columnWidth, yPos);
+        });
+        doc.setFont(undefined, 'normal');
+        yPos += 7;
+      });
+
+      // Key ratios
+      yPos += 5;
+      ret.summary.forEach((item) => {
+        if (yPos > 190) {
+          doc.addPage();
+          yPos = 15;
+        }
+        doc.text(item.label, 10, yPos);
+        doc.text(formatValue(item.value, item.format), 150, yPos);
+        yPos += 6;
+      });
+    });
+
+    // Footer
+    const pageCount = doc.getNumberOfPages();
+    for (let i = 1; i <= pageCount; i++) {
+      doc.setPage(i);
+      doc.setFontSize(8);
+      doc.text(
+        `Page ${i} of ${pageCount} • Generated on ${new Date().toLocaleDateString()}`,
+        148,
+        205,
+        { align: 'center' }
+      );
+    }
+
+    return doc.output('blob');
+  } catch (error) {
+    console.warn('jsPDF not available:', error);
+    throw new Error('PDF generation requires jsPDF library. Install it with: npm install jspdf');
+  }
+}
+
+/**
+ * Download regulatory report pack PDF
+ */
+export async function downloadRegulatoryReportPackPDF(pack: ReportPack, filename?: string) {
+  try {
+    const blob = await generateRegulatoryReportPackPDF(pack);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename || `regulatory-returns-${pack.asOf}.pdf`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  } catch (error: any) {
+    console.error('Failed to generate regulatory report pack PDF:', error);
+    throw error;
+  }
+}
+
+/**
+ * Lien Release Letter PDF Data Interface
+ */
+export interface LienReleaseLetterPDFData {
+  lienId: string;
+  loanId: string;
+  customerName: string;
+  agencyName?: string;
+  collateralName: string;
+  collateralType: string;
+  identifiers: Array<[string, string]>; // Label and value, e.g. registration number
+  rank: number;
+  coverageAmount: number;
+  pledgedAt?: Date;
+  releasedAt: Date;
+  releaseReason: string;
+}
+
+/**
+ * Generate a letter confirming the agency's charge over collateral is released
+ */
+export async function generateLienReleaseLetterPDF(data: LienReleaseLetterPDFData): Promise<Blob> {
+  try {
+    const jsPDFModule = await import('jspdf');
+    const jsPDF = (jsPDFModule.default || jsPDFModule.jsPDF || jsPDFModule) as any;
+    const doc = new jsPDF();
+    const formatAmount = (value: number) =>
+      `${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ZMW`;
+
+    // Title
+    doc.setFontSize(20);
+    doc.text('Release of Lien', 105, 20, { align: 'center' });
+    if (data.agencyName) {
+      doc.setFontSize(11);
+      doc.text(data.agencyName, 105, 28, { align: 'center' });
+    }
+
+    doc.setFontSize(12);
+    let yPos = 40;
+    doc.text(`Date: ${data.releasedAt.toLocaleDateString()}`, 20, yPos);
+    yPos += 7;
+    doc.text(`Reference: ${data.lienId}`, 20, yPos);
+    yPos += 12;
+    doc.text(`To: ${data.customerName}`, 20, yPos);
+    yPos += 12;
+
+    const body = doc.splitTextToSize(
+      `${data.agencyName || 'The lender'} confirms that the charge it held over the asset described below, ` +
+      `as security for loan ${data.loanId}, is released with effect from ${data.releasedAt.toLocaleDateString()}. ` +
+      'The lender no longer has any claim over the asset in respect of this loan.',
+      170
+    );
+    doc.text(body, 20, yPos);
+    yPos += body.length * 6 + 8;
+
+    // Asset
+    doc.setFont(undefined, 'bold');
+    doc.text('Asset', 20, yPos);
+    yPos += 8;
+    doc.setFont(undefined, 'normal');
+
+    const rows: Array<[string, string]> = [
+      ['Description', data.collateralName],
+      ['Type', data.collateralType.replace(/_/g, ' ')],
+      ...data.identifiers,
+      ['Charge rank', String(data.rank)],
+      ['Amount secured', formatAmount(data.coverageAmount)],
+    ];
+    if (data.pledgedAt) {
+      rows.push(['Pledged on', data.pledgedAt.toLocaleDateString()]);
+    }
+    if (data.releaseReason) {
+      rows.push(['Reason for release', data.releaseReason]);
+    }
+
+    rows.forEach(([label, value]) => {
+      doc.text(label, 20, yPos);
+      doc.text(value, 190, yPos, { align: 'right' });
+      yPos += 7;
+    });
+
+    yPos += 20;
+    doc.line(20, yPos, 90, yPos);
+    yPos += 6;
+    doc.setFontSize(10);
+    doc.text('Authorised signatory', 20, yPos);
+
+    // Footer
+    const pageCount = doc.getNumberOfPages();
+    for (let i = 1; i <= pageCount; i++) {
+      doc.setPage(i);
+      doc.setFontSize(8);
+      doc.text(
+        `Page ${i} of ${pageCount} • Generated on ${new Date().toLocaleDateString()}`,
+        105,
+        285,
+        { align: 'center' }
+      );
+    }
+
+    return doc.output('blob');
+  } catch (error) {
+    console.warn('jsPDF not available:', error);
+    throw new Error('PDF generation requires jsPDF library. Install it with: npm install jspdf');
+  }
+}
+
+/**
+ * Download lien release letter PDF
+ */
+export async function downloadLienReleaseLetterPDF(data: LienReleaseLetterPDFData, filename?: string) {
+  try {
+    const blob = await generateLienReleaseLetterPDF(data);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename || `lien-release-${data.lienId}.pdf`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  } catch (error: any) {
+    console.error('Failed to generate lien release letter PDF:', error);
+    throw error;
+  }
+}
+
+export interface RepossessionNoticePDFData {
+  noticeType: 'intent' | 'seizure' | 'sale' | 'statement';
+  caseId: string;
+  loanId: string;
+  customerName: string;
+  agencyName?: string;
+  issuedAt: Date;
+  collateralName: string;
+  collateralType: string;
+  identifiers: Array<[string, string]>; // Label and value, e.g. registration number
+  amountInArrears: number;
+  remedyEndsAt: Date;
+  seizedAt?: Date;
+  storageLocation?: string;
+  redemptionEndsAt?: Date;
+  saleMethod?: 'auction' | 'private_sale';
+  saleDate?: Date;
+  soldAt?: Date;
+  costs: Array<{ type: string; amount: number; date: Date; description?: string }>;
+  liquidation?: {
+    grossProceeds: number;
+    costs: number;
+    netProceeds: number;
+    amountOwed: number;
+    appliedToLoan: number;
+    surplus: number;
+    shortfall: number;
+  };
+}
+
+const REPOSSESSION_NOTICE_TITLES: Record<RepossessionNoticePDFData['noticeType'], string> = {
+  intent: 'Notice of Intention to Repossess',
+  seizure: 'Notice of Repossession',
+  sale: 'Notice of Intended Sale',
+  statement: 'Statement of Account after Sale',
+};
+
+/**
+ * Generate a notice sent to the borrower at a step of a repossession
+ */
+export async function generateRepossessionNoticePDF(data: RepossessionNoticePDFData): Promise<Blob> {
+  try {
+    const jsPDFModule = await import('jspdf');
+    const jsPDF = (jsPDFModule.default || jsPDFModule.jsPDF || jsPDFModule) as any;
+    const doc = new jsPDF();
+    const formatAmount = (value: number) =>
+      `${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ZMW`;
+    const lender = data.agencyName || 'The lender';
+
+    // Title
+    doc.setFontSize(20);
+    doc.text(REPOSSESSION_NOTICE_TITLES[data.noticeType], 105, 20, { align: 'center' });
+    if (data.agencyName) {
+      doc.setFontSize(11);
+      doc.text(data.agencyName, 105, 28, { align: 'center' });
+    }
+
+    doc.setFontSize(12);
+    let yPos = 40;
+    doc.text(`Date: ${data.issuedAt.toLocaleDateString()}`, 20, yPos);
+    yPos += 7;
+    doc.text(`Reference: ${data.caseId}`, 20, yPos);
+    yPos += 7;
+    doc.text(`Loan: ${data.loanId}`, 20, yPos);
+    yPos += 12;
+    doc.text(`To: ${data.customerName}`, 20, yPos);
+    yPos += 12;
+
+    let text = '';
+    if (data.noticeType === 'intent') {
+      text =
+        `You are in arrears on the loan above, with ${formatAmount(data.amountInArrears)} overdue. ` +
+        `Unless the overdue amount is paid by ${data.remedyEndsAt.toLocaleDateString()}, ${lender} intends to ` +
+        'take possession of the asset described below, which secures the loan.';
+    } else if (data.noticeType === 'seizure') {
+      text =
+        `${lender} took possession of the asset described below on ${data.seizedAt?.toLocaleDateString() || ''}` +
+        `${data.storageLocation ? ` and holds it at ${data.storageLocation}` : ''}. ` +
+        'You may redeem the asset by paying the balance owed on the loan and the costs of repossession' +
+        `${data.redemptionEndsAt ? ` before ${data.redemptionEndsAt.toLocaleDateString()}` : ''}, ` +
+        'after which it may be sold.';
+    } else if (data.noticeType === 'sale') {
+      text =
+        `${lender} intends to sell the asset described below by ` +
+        `${data.saleMethod === 'auction' ? 'public auction' : 'private sale'} on or after ` +
+        `${data.saleDate?.toLocaleDateString() || ''}. You may still redeem the asset before the sale by paying ` +
+        'the balance owed on the loan and the costs of repossession. The proceeds of the sale will be applied ' +
+        'to the loan and any surplus returned to you.';
+    } else {
+      const liquidation = data.liquidation;
+      text =
+        `The asset described below was sold on ${data.soldAt?.toLocaleDateString() || ''}. ` +
+        'The proceeds were applied to the loan as set out below. ' +
+        (liquidation && liquidation.surplus > 0
+          ? `The surplus of ${formatAmount(liquidation.surplus)} is due to you and will be paid to you.`
+          : liquidation && liquidation.shortfall > 0
+            ? `A balance of ${formatAmount(liquidation.shortfall)} remains owed on the loan.`
+            : 'The loan is settled in full.');
+    }
+    const body = doc.splitTextToSize(text, 170);
+    doc.text(body, 20, yPos);
+    yPos += body.length * 6 + 8;
+
+    const printRows = (heading: string, rows: Array<[string, string]>) => {
+      doc.setFont(undefined, 'bold');
+      doc.text(heading, 20, yPos);
+      yPos += 8;
+      doc.setFont(undefined, 'normal');
+      rows.forEach(([label, value]) => {
+        if (yPos > 270) {
+          doc.addPage();
+          yPos = 20;
+        }
+        doc.text(label, 20, yPos);
+        doc.text(value, 190, yPos, { align: 'right' });
+        yPos += 7;
+      });
+      yPos += 6;
+    };
+
+    // Asset
+    printRows('Asset', [
+      ['Description', data.collateralName],
+      ['Type', data.collateralType.replace(/_/g, ' ')],
+      ...data.identifiers,
+    ]);
+
+    if (data.noticeType === 'statement' && data.liquidation) {
+      const liquidation = data.liquidation;
+      printRows('Account of sale', [
+        ['Sale price', formatAmount(liquidation.grossProceeds)],
+        ...data.costs.map((cost): [string, string] => [
+          `Less ${cost.description || cost.type.replace(/_/g, ' ')} (${cost.date.toLocaleDateString()})`,
+          formatAmount(cost.amount),
+        ]),
+        ['Net proceeds', formatAmount(liquidation.netProceeds)],
+        ['Owed on the loan at sale', formatAmount(liquidation.amountOwed)],
+        ['Applied to the loan', formatAmount(liquidation.appliedToLoan)],
+        ['Surplus due to you', formatAmount(liquidation.surplus)],
+        ['Balance still owed', formatAmount(liquidation.shortfall)],
+      ]);
+    }
+
+    yPos += 14;
+    doc.line(20, yPos, 90, yPos);
+    yPos += 6;
+    doc.setFontSize(10);
+    doc.text('Authorised signatory', 20, yPos);
+
+    // Footer
+    const pageCount = doc.getNumberOfPages();
+    for (let i = 1; i <= pageCount; i++) {
+      doc.setPage(i);
+      doc.setFontSize(8);
+      doc.text(
+        `Page ${i} of ${pageCount} • Generated on ${new Date().toLocaleDateString()}`,
+        105,
+        285,
+        { align: 'center' }
+      );
+    }
+
+    return doc.output('blob');
+  } catch (error) {
+    console.warn('jsPDF not available:', error);
+    throw new Error('PDF generation requires jsPDF library. Install it with: npm install jspdf');
+  }
+}
+
+/**
+ * Download repossession notice PDF
+ */
+export async function downloadRepossessionNoticePDF(data: RepossessionNoticePDFData, filename?: string) {
+  try {
+    const blob = await generateRepossessionNoticePDF(data);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename || `repossession-${data.noticeType}-${data.caseId}.pdf`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  } catch (error: any) {
+    console.error('Failed to generate repossession notice PDF:', error);
+    throw error;
+  }
+}
@@ -201,6 +201,7 @@ export interface Branch {
   email: string;
   managerId?: string;
   isActive: boolean;
+  vaultBalance?: number; // Cash held in the branch vault
   settings: {
     timezone: string;
     currency: string;
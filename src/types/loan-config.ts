@@ -6,6 +6,13 @@
  */
 
 import { LucideIcon } from 'lucide-react';
+import type { InterestCalculationMethod, RepaymentFrequency } from '../../packages/loan-rules/src/schedule';
+import type { PaymentAllocationConfig } from '../../packages/loan-rules/src/allocation';
+import type { DecisionRule, RiskRules } from '../../packages/loan-rules/src/decision-rules';
+
+// Risk rules are evaluated by the shared decision engine, which owns their shape
+export type { RiskRules } from '../../packages/loan-rules/src/decision-rules';
+import type { CollateralInsuranceRequirement } from '../../packages/loan-rules/src/collateral-insurance';
 
 /**
  * Base loan type identifier
@@ -70,14 +77,10 @@ export interface LoanTypeRules {
 }
 
 /**
- * Interest calculation method
- */
-export type InterestCalculationMethod = 'simple' | 'compound' | 'flat' | 'reducing_balance';
-
-/**
- * Repayment frequency options
+ * Interest calculation method and repayment frequency options
+ * Owned by the shared schedule engine so frontend and Cloud Functions agree
  */
-export type RepaymentFrequency = 'daily' | 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'custom';
+export type { InterestCalculationMethod, RepaymentFrequency };
 
 /**
  * Collateral requirement level
@@ -116,20 +119,6 @@ export interface LoanTypeField {
   };
 }
 
-/**
- * Risk assessment rules for loan type
- */
-export interface RiskRules {
-  minCreditScore?: number;
-  maxDebtToIncome?: number;
-  minCollateralCoverage?: number; // Percentage (e.g., 120 = 120%)
-  maxLoanToValue?: number; // Percentage
-  requiredGuarantors?: number;
-  maxDefaultHistory?: number;
-  minBusinessAge?: number; // Months
-  minMonthlyIncome?: number;
-}
-
 /**
  * Interest rate configuration
  */
@@ -191,11 +180,13 @@ export interface LoanTypeConfig {
   
   // Requirements
   collateralRequirement: CollateralRequirement;
+  collateralInsurance?: CollateralInsuranceRequirement; // Assets that must be insured before disbursement
   requiredDocuments: DocumentRequirement[];
   customFields: LoanTypeField[];
   
   // Risk and validation
   riskRules: RiskRules;
+  decisionRules?: DecisionRule[]; // Custom credit decision rules evaluated with riskRules
   eligibilityCriteria: {
     minAge?: number;
     maxAge?: number;
@@ -209,6 +200,7 @@ export interface LoanTypeConfig {
   gracePeriodDays: number;
   lateFeeRate: number;
   maxLateFeeRate: number;
+  paymentAllocation?: PaymentAllocationConfig; // Waterfall order and overpayment handling (defaults to fees → penalties → interest → principal)
   
   // UI/UX
   displayOrder: number;